@@ -82,6 +82,8 @@ const DepartmentHeadDashboard = () => {
           .lte('start_date', today)
           .gte('end_date', today)
           .eq('vacation_plans.status', 'approved')
+          .is('vacation_plans.amends_plan_id', null)
+          .neq('status', 'cancelled')
           .eq('vacation_plans.department_id', userRole.department_id),
         supabase
           .from('training_events')
@@ -82,7 +82,9 @@ const FacilitySupervisorDashboard = () => {
           .select('id, vacation_plans!inner(status)', { count: 'exact', head: true })
           .lte('start_date', today)
           .gte('end_date', today)
-          .eq('vacation_plans.status', 'approved'),
+          .eq('vacation_plans.status', 'approved')
+          .is('vacation_plans.amends_plan_id', null)
+          .neq('status', 'cancelled'),
       ]);
 
       return {
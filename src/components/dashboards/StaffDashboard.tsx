@@ -6,7 +6,7 @@ import StaffTaskView from '@/components/tasks/StaffTaskView';
 import { VacationHub } from '@/modules/vacation';
 import { NotificationHub } from '@/modules/notifications';
 import { MessagingHub } from '@/modules/messaging';
-import { SchedulingHub } from '@/components/scheduling';
+import { SchedulingHub, ShiftClockCard, StaffAvailabilitySettings } from '@/components/scheduling';
 import TrainingHub from '@/components/training/TrainingHub';
 import { ModuleGuard } from '@/components/ModuleGuard';
 import { useModuleContext } from '@/contexts/ModuleContext';
@@ -26,7 +26,7 @@ const StaffDashboard = () => {
   // Real-time subscriptions for live updates
   useRealtimeSubscription({ table: 'task_assignments', invalidateQueries: ['my-tasks', 'staff-stats'] });
   useRealtimeSubscription({ table: 'vacation_plans', invalidateQueries: ['my-vacation', 'staff-stats'] });
-  useRealtimeSubscription({ table: 'shift_assignments', invalidateQueries: ['my-schedule'] });
+  useRealtimeSubscription({ table: 'shift_assignments', invalidateQueries: ['my-schedule', 'my-clock-shifts'] });
   useRealtimeSubscription({ table: 'notifications', invalidateQueries: ['notifications'] });
 
   const { data: stats } = useQuery({
@@ -47,6 +47,7 @@ const StaffDashboard = () => {
           .from('vacation_plans')
           .select('id', { count: 'exact', head: true })
           .eq('staff_id', user.id)
+          .is('amends_plan_id', null)
           .neq('status', 'rejected'),
         supabase
           .from('shift_assignments')
@@ -115,7 +116,7 @@ const StaffDashboard = () => {
       {activeTab === 'scheduling' && (
         <PageHeader 
           title="My Schedule" 
-          description="View your assigned shifts and work schedule"
+          description="View your assigned shifts, trade shifts and set your availability"
         />
       )}
       {activeTab === 'training' && (
@@ -163,6 +164,8 @@ const StaffDashboard = () => {
           </div>
         )}
 
+        {!activeTab && hasAccess('scheduling') && <ShiftClockCard />}
+
         {activeTab === 'tasks' && hasAccess('task_management') && (
           <ModuleGuard moduleKey="task_management">
             <StaffTaskView />
@@ -189,7 +192,10 @@ const StaffDashboard = () => {
 
         {activeTab === 'scheduling' && hasAccess('scheduling') && (
           <ModuleGuard moduleKey="scheduling">
-            <SchedulingHub />
+            <div className="space-y-6">
+              <SchedulingHub />
+              <StaffAvailabilitySettings />
+            </div>
           </ModuleGuard>
         )}
 
@@ -74,7 +74,9 @@ const WorkplaceSupervisorDashboard = () => {
           .select('id, vacation_plans!inner(status)', { count: 'exact', head: true })
           .lte('start_date', today)
           .gte('end_date', today)
-          .eq('vacation_plans.status', 'approved'),
+          .eq('vacation_plans.status', 'approved')
+          .is('vacation_plans.amends_plan_id', null)
+          .neq('status', 'cancelled'),
         supabase
           .from('schedules')
           .select('id', { count: 'exact', head: true })
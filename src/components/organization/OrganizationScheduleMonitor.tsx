@@ -6,6 +6,7 @@ import { Calendar, Clock, Users, FileText } from 'lucide-react';
 import { LoadingState } from '@/components/layout/LoadingState';
 import { EmptyState } from '@/components/layout/EmptyState';
 import { StatsCard } from '@/components/shared';
+import { ShiftCoverageView } from '@/components/scheduling';
 import { format } from 'date-fns';
 
 interface OrganizationScheduleMonitorProps {
@@ -133,6 +134,11 @@ const OrganizationScheduleMonitor = ({ organizationId }: OrganizationScheduleMon
         />
       </div>
 
+      {/* Coverage rolled up by workspace, facility and department */}
+      {workspaceIds && workspaceIds.length > 0 && (
+        <ShiftCoverageView scope={{ workspaceIds }} rollUpLevels={['workspace', 'facility', 'department']} />
+      )}
+
       {/* Recent Schedules */}
       <Card>
         <CardHeader>
@@ -8,6 +8,7 @@ import { EmptyState } from '@/components/layout/EmptyState';
 import { StatsCard } from '@/components/shared';
 import { format } from 'date-fns';
 import { safeProfileName } from '@/lib/utils';
+import VacationReport from '@/components/vacation/VacationReport';
 
 interface OrganizationVacationMonitorProps {
   organizationId: string;
@@ -222,6 +223,8 @@ const OrganizationVacationMonitor = ({ organizationId }: OrganizationVacationMon
           )}
         </CardContent>
       </Card>
+
+      <VacationReport organizationId={organizationId} />
     </div>
   );
 };
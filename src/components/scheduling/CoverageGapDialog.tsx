@@ -0,0 +1,132 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { UserPlus, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { LoadingState } from '@/components/layout/LoadingState';
+import { EmptyState } from '@/components/layout/EmptyState';
+import { getLaborRuleErrorMessage } from '@/lib/laborRules';
+import { fetchRosterInput } from '@/lib/rosterGeneration';
+import { fetchStaffAvailability } from '@/lib/staffAvailability';
+import { formatShiftTimes } from '@/lib/shiftTimes';
+import { getCoverageGapCandidates, type ShiftCoverageSlot } from '@/lib/shiftCoverage';
+
+interface CoverageGapDialogProps {
+  slot: ShiftCoverageSlot | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Eligible, available staff for an understaffed shift, with a shortcut to assign them
+ */
+export const CoverageGapDialog: React.FC<CoverageGapDialogProps> = ({ slot, onOpenChange }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: input, isLoading: inputLoading } = useQuery({
+    queryKey: ['roster-input', slot?.schedule_id],
+    queryFn: () => fetchRosterInput(slot!.schedule_id),
+    enabled: !!slot,
+  });
+
+  const staffIds = input?.staff.map(member => member.id) || [];
+  const { data: availability, isLoading: availabilityLoading } = useQuery({
+    queryKey: ['staff-availability', slot?.department_id, staffIds],
+    queryFn: () => fetchStaffAvailability(staffIds),
+    enabled: !!input,
+  });
+
+  const candidates = slot && input && availability
+    ? getCoverageGapCandidates(input, availability.availability, availability.preferences, slot.shift, slot.date)
+    : [];
+
+  const assignMutation = useMutation({
+    mutationFn: async (staffId: string) => {
+      const { error } = await supabase.from('shift_assignments').insert({
+        shift_id: slot!.shift.id,
+        staff_id: staffId,
+        assignment_date: slot!.date,
+        assigned_by: user!.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-coverage'] });
+      queryClient.invalidateQueries({ queryKey: ['scheduling-dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['roster-input', slot?.schedule_id] });
+      queryClient.invalidateQueries({ queryKey: ['shift-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['schedule-unpublished-changes'] });
+      toast.success('Staff assigned');
+      onOpenChange(false);
+    },
+    onError: (error: Error & { details?: string }) => toast.error(getLaborRuleErrorMessage(error, 'Failed to assign staff')),
+  });
+
+  return (
+    <Dialog open={!!slot} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto w-[95vw] sm:w-full">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Fill {slot?.shift.name}
+          </DialogTitle>
+          <DialogDescription>
+            {slot && (
+              <>
+                {slot.department_name} · {format(parseISO(slot.date), 'EEEE, MMM d')} · {formatShiftTimes(slot.shift)}
+                <br />
+                {slot.assigned} of {slot.required} staff assigned
+                {slot.staff_names.length > 0 && `: ${slot.staff_names.join(', ')}`}
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {inputLoading || availabilityLoading ? (
+          <LoadingState message="Finding available staff..." />
+        ) : candidates.length === 0 ? (
+          <EmptyState
+            icon={Users}
+            title="No one available"
+            description="Every staff member is on vacation, unavailable, already working or short of rest around this shift."
+          />
+        ) : (
+          <div className="space-y-2">
+            {candidates.map(candidate => (
+              <div key={candidate.staff_id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                <div className="space-y-1">
+                  <p className="font-medium">{candidate.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {candidate.shifts} shift{candidate.shifts === 1 ? '' : 's'} in this schedule
+                  </p>
+                  {candidate.warnings.map(warning => (
+                    <Badge
+                      key={warning.message}
+                      variant="outline"
+                      className={warning.kind === 'preferred' ? 'text-success border-success/40' : 'text-warning border-warning/40'}
+                    >
+                      {warning.message}
+                    </Badge>
+                  ))}
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => assignMutation.mutate(candidate.staff_id)}
+                  disabled={assignMutation.isPending}
+                >
+                  <UserPlus className="h-4 w-4 mr-1" />
+                  Assign
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
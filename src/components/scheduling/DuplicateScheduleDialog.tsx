@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, CheckCircle2, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DUPLICATION_SKIP_REASON_LABELS,
+  duplicateSchedule,
+  getNextSchedulePeriod,
+  type DuplicationResult,
+} from '@/lib/scheduleDuplication';
+
+interface DuplicateScheduleDialogProps {
+  schedule: {
+    id: string;
+    name: string;
+    start_date: string;
+    end_date: string;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Roll a schedule forward to the next period as a new draft, reporting assignments that could not be carried over
+ */
+export const DuplicateScheduleDialog: React.FC<DuplicateScheduleDialogProps> = ({ schedule, onOpenChange }) => {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [copyAssignments, setCopyAssignments] = useState(true);
+  const [result, setResult] = useState<DuplicationResult | null>(null);
+
+  useEffect(() => {
+    if (!schedule) return;
+    const next = getNextSchedulePeriod(schedule.start_date, schedule.end_date);
+    setName(`${schedule.name} (${format(parseISO(next.startDate), 'MMM d')})`);
+    setStartDate(next.startDate);
+    setEndDate(next.endDate);
+    setCopyAssignments(true);
+    setResult(null);
+  }, [schedule]);
+
+  const duplicateMutation = useMutation({
+    mutationFn: () => duplicateSchedule(schedule!.id, startDate, endDate, name.trim(), copyAssignments),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['facility-schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['schedules'] });
+      setResult(data);
+      toast.success(`Created draft schedule "${name.trim()}"`);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to duplicate schedule'),
+  });
+
+  const isValid = name.trim() && startDate && endDate && endDate >= startDate;
+
+  return (
+    <Dialog open={!!schedule} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto w-[95vw] sm:w-full">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="h-5 w-5" />
+            Duplicate to Next Period
+          </DialogTitle>
+          <DialogDescription>
+            Copy the shifts of {schedule?.name} to a new draft schedule.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm">
+              <CheckCircle2 className="h-4 w-4 text-success" />
+              <span>
+                {result.shifts} shift{result.shifts === 1 ? '' : 's'} copied
+                {copyAssignments && `, ${result.copied} assignment${result.copied === 1 ? '' : 's'} carried over`}
+              </span>
+            </div>
+
+            {result.skipped.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-warning" />
+                  {result.skipped.length} assignment{result.skipped.length === 1 ? '' : 's'} could not be carried over
+                </p>
+                <div className="max-h-[300px] overflow-y-auto border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Staff</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Shift</TableHead>
+                        <TableHead>Reason</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.skipped.map(skip => (
+                        <TableRow key={`${skip.staff_id}-${skip.date}-${skip.shift_name}`}>
+                          <TableCell>{skip.staff_name || 'Unknown'}</TableCell>
+                          <TableCell className="whitespace-nowrap">{format(parseISO(skip.date), 'EEE, MMM d')}</TableCell>
+                          <TableCell>{skip.shift_name}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{DUPLICATION_SKIP_REASON_LABELS[skip.reason] || skip.reason}</Badge>
+                            {skip.message && (
+                              <p className="text-xs text-muted-foreground mt-1">{skip.message}</p>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="duplicate-name">Schedule Name</Label>
+              <Input id="duplicate-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="grid gap-4 grid-cols-1 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="duplicate-start">Start Date</Label>
+                <Input id="duplicate-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="duplicate-end">End Date</Label>
+                <Input id="duplicate-end" type="date" min={startDate} value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex items-start justify-between gap-4 rounded-md border p-3">
+              <div className="space-y-1">
+                <Label htmlFor="duplicate-assignments">Copy staff assignments</Label>
+                <p className="text-xs text-muted-foreground">
+                  Repeat assignments on the same weekdays. Staff on approved vacation, no longer in the
+                  department or over their labor limits are skipped.
+                </p>
+              </div>
+              <Switch id="duplicate-assignments" checked={copyAssignments} onCheckedChange={setCopyAssignments} />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={() => duplicateMutation.mutate()} disabled={!isValid || duplicateMutation.isPending}>
+                {duplicateMutation.isPending ? 'Duplicating...' : 'Create Draft'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
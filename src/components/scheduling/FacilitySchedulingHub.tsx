@@ -2,6 +2,9 @@ import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth';
+import { isOvernightShift } from '@/lib/shiftTimes';
+import type { ShiftTemplate } from '@/lib/schedulingTemplates';
+import { publishScheduleRevision } from '@/lib/scheduleRevisions';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -11,7 +14,7 @@ import { Badge } from '@/components/ui/badge';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Plus, Calendar, ClipboardList, LayoutDashboard, Clock, Send, Trash2, Filter } from 'lucide-react';
+import { Plus, Calendar, ClipboardList, LayoutDashboard, Clock, Send, Trash2, Filter, ShieldCheck, Repeat, Copy, Timer } from 'lucide-react';
 import { toast } from 'sonner';
 import { format, parseISO } from 'date-fns';
 import { LoadingState } from '@/components/layout/LoadingState';
@@ -19,6 +22,13 @@ import { EmptyState } from '@/components/layout/EmptyState';
 import ErrorBoundary from '@/components/ErrorBoundary';
 import { ShiftCalendarView } from './ShiftCalendarView';
 import { SchedulingDashboard } from './SchedulingDashboard';
+import { LaborRulesManagement } from './LaborRulesManagement';
+import { ShiftTemplatePicker } from './ShiftTemplatePicker';
+import { ScheduleRevisionActions } from './ScheduleRevisionActions';
+import { SchedulingTemplatesManager } from './SchedulingTemplatesManager';
+import { DuplicateScheduleDialog } from './DuplicateScheduleDialog';
+import { ShiftCoverageView } from './ShiftCoverageView';
+import { TimesheetApprovals } from './TimesheetApprovals';
 
 interface FacilitySchedulingHubProps {
   facilityId?: string;
@@ -43,6 +53,7 @@ export const FacilitySchedulingHub: React.FC<FacilitySchedulingHubProps> = ({ fa
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [filterDepartmentId, setFilterDepartmentId] = useState<string>('all');
   const [selectedDepartmentId, setSelectedDepartmentId] = useState<string>('');
+  const [duplicateSource, setDuplicateSource] = useState<{ id: string; name: string; start_date: string; end_date: string } | null>(null);
 
   // Use the effective facility ID (prop or selected)
   const facilityId = propFacilityId || selectedFacilityId;
@@ -205,14 +216,7 @@ export const FacilitySchedulingHub: React.FC<FacilitySchedulingHubProps> = ({ fa
 
   // Publish schedule mutation
   const publishSchedule = useMutation({
-    mutationFn: async (scheduleId: string) => {
-      const { error } = await supabase
-        .from('schedules')
-        .update({ status: 'published' })
-        .eq('id', scheduleId);
-
-      if (error) throw error;
-    },
+    mutationFn: (schedule: { id: string; name: string }) => publishScheduleRevision(schedule.id, schedule.name),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['facility-schedules'] });
       toast.success('Schedule published - Department Heads can now assign staff');
@@ -276,6 +280,18 @@ export const FacilitySchedulingHub: React.FC<FacilitySchedulingHubProps> = ({ fa
     setShifts(newShifts);
   };
 
+  const applyTemplate = (index: number, template: ShiftTemplate) => {
+    const newShifts = [...shifts];
+    newShifts[index] = {
+      name: template.name,
+      startTime: template.start_time.slice(0, 5),
+      endTime: template.end_time.slice(0, 5),
+      requiredStaff: template.required_staff,
+      color: template.color,
+    };
+    setShifts(newShifts);
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'draft':
@@ -342,7 +358,7 @@ export const FacilitySchedulingHub: React.FC<FacilitySchedulingHubProps> = ({ fa
         )}
 
         <div className="overflow-x-auto scrollbar-hide -mx-2 px-2 mb-6">
-          <TabsList className="grid w-max min-w-full grid-cols-3 gap-1">
+          <TabsList className="grid w-max min-w-full grid-cols-6 gap-1">
             <TabsTrigger value="schedules" className="flex items-center gap-2 min-h-[44px] px-3">
               <ClipboardList className="h-4 w-4" />
               <span className="hidden sm:inline">Schedules</span>
@@ -355,6 +371,18 @@ export const FacilitySchedulingHub: React.FC<FacilitySchedulingHubProps> = ({ fa
               <LayoutDashboard className="h-4 w-4" />
               <span className="hidden sm:inline">Dashboard</span>
             </TabsTrigger>
+            <TabsTrigger value="templates" className="flex items-center gap-2 min-h-[44px] px-3">
+              <Repeat className="h-4 w-4" />
+              <span className="hidden sm:inline">Templates</span>
+            </TabsTrigger>
+            <TabsTrigger value="labor-rules" className="flex items-center gap-2 min-h-[44px] px-3">
+              <ShieldCheck className="h-4 w-4" />
+              <span className="hidden sm:inline">Labor Rules</span>
+            </TabsTrigger>
+            <TabsTrigger value="timesheets" className="flex items-center gap-2 min-h-[44px] px-3">
+              <Timer className="h-4 w-4" />
+              <span className="hidden sm:inline">Timesheets</span>
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -488,6 +516,11 @@ export const FacilitySchedulingHub: React.FC<FacilitySchedulingHubProps> = ({ fa
                                   className="w-8 h-8 rounded cursor-pointer border-0"
                                 />
                               </div>
+                              <ShiftTemplatePicker
+                                facilityId={facilityId}
+                                shift={shift}
+                                onApply={(template) => applyTemplate(index, template)}
+                              />
                               <div className="space-y-2">
                                 <Label>Shift Name</Label>
                                 <Input
@@ -512,6 +545,9 @@ export const FacilitySchedulingHub: React.FC<FacilitySchedulingHubProps> = ({ fa
                                     value={shift.endTime}
                                     onChange={(e) => updateShift(index, 'endTime', e.target.value)}
                                   />
+                                  {shift.startTime && shift.endTime && isOvernightShift({ start_time: shift.startTime, end_time: shift.endTime }) && (
+                                    <p className="text-xs text-muted-foreground">Ends the next day</p>
+                                  )}
                                 </div>
                               </div>
                               <div className="space-y-2">
@@ -593,13 +629,19 @@ export const FacilitySchedulingHub: React.FC<FacilitySchedulingHubProps> = ({ fa
                           ))}
                         </div>
 
+                        {schedule.status === 'published' && (
+                          <p className="text-xs text-muted-foreground">
+                            Department Heads assign staff; changes reach staff when published
+                          </p>
+                        )}
+
                         {/* Actions */}
-                        <div className="flex gap-2 pt-2">
+                        <div className="flex flex-wrap items-center gap-2 pt-2">
                           {schedule.status === 'draft' && (
                             <>
                               <Button
                                 size="sm"
-                                onClick={() => publishSchedule.mutate(schedule.id)}
+                                onClick={() => publishSchedule.mutate(schedule)}
                                 disabled={publishSchedule.isPending}
                               >
                                 <Send className="h-4 w-4 mr-1" />
@@ -616,10 +658,17 @@ export const FacilitySchedulingHub: React.FC<FacilitySchedulingHubProps> = ({ fa
                             </>
                           )}
                           {schedule.status === 'published' && (
-                            <p className="text-xs text-muted-foreground">
-                              Awaiting staff assignment by Department Head
-                            </p>
+                            <ScheduleRevisionActions schedule={schedule} />
                           )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="ml-auto"
+                            onClick={() => setDuplicateSource(schedule)}
+                            title="Duplicate to next period"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
                         </div>
                       </div>
                     </CardContent>
@@ -657,6 +706,7 @@ export const FacilitySchedulingHub: React.FC<FacilitySchedulingHubProps> = ({ fa
             <SchedulingDashboard departmentId={filterDepartmentId} />
           ) : departments && departments.length > 0 ? (
             <div className="space-y-4">
+              <ShiftCoverageView scope={{ facilityId }} rollUpLevels={['department']} />
               <div className="flex items-center gap-2 p-4 bg-muted/50 rounded-lg">
                 <Filter className="h-4 w-4 text-muted-foreground" />
                 <span className="text-sm text-muted-foreground">
@@ -673,7 +723,42 @@ export const FacilitySchedulingHub: React.FC<FacilitySchedulingHubProps> = ({ fa
             />
           )}
         </TabsContent>
+
+        <TabsContent value="templates">
+          {facilityId && <SchedulingTemplatesManager facilityId={facilityId} />}
+        </TabsContent>
+
+        <TabsContent value="labor-rules">
+          {facilityId && <LaborRulesManagement facilityId={facilityId} />}
+        </TabsContent>
+
+        <TabsContent value="timesheets">
+          {filterDepartmentId !== 'all' ? (
+            <TimesheetApprovals departmentId={filterDepartmentId} />
+          ) : departments && departments.length > 0 ? (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 p-4 bg-muted/50 rounded-lg">
+                <Filter className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm text-muted-foreground">
+                  Select a department filter above to view its timesheets
+                </span>
+              </div>
+              <TimesheetApprovals departmentId={departments[0].id} />
+            </div>
+          ) : (
+            <EmptyState
+              icon={Timer}
+              title="No departments"
+              description="Add departments to this facility first"
+            />
+          )}
+        </TabsContent>
       </Tabs>
+
+      <DuplicateScheduleDialog
+        schedule={duplicateSource}
+        onOpenChange={(open) => !open && setDuplicateSource(null)}
+      />
     </ErrorBoundary>
   );
 };
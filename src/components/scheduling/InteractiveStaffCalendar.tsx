@@ -7,13 +7,21 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
-import { ChevronLeft, ChevronRight, Save, Trash2, Check, X, AlertTriangle } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Save, Trash2, Check, X, AlertTriangle, Wand2, CalendarOff, Repeat } from 'lucide-react';
 import { toast } from 'sonner';
 import { format, parseISO, eachDayOfInterval, startOfMonth, endOfMonth, startOfWeek, endOfWeek, isSameMonth, isSameDay, isWithinInterval, addMonths, subMonths } from 'date-fns';
 import { LoadingState } from '@/components/layout/LoadingState';
 import { EmptyState } from '@/components/layout/EmptyState';
 import { Calendar } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { isActiveVacationSplit } from '@/lib/vacationAmendments';
+import { getDayPortionLabel, vacationSplitOverlapsShift } from '@/lib/vacationDayPortions';
+import { describeAvailability, fetchStaffAvailability, getAvailabilityWarnings, getShiftPreferenceWarning } from '@/lib/staffAvailability';
+import { checkLaborRules, getLaborRuleErrorMessage, type LaborRuleViolation } from '@/lib/laborRules';
+import { formatShiftTimes } from '@/lib/shiftTimes';
+import { RosterGenerator } from './RosterGenerator';
+import { RotationPlanner } from './RotationPlanner';
+import { LaborRuleViolationsDialog } from './LaborRuleViolationsDialog';
 
 interface InteractiveStaffCalendarProps {
   departmentId: string;
@@ -29,6 +37,9 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
   const [selectedDates, setSelectedDates] = useState<Set<string>>(new Set());
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [isSaving, setIsSaving] = useState(false);
+  const [isRosterOpen, setIsRosterOpen] = useState(false);
+  const [isRotationOpen, setIsRotationOpen] = useState(false);
+  const [laborViolations, setLaborViolations] = useState<LaborRuleViolation[] | null>(null);
 
   // Fetch published schedules
   const { data: schedules, isLoading: schedulesLoading } = useQuery({
@@ -88,7 +99,7 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
       // First get vacation plans for this staff
       const { data: plans, error: plansError } = await supabase
         .from('vacation_plans')
-        .select('id, status')
+        .select('id, status, amends_plan_id')
         .eq('staff_id', selectedStaffId)
         .in('status', ['approved', 'department_pending', 'facility_pending', 'workspace_pending']);
 
@@ -104,11 +115,20 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
         .in('vacation_plan_id', planIds);
 
       if (splitsError) throw splitsError;
-      return splits || [];
+      return (splits || []).filter(split =>
+        isActiveVacationSplit(split, plans.find(p => p.id === split.vacation_plan_id))
+      );
     },
     enabled: !!selectedStaffId,
   });
 
+  // Availability and shift preferences of the selected staff member
+  const { data: staffAvailability } = useQuery({
+    queryKey: ['staff-availability', selectedStaffId],
+    queryFn: () => fetchStaffAvailability([selectedStaffId]),
+    enabled: !!selectedStaffId,
+  });
+
   const selectedSchedule = schedules?.find((s: any) => s.id === selectedScheduleId);
   const selectedShift = selectedSchedule?.shifts?.find((s: any) => s.id === selectedShiftId);
 
@@ -136,15 +156,32 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
     return isWithinInterval(date, scheduleDateRange);
   };
 
-  // Check if date has vacation conflict
-  const hasVacationOnDate = (date: Date) => {
-    return vacationConflicts?.some((v: any) => {
+  const getVacationsOnDate = (date: Date) => {
+    return vacationConflicts?.filter((v: any) => {
       const start = parseISO(v.start_date);
       const end = parseISO(v.end_date);
       return isWithinInterval(date, { start, end });
-    });
+    }) || [];
+  };
+
+  // Check if date has vacation conflict (partial-day leave only when it overlaps the shift,
+  // overnight shifts also when the leave starts the next morning)
+  const hasVacationOnDate = (date: Date) => {
+    return vacationConflicts?.some(v => vacationSplitOverlapsShift(v, format(date, 'yyyy-MM-dd'), selectedShift)) || false;
+  };
+
+  // Partial-day leave outside the selected shift's hours
+  const getPartialLeaveOnDate = (date: Date) => {
+    return getVacationsOnDate(date).find(v => selectedShift && !vacationSplitOverlapsShift(v, format(date, 'yyyy-MM-dd'), selectedShift));
   };
 
+  // Recurring or dated unavailability overlapping the selected shift
+  const getUnavailabilityOnDate = (date: Date) => {
+    return getAvailabilityWarnings(staffAvailability?.availability || [], null, format(date, 'yyyy-MM-dd'), selectedShift);
+  };
+
+  const shiftPreference = selectedShift && getShiftPreferenceWarning(staffAvailability?.preferences[0], selectedShift);
+
   // Check if date is already assigned
   const isDateAssigned = (date: Date) => {
     const dateStr = format(date, 'yyyy-MM-dd');
@@ -180,7 +217,7 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
     
     days.forEach(day => {
       const dayOfWeek = day.getDay();
-      if (dayOfWeek !== 0 && dayOfWeek !== 6 && !hasVacationOnDate(day) && !isDateAssigned(day)) {
+      if (dayOfWeek !== 0 && dayOfWeek !== 6 && !hasVacationOnDate(day) && !isDateAssigned(day) && getUnavailabilityOnDate(day).length === 0) {
         newSelected.add(format(day, 'yyyy-MM-dd'));
       }
     });
@@ -193,7 +230,7 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
     const days = eachDayOfInterval(scheduleDateRange);
     
     days.forEach(day => {
-      if (!hasVacationOnDate(day) && !isDateAssigned(day)) {
+      if (!hasVacationOnDate(day) && !isDateAssigned(day) && getUnavailabilityOnDate(day).length === 0) {
         newSelected.add(format(day, 'yyyy-MM-dd'));
       }
     });
@@ -205,9 +242,7 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
   };
 
   // Save assignments
-  const saveAssignments = async () => {
-    if (!selectedStaffId || !selectedShiftId || selectedDates.size === 0) return;
-
+  const persistAssignments = async () => {
     setIsSaving(true);
     try {
       const assignments = Array.from(selectedDates).map(dateStr => ({
@@ -227,11 +262,36 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
       setSelectedDates(new Set());
       queryClient.invalidateQueries({ queryKey: ['staff-shift-assignments'] });
       queryClient.invalidateQueries({ queryKey: ['shift-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['schedule-unpublished-changes'] });
     } catch (error: any) {
-      toast.error(error.message || 'Failed to save assignments');
+      toast.error(getLaborRuleErrorMessage(error, 'Failed to save assignments'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Check labor rules first; violations are confirmed (soft) or block saving (hard)
+  const saveAssignments = async () => {
+    if (!selectedStaffId || !selectedShiftId || selectedDates.size === 0) return;
+
+    setIsSaving(true);
+    try {
+      const violations = await checkLaborRules(
+        selectedStaffId,
+        Array.from(selectedDates).map(dateStr => ({ shift_id: selectedShiftId, assignment_date: dateStr }))
+      );
+      if (violations.length > 0) {
+        setLaborViolations(violations);
+        return;
+      }
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to check labor rules');
+      return;
     } finally {
       setIsSaving(false);
     }
+
+    await persistAssignments();
   };
 
   // Remove single assignment
@@ -247,6 +307,7 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
       toast.success('Assignment removed');
       queryClient.invalidateQueries({ queryKey: ['staff-shift-assignments'] });
       queryClient.invalidateQueries({ queryKey: ['shift-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['schedule-unpublished-changes'] });
     } catch (error: any) {
       toast.error(error.message || 'Failed to remove assignment');
     }
@@ -271,8 +332,24 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
       {/* Selection Controls */}
       <Card>
         <CardHeader className="pb-3 px-4 sm:px-6">
-          <CardTitle className="text-lg sm:text-xl">Interactive Staff Assignment</CardTitle>
-          <CardDescription className="text-sm">Select schedule, shift, and staff, then tap calendar days</CardDescription>
+          <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg sm:text-xl">Interactive Staff Assignment</CardTitle>
+              <CardDescription className="text-sm">Select schedule, shift, and staff, then tap calendar days</CardDescription>
+            </div>
+            {selectedSchedule && (
+              <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                <Button variant="outline" onClick={() => setIsRotationOpen(true)} className="min-h-[44px] w-full sm:w-auto">
+                  <Repeat className="h-4 w-4 mr-2" />
+                  Apply Rotation
+                </Button>
+                <Button variant="outline" onClick={() => setIsRosterOpen(true)} className="min-h-[44px] w-full sm:w-auto">
+                  <Wand2 className="h-4 w-4 mr-2" />
+                  Generate Roster
+                </Button>
+              </div>
+            )}
+          </div>
         </CardHeader>
         <CardContent className="px-4 sm:px-6">
           <div className="grid gap-3 sm:gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
@@ -315,7 +392,7 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
                     <SelectItem key={shift.id} value={shift.id}>
                       <div className="flex items-center gap-2">
                         <div className="w-3 h-3 rounded shrink-0" style={{ backgroundColor: shift.color }} />
-                        <span className="truncate">{shift.name} ({shift.start_time?.slice(0, 5)} - {shift.end_time?.slice(0, 5)})</span>
+                        <span className="truncate">{shift.name} ({formatShiftTimes(shift)})</span>
                       </div>
                     </SelectItem>
                   ))}
@@ -395,6 +472,8 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
                     const dateStr = format(day, 'yyyy-MM-dd');
                   const inScheduleRange = isDateInScheduleRange(day);
                   const hasVacation = hasVacationOnDate(day);
+                  const partialLeave = !hasVacation && getPartialLeaveOnDate(day);
+                  const unavailability = getUnavailabilityOnDate(day);
                   const isAssigned = isDateAssigned(day);
                   const assignment = getAssignmentForDate(day);
                   const isSelected = selectedDates.has(dateStr);
@@ -410,6 +489,7 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
                           !inScheduleRange && "bg-muted/30 cursor-not-allowed",
                           inScheduleRange && !hasVacation && !isAssigned && "cursor-pointer hover:bg-accent active:bg-accent",
                           hasVacation && "bg-destructive/20 cursor-not-allowed",
+                          !hasVacation && unavailability.length > 0 && "bg-warning/20",
                           isAssigned && "bg-primary/20",
                           isSelected && "bg-primary text-primary-foreground ring-2 ring-primary",
                         )}
@@ -424,6 +504,19 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
                         {hasVacation && (
                           <AlertTriangle className="h-2.5 w-2.5 sm:h-3 sm:w-3 text-destructive absolute top-0.5 right-0.5" />
                         )}
+
+                        {!hasVacation && unavailability.length > 0 && (
+                          <span title={unavailability.map(w => w.message).join('\n')}>
+                            <CalendarOff className="h-2.5 w-2.5 sm:h-3 sm:w-3 text-warning absolute top-0.5 left-0.5" />
+                          </span>
+                        )}
+
+                        {partialLeave && (
+                          <span
+                            className="absolute top-0.5 right-0.5 h-1.5 w-1.5 sm:h-2 sm:w-2 rounded-full bg-warning"
+                            title={`Partial-day leave (${getDayPortionLabel(partialLeave)}), outside this shift`}
+                          />
+                        )}
                         
                         {isAssigned && !isSelected && (
                           <div className="flex items-center gap-0.5">
@@ -461,6 +554,18 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
                   <div className="w-4 h-4 rounded bg-destructive/20" />
                   <span>On Vacation</span>
                 </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 rounded border flex items-center justify-center">
+                    <div className="h-2 w-2 rounded-full bg-warning" />
+                  </div>
+                  <span>Partial-Day Leave (no overlap)</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 rounded bg-warning/20 flex items-center justify-center">
+                    <CalendarOff className="h-3 w-3 text-warning" />
+                  </div>
+                  <span>Unavailable</span>
+                </div>
                 <div className="flex items-center gap-2">
                   <div className="w-4 h-4 rounded bg-muted/30" />
                   <span>Outside Schedule</span>
@@ -502,18 +607,67 @@ export const InteractiveStaffCalendar: React.FC<InteractiveStaffCalendarProps> =
                     <span className="text-sm font-medium">{selectedShift.name}</span>
                   </div>
                   <p className="text-sm text-muted-foreground">
-                    {selectedShift.start_time?.slice(0, 5)} - {selectedShift.end_time?.slice(0, 5)}
+                    {formatShiftTimes(selectedShift)}
                   </p>
                   <p className="text-sm text-muted-foreground">
                     Required: {selectedShift.required_staff} staff
                   </p>
                 </div>
               )}
+
+              {(shiftPreference || (staffAvailability?.availability.length ?? 0) > 0) && (
+                <div className="pt-4 border-t">
+                  <h4 className="font-medium mb-2">Availability</h4>
+                  {shiftPreference && (
+                    <Badge
+                      variant={shiftPreference.kind === 'avoided' ? 'destructive' : 'secondary'}
+                      className="mb-2"
+                    >
+                      {shiftPreference.message}
+                    </Badge>
+                  )}
+                  <div className="space-y-1 text-sm text-muted-foreground">
+                    {staffAvailability?.availability.map(entry => (
+                      <p key={entry.id}>
+                        {describeAvailability(entry)}{entry.reason ? ` · ${entry.reason}` : ''}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
       )}
 
+      <LaborRuleViolationsDialog
+        violations={laborViolations}
+        onCancel={() => setLaborViolations(null)}
+        onConfirm={() => {
+          setLaborViolations(null);
+          persistAssignments();
+        }}
+      />
+
+      {selectedSchedule && (
+        <RosterGenerator
+          scheduleId={selectedSchedule.id}
+          scheduleName={selectedSchedule.name}
+          open={isRosterOpen}
+          onOpenChange={setIsRosterOpen}
+        />
+      )}
+
+      {selectedSchedule && (
+        <RotationPlanner
+          scheduleId={selectedSchedule.id}
+          scheduleName={selectedSchedule.name}
+          departmentId={departmentId}
+          open={isRotationOpen}
+          onOpenChange={setIsRotationOpen}
+        />
+      )}
+
       {!selectedStaffId && selectedShiftId && (
         <EmptyState
           icon={Calendar}
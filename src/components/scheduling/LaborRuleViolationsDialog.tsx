@@ -0,0 +1,68 @@
+import React from 'react';
+import { AlertTriangle, ShieldAlert } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { LABOR_RULE_LABELS, type LaborRuleViolation } from '@/lib/laborRules';
+
+export type StaffLaborRuleViolation = LaborRuleViolation & { staff_name?: string };
+
+interface LaborRuleViolationsDialogProps {
+  violations: StaffLaborRuleViolation[] | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Hard violations block saving; soft violations can be accepted with "Save Anyway"
+ */
+export const LaborRuleViolationsDialog: React.FC<LaborRuleViolationsDialogProps> = ({ violations, onConfirm, onCancel }) => {
+  const hasHard = !!violations?.some(violation => violation.level === 'hard');
+
+  return (
+    <AlertDialog open={!!violations} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle className={`flex items-center gap-2 ${hasHard ? 'text-destructive' : ''}`}>
+            {hasHard ? <ShieldAlert className="h-5 w-5" /> : <AlertTriangle className="h-5 w-5 text-warning" />}
+            {hasHard ? 'Labor Rules Violated' : 'Labor Rule Warnings'}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {hasHard
+              ? 'These assignments break hard labor rules and cannot be saved. Adjust the selection first.'
+              : 'These assignments exceed soft labor limits. You can still save them.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-2 max-h-[300px] overflow-y-auto">
+          {violations?.map((violation, index) => (
+            <div key={`${violation.rule}-${violation.date}-${index}`} className="p-2 border rounded-lg text-sm space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">
+                  {violation.staff_name ? `${violation.staff_name}: ` : ''}{LABOR_RULE_LABELS[violation.rule]}
+                </span>
+                <Badge variant={violation.level === 'hard' ? 'destructive' : 'outline'} className="capitalize">
+                  {violation.level}
+                </Badge>
+              </div>
+              <p className="text-muted-foreground">{violation.message}</p>
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel}>{hasHard ? 'Close' : 'Cancel'}</AlertDialogCancel>
+          {!hasHard && <AlertDialogAction onClick={onConfirm}>Save Anyway</AlertDialogAction>}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Save, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingState } from '@/components/layout/LoadingState';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  LABOR_RULE_KEYS,
+  LABOR_RULE_LABELS,
+  LABOR_RULE_UNITS,
+  type LaborRuleKey,
+  type LaborRuleLevel,
+} from '@/lib/laborRules';
+
+interface LaborRulesManagementProps {
+  facilityId: string;
+}
+
+type Scope = 'workspace' | 'facility';
+
+interface RuleDraft {
+  enabled: boolean;
+  value: string;
+  level: LaborRuleLevel;
+}
+
+/** Same fallback as get_labor_rules when neither the facility nor the workspace has rules */
+const DEFAULT_RULES: Record<LaborRuleKey, RuleDraft> = {
+  min_rest_hours: { enabled: true, value: '11', level: 'hard' },
+  max_hours_per_day: { enabled: false, value: '12', level: 'soft' },
+  max_hours_per_week: { enabled: false, value: '48', level: 'soft' },
+  max_hours_per_month: { enabled: false, value: '180', level: 'soft' },
+  max_consecutive_days: { enabled: false, value: '6', level: 'soft' },
+  max_nights_per_month: { enabled: false, value: '8', level: 'soft' },
+};
+
+const toDrafts = (ruleSet: Tables<'labor_rule_sets'> | null | undefined): Record<LaborRuleKey, RuleDraft> => {
+  if (!ruleSet) return DEFAULT_RULES;
+  return Object.fromEntries(LABOR_RULE_KEYS.map(key => [
+    key,
+    {
+      enabled: ruleSet[key] !== null,
+      value: ruleSet[key] !== null ? String(ruleSet[key]) : DEFAULT_RULES[key].value,
+      level: ruleSet.hard_rules.includes(key) ? 'hard' : 'soft',
+    },
+  ])) as Record<LaborRuleKey, RuleDraft>;
+};
+
+export const LaborRulesManagement: React.FC<LaborRulesManagementProps> = ({ facilityId }) => {
+  const { user } = useAuth();
+  const { data: roles } = useUserRole();
+  const queryClient = useQueryClient();
+
+  const canManageWorkspace = !!roles?.some(r => ['super_admin', 'general_admin', 'workplace_supervisor'].includes(r.role));
+  const [scope, setScope] = useState<Scope>('facility');
+  const [rules, setRules] = useState<Record<LaborRuleKey, RuleDraft>>(DEFAULT_RULES);
+  const [useWorkspaceRules, setUseWorkspaceRules] = useState(true);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['labor-rule-sets', facilityId],
+    queryFn: async () => {
+      const { data: facility, error: facilityError } = await supabase
+        .from('facilities')
+        .select('id, name, workspace_id')
+        .eq('id', facilityId)
+        .single();
+      if (facilityError) throw facilityError;
+
+      const { data: ruleSets, error } = await supabase
+        .from('labor_rule_sets')
+        .select('*')
+        .or(`facility_id.eq.${facilityId},workspace_id.eq.${facility.workspace_id}`);
+      if (error) throw error;
+
+      return {
+        facility,
+        workspaceRules: ruleSets?.find(set => set.workspace_id === facility.workspace_id) || null,
+        facilityRules: ruleSets?.find(set => set.facility_id === facilityId) || null,
+      };
+    },
+    enabled: !!facilityId,
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    if (scope === 'workspace') {
+      setRules(toDrafts(data.workspaceRules));
+    } else {
+      setUseWorkspaceRules(!data.facilityRules);
+      setRules(toDrafts(data.facilityRules || data.workspaceRules));
+    }
+  }, [data, scope]);
+
+  const updateRule = (key: LaborRuleKey, changes: Partial<RuleDraft>) => {
+    setRules(prev => ({ ...prev, [key]: { ...prev[key], ...changes } }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!data) return;
+
+      if (scope === 'facility' && useWorkspaceRules) {
+        if (!data.facilityRules) return;
+        const { error } = await supabase.from('labor_rule_sets').delete().eq('id', data.facilityRules.id);
+        if (error) throw error;
+        return;
+      }
+
+      const values = Object.fromEntries(LABOR_RULE_KEYS.map(key => {
+        const value = Number(rules[key].value);
+        return [key, rules[key].enabled && rules[key].value !== '' && value > 0 ? value : null];
+      })) as Record<LaborRuleKey, number | null>;
+
+      const ruleSet = {
+        ...values,
+        hard_rules: LABOR_RULE_KEYS.filter(key => rules[key].enabled && rules[key].level === 'hard'),
+        updated_by: user?.id,
+      };
+
+      const { error } = scope === 'workspace'
+        ? await supabase
+          .from('labor_rule_sets')
+          .upsert({ ...ruleSet, workspace_id: data.facility.workspace_id }, { onConflict: 'workspace_id' })
+        : await supabase
+          .from('labor_rule_sets')
+          .upsert({ ...ruleSet, facility_id: facilityId }, { onConflict: 'facility_id' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['labor-rule-sets'] });
+      toast.success('Labor rules saved');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save labor rules'),
+  });
+
+  if (isLoading) return <LoadingState message="Loading labor rules..." />;
+
+  const editable = scope === 'workspace' || !useWorkspaceRules;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Labor Rules
+        </CardTitle>
+        <CardDescription>
+          Limits checked whenever shifts are assigned. Hard rules block saving, soft rules only warn.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          {canManageWorkspace && (
+            <div className="space-y-2 sm:w-64">
+              <Label>Applies To</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as Scope)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="facility">{data?.facility.name || 'This facility'}</SelectItem>
+                  <SelectItem value="workspace">All facilities in the workspace</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {scope === 'facility' && (
+            <div className="flex items-center gap-2 min-h-[40px]">
+              <Switch
+                id="use-workspace-rules"
+                checked={useWorkspaceRules}
+                onCheckedChange={(checked) => {
+                  setUseWorkspaceRules(checked);
+                  if (checked) setRules(toDrafts(data?.workspaceRules));
+                }}
+              />
+              <Label htmlFor="use-workspace-rules">Use workspace rules</Label>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {LABOR_RULE_KEYS.map(key => (
+            <div key={key} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 border rounded-lg">
+              <div className="flex items-center gap-2 flex-1">
+                <Switch
+                  id={`rule-${key}`}
+                  checked={rules[key].enabled}
+                  disabled={!editable}
+                  onCheckedChange={(checked) => updateRule(key, { enabled: checked })}
+                />
+                <Label htmlFor={`rule-${key}`}>{LABOR_RULE_LABELS[key]}</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  step={key.startsWith('max_hours') || key === 'min_rest_hours' ? 0.5 : 1}
+                  value={rules[key].value}
+                  disabled={!editable || !rules[key].enabled}
+                  onChange={(e) => updateRule(key, { value: e.target.value })}
+                  className="w-24"
+                />
+                <span className="text-sm text-muted-foreground w-12">{LABOR_RULE_UNITS[key]}</span>
+                <Select
+                  value={rules[key].level}
+                  disabled={!editable || !rules[key].enabled}
+                  onValueChange={(value) => updateRule(key, { level: value as LaborRuleLevel })}
+                >
+                  <SelectTrigger className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="hard">Hard</SelectItem>
+                    <SelectItem value="soft">Soft</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            <Save className="h-4 w-4 mr-2" />
+            {saveMutation.isPending ? 'Saving...' : 'Save Rules'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
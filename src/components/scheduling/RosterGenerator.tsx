@@ -0,0 +1,353 @@
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { AlertTriangle, Moon, Wand2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { LoadingState } from '@/components/layout/LoadingState';
+import { cn } from '@/lib/utils';
+import { getHardLaborRuleLimit, getLaborRuleErrorMessage } from '@/lib/laborRules';
+import { isNightShift } from '@/lib/shiftTimes';
+import {
+  DEFAULT_MIN_REST_HOURS,
+  commitRoster,
+  fetchRosterInput,
+  generateRoster,
+  getRosterCandidates,
+  getRosterLoad,
+  isWeekendDate,
+  validateRosterAssignments,
+  type RosterAssignment,
+  type RosterOptions,
+} from '@/lib/rosterGeneration';
+
+interface RosterGeneratorProps {
+  scheduleId: string;
+  scheduleName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ANY_SPECIALTY = 'any';
+
+export const RosterGenerator: React.FC<RosterGeneratorProps> = ({ scheduleId, scheduleName, open, onOpenChange }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  // Null until edited: the department's labor rules set the default
+  const [minRestHours, setMinRestHours] = useState<number | null>(null);
+  const [shiftSpecialties, setShiftSpecialties] = useState<Record<string, string | undefined>>({});
+  const [draft, setDraft] = useState<RosterAssignment[] | null>(null);
+
+  const { data: input, isLoading } = useQuery({
+    queryKey: ['roster-input', scheduleId],
+    queryFn: () => fetchRosterInput(scheduleId),
+    enabled: open,
+  });
+
+  const specialtyIds = useMemo(
+    () => [...new Set((input?.staff || []).flatMap(member => member.specialty_ids))],
+    [input]
+  );
+
+  const { data: specialties } = useQuery({
+    queryKey: ['roster-specialties', specialtyIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('departments')
+        .select('id, name')
+        .in('id', specialtyIds)
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && specialtyIds.length > 0,
+  });
+
+  const hardRestHours = input ? getHardLaborRuleLimit(input.laborRules, 'min_rest_hours') : null;
+  const restHours = minRestHours ?? input?.laborRules.min_rest_hours ?? DEFAULT_MIN_REST_HOURS;
+  const options: RosterOptions = { minRestHours: restHours, shiftSpecialties };
+
+  const shifts = useMemo(
+    () => [...(input?.shifts || [])].sort((a, b) => a.start_time.localeCompare(b.start_time)),
+    [input]
+  );
+
+  const dates = useMemo(
+    () => input
+      ? eachDayOfInterval({ start: parseISO(input.startDate), end: parseISO(input.endDate) }).map(day => format(day, 'yyyy-MM-dd'))
+      : [],
+    [input]
+  );
+
+  const staffNames = useMemo(
+    () => new Map((input?.staff || []).map(member => [member.id, member.name])),
+    [input]
+  );
+
+  const load = useMemo(() => (input && draft ? getRosterLoad(input, draft) : null), [input, draft]);
+
+  const missingCount = draft && input
+    ? dates.reduce((sum, date) => sum + shifts.reduce((shiftSum, shift) => {
+        const filled = input.existing.filter(a => a.shift_id === shift.id && a.assignment_date === date).length +
+          draft.filter(a => a.shift_id === shift.id && a.assignment_date === date).length;
+        return shiftSum + Math.max(0, shift.required_staff - filled);
+      }, 0), 0)
+    : 0;
+
+  // Saving is all or nothing, so assignments the labor rules refuse are left out up front
+  const commitMutation = useMutation({
+    mutationFn: async () => {
+      const { valid, skipped } = await validateRosterAssignments(input!, draft || []);
+      await commitRoster(valid, user!.id);
+      return { saved: valid.length, skipped };
+    },
+    onSuccess: ({ saved, skipped }) => {
+      queryClient.invalidateQueries({ queryKey: ['roster-input', scheduleId] });
+      queryClient.invalidateQueries({ queryKey: ['staff-shift-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['shift-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['schedule-unpublished-changes'] });
+      toast.success(`Saved ${saved} shift assignments`);
+      if (skipped.length > 0) {
+        toast.warning(`${skipped.length} assignments break labor rules and were not saved`, {
+          description: [...new Set(skipped.map(skip => skip.message))].slice(0, 3).join('. '),
+        });
+      }
+      setDraft(null);
+      setMinRestHours(null);
+      onOpenChange(false);
+    },
+    onError: (error: Error & { details?: string }) => toast.error(getLaborRuleErrorMessage(error, 'Failed to save the roster')),
+  });
+
+  const handleGenerate = () => {
+    if (!input) return;
+    const result = generateRoster(input, options);
+    setDraft(result.assignments);
+    if (result.gaps.length > 0) {
+      toast.warning(`${result.gaps.reduce((sum, gap) => sum + gap.missing, 0)} slots could not be filled`);
+    }
+  };
+
+  const removeFromDraft = (assignment: RosterAssignment) =>
+    setDraft((draft || []).filter(a => a !== assignment));
+
+  const addToDraft = (shiftId: string, date: string, staffId: string) =>
+    setDraft([...(draft || []), { shift_id: shiftId, staff_id: staffId, assignment_date: date }]);
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setDraft(null);
+      setMinRestHours(null);
+    }
+    onOpenChange(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto w-[95vw] sm:w-full">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5" />
+            Generate Roster
+          </DialogTitle>
+          <DialogDescription>
+            Fill every shift of {scheduleName} up to its required staff. Nothing is saved until you commit the draft.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !input ? (
+          <LoadingState message="Loading staff and assignments..." />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-3 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
+              <div className="space-y-1">
+                <Label htmlFor="roster-rest" className="text-xs">Minimum rest between shifts (hours)</Label>
+                <Input
+                  id="roster-rest"
+                  type="number"
+                  min={hardRestHours ?? 0}
+                  max={48}
+                  value={restHours}
+                  onChange={(e) => setMinRestHours(parseInt(e.target.value) || 0)}
+                />
+                {hardRestHours !== null && (
+                  <p className="text-xs text-muted-foreground">Labor rules require at least {hardRestHours}h</p>
+                )}
+              </div>
+              {specialties && specialties.length > 0 && shifts.map(shift => (
+                <div key={shift.id} className="space-y-1">
+                  <Label className="text-xs">{shift.name} staffed by</Label>
+                  <Select
+                    value={shiftSpecialties[shift.id] || ANY_SPECIALTY}
+                    onValueChange={(value) =>
+                      setShiftSpecialties({ ...shiftSpecialties, [shift.id]: value === ANY_SPECIALTY ? undefined : value })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_SPECIALTY}>Any specialty</SelectItem>
+                      {specialties.map(specialty => (
+                        <SelectItem key={specialty.id} value={specialty.id}>{specialty.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {input.staff.length} staff · {shifts.length} shift{shifts.length === 1 ? '' : 's'} · {dates.length} days
+                {draft && ` · ${draft.length} draft assignments`}
+                {draft && missingCount > 0 && ` · ${missingCount} open slots`}
+              </p>
+              <Button variant="outline" onClick={handleGenerate} disabled={input.staff.length === 0 || shifts.length === 0}>
+                <Wand2 className="h-4 w-4 mr-2" />
+                {draft ? 'Regenerate' : 'Generate Draft'}
+              </Button>
+            </div>
+
+            {draft && (
+              <Tabs defaultValue="roster">
+                <TabsList>
+                  <TabsTrigger value="roster">Draft Roster</TabsTrigger>
+                  <TabsTrigger value="fairness">Workload</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="roster">
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-32">Date</TableHead>
+                          {shifts.map(shift => (
+                            <TableHead key={shift.id}>
+                              <div className="flex items-center gap-2">
+                                <div className="w-3 h-3 rounded shrink-0" style={{ backgroundColor: shift.color || undefined }} />
+                                {shift.name}
+                                {isNightShift(shift) && <Moon className="h-3 w-3 text-muted-foreground" />}
+                              </div>
+                            </TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {dates.map(date => (
+                          <TableRow key={date} className={cn(isWeekendDate(date, input.workWeek) && 'bg-muted/30')}>
+                            <TableCell className="font-medium whitespace-nowrap">{format(parseISO(date), 'EEE, MMM d')}</TableCell>
+                            {shifts.map(shift => {
+                              const saved = input.existing.filter(a => a.shift_id === shift.id && a.assignment_date === date);
+                              const drafted = draft.filter(a => a.shift_id === shift.id && a.assignment_date === date);
+                              const missing = shift.required_staff - saved.length - drafted.length;
+                              const candidates = missing > 0
+                                ? getRosterCandidates(input, options, draft, shift, date, load || undefined)
+                                : [];
+
+                              return (
+                                <TableCell key={shift.id} className="align-top">
+                                  <div className="flex flex-wrap gap-1">
+                                    {saved.map(assignment => (
+                                      <Badge key={assignment.staff_id} variant="secondary" title="Already assigned">
+                                        {staffNames.get(assignment.staff_id) || 'Unknown'}
+                                      </Badge>
+                                    ))}
+                                    {drafted.map(assignment => (
+                                      <Badge key={assignment.staff_id} variant="outline" className="gap-1">
+                                        {staffNames.get(assignment.staff_id) || 'Unknown'}
+                                        <button
+                                          type="button"
+                                          onClick={() => removeFromDraft(assignment)}
+                                          className="hover:text-destructive"
+                                          aria-label="Remove from draft"
+                                        >
+                                          <X className="h-3 w-3" />
+                                        </button>
+                                      </Badge>
+                                    ))}
+                                  </div>
+                                  {missing > 0 && (
+                                    <div className="mt-1 space-y-1">
+                                      <p className="flex items-center gap-1 text-xs text-destructive">
+                                        <AlertTriangle className="h-3 w-3" />
+                                        {missing} missing
+                                      </p>
+                                      {candidates.length > 0 && (
+                                        <Select value="" onValueChange={(staffId) => addToDraft(shift.id, date, staffId)}>
+                                          <SelectTrigger className="h-8 text-xs">
+                                            <SelectValue placeholder="Add staff" />
+                                          </SelectTrigger>
+                                          <SelectContent>
+                                            {candidates.map(member => (
+                                              <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                                            ))}
+                                          </SelectContent>
+                                        </Select>
+                                      )}
+                                    </div>
+                                  )}
+                                </TableCell>
+                              );
+                            })}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="fairness">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Staff</TableHead>
+                        <TableHead className="text-right">Shifts</TableHead>
+                        <TableHead className="text-right">Nights</TableHead>
+                        <TableHead className="text-right">Weekend Shifts</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {input.staff.map(member => {
+                        const entry = load?.get(member.id);
+                        return (
+                          <TableRow key={member.id}>
+                            <TableCell className="font-medium">{member.name}</TableCell>
+                            <TableCell className="text-right">{entry?.total || 0}</TableCell>
+                            <TableCell className="text-right">{entry?.nights || 0}</TableCell>
+                            <TableCell className="text-right">{entry?.weekends || 0}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </TabsContent>
+              </Tabs>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => commitMutation.mutate()}
+            disabled={!draft || draft.length === 0 || commitMutation.isPending}
+          >
+            {commitMutation.isPending ? 'Saving...' : `Commit ${draft?.length || 0} Assignments`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
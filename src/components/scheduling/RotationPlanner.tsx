@@ -0,0 +1,299 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, Repeat } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { LoadingState } from '@/components/layout/LoadingState';
+import { getLaborRuleErrorMessage } from '@/lib/laborRules';
+import {
+  commitRoster,
+  fetchRosterInput,
+  getDefaultRosterOptions,
+  validateRosterAssignments,
+} from '@/lib/rosterGeneration';
+import { buildRotationAssignments, describeRotationCycle } from '@/lib/schedulingTemplates';
+
+interface RotationPlannerProps {
+  scheduleId: string;
+  scheduleName: string;
+  departmentId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const RotationPlanner: React.FC<RotationPlannerProps> = ({ scheduleId, scheduleName, departmentId, open, onOpenChange }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [patternId, setPatternId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [staggerDays, setStaggerDays] = useState(0);
+  const [selectedStaff, setSelectedStaff] = useState<string[]>([]);
+
+  const { data: input, isLoading } = useQuery({
+    queryKey: ['roster-input', scheduleId],
+    queryFn: () => fetchRosterInput(scheduleId),
+    enabled: open,
+  });
+
+  const { data: departmentFacility } = useQuery({
+    queryKey: ['department-facility', departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('departments')
+        .select('facility_id')
+        .eq('id', departmentId)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+  const facilityId = departmentFacility?.facility_id;
+
+  const { data: patterns } = useQuery({
+    queryKey: ['rotation-patterns', facilityId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('rotation_patterns')
+        .select('*')
+        .eq('facility_id', facilityId!)
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!facilityId,
+  });
+
+  useEffect(() => {
+    if (input && !startDate) setStartDate(input.startDate);
+  }, [input, startDate]);
+
+  const pattern = patterns?.find(p => p.id === patternId);
+
+  const shiftNames = useMemo(
+    () => [...(input?.shifts || [])]
+      .sort((a, b) => (a.shift_order || 0) - (b.shift_order || 0))
+      .map(shift => shift.name),
+    [input]
+  );
+
+  const staffNames = useMemo(
+    () => new Map((input?.staff || []).map(member => [member.id, member.name])),
+    [input]
+  );
+
+  const preview = useMemo(() => {
+    if (!input || !pattern || !startDate || selectedStaff.length === 0) return null;
+    const staffIds = input.staff.map(member => member.id).filter(id => selectedStaff.includes(id));
+    return buildRotationAssignments(
+      input,
+      getDefaultRosterOptions(input),
+      pattern.cycle,
+      staffIds,
+      startDate,
+      staggerDays
+    );
+  }, [input, pattern, startDate, staggerDays, selectedStaff]);
+
+  // Saving is all or nothing, so the preview is checked against the labor rules in the database,
+  // which also counts shifts in other departments, and refused days are skipped up front
+  const { data: laborCheck, isFetching: isCheckingLaborRules } = useQuery({
+    queryKey: ['rotation-labor-check', scheduleId, preview?.assignments],
+    queryFn: () => validateRosterAssignments(input!, preview!.assignments),
+    enabled: open && !!input && !!preview && preview.assignments.length > 0,
+  });
+
+  const assignments = laborCheck?.valid || [];
+  const skipped = [
+    ...(preview?.skipped || []),
+    ...(laborCheck?.skipped || []).map(skip => ({
+      staff_id: skip.assignment.staff_id,
+      assignment_date: skip.assignment.assignment_date,
+      reason: skip.message,
+    })),
+  ].sort((a, b) => a.assignment_date.localeCompare(b.assignment_date));
+
+  const applyMutation = useMutation({
+    mutationFn: () => commitRoster(assignments, user!.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['roster-input', scheduleId] });
+      queryClient.invalidateQueries({ queryKey: ['staff-shift-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['shift-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['schedule-unpublished-changes'] });
+      toast.success(`Saved ${assignments.length} shift assignments`);
+      handleOpenChange(false);
+    },
+    onError: (error: Error & { details?: string }) => toast.error(getLaborRuleErrorMessage(error, 'Failed to apply the rotation')),
+  });
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setPatternId('');
+      setStartDate('');
+      setStaggerDays(0);
+      setSelectedStaff([]);
+    }
+    onOpenChange(value);
+  };
+
+  const toggleStaff = (staffId: string) => {
+    setSelectedStaff(prev => prev.includes(staffId) ? prev.filter(id => id !== staffId) : [...prev, staffId]);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto w-[95vw] sm:w-full">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Apply Rotation
+          </DialogTitle>
+          <DialogDescription>
+            Assign a group of staff to {scheduleName} following a rotation pattern until the end of the schedule.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !input ? (
+          <LoadingState message="Loading staff and assignments..." />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-3 grid-cols-1 sm:grid-cols-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Rotation pattern</Label>
+                <Select value={patternId} onValueChange={setPatternId} disabled={!patterns?.length}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={patterns?.length ? 'Select pattern...' : 'No patterns for this facility'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {patterns?.map(p => (
+                      <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rotation-start" className="text-xs">Start date</Label>
+                <Input
+                  id="rotation-start"
+                  type="date"
+                  min={input.startDate}
+                  max={input.endDate}
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rotation-stagger" className="text-xs">Stagger per staff member (days)</Label>
+                <Input
+                  id="rotation-stagger"
+                  type="number"
+                  min={0}
+                  max={pattern ? pattern.cycle.length - 1 : undefined}
+                  value={staggerDays}
+                  onChange={(e) => setStaggerDays(Math.max(0, parseInt(e.target.value) || 0))}
+                />
+              </div>
+            </div>
+
+            {pattern && (
+              <p className="text-sm text-muted-foreground">
+                {pattern.cycle.length}-day cycle: {describeRotationCycle(pattern.cycle, shiftNames)}
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Staff ({selectedStaff.length} selected)</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelectedStaff(
+                    selectedStaff.length === input.staff.length ? [] : input.staff.map(member => member.id)
+                  )}
+                  disabled={input.staff.length === 0}
+                >
+                  {selectedStaff.length === input.staff.length && input.staff.length > 0 ? 'Clear' : 'Select All'}
+                </Button>
+              </div>
+              <ScrollArea className="h-[160px] border rounded-md p-3">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {input.staff.map(member => (
+                    <div key={member.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`rotation-staff-${member.id}`}
+                        checked={selectedStaff.includes(member.id)}
+                        onCheckedChange={() => toggleStaff(member.id)}
+                      />
+                      <Label htmlFor={`rotation-staff-${member.id}`} className="cursor-pointer text-sm font-normal">
+                        {member.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+
+            {preview && (
+              <div className="space-y-2">
+                <p className="text-sm">
+                  {isCheckingLaborRules
+                    ? 'Checking labor rules...'
+                    : `${assignments.length} assignments${skipped.length > 0 ? ` · ${skipped.length} days skipped` : ''}`}
+                </p>
+                {!isCheckingLaborRules && skipped.length > 0 && (
+                  <div className="max-h-[200px] overflow-y-auto border rounded-md">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Staff</TableHead>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Skipped because</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {skipped.map(skip => (
+                          <TableRow key={`${skip.staff_id}-${skip.assignment_date}`}>
+                            <TableCell>{staffNames.get(skip.staff_id) || 'Unknown'}</TableCell>
+                            <TableCell className="whitespace-nowrap">{format(parseISO(skip.assignment_date), 'EEE, MMM d')}</TableCell>
+                            <TableCell className="text-muted-foreground">
+                              <span className="flex items-center gap-1">
+                                <AlertTriangle className="h-3 w-3 text-warning shrink-0" />
+                                {skip.reason}
+                              </span>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => applyMutation.mutate()}
+            disabled={assignments.length === 0 || isCheckingLaborRules || applyMutation.isPending}
+          >
+            {applyMutation.isPending ? 'Saving...' : `Apply ${assignments.length} Assignments`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
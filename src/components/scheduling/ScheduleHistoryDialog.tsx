@@ -0,0 +1,238 @@
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { History, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { LoadingState } from '@/components/layout/LoadingState';
+import { EmptyState } from '@/components/layout/EmptyState';
+import {
+  describeScheduleChange,
+  describeStaffScheduleDiff,
+  diffScheduleSnapshots,
+  fetchScheduleHistory,
+  rollbackToScheduleRevision,
+  type ScheduleChange,
+  type ScheduleSnapshot,
+} from '@/lib/scheduleRevisions';
+
+interface ScheduleHistoryDialogProps {
+  scheduleId: string;
+  scheduleName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Revisions of a published schedule with who changed what, and rollback to an earlier revision
+ */
+export const ScheduleHistoryDialog: React.FC<ScheduleHistoryDialogProps> = ({ scheduleId, scheduleName, open, onOpenChange }) => {
+  const queryClient = useQueryClient();
+  const [rollbackTarget, setRollbackTarget] = useState<number | null>(null);
+
+  const { data: history, isLoading } = useQuery({
+    queryKey: ['schedule-history', scheduleId],
+    queryFn: () => fetchScheduleHistory(scheduleId),
+    enabled: open,
+  });
+
+  const revisions = history?.revisions || [];
+  const changes = history?.changes || [];
+  const unpublished = changes.filter(change => !change.revision_id);
+
+  // Staff diff of each revision against the one before it
+  const diffs = useMemo(() => {
+    const list = history?.revisions || [];
+    return new Map(list.map((revision, index) => [
+      revision.id,
+      diffScheduleSnapshots(
+        (list[index + 1]?.snapshot as unknown as ScheduleSnapshot) || null,
+        revision.snapshot as unknown as ScheduleSnapshot
+      ),
+    ]));
+  }, [history]);
+
+  const staffIds = useMemo(
+    () => [...new Set(Array.from(diffs.values()).flatMap(list => list.map(diff => diff.staff_id)))],
+    [diffs]
+  );
+
+  const { data: staffNames } = useQuery({
+    queryKey: ['schedule-history-staff', scheduleId, staffIds],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('profiles').select('id, full_name').in('id', staffIds);
+      if (error) throw error;
+      return new Map((data || []).map(profile => [profile.id, profile.full_name]));
+    },
+    enabled: open && staffIds.length > 0,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (revisionNumber: number) => rollbackToScheduleRevision(scheduleId, scheduleName, revisionNumber),
+    onSuccess: ({ revisionNumber, notified, skipped }) => {
+      queryClient.invalidateQueries({ queryKey: ['schedule-history', scheduleId] });
+      queryClient.invalidateQueries({ queryKey: ['schedule-unpublished-changes', scheduleId] });
+      queryClient.invalidateQueries({ queryKey: ['schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['facility-schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['shift-assignments'] });
+      toast.success(`Rolled back as revision ${revisionNumber}${notified ? `, ${notified} staff notified` : ''}`);
+      if (skipped.length > 0) {
+        toast.warning(`${skipped.length} assignment${skipped.length === 1 ? ' was' : 's were'} not restored`, {
+          description: skipped
+            .slice(0, 3)
+            .map(skip => `${skip.staff_name || 'Unknown'}, ${skip.shift_name} on ${format(parseISO(skip.date), 'MMM d')}: ${skip.message}`)
+            .join('. '),
+        });
+      }
+      setRollbackTarget(null);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to roll back schedule'),
+  });
+
+  const renderChanges = (list: ScheduleChange[]) => (
+    <ul className="space-y-1 text-sm">
+      {list.map(change => (
+        <li key={change.id} className="flex flex-wrap items-baseline gap-x-2">
+          <span>{describeScheduleChange(change)}</span>
+          <span className="text-xs text-muted-foreground">
+            {change.changer?.full_name || 'System'} · {format(parseISO(change.created_at), 'MMM d, HH:mm')}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto w-[95vw] sm:w-full">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Schedule History
+            </DialogTitle>
+            <DialogDescription>
+              Published revisions of {scheduleName}. Rolling back publishes the earlier state as a new revision and notifies affected staff.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <LoadingState message="Loading history..." />
+          ) : revisions.length === 0 ? (
+            <EmptyState
+              icon={History}
+              title="Not published yet"
+              description="Revisions are kept from the first publish."
+            />
+          ) : (
+            <div className="space-y-4">
+              {unpublished.length > 0 && (
+                <div className="p-3 border border-warning/40 rounded-lg space-y-2">
+                  <p className="font-medium text-sm">Unpublished changes ({unpublished.length})</p>
+                  {renderChanges(unpublished)}
+                </div>
+              )}
+
+              {revisions.map((revision, index) => {
+                const revisionDiffs = diffs.get(revision.id) || [];
+                const revisionChanges = changes.filter(change => change.revision_id === revision.id);
+                return (
+                  <div key={revision.id} className="p-3 border rounded-lg space-y-2">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">Revision {revision.revision_number}</span>
+                          {index === 0 && <Badge variant="secondary">Current</Badge>}
+                          {revision.rolled_back_to && (
+                            <Badge variant="outline">Rollback to {revision.rolled_back_to}</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {format(parseISO(revision.created_at), 'MMM d, yyyy HH:mm')}
+                          {revision.publisher?.full_name && ` · ${revision.publisher.full_name}`}
+                        </p>
+                        {revision.note && <p className="text-sm">{revision.note}</p>}
+                      </div>
+                      {index > 0 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setRollbackTarget(revision.revision_number)}
+                          disabled={rollbackMutation.isPending}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Roll Back
+                        </Button>
+                      )}
+                    </div>
+
+                    {revisionDiffs.length > 0 ? (
+                      <div className="space-y-2">
+                        {revisionDiffs.map(diff => (
+                          <div key={diff.staff_id} className="text-sm">
+                            <p className="font-medium">{staffNames?.get(diff.staff_id) || 'Unknown'}</p>
+                            <ul className="text-muted-foreground">
+                              {describeStaffScheduleDiff(diff).map(line => (
+                                <li key={line}>{line}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No changes to staff shifts</p>
+                    )}
+
+                    {revisionChanges.length > 0 && (
+                      <details className="text-sm">
+                        <summary className="cursor-pointer text-muted-foreground">
+                          {revisionChanges.length} edit{revisionChanges.length === 1 ? '' : 's'}
+                        </summary>
+                        <div className="pt-2">{renderChanges(revisionChanges)}</div>
+                      </details>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={rollbackTarget !== null} onOpenChange={(value) => !value && setRollbackTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back to revision {rollbackTarget}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Shifts and assignments are restored as they were published in revision {rollbackTarget}; later
+              changes, published or not, are undone. Worked shifts are kept, and assignments that now clash
+              with approved vacation or labor rules are left out. Staff whose shifts change are notified.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => rollbackTarget !== null && rollbackMutation.mutate(rollbackTarget)}
+              disabled={rollbackMutation.isPending}
+            >
+              Roll Back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
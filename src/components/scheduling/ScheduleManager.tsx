@@ -2,6 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth';
+import { isOvernightShift } from '@/lib/shiftTimes';
+import type { ShiftTemplate } from '@/lib/schedulingTemplates';
+import { publishScheduleRevision } from '@/lib/scheduleRevisions';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,6 +19,8 @@ import { format } from 'date-fns';
 import { LoadingState } from '@/components/layout/LoadingState';
 import { EmptyState } from '@/components/layout/EmptyState';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { ShiftTemplatePicker } from './ShiftTemplatePicker';
+import { ScheduleRevisionActions } from './ScheduleRevisionActions';
 
 interface ScheduleManagerProps {
   departmentId: string;
@@ -102,6 +107,20 @@ export const ScheduleManager: React.FC<ScheduleManagerProps> = ({ departmentId }
     },
   });
 
+  // Facility of the department, for its shift templates
+  const { data: departmentFacility } = useQuery({
+    queryKey: ['department-facility', departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('departments')
+        .select('facility_id')
+        .eq('id', departmentId)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
   // Fetch schedules
   const { data: schedules, isLoading } = useQuery({
     queryKey: ['schedules', departmentId],
@@ -189,14 +208,7 @@ export const ScheduleManager: React.FC<ScheduleManagerProps> = ({ departmentId }
 
   // Publish schedule mutation
   const publishSchedule = useMutation({
-    mutationFn: async (scheduleId: string) => {
-      const { error } = await supabase
-        .from('schedules')
-        .update({ status: 'published' })
-        .eq('id', scheduleId);
-
-      if (error) throw error;
-    },
+    mutationFn: (schedule: { id: string; name: string }) => publishScheduleRevision(schedule.id, schedule.name),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['schedules'] });
       toast.success('Schedule published');
@@ -267,6 +279,18 @@ export const ScheduleManager: React.FC<ScheduleManagerProps> = ({ departmentId }
     setShifts(newShifts);
   };
 
+  const applyTemplate = (index: number, template: ShiftTemplate) => {
+    const newShifts = [...shifts];
+    newShifts[index] = {
+      name: template.name,
+      startTime: template.start_time.slice(0, 5),
+      endTime: template.end_time.slice(0, 5),
+      requiredStaff: template.required_staff,
+      color: template.color,
+    };
+    setShifts(newShifts);
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'draft':
@@ -409,6 +433,11 @@ export const ScheduleManager: React.FC<ScheduleManagerProps> = ({ departmentId }
                           className="w-8 h-8 rounded cursor-pointer"
                         />
                       </div>
+                      <ShiftTemplatePicker
+                        facilityId={departmentFacility?.facility_id}
+                        shift={shift}
+                        onApply={(template) => applyTemplate(index, template)}
+                      />
                       <div>
                         <Label>Shift Name</Label>
                         <Input
@@ -433,6 +462,9 @@ export const ScheduleManager: React.FC<ScheduleManagerProps> = ({ departmentId }
                             value={shift.endTime}
                             onChange={(e) => updateShift(index, 'endTime', e.target.value)}
                           />
+                          {shift.startTime && shift.endTime && isOvernightShift({ start_time: shift.startTime, end_time: shift.endTime }) && (
+                            <p className="text-xs text-muted-foreground mt-1">Ends the next day</p>
+                          )}
                         </div>
                       </div>
                       <div>
@@ -508,13 +540,13 @@ export const ScheduleManager: React.FC<ScheduleManagerProps> = ({ departmentId }
                   </div>
 
                   {/* Actions */}
-                  <div className="flex gap-2 pt-2">
+                  <div className="flex flex-wrap items-center gap-2 pt-2">
                     {schedule.status === 'draft' && (
                       <>
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => publishSchedule.mutate(schedule.id)}
+                          onClick={() => publishSchedule.mutate(schedule)}
                         >
                           <Send className="h-4 w-4 mr-1" />
                           Publish
@@ -528,6 +560,9 @@ export const ScheduleManager: React.FC<ScheduleManagerProps> = ({ departmentId }
                         </Button>
                       </>
                     )}
+                    {schedule.status === 'published' && (
+                      <ScheduleRevisionActions schedule={schedule} />
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { History, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { fetchUnpublishedChangeCount, publishScheduleRevision } from '@/lib/scheduleRevisions';
+import { ScheduleHistoryDialog } from './ScheduleHistoryDialog';
+
+interface ScheduleRevisionActionsProps {
+  schedule: {
+    id: string;
+    name: string;
+  };
+}
+
+/**
+ * Unpublished change count, "Publish Changes" and history of a published schedule
+ */
+export const ScheduleRevisionActions: React.FC<ScheduleRevisionActionsProps> = ({ schedule }) => {
+  const queryClient = useQueryClient();
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  const { data: unpublishedCount } = useQuery({
+    queryKey: ['schedule-unpublished-changes', schedule.id],
+    queryFn: () => fetchUnpublishedChangeCount(schedule.id),
+  });
+
+  const publishChanges = useMutation({
+    mutationFn: () => publishScheduleRevision(schedule.id, schedule.name),
+    onSuccess: ({ revisionNumber, notified }) => {
+      queryClient.invalidateQueries({ queryKey: ['schedule-unpublished-changes', schedule.id] });
+      queryClient.invalidateQueries({ queryKey: ['schedule-history', schedule.id] });
+      toast.success(`Published revision ${revisionNumber}${notified ? `, ${notified} staff notified` : ''}`);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to publish changes'),
+  });
+
+  return (
+    <>
+      {!!unpublishedCount && (
+        <>
+          <Badge variant="outline" className="text-warning border-warning/40">
+            {unpublishedCount} unpublished change{unpublishedCount === 1 ? '' : 's'}
+          </Badge>
+          <Button size="sm" onClick={() => publishChanges.mutate()} disabled={publishChanges.isPending}>
+            <Send className="h-4 w-4 mr-1" />
+            Publish Changes
+          </Button>
+        </>
+      )}
+      <Button size="sm" variant="ghost" onClick={() => setHistoryOpen(true)} title="Schedule history">
+        <History className="h-4 w-4" />
+      </Button>
+
+      <ScheduleHistoryDialog
+        scheduleId={schedule.id}
+        scheduleName={schedule.name}
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+      />
+    </>
+  );
+};
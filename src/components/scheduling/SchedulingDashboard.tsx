@@ -9,6 +9,8 @@ import { format, parseISO, isWithinInterval, startOfWeek, endOfWeek, addDays } f
 import { LoadingState } from '@/components/layout/LoadingState';
 import { EmptyState } from '@/components/layout/EmptyState';
 import { StatsCard } from '@/components/shared/StatsCard';
+import { formatShiftTimes } from '@/lib/shiftTimes';
+import { ShiftCoverageView } from './ShiftCoverageView';
 
 interface SchedulingDashboardProps {
   departmentId: string;
@@ -188,6 +190,9 @@ export const SchedulingDashboard: React.FC<SchedulingDashboardProps> = ({ depart
         </CardContent>
       </Card>
 
+      {/* Coverage per shift and day */}
+      <ShiftCoverageView scope={{ departmentId }} />
+
       {/* Upcoming Gaps */}
       {upcomingGaps.length > 0 && (
         <Card>
@@ -213,7 +218,7 @@ export const SchedulingDashboard: React.FC<SchedulingDashboardProps> = ({ depart
                     <div>
                       <p className="font-medium">{gap.shift.name}</p>
                       <p className="text-sm text-muted-foreground">
-                        {format(gap.date, 'EEEE, MMM d')} • {gap.shift.start_time?.slice(0, 5)} - {gap.shift.end_time?.slice(0, 5)}
+                        {format(gap.date, 'EEEE, MMM d')} • {formatShiftTimes(gap.shift)}
                       </p>
                     </div>
                   </div>
@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Calendar, Users, LayoutDashboard } from 'lucide-react';
+import { Calendar, Users, LayoutDashboard, ArrowLeftRight, Timer } from 'lucide-react';
 import { useUserRole } from '@/hooks/useUserRole';
 import ErrorBoundary from '@/components/ErrorBoundary';
 import { ShiftCalendarView } from './ShiftCalendarView';
 import { InteractiveStaffCalendar } from './InteractiveStaffCalendar';
 import { SchedulingDashboard } from './SchedulingDashboard';
 import { StaffScheduleView } from './StaffScheduleView';
+import { ShiftSwapApprovals } from './ShiftSwapApprovals';
+import { TimesheetApprovals } from './TimesheetApprovals';
 import { EmptyState } from '@/components/layout/EmptyState';
 
 interface SchedulingHubProps {
@@ -45,11 +47,11 @@ export const SchedulingHub: React.FC<SchedulingHubProps> = ({ departmentId }) =>
     );
   }
 
-  // Department Head sees assignments, calendar, dashboard (no schedule creation)
+  // Department Head sees assignments, calendar, dashboard, shift trades and timesheets (no schedule creation)
   return (
     <ErrorBoundary>
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-3 mb-6">
+        <TabsList className="grid w-full grid-cols-5 mb-6">
           <TabsTrigger value="assignments" className="flex items-center gap-2">
             <Users className="h-4 w-4" />
             <span className="hidden sm:inline">Assign Staff</span>
@@ -62,6 +64,14 @@ export const SchedulingHub: React.FC<SchedulingHubProps> = ({ departmentId }) =>
             <LayoutDashboard className="h-4 w-4" />
             <span className="hidden sm:inline">Dashboard</span>
           </TabsTrigger>
+          <TabsTrigger value="swaps" className="flex items-center gap-2">
+            <ArrowLeftRight className="h-4 w-4" />
+            <span className="hidden sm:inline">Swaps</span>
+          </TabsTrigger>
+          <TabsTrigger value="timesheets" className="flex items-center gap-2">
+            <Timer className="h-4 w-4" />
+            <span className="hidden sm:inline">Timesheets</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="assignments">
@@ -75,6 +85,14 @@ export const SchedulingHub: React.FC<SchedulingHubProps> = ({ departmentId }) =>
         <TabsContent value="dashboard">
           <SchedulingDashboard departmentId={effectiveDepartmentId} />
         </TabsContent>
+
+        <TabsContent value="swaps">
+          <ShiftSwapApprovals departmentId={effectiveDepartmentId} />
+        </TabsContent>
+
+        <TabsContent value="timesheets">
+          <TimesheetApprovals departmentId={effectiveDepartmentId} />
+        </TabsContent>
       </Tabs>
     </ErrorBoundary>
   );
@@ -0,0 +1,380 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Clock, Minus, Plus, Repeat, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingState } from '@/components/layout/LoadingState';
+import { cn } from '@/lib/utils';
+import { formatShiftTimes, isOvernightShift } from '@/lib/shiftTimes';
+import {
+  ROTATION_DAY_OFF,
+  ROTATION_PRESETS,
+  describeRotationCycle,
+  getRotationStepLabel,
+} from '@/lib/schedulingTemplates';
+
+interface SchedulingTemplatesManagerProps {
+  facilityId: string;
+}
+
+const MAX_SHIFTS = 3;
+const MAX_CYCLE_DAYS = 56;
+
+export const SchedulingTemplatesManager: React.FC<SchedulingTemplatesManagerProps> = ({ facilityId }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const [templateName, setTemplateName] = useState('');
+  const [startTime, setStartTime] = useState('07:00');
+  const [endTime, setEndTime] = useState('15:00');
+  const [requiredStaff, setRequiredStaff] = useState(1);
+  const [color, setColor] = useState('#3b82f6');
+
+  const [patternName, setPatternName] = useState('');
+  const [cycle, setCycle] = useState<number[]>(ROTATION_PRESETS[0].cycle);
+  const [patternDescription, setPatternDescription] = useState('');
+
+  const { data: templates, isLoading: templatesLoading } = useQuery({
+    queryKey: ['shift-templates', facilityId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('shift_templates')
+        .select('*')
+        .eq('facility_id', facilityId)
+        .order('start_time');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: patterns, isLoading: patternsLoading } = useQuery({
+    queryKey: ['rotation-patterns', facilityId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('rotation_patterns')
+        .select('*')
+        .eq('facility_id', facilityId)
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const addTemplate = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('shift_templates').insert({
+        facility_id: facilityId,
+        name: templateName.trim(),
+        start_time: startTime,
+        end_time: endTime,
+        required_staff: requiredStaff,
+        color,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-templates'] });
+      toast.success('Shift template added');
+      setTemplateName('');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to add shift template'),
+  });
+
+  const deleteTemplate = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('shift_templates').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-templates'] });
+      toast.success('Shift template deleted');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to delete shift template'),
+  });
+
+  const addPattern = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('rotation_patterns').insert({
+        facility_id: facilityId,
+        name: patternName.trim(),
+        cycle,
+        description: patternDescription.trim() || null,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rotation-patterns'] });
+      toast.success('Rotation pattern added');
+      setPatternName('');
+      setPatternDescription('');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to add rotation pattern'),
+  });
+
+  const deletePattern = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('rotation_patterns').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rotation-patterns'] });
+      toast.success('Rotation pattern deleted');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to delete rotation pattern'),
+  });
+
+  // Clicking a day cycles through off, shift 1, shift 2 and shift 3
+  const toggleCycleDay = (index: number) => {
+    setCycle(cycle.map((step, i) => (i === index ? (step + 1) % (MAX_SHIFTS + 1) : step)));
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = ROTATION_PRESETS.find(p => p.name === name);
+    if (!preset) return;
+    setCycle(preset.cycle);
+    if (!patternName.trim()) setPatternName(preset.name);
+  };
+
+  if (templatesLoading || patternsLoading) return <LoadingState message="Loading templates..." />;
+
+  const hasWorkingDay = cycle.some(step => step !== ROTATION_DAY_OFF);
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Shift Templates
+          </CardTitle>
+          <CardDescription>Saved shifts that can be copied into new schedules</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-3 p-3 border rounded-lg">
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="template-name" className="text-xs">Name</Label>
+                <Input
+                  id="template-name"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  placeholder="e.g., Early Shift"
+                />
+              </div>
+              <input
+                type="color"
+                value={color}
+                onChange={(e) => setColor(e.target.value)}
+                className="w-10 h-10 rounded cursor-pointer border-0"
+                aria-label="Template color"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Start</Label>
+                <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">End</Label>
+                <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Staff</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={requiredStaff}
+                  onChange={(e) => setRequiredStaff(parseInt(e.target.value) || 1)}
+                />
+              </div>
+            </div>
+            {startTime && endTime && isOvernightShift({ start_time: startTime, end_time: endTime }) && (
+              <p className="text-xs text-muted-foreground">Ends the next day</p>
+            )}
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={() => addTemplate.mutate()}
+                disabled={!templateName.trim() || !startTime || !endTime || addTemplate.isPending}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Template
+              </Button>
+            </div>
+          </div>
+
+          {templates && templates.length > 0 ? (
+            <div className="space-y-2">
+              {templates.map(template => (
+                <div key={template.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <div className="w-3 h-8 rounded shrink-0" style={{ backgroundColor: template.color }} />
+                    <div className="min-w-0">
+                      <p className="font-medium text-sm truncate">{template.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatShiftTimes(template)} • {template.required_staff} staff
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteTemplate.mutate(template.id)}
+                    disabled={deleteTemplate.isPending}
+                    aria-label="Delete template"
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">No shift templates yet</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Rotation Patterns
+          </CardTitle>
+          <CardDescription>
+            Repeating cycles of shifts and days off that department heads apply to staff groups
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-3 p-3 border rounded-lg">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="pattern-name" className="text-xs">Name</Label>
+                <Input
+                  id="pattern-name"
+                  value={patternName}
+                  onChange={(e) => setPatternName(e.target.value)}
+                  placeholder="e.g., 4 on / 4 off"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Start from</Label>
+                <Select value="" onValueChange={applyPreset}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Preset..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROTATION_PRESETS.map(preset => (
+                      <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Cycle ({cycle.length} days, click a day to change it)</Label>
+              <div className="flex flex-wrap gap-1">
+                {cycle.map((step, index) => (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => toggleCycleDay(index)}
+                    className={cn(
+                      'w-9 h-9 rounded text-xs font-medium border transition-colors',
+                      step === ROTATION_DAY_OFF ? 'bg-muted text-muted-foreground' : 'bg-primary/10 border-primary text-primary'
+                    )}
+                    title={`Day ${index + 1}`}
+                  >
+                    {getRotationStepLabel(step)}
+                  </button>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  className="w-9 h-9"
+                  onClick={() => setCycle([...cycle, ROTATION_DAY_OFF])}
+                  disabled={cycle.length >= MAX_CYCLE_DAYS}
+                  aria-label="Add day"
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  className="w-9 h-9"
+                  onClick={() => setCycle(cycle.slice(0, -1))}
+                  disabled={cycle.length <= 1}
+                  aria-label="Remove last day"
+                >
+                  <Minus className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                S1–S3 are the schedule's first, second and third shift. {describeRotationCycle(cycle)}
+              </p>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="pattern-description" className="text-xs">Description (optional)</Label>
+              <Input
+                id="pattern-description"
+                value={patternDescription}
+                onChange={(e) => setPatternDescription(e.target.value)}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={() => addPattern.mutate()}
+                disabled={!patternName.trim() || !hasWorkingDay || addPattern.isPending}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Pattern
+              </Button>
+            </div>
+          </div>
+
+          {patterns && patterns.length > 0 ? (
+            <div className="space-y-2">
+              {patterns.map(pattern => (
+                <div key={pattern.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm truncate">{pattern.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {pattern.cycle.length}-day cycle: {describeRotationCycle(pattern.cycle)}
+                    </p>
+                    {pattern.description && (
+                      <p className="text-xs text-muted-foreground">{pattern.description}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deletePattern.mutate(pattern.id)}
+                    disabled={deletePattern.isPending}
+                    aria-label="Delete rotation pattern"
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">No rotation patterns yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
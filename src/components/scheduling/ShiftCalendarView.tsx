@@ -6,10 +6,11 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ChevronLeft, ChevronRight, Calendar } from 'lucide-react';
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isToday, addMonths, subMonths, isSameDay, parseISO } from 'date-fns';
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isToday, addMonths, subMonths, isSameDay, parseISO, subDays } from 'date-fns';
 import { LoadingState } from '@/components/layout/LoadingState';
 import { EmptyState } from '@/components/layout/EmptyState';
 import { cn } from '@/lib/utils';
+import { formatShiftTimes, isOvernightShift } from '@/lib/shiftTimes';
 
 interface ShiftCalendarViewProps {
   departmentId: string;
@@ -60,6 +61,25 @@ export const ShiftCalendarView: React.FC<ShiftCalendarViewProps> = ({ department
       const scheduleStart = parseISO(schedule.start_date);
       const scheduleEnd = parseISO(schedule.end_date);
 
+      // Overnight shifts of the previous day continue until their end time
+      const previousDay = subDays(day, 1);
+      if (previousDay >= scheduleStart && previousDay <= scheduleEnd) {
+        schedule.shifts?.filter(shift => isOvernightShift(shift)).forEach(shift => {
+          const previousAssignments = shift.shift_assignments?.filter(a =>
+            isSameDay(parseISO(a.assignment_date), previousDay)
+          ) || [];
+
+          if (previousAssignments.length > 0) {
+            assignments.push({
+              shift,
+              schedule,
+              assignments: previousAssignments,
+              continued: true,
+            });
+          }
+        });
+      }
+
       if (day >= scheduleStart && day <= scheduleEnd) {
         schedule.shifts?.forEach((shift: any) => {
           const dayAssignments = shift.shift_assignments?.filter((a: any) =>
@@ -173,14 +193,19 @@ export const ShiftCalendarView: React.FC<ShiftCalendarViewProps> = ({ department
                     {dayAssignments.slice(0, 3).map((item, idx) => (
                       <div
                         key={`${item.shift.id}-${idx}`}
-                        className="text-xs px-1 py-0.5 rounded truncate"
+                        className={cn("text-xs px-1 py-0.5 rounded truncate", item.continued && "opacity-60")}
                         style={{
                           backgroundColor: `${item.shift.color}20`,
                           color: item.shift.color,
-                          borderLeft: `2px solid ${item.shift.color}`,
+                          borderLeft: `2px ${item.continued ? 'dashed' : 'solid'} ${item.shift.color}`,
                         }}
+                        title={item.continued
+                          ? `${item.shift.name} from the previous day, until ${item.shift.end_time?.slice(0, 5)}`
+                          : `${item.shift.name} ${formatShiftTimes(item.shift)}`}
                       >
-                        <span className="hidden sm:inline">{item.shift.name}</span>
+                        <span className="hidden sm:inline">
+                          {item.continued ? `↳ ${item.shift.name} until ${item.shift.end_time?.slice(0, 5)}` : item.shift.name}
+                        </span>
                         <span className="sm:hidden">{item.shift.name?.charAt(0)}</span>
                         {item.assignments.length > 0 && (
                           <span className="ml-1 opacity-75">
@@ -221,7 +246,9 @@ export const ShiftCalendarView: React.FC<ShiftCalendarViewProps> = ({ department
                     className="w-3 h-3 rounded"
                     style={{ backgroundColor: shift.color }}
                   />
-                  <span className="text-sm">{shift.name}</span>
+                  <span className="text-sm">
+                    {shift.name} <span className="text-muted-foreground">({formatShiftTimes(shift)})</span>
+                  </span>
                 </div>
               ))
             )}
@@ -0,0 +1,168 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { differenceInMinutes, format, isToday, parseISO } from 'date-fns';
+import { LogIn, LogOut, Timer } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { formatShiftTimes, getShiftInterval } from '@/lib/shiftTimes';
+import {
+  TIMESHEET_FLAG_LABELS,
+  TIMESHEET_GRACE_MINUTES,
+  TIME_ENTRY_STATUS_LABELS,
+  clockIn,
+  clockOut,
+  fetchMyClockShifts,
+  getClockInWindow,
+  getTimesheetFlags,
+  getWorkedHours,
+  type ClockShift,
+  type TimeEntryStatus,
+} from '@/lib/timesheets';
+
+/**
+ * Clock in and out of today's shifts (and overnight shifts from yesterday) from the staff dashboard
+ */
+export const ShiftClockCard: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: assignments } = useQuery({
+    queryKey: ['my-clock-shifts', user?.id],
+    queryFn: () => fetchMyClockShifts(user!.id),
+    enabled: !!user?.id,
+    // Re-render every minute so clock-in windows open and close on time
+    refetchInterval: 60 * 1000,
+  });
+
+  const onClocked = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['my-clock-shifts'] });
+    queryClient.invalidateQueries({ queryKey: ['timesheets'] });
+    toast.success(message);
+  };
+
+  const clockInMutation = useMutation({
+    mutationFn: (assignment: ClockShift) => clockIn(assignment.id),
+    onSuccess: () => onClocked('Clocked in'),
+    onError: (error: Error) => toast.error(error.message || 'Failed to clock in'),
+  });
+
+  const clockOutMutation = useMutation({
+    mutationFn: (entryId: string) => clockOut(entryId),
+    onSuccess: () => onClocked('Clocked out, your hours are awaiting approval'),
+    onError: (error: Error) => toast.error(error.message || 'Failed to clock out'),
+  });
+
+  const now = new Date();
+  const shifts = (assignments || []).filter(assignment => {
+    const { start, end } = getShiftInterval(assignment.assignment_date, assignment.shifts);
+    return assignment.time_entries?.status === 'open' || isToday(start) || now <= end;
+  });
+
+  if (shifts.length === 0) return null;
+
+  const renderAction = (assignment: ClockShift) => {
+    const entry = assignment.time_entries;
+    const { opens, closes } = getClockInWindow(assignment.assignment_date, assignment.shifts);
+    const { start } = getShiftInterval(assignment.assignment_date, assignment.shifts);
+
+    if (entry?.status === 'open') {
+      return (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => clockOutMutation.mutate(entry.id)}
+          disabled={clockOutMutation.isPending}
+        >
+          <LogOut className="h-4 w-4 mr-1" />
+          Clock Out
+        </Button>
+      );
+    }
+
+    if (entry) {
+      const flags = getTimesheetFlags(assignment.assignment_date, assignment.shifts, entry, now);
+      return (
+        <div className="flex flex-wrap items-center justify-end gap-1">
+          {flags.map(flag => (
+            <Badge key={flag} variant="outline" className="text-warning border-warning/40">
+              {TIMESHEET_FLAG_LABELS[flag]}
+            </Badge>
+          ))}
+          <Badge variant={entry.status === 'rejected' ? 'destructive' : 'secondary'}>
+            {getWorkedHours(entry)}h · {TIME_ENTRY_STATUS_LABELS[entry.status as TimeEntryStatus]}
+          </Badge>
+        </div>
+      );
+    }
+
+    if (now > closes) {
+      return <Badge variant="destructive">{TIMESHEET_FLAG_LABELS.missed}</Badge>;
+    }
+
+    if (now < opens) {
+      return (
+        <span className="text-xs text-muted-foreground whitespace-nowrap">
+          Clock-in opens {format(opens, 'HH:mm')}
+        </span>
+      );
+    }
+
+    const lateBy = differenceInMinutes(now, start);
+    return (
+      <div className="flex items-center gap-2">
+        {lateBy > TIMESHEET_GRACE_MINUTES && (
+          <span className="text-xs text-warning whitespace-nowrap">{lateBy} min late</span>
+        )}
+        <Button
+          size="sm"
+          onClick={() => clockInMutation.mutate(assignment)}
+          disabled={clockInMutation.isPending}
+        >
+          <LogIn className="h-4 w-4 mr-1" />
+          Clock In
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Today's Shifts
+        </CardTitle>
+        <CardDescription>Clock in when you start and out when you leave</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {shifts.map(assignment => (
+          <div key={assignment.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+            <div className="flex items-center gap-3 min-w-0">
+              <div
+                className="w-1 h-10 rounded-full shrink-0"
+                style={{ backgroundColor: assignment.shifts.color || undefined }}
+              />
+              <div className="min-w-0">
+                <p className="font-medium truncate">{assignment.shifts.name}</p>
+                <p className="text-sm text-muted-foreground">
+                  {format(parseISO(assignment.assignment_date), 'EEE, MMM d')} · {formatShiftTimes(assignment.shifts)}
+                </p>
+                {assignment.time_entries && (
+                  <p className="text-xs text-muted-foreground">
+                    In {format(parseISO(assignment.time_entries.clock_in_at), 'HH:mm')}
+                    {assignment.time_entries.clock_out_at &&
+                      ` · Out ${format(parseISO(assignment.time_entries.clock_out_at), 'HH:mm')}`}
+                  </p>
+                )}
+              </div>
+            </div>
+            {renderAction(assignment)}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
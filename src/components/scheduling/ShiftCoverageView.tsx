@@ -0,0 +1,277 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { addWeeks, eachDayOfInterval, endOfWeek, format, isToday, parseISO, startOfWeek } from 'date-fns';
+import { AlertTriangle, ChevronLeft, ChevronRight, Grid3X3 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LoadingState } from '@/components/layout/LoadingState';
+import { EmptyState } from '@/components/layout/EmptyState';
+import { cn } from '@/lib/utils';
+import { formatShiftTimes } from '@/lib/shiftTimes';
+import {
+  SHIFT_COVERAGE_LABELS,
+  SHIFT_COVERAGE_STYLES,
+  fetchShiftCoverage,
+  rollUpShiftCoverage,
+  summarizeShiftCoverage,
+  type CoverageLevelKey,
+  type ShiftCoverageScope,
+  type ShiftCoverageSlot,
+  type ShiftCoverageStatus,
+} from '@/lib/shiftCoverage';
+import { CoverageGapDialog } from './CoverageGapDialog';
+
+interface ShiftCoverageViewProps {
+  scope: ShiftCoverageScope;
+  /** Levels to summarize by; without them a shift-by-day grid is shown */
+  rollUpLevels?: CoverageLevelKey[];
+}
+
+const LEVEL_LABELS: Record<CoverageLevelKey, string> = {
+  department: 'Department',
+  facility: 'Facility',
+  workspace: 'Workspace',
+};
+
+const STATUS_ORDER: ShiftCoverageStatus[] = ['unfilled', 'understaffed', 'staffed', 'overstaffed'];
+
+/**
+ * Filled versus required staff per shift and day of published schedules. Gaps can be clicked to
+ * see staff who are free to cover them.
+ */
+export const ShiftCoverageView: React.FC<ShiftCoverageViewProps> = ({ scope, rollUpLevels }) => {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [level, setLevel] = useState<CoverageLevelKey>(rollUpLevels?.[0] || 'department');
+  const [selectedSlot, setSelectedSlot] = useState<ShiftCoverageSlot | null>(null);
+  const weekEnd = endOfWeek(weekStart);
+  const from = format(weekStart, 'yyyy-MM-dd');
+  const to = format(weekEnd, 'yyyy-MM-dd');
+
+  const { data: slots, isLoading } = useQuery({
+    queryKey: ['shift-coverage', scope, from],
+    queryFn: () => fetchShiftCoverage(scope, from, to),
+    enabled: !!(scope.departmentId || scope.facilityId || scope.workspaceIds?.length),
+  });
+
+  const days = eachDayOfInterval({ start: weekStart, end: weekEnd }).map(day => format(day, 'yyyy-MM-dd'));
+  const summary = summarizeShiftCoverage(slots || []);
+
+  // One grid row per shift of each schedule
+  const rows = useMemo(() => {
+    const byShift = new Map<string, { key: string; label: string; slot: ShiftCoverageSlot; days: Map<string, ShiftCoverageSlot> }>();
+    (slots || []).forEach(slot => {
+      const row = byShift.get(slot.shift.id) || { key: slot.shift.id, label: slot.schedule_name, slot, days: new Map() };
+      row.days.set(slot.date, slot);
+      byShift.set(slot.shift.id, row);
+    });
+    return Array.from(byShift.values());
+  }, [slots]);
+
+  const gaps = (slots || []).filter(slot => slot.assigned < slot.required);
+
+  const renderCell = (slot: ShiftCoverageSlot | undefined, day: string) => {
+    if (!slot) return <TableCell key={day} className="text-center text-muted-foreground">–</TableCell>;
+    const isGap = slot.assigned < slot.required;
+    return (
+      <TableCell key={day} className="p-1 text-center">
+        <button
+          type="button"
+          className={cn(
+            'w-full rounded px-2 py-1 text-xs font-medium',
+            SHIFT_COVERAGE_STYLES[slot.status],
+            isGap ? 'cursor-pointer hover:opacity-80' : 'cursor-default'
+          )}
+          onClick={() => isGap && setSelectedSlot(slot)}
+          title={`${SHIFT_COVERAGE_LABELS[slot.status]}${slot.staff_names.length ? `: ${slot.staff_names.join(', ')}` : ''}`}
+        >
+          {slot.assigned}/{slot.required}
+        </button>
+      </TableCell>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2">
+              <Grid3X3 className="h-5 w-5" />
+              Shift Coverage
+            </CardTitle>
+            <CardDescription>
+              Assigned versus required staff, {format(weekStart, 'MMM d')} - {format(weekEnd, 'MMM d, yyyy')}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addWeeks(weekStart, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(startOfWeek(new Date()))}>
+              This Week
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addWeeks(weekStart, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <LoadingState message="Loading coverage..." />
+        ) : !slots || slots.length === 0 ? (
+          <EmptyState
+            icon={Grid3X3}
+            title="No published shifts"
+            description="There are no published schedules covering this week."
+          />
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>{summary.filled} of {summary.required} positions filled</span>
+                <span className="font-medium">{summary.rate}%</span>
+              </div>
+              <Progress value={summary.rate} className="h-2" />
+              <div className="flex flex-wrap gap-2 pt-1">
+                {STATUS_ORDER.map(status => (
+                  <Badge key={status} variant="outline" className="gap-2">
+                    <span className={cn('h-2 w-2 rounded-full', SHIFT_COVERAGE_STYLES[status])} />
+                    {SHIFT_COVERAGE_LABELS[status]}: {summary[status]}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            {rollUpLevels?.length ? (
+              <>
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <h4 className="text-sm font-medium">Coverage by {LEVEL_LABELS[level].toLowerCase()}</h4>
+                    {rollUpLevels.length > 1 && (
+                      <Select value={level} onValueChange={(value) => setLevel(value as CoverageLevelKey)}>
+                        <SelectTrigger className="w-[160px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {rollUpLevels.map(key => (
+                            <SelectItem key={key} value={key}>{LEVEL_LABELS[key]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                  <div className="overflow-x-auto border rounded-md">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{LEVEL_LABELS[level]}</TableHead>
+                          <TableHead className="text-right">Filled</TableHead>
+                          <TableHead className="text-right">Gaps</TableHead>
+                          <TableHead className="text-right">Over</TableHead>
+                          <TableHead className="w-[160px]">Coverage</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rollUpShiftCoverage(slots, level).map(group => (
+                          <TableRow key={group.id}>
+                            <TableCell className="font-medium">{group.name}</TableCell>
+                            <TableCell className="text-right">{group.summary.filled}/{group.summary.required}</TableCell>
+                            <TableCell className={cn('text-right', group.summary.missing > 0 && 'text-destructive font-medium')}>
+                              {group.summary.missing}
+                            </TableCell>
+                            <TableCell className="text-right">{group.summary.surplus}</TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Progress value={group.summary.rate} className="h-2" />
+                                <span className="text-xs w-10 text-right">{group.summary.rate}%</span>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+
+                {gaps.length > 0 && (
+                  <div className="space-y-3">
+                    <h4 className="text-sm font-medium flex items-center gap-2">
+                      <AlertTriangle className="h-4 w-4 text-warning" />
+                      Staffing Gaps
+                    </h4>
+                    <div className="space-y-2 max-h-[360px] overflow-y-auto">
+                      {gaps.map(gap => (
+                        <button
+                          key={`${gap.shift.id}-${gap.date}`}
+                          type="button"
+                          className="w-full flex items-center justify-between gap-3 p-3 border rounded-lg text-left hover:bg-muted/50"
+                          onClick={() => setSelectedSlot(gap)}
+                        >
+                          <div className="flex items-center gap-3">
+                            <div className="w-3 h-3 rounded shrink-0" style={{ backgroundColor: gap.shift.color || undefined }} />
+                            <div>
+                              <p className="font-medium">{gap.shift.name} · {gap.department_name}</p>
+                              <p className="text-sm text-muted-foreground">
+                                {gap.facility_name} · {format(parseISO(gap.date), 'EEE, MMM d')} · {formatShiftTimes(gap.shift)}
+                              </p>
+                            </div>
+                          </div>
+                          <Badge className={SHIFT_COVERAGE_STYLES[gap.status]}>
+                            {gap.assigned}/{gap.required}
+                          </Badge>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="overflow-x-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="min-w-[160px]">Shift</TableHead>
+                      {days.map(day => (
+                        <TableHead
+                          key={day}
+                          className={cn('text-center min-w-[64px]', isToday(parseISO(day)) && 'text-primary')}
+                        >
+                          {format(parseISO(day), 'EEE d')}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map(row => (
+                      <TableRow key={row.key}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 rounded shrink-0" style={{ backgroundColor: row.slot.shift.color || undefined }} />
+                            <div>
+                              <p className="font-medium text-sm">{row.slot.shift.name}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {row.label} · {formatShiftTimes(row.slot.shift)}
+                              </p>
+                            </div>
+                          </div>
+                        </TableCell>
+                        {days.map(day => renderCell(row.days.get(day), day))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <CoverageGapDialog slot={selectedSlot} onOpenChange={(open) => !open && setSelectedSlot(null)} />
+    </Card>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, ArrowLeftRight, Check, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingState } from '@/components/layout/LoadingState';
+import { EmptyState } from '@/components/layout/EmptyState';
+import {
+  SHIFT_SWAP_STATUS_LABELS,
+  checkShiftSwapEligibility,
+  describeSwapShift,
+  fetchShiftSwapRequests,
+  getShiftSwapErrorMessage,
+  reviewShiftSwap,
+  type ShiftSwapRequest,
+  type ShiftSwapStatus,
+} from '@/lib/shiftSwaps';
+
+interface ShiftSwapApprovalsProps {
+  departmentId: string;
+}
+
+const SwapIssues: React.FC<{ request: ShiftSwapRequest }> = ({ request }) => {
+  // Re-checked on review: schedules or vacations may have changed since the colleague accepted
+  const { data: issues } = useQuery({
+    queryKey: ['swap-eligibility', request.id, request.updated_at],
+    queryFn: async () => {
+      const [taker, requester] = await Promise.all([
+        checkShiftSwapEligibility(request.assignment_id, request.taker_id!, request.target_assignment_id || undefined),
+        request.request_type === 'swap'
+          ? checkShiftSwapEligibility(request.target_assignment_id!, request.requester_id, request.assignment_id)
+          : Promise.resolve([]),
+      ]);
+      return [
+        ...taker.map(issue => `${request.taker?.full_name || 'Taker'}: ${issue.message}`),
+        ...requester.map(issue => `${request.requester?.full_name || 'Requester'}: ${issue.message}`),
+      ];
+    },
+  });
+
+  if (!issues?.length) return null;
+
+  return (
+    <div className="p-2 rounded border border-destructive/50 bg-destructive/5 text-sm space-y-1">
+      {issues.map(issue => (
+        <p key={issue} className="flex items-start gap-2 text-destructive">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          {issue}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export const ShiftSwapApprovals: React.FC<ShiftSwapApprovalsProps> = ({ departmentId }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [comments, setComments] = useState<Record<string, string>>({});
+
+  const { data: requests, isLoading } = useQuery({
+    queryKey: ['shift-swap-requests', departmentId, 'review'],
+    queryFn: () => fetchShiftSwapRequests(departmentId, ['pending_approval', 'approved', 'rejected']),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ request, approve }: { request: ShiftSwapRequest; approve: boolean }) =>
+      reviewShiftSwap(request.id, approve, comments[request.id]),
+    onSuccess: (_, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: ['shift-swap-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['shift-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['schedule-unpublished-changes'] });
+      queryClient.invalidateQueries({ queryKey: ['staff-shift-assignments'] });
+      toast.success(approve ? 'Shift trade approved' : 'Shift trade rejected');
+    },
+    onError: (error: Error & { details?: string }) => toast.error(getShiftSwapErrorMessage(error)),
+  });
+
+  if (isLoading) return <LoadingState message="Loading shift trades..." />;
+
+  const pending = (requests || []).filter(r => r.status === 'pending_approval');
+  const reviewed = (requests || []).filter(r => r.status !== 'pending_approval').slice(0, 10);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ArrowLeftRight className="h-5 w-5" />
+            Shift Trades Awaiting Approval
+          </CardTitle>
+          <CardDescription>Swaps and picked-up shifts between your staff</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {pending.length > 0 ? (
+            <div className="space-y-3">
+              {pending.map(request => (
+                <div key={request.id} className="p-3 border rounded-lg space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="text-sm space-y-1">
+                      <Badge variant="outline" className="capitalize">{request.request_type}</Badge>
+                      <p>
+                        <span className="font-medium">{request.requester?.full_name}</span> gives{' '}
+                        {describeSwapShift(request.assignment)} to{' '}
+                        <span className="font-medium">{request.taker?.full_name}</span>
+                      </p>
+                      {request.request_type === 'swap' && (
+                        <p>
+                          <span className="font-medium">{request.taker?.full_name}</span> gives{' '}
+                          {describeSwapShift(request.target_assignment)} to{' '}
+                          <span className="font-medium">{request.requester?.full_name}</span>
+                        </p>
+                      )}
+                      {request.notes && <p className="text-muted-foreground italic">"{request.notes}"</p>}
+                    </div>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {format(parseISO(request.updated_at), 'MMM d, HH:mm')}
+                    </span>
+                  </div>
+
+                  <SwapIssues request={request} />
+
+                  {/* People taking part in a trade cannot review it */}
+                  {user?.id === request.requester_id || user?.id === request.taker_id ? (
+                    <p className="text-sm text-muted-foreground">
+                      You are part of this trade, so another reviewer has to decide on it.
+                    </p>
+                  ) : (
+                    <>
+                      <Textarea
+                        placeholder="Comment (optional)"
+                        rows={2}
+                        value={comments[request.id] || ''}
+                        onChange={e => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={reviewMutation.isPending}
+                          onClick={() => reviewMutation.mutate({ request, approve: false })}
+                        >
+                          <X className="h-4 w-4 mr-2" />
+                          Reject
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={reviewMutation.isPending}
+                          onClick={() => reviewMutation.mutate({ request, approve: true })}
+                        >
+                          <Check className="h-4 w-4 mr-2" />
+                          Approve
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <EmptyState
+              icon={ArrowLeftRight}
+              title="No pending trades"
+              description="Shift swaps and giveaways appear here once a colleague accepts them"
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      {reviewed.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recently Reviewed</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {reviewed.map(request => (
+              <div key={request.id} className="flex items-center justify-between gap-2 p-2 border rounded text-sm">
+                <span>
+                  {request.requester?.full_name} → {request.taker?.full_name}: {describeSwapShift(request.assignment)}
+                </span>
+                <Badge variant={request.status === 'approved' ? 'default' : 'destructive'}>
+                  {SHIFT_SWAP_STATUS_LABELS[request.status as ShiftSwapStatus]}
+                </Badge>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
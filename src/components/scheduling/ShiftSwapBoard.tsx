@@ -0,0 +1,167 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeftRight, Hand } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { LoadingState } from '@/components/layout/LoadingState';
+import {
+  ACTIVE_SHIFT_SWAP_STATUSES,
+  SHIFT_SWAP_STATUS_LABELS,
+  acceptShiftSwap,
+  cancelShiftSwap,
+  describeSwapShift,
+  fetchShiftSwapRequests,
+  getShiftSwapErrorMessage,
+  type ShiftSwapRequest,
+  type ShiftSwapStatus,
+} from '@/lib/shiftSwaps';
+
+interface ShiftSwapBoardProps {
+  departmentId: string;
+}
+
+export const ShiftSwapBoard: React.FC<ShiftSwapBoardProps> = ({ departmentId }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: requests, isLoading } = useQuery({
+    queryKey: ['shift-swap-requests', departmentId],
+    queryFn: () => fetchShiftSwapRequests(departmentId),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['shift-swap-requests'] });
+    queryClient.invalidateQueries({ queryKey: ['my-shift-assignments'] });
+    queryClient.invalidateQueries({ queryKey: ['upcoming-assignments'] });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: (request: ShiftSwapRequest) => acceptShiftSwap(request.id),
+    onSuccess: (_, request) => {
+      invalidate();
+      toast.success(request.request_type === 'swap' ? 'Swap accepted, awaiting approval' : 'Shift picked up, awaiting approval');
+    },
+    onError: (error: Error & { details?: string }) => toast.error(getShiftSwapErrorMessage(error)),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (request: ShiftSwapRequest) => cancelShiftSwap(request.id),
+    onSuccess: (_, request) => {
+      invalidate();
+      toast.success(request.requester_id === user?.id ? 'Request withdrawn' : 'Swap declined');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  if (isLoading) return <LoadingState message="Loading shift trades..." />;
+
+  const isActive = (request: ShiftSwapRequest) =>
+    ACTIVE_SHIFT_SWAP_STATUSES.includes(request.status as ShiftSwapStatus);
+
+  const openOffers = (requests || []).filter(r => r.status === 'open' && r.requester_id !== user?.id);
+  const incoming = (requests || []).filter(r => r.status === 'pending_colleague' && r.taker_id === user?.id);
+  const mine = (requests || [])
+    .filter(r => (r.requester_id === user?.id || r.taker_id === user?.id) && !incoming.includes(r))
+    .slice(0, 10);
+
+  const isBusy = acceptMutation.isPending || cancelMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowLeftRight className="h-5 w-5" />
+          Shift Trades
+        </CardTitle>
+        <CardDescription>Offered shifts, swap requests and your trades</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {incoming.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Swap requests for you</h4>
+            {incoming.map(request => (
+              <div key={request.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border rounded-lg">
+                <div className="text-sm">
+                  <p>
+                    <span className="font-medium">{request.requester?.full_name || 'A colleague'}</span> offers{' '}
+                    {describeSwapShift(request.assignment)}
+                  </p>
+                  <p className="text-muted-foreground">for your {describeSwapShift(request.target_assignment)}</p>
+                  {request.notes && <p className="text-muted-foreground italic">"{request.notes}"</p>}
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" disabled={isBusy} onClick={() => cancelMutation.mutate(request)}>
+                    Decline
+                  </Button>
+                  <Button size="sm" disabled={isBusy} onClick={() => acceptMutation.mutate(request)}>
+                    Accept
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Offered shifts</h4>
+          {openOffers.length > 0 ? (
+            openOffers.map(request => (
+              <div key={request.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border rounded-lg">
+                <div className="text-sm">
+                  <p className="font-medium">{describeSwapShift(request.assignment)}</p>
+                  <p className="text-muted-foreground">Offered by {request.requester?.full_name || 'a colleague'}</p>
+                  {request.notes && <p className="text-muted-foreground italic">"{request.notes}"</p>}
+                </div>
+                <Button size="sm" disabled={isBusy} onClick={() => acceptMutation.mutate(request)}>
+                  <Hand className="h-4 w-4 mr-2" />
+                  Pick Up
+                </Button>
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground">No shifts are on offer right now</p>
+          )}
+        </div>
+
+        {mine.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Your trades</h4>
+            {mine.map(request => (
+              <div key={request.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border rounded-lg">
+                <div className="text-sm">
+                  <p className="font-medium">
+                    {request.request_type === 'swap' ? 'Swap' : 'Giveaway'}: {describeSwapShift(request.assignment)}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {request.request_type === 'swap'
+                      ? `for ${describeSwapShift(request.target_assignment)} with ${request.requester_id === user?.id ? request.taker?.full_name : request.requester?.full_name}`
+                      : request.taker
+                        ? request.taker_id === user?.id ? 'Picked up by you' : `Picked up by ${request.taker.full_name}`
+                        : `Offered ${format(parseISO(request.created_at), 'MMM d')}`}
+                  </p>
+                  {request.review_comment && (
+                    <p className="text-muted-foreground italic">"{request.review_comment}"</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={request.status === 'approved' ? 'default' : request.status === 'rejected' ? 'destructive' : 'secondary'}>
+                    {SHIFT_SWAP_STATUS_LABELS[request.status as ShiftSwapStatus] || request.status}
+                  </Badge>
+                  {request.requester_id === user?.id && isActive(request) && (
+                    <Button size="sm" variant="ghost" disabled={isBusy} onClick={() => cancelMutation.mutate(request)}>
+                      Withdraw
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
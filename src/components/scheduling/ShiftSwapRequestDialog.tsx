@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { addWeeks, format } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  checkShiftSwapEligibility,
+  describeSwapShift,
+  getShiftSwapErrorMessage,
+  requestShiftSwap,
+  type ShiftSwapType,
+} from '@/lib/shiftSwaps';
+
+interface SwapAssignment {
+  id: string;
+  assignment_date: string;
+  shifts: { name: string; start_time: string; end_time: string } | null;
+}
+
+interface ShiftSwapRequestDialogProps {
+  departmentId: string;
+  assignment: SwapAssignment | null;
+  requestType: ShiftSwapType;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ShiftSwapRequestDialog: React.FC<ShiftSwapRequestDialogProps> = ({
+  departmentId,
+  assignment,
+  requestType,
+  onOpenChange,
+}) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [targetAssignmentId, setTargetAssignmentId] = useState('');
+  const [notes, setNotes] = useState('');
+  const open = !!assignment;
+  const isSwap = requestType === 'swap';
+
+  // Colleagues' upcoming shifts in the department's published schedules
+  const { data: colleagueAssignments } = useQuery({
+    queryKey: ['swap-colleague-assignments', departmentId, user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('shift_assignments')
+        .select(`
+          id,
+          assignment_date,
+          staff_id,
+          profiles:staff_id (full_name),
+          shifts:shift_id!inner (
+            name,
+            start_time,
+            end_time,
+            schedules:schedule_id!inner (department_id, status)
+          )
+        `)
+        .eq('shifts.schedules.department_id', departmentId)
+        .eq('shifts.schedules.status', 'published')
+        .neq('staff_id', user!.id)
+        .neq('status', 'cancelled')
+        .gte('assignment_date', format(new Date(), 'yyyy-MM-dd'))
+        .lte('assignment_date', format(addWeeks(new Date(), 4), 'yyyy-MM-dd'))
+        .order('assignment_date');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open && isSwap && !!user?.id,
+  });
+
+  const target = colleagueAssignments?.find(a => a.id === targetAssignmentId);
+
+  // Both sides of the swap must be able to work the shift they receive
+  const { data: issues } = useQuery({
+    queryKey: ['swap-eligibility', assignment?.id, targetAssignmentId],
+    queryFn: async () => {
+      const [mine, theirs] = await Promise.all([
+        checkShiftSwapEligibility(target!.id, user!.id, assignment!.id),
+        checkShiftSwapEligibility(assignment!.id, target!.staff_id, target!.id),
+      ]);
+      return [
+        ...mine.map(issue => `You: ${issue.message}`),
+        ...theirs.map(issue => `${target!.profiles?.full_name || 'Colleague'}: ${issue.message}`),
+      ];
+    },
+    enabled: open && isSwap && !!target && !!user?.id,
+  });
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setTargetAssignmentId('');
+      setNotes('');
+    }
+    onOpenChange(value);
+  };
+
+  const requestMutation = useMutation({
+    mutationFn: () => requestShiftSwap(assignment!.id, isSwap ? targetAssignmentId : undefined, notes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-swap-requests'] });
+      toast.success(isSwap ? 'Swap request sent to your colleague' : 'Shift offered to your department');
+      handleOpenChange(false);
+    },
+    onError: (error: Error & { details?: string }) => toast.error(getShiftSwapErrorMessage(error)),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isSwap ? 'Request Shift Swap' : 'Offer Shift'}</DialogTitle>
+          <DialogDescription>
+            {isSwap
+              ? 'Propose exchanging your shift for a colleague\'s. Your department head approves the trade once your colleague accepts.'
+              : 'Colleagues in your department can pick up this shift. Your department head approves the trade.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="p-3 border rounded-lg text-sm">
+            <p className="text-muted-foreground">Your shift</p>
+            <p className="font-medium">{describeSwapShift(assignment)}</p>
+          </div>
+
+          {isSwap && (
+            <div className="space-y-2">
+              <Label>Colleague's shift</Label>
+              <Select value={targetAssignmentId} onValueChange={setTargetAssignmentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a shift to take in return" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(colleagueAssignments || []).map(a => (
+                    <SelectItem key={a.id} value={a.id}>
+                      {a.profiles?.full_name || 'Unknown'} — {describeSwapShift(a)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {colleagueAssignments?.length === 0 && (
+                <p className="text-sm text-muted-foreground">No colleague shifts in the next 4 weeks</p>
+              )}
+            </div>
+          )}
+
+          {issues && issues.length > 0 && (
+            <div className="p-3 rounded-lg border border-destructive/50 bg-destructive/5 text-sm space-y-1">
+              {issues.map(issue => (
+                <p key={issue} className="flex items-start gap-2 text-destructive">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  {issue}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Note (optional)</Label>
+            <Textarea value={notes} onChange={e => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => requestMutation.mutate()}
+            disabled={requestMutation.isPending || (isSwap && (!targetAssignmentId || !!issues?.length))}
+          >
+            {isSwap ? 'Send Request' : 'Offer Shift'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,103 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BookmarkPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatShiftTimes } from '@/lib/shiftTimes';
+import type { ShiftTemplate } from '@/lib/schedulingTemplates';
+
+interface ShiftTemplatePickerProps {
+  facilityId?: string | null;
+  shift: {
+    name: string;
+    startTime: string;
+    endTime: string;
+    requiredStaff: number;
+    color: string;
+  };
+  onApply: (template: ShiftTemplate) => void;
+}
+
+/**
+ * Fill a shift of a new schedule from a facility template, or save the shift as a template
+ */
+export const ShiftTemplatePicker: React.FC<ShiftTemplatePickerProps> = ({ facilityId, shift, onApply }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: templates } = useQuery({
+    queryKey: ['shift-templates', facilityId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('shift_templates')
+        .select('*')
+        .eq('facility_id', facilityId!)
+        .order('start_time');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!facilityId,
+  });
+
+  const saveTemplate = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('shift_templates')
+        .upsert({
+          facility_id: facilityId!,
+          name: shift.name.trim(),
+          start_time: shift.startTime,
+          end_time: shift.endTime,
+          required_staff: shift.requiredStaff,
+          color: shift.color,
+          created_by: user?.id,
+        }, { onConflict: 'facility_id,name' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-templates'] });
+      toast.success(`Saved "${shift.name.trim()}" as a template`);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save template'),
+  });
+
+  if (!facilityId) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value=""
+        onValueChange={(id) => {
+          const template = templates?.find(t => t.id === id);
+          if (template) onApply(template);
+        }}
+        disabled={!templates?.length}
+      >
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue placeholder={templates?.length ? 'Use template...' : 'No templates yet'} />
+        </SelectTrigger>
+        <SelectContent>
+          {templates?.map(template => (
+            <SelectItem key={template.id} value={template.id}>
+              {template.name} ({formatShiftTimes(template)})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="h-8 shrink-0"
+        onClick={() => saveTemplate.mutate()}
+        disabled={!shift.name.trim() || !shift.startTime || !shift.endTime || saveTemplate.isPending}
+        title="Save as template"
+      >
+        <BookmarkPlus className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
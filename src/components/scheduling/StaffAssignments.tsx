@@ -9,11 +9,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { UserPlus, Calendar, Users, AlertTriangle, X } from 'lucide-react';
+import { UserPlus, Calendar, Users, AlertTriangle, X, CalendarOff } from 'lucide-react';
 import { toast } from 'sonner';
-import { format, parseISO, eachDayOfInterval } from 'date-fns';
+import { format, parseISO, eachDayOfInterval, addDays } from 'date-fns';
 import { LoadingState } from '@/components/layout/LoadingState';
 import { EmptyState } from '@/components/layout/EmptyState';
+import { isActiveVacationSplit } from '@/lib/vacationAmendments';
+import { vacationSplitOverlapsShift } from '@/lib/vacationDayPortions';
+import { fetchStaffAvailability, getAvailabilityWarnings } from '@/lib/staffAvailability';
+import { checkLaborRules, getLaborRuleErrorMessage } from '@/lib/laborRules';
+import { formatShiftTimes } from '@/lib/shiftTimes';
+import { LaborRuleViolationsDialog, type StaffLaborRuleViolation } from './LaborRuleViolationsDialog';
 
 interface StaffAssignmentsProps {
   departmentId: string;
@@ -27,6 +33,8 @@ export const StaffAssignments: React.FC<StaffAssignmentsProps> = ({ departmentId
   const [selectedDate, setSelectedDate] = useState<string>('');
   const [selectedStaff, setSelectedStaff] = useState<string[]>([]);
   const [isAssignOpen, setIsAssignOpen] = useState(false);
+  const [isCheckingRules, setIsCheckingRules] = useState(false);
+  const [laborViolations, setLaborViolations] = useState<StaffLaborRuleViolation[] | null>(null);
 
   // Fetch schedules (published only for assignment)
   const { data: schedules, isLoading: schedulesLoading } = useQuery({
@@ -66,6 +74,15 @@ export const StaffAssignments: React.FC<StaffAssignmentsProps> = ({ departmentId
     },
   });
 
+  const staffIds = (staff || []).map(member => member.user_id);
+
+  // Fetch availability and shift preferences of department staff
+  const { data: staffAvailability } = useQuery({
+    queryKey: ['staff-availability', departmentId, staffIds],
+    queryFn: () => fetchStaffAvailability(staffIds),
+    enabled: staffIds.length > 0,
+  });
+
   // Fetch existing assignments for selected shift
   const { data: existingAssignments } = useQuery({
     queryKey: ['shift-assignments', selectedShiftId, selectedDate],
@@ -100,16 +117,19 @@ export const StaffAssignments: React.FC<StaffAssignmentsProps> = ({ departmentId
           vacation_plan:vacation_plan_id (
             staff_id,
             status,
+            amends_plan_id,
             profiles:staff_id (full_name)
           )
         `)
-        .lte('start_date', selectedDate)
+        // Overnight shifts reach into the next day
+        .lte('start_date', format(addDays(parseISO(selectedDate), 1), 'yyyy-MM-dd'))
         .gte('end_date', selectedDate);
 
       if (error) throw error;
-      return data?.filter((v: any) => 
-        v.vacation_plan?.status === 'approved' || 
-        v.vacation_plan?.status?.includes('pending')
+      return data?.filter((v: any) =>
+        (v.vacation_plan?.status === 'approved' ||
+        v.vacation_plan?.status?.includes('pending')) &&
+        isActiveVacationSplit(v, v.vacation_plan)
       ) || [];
     },
     enabled: !!selectedDate,
@@ -133,14 +153,14 @@ export const StaffAssignments: React.FC<StaffAssignmentsProps> = ({ departmentId
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['shift-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['schedule-unpublished-changes'] });
       queryClient.invalidateQueries({ queryKey: ['schedules'] });
       toast.success('Staff assigned successfully');
       setSelectedStaff([]);
       setIsAssignOpen(false);
     },
-    onError: (error: unknown) => {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to assign staff';
-      toast.error(errorMessage);
+    onError: (error: Error & { details?: string }) => {
+      toast.error(getLaborRuleErrorMessage(error, 'Failed to assign staff'));
     },
   });
 
@@ -156,6 +176,7 @@ export const StaffAssignments: React.FC<StaffAssignmentsProps> = ({ departmentId
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['shift-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['schedule-unpublished-changes'] });
       toast.success('Assignment removed');
     },
     onError: (error: unknown) => {
@@ -175,9 +196,22 @@ export const StaffAssignments: React.FC<StaffAssignmentsProps> = ({ departmentId
       })
     : [];
 
-  // Check if staff has vacation conflict
+  // Check if staff has vacation conflict (partial-day leave only when it overlaps the shift)
   const hasVacationConflict = (staffId: string) => {
-    return vacationConflicts?.some((v: any) => v.vacation_plan?.staff_id === staffId);
+    return vacationConflicts?.some((v: any) =>
+      v.vacation_plan?.staff_id === staffId && vacationSplitOverlapsShift(v, selectedDate, selectedShift)
+    );
+  };
+
+  // Unavailability and shift-type preferences for the selected shift and date
+  const getStaffAvailabilityWarnings = (staffId: string) => {
+    if (!selectedDate) return [];
+    return getAvailabilityWarnings(
+      staffAvailability?.availability.filter(entry => entry.staff_id === staffId) || [],
+      staffAvailability?.preferences.find(preference => preference.staff_id === staffId),
+      selectedDate,
+      selectedShift
+    );
   };
 
   // Check if staff is already assigned
@@ -185,6 +219,29 @@ export const StaffAssignments: React.FC<StaffAssignmentsProps> = ({ departmentId
     return existingAssignments?.some((a: any) => a.staff_id === staffId);
   };
 
+  // Check labor rules for every selected staff member before assigning
+  const handleAssign = async () => {
+    setIsCheckingRules(true);
+    try {
+      const results = await Promise.all(selectedStaff.map(async staffId => {
+        const violations = await checkLaborRules(staffId, [{ shift_id: selectedShiftId, assignment_date: selectedDate }]);
+        const name = staff?.find(member => member.user_id === staffId)?.profiles?.full_name || 'Unknown';
+        return violations.map(violation => ({ ...violation, staff_name: name }));
+      }));
+      const violations = results.flat();
+
+      if (violations.length > 0) {
+        setLaborViolations(violations);
+      } else {
+        createAssignment.mutate();
+      }
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to check labor rules');
+    } finally {
+      setIsCheckingRules(false);
+    }
+  };
+
   const toggleStaffSelection = (staffId: string) => {
     setSelectedStaff(prev =>
       prev.includes(staffId)
@@ -251,7 +308,7 @@ export const StaffAssignments: React.FC<StaffAssignmentsProps> = ({ departmentId
                           className="w-3 h-3 rounded" 
                           style={{ backgroundColor: shift.color }} 
                         />
-                        {shift.name} ({shift.start_time?.slice(0, 5)} - {shift.end_time?.slice(0, 5)})
+                        {shift.name} ({formatShiftTimes(shift)})
                       </div>
                     </SelectItem>
                   ))}
@@ -296,7 +353,7 @@ export const StaffAssignments: React.FC<StaffAssignmentsProps> = ({ departmentId
               </CardTitle>
               <CardDescription className="mt-1">
                 {format(parseISO(selectedDate), 'EEEE, MMMM d, yyyy')} • 
-                {selectedShift.start_time?.slice(0, 5)} - {selectedShift.end_time?.slice(0, 5)} • 
+                {formatShiftTimes(selectedShift)} • 
                 Required: {selectedShift.required_staff} staff
               </CardDescription>
             </div>
@@ -323,6 +380,7 @@ export const StaffAssignments: React.FC<StaffAssignmentsProps> = ({ departmentId
                       
                       const hasConflict = hasVacationConflict(profile.id);
                       const isAssigned = isAlreadyAssigned(profile.id);
+                      const availabilityWarnings = getStaffAvailabilityWarnings(profile.id);
 
                       return (
                         <div
@@ -349,6 +407,17 @@ export const StaffAssignments: React.FC<StaffAssignmentsProps> = ({ departmentId
                                 On Leave
                               </Badge>
                             )}
+                            {availabilityWarnings.map(warning => (
+                              <Badge
+                                key={warning.message}
+                                variant={warning.kind === 'preferred' ? 'secondary' : 'outline'}
+                                className={warning.kind === 'preferred' ? '' : 'flex items-center gap-1 border-warning text-warning'}
+                                title={warning.message}
+                              >
+                                {warning.kind === 'unavailable' && <CalendarOff className="h-3 w-3" />}
+                                {warning.kind === 'unavailable' ? 'Unavailable' : warning.kind === 'avoided' ? 'Avoids' : 'Prefers'}
+                              </Badge>
+                            ))}
                             {isAssigned && (
                               <Badge variant="secondary">Already Assigned</Badge>
                             )}
@@ -363,8 +432,8 @@ export const StaffAssignments: React.FC<StaffAssignmentsProps> = ({ departmentId
                       Cancel
                     </Button>
                     <Button
-                      onClick={() => createAssignment.mutate()}
-                      disabled={selectedStaff.length === 0 || createAssignment.isPending}
+                      onClick={handleAssign}
+                      disabled={selectedStaff.length === 0 || createAssignment.isPending || isCheckingRules}
                     >
                       {createAssignment.isPending ? 'Assigning...' : `Assign ${selectedStaff.length} Staff`}
                     </Button>
@@ -410,6 +479,15 @@ export const StaffAssignments: React.FC<StaffAssignmentsProps> = ({ departmentId
         </Card>
       )}
 
+      <LaborRuleViolationsDialog
+        violations={laborViolations}
+        onCancel={() => setLaborViolations(null)}
+        onConfirm={() => {
+          setLaborViolations(null);
+          createAssignment.mutate();
+        }}
+      />
+
       {!selectedScheduleId && (
         <EmptyState
           icon={Calendar}
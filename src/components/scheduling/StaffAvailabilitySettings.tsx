@@ -0,0 +1,290 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CalendarOff, Save, Sliders, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingState } from '@/components/layout/LoadingState';
+import { SHIFT_TYPE_LABELS, describeAvailability, type ShiftType } from '@/lib/staffAvailability';
+import { WEEKDAY_LABELS } from '@/lib/workingDays';
+
+type Repeat = 'weekly' | 'dates';
+type Preference = 'preferred' | 'neutral' | 'avoided';
+
+const SHIFT_TYPES = Object.keys(SHIFT_TYPE_LABELS) as ShiftType[];
+
+export const StaffAvailabilitySettings: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const [repeat, setRepeat] = useState<Repeat>('weekly');
+  const [dayOfWeek, setDayOfWeek] = useState('1');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [allDay, setAllDay] = useState(true);
+  const [startTime, setStartTime] = useState('08:00');
+  const [endTime, setEndTime] = useState('12:00');
+  const [reason, setReason] = useState('');
+  const [preferences, setPreferences] = useState<Record<ShiftType, Preference>>({ day: 'neutral', evening: 'neutral', night: 'neutral' });
+  const [preferenceNotes, setPreferenceNotes] = useState('');
+
+  const { data: availability, isLoading } = useQuery({
+    queryKey: ['my-availability', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('staff_availability')
+        .select('*')
+        .eq('staff_id', user!.id)
+        .order('day_of_week', { ascending: true, nullsFirst: false })
+        .order('start_date', { ascending: true });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id,
+  });
+
+  const { data: savedPreferences } = useQuery({
+    queryKey: ['my-shift-preferences', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('staff_shift_preferences')
+        .select('*')
+        .eq('staff_id', user!.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id,
+  });
+
+  useEffect(() => {
+    if (!savedPreferences) return;
+    setPreferences(Object.fromEntries(SHIFT_TYPES.map(type => [
+      type,
+      savedPreferences.preferred_shift_types.includes(type)
+        ? 'preferred'
+        : savedPreferences.avoided_shift_types.includes(type) ? 'avoided' : 'neutral',
+    ])) as Record<ShiftType, Preference>);
+    setPreferenceNotes(savedPreferences.notes || '');
+  }, [savedPreferences]);
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      if (repeat === 'dates' && (!startDate || !endDate || endDate < startDate)) {
+        throw new Error('Choose a valid date range');
+      }
+      // An end before the start runs overnight into the next day
+      if (!allDay && endTime === startTime) {
+        throw new Error('Start and end time must differ');
+      }
+
+      const { error } = await supabase.from('staff_availability').insert({
+        staff_id: user!.id,
+        day_of_week: repeat === 'weekly' ? Number(dayOfWeek) : null,
+        start_date: repeat === 'dates' ? startDate : null,
+        end_date: repeat === 'dates' ? endDate : null,
+        start_time: allDay ? null : startTime,
+        end_time: allDay ? null : endTime,
+        reason: reason.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-availability'] });
+      queryClient.invalidateQueries({ queryKey: ['staff-availability'] });
+      setReason('');
+      setStartDate('');
+      setEndDate('');
+      toast.success('Availability saved');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save availability'),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('staff_availability').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-availability'] });
+      queryClient.invalidateQueries({ queryKey: ['staff-availability'] });
+      toast.success('Availability removed');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to remove availability'),
+  });
+
+  const savePreferencesMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('staff_shift_preferences').upsert({
+        staff_id: user!.id,
+        preferred_shift_types: SHIFT_TYPES.filter(type => preferences[type] === 'preferred'),
+        avoided_shift_types: SHIFT_TYPES.filter(type => preferences[type] === 'avoided'),
+        notes: preferenceNotes.trim() || null,
+      }, { onConflict: 'staff_id' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-shift-preferences'] });
+      queryClient.invalidateQueries({ queryKey: ['staff-availability'] });
+      toast.success('Shift preferences saved');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save preferences'),
+  });
+
+  if (isLoading) return <LoadingState message="Loading availability..." />;
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarOff className="h-5 w-5" />
+            My Availability
+          </CardTitle>
+          <CardDescription>Days and times you cannot work, shown to your department head when assigning shifts</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Repeats</Label>
+              <Select value={repeat} onValueChange={(v) => setRepeat(v as Repeat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weekly">Every week</SelectItem>
+                  <SelectItem value="dates">Specific dates</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {repeat === 'weekly' ? (
+              <div className="space-y-2">
+                <Label>Day</Label>
+                <Select value={dayOfWeek} onValueChange={setDayOfWeek}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAY_LABELS.map((label, index) => (
+                      <SelectItem key={label} value={String(index)}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label>From</Label>
+                  <Input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>To</Label>
+                  <Input type="date" value={endDate} min={startDate} onChange={e => setEndDate(e.target.value)} />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="availability-all-day" checked={allDay} onCheckedChange={setAllDay} />
+            <Label htmlFor="availability-all-day">All day</Label>
+          </div>
+          {!allDay && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Input type="time" value={startTime} onChange={e => setStartTime(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Until</Label>
+                <Input type="time" value={endTime} onChange={e => setEndTime(e.target.value)} />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Reason (optional)</Label>
+            <Input value={reason} onChange={e => setReason(e.target.value)} placeholder="e.g. Childcare, studies" />
+          </div>
+
+          <Button onClick={() => addMutation.mutate()} disabled={addMutation.isPending}>
+            Add
+          </Button>
+
+          <div className="space-y-2 pt-4 border-t">
+            {availability && availability.length > 0 ? (
+              availability.map(entry => (
+                <div key={entry.id} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                  <div>
+                    <p className="font-medium">{describeAvailability(entry)}</p>
+                    {entry.reason && <p className="text-muted-foreground">{entry.reason}</p>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeMutation.mutate(entry.id)}
+                    disabled={removeMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">You are available on all days</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Sliders className="h-5 w-5" />
+            Shift Preferences
+          </CardTitle>
+          <CardDescription>Which kinds of shifts you prefer or would rather avoid</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {SHIFT_TYPES.map(type => (
+            <div key={type} className="flex items-center justify-between gap-4">
+              <Label>{SHIFT_TYPE_LABELS[type]} shifts</Label>
+              <Select
+                value={preferences[type]}
+                onValueChange={(v) => setPreferences(prev => ({ ...prev, [type]: v as Preference }))}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="preferred">Preferred</SelectItem>
+                  <SelectItem value="neutral">No preference</SelectItem>
+                  <SelectItem value="avoided">Avoid</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Night shifts run overnight or start from 20:00; evening shifts start from 14:00.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Notes (optional)</Label>
+            <Textarea value={preferenceNotes} onChange={e => setPreferenceNotes(e.target.value)} rows={2} />
+          </div>
+
+          <Button onClick={() => savePreferencesMutation.mutate()} disabled={savePreferencesMutation.isPending}>
+            <Save className="h-4 w-4 mr-2" />
+            Save Preferences
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -5,12 +5,16 @@ import { useAuth } from '@/lib/auth';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Calendar, Clock, ChevronLeft, ChevronRight } from 'lucide-react';
-import { format, parseISO, startOfWeek, endOfWeek, addWeeks, subWeeks, eachDayOfInterval, isSameDay } from 'date-fns';
+import { Calendar, Clock, ChevronLeft, ChevronRight, ArrowLeftRight, Hand } from 'lucide-react';
+import { format, parseISO, startOfWeek, endOfWeek, addWeeks, subWeeks, eachDayOfInterval, isSameDay, subDays } from 'date-fns';
 import { LoadingState } from '@/components/layout/LoadingState';
 import { EmptyState } from '@/components/layout/EmptyState';
 import { PageHeader } from '@/components/layout/PageHeader';
 import { cn } from '@/lib/utils';
+import { formatShiftTimes, getShiftHours, isOvernightShift } from '@/lib/shiftTimes';
+import type { ShiftSwapType } from '@/lib/shiftSwaps';
+import { ShiftSwapBoard } from './ShiftSwapBoard';
+import { ShiftSwapRequestDialog } from './ShiftSwapRequestDialog';
 
 interface StaffScheduleViewProps {
   departmentId: string;
@@ -19,6 +23,8 @@ interface StaffScheduleViewProps {
 export const StaffScheduleView: React.FC<StaffScheduleViewProps> = ({ departmentId }) => {
   const { user } = useAuth();
   const [currentWeek, setCurrentWeek] = useState(new Date());
+  const [tradeAssignment, setTradeAssignment] = useState<React.ComponentProps<typeof ShiftSwapRequestDialog>['assignment']>(null);
+  const [tradeType, setTradeType] = useState<ShiftSwapType>('giveaway');
 
   const weekStart = startOfWeek(currentWeek);
   const weekEnd = endOfWeek(currentWeek);
@@ -43,7 +49,8 @@ export const StaffScheduleView: React.FC<StaffScheduleViewProps> = ({ department
           )
         `)
         .eq('staff_id', user.id)
-        .gte('assignment_date', format(weekStart, 'yyyy-MM-dd'))
+        // From the day before so overnight shifts reaching into the week are shown
+        .gte('assignment_date', format(subDays(weekStart, 1), 'yyyy-MM-dd'))
         .lte('assignment_date', format(weekEnd, 'yyyy-MM-dd'))
         .order('assignment_date', { ascending: true });
 
@@ -94,6 +101,16 @@ export const StaffScheduleView: React.FC<StaffScheduleViewProps> = ({ department
     ) || [];
   };
 
+  // Overnight shifts of the previous day that end on this day
+  const getContinuedAssignmentsForDay = (day: Date) => {
+    return assignments?.filter(a =>
+      a.shifts && isOvernightShift(a.shifts) && isSameDay(parseISO(a.assignment_date), subDays(day, 1))
+    ) || [];
+  };
+
+  const weekAssignments = assignments?.filter(a => a.assignment_date >= format(weekStart, 'yyyy-MM-dd')) || [];
+  const weekHours = weekAssignments.reduce((total, a) => total + (a.shifts ? getShiftHours(a.shifts) : 0), 0);
+
   if (isLoading) return <LoadingState message="Loading your schedule..." />;
 
   return (
@@ -115,7 +132,7 @@ export const StaffScheduleView: React.FC<StaffScheduleViewProps> = ({ department
                 {format(weekStart, 'MMM d')} - {format(weekEnd, 'MMM d, yyyy')}
               </h3>
               <p className="text-sm text-muted-foreground">
-                {assignments?.length || 0} shift{(assignments?.length || 0) !== 1 ? 's' : ''} this week
+                {weekAssignments.length} shift{weekAssignments.length !== 1 ? 's' : ''} • {Math.round(weekHours * 10) / 10}h this week
               </p>
             </div>
             <Button variant="outline" size="icon" onClick={() => setCurrentWeek(addWeeks(currentWeek, 1))}>
@@ -129,6 +146,7 @@ export const StaffScheduleView: React.FC<StaffScheduleViewProps> = ({ department
       <div className="grid gap-2 grid-cols-7">
         {weekDays.map((day) => {
           const dayAssignments = getAssignmentsForDay(day);
+          const continuedAssignments = getContinuedAssignmentsForDay(day);
           const isToday = isSameDay(day, new Date());
 
           return (
@@ -151,8 +169,23 @@ export const StaffScheduleView: React.FC<StaffScheduleViewProps> = ({ department
                 </div>
               </CardHeader>
               <CardContent className="p-1 sm:p-2">
-                {dayAssignments.length > 0 ? (
+                {dayAssignments.length > 0 || continuedAssignments.length > 0 ? (
                   <div className="space-y-1">
+                    {continuedAssignments.map(assignment => (
+                      <div
+                        key={`${assignment.id}-continued`}
+                        className="p-1 sm:p-2 rounded text-xs opacity-60"
+                        style={{
+                          backgroundColor: `${assignment.shifts?.color}20`,
+                          borderLeft: `3px dashed ${assignment.shifts?.color}`,
+                        }}
+                      >
+                        <p className="font-medium truncate">↳ {assignment.shifts?.name}</p>
+                        <p className="text-muted-foreground hidden sm:block">
+                          until {assignment.shifts?.end_time?.slice(0, 5)}
+                        </p>
+                      </div>
+                    ))}
                     {dayAssignments.map((assignment: any) => (
                       <div
                         key={assignment.id}
@@ -164,7 +197,7 @@ export const StaffScheduleView: React.FC<StaffScheduleViewProps> = ({ department
                       >
                         <p className="font-medium truncate">{assignment.shifts?.name}</p>
                         <p className="text-muted-foreground hidden sm:block">
-                          {assignment.shifts?.start_time?.slice(0, 5)} - {assignment.shifts?.end_time?.slice(0, 5)}
+                          {formatShiftTimes(assignment.shifts)}
                         </p>
                       </div>
                     ))}
@@ -211,11 +244,29 @@ export const StaffScheduleView: React.FC<StaffScheduleViewProps> = ({ department
                   </div>
                   <div className="text-right">
                     <p className="font-medium">
-                      {assignment.shifts?.start_time?.slice(0, 5)} - {assignment.shifts?.end_time?.slice(0, 5)}
+                      {formatShiftTimes(assignment.shifts)}
                     </p>
                     <Badge variant="outline" className="mt-1 capitalize">
                       {assignment.status}
                     </Badge>
+                    <div className="flex justify-end gap-1 mt-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => { setTradeType('giveaway'); setTradeAssignment(assignment); }}
+                      >
+                        <Hand className="h-4 w-4 mr-1" />
+                        Offer
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => { setTradeType('swap'); setTradeAssignment(assignment); }}
+                      >
+                        <ArrowLeftRight className="h-4 w-4 mr-1" />
+                        Swap
+                      </Button>
+                    </div>
                   </div>
                 </div>
               ))}
@@ -234,6 +285,15 @@ export const StaffScheduleView: React.FC<StaffScheduleViewProps> = ({ department
           )}
         </CardContent>
       </Card>
+
+      <ShiftSwapBoard departmentId={departmentId} />
+
+      <ShiftSwapRequestDialog
+        departmentId={departmentId}
+        assignment={tradeAssignment}
+        requestType={tradeType}
+        onOpenChange={(open) => !open && setTradeAssignment(null)}
+      />
     </div>
   );
 };
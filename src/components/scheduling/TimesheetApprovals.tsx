@@ -0,0 +1,391 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Check, ChevronLeft, ChevronRight, FileSpreadsheet, FileText, Timer, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/lib/auth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { LoadingState } from '@/components/layout/LoadingState';
+import { EmptyState } from '@/components/layout/EmptyState';
+import { formatShiftTimes, getShiftInterval } from '@/lib/shiftTimes';
+import {
+  PAY_PERIOD_TYPE_LABELS,
+  TIMESHEET_FLAG_LABELS,
+  TIME_ENTRY_STATUS_LABELS,
+  buildTimesheetExportRows,
+  describeTimesheetShift,
+  downloadTimesheetExport,
+  fetchDepartmentTimesheet,
+  formatPayPeriod,
+  getPayPeriod,
+  getTimesheetFlags,
+  getWorkedHours,
+  recordTimeEntry,
+  reviewTimeEntry,
+  shiftPayPeriod,
+  type PayPeriodType,
+  type TimeEntryStatus,
+  type TimesheetRow,
+} from '@/lib/timesheets';
+
+interface TimesheetApprovalsProps {
+  departmentId: string;
+}
+
+type TimesheetFilter = 'all' | 'review' | 'flagged';
+
+const toInputValue = (iso: string) => format(parseISO(iso), "yyyy-MM-dd'T'HH:mm");
+const toIso = (value: string) => new Date(value).toISOString();
+
+const TimeEntryReviewDialog: React.FC<{ row: TimesheetRow | null; onOpenChange: (open: boolean) => void }> = ({
+  row,
+  onOpenChange,
+}) => {
+  const queryClient = useQueryClient();
+  const [clockInValue, setClockInValue] = useState('');
+  const [clockOutValue, setClockOutValue] = useState('');
+  const [comment, setComment] = useState('');
+
+  const entry = row?.time_entries || null;
+
+  // Without an entry the reviewer records hours, starting from the scheduled times
+  const initial = useMemo(() => {
+    if (!row) return { clockIn: '', clockOut: '' };
+    const { start, end } = getShiftInterval(row.assignment_date, row.shifts);
+    return {
+      clockIn: toInputValue(row.time_entries?.clock_in_at || start.toISOString()),
+      clockOut: toInputValue(row.time_entries?.clock_out_at || end.toISOString()),
+    };
+  }, [row]);
+
+  useEffect(() => {
+    setClockInValue(initial.clockIn);
+    setClockOutValue(initial.clockOut);
+    setComment('');
+  }, [initial]);
+
+  const onReviewed = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['timesheets'] });
+    queryClient.invalidateQueries({ queryKey: ['my-clock-shifts'] });
+    toast.success(message);
+    onOpenChange(false);
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: (approve: boolean) =>
+      reviewTimeEntry(row!, approve, {
+        // Only changed times count as corrections
+        clockInAt: clockInValue !== initial.clockIn ? toIso(clockInValue) : undefined,
+        clockOutAt: clockOutValue !== initial.clockOut || !entry?.clock_out_at ? toIso(clockOutValue) : undefined,
+        comment,
+      }),
+    onSuccess: (_, approve) => onReviewed(approve ? 'Hours approved' : 'Hours rejected'),
+    onError: (error: Error) => toast.error(error.message || 'Failed to review hours'),
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: () => recordTimeEntry(row!.assignment_id!, toIso(clockInValue), toIso(clockOutValue), comment),
+    onSuccess: () => onReviewed('Hours recorded'),
+    onError: (error: Error) => toast.error(error.message || 'Failed to record hours'),
+  });
+
+  const isPending = reviewMutation.isPending || recordMutation.isPending;
+  const invalid = !clockInValue || !clockOutValue || clockOutValue <= clockInValue;
+
+  return (
+    <Dialog open={!!row} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{entry ? 'Review Hours' : 'Record Hours'}</DialogTitle>
+          <DialogDescription>
+            {row && `${row.profiles?.full_name || 'Unknown'}: ${describeTimesheetShift(row.assignment_date, row.shifts)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="timesheet-clock-in">Clock in</Label>
+              <Input
+                id="timesheet-clock-in"
+                type="datetime-local"
+                value={clockInValue}
+                onChange={e => setClockInValue(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="timesheet-clock-out">Clock out</Label>
+              <Input
+                id="timesheet-clock-out"
+                type="datetime-local"
+                value={clockOutValue}
+                onChange={e => setClockOutValue(e.target.value)}
+              />
+            </div>
+          </div>
+          {entry && !entry.clock_out_at && (
+            <p className="text-sm text-warning">
+              Still clocked in. The clock-out is set to the end of the shift; adjust it before approving.
+            </p>
+          )}
+          <Textarea
+            placeholder="Comment (optional)"
+            rows={2}
+            value={comment}
+            onChange={e => setComment(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter className="gap-2">
+          {entry ? (
+            <>
+              <Button variant="outline" onClick={() => reviewMutation.mutate(false)} disabled={isPending}>
+                <X className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+              <Button onClick={() => reviewMutation.mutate(true)} disabled={isPending || invalid}>
+                <Check className="h-4 w-4 mr-2" />
+                Approve
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => recordMutation.mutate()} disabled={isPending || invalid}>
+              <Check className="h-4 w-4 mr-2" />
+              Record as Approved
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * Clocked hours of a department per pay period with late, early and missed shifts flagged,
+ * approval with time corrections, and export of the approved hours
+ */
+export const TimesheetApprovals: React.FC<TimesheetApprovalsProps> = ({ departmentId }) => {
+  const [periodType, setPeriodType] = useState<PayPeriodType>('monthly');
+  const [period, setPeriod] = useState(() => getPayPeriod('monthly', new Date()));
+  const [filter, setFilter] = useState<TimesheetFilter>('all');
+  const [reviewRow, setReviewRow] = useState<TimesheetRow | null>(null);
+  const { user } = useAuth();
+  const { data: roles } = useUserRole();
+
+  // Own hours go to the next approver; only super admins review their own
+  const isSuperAdmin = roles?.some(r => r.role === 'super_admin');
+  const canReview = (row: TimesheetRow) => isSuperAdmin || row.staff_id !== user?.id;
+
+  const { data: rows, isLoading } = useQuery({
+    queryKey: ['timesheets', departmentId, period.start, period.end],
+    queryFn: () => fetchDepartmentTimesheet(departmentId, period),
+  });
+
+  const flagged = useMemo(() => {
+    const now = new Date();
+    return new Map((rows || []).map(row => [
+      row.id,
+      getTimesheetFlags(row.assignment_date, row.shifts, row.time_entries, now),
+    ]));
+  }, [rows]);
+
+  const visibleRows = (rows || []).filter(row => {
+    if (filter === 'review') return ['open', 'pending'].includes(row.time_entries?.status || '');
+    if (filter === 'flagged') return (flagged.get(row.id) || []).length > 0;
+    return true;
+  });
+
+  const awaiting = (rows || []).filter(row => row.time_entries?.status === 'pending').length;
+  const approvedHours = (rows || [])
+    .filter(row => row.time_entries?.status === 'approved')
+    .reduce((sum, row) => sum + (getWorkedHours(row.time_entries) || 0), 0);
+  const flaggedCount = Array.from(flagged.values()).filter(flags => flags.length > 0).length;
+
+  const handlePeriodType = (type: PayPeriodType) => {
+    setPeriodType(type);
+    setPeriod(getPayPeriod(type, parseISO(period.start)));
+  };
+
+  const handleExport = (bookType: 'xlsx' | 'csv') => {
+    if (!rows?.length) return;
+    downloadTimesheetExport(buildTimesheetExportRows(rows), `timesheet-${period.start}-to-${period.end}`, bookType);
+  };
+
+  const hasApproved = (rows || []).some(row => row.time_entries?.status === 'approved');
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="h-5 w-5" />
+              Timesheets
+            </CardTitle>
+            <CardDescription>Clocked hours for {formatPayPeriod(period)}</CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={periodType} onValueChange={value => handlePeriodType(value as PayPeriodType)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PAY_PERIOD_TYPE_LABELS) as PayPeriodType[]).map(type => (
+                  <SelectItem key={type} value={type}>{PAY_PERIOD_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={() => setPeriod(shiftPayPeriod(periodType, period, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPeriod(getPayPeriod(periodType, new Date()))}>
+              Current
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setPeriod(shiftPayPeriod(periodType, period, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant="secondary">{awaiting} awaiting approval</Badge>
+            <Badge variant="outline" className="text-warning border-warning/40">{flaggedCount} flagged</Badge>
+            <Badge variant="outline">{Math.round(approvedHours * 100) / 100}h approved</Badge>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={filter} onValueChange={value => setFilter(value as TimesheetFilter)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All shifts</SelectItem>
+                <SelectItem value="review">Needs review</SelectItem>
+                <SelectItem value="flagged">Flagged</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => handleExport('xlsx')} disabled={!hasApproved}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Export XLSX
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={!hasApproved}>
+              <FileText className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <LoadingState message="Loading timesheets..." />
+        ) : visibleRows.length === 0 ? (
+          <EmptyState
+            icon={Timer}
+            title="No shifts"
+            description={filter === 'all'
+              ? 'There are no published shifts in this pay period.'
+              : 'No shifts match this filter.'}
+          />
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Staff</TableHead>
+                  <TableHead>Shift</TableHead>
+                  <TableHead>Clocked</TableHead>
+                  <TableHead className="text-right">Hours</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.map(row => {
+                  const entry = row.time_entries;
+                  const flags = flagged.get(row.id) || [];
+                  const worked = getWorkedHours(entry);
+                  const corrected = !!(entry?.original_clock_in_at || entry?.original_clock_out_at);
+                  return (
+                    <TableRow key={row.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(parseISO(row.assignment_date), 'EEE, MMM d')}
+                      </TableCell>
+                      <TableCell>{row.profiles?.full_name || 'Unknown'}</TableCell>
+                      <TableCell>
+                        <div>{row.shifts.name}</div>
+                        <div className="text-xs text-muted-foreground">{formatShiftTimes(row.shifts)}</div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {entry ? (
+                          <>
+                            {format(parseISO(entry.clock_in_at), 'HH:mm')} -{' '}
+                            {entry.clock_out_at ? format(parseISO(entry.clock_out_at), 'HH:mm') : '…'}
+                            {corrected && <div className="text-xs text-muted-foreground">Corrected</div>}
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{worked ?? '-'}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {entry && (
+                            <Badge
+                              variant={entry.status === 'approved'
+                                ? 'default'
+                                : entry.status === 'rejected' ? 'destructive' : 'secondary'}
+                            >
+                              {TIME_ENTRY_STATUS_LABELS[entry.status as TimeEntryStatus]}
+                            </Badge>
+                          )}
+                          {flags.map(flag => (
+                            <Badge
+                              key={flag}
+                              variant="outline"
+                              className={flag === 'missed' ? 'text-destructive border-destructive/40' : 'text-warning border-warning/40'}
+                            >
+                              {TIMESHEET_FLAG_LABELS[flag]}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!canReview(row) && (entry ? ['open', 'pending'].includes(entry.status) : flags.includes('missed')) && (
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">
+                            Reviewed by your facility supervisor
+                          </span>
+                        )}
+                        {canReview(row) && entry && ['open', 'pending'].includes(entry.status) && (
+                          <Button size="sm" variant="outline" onClick={() => setReviewRow(row)}>
+                            Review
+                          </Button>
+                        )}
+                        {canReview(row) && !entry && flags.includes('missed') && (
+                          <Button size="sm" variant="ghost" onClick={() => setReviewRow(row)}>
+                            Record Hours
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <TimeEntryReviewDialog row={reviewRow} onOpenChange={(open) => !open && setReviewRow(null)} />
+    </Card>
+  );
+};
@@ -5,3 +5,20 @@ export { ShiftCalendarView } from './ShiftCalendarView';
 export { StaffAssignments } from './StaffAssignments';
 export { SchedulingDashboard } from './SchedulingDashboard';
 export { StaffScheduleView } from './StaffScheduleView';
+export { RosterGenerator } from './RosterGenerator';
+export { ShiftSwapBoard } from './ShiftSwapBoard';
+export { ShiftSwapApprovals } from './ShiftSwapApprovals';
+export { ShiftSwapRequestDialog } from './ShiftSwapRequestDialog';
+export { StaffAvailabilitySettings } from './StaffAvailabilitySettings';
+export { LaborRulesManagement } from './LaborRulesManagement';
+export { LaborRuleViolationsDialog } from './LaborRuleViolationsDialog';
+export { ShiftTemplatePicker } from './ShiftTemplatePicker';
+export { SchedulingTemplatesManager } from './SchedulingTemplatesManager';
+export { RotationPlanner } from './RotationPlanner';
+export { DuplicateScheduleDialog } from './DuplicateScheduleDialog';
+export { ShiftCoverageView } from './ShiftCoverageView';
+export { CoverageGapDialog } from './CoverageGapDialog';
+export { ScheduleHistoryDialog } from './ScheduleHistoryDialog';
+export { ScheduleRevisionActions } from './ScheduleRevisionActions';
+export { ShiftClockCard } from './ShiftClockCard';
+export { TimesheetApprovals } from './TimesheetApprovals';
@@ -0,0 +1,246 @@
+import { useState, useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { FilePenLine } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import VacationRuleViolationsDialog from './VacationRuleViolationsDialog';
+import { useModuleContext } from '@/contexts/ModuleContext';
+import { parseRuleViolations, type VacationRuleViolation } from '@/lib/vacationRules';
+import { sendVacationStatusNotification } from '@/lib/vacationNotifications';
+import { isActiveVacationSplit, requestVacationAmendment, type VacationSplitChange } from '@/lib/vacationAmendments';
+import { formatVacationSplitDuration } from '@/lib/vacationDayPortions';
+
+interface AmendableSplit {
+  id: string;
+  start_date: string;
+  end_date: string;
+  days: number;
+  status: string | null;
+}
+
+interface VacationAmendmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  plan: { id: string; staff_id: string; vacation_splits: AmendableSplit[] } | null;
+}
+
+type SplitAction = 'keep' | 'modify' | 'cancel';
+
+interface SplitChangeState {
+  action: SplitAction;
+  start_date: string;
+  end_date: string;
+}
+
+const VacationAmendmentDialog = ({ open, onOpenChange, plan }: VacationAmendmentDialogProps) => {
+  const queryClient = useQueryClient();
+  const { canAdmin } = useModuleContext();
+  const [changes, setChanges] = useState<Record<string, SplitChangeState>>({});
+  const [notes, setNotes] = useState('');
+  const [ruleViolations, setRuleViolations] = useState<VacationRuleViolation[]>([]);
+
+  const activeSplits = (plan?.vacation_splits || [])
+    .filter(split => isActiveVacationSplit(split))
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+
+  useEffect(() => {
+    if (!open) return;
+    const initial: Record<string, SplitChangeState> = {};
+    plan?.vacation_splits.forEach(split => {
+      initial[split.id] = { action: 'keep', start_date: split.start_date, end_date: split.end_date };
+    });
+    setChanges(initial);
+    setNotes('');
+    setRuleViolations([]);
+  }, [open, plan]);
+
+  const cancelAll = activeSplits.length > 0 && activeSplits.every(split => changes[split.id]?.action === 'cancel');
+
+  const updateChange = (splitId: string, update: Partial<SplitChangeState>) => {
+    setChanges(prev => ({ ...prev, [splitId]: { ...prev[splitId], ...update } }));
+  };
+
+  const toggleCancelAll = (checked: boolean) => {
+    setChanges(prev => {
+      const next = { ...prev };
+      activeSplits.forEach(split => {
+        next[split.id] = { ...next[split.id], action: checked ? 'cancel' : 'keep' };
+      });
+      return next;
+    });
+  };
+
+  const requestedChanges: VacationSplitChange[] = activeSplits
+    .filter(split => changes[split.id] && changes[split.id].action !== 'keep')
+    .map(split => {
+      const change = changes[split.id];
+      return change.action === 'cancel'
+        ? { split_id: split.id, change_type: 'cancel' }
+        : { split_id: split.id, change_type: 'modify', start_date: change.start_date, end_date: change.end_date };
+    });
+
+  const amendmentMutation = useMutation({
+    mutationFn: async (overrideReason?: string) => {
+      if (!plan) return;
+
+      const invalid = requestedChanges.find(change =>
+        change.change_type === 'modify' && (!change.start_date || !change.end_date || change.end_date < change.start_date)
+      );
+      if (invalid) throw new Error('End date must be on or after the start date');
+
+      const result = await requestVacationAmendment({
+        planId: plan.id,
+        changes: requestedChanges,
+        notes,
+        overrideReason,
+      });
+      await sendVacationStatusNotification(result.amendment_id, result.status, plan.staff_id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vacation-plans-list'] });
+      queryClient.invalidateQueries({ queryKey: ['vacations'] });
+      toast.success(cancelAll ? 'Cancellation submitted for approval' : 'Change request submitted for approval');
+      setRuleViolations([]);
+      onOpenChange(false);
+    },
+    onError: (error: Error & { details?: string }) => {
+      const violations = parseRuleViolations(error);
+      if (violations) {
+        setRuleViolations(violations);
+      } else {
+        toast.error(error.message || 'Failed to submit change request');
+      }
+    },
+  });
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl max-h-[90vh]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FilePenLine className="h-5 w-5" />
+              Request Change
+            </DialogTitle>
+            <DialogDescription>
+              Move or cancel approved vacation periods. The change goes through the approval chain
+              again and only affects the periods you change; the rest of the plan stays approved.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center justify-between p-3 border rounded-lg">
+            <Label htmlFor="cancel-all" className="font-medium">Cancel the entire vacation</Label>
+            <Switch id="cancel-all" checked={cancelAll} onCheckedChange={toggleCancelAll} />
+          </div>
+
+          <ScrollArea className="max-h-[40vh] pr-4">
+            <div className="space-y-3">
+              {activeSplits.map((split, index) => {
+                const change = changes[split.id];
+                if (!change) return null;
+
+                return (
+                  <div key={split.id} className="p-3 border rounded-lg space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div>
+                        <p className="text-sm font-medium">Period {index + 1}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {format(parseISO(split.start_date), 'PPP')} → {format(parseISO(split.end_date), 'PPP')} ({formatVacationSplitDuration(split)})
+                        </p>
+                      </div>
+                      <Select
+                        value={change.action}
+                        onValueChange={(value) => updateChange(split.id, { action: value as SplitAction })}
+                      >
+                        <SelectTrigger className="w-[160px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="keep">Keep</SelectItem>
+                          <SelectItem value="modify">Change dates</SelectItem>
+                          <SelectItem value="cancel">Cancel</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {change.action === 'modify' && (
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <div>
+                          <Label htmlFor={`amend-start-${split.id}`}>New Start Date</Label>
+                          <Input
+                            id={`amend-start-${split.id}`}
+                            type="date"
+                            value={change.start_date}
+                            onChange={(e) => updateChange(split.id, { start_date: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`amend-end-${split.id}`}>New End Date</Label>
+                          <Input
+                            id={`amend-end-${split.id}`}
+                            type="date"
+                            value={change.end_date}
+                            min={change.start_date}
+                            onChange={(e) => updateChange(split.id, { end_date: e.target.value })}
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+
+          <div className="space-y-2">
+            <Label htmlFor="amendment-notes">Reason</Label>
+            <Textarea
+              id="amendment-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Why does this vacation need to change?"
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => amendmentMutation.mutate(undefined)}
+              disabled={requestedChanges.length === 0 || amendmentMutation.isPending}
+            >
+              {amendmentMutation.isPending ? 'Submitting...' : 'Submit Change Request'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <VacationRuleViolationsDialog
+        open={ruleViolations.length > 0}
+        onOpenChange={(isOpen) => !isOpen && setRuleViolations([])}
+        violations={ruleViolations}
+        canOverride={canAdmin('vacation_planning')}
+        isPending={amendmentMutation.isPending}
+        onOverride={(reason) => amendmentMutation.mutate(reason)}
+      />
+    </>
+  );
+};
+
+export default VacationAmendmentDialog;
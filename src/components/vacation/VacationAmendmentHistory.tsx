@@ -0,0 +1,105 @@
+import { format, parseISO } from 'date-fns';
+import { History } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import VacationApprovalTimeline from './VacationApprovalTimeline';
+import { CHANGE_TYPE_LABELS, type VacationChangeType } from '@/lib/vacationAmendments';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type VacationAmendment = Tables<'vacation_plans'> & {
+  vacation_splits: Tables<'vacation_splits'>[];
+  vacation_approvals: (Tables<'vacation_approvals'> & {
+    profiles: { full_name: string | null } | null;
+    delegator: { full_name: string | null } | null;
+  })[];
+  vacation_approval_escalations: Tables<'vacation_approval_escalations'>[];
+  approval_chain: number[];
+};
+
+interface VacationAmendmentHistoryProps {
+  amendments: VacationAmendment[];
+  departmentId: string;
+  facilityId?: string;
+  workspaceId?: string;
+  getStatusBadge: (status: string) => JSX.Element;
+}
+
+const VacationAmendmentHistory = ({
+  amendments,
+  departmentId,
+  facilityId,
+  workspaceId,
+  getStatusBadge,
+}: VacationAmendmentHistoryProps) => {
+  if (amendments.length === 0) return null;
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <p className="text-sm font-medium flex items-center gap-2">
+        <History className="h-4 w-4" />
+        Change History ({amendments.length})
+      </p>
+      {amendments.map((amendment) => (
+        <div key={amendment.id} className="p-3 border rounded-lg space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="text-sm font-medium">
+              Change requested {format(new Date(amendment.submitted_at || amendment.created_at), 'PPP')}
+            </span>
+            {getStatusBadge(amendment.status)}
+          </div>
+
+          {amendment.notes && (
+            <p className="text-sm text-muted-foreground">Reason: {amendment.notes}</p>
+          )}
+
+          <div className="space-y-2">
+            {amendment.vacation_splits.map((split) => (
+              <div
+                key={split.id}
+                className={cn(
+                  'flex flex-wrap items-center justify-between gap-2 p-2 rounded bg-accent',
+                  split.status === 'rejected' && 'opacity-60'
+                )}
+              >
+                <span className="text-sm">
+                  {split.original_start_date && split.original_end_date && (
+                    <span className={cn(split.change_type === 'modify' && 'line-through text-muted-foreground')}>
+                      {format(parseISO(split.original_start_date), 'PP')} → {format(parseISO(split.original_end_date), 'PP')}
+                    </span>
+                  )}
+                  {split.change_type === 'modify' && (
+                    <span className="font-medium ml-2">
+                      {format(parseISO(split.start_date), 'PP')} → {format(parseISO(split.end_date), 'PP')}
+                    </span>
+                  )}
+                </span>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">
+                    {CHANGE_TYPE_LABELS[split.change_type as VacationChangeType]}
+                  </Badge>
+                  {split.status === 'rejected' && (
+                    <Badge className="bg-destructive text-destructive-foreground">✗ Rejected</Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {amendment.status !== 'draft' && (
+            <VacationApprovalTimeline
+              currentStatus={amendment.status}
+              approvals={amendment.vacation_approvals || []}
+              departmentId={departmentId}
+              facilityId={facilityId}
+              workspaceId={workspaceId}
+              approvalChain={amendment.approval_chain}
+              escalations={amendment.vacation_approval_escalations}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VacationAmendmentHistory;
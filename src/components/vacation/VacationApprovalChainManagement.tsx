@@ -0,0 +1,341 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GitBranch, ArrowUp, ArrowDown, Save, Trash2, Pencil } from 'lucide-react';
+import { toast } from 'sonner';
+import { LoadingState } from '@/components/layout';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import VacationApprovalSlaManagement from './VacationApprovalSlaManagement';
+import {
+  APPROVAL_LEVELS,
+  DEFAULT_APPROVAL_CHAIN,
+  describeChain,
+  type ApprovalLevel,
+} from '@/lib/vacationApprovalChain';
+
+const DEFAULT_SCOPE = 'default';
+
+interface ChainLevelOption {
+  level: ApprovalLevel;
+  included: boolean;
+}
+
+// Included levels first in chain order, then the remaining ones
+const toLevelOptions = (levels: number[]): ChainLevelOption[] => [
+  ...levels.map(level => ({ level: level as ApprovalLevel, included: true })),
+  ...DEFAULT_APPROVAL_CHAIN
+    .filter(level => !levels.includes(level))
+    .map(level => ({ level, included: false })),
+];
+
+const VacationApprovalChainManagement = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [selectedWorkspaceId, setSelectedWorkspaceId] = useState('');
+  const [scope, setScope] = useState(DEFAULT_SCOPE);
+  const [levelOptions, setLevelOptions] = useState<ChainLevelOption[]>(toLevelOptions(DEFAULT_APPROVAL_CHAIN));
+  const [skipUnassigned, setSkipUnassigned] = useState(true);
+
+  useRealtimeSubscription({
+    table: 'vacation_approval_chains',
+    invalidateQueries: ['vacation-approval-chains'],
+  });
+
+  const { data: workspaces, isLoading } = useQuery({
+    queryKey: ['approval-chain-workspaces'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('workspaces')
+        .select('id, name')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: vacationTypes } = useQuery({
+    queryKey: ['vacation-types'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vacation_types')
+        .select('*')
+        .eq('is_active', true)
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: chains } = useQuery({
+    queryKey: ['vacation-approval-chains', selectedWorkspaceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vacation_approval_chains')
+        .select('*, vacation_types(name)')
+        .eq('workspace_id', selectedWorkspaceId);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!selectedWorkspaceId,
+  });
+
+  useEffect(() => {
+    if (!selectedWorkspaceId && workspaces?.length) {
+      setSelectedWorkspaceId(workspaces[0].id);
+    }
+  }, [workspaces, selectedWorkspaceId]);
+
+  const defaultChain = chains?.find(chain => !chain.vacation_type_id);
+  const typeChains = chains?.filter(chain => chain.vacation_type_id) || [];
+  const configuredChains = defaultChain ? [defaultChain, ...typeChains] : typeChains;
+  const scopeChain = scope === DEFAULT_SCOPE
+    ? defaultChain
+    : typeChains.find(chain => chain.vacation_type_id === scope);
+
+  // Load the chain being edited; types without their own chain start from the default
+  useEffect(() => {
+    const source = scopeChain || defaultChain;
+    setLevelOptions(toLevelOptions(source?.levels || DEFAULT_APPROVAL_CHAIN));
+    setSkipUnassigned(source?.skip_unassigned ?? true);
+  }, [scopeChain, defaultChain]);
+
+  const includedLevels = levelOptions.filter(option => option.included).map(option => option.level);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedWorkspaceId) throw new Error('No workspace selected');
+      if (includedLevels.length === 0) throw new Error('Include at least one approval level');
+
+      const { error } = scopeChain
+        ? await supabase
+            .from('vacation_approval_chains')
+            .update({ levels: includedLevels, skip_unassigned: skipUnassigned })
+            .eq('id', scopeChain.id)
+        : await supabase.from('vacation_approval_chains').insert({
+            workspace_id: selectedWorkspaceId,
+            vacation_type_id: scope === DEFAULT_SCOPE ? null : scope,
+            levels: includedLevels,
+            skip_unassigned: skipUnassigned,
+            created_by: user?.id,
+          });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vacation-approval-chains'] });
+      toast.success('Approval chain saved');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save approval chain'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('vacation_approval_chains').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vacation-approval-chains'] });
+      toast.success('Approval chain removed');
+    },
+    onError: () => toast.error('Failed to remove approval chain'),
+  });
+
+  const toggleLevel = (level: ApprovalLevel) => {
+    setLevelOptions(prev =>
+      prev.map(option => (option.level === level ? { ...option, included: !option.included } : option))
+    );
+  };
+
+  const moveLevel = (index: number, offset: -1 | 1) => {
+    setLevelOptions(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  if (isLoading) {
+    return <LoadingState message="Loading approval chains..." />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitBranch className="h-5 w-5" />
+            Approval Chains
+          </CardTitle>
+          <CardDescription>
+            Choose which approval levels vacation requests go through and in what order.
+            Vacation types can use their own chain instead of the workspace default.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label>Workspace</Label>
+              <Select
+                value={selectedWorkspaceId}
+                onValueChange={(value) => {
+                  setSelectedWorkspaceId(value);
+                  setScope(DEFAULT_SCOPE);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select workspace" />
+                </SelectTrigger>
+                <SelectContent>
+                  {workspaces?.map(workspace => (
+                    <SelectItem key={workspace.id} value={workspace.id}>
+                      {workspace.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Applies To</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_SCOPE}>Workspace default</SelectItem>
+                  {vacationTypes?.map(type => (
+                    <SelectItem key={type.id} value={type.id}>
+                      {type.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Approval Levels</Label>
+            <p className="text-xs text-muted-foreground">
+              Check the levels that must approve and use the arrows to set their order.
+            </p>
+            {levelOptions.map((option, index) => (
+              <div
+                key={option.level}
+                className="flex items-center justify-between gap-2 p-3 border rounded-lg"
+              >
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    id={`chain-level-${option.level}`}
+                    checked={option.included}
+                    onCheckedChange={() => toggleLevel(option.level)}
+                  />
+                  <label htmlFor={`chain-level-${option.level}`} className="text-sm font-medium cursor-pointer">
+                    L{option.level} · {APPROVAL_LEVELS[option.level].role}
+                  </label>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => moveLevel(index, -1)}
+                    disabled={index === 0}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => moveLevel(index, 1)}
+                    disabled={index === levelOptions.length - 1}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <p className="text-sm text-muted-foreground">
+              Chain: {describeChain(includedLevels)}
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+            <div>
+              <Label htmlFor="skip-unassigned">Skip unassigned levels</Label>
+              <p className="text-xs text-muted-foreground">
+                Move past levels that have no approver assigned for the requesting department. Plans can't be
+                submitted while no level has an approver.
+              </p>
+            </div>
+            <Switch id="skip-unassigned" checked={skipUnassigned} onCheckedChange={setSkipUnassigned} />
+          </div>
+
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !selectedWorkspaceId}>
+            <Save className="h-4 w-4 mr-2" />
+            {saveMutation.isPending ? 'Saving...' : 'Save Chain'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Configured Chains</CardTitle>
+          <CardDescription>
+            Without a configured chain, requests go through all three levels.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {configuredChains.map(chain => (
+            <div
+              key={chain.id}
+              className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 border rounded-lg"
+            >
+              <div>
+                <p className="font-medium">
+                  {chain.vacation_type_id ? chain.vacation_types?.name : 'Workspace default'}
+                </p>
+                <p className="text-sm text-muted-foreground">{describeChain(chain.levels)}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                {chain.skip_unassigned && <Badge variant="secondary">Skips unassigned</Badge>}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setScope(chain.vacation_type_id || DEFAULT_SCOPE)}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => deleteMutation.mutate(chain.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {configuredChains.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Default chain: {describeChain(DEFAULT_APPROVAL_CHAIN)}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedWorkspaceId && <VacationApprovalSlaManagement workspaceId={selectedWorkspaceId} />}
+    </div>
+  );
+};
+
+export default VacationApprovalChainManagement;
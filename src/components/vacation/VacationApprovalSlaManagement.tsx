@@ -0,0 +1,172 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Timer, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { APPROVAL_LEVELS, DEFAULT_APPROVAL_CHAIN, type ApprovalLevel } from '@/lib/vacationApprovalChain';
+
+interface VacationApprovalSlaManagementProps {
+  workspaceId: string;
+}
+
+interface SlaFormState {
+  is_active: boolean;
+  deadline_days: number;
+  reminder_days_before: number;
+  escalate_to: string;
+}
+
+const DEFAULT_SLA: SlaFormState = {
+  is_active: false,
+  deadline_days: 3,
+  reminder_days_before: 1,
+  escalate_to: 'next_level',
+};
+
+const VacationApprovalSlaManagement = ({ workspaceId }: VacationApprovalSlaManagementProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<Record<ApprovalLevel, SlaFormState>>({
+    1: DEFAULT_SLA,
+    2: DEFAULT_SLA,
+    3: DEFAULT_SLA,
+  });
+
+  const { data: slas } = useQuery({
+    queryKey: ['vacation-approval-slas', workspaceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vacation_approval_slas')
+        .select('*')
+        .eq('workspace_id', workspaceId);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!workspaceId,
+  });
+
+  useEffect(() => {
+    const next = { 1: DEFAULT_SLA, 2: DEFAULT_SLA, 3: DEFAULT_SLA };
+    slas?.forEach(sla => {
+      next[sla.approval_level as ApprovalLevel] = {
+        is_active: sla.is_active,
+        deadline_days: sla.deadline_days,
+        reminder_days_before: sla.reminder_days_before,
+        escalate_to: sla.escalate_to,
+      };
+    });
+    setFormData(next);
+  }, [slas]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const rows = DEFAULT_APPROVAL_CHAIN.map(level => ({
+        workspace_id: workspaceId,
+        approval_level: level,
+        ...formData[level],
+        created_by: user?.id,
+      }));
+
+      if (rows.some(row => row.deadline_days < 1 || row.reminder_days_before < 0)) {
+        throw new Error('Deadlines must be at least one working day');
+      }
+
+      const { error } = await supabase
+        .from('vacation_approval_slas')
+        .upsert(rows, { onConflict: 'workspace_id,approval_level' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vacation-approval-slas'] });
+      toast.success('Approval deadlines saved');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save approval deadlines'),
+  });
+
+  const updateLevel = (level: ApprovalLevel, changes: Partial<SlaFormState>) => {
+    setFormData(prev => ({ ...prev, [level]: { ...prev[level], ...changes } }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Approval Deadlines
+        </CardTitle>
+        <CardDescription>
+          Approvers are reminded before a level's deadline. Requests still pending afterwards
+          are escalated to the next level of their chain, or to the workspace general admins.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {DEFAULT_APPROVAL_CHAIN.map(level => (
+          <div key={level} className="p-3 border rounded-lg space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor={`sla-active-${level}`} className="font-medium">
+                L{level} · {APPROVAL_LEVELS[level].role}
+              </Label>
+              <Switch
+                id={`sla-active-${level}`}
+                checked={formData[level].is_active}
+                onCheckedChange={(checked) => updateLevel(level, { is_active: checked })}
+              />
+            </div>
+            {formData[level].is_active && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <Label htmlFor={`sla-deadline-${level}`}>Deadline (working days)</Label>
+                  <Input
+                    id={`sla-deadline-${level}`}
+                    type="number"
+                    min={1}
+                    value={formData[level].deadline_days}
+                    onChange={(e) => updateLevel(level, { deadline_days: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`sla-reminder-${level}`}>Remind (days before)</Label>
+                  <Input
+                    id={`sla-reminder-${level}`}
+                    type="number"
+                    min={0}
+                    value={formData[level].reminder_days_before}
+                    onChange={(e) => updateLevel(level, { reminder_days_before: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label>Escalate To</Label>
+                  <Select
+                    value={formData[level].escalate_to}
+                    onValueChange={(value) => updateLevel(level, { escalate_to: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="next_level">Next approval level</SelectItem>
+                      <SelectItem value="general_admin">General admins</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !workspaceId}>
+          <Save className="h-4 w-4 mr-2" />
+          {saveMutation.isPending ? 'Saving...' : 'Save Deadlines'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VacationApprovalSlaManagement;
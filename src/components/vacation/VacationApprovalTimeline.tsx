@@ -5,12 +5,20 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 import { cn } from '@/lib/utils';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { formatApproverName } from '@/lib/vacationDelegation';
+import { APPROVAL_LEVELS, DEFAULT_APPROVAL_CHAIN, LEVEL_STAGES, type ApprovalLevel } from '@/lib/vacationApprovalChain';
+import type { Tables } from '@/integrations/supabase/types';
+import type { VacationGuardrailIssue } from '@/lib/vacationGuardrails';
+import { formatVacationSplitDuration } from '@/lib/vacationDayPortions';
+import VacationGuardrailIssues from './VacationGuardrailIssues';
+
+type StageStatus = 'approved' | 'rejected' | 'pending' | 'waiting' | 'escalated';
 
 interface ApprovalStage {
   level: number;
   role: string;
   approverName?: string;
-  status: 'approved' | 'rejected' | 'pending' | 'waiting';
+  status: StageStatus;
   timestamp?: string;
   comments?: string;
 }
@@ -21,6 +29,10 @@ interface VacationApprovalTimelineProps {
   departmentId: string;
   facilityId?: string;
   workspaceId?: string;
+  /** Ordered levels this plan goes through (defaults to all three) */
+  approvalChain?: number[];
+  /** SLA reminders and escalations recorded for the plan */
+  escalations?: Tables<'vacation_approval_escalations'>[];
 }
 
 const VacationApprovalTimeline = ({
@@ -29,6 +41,8 @@ const VacationApprovalTimeline = ({
   departmentId,
   facilityId,
   workspaceId,
+  approvalChain = DEFAULT_APPROVAL_CHAIN,
+  escalations = [],
 }: VacationApprovalTimelineProps) => {
   
   // Fetch designated approvers for each level
@@ -88,27 +102,13 @@ const VacationApprovalTimeline = ({
     enabled: !!(departmentId || facilityId || workspaceId),
   });
   
-  // Build the 3-level approval stages based on current status and approvals
-  const stages: ApprovalStage[] = [
-    {
-      level: 1,
-      role: 'Department Head',
-      status: getStageStatus(1, currentStatus, approvals),
-      ...getApprovalDetails(1, approvals, designatedApprovers?.level1),
-    },
-    {
-      level: 2,
-      role: 'Facility Supervisor',
-      status: getStageStatus(2, currentStatus, approvals),
-      ...getApprovalDetails(2, approvals, designatedApprovers?.level2),
-    },
-    {
-      level: 3,
-      role: 'Workspace Supervisor',
-      status: getStageStatus(3, currentStatus, approvals),
-      ...getApprovalDetails(3, approvals, designatedApprovers?.level3),
-    },
-  ];
+  // Build the approval stages of the plan's chain based on current status and approvals
+  const stages: ApprovalStage[] = approvalChain.map((level) => ({
+    level,
+    role: APPROVAL_LEVELS[level as ApprovalLevel].role,
+    status: getStageStatus(level, approvalChain, currentStatus, approvals, escalations),
+    ...getApprovalDetails(level, approvals, designatedApprovers?.[`level${level}` as keyof typeof designatedApprovers]),
+  }));
 
   // Check if any approval has conflicts
   const hasAnyConflicts = approvals?.some(a => a.has_conflict);
@@ -154,13 +154,16 @@ const VacationApprovalTimeline = ({
                     stage.status === 'pending' &&
                       'bg-warning border-warning text-warning-foreground animate-pulse',
                     stage.status === 'waiting' &&
-                      'bg-muted border-border text-muted-foreground'
+                      'bg-muted border-border text-muted-foreground',
+                    stage.status === 'escalated' &&
+                      'bg-warning/20 border-warning text-warning'
                   )}
                 >
                   {stage.status === 'approved' && <CheckCircle2 className="h-4 w-4 sm:h-6 sm:w-6" />}
                   {stage.status === 'rejected' && <XCircle className="h-4 w-4 sm:h-6 sm:w-6" />}
                   {stage.status === 'pending' && <Clock className="h-4 w-4 sm:h-6 sm:w-6" />}
                   {stage.status === 'waiting' && <Hourglass className="h-4 w-4 sm:h-6 sm:w-6" />}
+                  {stage.status === 'escalated' && <AlertCircle className="h-4 w-4 sm:h-6 sm:w-6" />}
                 </div>
                 
                 {/* Connecting Line */}
@@ -196,9 +199,10 @@ const VacationApprovalTimeline = ({
 
       {/* Detailed Stage Cards */}
       <div className="space-y-3">
-        {stages.map((stage) => {
+        {stages.map((stage, index) => {
           const stageApproval = approvals?.find(a => a.approval_level === stage.level);
           const stageHasConflict = stageApproval?.has_conflict;
+          const stageEscalations = escalations.filter(e => e.approval_level === stage.level);
           
           return (
             <div
@@ -209,13 +213,14 @@ const VacationApprovalTimeline = ({
                 !stageHasConflict && stage.status === 'approved' && 'border-success bg-success/5',
                 !stageHasConflict && stage.status === 'rejected' && 'border-destructive bg-destructive/5',
                 !stageHasConflict && stage.status === 'pending' && 'border-warning bg-warning/5',
-                !stageHasConflict && stage.status === 'waiting' && 'border-border bg-muted/30'
+                !stageHasConflict && stage.status === 'waiting' && 'border-border bg-muted/30',
+                !stageHasConflict && stage.status === 'escalated' && 'border-warning bg-warning/5'
               )}
             >
               <div className="flex items-start justify-between mb-2">
                 <div>
                   <div className="flex items-center gap-2 mb-1">
-                    <span className="font-semibold text-sm">{stage.level}. {stage.role}</span>
+                    <span className="font-semibold text-sm">{index + 1}. {stage.role}</span>
                     {getStatusBadge(stage.status)}
                     {stageHasConflict && stageApproval?.conflicting_plans && (
                       <TooltipProvider>
@@ -231,7 +236,7 @@ const VacationApprovalTimeline = ({
                               <p className="font-semibold text-xs">Conflicting Staff:</p>
                               {Array.isArray(stageApproval.conflicting_plans) && stageApproval.conflicting_plans.map((cp: any, idx: number) => (
                                 <p key={idx} className="text-xs">
-                                  • {cp.staff_name}: {format(new Date(cp.start_date), 'MMM dd')} - {format(new Date(cp.end_date), 'MMM dd')} ({cp.days} days)
+                                  • {cp.staff_name}: {format(new Date(cp.start_date), 'MMM dd')} - {format(new Date(cp.end_date), 'MMM dd')} ({formatVacationSplitDuration(cp)})
                                 </p>
                               ))}
                             </div>
@@ -263,12 +268,25 @@ const VacationApprovalTimeline = ({
                 </p>
               )}
 
+              {/* SLA reminders and escalations at this stage */}
+              {stageEscalations.map((escalation) => (
+                <p key={escalation.id} className="text-xs text-muted-foreground mb-1">
+                  {escalation.event_type === 'reminder' ? '⏰ Reminder sent on ' : '⚠️ Escalated on '}
+                  {format(new Date(escalation.created_at), 'PPP p')}
+                  {escalation.event_type === 'escalated' &&
+                    (escalation.escalated_to_level
+                      ? ` to Level ${escalation.escalated_to_level} (${APPROVAL_LEVELS[escalation.escalated_to_level as ApprovalLevel].role})`
+                      : ' to general admins')}
+                  {escalation.pending_days !== null && ` after ${escalation.pending_days} working days`}
+                </p>
+              ))}
+
               {/* Show conflict details if this stage had conflicts */}
               {stageHasConflict && stageApproval && (
                 <div className="mt-3 p-3 bg-warning/10 border border-warning rounded-md space-y-2">
                   <p className="text-sm font-semibold text-warning flex items-center gap-2">
                     <AlertCircle className="h-4 w-4" />
-                    Conflicting Staff Identified
+                    Conflicts Identified
                   </p>
                   {stageApproval.conflicting_plans && Array.isArray(stageApproval.conflicting_plans) && (
                     <div className="space-y-1 pl-4">
@@ -276,12 +294,16 @@ const VacationApprovalTimeline = ({
                         <div key={idx} className="text-sm border-l-2 border-warning pl-2">
                           <p className="font-medium">{cp.staff_name}</p>
                           <p className="text-muted-foreground text-xs">
-                            {format(new Date(cp.start_date), 'MMM dd')} - {format(new Date(cp.end_date), 'MMM dd, yyyy')} ({cp.days} days)
+                            {format(new Date(cp.start_date), 'MMM dd')} - {format(new Date(cp.end_date), 'MMM dd, yyyy')} ({formatVacationSplitDuration(cp)})
                           </p>
                         </div>
                       ))}
                     </div>
                   )}
+                  {Array.isArray(stageApproval.guardrail_issues) &&
+                    stageApproval.guardrail_issues.map((issue: VacationGuardrailIssue) => (
+                      <VacationGuardrailIssues key={issue.split_id} issue={issue} />
+                    ))}
                   {stageApproval.conflict_reason && (
                     <div className="mt-2 p-2 bg-background rounded text-xs">
                       <span className="font-medium">Approval Reason: </span>
@@ -305,12 +327,14 @@ const VacationApprovalTimeline = ({
   );
 };
 
-// Helper function to determine stage status based on current plan status and approvals
+// Helper function to determine stage status based on the chain, current plan status and approvals
 function getStageStatus(
   level: number,
+  chain: number[],
   currentStatus: string,
-  approvals: any[]
-): 'approved' | 'rejected' | 'pending' | 'waiting' {
+  approvals: any[],
+  escalations: Tables<'vacation_approval_escalations'>[]
+): StageStatus {
   const approval = approvals?.find((a) => a.approval_level === level);
   
   // If there's an explicit approval record, use its status
@@ -319,43 +343,26 @@ function getStageStatus(
     if (approval.status === 'rejected') return 'rejected';
   }
 
+  // Levels that missed their SLA and were passed on to the next level
+  if (escalations.some((e) => e.approval_level === level && e.escalated_to_level)) return 'escalated';
+
   // If the plan is rejected at any level, all subsequent levels are waiting
   if (currentStatus === 'rejected') return 'waiting';
 
   // If the plan is draft, all levels are waiting
   if (currentStatus === 'draft') return 'waiting';
-  
-  // Level 1 (Department Head)
-  if (level === 1) {
-    if (currentStatus === 'department_pending') return 'pending';
-    // If we're past department_pending, Level 1 was approved (even without record)
-    if (['facility_pending', 'workspace_pending', 'approved'].includes(currentStatus)) {
-      return 'approved';
-    }
-    return 'waiting';
-  }
-  
-  // Level 2 (Facility Supervisor)
-  if (level === 2) {
-    if (currentStatus === 'facility_pending') return 'pending';
-    // If we're past facility_pending, Level 2 was approved
-    if (['workspace_pending', 'approved'].includes(currentStatus)) {
-      return 'approved';
-    }
-    // Still waiting for Level 1
-    if (currentStatus === 'department_pending') return 'waiting';
-    return 'waiting';
-  }
-  
-  // Level 3 (Workspace Supervisor)
-  if (level === 3) {
-    if (currentStatus === 'workspace_pending') return 'pending';
-    // If status is approved, Level 3 approved
-    if (currentStatus === 'approved') return 'approved';
-    // Still waiting for previous levels
-    return 'waiting';
-  }
 
+  // Every level of the chain signed off once the plan is approved
+  if (currentStatus === 'approved') return 'approved';
+
+  // Levels before the one the plan waits at were approved (even without record)
+  const pendingIndex = chain.findIndex((chainLevel) => LEVEL_STAGES[chainLevel] === currentStatus);
+  const levelIndex = chain.indexOf(level);
+  if (pendingIndex === -1) return 'waiting';
+  if (levelIndex === pendingIndex) return 'pending';
+  if (levelIndex < pendingIndex) return 'approved';
+
+  // Still waiting for previous levels
   return 'waiting';
 }
 
@@ -371,7 +378,7 @@ function getApprovalDetails(level: number, approvals: any[], designatedApprover?
   }
 
   return {
-    approverName: approval.profiles?.full_name || designatedApprover || 'Unknown',
+    approverName: formatApproverName(approval, designatedApprover || 'Unknown'),
     timestamp: approval.updated_at || approval.created_at,
     comments: approval.comments,
   };
@@ -384,6 +391,7 @@ function getStatusBadge(status: string) {
     rejected: { label: 'Rejected', className: 'bg-destructive text-destructive-foreground' },
     pending: { label: 'Pending', className: 'bg-warning text-warning-foreground' },
     waiting: { label: 'Waiting', className: 'bg-muted text-muted-foreground' },
+    escalated: { label: 'Escalated', className: 'bg-warning/20 text-warning' },
   };
   const config = configs[status as keyof typeof configs] || configs.waiting;
   return (
@@ -9,8 +9,8 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { format } from 'date-fns';
-import { CheckCircle2, XCircle, Calendar, User, FileText, Clock, AlertCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { CheckCircle2, XCircle, Calendar, User, FileText, Clock, AlertCircle, LayoutList, Table2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import {
@@ -23,46 +23,94 @@ import {
 } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Label } from '@/components/ui/label';
+import { useModuleContext } from '@/contexts/ModuleContext';
+import type { Tables } from '@/integrations/supabase/types';
+import { parseRuleViolations, type VacationRuleViolation } from '@/lib/vacationRules';
+import VacationRuleViolationsDialog from './VacationRuleViolationsDialog';
+import VacationDocuments from './VacationDocuments';
+import VacationGuardrailIssues from './VacationGuardrailIssues';
+import VacationBulkApproval from './VacationBulkApproval';
+import { sendVacationStatusNotification } from '@/lib/vacationNotifications';
+import { formatApproverName } from '@/lib/vacationDelegation';
+import { CHANGE_TYPE_LABELS, type VacationChangeType } from '@/lib/vacationAmendments';
+import type { VacationGuardrailIssue } from '@/lib/vacationGuardrails';
+import { formatVacationSplitDuration } from '@/lib/vacationDayPortions';
+import {
+  APPROVAL_LEVELS,
+  describeChain,
+  fetchVacationApprovalChain,
+  getNextChainLevel,
+} from '@/lib/vacationApprovalChain';
+import {
+  reviewVacationPlan,
+  type ConflictingVacation,
+  type PreviousLevelConflict,
+  type VacationApprovalRequest,
+} from '@/lib/vacationApproval';
 
 interface VacationApprovalWorkflowProps {
   approvalLevel: 1 | 2 | 3;
   scopeType: 'department' | 'facility' | 'workspace';
   scopeId: string;
+  /** Set when reviewing as a delegate for another approver */
+  onBehalfOf?: { id: string; name: string };
+  /** Set when reviewing, as a general admin of the workspace, plans escalated at this level */
+  escalated?: boolean;
 }
 
-const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: VacationApprovalWorkflowProps) => {
+/** Whether the plan's SLA escalation at its current level went to the workspace general admins */
+const isEscalatedToGeneralAdmins = (
+  plan: Pick<Tables<'vacation_plans'>, 'status_changed_at'> & {
+    vacation_approval_escalations?: Tables<'vacation_approval_escalations'>[];
+  },
+  approvalLevel: number
+) =>
+  plan.vacation_approval_escalations?.some((escalation) =>
+    escalation.approval_level === approvalLevel &&
+    escalation.event_type === 'escalated' &&
+    escalation.escalated_to_role === 'general_admin' &&
+    new Date(escalation.created_at) >= new Date(plan.status_changed_at)
+  );
+
+const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId, onBehalfOf, escalated }: VacationApprovalWorkflowProps) => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [selectedPlan, setSelectedPlan] = useState<any>(null);
   const [showApprovalDialog, setShowApprovalDialog] = useState(false);
   const [approvalAction, setApprovalAction] = useState<'approve' | 'reject'>('approve');
   const [comments, setComments] = useState('');
-  const [conflictData, setConflictData] = useState<any[]>([]);
   const [showConflictDialog, setShowConflictDialog] = useState(false);
   const [conflictReason, setConflictReason] = useState('');
-  const [previousLevelConflicts, setPreviousLevelConflicts] = useState<any[]>([]);
+  const [previousLevelConflicts, setPreviousLevelConflicts] = useState<PreviousLevelConflict[]>([]);
   const [showPreviousConflictDialog, setShowPreviousConflictDialog] = useState(false);
   const [selectedSplits, setSelectedSplits] = useState<Set<string>>(new Set());
-  const [splitConflicts, setSplitConflicts] = useState<Map<string, any[]>>(new Map());
+  const [splitConflicts, setSplitConflicts] = useState<Map<string, ConflictingVacation[]>>(new Map());
+  const [splitGuardrails, setSplitGuardrails] = useState<Map<string, VacationGuardrailIssue>>(new Map());
+  const [ruleViolations, setRuleViolations] = useState<VacationRuleViolation[]>([]);
+  const [showRuleDialog, setShowRuleDialog] = useState(false);
+  const [bulkMode, setBulkMode] = useState(false);
+  const { canAdmin } = useModuleContext();
 
   // Fetch pending vacation plans based on level
   const { data: pendingPlans, isLoading } = useQuery({
-    queryKey: ['pending-vacation-plans', approvalLevel, scopeId],
+    queryKey: ['pending-vacation-plans', approvalLevel, scopeId, onBehalfOf?.id, escalated],
     queryFn: async () => {
       let query = supabase
         .from('vacation_plans')
         .select(`
           *,
-          vacation_types(name, description),
+          vacation_types(name, description, requires_documentation),
           departments(name, facility_id),
           vacation_splits(*),
           vacation_approvals(
             *,
-            profiles:approver_id(full_name, email)
-          )
+            profiles:approver_id(full_name, email),
+            delegator:on_behalf_of(full_name)
+          ),
+          vacation_approval_escalations(*)
         `);
 
-      if (approvalLevel === 1) {
+      if (approvalLevel === 1 && !escalated) {
         // Department Head: Plans pending department approval
         query = query.eq('status', 'department_pending').eq('department_id', scopeId);
         const { data: plans, error } = await query;
@@ -71,20 +119,22 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
         // Fetch staff and creator info
         const enrichedPlans = await Promise.all(
           (plans || []).map(async (plan) => {
-            const [staffProfile, creatorProfile] = await Promise.all([
+            const [staffProfile, creatorProfile, approvalChain] = await Promise.all([
               supabase.from('profiles').select('full_name, email').eq('id', plan.staff_id).single(),
               supabase.from('profiles').select('full_name').eq('id', plan.created_by).single(),
+              fetchVacationApprovalChain(plan.id),
             ]);
             return {
               ...plan,
               staff_profile: staffProfile.data,
               creator_profile: creatorProfile.data,
+              approval_chain: approvalChain,
             };
           })
         );
 
         return enrichedPlans;
-      } else if (approvalLevel === 2) {
+      } else if (approvalLevel === 2 && !escalated) {
         // Facility Supervisor: Plans approved by Dept Head, pending facility approval
         query = query.eq('status', 'facility_pending');
         const { data: plans, error } = await query;
@@ -98,22 +148,25 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
         // Fetch staff and creator info
         const enrichedPlans = await Promise.all(
           (filtered || []).map(async (plan) => {
-            const [staffProfile, creatorProfile] = await Promise.all([
+            const [staffProfile, creatorProfile, approvalChain] = await Promise.all([
               supabase.from('profiles').select('full_name, email').eq('id', plan.staff_id).single(),
               supabase.from('profiles').select('full_name').eq('id', plan.created_by).single(),
+              fetchVacationApprovalChain(plan.id),
             ]);
             return {
               ...plan,
               staff_profile: staffProfile.data,
               creator_profile: creatorProfile.data,
+              approval_chain: approvalChain,
             };
           })
         );
 
         return enrichedPlans;
       } else {
-        // Workplace Supervisor: Plans approved at level 2, pending workspace approval
-        query = query.eq('status', 'workspace_pending');
+        // Workplace Supervisor: Plans approved at level 2, pending workspace approval.
+        // General admins: plans of their workspace escalated to them at this level
+        query = query.eq('status', APPROVAL_LEVELS[approvalLevel].status);
         const { data: plans, error } = await query;
         if (error) throw error;
 
@@ -126,20 +179,23 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
         const facilityIds = facilities?.map((f) => f.id) || [];
         
         const filtered = plans?.filter((plan: any) => {
-          return facilityIds.includes(plan.departments?.facility_id);
+          return facilityIds.includes(plan.departments?.facility_id) &&
+            (!escalated || isEscalatedToGeneralAdmins(plan, approvalLevel));
         });
 
         // Fetch staff and creator info
         const enrichedPlans = await Promise.all(
           (filtered || []).map(async (plan) => {
-            const [staffProfile, creatorProfile] = await Promise.all([
+            const [staffProfile, creatorProfile, approvalChain] = await Promise.all([
               supabase.from('profiles').select('full_name, email').eq('id', plan.staff_id).single(),
               supabase.from('profiles').select('full_name').eq('id', plan.created_by).single(),
+              fetchVacationApprovalChain(plan.id),
             ]);
             return {
               ...plan,
               staff_profile: staffProfile.data,
               creator_profile: creatorProfile.data,
+              approval_chain: approvalChain,
             };
           })
         );
@@ -151,167 +207,86 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
   });
 
   const approvalMutation = useMutation({
-    mutationFn: async ({ 
-      planId, 
-      action, 
-      comments, 
-      hasConflict = false, 
-      conflictReason = '', 
-      conflictingPlans = [],
-      selectedSplitIds = [] 
-    }: any) => {
-      // Check for conflicts before approval (only for Department Head level)
-      if (action === 'approve' && approvalLevel === 1 && !hasConflict) {
-        const { data: planData } = await supabase
-          .from('vacation_plans')
-          .select('department_id')
-          .eq('id', planId)
-          .single();
-
-        if (planData) {
-          const { data: conflicts } = await supabase.rpc('check_vacation_conflicts', {
-            _vacation_plan_id: planId,
-            _department_id: planData.department_id
-          });
-
-          if (conflicts && Array.isArray(conflicts) && conflicts.length > 0) {
-            // Return per-split conflicts
-            throw new Error('CONFLICTS_DETECTED:' + JSON.stringify(conflicts));
-          }
-        }
-      }
-
-      // For Level 2 & 3: Check if previous levels had conflicts that need acknowledgment
-      if (action === 'approve' && (approvalLevel === 2 || approvalLevel === 3) && !hasConflict) {
-        const { data: previousApprovals } = await supabase
-          .from('vacation_approvals')
-          .select('*, profiles:approver_id(full_name)')
-          .eq('vacation_plan_id', planId)
-          .eq('has_conflict', true)
-          .in('approval_level', approvalLevel === 2 ? [1] : [1, 2]);
-
-        if (previousApprovals && previousApprovals.length > 0) {
-          throw new Error('PREVIOUS_CONFLICTS:' + JSON.stringify(previousApprovals));
+    mutationFn: async (request: Omit<VacationApprovalRequest, 'approvalLevel'>) => {
+      // Conflicts, rule checks, split and status updates all run in one transaction
+      const result = await reviewVacationPlan({ ...request, approvalLevel });
+
+      // Notify the staff member, or the next approver (or their delegate)
+      const plan = pendingPlans?.find(p => p.id === request.planId);
+      if (result.outcome === 'completed' && plan) {
+        let approverName: string | undefined;
+        if (onBehalfOf) {
+          const { data: approverProfile } = await supabase
+            .from('profiles')
+            .select('full_name')
+            .eq('id', user?.id)
+            .single();
+          approverName = formatApproverName({ profiles: approverProfile, delegator: { full_name: onBehalfOf.name } });
         }
+        await sendVacationStatusNotification(request.planId, result.status, plan.staff_id, approverName);
       }
 
-      // Get all splits for the plan
-      const { data: allSplits } = await supabase
-        .from('vacation_splits')
-        .select('*')
-        .eq('vacation_plan_id', planId);
-
-      // Update split statuses based on selection
-      if (allSplits && selectedSplitIds.length > 0) {
-        for (const split of allSplits) {
-          const newSplitStatus = selectedSplitIds.includes(split.id) ? 'approved' : 'rejected';
-          await supabase
-            .from('vacation_splits')
-            .update({ status: newSplitStatus })
-            .eq('id', split.id);
-        }
-
-        // Calculate new total days from approved splits
-        const approvedSplits = allSplits.filter(s => selectedSplitIds.includes(s.id));
-        const newTotalDays = approvedSplits.reduce((sum, split) => sum + split.days, 0);
+      return result;
+    },
+    onSuccess: (result) => {
+      if (result.outcome === 'conflicts') {
+        // Build split conflicts map
+        const conflictsMap = new Map<string, ConflictingVacation[]>();
+        result.conflicts.forEach((item) => {
+          if (item.conflicts && item.conflicts.length > 0) {
+            conflictsMap.set(item.split_id, item.conflicts);
+          }
+        });
 
-        // Update vacation plan total_days
-        await supabase
-          .from('vacation_plans')
-          .update({ total_days: newTotalDays })
-          .eq('id', planId);
+        setSplitConflicts(conflictsMap);
+        setSplitGuardrails(new Map(result.guardrails.map((issue) => [issue.split_id, issue])));
+        setShowApprovalDialog(false);
+        setShowConflictDialog(true);
+        return;
       }
 
-      // Create or update approval record
-      const { data: existingApproval } = await supabase
-        .from('vacation_approvals')
-        .select('*')
-        .eq('vacation_plan_id', planId)
-        .eq('approval_level', approvalLevel)
-        .maybeSingle();
-
-      const approvalData = {
-        vacation_plan_id: planId,
-        approval_level: approvalLevel,
-        approver_id: user?.id,
-        status: action === 'approve' ? 'approved' : 'rejected',
-        comments: comments || null,
-        has_conflict: hasConflict,
-        conflict_reason: conflictReason || null,
-        conflicting_plans: (Array.isArray(conflictingPlans) && conflictingPlans.length > 0) ? conflictingPlans : null,
-      };
-
-      if (existingApproval) {
-        await supabase
-          .from('vacation_approvals')
-          .update(approvalData)
-          .eq('id', existingApproval.id);
-      } else {
-        await supabase.from('vacation_approvals').insert(approvalData);
+      if (result.outcome === 'previous_conflicts') {
+        setPreviousLevelConflicts(result.previous_conflicts);
+        setShowApprovalDialog(false);
+        setShowPreviousConflictDialog(true);
+        return;
       }
 
-      // Update vacation plan status
-      let newStatus = '';
-      if (action === 'reject') {
-        newStatus = 'rejected';
-      } else {
-        // Check if all splits were rejected
-        const hasApprovedSplits = selectedSplitIds.length > 0;
-        if (!hasApprovedSplits) {
-          newStatus = 'rejected';
-        } else {
-          // Progress to next approval level
-          newStatus = 
-            approvalLevel === 1 ? 'facility_pending' :
-            approvalLevel === 2 ? 'workspace_pending' : 
-            'approved';
-        }
+      if (result.outcome === 'rule_violations') {
+        setRuleViolations(result.violations);
+        setShowApprovalDialog(false);
+        setShowConflictDialog(false);
+        setShowPreviousConflictDialog(false);
+        setShowRuleDialog(true);
+        return;
       }
 
-      const { error: updateError } = await supabase
-        .from('vacation_plans')
-        .update({ status: newStatus })
-        .eq('id', planId);
-
-      if (updateError) throw updateError;
-    },
-    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['pending-vacation-plans'] });
+      queryClient.invalidateQueries({ queryKey: ['vacation-plans-list'] });
+      queryClient.invalidateQueries({ queryKey: ['vacation-balance'] });
       toast.success(`Vacation plan ${approvalAction === 'approve' ? 'approved' : 'rejected'}`);
       setShowApprovalDialog(false);
       setShowConflictDialog(false);
+      setShowPreviousConflictDialog(false);
       setSelectedPlan(null);
       setComments('');
       setConflictReason('');
-      setConflictData([]);
       setSelectedSplits(new Set());
       setSplitConflicts(new Map());
+      setSplitGuardrails(new Map());
+      setRuleViolations([]);
+      setShowRuleDialog(false);
     },
     onError: (error: any) => {
-      if (error.message.startsWith('CONFLICTS_DETECTED:')) {
-        const conflictsJson = error.message.replace('CONFLICTS_DETECTED:', '');
-        const conflicts = JSON.parse(conflictsJson);
-        
-        // Build split conflicts map
-        const conflictsMap = new Map<string, any[]>();
-        conflicts.forEach((item: any) => {
-          if (item.conflicts && item.conflicts.length > 0) {
-            conflictsMap.set(item.split_id, item.conflicts);
-          }
-        });
-        
-        setSplitConflicts(conflictsMap);
-        setConflictData(conflicts);
-        setShowApprovalDialog(false);
-        setShowConflictDialog(true);
-      } else if (error.message.startsWith('PREVIOUS_CONFLICTS:')) {
-        const conflictsJson = error.message.replace('PREVIOUS_CONFLICTS:', '');
-        const conflicts = JSON.parse(conflictsJson);
-        setPreviousLevelConflicts(conflicts);
+      const violations = parseRuleViolations(error);
+      if (violations) {
+        setRuleViolations(violations);
         setShowApprovalDialog(false);
-        setShowPreviousConflictDialog(true);
+        setShowConflictDialog(false);
+        setShowPreviousConflictDialog(false);
+        setShowRuleDialog(true);
       } else {
-        toast.error('Failed to process approval');
+        toast.error(error.message || 'Failed to process approval');
       }
     },
   });
@@ -324,6 +299,8 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
     const allSplitIds = new Set<string>(plan.vacation_splits.map((s: any) => s.id));
     setSelectedSplits(allSplitIds);
     setSplitConflicts(new Map());
+    setSplitGuardrails(new Map());
+    setRuleViolations([]);
     
     setShowApprovalDialog(true);
   };
@@ -353,7 +330,7 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
       planId: selectedPlan.id,
       action: approvalAction,
       comments,
-      selectedSplitIds: Array.from(selectedSplits),
+      splitIds: Array.from(selectedSplits),
     });
   };
 
@@ -372,13 +349,16 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
       planId: selectedPlan.id,
       action: 'approve',
       comments,
-      hasConflict: true,
       conflictReason,
-      conflictingPlans: conflictData,
-      selectedSplitIds: Array.from(selectedSplits),
+      splitIds: Array.from(selectedSplits),
     });
   };
 
+  const confirmRuleOverride = (reason: string) => {
+    if (!approvalMutation.variables) return;
+    approvalMutation.mutate({ ...approvalMutation.variables, overrideReason: reason });
+  };
+
   const getStatusBadge = (status: string) => {
     const configs = {
       draft: { label: 'Draft', className: 'bg-warning text-warning-foreground' },
@@ -392,6 +372,8 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
     return <Badge className={config.className}>{config.label}</Badge>;
   };
 
+  const nextLevel = getNextChainLevel(selectedPlan?.approval_chain || [], approvalLevel);
+
   if (isLoading) {
     return (
       <Card>
@@ -402,147 +384,208 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
     );
   }
 
+  // Escalated plans are the exception; levels without any are left out
+  if (escalated && !pendingPlans?.length) {
+    return null;
+  }
+
   return (
     <>
       <Card>
         <CardHeader>
-          <CardTitle>
-            {approvalLevel === 1 && 'Level 1 (Department Head) Approvals'}
-            {approvalLevel === 2 && 'Level 2 (Facility Supervisor) Approvals'}
-            {approvalLevel === 3 && 'Level 3 (Workspace Supervisor) Approvals'}
-            {' - Pending Review'}
-          </CardTitle>
+          <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+            <div>
+              <CardTitle>
+                Level {approvalLevel} ({APPROVAL_LEVELS[approvalLevel].role}) Approvals - Pending Review
+              </CardTitle>
+              {onBehalfOf && (
+                <p className="text-sm text-muted-foreground">
+                  Reviewing on behalf of {onBehalfOf.name}
+                </p>
+              )}
+              {escalated && (
+                <p className="text-sm text-muted-foreground">
+                  Escalated to the workspace general admins after missing the approval deadline
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant={bulkMode ? 'outline' : 'default'} onClick={() => setBulkMode(false)}>
+                <LayoutList className="h-4 w-4 mr-2" />
+                Details
+              </Button>
+              <Button size="sm" variant={bulkMode ? 'default' : 'outline'} onClick={() => setBulkMode(true)}>
+                <Table2 className="h-4 w-4 mr-2" />
+                Bulk Review
+              </Button>
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
-          <div className="space-y-4">
-            {pendingPlans?.map((plan) => (
-              <Card key={plan.id} className="border-2">
-                <CardHeader>
-                  <div className="flex justify-between items-start">
-                    <div>
-                      <div className="flex items-center gap-2 mb-2">
-                        <User className="h-4 w-4 text-muted-foreground" />
-                        <span className="font-semibold">
-                          {plan.staff_profile?.full_name || 'Unknown'}
-                        </span>
-                        <span className="text-sm text-muted-foreground">
-                          ({plan.staff_profile?.email})
-                        </span>
+          {bulkMode ? (
+            <VacationBulkApproval
+              plans={pendingPlans || []}
+              approvalLevel={approvalLevel}
+              onBehalfOf={onBehalfOf}
+            />
+          ) : (
+            <div className="space-y-4">
+              {pendingPlans?.map((plan) => (
+                <Card key={plan.id} className="border-2">
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <div className="flex items-center gap-2 mb-2">
+                          <User className="h-4 w-4 text-muted-foreground" />
+                          <span className="font-semibold">
+                            {plan.staff_profile?.full_name || 'Unknown'}
+                          </span>
+                          <span className="text-sm text-muted-foreground">
+                            ({plan.staff_profile?.email})
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <FileText className="h-4 w-4" />
+                          <span>Planned by: {plan.creator_profile?.full_name || 'Unknown'}</span>
+                        </div>
                       </div>
-                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                        <FileText className="h-4 w-4" />
-                        <span>Planned by: {plan.creator_profile?.full_name || 'Unknown'}</span>
+                      <div className="flex flex-wrap justify-end gap-2">
+                        {plan.amends_plan_id && <Badge variant="outline">Change Request</Badge>}
+                        {getStatusBadge(plan.status)}
                       </div>
                     </div>
-                    {getStatusBadge(plan.status)}
-                  </div>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
-                    <div>
-                      <p className="text-sm font-medium">Vacation Type</p>
-                      <p className="text-sm text-muted-foreground">
-                        {plan.vacation_types?.name}
-                      </p>
-                    </div>
-                    <div>
-                      <p className="text-sm font-medium">Total Days</p>
-                      <p className="text-sm text-muted-foreground">{plan.total_days} days</p>
-                    </div>
-                    <div>
-                      <p className="text-sm font-medium">Department</p>
-                      <p className="text-sm text-muted-foreground">
-                        {plan.departments?.name}
-                      </p>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+                      <div>
+                        <p className="text-sm font-medium">Vacation Type</p>
+                        <p className="text-sm text-muted-foreground">
+                          {plan.vacation_types?.name}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-sm font-medium">Total Days</p>
+                        <p className="text-sm text-muted-foreground">{plan.total_days} days</p>
+                      </div>
+                      <div>
+                        <p className="text-sm font-medium">Department</p>
+                        <p className="text-sm text-muted-foreground">
+                          {plan.departments?.name}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-sm font-medium">Submitted</p>
+                        <p className="text-sm text-muted-foreground">
+                          {plan.submitted_at
+                            ? format(new Date(plan.submitted_at), 'PPP')
+                            : 'Not yet'}
+                        </p>
+                      </div>
                     </div>
-                    <div>
-                      <p className="text-sm font-medium">Submitted</p>
-                      <p className="text-sm text-muted-foreground">
-                        {plan.submitted_at
-                          ? format(new Date(plan.submitted_at), 'PPP')
-                          : 'Not yet'}
+
+                    {plan.approval_chain && (
+                      <p className="text-xs text-muted-foreground">
+                        Approval chain: {describeChain(plan.approval_chain)}
                       </p>
-                    </div>
-                  </div>
+                    )}
 
-                  {plan.notes && (
-                    <div className="bg-accent p-3 rounded-lg">
-                      <p className="text-sm font-medium mb-1">Notes:</p>
-                      <p className="text-sm text-muted-foreground">{plan.notes}</p>
-                    </div>
-                  )}
+                    {plan.notes && (
+                      <div className="bg-accent p-3 rounded-lg">
+                        <p className="text-sm font-medium mb-1">Notes:</p>
+                        <p className="text-sm text-muted-foreground">{plan.notes}</p>
+                      </div>
+                    )}
 
-                  {plan.vacation_splits && plan.vacation_splits.length > 0 && (
-                    <div>
-                      <p className="text-sm font-medium mb-2 flex items-center gap-2">
-                        <Calendar className="h-4 w-4" />
-                        Vacation Segments ({plan.vacation_splits.length})
-                      </p>
-                      <div className="space-y-2">
-                        {plan.vacation_splits.map((split: any, index: number) => (
-                          <div
-                            key={split.id}
-                            className="flex flex-col sm:flex-row sm:items-center sm:justify-between p-2 sm:p-3 bg-accent rounded gap-2"
-                          >
-                            <span className="text-sm font-medium">Segment {index + 1}</span>
-                            <span className="text-xs sm:text-sm font-medium">
-                              {format(new Date(split.start_date), 'PPP')} →{' '}
-                              {format(new Date(split.end_date), 'PPP')}
-                            </span>
-                            <div className="flex items-center gap-2">
-                              <span className="text-xs sm:text-sm text-muted-foreground">
-                                {split.days} days
+                    {plan.vacation_splits && plan.vacation_splits.length > 0 && (
+                      <div>
+                        <p className="text-sm font-medium mb-2 flex items-center gap-2">
+                          <Calendar className="h-4 w-4" />
+                          Vacation Segments ({plan.vacation_splits.length})
+                        </p>
+                        <div className="space-y-2">
+                          {plan.vacation_splits.map((split: any, index: number) => (
+                            <div
+                              key={split.id}
+                              className="flex flex-col sm:flex-row sm:items-center sm:justify-between p-2 sm:p-3 bg-accent rounded gap-2"
+                            >
+                              <span className="text-sm font-medium">Segment {index + 1}</span>
+                              <span className="text-xs sm:text-sm font-medium">
+                                {split.change_type === 'modify' && split.original_start_date && (
+                                  <span className="text-muted-foreground line-through mr-2">
+                                    {format(parseISO(split.original_start_date), 'PP')} → {format(parseISO(split.original_end_date), 'PP')}
+                                  </span>
+                                )}
+                                {format(new Date(split.start_date), 'PPP')} →{' '}
+                                {format(new Date(split.end_date), 'PPP')}
                               </span>
-                              {split.status && split.status !== 'pending' && (
-                                <Badge className={cn(
-                                  split.status === 'approved' && 'bg-success text-success-foreground',
-                                  split.status === 'rejected' && 'bg-destructive text-destructive-foreground'
-                                )}>
-                                  {split.status}
-                                </Badge>
-                              )}
+                              <div className="flex items-center gap-2">
+                                <span className="text-xs sm:text-sm text-muted-foreground">
+                                  {formatVacationSplitDuration(split)}
+                                </span>
+                                {split.change_type && (
+                                  <Badge variant="outline">
+                                    {CHANGE_TYPE_LABELS[split.change_type as VacationChangeType]}
+                                  </Badge>
+                                )}
+                                {split.status && split.status !== 'pending' && (
+                                  <Badge className={cn(
+                                    split.status === 'approved' && 'bg-success text-success-foreground',
+                                    split.status === 'rejected' && 'bg-destructive text-destructive-foreground'
+                                  )}>
+                                    {split.status}
+                                  </Badge>
+                                )}
+                              </div>
                             </div>
-                          </div>
-                        ))}
+                          ))}
+                        </div>
                       </div>
+                    )}
+
+                    {/* Change requests rely on the original plan's documents, which were reviewed with it */}
+                    <VacationDocuments
+                      planId={plan.amends_plan_id ?? plan.id}
+                      staffId={plan.staff_id}
+                      requiresDocumentation={!!plan.vacation_types?.requires_documentation}
+                      canReview={!plan.amends_plan_id}
+                    />
+
+                    <Separator />
+
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <Button
+                        onClick={() => handleApprovalAction(plan, 'approve')}
+                        className="flex-1"
+                        disabled={approvalMutation.isPending}
+                      >
+                        <CheckCircle2 className="h-4 w-4 mr-2" />
+                        Approve
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        onClick={() => handleApprovalAction(plan, 'reject')}
+                        className="flex-1"
+                        disabled={approvalMutation.isPending}
+                      >
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Reject
+                      </Button>
                     </div>
-                  )}
+                  </CardContent>
+                </Card>
+              ))}
 
-                  <Separator />
-
-                  <div className="flex flex-col sm:flex-row gap-2">
-                    <Button
-                      onClick={() => handleApprovalAction(plan, 'approve')}
-                      className="flex-1"
-                      disabled={approvalMutation.isPending}
-                    >
-                      <CheckCircle2 className="h-4 w-4 mr-2" />
-                      Approve
-                    </Button>
-                    <Button
-                      variant="destructive"
-                      onClick={() => handleApprovalAction(plan, 'reject')}
-                      className="flex-1"
-                      disabled={approvalMutation.isPending}
-                    >
-                      <XCircle className="h-4 w-4 mr-2" />
-                      Reject
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-
-            {pendingPlans?.length === 0 && (
-              <div className="text-center p-12 border-2 border-dashed rounded-lg">
-                <Clock className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
-                <h3 className="text-lg font-semibold mb-2">No Pending Approvals</h3>
-                <p className="text-muted-foreground">
-                  All vacation plans at this level have been processed
-                </p>
-              </div>
-            )}
-          </div>
+              {pendingPlans?.length === 0 && (
+                <div className="text-center p-12 border-2 border-dashed rounded-lg">
+                  <Clock className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+                  <h3 className="text-lg font-semibold mb-2">No Pending Approvals</h3>
+                  <p className="text-muted-foreground">
+                    All vacation plans at this level have been processed
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -555,10 +598,8 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
             <DialogDescription>
               {approvalAction === 'approve'
                 ? `You are about to approve this vacation plan for ${selectedPlan?.staff_profile?.full_name}. ${
-                    approvalLevel === 1
-                      ? 'This will move it to Level 2 (Facility Supervisor) for approval.'
-                      : approvalLevel === 2
-                      ? 'This will move it to Level 3 (Workspace Supervisor) for final approval.'
+                    nextLevel
+                      ? `This will move it to Level ${nextLevel} (${APPROVAL_LEVELS[nextLevel].role}) for approval.`
                       : 'This will be the final approval and the vacation will be confirmed.'
                   }`
                 : `You are about to reject this vacation plan for ${selectedPlan?.staff_profile?.full_name}. Please provide a reason for rejection.`}
@@ -623,8 +664,15 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
                             {format(new Date(split.start_date), 'MMM dd, yyyy')} → {format(new Date(split.end_date), 'MMM dd, yyyy')}
                           </p>
                           <p className="text-xs text-muted-foreground mt-1">
-                            {split.days} days
+                            {formatVacationSplitDuration(split)}
                           </p>
+                          {ruleViolations
+                            .filter((violation) => violation.split_id === split.id)
+                            .map((violation, vIdx) => (
+                              <p key={vIdx} className="text-xs text-destructive mt-1">
+                                {violation.message}
+                              </p>
+                            ))}
                         </div>
                       </div>
                     );
@@ -692,7 +740,8 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
               Vacation Conflict Detected
             </DialogTitle>
             <DialogDescription>
-              Some vacation segments have conflicts. Review each segment and select which ones to approve.
+              Some vacation segments overlap other vacations, fall in a blackout period or leave the team
+              below minimum staffing. Review each segment and select which ones to approve.
             </DialogDescription>
           </DialogHeader>
 
@@ -706,8 +755,10 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
               
               {selectedPlan?.vacation_splits.map((split: any, index: number) => {
                 const isSelected = selectedSplits.has(split.id);
-                const hasConflict = splitConflicts.has(split.id);
-                const conflicts = hasConflict ? splitConflicts.get(split.id) : [];
+                const hasOverlap = splitConflicts.has(split.id);
+                const conflicts = hasOverlap ? splitConflicts.get(split.id) : [];
+                const guardrails = splitGuardrails.get(split.id);
+                const hasConflict = hasOverlap || !!guardrails;
                 
                 return (
                   <div
@@ -734,7 +785,7 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
                           >
                             Segment {index + 1}
                           </label>
-                          {hasConflict && (
+                          {hasOverlap && (
                             <TooltipProvider>
                               <Tooltip>
                                 <TooltipTrigger>
@@ -749,6 +800,12 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
                               </Tooltip>
                             </TooltipProvider>
                           )}
+                          {!!guardrails?.blackouts.length && (
+                            <Badge className="bg-destructive text-destructive-foreground text-xs">Blackout</Badge>
+                          )}
+                          {!!guardrails?.staffing.length && (
+                            <Badge className="bg-destructive text-destructive-foreground text-xs">Understaffed</Badge>
+                          )}
                           {!hasConflict && (
                             <Badge className="bg-success text-success-foreground text-xs">
                               No Conflict
@@ -756,10 +813,10 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
                           )}
                         </div>
                         <p className="text-sm text-muted-foreground mb-1">
-                          {format(new Date(split.start_date), 'MMM dd, yyyy')} → {format(new Date(split.end_date), 'MMM dd, yyyy')} ({split.days} days)
+                          {format(new Date(split.start_date), 'MMM dd, yyyy')} → {format(new Date(split.end_date), 'MMM dd, yyyy')} ({formatVacationSplitDuration(split)})
                         </p>
                         
-                        {hasConflict && conflicts && conflicts.length > 0 && (
+                        {hasOverlap && conflicts && conflicts.length > 0 && (
                           <div className="mt-2 p-3 bg-background rounded-md border border-warning/20">
                             <p className="text-xs font-medium text-warning mb-2">Conflicting Staff:</p>
                             <div className="space-y-1">
@@ -767,13 +824,19 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
                                 <div key={cpIdx} className="text-xs text-muted-foreground pl-3 border-l-2 border-warning">
                                   <p className="font-medium">{cp.staff_name}</p>
                                   <p>
-                                    {format(new Date(cp.start_date), 'MMM dd')} - {format(new Date(cp.end_date), 'MMM dd, yyyy')} ({cp.days} days)
+                                    {format(new Date(cp.start_date), 'MMM dd')} - {format(new Date(cp.end_date), 'MMM dd, yyyy')} ({formatVacationSplitDuration(cp)})
                                   </p>
                                 </div>
                               ))}
                             </div>
                           </div>
                         )}
+
+                        {guardrails && (
+                          <div className="mt-2">
+                            <VacationGuardrailIssues issue={guardrails} />
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -796,7 +859,8 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
                 required
               />
               <p className="text-sm text-muted-foreground">
-                By providing a reason, you acknowledge responsibility for approving segments with overlapping vacations.
+                By providing a reason, you acknowledge responsibility for approving segments with overlapping vacations,
+                blackout periods or staffing shortages.
               </p>
             </div>
           </div>
@@ -822,7 +886,7 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
         </DialogContent>
       </Dialog>
 
-      {/* Level 2 & 3 Previous Conflict Acknowledgment Dialog */}
+      {/* Later Level Previous Conflict Acknowledgment Dialog */}
       <Dialog open={showPreviousConflictDialog} onOpenChange={setShowPreviousConflictDialog}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
@@ -831,8 +895,7 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
               Previous Level Conflicts Detected
             </DialogTitle>
             <DialogDescription>
-              This vacation plan was previously approved with conflicts by{' '}
-              {approvalLevel === 2 ? 'Level 1 (Department Head)' : 'previous approval levels'}.
+              This vacation plan was previously approved with conflicts at previous approval levels.
               You must acknowledge these conflicts before proceeding with your approval.
             </DialogDescription>
           </DialogHeader>
@@ -846,7 +909,7 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
                       Level {conflict.approval_level}
                     </Badge>
                     <span className="font-medium">
-                      {conflict.profiles?.full_name}
+                      {formatApproverName(conflict)}
                     </span>
                   </div>
                   
@@ -857,13 +920,19 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
                         <div key={idx} className="text-sm pl-4 border-l-2 border-warning">
                           <p className="font-medium">{cp.staff_name}</p>
                           <p className="text-muted-foreground">
-                            {format(new Date(cp.start_date), 'MMM dd')} - {format(new Date(cp.end_date), 'MMM dd, yyyy')} ({cp.days} days)
+                            {format(new Date(cp.start_date), 'MMM dd')} - {format(new Date(cp.end_date), 'MMM dd, yyyy')} ({formatVacationSplitDuration(cp)})
                           </p>
                         </div>
                       ))}
                     </div>
                   )}
                   
+                  {conflict.guardrail_issues?.map((issue) => (
+                    <div key={issue.split_id} className="mt-2">
+                      <VacationGuardrailIssues issue={issue} />
+                    </div>
+                  ))}
+
                   {conflict.conflict_reason && (
                     <div className="mt-2 p-2 bg-background rounded text-sm">
                       <span className="font-medium">Reason for approval: </span>
@@ -913,9 +982,8 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
                   planId: selectedPlan.id,
                   action: 'approve',
                   comments,
-                  hasConflict: true,
                   conflictReason,
-                  conflictingPlans: [],
+                  splitIds: Array.from(selectedSplits),
                 });
               }}
               disabled={approvalMutation.isPending || !conflictReason.trim()}
@@ -925,6 +993,19 @@ const VacationApprovalWorkflow = ({ approvalLevel, scopeType, scopeId }: Vacatio
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <VacationRuleViolationsDialog
+        open={showRuleDialog}
+        onOpenChange={(open) => {
+          setShowRuleDialog(open);
+          // Return to segment selection so violating segments can be unchecked
+          if (!open && selectedPlan) setShowApprovalDialog(true);
+        }}
+        violations={ruleViolations}
+        canOverride={canAdmin('vacation_planning')}
+        isPending={approvalMutation.isPending}
+        onOverride={confirmRuleOverride}
+      />
     </>
   );
 };
@@ -0,0 +1,424 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Wallet, Save, PlusCircle, History } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { LoadingState } from '@/components/layout';
+import { useVacationBalance } from '@/hooks/useVacationBalance';
+
+const ENTRY_TYPE_LABELS: Record<string, string> = {
+  debit: 'Debit',
+  credit: 'Credit',
+  adjustment: 'Adjustment',
+};
+
+const EntitlementBalance = ({ staffId, vacationTypeId }: { staffId: string; vacationTypeId: string }) => {
+  const { data: balance } = useVacationBalance(staffId, vacationTypeId);
+
+  if (!balance?.tracked) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 text-xs">
+      <Badge variant="outline">Accrued: {balance.accrued}</Badge>
+      <Badge variant="outline">Carried over: {balance.carried_over}</Badge>
+      <Badge variant="outline">Used: {balance.used}</Badge>
+      <Badge variant="outline">Pending: {balance.pending}</Badge>
+      <Badge variant={(balance.available ?? 0) < 0 ? 'destructive' : 'secondary'}>
+        Available: {balance.available}
+      </Badge>
+    </div>
+  );
+};
+
+const VacationBalanceManagement = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [selectedStaff, setSelectedStaff] = useState('');
+  const [entitlementForm, setEntitlementForm] = useState({
+    vacation_type_id: '',
+    annual_days: 0,
+    accrual_method: 'annual',
+    carry_over_cap: 0,
+    effective_from: format(new Date(), 'yyyy-MM-dd'),
+  });
+  const [adjustmentForm, setAdjustmentForm] = useState({
+    vacation_type_id: '',
+    days: 0,
+    reason: '',
+  });
+
+  const { data: staffProfiles, isLoading } = useQuery({
+    queryKey: ['vacation-balance-staff'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .order('full_name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: vacationTypes } = useQuery({
+    queryKey: ['vacation-types'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vacation_types')
+        .select('*')
+        .eq('is_active', true)
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: entitlements } = useQuery({
+    queryKey: ['vacation-entitlements', selectedStaff],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vacation_entitlements')
+        .select('*, vacation_types(name)')
+        .eq('staff_id', selectedStaff);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!selectedStaff,
+  });
+
+  const { data: ledgerEntries } = useQuery({
+    queryKey: ['vacation-balance-ledger', selectedStaff],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vacation_balance_ledger')
+        .select('*, vacation_types(name)')
+        .eq('staff_id', selectedStaff)
+        .order('created_at', { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!selectedStaff,
+  });
+
+  const saveEntitlementMutation = useMutation({
+    mutationFn: async (data: typeof entitlementForm) => {
+      const { error } = await supabase
+        .from('vacation_entitlements')
+        .upsert(
+          { ...data, staff_id: selectedStaff, created_by: user?.id },
+          { onConflict: 'staff_id,vacation_type_id' }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vacation-entitlements'] });
+      queryClient.invalidateQueries({ queryKey: ['vacation-balance'] });
+      toast.success('Entitlement saved');
+    },
+    onError: () => toast.error('Failed to save entitlement'),
+  });
+
+  const addAdjustmentMutation = useMutation({
+    mutationFn: async (data: typeof adjustmentForm) => {
+      const { error } = await supabase.from('vacation_balance_ledger').insert({
+        staff_id: selectedStaff,
+        vacation_type_id: data.vacation_type_id,
+        entry_type: 'adjustment',
+        days: data.days,
+        reason: data.reason,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vacation-balance-ledger'] });
+      queryClient.invalidateQueries({ queryKey: ['vacation-balance'] });
+      toast.success('Balance adjusted');
+      setAdjustmentForm({ vacation_type_id: '', days: 0, reason: '' });
+    },
+    onError: () => toast.error('Failed to adjust balance'),
+  });
+
+  const handleEditEntitlement = (entitlement: Tables<'vacation_entitlements'>) => {
+    setEntitlementForm({
+      vacation_type_id: entitlement.vacation_type_id,
+      annual_days: entitlement.annual_days,
+      accrual_method: entitlement.accrual_method,
+      carry_over_cap: entitlement.carry_over_cap,
+      effective_from: entitlement.effective_from,
+    });
+  };
+
+  const handleSaveEntitlement = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!entitlementForm.vacation_type_id) {
+      toast.error('Please select vacation type');
+      return;
+    }
+    saveEntitlementMutation.mutate(entitlementForm);
+  };
+
+  const handleAddAdjustment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!adjustmentForm.vacation_type_id) {
+      toast.error('Please select vacation type');
+      return;
+    }
+    if (!adjustmentForm.days) {
+      toast.error('Adjustment cannot be zero days');
+      return;
+    }
+    if (!adjustmentForm.reason.trim()) {
+      toast.error('Please provide a reason for the adjustment');
+      return;
+    }
+    addAdjustmentMutation.mutate(adjustmentForm);
+  };
+
+  if (isLoading) return <LoadingState message="Loading staff..." />;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Vacation Balances
+          </CardTitle>
+          <CardDescription>
+            Manage per-type entitlements, accrual and carry-over, and record manual adjustments
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Label>Staff Member</Label>
+          <Select value={selectedStaff} onValueChange={setSelectedStaff}>
+            <SelectTrigger className="w-full max-w-md">
+              <SelectValue placeholder="Select staff" />
+            </SelectTrigger>
+            <SelectContent>
+              {staffProfiles?.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.full_name} ({profile.email})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      {selectedStaff && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Entitlements</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <form onSubmit={handleSaveEntitlement} className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                <div>
+                  <Label>Vacation Type</Label>
+                  <Select
+                    value={entitlementForm.vacation_type_id}
+                    onValueChange={(value) => setEntitlementForm({ ...entitlementForm, vacation_type_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {vacationTypes?.map((type) => (
+                        <SelectItem key={type.id} value={type.id}>
+                          {type.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="annual_days">Annual Entitlement (days)</Label>
+                  <Input
+                    id="annual_days"
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={entitlementForm.annual_days}
+                    onChange={(e) =>
+                      setEntitlementForm({ ...entitlementForm, annual_days: parseFloat(e.target.value) || 0 })
+                    }
+                  />
+                </div>
+                <div>
+                  <Label>Accrual</Label>
+                  <Select
+                    value={entitlementForm.accrual_method}
+                    onValueChange={(value) => setEntitlementForm({ ...entitlementForm, accrual_method: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="annual">Full amount at year start</SelectItem>
+                      <SelectItem value="monthly">Monthly accrual</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="carry_over_cap">Carry-over Cap (days)</Label>
+                  <Input
+                    id="carry_over_cap"
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={entitlementForm.carry_over_cap}
+                    onChange={(e) =>
+                      setEntitlementForm({ ...entitlementForm, carry_over_cap: parseFloat(e.target.value) || 0 })
+                    }
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="effective_from">Effective From</Label>
+                  <Input
+                    id="effective_from"
+                    type="date"
+                    value={entitlementForm.effective_from}
+                    onChange={(e) => setEntitlementForm({ ...entitlementForm, effective_from: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-end">
+                  <Button type="submit" disabled={saveEntitlementMutation.isPending}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save Entitlement
+                  </Button>
+                </div>
+              </form>
+
+              <div className="space-y-3">
+                {entitlements?.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    No entitlements configured. Balances are not tracked for this staff member.
+                  </p>
+                )}
+                {entitlements?.map((entitlement) => (
+                  <div
+                    key={entitlement.id}
+                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 border rounded-lg"
+                  >
+                    <div className="space-y-2">
+                      <h3 className="font-semibold">{entitlement.vacation_types?.name}</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {entitlement.annual_days} days/year
+                        {entitlement.accrual_method === 'monthly' ? ' accrued monthly' : ''}
+                        {' · '}carry-over up to {entitlement.carry_over_cap} days
+                        {' · '}since {format(parseISO(entitlement.effective_from), 'PP')}
+                      </p>
+                      <EntitlementBalance staffId={selectedStaff} vacationTypeId={entitlement.vacation_type_id} />
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => handleEditEntitlement(entitlement)}>
+                      Edit
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Manual Adjustment</CardTitle>
+              <CardDescription>Use negative values to deduct days</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleAddAdjustment} className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                <div>
+                  <Label>Vacation Type</Label>
+                  <Select
+                    value={adjustmentForm.vacation_type_id}
+                    onValueChange={(value) => setAdjustmentForm({ ...adjustmentForm, vacation_type_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {entitlements?.map((entitlement) => (
+                        <SelectItem key={entitlement.vacation_type_id} value={entitlement.vacation_type_id}>
+                          {entitlement.vacation_types?.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="adjustment_days">Days</Label>
+                  <Input
+                    id="adjustment_days"
+                    type="number"
+                    step="0.5"
+                    value={adjustmentForm.days}
+                    onChange={(e) => setAdjustmentForm({ ...adjustmentForm, days: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="adjustment_reason">Reason</Label>
+                  <Input
+                    id="adjustment_reason"
+                    value={adjustmentForm.reason}
+                    onChange={(e) => setAdjustmentForm({ ...adjustmentForm, reason: e.target.value })}
+                    placeholder="e.g., Overtime compensation"
+                  />
+                </div>
+                <div className="flex items-end">
+                  <Button type="submit" disabled={addAdjustmentMutation.isPending}>
+                    <PlusCircle className="h-4 w-4 mr-2" />
+                    Add Adjustment
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Ledger History
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {ledgerEntries && ledgerEntries.length > 0 ? (
+                <div className="space-y-2">
+                  {ledgerEntries.map((entry) => (
+                    <div key={entry.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                      <div>
+                        <p className="font-medium">
+                          {entry.vacation_types?.name} · {ENTRY_TYPE_LABELS[entry.entry_type] || entry.entry_type}
+                        </p>
+                        <p className="text-muted-foreground">
+                          {format(new Date(entry.created_at), 'PPp')}
+                          {entry.reason && ` · ${entry.reason}`}
+                        </p>
+                      </div>
+                      <Badge variant={entry.days < 0 ? 'destructive' : 'secondary'}>
+                        {entry.days > 0 ? '+' : ''}{entry.days} days
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No ledger entries yet.</p>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VacationBalanceManagement;
@@ -0,0 +1,73 @@
+import { Badge } from '@/components/ui/badge';
+import { format, parseISO } from 'date-fns';
+import { Wallet } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { VacationBalance } from '@/hooks/useVacationBalance';
+
+interface VacationBalanceSummaryProps {
+  balance?: VacationBalance;
+  requestedDays?: number;
+}
+
+const VacationBalanceSummary = ({ balance, requestedDays = 0 }: VacationBalanceSummaryProps) => {
+  if (!balance) return null;
+
+  if (!balance.tracked) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border p-3 text-sm text-muted-foreground">
+        <Wallet className="h-4 w-4 shrink-0" />
+        No balance is tracked for this vacation type.
+      </div>
+    );
+  }
+
+  const remaining = (balance.available ?? 0) - requestedDays;
+  const isOverdrawn = remaining < 0;
+
+  return (
+    <div className={cn('rounded-lg border p-3 space-y-2', isOverdrawn && 'border-destructive bg-destructive/5')}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Wallet className="h-4 w-4 shrink-0" />
+          Vacation Balance
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {format(parseISO(balance.year_start), 'MMM d, yyyy')} - {format(parseISO(balance.year_end), 'MMM d, yyyy')}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+        <div>
+          <p className="text-xs text-muted-foreground">
+            {balance.accrual_method === 'monthly' ? 'Accrued' : 'Entitlement'}
+          </p>
+          <p className="font-semibold">{balance.accrued}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Carried Over</p>
+          <p className="font-semibold">{balance.carried_over}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Used</p>
+          <p className="font-semibold">{balance.used}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Pending</p>
+          <p className="font-semibold">{balance.pending}</p>
+        </div>
+      </div>
+      {balance.adjustments !== 0 && (
+        <p className="text-xs text-muted-foreground">
+          Includes {balance.adjustments > 0 ? '+' : ''}{balance.adjustments} days of manual adjustments
+        </p>
+      )}
+      <div className="flex items-center justify-between pt-1 border-t">
+        <span className="text-sm">Remaining after this plan</span>
+        <Badge variant={isOverdrawn ? 'destructive' : 'secondary'}>
+          {remaining} days
+        </Badge>
+      </div>
+    </div>
+  );
+};
+
+export default VacationBalanceSummary;
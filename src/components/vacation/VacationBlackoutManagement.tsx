@@ -0,0 +1,294 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { format, parseISO } from 'date-fns';
+import { Ban, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { LoadingState, EmptyState } from '@/components/layout';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { BLACKOUT_SCOPE_LABELS } from '@/lib/vacationGuardrails';
+
+const WORKSPACE_SCOPE = 'workspace';
+
+const EMPTY_FORM = {
+  name: '',
+  start_date: '',
+  end_date: '',
+  reason: '',
+  scope: WORKSPACE_SCOPE,
+};
+
+const VacationBlackoutManagement = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [selectedWorkspaceId, setSelectedWorkspaceId] = useState('');
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useRealtimeSubscription({
+    table: 'vacation_blackout_periods',
+    invalidateQueries: ['vacation-blackout-periods'],
+  });
+
+  const { data: workspaces, isLoading } = useQuery({
+    queryKey: ['blackout-workspaces'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('workspaces')
+        .select('id, name, facilities(id, name, departments(id, name, parent_department_id))')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (!selectedWorkspaceId && workspaces?.length) {
+      setSelectedWorkspaceId(workspaces[0].id);
+    }
+  }, [workspaces, selectedWorkspaceId]);
+
+  const selectedWorkspace = workspaces?.find(w => w.id === selectedWorkspaceId);
+
+  const { data: blackouts, isLoading: blackoutsLoading } = useQuery({
+    queryKey: ['vacation-blackout-periods', selectedWorkspaceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vacation_blackout_periods')
+        .select('*, facilities(name), departments(name)')
+        .eq('workspace_id', selectedWorkspaceId)
+        .order('start_date');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!selectedWorkspaceId,
+  });
+
+  const addBlackoutMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      const [scopeType, scopeId] = data.scope.split(':');
+
+      const { error } = await supabase.from('vacation_blackout_periods').insert({
+        workspace_id: selectedWorkspaceId,
+        facility_id: scopeType === 'facility' ? scopeId : null,
+        department_id: scopeType === 'department' ? scopeId : null,
+        name: data.name.trim(),
+        reason: data.reason.trim() || null,
+        start_date: data.start_date,
+        end_date: data.end_date,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vacation-blackout-periods'] });
+      toast.success('Blackout period added');
+      setFormData(EMPTY_FORM);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to add blackout period'),
+  });
+
+  const deleteBlackoutMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('vacation_blackout_periods').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vacation-blackout-periods'] });
+      toast.success('Blackout period removed');
+    },
+    onError: () => toast.error('Failed to remove blackout period'),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim() || !formData.start_date || !formData.end_date) {
+      toast.error('Please enter a name and date range');
+      return;
+    }
+    if (formData.end_date < formData.start_date) {
+      toast.error('End date cannot be before start date');
+      return;
+    }
+    addBlackoutMutation.mutate(formData);
+  };
+
+  if (isLoading) {
+    return <LoadingState message="Loading blackout periods..." />;
+  }
+
+  if (!workspaces?.length) {
+    return (
+      <EmptyState
+        icon={Ban}
+        title="No Workspace Found"
+        description="Create a workspace to configure blackout periods"
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Ban className="h-5 w-5" />
+            Blackout Periods
+          </CardTitle>
+          <CardDescription>
+            Vacations that fall in a blackout period (e.g. audit weeks or holiday rush) are flagged to
+            approvers, who must acknowledge them like any other conflict.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label>Workspace</Label>
+                <Select
+                  value={selectedWorkspaceId}
+                  onValueChange={(value) => {
+                    setSelectedWorkspaceId(value);
+                    setFormData({ ...formData, scope: WORKSPACE_SCOPE });
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select workspace" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workspaces.map(workspace => (
+                      <SelectItem key={workspace.id} value={workspace.id}>
+                        {workspace.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Applies To</Label>
+                <Select value={formData.scope} onValueChange={(value) => setFormData({ ...formData, scope: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={WORKSPACE_SCOPE}>Entire workspace</SelectItem>
+                    {selectedWorkspace?.facilities?.map(facility => (
+                      <SelectGroup key={facility.id}>
+                        <SelectItem value={`facility:${facility.id}`}>{facility.name}</SelectItem>
+                        {facility.departments
+                          ?.filter(department => !department.parent_department_id)
+                          .map(department => (
+                            <SelectItem key={department.id} value={`department:${department.id}`} className="pl-12">
+                              {department.name}
+                            </SelectItem>
+                          ))}
+                      </SelectGroup>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="blackout-name">Name</Label>
+                <Input
+                  id="blackout-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., Year-end audit"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="blackout-start">Start Date</Label>
+                  <Input
+                    id="blackout-start"
+                    type="date"
+                    value={formData.start_date}
+                    onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="blackout-end">End Date</Label>
+                  <Input
+                    id="blackout-end"
+                    type="date"
+                    value={formData.end_date}
+                    min={formData.start_date}
+                    onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="blackout-reason">Reason</Label>
+              <Textarea
+                id="blackout-reason"
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                placeholder="Shown to approvers when a vacation falls in this period"
+                rows={2}
+              />
+            </div>
+            <Button type="submit" disabled={addBlackoutMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Blackout Period
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Blackout Periods for {selectedWorkspace?.name}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {blackoutsLoading ? (
+            <LoadingState message="Loading blackout periods..." />
+          ) : !blackouts?.length ? (
+            <p className="text-sm text-muted-foreground">No blackout periods configured yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {blackouts.map(blackout => {
+                const scope = blackout.department_id ? 'department' : blackout.facility_id ? 'facility' : 'workspace';
+                return (
+                  <div key={blackout.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                    <div>
+                      <p className="font-medium">{blackout.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {format(parseISO(blackout.start_date), 'PPP')} → {format(parseISO(blackout.end_date), 'PPP')}
+                      </p>
+                      {blackout.reason && (
+                        <p className="text-sm text-muted-foreground">{blackout.reason}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary">
+                        {blackout.departments?.name || blackout.facilities?.name || BLACKOUT_SCOPE_LABELS[scope]}
+                      </Badge>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => deleteBlackoutMutation.mutate(blackout.id)}
+                        disabled={deleteBlackoutMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VacationBlackoutManagement;
@@ -0,0 +1,463 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { formatApproverName } from '@/lib/vacationDelegation';
+import type { VacationApprovalAction } from '@/lib/vacationApproval';
+import {
+  bulkReviewVacationPlans,
+  fetchBulkReviewConflicts,
+  type BulkReviewPlan,
+  type BulkReviewResult,
+} from '@/lib/vacationBulkApproval';
+
+interface BulkApprovalPlan extends BulkReviewPlan {
+  vacation_type_id: string;
+  total_days: number;
+  submitted_at: string | null;
+  amends_plan_id: string | null;
+  departments: { name: string } | null;
+  vacation_types: { name: string } | null;
+  staff_profile: { full_name: string | null } | null;
+  vacation_splits: { id: string; status: string | null; start_date: string; end_date: string }[];
+}
+
+interface VacationBulkApprovalProps {
+  plans: BulkApprovalPlan[];
+  approvalLevel: 1 | 2 | 3;
+  /** Set when reviewing as a delegate for another approver */
+  onBehalfOf?: { id: string; name: string };
+}
+
+const EMPTY_FILTERS = {
+  department: 'all',
+  type: 'all',
+  from: '',
+  to: '',
+  conflicts: 'all',
+};
+
+const VacationBulkApproval = ({ plans, approvalLevel, onBehalfOf }: VacationBulkApprovalProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<VacationApprovalAction | null>(null);
+  const [comments, setComments] = useState('');
+  const [conflictReasons, setConflictReasons] = useState<Record<string, string>>({});
+  const [results, setResults] = useState<(BulkReviewResult & { staffName: string })[] | null>(null);
+
+  const { data: planConflicts, isLoading: conflictsLoading } = useQuery({
+    queryKey: ['bulk-review-conflicts', approvalLevel, plans.map(plan => plan.id)],
+    queryFn: () => fetchBulkReviewConflicts(plans, approvalLevel),
+    enabled: plans.length > 0,
+  });
+
+  const departments = useMemo(
+    () => [...new Map(plans.map(plan => [plan.department_id, plan.departments?.name || 'Unknown'])).entries()],
+    [plans]
+  );
+  const vacationTypes = useMemo(
+    () => [...new Map(plans.map(plan => [plan.vacation_type_id, plan.vacation_types?.name || 'Unknown'])).entries()],
+    [plans]
+  );
+
+  const filteredPlans = plans.filter(plan => {
+    if (filters.department !== 'all' && plan.department_id !== filters.department) return false;
+    if (filters.type !== 'all' && plan.vacation_type_id !== filters.type) return false;
+    if (filters.from || filters.to) {
+      const inRange = plan.vacation_splits.some(split =>
+        (!filters.to || split.start_date <= filters.to) && (!filters.from || split.end_date >= filters.from)
+      );
+      if (!inRange) return false;
+    }
+    const hasConflict = !!planConflicts?.get(plan.id)?.length;
+    if (filters.conflicts === 'with' && !hasConflict) return false;
+    if (filters.conflicts === 'without' && hasConflict) return false;
+    return true;
+  });
+
+  const selectedPlans = filteredPlans.filter(plan => selectedIds.has(plan.id));
+  const conflictingSelected = selectedPlans.filter(plan => planConflicts?.get(plan.id)?.length);
+  const allSelected = filteredPlans.length > 0 && selectedPlans.length === filteredPlans.length;
+
+  const toggleSelected = (planId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(planId)) {
+        next.delete(planId);
+      } else {
+        next.add(planId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(filteredPlans.map(plan => plan.id)));
+  };
+
+  const bulkMutation = useMutation({
+    mutationFn: async (action: VacationApprovalAction) => {
+      let approverName: string | undefined;
+      if (onBehalfOf) {
+        const { data: approverProfile } = await supabase
+          .from('profiles')
+          .select('full_name')
+          .eq('id', user?.id)
+          .single();
+        approverName = formatApproverName({ profiles: approverProfile, delegator: { full_name: onBehalfOf.name } });
+      }
+
+      const bulkResults = await bulkReviewVacationPlans({
+        plans: selectedPlans,
+        approvalLevel,
+        action,
+        comments,
+        conflictReasons,
+        approverName,
+      });
+
+      // Reviewed plans leave the pending list, so keep their names for the summary
+      return bulkResults.map(result => ({
+        ...result,
+        staffName: selectedPlans.find(plan => plan.id === result.planId)?.staff_profile?.full_name || 'Unknown',
+      }));
+    },
+    onSuccess: (bulkResults) => {
+      queryClient.invalidateQueries({ queryKey: ['pending-vacation-plans'] });
+      queryClient.invalidateQueries({ queryKey: ['vacation-plans-list'] });
+      queryClient.invalidateQueries({ queryKey: ['vacation-balance'] });
+
+      const failed = bulkResults.filter(result => !result.success).length;
+      if (failed === 0) {
+        toast.success(`${bulkResults.length} vacation plan${bulkResults.length > 1 ? 's' : ''} processed`);
+      } else {
+        toast.warning(`${bulkResults.length - failed} processed, ${failed} failed`);
+      }
+
+      // Failed plans stay selected so they can be retried
+      setSelectedIds(new Set(bulkResults.filter(result => !result.success).map(result => result.planId)));
+      setResults(bulkResults);
+      setBulkAction(null);
+      setComments('');
+      setConflictReasons({});
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to process approvals'),
+  });
+
+  const confirmBulkAction = () => {
+    if (!bulkAction) return;
+    if (bulkAction === 'reject' && !comments.trim()) {
+      toast.error('Please provide a reason for rejection');
+      return;
+    }
+    bulkMutation.mutate(bulkAction);
+  };
+
+  const getPlanDates = (plan: BulkApprovalPlan) => {
+    const splits = plan.vacation_splits;
+    if (splits.length === 0) return '—';
+    const start = splits.reduce((min, split) => (split.start_date < min ? split.start_date : min), splits[0].start_date);
+    const end = splits.reduce((max, split) => (split.end_date > max ? split.end_date : max), splits[0].end_date);
+    return `${format(parseISO(start), 'MMM dd')} - ${format(parseISO(end), 'MMM dd, yyyy')}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Department</Label>
+          <Select value={filters.department} onValueChange={(value) => setFilters({ ...filters, department: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Departments</SelectItem>
+              {departments.map(([id, name]) => (
+                <SelectItem key={id} value={id}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Vacation Type</Label>
+          <Select value={filters.type} onValueChange={(value) => setFilters({ ...filters, type: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Types</SelectItem>
+              {vacationTypes.map(([id, name]) => (
+                <SelectItem key={id} value={id}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="bulk-from" className="text-xs">From</Label>
+          <Input
+            id="bulk-from"
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="bulk-to" className="text-xs">To</Label>
+          <Input
+            id="bulk-to"
+            type="date"
+            value={filters.to}
+            min={filters.from}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Conflicts</Label>
+          <Select value={filters.conflicts} onValueChange={(value) => setFilters({ ...filters, conflicts: value })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Plans</SelectItem>
+              <SelectItem value="with">With Conflicts</SelectItem>
+              <SelectItem value="without">Without Conflicts</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {selectedPlans.length} of {filteredPlans.length} plans selected
+          {conflictsLoading && ' · checking conflicts...'}
+        </p>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            onClick={() => setBulkAction('approve')}
+            disabled={selectedPlans.length === 0 || conflictsLoading || bulkMutation.isPending}
+          >
+            <CheckCircle2 className="h-4 w-4 mr-2" />
+            Approve Selected
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => setBulkAction('reject')}
+            disabled={selectedPlans.length === 0 || bulkMutation.isPending}
+          >
+            <XCircle className="h-4 w-4 mr-2" />
+            Reject Selected
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <TooltipProvider>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox checked={allSelected} onCheckedChange={toggleAll} aria-label="Select all plans" />
+                </TableHead>
+                <TableHead>Staff</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Days</TableHead>
+                <TableHead>Conflicts</TableHead>
+                <TableHead>Submitted</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredPlans.map(plan => {
+                const conflicts = planConflicts?.get(plan.id) || [];
+                return (
+                  <TableRow key={plan.id} data-state={selectedIds.has(plan.id) ? 'selected' : undefined}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.has(plan.id)}
+                        onCheckedChange={() => toggleSelected(plan.id)}
+                        aria-label={`Select plan for ${plan.staff_profile?.full_name || 'Unknown'}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {plan.staff_profile?.full_name || 'Unknown'}
+                      {plan.amends_plan_id && <Badge variant="outline" className="ml-2">Change Request</Badge>}
+                    </TableCell>
+                    <TableCell>{plan.departments?.name}</TableCell>
+                    <TableCell>{plan.vacation_types?.name}</TableCell>
+                    <TableCell className="whitespace-nowrap">{getPlanDates(plan)}</TableCell>
+                    <TableCell>{plan.total_days}</TableCell>
+                    <TableCell>
+                      {conflicts.length > 0 ? (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Badge variant="outline" className="border-warning text-warning">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              {conflicts.length}
+                            </Badge>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {conflicts.map((conflict, idx) => (
+                              <p key={idx} className="text-xs">{conflict}</p>
+                            ))}
+                          </TooltipContent>
+                        </Tooltip>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">None</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {plan.submitted_at ? format(new Date(plan.submitted_at), 'PP') : '—'}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {filteredPlans.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+                    No pending plans match these filters
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TooltipProvider>
+      </div>
+
+      <Dialog open={!!bulkAction} onOpenChange={(open) => !open && setBulkAction(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {bulkAction === 'approve' ? 'Approve' : 'Reject'} {selectedPlans.length} Vacation Plan{selectedPlans.length > 1 ? 's' : ''}
+            </DialogTitle>
+            <DialogDescription>
+              {bulkAction === 'approve'
+                ? 'All pending segments of the selected plans are approved and each plan moves to the next level of its approval chain.'
+                : 'The selected plans are rejected with the reason below.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="bulk-comments">
+                {bulkAction === 'reject' ? 'Rejection Reason *' : 'Comment (optional)'}
+              </Label>
+              <Textarea
+                id="bulk-comments"
+                value={comments}
+                onChange={(e) => setComments(e.target.value)}
+                placeholder="Shared comment for all selected plans"
+                rows={3}
+              />
+            </div>
+
+            {bulkAction === 'approve' && conflictingSelected.length > 0 && (
+              <div className="space-y-3">
+                <div>
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-warning" />
+                    Conflicts to Acknowledge ({conflictingSelected.length})
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Plans with conflicts are only approved with a reason. Plans left without one are skipped.
+                  </p>
+                </div>
+                {conflictingSelected.map(plan => (
+                  <div key={plan.id} className="p-3 border border-warning/50 rounded-lg space-y-2">
+                    <div>
+                      <p className="text-sm font-medium">
+                        {plan.staff_profile?.full_name || 'Unknown'} · {getPlanDates(plan)}
+                      </p>
+                      {planConflicts?.get(plan.id)?.map((conflict, idx) => (
+                        <p key={idx} className="text-xs text-muted-foreground">{conflict}</p>
+                      ))}
+                    </div>
+                    <Input
+                      value={conflictReasons[plan.id] || ''}
+                      onChange={(e) => setConflictReasons({ ...conflictReasons, [plan.id]: e.target.value })}
+                      placeholder="Reason for approving despite conflicts"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBulkAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={bulkAction === 'reject' ? 'destructive' : 'default'}
+              onClick={confirmBulkAction}
+              disabled={bulkMutation.isPending}
+            >
+              {bulkMutation.isPending
+                ? 'Processing...'
+                : `${bulkAction === 'approve' ? 'Approve' : 'Reject'} ${selectedPlans.length} Plan${selectedPlans.length > 1 ? 's' : ''}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!results} onOpenChange={(open) => !open && setResults(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Bulk Review Results</DialogTitle>
+            <DialogDescription>
+              {results?.filter(result => result.success).length || 0} succeeded,{' '}
+              {results?.filter(result => !result.success).length || 0} failed
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-[400px]">
+            <div className="space-y-2 pr-4">
+              {results?.map(result => (
+                <div key={result.planId} className="flex items-start gap-3 p-2 border rounded-lg">
+                  {result.success ? (
+                    <CheckCircle2 className="h-4 w-4 text-success mt-0.5 shrink-0" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-destructive mt-0.5 shrink-0" />
+                  )}
+                  <div>
+                    <p className="text-sm font-medium">{result.staffName}</p>
+                    <p className="text-xs text-muted-foreground">{result.message}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+          <DialogFooter>
+            <Button onClick={() => setResults(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default VacationBulkApproval;
@@ -13,6 +13,8 @@ import { ErrorState } from '@/components/layout/ErrorState';
 import { format, addDays, isWithinInterval, isSameDay, parseISO } from 'date-fns';
 import { CalendarDays } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { isActiveVacationSplit } from '@/lib/vacationAmendments';
+import { formatVacationSplitDuration } from '@/lib/vacationDayPortions';
 
 interface VacationCalendarViewProps {
   departmentId?: string;
@@ -48,10 +50,11 @@ export default function VacationCalendarView({ departmentId }: VacationCalendarV
           vacation_type_id,
           status,
           total_days,
+          amends_plan_id,
           profiles!vacation_plans_staff_id_fkey(id, full_name, email),
           departments!vacation_plans_department_id_fkey(id, name, facility_id),
           vacation_types(id, name),
-          vacation_splits(id, start_date, end_date, days, status)
+          vacation_splits(id, start_date, end_date, days, day_portion, start_time, end_time, status, change_type)
         `);
 
       // Apply status filter
@@ -92,7 +95,13 @@ export default function VacationCalendarView({ departmentId }: VacationCalendarV
       const { data, error } = await query;
       if (error) throw error;
 
-      return data || [];
+      // Cancelled days and applied changes are not shown
+      return (data || [])
+        .map(vacation => ({
+          ...vacation,
+          vacation_splits: vacation.vacation_splits?.filter(split => isActiveVacationSplit(split, vacation)),
+        }))
+        .filter(vacation => vacation.vacation_splits?.length > 0);
     },
     enabled: !!user && !!roles,
   });
@@ -400,7 +409,7 @@ export default function VacationCalendarView({ departmentId }: VacationCalendarV
                                     </div>
                                     {split && (
                                       <p className="text-xs text-muted-foreground mt-1">
-                                        {format(parseISO(split.start_date), "MMM d")} - {format(parseISO(split.end_date), "MMM d")} ({split.days} days)
+                                        {format(parseISO(split.start_date), "MMM d")} - {format(parseISO(split.end_date), "MMM d")} ({formatVacationSplitDuration(split)})
                                       </p>
                                     )}
                                   </div>
@@ -523,7 +532,7 @@ export default function VacationCalendarView({ departmentId }: VacationCalendarV
                           {format(item.splitStartDate, "MMM d")} - {format(item.splitEndDate, "MMM d, yyyy")}
                         </p>
                         <Badge variant="outline" className="text-xs">
-                          {item.split.days} day{item.split.days > 1 ? 's' : ''}
+                          {formatVacationSplitDuration(item.split)}
                         </Badge>
                       </div>
                     </div>
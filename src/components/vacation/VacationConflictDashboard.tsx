@@ -10,8 +10,13 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { format, parseISO, isWithinInterval } from 'date-fns';
-import { AlertCircle, Calendar, Users, Filter, X } from 'lucide-react';
+import { AlertCircle, Ban, Calendar, Users, Filter, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { isActiveVacationSplit } from '@/lib/vacationAmendments';
+import { fetchVacationGuardrails } from '@/lib/vacationGuardrails';
+import { formatVacationSplitDuration } from '@/lib/vacationDayPortions';
+import VacationGuardrailIssues from './VacationGuardrailIssues';
+import VacationCoverageHeatmap from './VacationCoverageHeatmap';
 
 interface ConflictDashboardProps {
   scopeType?: 'workspace' | 'facility' | 'department' | 'all';
@@ -88,7 +93,7 @@ const VacationConflictDashboard = ({ scopeType = 'all', scopeId }: ConflictDashb
           departments(id, name, facility_id),
           profiles!vacation_plans_staff_id_fkey(full_name, email),
           vacation_splits(*),
-          vacation_approvals(has_conflict, conflict_reason, conflicting_plans)
+          vacation_approvals(has_conflict, conflict_reason, conflicting_plans, guardrail_issues)
         `)
         .in('status', ['department_pending', 'facility_pending', 'workspace_pending', 'approved']);
 
@@ -105,10 +110,18 @@ const VacationConflictDashboard = ({ scopeType = 'all', scopeId }: ConflictDashb
       const { data: plans, error } = await query;
       if (error) throw error;
 
-      if (!plans) return [];
+      if (!plans) return { conflicts: [], guardrails: [] };
+
+      // Only active days count: cancelled periods and applied changes are left out
+      const activePlans = plans
+        .map(plan => ({
+          ...plan,
+          vacation_splits: plan.vacation_splits?.filter(split => isActiveVacationSplit(split, plan)),
+        }))
+        .filter(plan => plan.vacation_splits?.length > 0);
 
       // Group plans by department to find conflicts
-      const departmentGroups = plans.reduce((acc: any, plan: any) => {
+      const departmentGroups = activePlans.reduce((acc: any, plan: any) => {
         const deptId = plan.department_id;
         if (!acc[deptId]) {
           acc[deptId] = [];
@@ -128,6 +141,9 @@ const VacationConflictDashboard = ({ scopeType = 'all', scopeId }: ConflictDashb
           const planSplits = plan.vacation_splits || [];
 
           deptPlans.slice(i + 1).forEach((otherPlan: any) => {
+            // A change request does not conflict with the plan it amends
+            if (plan.amends_plan_id === otherPlan.id || otherPlan.amends_plan_id === plan.id) return;
+
             const otherSplits = otherPlan.vacation_splits || [];
 
             // Check for date overlaps
@@ -182,10 +198,30 @@ const VacationConflictDashboard = ({ scopeType = 'all', scopeId }: ConflictDashb
         });
       });
 
-      return conflicts;
+      // Blackout periods and minimum staffing, checked per split on the server
+      const guardrailIssues = await fetchVacationGuardrails(activePlans.map(plan => plan.id));
+      const guardrails = guardrailIssues
+        .filter(issue =>
+          !(startDate && endDate) || (issue.start_date <= endDate && issue.end_date >= startDate)
+        )
+        .map(issue => {
+          const plan = activePlans.find(p => p.id === issue.plan_id);
+          const acknowledgment = plan?.vacation_approvals?.find(a => a.has_conflict && a.guardrail_issues);
+          return {
+            ...issue,
+            plan,
+            hasAcknowledgment: !!acknowledgment,
+            acknowledgmentReason: acknowledgment?.conflict_reason,
+          };
+        });
+
+      return { conflicts, guardrails };
     },
   });
 
+  const conflicts = conflictData?.conflicts;
+  const guardrails = conflictData?.guardrails;
+
   const clearFilters = () => {
     setStartDate('');
     setEndDate('');
@@ -204,7 +240,7 @@ const VacationConflictDashboard = ({ scopeType = 'all', scopeId }: ConflictDashb
               Vacation Conflict Dashboard
             </CardTitle>
             <CardDescription className="text-xs sm:text-sm">
-              Monitor overlapping vacation schedules across specialties
+              Monitor overlapping vacations, blackout periods and minimum staffing across specialties
             </CardDescription>
           </div>
           {hasActiveFilters && (
@@ -265,14 +301,14 @@ const VacationConflictDashboard = ({ scopeType = 'all', scopeId }: ConflictDashb
         </Card>
 
         {/* Summary Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
           <Card>
             <CardHeader className="pb-2">
               <CardTitle className="text-sm text-muted-foreground">Total Conflicts</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold text-destructive">
-                {conflictData?.length || 0}
+                {conflicts?.length || 0}
               </div>
             </CardContent>
           </Card>
@@ -282,7 +318,7 @@ const VacationConflictDashboard = ({ scopeType = 'all', scopeId }: ConflictDashb
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold text-warning">
-                {conflictData?.filter(c => c.hasAcknowledgment).length || 0}
+                {conflicts?.filter(c => c.hasAcknowledgment).length || 0}
               </div>
             </CardContent>
           </Card>
@@ -292,21 +328,40 @@ const VacationConflictDashboard = ({ scopeType = 'all', scopeId }: ConflictDashb
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold text-destructive">
-                {conflictData?.filter(c => !c.hasAcknowledgment).length || 0}
+                {conflicts?.filter(c => !c.hasAcknowledgment).length || 0}
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground">Blackouts & Staffing</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold text-destructive">
+                {guardrails?.length || 0}
               </div>
             </CardContent>
           </Card>
         </div>
 
+        {/* Coverage Heatmap */}
+        <div className="mb-6">
+          <VacationCoverageHeatmap
+            departmentIds={selectedDepartment !== 'all' ? [selectedDepartment] : departments?.map(d => d.id) || []}
+            startDate={startDate}
+            endDate={endDate}
+          />
+        </div>
+
         {/* Conflicts List */}
         <ScrollArea className="h-[600px]">
           {isLoading ? (
             <div className="text-center py-12">
               <p className="text-muted-foreground">Loading conflicts...</p>
             </div>
-          ) : conflictData && conflictData.length > 0 ? (
+          ) : (conflicts?.length || guardrails?.length) ? (
             <div className="space-y-4">
-              {conflictData.map((conflict) => (
+              {conflicts?.map((conflict) => (
                 <Card key={conflict.id} className={cn(
                   "border-2",
                   conflict.hasAcknowledgment ? "border-warning" : "border-destructive"
@@ -345,7 +400,7 @@ const VacationConflictDashboard = ({ scopeType = 'all', scopeId }: ConflictDashb
                                     {format(parseISO(split.start_date), 'MMM dd, yyyy')} -{' '}
                                     {format(parseISO(split.end_date), 'MMM dd, yyyy')}
                                   </span>
-                                  <span className="text-muted-foreground">({split.days} days)</span>
+                                  <span className="text-muted-foreground">({formatVacationSplitDuration(split)})</span>
                                 </div>
                               ))}
                             </div>
@@ -366,6 +421,63 @@ const VacationConflictDashboard = ({ scopeType = 'all', scopeId }: ConflictDashb
                   </CardContent>
                 </Card>
               ))}
+
+              {guardrails?.map((issue) => (
+                <Card key={issue.split_id} className={cn(
+                  "border-2",
+                  issue.hasAcknowledgment ? "border-warning" : "border-destructive"
+                )}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <div className="space-y-1">
+                        <CardTitle className="text-base flex items-center gap-2">
+                          <Ban className="h-4 w-4" />
+                          {issue.plan?.departments?.name}
+                        </CardTitle>
+                        <CardDescription>
+                          {issue.blackouts.length > 0 && issue.staffing.length > 0
+                            ? 'Falls in a blackout period and below minimum staffing'
+                            : issue.blackouts.length > 0
+                              ? 'Falls in a blackout period'
+                              : 'Below minimum staffing'}
+                        </CardDescription>
+                      </div>
+                      <Badge variant={issue.hasAcknowledgment ? "secondary" : "destructive"}>
+                        {issue.hasAcknowledgment ? 'Acknowledged' : 'Unacknowledged'}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div>
+                      <div className="flex items-center gap-2 mb-2">
+                        <Users className="h-4 w-4 text-muted-foreground" />
+                        <span className="font-semibold">
+                          {issue.plan?.profiles?.full_name || 'Unknown'}
+                        </span>
+                        <Badge variant="outline">{issue.plan?.vacation_types?.name}</Badge>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm ml-6">
+                        <Calendar className="h-3 w-3 text-muted-foreground" />
+                        <span>
+                          {format(parseISO(issue.start_date), 'MMM dd, yyyy')} -{' '}
+                          {format(parseISO(issue.end_date), 'MMM dd, yyyy')}
+                        </span>
+                      </div>
+                    </div>
+
+                    <VacationGuardrailIssues issue={issue} />
+
+                    {issue.hasAcknowledgment && issue.acknowledgmentReason && (
+                      <div className="bg-warning/10 border border-warning p-3 rounded-lg">
+                        <p className="text-sm font-medium text-warning mb-1">Acknowledgment Reason:</p>
+                        <p className="text-sm text-muted-foreground">
+                          {issue.acknowledgmentReason}
+                        </p>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
             </div>
           ) : (
             <div className="text-center py-12 border-2 border-dashed rounded-lg">
@@ -0,0 +1,345 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import { Grid3X3 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { isActiveVacationSplit } from '@/lib/vacationAmendments';
+import { getDayPortionLabel, vacationSplitOverlapsShift } from '@/lib/vacationDayPortions';
+import {
+  COVERAGE_LEVEL_LABELS,
+  COVERAGE_LEVEL_STYLES,
+  PENDING_PLAN_STATUSES,
+  buildCoverageGrid,
+  formatAvailable,
+  type CoverageAbsence,
+  type CoverageAssignment,
+  type CoverageCell,
+  type CoverageLevel,
+  type CoverageUnit,
+} from '@/lib/vacationCoverage';
+
+interface VacationCoverageHeatmapProps {
+  departmentIds: string[];
+  /** Date range from the dashboard filters; defaults to the next four weeks */
+  startDate?: string;
+  endDate?: string;
+}
+
+const NO_PREVIEW = 'none';
+const DEFAULT_DAYS = 28;
+const MAX_DAYS = 62;
+
+const VacationCoverageHeatmap = ({ departmentIds, startDate, endDate }: VacationCoverageHeatmapProps) => {
+  const [whatIfPlanId, setWhatIfPlanId] = useState(NO_PREVIEW);
+  const [selectedCell, setSelectedCell] = useState<{ unit: CoverageUnit; cell: CoverageCell } | null>(null);
+
+  const rangeStart = startDate && endDate ? parseISO(startDate) : startOfDay(new Date());
+  const requestedEnd = startDate && endDate ? parseISO(endDate) : addDays(rangeStart, DEFAULT_DAYS - 1);
+  const rangeEnd = differenceInCalendarDays(requestedEnd, rangeStart) >= MAX_DAYS
+    ? addDays(rangeStart, MAX_DAYS - 1)
+    : requestedEnd;
+  const rangeStartKey = format(rangeStart, 'yyyy-MM-dd');
+  const rangeEndKey = format(rangeEnd, 'yyyy-MM-dd');
+
+  const { data: coverage, isLoading } = useQuery({
+    queryKey: ['vacation-coverage', departmentIds, rangeStartKey, rangeEndKey],
+    queryFn: async () => {
+      const { data: departments, error: departmentsError } = await supabase
+        .from('departments')
+        .select('id, name, min_staffing, parent_department_id')
+        .or(`id.in.(${departmentIds.join(',')}),parent_department_id.in.(${departmentIds.join(',')})`)
+        .order('name');
+      if (departmentsError) throw departmentsError;
+
+      const topLevel = departments.filter(d => !d.parent_department_id && departmentIds.includes(d.id));
+      const topLevelIds = topLevel.map(d => d.id);
+
+      const { data: roles, error: rolesError } = await supabase
+        .from('user_roles')
+        .select('user_id, department_id, specialty_id')
+        .in('department_id', topLevelIds)
+        .in('role', ['staff', 'department_head']);
+      if (rolesError) throw rolesError;
+
+      // Each department row is followed by its specialties
+      const units: CoverageUnit[] = topLevel.flatMap(department => [
+        {
+          id: department.id,
+          name: department.name,
+          min_staffing: department.min_staffing,
+          is_specialty: false,
+          member_ids: [...new Set(roles.filter(r => r.department_id === department.id).map(r => r.user_id))],
+        },
+        ...departments
+          .filter(specialty => specialty.parent_department_id === department.id)
+          .map(specialty => ({
+            id: specialty.id,
+            name: specialty.name,
+            min_staffing: specialty.min_staffing,
+            is_specialty: true,
+            member_ids: [...new Set(roles.filter(r => r.specialty_id === specialty.id).map(r => r.user_id))],
+          })),
+      ]);
+
+      const memberIds = [...new Set(roles.map(r => r.user_id))];
+      if (memberIds.length === 0) {
+        return { units, absences: [], assignments: [], names: {}, pendingPlans: [] };
+      }
+
+      const [profilesResult, plansResult, assignmentsResult] = await Promise.all([
+        supabase.from('profiles').select('id, full_name').in('id', memberIds),
+        supabase
+          .from('vacation_plans')
+          .select('id, staff_id, status, amends_plan_id, vacation_types(name), vacation_splits(id, start_date, end_date, day_portion, start_time, end_time, status, change_type)')
+          .in('staff_id', memberIds)
+          .in('status', [...PENDING_PLAN_STATUSES, 'approved']),
+        supabase
+          .from('shift_assignments')
+          .select('staff_id, assignment_date, shifts(name, start_time, end_time)')
+          .in('staff_id', memberIds)
+          .neq('status', 'cancelled')
+          .gte('assignment_date', rangeStartKey)
+          .lte('assignment_date', rangeEndKey),
+      ]);
+      if (profilesResult.error) throw profilesResult.error;
+      if (plansResult.error) throw plansResult.error;
+      if (assignmentsResult.error) throw assignmentsResult.error;
+
+      const names: Record<string, string> = {};
+      profilesResult.data.forEach(profile => {
+        names[profile.id] = profile.full_name || 'Unknown';
+      });
+
+      const absences: CoverageAbsence[] = plansResult.data.flatMap(plan =>
+        plan.vacation_splits
+          .filter(split => isActiveVacationSplit(split, plan))
+          .filter(split => split.start_date <= rangeEndKey && split.end_date >= rangeStartKey)
+          .map(split => ({
+            plan_id: plan.id,
+            staff_id: plan.staff_id,
+            vacation_type: plan.vacation_types?.name || 'Vacation',
+            plan_status: plan.status,
+            start_date: split.start_date,
+            end_date: split.end_date,
+            day_portion: split.day_portion,
+            start_time: split.start_time,
+            end_time: split.end_time,
+          }))
+      );
+
+      const assignments: CoverageAssignment[] = assignmentsResult.data.map(assignment => ({
+        staff_id: assignment.staff_id,
+        assignment_date: assignment.assignment_date,
+        shift_name: assignment.shifts?.name || 'Shift',
+        start_time: assignment.shifts?.start_time,
+        end_time: assignment.shifts?.end_time,
+      }));
+
+      const pendingPlans = plansResult.data
+        .filter(plan => PENDING_PLAN_STATUSES.includes(plan.status))
+        .filter(plan => absences.some(absence => absence.plan_id === plan.id))
+        .map(plan => ({
+          id: plan.id,
+          label: `${names[plan.staff_id] || 'Unknown'} – ${plan.vacation_types?.name || 'Vacation'}${plan.amends_plan_id ? ' (change request)' : ''}`,
+        }));
+
+      return { units, absences, assignments, names, pendingPlans };
+    },
+    enabled: departmentIds.length > 0,
+  });
+
+  const grid = useMemo(
+    () => coverage
+      ? buildCoverageGrid(
+          coverage.units,
+          coverage.absences,
+          coverage.assignments,
+          parseISO(rangeStartKey),
+          parseISO(rangeEndKey),
+          whatIfPlanId === NO_PREVIEW ? undefined : whatIfPlanId
+        )
+      : [],
+    [coverage, rangeStartKey, rangeEndKey, whatIfPlanId]
+  );
+
+  const staffName = (staffId: string) => coverage?.names[staffId] || 'Unknown';
+  const days = grid[0]?.cells.map(cell => cell.date) || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <Grid3X3 className="h-5 w-5" />
+          Coverage Heatmap
+        </CardTitle>
+        <CardDescription>
+          Staff available per day against minimum staffing, after approved vacations. Days with a schedule
+          count the staff on shifts, and partial-day leave counts by its share. Pending vacations are marked
+          with a dot; select one to preview its approval. Click a day to see who is off.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+          <div className="w-full sm:w-80">
+            <Label htmlFor="coverage-what-if">Preview approval of</Label>
+            <Select value={whatIfPlanId} onValueChange={setWhatIfPlanId}>
+              <SelectTrigger id="coverage-what-if">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PREVIEW}>No pending plan</SelectItem>
+                {coverage?.pendingPlans.map(plan => (
+                  <SelectItem key={plan.id} value={plan.id}>
+                    {plan.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(COVERAGE_LEVEL_LABELS) as CoverageLevel[]).map(level => (
+              <Badge key={level} className={COVERAGE_LEVEL_STYLES[level]}>
+                {COVERAGE_LEVEL_LABELS[level]}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading coverage...</p>
+        ) : grid.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No departments to show</p>
+        ) : (
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 z-10 bg-background p-2 text-left font-medium min-w-[180px]">
+                    Department / Specialty
+                  </th>
+                  {days.map(day => (
+                    <th key={day} className="p-1 font-normal text-muted-foreground min-w-[40px]">
+                      <div>{format(parseISO(day), 'EEE')}</div>
+                      <div>{format(parseISO(day), 'd MMM')}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {grid.map(({ unit, cells }) => (
+                  <tr key={unit.id} className="border-t">
+                    <td className={cn('sticky left-0 z-10 bg-background p-2', unit.is_specialty && 'pl-6 text-muted-foreground')}>
+                      <div className="font-medium">{unit.name}</div>
+                      <div className="text-muted-foreground">
+                        {unit.member_ids.length} staff{unit.min_staffing ? ` · min ${unit.min_staffing}` : ''}
+                      </div>
+                    </td>
+                    {cells.map(cell => (
+                      <td key={cell.date} className="p-0.5">
+                        <button
+                          type="button"
+                          onClick={() => setSelectedCell({ unit, cell })}
+                          title={`${formatAvailable(cell.available)} of ${cell.pool} ${cell.scheduled.length > 0 ? 'scheduled' : 'staff'} available` +
+                            (unit.min_staffing ? ` (min ${unit.min_staffing})` : '') +
+                            `, ${cell.approved.length} approved off, ${cell.pending.length} pending, ` +
+                            `${cell.scheduled.length} shifts. ${formatAvailable(cell.availableIfAllApproved)} available if all pending are approved`}
+                          className={cn(
+                            'relative w-full h-9 rounded font-semibold',
+                            COVERAGE_LEVEL_STYLES[cell.level],
+                            cell.affectedByWhatIf && 'ring-2 ring-primary ring-offset-1'
+                          )}
+                        >
+                          {formatAvailable(cell.available)}
+                          {cell.pending.length > 0 && (
+                            <span className="absolute top-0.5 right-0.5 h-1.5 w-1.5 rounded-full bg-primary" />
+                          )}
+                        </button>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selectedCell} onOpenChange={(open) => !open && setSelectedCell(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          {selectedCell && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {selectedCell.unit.name} – {format(parseISO(selectedCell.cell.date), 'PPPP')}
+                </DialogTitle>
+                <DialogDescription>
+                  {formatAvailable(selectedCell.cell.available)} of {selectedCell.cell.pool}{' '}
+                  {selectedCell.cell.scheduled.length > 0 ? 'scheduled' : 'staff'} available
+                  {selectedCell.unit.min_staffing ? `, minimum ${selectedCell.unit.min_staffing}` : ''}
+                  {' · '}
+                  {COVERAGE_LEVEL_LABELS[selectedCell.cell.level]}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                {[
+                  { title: 'On Approved Vacation', absences: selectedCell.cell.approved },
+                  { title: 'Pending Vacation', absences: selectedCell.cell.pending },
+                ].map(({ title, absences }) => (
+                  <div key={title} className="space-y-2">
+                    <p className="text-sm font-medium">{title} ({absences.length})</p>
+                    {absences.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Nobody</p>
+                    ) : (
+                      absences.map((absence, idx) => (
+                        <div key={`${absence.plan_id}-${idx}`} className="flex items-center justify-between gap-2 p-2 border rounded text-sm">
+                          <span className="font-medium">{staffName(absence.staff_id)}</span>
+                          <span className="text-muted-foreground">
+                            {absence.vacation_type} · {format(parseISO(absence.start_date), 'MMM dd')} - {format(parseISO(absence.end_date), 'MMM dd')}
+                            {getDayPortionLabel(absence) && ` · ${getDayPortionLabel(absence)}`}
+                          </span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                ))}
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Scheduled Shifts ({selectedCell.cell.scheduled.length})</p>
+                  {selectedCell.cell.scheduled.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No shift assignments</p>
+                  ) : (
+                    selectedCell.cell.scheduled.map((assignment, idx) => {
+                      const isOff = [...selectedCell.cell.approved, ...selectedCell.cell.pending]
+                        .some(absence => absence.staff_id === assignment.staff_id &&
+                          vacationSplitOverlapsShift(absence, selectedCell.cell.date, assignment));
+                      return (
+                        <div key={`${assignment.staff_id}-${idx}`} className="flex items-center justify-between gap-2 p-2 border rounded text-sm">
+                          <span className="font-medium">{staffName(assignment.staff_id)}</span>
+                          <div className="flex items-center gap-2">
+                            <span className="text-muted-foreground">{assignment.shift_name}</span>
+                            {isOff && (
+                              <Badge className="bg-destructive text-destructive-foreground">On vacation</Badge>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default VacationCoverageHeatmap;
@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { format, parseISO } from 'date-fns';
+import { UserCheck, Ban } from 'lucide-react';
+import { toast } from 'sonner';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+
+interface VacationDelegationManagementProps {
+  approvalLevel: 1 | 2 | 3;
+  scopeId: string;
+}
+
+// user_roles column holding the scope id at each approval level
+const LEVEL_SCOPE_COLUMNS = {
+  1: 'department_id',
+  2: 'facility_id',
+  3: 'workspace_id',
+} as const;
+
+const VacationDelegationManagement = ({ approvalLevel, scopeId }: VacationDelegationManagementProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [formData, setFormData] = useState({
+    delegate_id: '',
+    start_date: today,
+    end_date: today,
+    reason: '',
+  });
+
+  useRealtimeSubscription({
+    table: 'vacation_approval_delegations',
+    invalidateQueries: ['my-vacation-delegations', 'active-vacation-delegations'],
+  });
+
+  // Colleagues in the same scope who can stand in
+  const { data: candidates } = useQuery({
+    queryKey: ['delegation-candidates', approvalLevel, scopeId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_roles')
+        .select('user_id, role, profiles:user_id(full_name, email)')
+        .eq(LEVEL_SCOPE_COLUMNS[approvalLevel], scopeId)
+        .neq('user_id', user!.id);
+      if (error) throw error;
+
+      const unique = new Map<string, (typeof data)[number]>();
+      data?.forEach(entry => {
+        if (!unique.has(entry.user_id)) unique.set(entry.user_id, entry);
+      });
+      return Array.from(unique.values());
+    },
+    enabled: !!user && !!scopeId,
+  });
+
+  const { data: delegations } = useQuery({
+    queryKey: ['my-vacation-delegations', user?.id, approvalLevel, scopeId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vacation_approval_delegations')
+        .select('*, delegate:profiles!vacation_approval_delegations_delegate_id_fkey(full_name, email)')
+        .eq('delegator_id', user!.id)
+        .eq('approval_level', approvalLevel)
+        .eq('scope_id', scopeId)
+        .order('start_date', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!scopeId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('vacation_approval_delegations').insert({
+        delegator_id: user!.id,
+        delegate_id: formData.delegate_id,
+        approval_level: approvalLevel,
+        scope_id: scopeId,
+        start_date: formData.start_date,
+        end_date: formData.end_date,
+        reason: formData.reason || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-vacation-delegations'] });
+      toast.success('Approval delegation created');
+      setFormData({ delegate_id: '', start_date: today, end_date: today, reason: '' });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to create delegation'),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('vacation_approval_delegations')
+        .update({ is_active: false })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-vacation-delegations'] });
+      toast.success('Delegation revoked');
+    },
+    onError: () => toast.error('Failed to revoke delegation'),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.delegate_id) {
+      toast.error('Please select a delegate');
+      return;
+    }
+    if (!formData.start_date || !formData.end_date || formData.end_date < formData.start_date) {
+      toast.error('End date cannot be before start date');
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  const getDelegationBadge = (delegation: { is_active: boolean; start_date: string; end_date: string }) => {
+    if (!delegation.is_active) return <Badge variant="outline">Revoked</Badge>;
+    if (delegation.end_date < today) return <Badge variant="secondary">Ended</Badge>;
+    if (delegation.start_date > today) return <Badge className="bg-primary text-primary-foreground">Scheduled</Badge>;
+    return <Badge className="bg-success text-success-foreground">Active</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          Approval Delegation
+        </CardTitle>
+        <CardDescription>
+          Name a substitute who reviews vacation requests at your level while you are away.
+          Approval records will show that they acted on your behalf.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <Label>Delegate</Label>
+              <Select
+                value={formData.delegate_id}
+                onValueChange={(value) => setFormData({ ...formData, delegate_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a colleague" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates?.map(candidate => (
+                    <SelectItem key={candidate.user_id} value={candidate.user_id}>
+                      {candidate.profiles?.full_name || 'Unknown User'} ({candidate.profiles?.email || 'No email'})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="delegation-start">From</Label>
+              <Input
+                id="delegation-start"
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="delegation-end">Until</Label>
+              <Input
+                id="delegation-end"
+                type="date"
+                value={formData.end_date}
+                onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="delegation-reason">Reason</Label>
+            <Input
+              id="delegation-reason"
+              value={formData.reason}
+              onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+              placeholder="e.g., Annual leave"
+            />
+          </div>
+          <Button type="submit" disabled={createMutation.isPending}>
+            {createMutation.isPending ? 'Saving...' : 'Delegate Approvals'}
+          </Button>
+        </form>
+
+        {delegations && delegations.length > 0 && (
+          <div className="space-y-2">
+            {delegations.map(delegation => (
+              <div
+                key={delegation.id}
+                className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 border rounded-lg"
+              >
+                <div>
+                  <p className="font-medium">{delegation.delegate?.full_name || 'Unknown User'}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {format(parseISO(delegation.start_date), 'PP')} → {format(parseISO(delegation.end_date), 'PP')}
+                    {delegation.reason && ` · ${delegation.reason}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {getDelegationBadge(delegation)}
+                  {delegation.is_active && delegation.end_date >= today && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => revokeMutation.mutate(delegation.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <Ban className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VacationDelegationManagement;
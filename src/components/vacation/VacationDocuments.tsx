@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Paperclip, Eye, CheckCircle2, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { sendVacationDocumentResubmissionNotification } from '@/lib/vacationNotifications';
+import {
+  ACCEPTED_DOCUMENT_TYPES,
+  DOCUMENT_STATUS_LABELS,
+  deleteVacationDocument,
+  getVacationDocumentUrl,
+  reviewVacationDocument,
+  uploadVacationDocuments,
+  validateVacationDocuments,
+  type VacationDocumentStatus,
+} from '@/lib/vacationDocuments';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface VacationDocumentsProps {
+  planId: string;
+  staffId: string;
+  requiresDocumentation?: boolean;
+  /** Staff member or plan creator adding documents */
+  canUpload?: boolean;
+  /** Approver verifying documents or asking for new ones */
+  canReview?: boolean;
+}
+
+type VacationDocument = Tables<'vacation_documents'>;
+
+const STATUS_STYLES: Record<VacationDocumentStatus, string> = {
+  pending: 'bg-secondary text-secondary-foreground',
+  verified: 'bg-success text-success-foreground',
+  resubmission_requested: 'bg-destructive text-destructive-foreground',
+};
+
+const VacationDocuments = ({
+  planId,
+  staffId,
+  requiresDocumentation = false,
+  canUpload = false,
+  canReview = false,
+}: VacationDocumentsProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [preview, setPreview] = useState<{ document: VacationDocument; url: string } | null>(null);
+  const [resubmitDocument, setResubmitDocument] = useState<VacationDocument | null>(null);
+  const [resubmitReason, setResubmitReason] = useState('');
+
+  const { data: documents } = useQuery({
+    queryKey: ['vacation-documents', planId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vacation_documents')
+        .select('*')
+        .eq('vacation_plan_id', planId)
+        .order('created_at');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['vacation-documents', planId] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const validationError = validateVacationDocuments(files);
+      if (validationError) throw new Error(validationError);
+      await uploadVacationDocuments(planId, files, user!.id);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Documents uploaded');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to upload documents'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (document: VacationDocument) => deleteVacationDocument(document.id, document.file_path),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Document removed');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to remove document'),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ document, status, notes }: {
+      document: VacationDocument;
+      status: Exclude<VacationDocumentStatus, 'pending'>;
+      notes?: string;
+    }) => {
+      await reviewVacationDocument(document.id, status, notes);
+      if (status === 'resubmission_requested') {
+        await sendVacationDocumentResubmissionNotification(planId, staffId, document.file_name, notes || '');
+      }
+    },
+    onSuccess: (_, { status }) => {
+      invalidate();
+      toast.success(status === 'verified' ? 'Document verified' : 'Resubmission requested');
+      setResubmitDocument(null);
+      setResubmitReason('');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to review document'),
+  });
+
+  const openPreview = async (document: VacationDocument) => {
+    try {
+      const url = await getVacationDocumentUrl(document.file_path);
+      setPreview({ document, url });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open document');
+    }
+  };
+
+  const hasUsableDocument = documents?.some(document => document.status !== 'resubmission_requested');
+
+  if (!requiresDocumentation && !documents?.length) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <Paperclip className="h-4 w-4" />
+          Supporting Documents ({documents?.length || 0})
+        </p>
+        {canUpload && (
+          <Label
+            htmlFor={`documents-${planId}`}
+            className={cn(
+              'inline-flex items-center gap-1 text-sm cursor-pointer text-primary hover:underline',
+              uploadMutation.isPending && 'pointer-events-none opacity-50'
+            )}
+          >
+            <Upload className="h-4 w-4" />
+            {uploadMutation.isPending ? 'Uploading...' : 'Upload'}
+            <Input
+              id={`documents-${planId}`}
+              type="file"
+              multiple
+              accept={ACCEPTED_DOCUMENT_TYPES.join(',')}
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                if (files.length > 0) uploadMutation.mutate(files);
+                e.target.value = '';
+              }}
+            />
+          </Label>
+        )}
+      </div>
+
+      {requiresDocumentation && !hasUsableDocument && (
+        <p className="text-sm text-destructive">
+          This vacation type requires supporting documents (e.g. a medical certificate).
+        </p>
+      )}
+
+      {documents?.map((document) => {
+        const status = document.status as VacationDocumentStatus;
+        return (
+          <div key={document.id} className="p-2 border rounded-lg space-y-1">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{document.file_name}</p>
+                <p className="text-xs text-muted-foreground">
+                  Uploaded {format(new Date(document.created_at), 'PPP')}
+                  {document.reviewed_at && ` · Reviewed ${format(new Date(document.reviewed_at), 'PPP')}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Badge className={STATUS_STYLES[status]}>{DOCUMENT_STATUS_LABELS[status]}</Badge>
+                <Button size="sm" variant="ghost" onClick={() => openPreview(document)} title="Preview">
+                  <Eye className="h-4 w-4" />
+                </Button>
+                {canReview && status !== 'verified' && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Mark verified"
+                    disabled={reviewMutation.isPending}
+                    onClick={() => reviewMutation.mutate({ document, status: 'verified' })}
+                  >
+                    <CheckCircle2 className="h-4 w-4" />
+                  </Button>
+                )}
+                {canReview && status !== 'resubmission_requested' && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Request resubmission"
+                    disabled={reviewMutation.isPending}
+                    onClick={() => setResubmitDocument(document)}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                )}
+                {canUpload && document.uploaded_by === user?.id && status !== 'verified' && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Remove"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(document)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            {document.review_notes && (
+              <p className="text-xs text-muted-foreground">Reviewer: {document.review_notes}</p>
+            )}
+          </div>
+        );
+      })}
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh]">
+          <DialogHeader>
+            <DialogTitle>{preview?.document.file_name}</DialogTitle>
+          </DialogHeader>
+          {preview && (preview.document.content_type?.startsWith('image/') ? (
+            <img
+              src={preview.url}
+              alt={preview.document.file_name}
+              className="max-h-[70vh] w-full object-contain"
+            />
+          ) : (
+            <iframe src={preview.url} title={preview.document.file_name} className="w-full h-[70vh] rounded border" />
+          ))}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!resubmitDocument} onOpenChange={(open) => !open && setResubmitDocument(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request New Document</DialogTitle>
+            <DialogDescription>
+              The staff member is notified and the plan cannot be approved until a new document is uploaded.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="resubmit-reason">Reason *</Label>
+            <Textarea
+              id="resubmit-reason"
+              value={resubmitReason}
+              onChange={(e) => setResubmitReason(e.target.value)}
+              placeholder="e.g. The certificate does not cover the requested dates"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResubmitDocument(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!resubmitReason.trim() || reviewMutation.isPending}
+              onClick={() =>
+                resubmitDocument &&
+                reviewMutation.mutate({
+                  document: resubmitDocument,
+                  status: 'resubmission_requested',
+                  notes: resubmitReason.trim(),
+                })
+              }
+            >
+              Request Resubmission
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default VacationDocuments;
@@ -0,0 +1,59 @@
+import { format, parseISO } from 'date-fns';
+import { Ban, Users } from 'lucide-react';
+import {
+  BLACKOUT_SCOPE_LABELS,
+  describeStaffingShortage,
+  type VacationGuardrailIssue,
+} from '@/lib/vacationGuardrails';
+
+interface VacationGuardrailIssuesProps {
+  issue: Pick<VacationGuardrailIssue, 'blackouts' | 'staffing'>;
+}
+
+const VacationGuardrailIssues = ({ issue }: VacationGuardrailIssuesProps) => {
+  if (issue.blackouts.length === 0 && issue.staffing.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {issue.blackouts.length > 0 && (
+        <div className="p-3 bg-background rounded-md border border-destructive/20">
+          <p className="text-xs font-medium text-destructive mb-2 flex items-center gap-1">
+            <Ban className="h-3 w-3" />
+            Blackout Periods:
+          </p>
+          <div className="space-y-1">
+            {issue.blackouts.map((blackout) => (
+              <div key={blackout.id} className="text-xs text-muted-foreground pl-3 border-l-2 border-destructive">
+                <p className="font-medium">
+                  {blackout.name} ({BLACKOUT_SCOPE_LABELS[blackout.scope]})
+                </p>
+                <p>
+                  {format(parseISO(blackout.start_date), 'MMM dd')} - {format(parseISO(blackout.end_date), 'MMM dd, yyyy')}
+                </p>
+                {blackout.reason && <p>{blackout.reason}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {issue.staffing.length > 0 && (
+        <div className="p-3 bg-background rounded-md border border-destructive/20">
+          <p className="text-xs font-medium text-destructive mb-2 flex items-center gap-1">
+            <Users className="h-3 w-3" />
+            Below Minimum Staffing:
+          </p>
+          <div className="space-y-1">
+            {issue.staffing.map((shortage) => (
+              <p key={shortage.department_id} className="text-xs text-muted-foreground pl-3 border-l-2 border-destructive">
+                {describeStaffingShortage(shortage)}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VacationGuardrailIssues;
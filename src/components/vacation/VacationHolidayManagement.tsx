@@ -0,0 +1,470 @@
+import { useState, useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { format, parseISO } from 'date-fns';
+import { CalendarOff, Plus, Trash2, Upload, Save, Repeat } from 'lucide-react';
+import { toast } from 'sonner';
+import { LoadingState, EmptyState } from '@/components/layout';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import {
+  DEFAULT_WORK_WEEK,
+  WEEKDAY_LABELS,
+  WORK_WEEK_PRESETS,
+  parseIcsHolidays,
+  type ParsedHoliday,
+} from '@/lib/workingDays';
+
+const WORKSPACE_SCOPE = 'workspace';
+
+const VacationHolidayManagement = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedWorkspaceId, setSelectedWorkspaceId] = useState('');
+  const [scope, setScope] = useState(WORKSPACE_SCOPE);
+  const [workWeek, setWorkWeek] = useState<number[]>(DEFAULT_WORK_WEEK);
+  const [useWorkspaceWeek, setUseWorkspaceWeek] = useState(true);
+  const [importPreview, setImportPreview] = useState<ParsedHoliday[]>([]);
+  const [formData, setFormData] = useState({
+    name: '',
+    holiday_date: '',
+    is_recurring: false,
+  });
+
+  useRealtimeSubscription({
+    table: 'holidays',
+    invalidateQueries: ['holidays', 'working-day-calendar'],
+  });
+
+  const { data: workspaces, isLoading } = useQuery({
+    queryKey: ['holiday-workspaces'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('workspaces')
+        .select('id, name, work_week_days, facilities(id, name, work_week_days)')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (!selectedWorkspaceId && workspaces?.length) {
+      setSelectedWorkspaceId(workspaces[0].id);
+    }
+  }, [workspaces, selectedWorkspaceId]);
+
+  const selectedWorkspace = workspaces?.find(w => w.id === selectedWorkspaceId);
+  const selectedFacility = scope === WORKSPACE_SCOPE
+    ? undefined
+    : selectedWorkspace?.facilities?.find(f => f.id === scope);
+
+  useEffect(() => {
+    if (!selectedWorkspace) return;
+    if (selectedFacility) {
+      setUseWorkspaceWeek(!selectedFacility.work_week_days);
+      setWorkWeek(selectedFacility.work_week_days || selectedWorkspace.work_week_days);
+    } else {
+      setUseWorkspaceWeek(true);
+      setWorkWeek(selectedWorkspace.work_week_days || DEFAULT_WORK_WEEK);
+    }
+  }, [selectedWorkspace, selectedFacility]);
+
+  const { data: holidays, isLoading: holidaysLoading } = useQuery({
+    queryKey: ['holidays', selectedWorkspaceId, scope],
+    queryFn: async () => {
+      let query = supabase
+        .from('holidays')
+        .select('*')
+        .eq('workspace_id', selectedWorkspaceId)
+        .order('holiday_date');
+
+      query = scope === WORKSPACE_SCOPE ? query.is('facility_id', null) : query.eq('facility_id', scope);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!selectedWorkspaceId,
+  });
+
+  const invalidateCalendars = () => {
+    queryClient.invalidateQueries({ queryKey: ['holidays'] });
+    queryClient.invalidateQueries({ queryKey: ['working-day-calendar'] });
+  };
+
+  const saveWorkWeekMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedWorkspace) throw new Error('No workspace selected');
+
+      const days = selectedFacility && useWorkspaceWeek ? null : workWeek;
+      if (days && days.length === 0) throw new Error('Select at least one working day');
+
+      const { error } = selectedFacility
+        ? await supabase
+            .from('facilities')
+            .update({ work_week_days: days })
+            .eq('id', selectedFacility.id)
+        : await supabase
+            .from('workspaces')
+            .update({ work_week_days: workWeek })
+            .eq('id', selectedWorkspace.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['holiday-workspaces'] });
+      queryClient.invalidateQueries({ queryKey: ['working-day-calendar'] });
+      toast.success('Work week updated');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to update work week'),
+  });
+
+  const addHolidaysMutation = useMutation({
+    mutationFn: async (entries: ParsedHoliday[]) => {
+      const existingDates = new Set(holidays?.map(h => h.holiday_date));
+      const newEntries = entries.filter(
+        (entry, idx) =>
+          !existingDates.has(entry.holiday_date) &&
+          entries.findIndex(e => e.holiday_date === entry.holiday_date) === idx
+      );
+
+      if (newEntries.length > 0) {
+        const { error } = await supabase.from('holidays').insert(
+          newEntries.map(entry => ({
+            ...entry,
+            workspace_id: selectedWorkspaceId,
+            facility_id: scope === WORKSPACE_SCOPE ? null : scope,
+            created_by: user?.id,
+          }))
+        );
+        if (error) throw error;
+      }
+
+      return { added: newEntries.length, skipped: entries.length - newEntries.length };
+    },
+    onSuccess: ({ added, skipped }) => {
+      invalidateCalendars();
+      toast.success(
+        skipped > 0
+          ? `${added} holiday(s) added, ${skipped} skipped as duplicates`
+          : `${added} holiday(s) added`
+      );
+      setFormData({ name: '', holiday_date: '', is_recurring: false });
+      setImportPreview([]);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to add holidays'),
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('holidays').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateCalendars();
+      toast.success('Holiday removed');
+    },
+    onError: () => toast.error('Failed to remove holiday'),
+  });
+
+  const toggleWorkDay = (day: number, checked: boolean) => {
+    setWorkWeek(prev => (checked ? [...prev, day].sort() : prev.filter(d => d !== day)));
+  };
+
+  const handleAddHoliday = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim() || !formData.holiday_date) {
+      toast.error('Please enter a name and date');
+      return;
+    }
+    addHolidaysMutation.mutate([{ ...formData, name: formData.name.trim() }]);
+  };
+
+  const handleIcsFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const parsed = parseIcsHolidays(await file.text());
+    if (parsed.length === 0) {
+      toast.error('No all-day events found in this file');
+    }
+    setImportPreview(parsed);
+    e.target.value = '';
+  };
+
+  if (isLoading) {
+    return <LoadingState message="Loading holiday calendars..." />;
+  }
+
+  if (!workspaces?.length) {
+    return (
+      <EmptyState
+        icon={CalendarOff}
+        title="No Workspace Found"
+        description="Create a workspace to configure holiday calendars"
+      />
+    );
+  }
+
+  const scopeLabel = selectedFacility ? selectedFacility.name : selectedWorkspace?.name;
+  const weekDisabled = !!selectedFacility && useWorkspaceWeek;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarOff className="h-5 w-5" />
+            Holiday Calendar
+          </CardTitle>
+          <CardDescription>
+            Vacation days are counted as working days using the work week and holidays below.
+            Facility holidays apply in addition to the workspace holidays.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label>Workspace</Label>
+              <Select
+                value={selectedWorkspaceId}
+                onValueChange={(value) => {
+                  setSelectedWorkspaceId(value);
+                  setScope(WORKSPACE_SCOPE);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select workspace" />
+                </SelectTrigger>
+                <SelectContent>
+                  {workspaces.map(workspace => (
+                    <SelectItem key={workspace.id} value={workspace.id}>
+                      {workspace.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Applies To</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WORKSPACE_SCOPE}>Entire workspace</SelectItem>
+                  {selectedWorkspace?.facilities?.map(facility => (
+                    <SelectItem key={facility.id} value={facility.id}>
+                      {facility.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <Label>Work Week for {scopeLabel}</Label>
+              {selectedFacility && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="use-workspace-week"
+                    checked={useWorkspaceWeek}
+                    onCheckedChange={setUseWorkspaceWeek}
+                  />
+                  <Label htmlFor="use-workspace-week" className="text-sm font-normal">
+                    Use workspace work week
+                  </Label>
+                </div>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <div key={label} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`work-day-${day}`}
+                    checked={workWeek.includes(day)}
+                    disabled={weekDisabled}
+                    onCheckedChange={(checked) => toggleWorkDay(day, checked === true)}
+                  />
+                  <Label htmlFor={`work-day-${day}`} className="text-sm font-normal">
+                    {label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {WORK_WEEK_PRESETS.map(preset => (
+                <Button
+                  key={preset.label}
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={weekDisabled}
+                  onClick={() => setWorkWeek(preset.days)}
+                >
+                  {preset.label}
+                </Button>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                onClick={() => saveWorkWeekMutation.mutate()}
+                disabled={saveWorkWeekMutation.isPending}
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {saveWorkWeekMutation.isPending ? 'Saving...' : 'Save Work Week'}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Holiday</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleAddHoliday} className="space-y-4">
+              <div>
+                <Label htmlFor="holiday-name">Name</Label>
+                <Input
+                  id="holiday-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., New Year's Day"
+                />
+              </div>
+              <div>
+                <Label htmlFor="holiday-date">Date</Label>
+                <Input
+                  id="holiday-date"
+                  type="date"
+                  value={formData.holiday_date}
+                  onChange={(e) => setFormData({ ...formData, holiday_date: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="holiday-recurring"
+                  checked={formData.is_recurring}
+                  onCheckedChange={(checked) => setFormData({ ...formData, is_recurring: checked })}
+                />
+                <Label htmlFor="holiday-recurring">Repeats every year on this date</Label>
+              </div>
+              <Button type="submit" disabled={addHolidaysMutation.isPending}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Holiday
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Import from Calendar File</CardTitle>
+            <CardDescription>
+              Upload an .ics file exported from a calendar application. All-day events become holidays.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={handleIcsFile}
+            />
+            <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Choose .ics File
+            </Button>
+
+            {importPreview.length > 0 && (
+              <div className="space-y-3">
+                <div className="max-h-60 overflow-y-auto border rounded-lg divide-y">
+                  {importPreview.map((holiday, idx) => (
+                    <div key={idx} className="flex items-center justify-between p-2 text-sm">
+                      <span>{holiday.name}</span>
+                      <span className="text-muted-foreground">
+                        {format(parseISO(holiday.holiday_date), 'PP')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    onClick={() => addHolidaysMutation.mutate(importPreview)}
+                    disabled={addHolidaysMutation.isPending}
+                  >
+                    Import {importPreview.length} Holiday(s)
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setImportPreview([])}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Holidays for {scopeLabel}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {holidaysLoading ? (
+            <LoadingState message="Loading holidays..." />
+          ) : !holidays?.length ? (
+            <p className="text-sm text-muted-foreground">No holidays configured yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {holidays.map(holiday => (
+                <div key={holiday.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <p className="font-medium">{holiday.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {format(parseISO(holiday.holiday_date), holiday.is_recurring ? 'MMMM d' : 'PPP')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {holiday.is_recurring && (
+                      <Badge variant="secondary">
+                        <Repeat className="h-3 w-3 mr-1" />
+                        Yearly
+                      </Badge>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => deleteHolidayMutation.mutate(holiday.id)}
+                      disabled={deleteHolidayMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VacationHolidayManagement;
@@ -1,14 +1,21 @@
 import { Tabs, TabsContent, TabsTrigger } from '@/components/ui/tabs';
-import { Calendar, CheckSquare, AlertTriangle, List, Settings, CalendarDays } from 'lucide-react';
+import { Calendar, CheckSquare, AlertTriangle, List, Settings, CalendarDays, Wallet, CalendarOff, GitBranch, Ban, BarChart3 } from 'lucide-react';
 import VacationPlanner from './VacationPlanner';
 import VacationPlansList from './VacationPlansList';
 import VacationApprovalWorkflow from './VacationApprovalWorkflow';
 import VacationConflictDashboard from './VacationConflictDashboard';
 import VacationTypeManagement from './VacationTypeManagement';
+import VacationHolidayManagement from './VacationHolidayManagement';
+import VacationBlackoutManagement from './VacationBlackoutManagement';
 import VacationCalendarView from './VacationCalendarView';
 import VacationRulesManagement from './VacationRulesManagement';
+import VacationApprovalChainManagement from './VacationApprovalChainManagement';
+import VacationBalanceManagement from './VacationBalanceManagement';
+import VacationReport from './VacationReport';
+import VacationDelegationManagement from './VacationDelegationManagement';
 import { ResponsiveTabsList } from '@/components/layout/ResponsiveTabsList';
 import { useUserRole } from '@/hooks/useUserRole';
+import { useActiveVacationDelegations } from '@/hooks/useVacationDelegations';
 import { ErrorBoundary } from 'react-error-boundary';
 import { ErrorState } from '@/components/layout/ErrorState';
 import { LoadingState } from '@/components/layout/LoadingState';
@@ -17,8 +24,15 @@ interface VacationHubProps {
   departmentId?: string;
 }
 
+const LEVEL_SCOPE_TYPES = {
+  1: 'department',
+  2: 'facility',
+  3: 'workspace',
+} as const;
+
 const VacationHub = ({ departmentId }: VacationHubProps) => {
   const { data: roles, isLoading } = useUserRole();
+  const { data: activeDelegations } = useActiveVacationDelegations();
   const isSuperAdmin = roles?.some(r => r.role === 'super_admin');
   const isStaff = roles?.some(r => r.role === 'staff');
   const isDepartmentHead = roles?.some(r => r.role === 'department_head');
@@ -27,12 +41,15 @@ const VacationHub = ({ departmentId }: VacationHubProps) => {
     return <LoadingState message="Loading vacation planning..." />;
   }
   
-  // Find approver role and determine level (supports 3-level approval workflow)
+  // Find approver role and determine level (levels a plan visits come from its approval chain)
   const approverRole = roles?.find(r => 
     ['department_head', 'facility_supervisor', 'workplace_supervisor'].includes(r.role)
   );
   
-  const isApprover = !!approverRole;
+  const isDelegate = !!activeDelegations?.length;
+  const isApprover = !!approverRole || isDelegate;
+  // General admins review plans escalated to them after an approval deadline
+  const generalAdminRole = roles?.find(r => r.role === 'general_admin' && r.workspace_id);
 
   const getApprovalInfo = () => {
     if (!approverRole) return null;
@@ -96,7 +113,7 @@ const VacationHub = ({ departmentId }: VacationHubProps) => {
               <span className="xs:hidden">Dept</span>
             </TabsTrigger>
           )}
-          {isApprover && (
+          {(isApprover || generalAdminRole) && (
             <TabsTrigger value="approvals" className="min-h-[44px] px-3 text-sm">
               <CheckSquare className="h-4 w-4 mr-1.5 sm:mr-2" />
               <span className="hidden sm:inline">Approvals</span>
@@ -116,10 +133,30 @@ const VacationHub = ({ departmentId }: VacationHubProps) => {
                 <Settings className="h-4 w-4 mr-1.5 sm:mr-2" />
                 <span className="hidden sm:inline">Types</span>
               </TabsTrigger>
+              <TabsTrigger value="holidays" className="min-h-[44px] px-3 text-sm">
+                <CalendarOff className="h-4 w-4 mr-1.5 sm:mr-2" />
+                <span className="hidden sm:inline">Holidays</span>
+              </TabsTrigger>
+              <TabsTrigger value="blackouts" className="min-h-[44px] px-3 text-sm">
+                <Ban className="h-4 w-4 mr-1.5 sm:mr-2" />
+                <span className="hidden sm:inline">Blackouts</span>
+              </TabsTrigger>
               <TabsTrigger value="rules" className="min-h-[44px] px-3 text-sm">
                 <Settings className="h-4 w-4 mr-1.5 sm:mr-2" />
                 <span className="hidden sm:inline">Rules</span>
               </TabsTrigger>
+              <TabsTrigger value="approval-chains" className="min-h-[44px] px-3 text-sm">
+                <GitBranch className="h-4 w-4 mr-1.5 sm:mr-2" />
+                <span className="hidden sm:inline">Approval Chains</span>
+              </TabsTrigger>
+              <TabsTrigger value="balances" className="min-h-[44px] px-3 text-sm">
+                <Wallet className="h-4 w-4 mr-1.5 sm:mr-2" />
+                <span className="hidden sm:inline">Balances</span>
+              </TabsTrigger>
+              <TabsTrigger value="reports" className="min-h-[44px] px-3 text-sm">
+                <BarChart3 className="h-4 w-4 mr-1.5 sm:mr-2" />
+                <span className="hidden sm:inline">Reports</span>
+              </TabsTrigger>
             </>
           )}
         </ResponsiveTabsList>
@@ -136,13 +173,49 @@ const VacationHub = ({ departmentId }: VacationHubProps) => {
           <VacationPlansList staffView={true} />
         </TabsContent>
 
-        {isApprover && approvalInfo && (
-          <TabsContent value="approvals">
-            <VacationApprovalWorkflow 
-              approvalLevel={approvalInfo.approvalLevel}
-              scopeType={approvalInfo.scopeType}
-              scopeId={approvalInfo.scopeId}
-            />
+        {(isApprover || generalAdminRole) && (
+          <TabsContent value="approvals" className="space-y-6">
+            {approvalInfo && (
+              <>
+                <VacationApprovalWorkflow 
+                  approvalLevel={approvalInfo.approvalLevel}
+                  scopeType={approvalInfo.scopeType}
+                  scopeId={approvalInfo.scopeId}
+                />
+                <VacationDelegationManagement
+                  approvalLevel={approvalInfo.approvalLevel}
+                  scopeId={approvalInfo.scopeId}
+                />
+              </>
+            )}
+            {activeDelegations?.map((delegation) => {
+              const level = delegation.approval_level as 1 | 2 | 3;
+              return (
+                <VacationApprovalWorkflow
+                  key={delegation.id}
+                  approvalLevel={level}
+                  scopeType={LEVEL_SCOPE_TYPES[level]}
+                  scopeId={delegation.scope_id}
+                  onBehalfOf={{ id: delegation.delegator_id, name: delegation.delegator?.full_name || 'Unknown' }}
+                />
+              );
+            })}
+            {generalAdminRole && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Vacation plans escalated to the workspace general admins appear here
+                </p>
+                {([1, 2, 3] as const).map((level) => (
+                  <VacationApprovalWorkflow
+                    key={`escalated-${level}`}
+                    approvalLevel={level}
+                    scopeType="workspace"
+                    scopeId={generalAdminRole.workspace_id!}
+                    escalated
+                  />
+                ))}
+              </>
+            )}
           </TabsContent>
         )}
 
@@ -163,9 +236,24 @@ const VacationHub = ({ departmentId }: VacationHubProps) => {
             <TabsContent value="types">
               <VacationTypeManagement />
             </TabsContent>
+            <TabsContent value="holidays">
+              <VacationHolidayManagement />
+            </TabsContent>
+            <TabsContent value="blackouts">
+              <VacationBlackoutManagement />
+            </TabsContent>
             <TabsContent value="rules">
               <VacationRulesManagement />
             </TabsContent>
+            <TabsContent value="approval-chains">
+              <VacationApprovalChainManagement />
+            </TabsContent>
+            <TabsContent value="balances">
+              <VacationBalanceManagement />
+            </TabsContent>
+            <TabsContent value="reports">
+              <VacationReport />
+            </TabsContent>
           </>
         )}
       </Tabs>
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DEFAULT_PAYROLL_EXPORT_LAYOUT,
+  PAYROLL_DATE_FORMATS,
+  VACATION_REPORT_FIELDS,
+  getDuplicatePayrollHeaders,
+  type PayrollExportColumn,
+  type PayrollExportLayout,
+  type VacationReportField,
+} from '@/lib/vacationReports';
+
+interface VacationPayrollLayoutDialogProps {
+  organizationId: string;
+  layout: PayrollExportLayout;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const VacationPayrollLayoutDialog = ({ organizationId, layout, open, onOpenChange }: VacationPayrollLayoutDialogProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [columns, setColumns] = useState<PayrollExportColumn[]>(layout.columns);
+  const [dateFormat, setDateFormat] = useState(layout.date_format);
+
+  useEffect(() => {
+    if (open) {
+      setColumns(layout.columns);
+      setDateFormat(layout.date_format);
+    }
+  }, [open, layout]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const cleaned = columns.map(column => ({ ...column, header: column.header.trim() }));
+      if (cleaned.length === 0) throw new Error('Add at least one column');
+      if (cleaned.some(column => !column.header)) throw new Error('Every column needs a header');
+      const duplicates = getDuplicatePayrollHeaders(cleaned);
+      if (duplicates.length > 0) {
+        throw new Error(`Column headers must be unique: ${duplicates.join(', ')}`);
+      }
+
+      const { error } = await supabase
+        .from('vacation_payroll_export_layouts')
+        .upsert({
+          organization_id: organizationId,
+          columns: cleaned as unknown as Json,
+          date_format: dateFormat,
+          updated_by: user?.id,
+        }, { onConflict: 'organization_id' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vacation-payroll-layout', organizationId] });
+      toast.success('Payroll export layout saved');
+      onOpenChange(false);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save payroll export layout'),
+  });
+
+  const updateColumn = (index: number, changes: Partial<PayrollExportColumn>) =>
+    setColumns(columns.map((column, i) => (i === index ? { ...column, ...changes } : column)));
+
+  const moveColumn = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= columns.length) return;
+    const next = [...columns];
+    [next[index], next[target]] = [next[target], next[index]];
+    setColumns(next);
+  };
+
+  const addColumn = () => setColumns([...columns, { field: 'staff_name', header: '' }]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Payroll Export Layout</DialogTitle>
+          <DialogDescription>
+            Columns of the payroll export for this organization, in file order
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {columns.map((column, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="w-6 text-sm text-muted-foreground">{index + 1}</span>
+                <Select
+                  value={column.field}
+                  onValueChange={(value) => updateColumn(index, { field: value as VacationReportField })}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(VACATION_REPORT_FIELDS) as VacationReportField[]).map(field => (
+                      <SelectItem key={field} value={field}>{VACATION_REPORT_FIELDS[field]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={column.header}
+                  onChange={(e) => updateColumn(index, { header: e.target.value })}
+                  placeholder={VACATION_REPORT_FIELDS[column.field]}
+                  aria-label={`Header for column ${index + 1}`}
+                />
+                <Button type="button" variant="ghost" size="icon" onClick={() => moveColumn(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveColumn(index, 1)}
+                  disabled={index === columns.length - 1}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setColumns(columns.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={addColumn}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Column
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setColumns(DEFAULT_PAYROLL_EXPORT_LAYOUT.columns);
+                  setDateFormat(DEFAULT_PAYROLL_EXPORT_LAYOUT.date_format);
+                }}
+              >
+                Reset to Default
+              </Button>
+            </div>
+            <div className="space-y-1 w-44">
+              <Label className="text-xs">Date Format</Label>
+              <Select value={dateFormat} onValueChange={setDateFormat}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYROLL_DATE_FORMATS.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save Layout'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VacationPayrollLayoutDialog;
@@ -10,16 +10,43 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { CalendarIcon, Plus, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { fetchVacationBalance, useVacationBalance } from '@/hooks/useVacationBalance';
+import { useWorkingDayCalendar } from '@/hooks/useWorkingDayCalendar';
+import { countWorkingDays } from '@/lib/workingDays';
+import VacationBalanceSummary from './VacationBalanceSummary';
+import VacationRuleViolationsDialog from './VacationRuleViolationsDialog';
+import { useModuleContext } from '@/contexts/ModuleContext';
+import {
+  checkVacationRules,
+  parseRuleViolations,
+  recordVacationRuleOverride,
+  RULE_VIOLATIONS_PREFIX,
+  type VacationRuleViolation,
+} from '@/lib/vacationRules';
+import {
+  ACCEPTED_DOCUMENT_TYPES,
+  uploadVacationDocuments,
+  validateVacationDocuments,
+} from '@/lib/vacationDocuments';
+import {
+  DAY_PORTION_LABELS,
+  getVacationSplitDays,
+  isPartialDaySplit,
+  type VacationDayPortion,
+} from '@/lib/vacationDayPortions';
 
 interface VacationSplit {
   start_date: Date;
   end_date: Date;
   days: number;
+  day_portion: VacationDayPortion;
+  start_time: string;
+  end_time: string;
 }
 
 interface DepartmentStaffMember {
@@ -46,6 +73,11 @@ const VacationPlanner = ({ departmentId, maxSplits = 6, staffOnly = false }: Vac
   const [notes, setNotes] = useState('');
   const [selectedDepartment, setSelectedDepartment] = useState('');
   const [splits, setSplits] = useState<VacationSplit[]>([]);
+  const [documents, setDocuments] = useState<File[]>([]);
+  const [ruleViolations, setRuleViolations] = useState<VacationRuleViolation[]>([]);
+  const [showRuleDialog, setShowRuleDialog] = useState(false);
+  const { canAdmin } = useModuleContext();
+  const canOverrideRules = canAdmin('vacation_planning');
 
   // Fetch current user's role to auto-detect behavior
   const { data: currentUserRole } = useQuery({
@@ -107,6 +139,16 @@ const VacationPlanner = ({ departmentId, maxSplits = 6, staffOnly = false }: Vac
     invalidateQueries: ['vacation-types'],
   });
 
+  useRealtimeSubscription({
+    table: 'vacation_balance_ledger',
+    invalidateQueries: ['vacation-balance'],
+  });
+
+  useRealtimeSubscription({
+    table: 'holidays',
+    invalidateQueries: ['working-day-calendar'],
+  });
+
   const { data: vacationTypes } = useQuery({
     queryKey: ['vacation-types'],
     queryFn: async () => {
@@ -168,6 +210,55 @@ const VacationPlanner = ({ departmentId, maxSplits = 6, staffOnly = false }: Vac
     enabled: Boolean(effectiveDepartmentId && (isDepartmentHead || isSuperAdmin || !effectiveStaffOnly)),
   });
 
+  // Workspace vacation rules for the selected department
+  const { data: workspaceRules } = useQuery({
+    queryKey: ['department-vacation-rules', effectiveDepartmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('departments')
+        .select('facilities(workspaces(max_vacation_splits, min_vacation_notice_days, max_concurrent_vacations))')
+        .eq('id', effectiveDepartmentId)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.facilities?.workspaces || null;
+    },
+    enabled: !!effectiveDepartmentId,
+  });
+
+  const effectiveMaxSplits = workspaceRules?.max_vacation_splits ?? maxSplits;
+
+  // Split days are working days according to the department's work week and holidays
+  const { data: workingDayCalendar } = useWorkingDayCalendar(effectiveDepartmentId);
+
+  const getSplitDays = (split: VacationSplit) => getVacationSplitDays(
+    countWorkingDays(split.start_date, split.end_date, workingDayCalendar?.workWeek, workingDayCalendar?.holidays),
+    split
+  );
+
+  useEffect(() => {
+    if (!workingDayCalendar) return;
+    setSplits(prev => prev.map(split => ({
+      ...split,
+      days: getVacationSplitDays(
+        countWorkingDays(split.start_date, split.end_date, workingDayCalendar.workWeek, workingDayCalendar.holidays),
+        split
+      ),
+    })));
+  }, [workingDayCalendar]);
+
+  // Balance is evaluated for the vacation year of the earliest split
+  const balanceStaffId = effectiveStaffOnly ? user?.id : selectedStaff;
+  const earliestSplitDate = splits.length > 0
+    ? new Date(Math.min(...splits.map(split => split.start_date.getTime())))
+    : undefined;
+  const requestedDays = splits.reduce((sum, split) => sum + split.days, 0);
+  const { data: vacationBalance } = useVacationBalance(balanceStaffId, selectedVacationType, earliestSplitDate);
+  const exceedsBalance = !!vacationBalance?.tracked && requestedDays > (vacationBalance.available ?? 0);
+  const selectedType = vacationTypes?.find(type => type.id === selectedVacationType);
+  const selectedTypeMaxDays = selectedType?.max_days;
+  const requiresDocumentation = !!selectedType?.requires_documentation;
+  const exceedsMaxDays = !!selectedTypeMaxDays && requestedDays > selectedTypeMaxDays;
+
   const createPlanMutation = useMutation({
     mutationFn: async (planData: any) => {
       // Use the effective department ID
@@ -190,6 +281,25 @@ const VacationPlanner = ({ departmentId, maxSplits = 6, staffOnly = false }: Vac
           `You already have a vacation request from ${format(new Date(overlap.start_date), 'PPP')} to ${format(new Date(overlap.end_date), 'PPP')} (${overlap.vacation_type}) that overlaps with this date range. Please modify your existing request or choose different dates.`
         );
       }
+
+      // Re-check the balance server-side right before creating the plan
+      const earliestStart = planData.splits.reduce(
+        (min: string, split: { start_date: string }) => (split.start_date < min ? split.start_date : min),
+        planData.splits[0].start_date
+      );
+      const balance = await fetchVacationBalance(targetStaffId, planData.vacation_type_id, parseISO(earliestStart));
+
+      if (balance.tracked && planData.total_days > (balance.available ?? 0)) {
+        throw new Error(
+          `Insufficient vacation balance: ${balance.available} days available, ${planData.total_days} days requested.`
+        );
+      }
+      
+      // Workspace rules (notice, concurrency, split count) are enforced again on submission
+      const violations = await checkVacationRules(targetDepartmentId, targetStaffId, planData.splits);
+      if (violations.length > 0 && !planData.override_reason) {
+        throw new Error(RULE_VIOLATIONS_PREFIX + JSON.stringify(violations));
+      }
       
       const { data: plan, error: planError } = await supabase
         .from('vacation_plans')
@@ -219,37 +329,71 @@ const VacationPlanner = ({ departmentId, maxSplits = 6, staffOnly = false }: Vac
         if (splitsError) throw splitsError;
       }
 
+      if (violations.length > 0 && planData.override_reason) {
+        await recordVacationRuleOverride(plan.id, 'draft', violations, planData.override_reason, user?.id);
+      }
+
+      // The draft is kept if an upload fails; documents can be added again from the plan list
+      if (planData.documents.length > 0) {
+        try {
+          await uploadVacationDocuments(plan.id, planData.documents, user!.id);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'unknown error';
+          toast.error(`Plan saved as draft, but documents failed to upload: ${message}`);
+        }
+      }
+
       return plan;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['vacation-plans'] });
+      queryClient.invalidateQueries({ queryKey: ['vacation-balance'] });
       toast.success('Vacation plan created');
       resetForm();
     },
     onError: (error: any) => {
+      const violations = parseRuleViolations(error);
+      if (violations) {
+        setRuleViolations(violations);
+        setShowRuleDialog(true);
+        return;
+      }
       console.error('Vacation plan creation error:', error);
       toast.error(error.message || 'Failed to create vacation plan');
     },
   });
 
   const addSplit = () => {
-    if (splits.length >= maxSplits) {
-      toast.error(`Maximum ${maxSplits} splits allowed`);
+    if (splits.length >= effectiveMaxSplits) {
+      toast.error(`Maximum ${effectiveMaxSplits} splits allowed`);
       return;
     }
-    setSplits([
-      ...splits,
-      { start_date: new Date(), end_date: new Date(), days: 1 },
-    ]);
+    setRuleViolations([]);
+    const today = new Date();
+    const split: VacationSplit = {
+      start_date: today,
+      end_date: today,
+      days: 0,
+      day_portion: 'full',
+      start_time: '09:00',
+      end_time: '13:00',
+    };
+    setSplits([...splits, { ...split, days: getSplitDays(split) }]);
   };
 
   const removeSplit = (index: number) => {
+    setRuleViolations([]);
     setSplits(splits.filter((_, i) => i !== index));
   };
 
   const updateSplit = (index: number, field: keyof VacationSplit, value: any) => {
     const newSplits = [...splits];
     newSplits[index] = { ...newSplits[index], [field]: value };
+
+    // Half days and hours cover a single day
+    if (isPartialDaySplit(newSplits[index])) {
+      newSplits[index].end_date = newSplits[index].start_date;
+    }
     
     if (field === 'start_date' || field === 'end_date') {
       const start = new Date(newSplits[index].start_date);
@@ -262,13 +406,12 @@ const VacationPlanner = ({ departmentId, maxSplits = 6, staffOnly = false }: Vac
           toast.error('End date cannot be before start date');
           return;
         }
-        
-        const diffTime = Math.abs(end.getTime() - start.getTime());
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
-        newSplits[index].days = diffDays;
       }
     }
+
+    newSplits[index].days = getSplitDays(newSplits[index]);
     
+    setRuleViolations([]);
     setSplits(newSplits);
   };
 
@@ -278,8 +421,26 @@ const VacationPlanner = ({ departmentId, maxSplits = 6, staffOnly = false }: Vac
     setNotes('');
     setSelectedDepartment('');
     setSplits([]);
+    setDocuments([]);
+    setRuleViolations([]);
   };
 
+  const buildPlanData = () => ({
+    staff_id: selectedStaff,
+    vacation_type_id: selectedVacationType,
+    total_days: requestedDays,
+    notes,
+    splits: splits.map(split => ({
+      start_date: format(split.start_date, 'yyyy-MM-dd'),
+      end_date: format(split.end_date, 'yyyy-MM-dd'),
+      days: split.days,
+      day_portion: split.day_portion,
+      start_time: split.day_portion === 'hours' ? split.start_time : null,
+      end_time: split.day_portion === 'hours' ? split.end_time : null,
+    })),
+    documents: requiresDocumentation ? documents : [],
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -303,19 +464,43 @@ const VacationPlanner = ({ departmentId, maxSplits = 6, staffOnly = false }: Vac
       return;
     }
 
-    const totalDays = splits.reduce((sum, split) => sum + split.days, 0);
-
-    createPlanMutation.mutate({
-      staff_id: selectedStaff,
-      vacation_type_id: selectedVacationType,
-      total_days: totalDays,
-      notes,
-      splits: splits.map(split => ({
-        start_date: format(split.start_date, 'yyyy-MM-dd'),
-        end_date: format(split.end_date, 'yyyy-MM-dd'),
-        days: split.days,
-      })),
-    });
+    if (splits.some(split => split.day_portion === 'hours' && split.end_time <= split.start_time)) {
+      toast.error('End time must be after start time');
+      return;
+    }
+
+    if (splits.some(split => split.days === 0)) {
+      toast.error('Each vacation period must contain at least one working day');
+      return;
+    }
+
+    if (exceedsMaxDays) {
+      toast.error(`Requested ${requestedDays} working days exceeds the maximum of ${selectedTypeMaxDays} days for this vacation type`);
+      return;
+    }
+
+    if (exceedsBalance) {
+      toast.error(`Requested ${requestedDays} days exceeds the available balance of ${vacationBalance?.available} days`);
+      return;
+    }
+
+    if (requiresDocumentation && documents.length === 0) {
+      toast.error('This vacation type requires supporting documents');
+      return;
+    }
+
+    const documentError = requiresDocumentation && validateVacationDocuments(documents);
+    if (documentError) {
+      toast.error(documentError);
+      return;
+    }
+
+    createPlanMutation.mutate(buildPlanData());
+  };
+
+  const handleRuleOverride = (reason: string) => {
+    setShowRuleDialog(false);
+    createPlanMutation.mutate({ ...buildPlanData(), override_reason: reason });
   };
 
   return (
@@ -371,26 +556,47 @@ const VacationPlanner = ({ departmentId, maxSplits = 6, staffOnly = false }: Vac
               <SelectContent>
                 {vacationTypes?.map((type) => (
                   <SelectItem key={type.id} value={type.id}>
-                    {type.name} {type.max_days && `(Max: ${type.max_days} days)`}
+                    {type.name} {type.max_days && `(Max: ${type.max_days} working days)`}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
+            {exceedsMaxDays && (
+              <p className="text-sm text-destructive mt-1">
+                {requestedDays} working days requested, this vacation type allows at most {selectedTypeMaxDays}
+              </p>
+            )}
           </div>
 
+          {balanceStaffId && selectedVacationType && (
+            <VacationBalanceSummary balance={vacationBalance} requestedDays={requestedDays} />
+          )}
+
           <div>
             <div className="flex justify-between items-center mb-2">
-              <Label>Vacation Splits (Up to 6)</Label>
+              <Label>Vacation Splits (Up to {effectiveMaxSplits})</Label>
               <Button type="button" size="sm" onClick={addSplit}>
                 <Plus className="h-4 w-4 mr-1" />
                 Add Split
               </Button>
             </div>
+            {ruleViolations
+              .filter(violation => violation.split_index === null)
+              .map((violation, vIdx) => (
+                <p key={vIdx} className="text-sm text-destructive mb-2">
+                  {violation.message}
+                </p>
+              ))}
             <div className="space-y-4">
               {splits.map((split, index) => (
                 <div key={index} className="border p-3 sm:p-4 rounded-lg space-y-3">
                   <div className="flex justify-between items-center">
-                    <span className="font-semibold text-sm sm:text-base">Split {index + 1}</span>
+                    <span className={cn(
+                      'font-semibold text-sm sm:text-base',
+                      ruleViolations.some(violation => violation.split_index === index) && 'text-destructive'
+                    )}>
+                      Split {index + 1}
+                    </span>
                     <Button
                       type="button"
                       size="sm"
@@ -401,9 +607,27 @@ const VacationPlanner = ({ departmentId, maxSplits = 6, staffOnly = false }: Vac
                       <Trash2 className="h-4 w-4" />
                     </Button>
                   </div>
+                  <div>
+                    <Label className="text-sm">Duration</Label>
+                    <Select
+                      value={split.day_portion}
+                      onValueChange={(value) => updateSplit(index, 'day_portion', value)}
+                    >
+                      <SelectTrigger className="min-h-[44px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(DAY_PORTION_LABELS) as VacationDayPortion[]).map(portion => (
+                          <SelectItem key={portion} value={portion}>
+                            {DAY_PORTION_LABELS[portion]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
                     <div>
-                      <Label className="text-sm">Start Date</Label>
+                      <Label className="text-sm">{split.day_portion === 'full' ? 'Start Date' : 'Date'}</Label>
                       <Popover>
                         <PopoverTrigger asChild>
                           <Button
@@ -431,42 +655,98 @@ const VacationPlanner = ({ departmentId, maxSplits = 6, staffOnly = false }: Vac
                         </PopoverContent>
                       </Popover>
                     </div>
-                    <div>
-                      <Label className="text-sm">End Date</Label>
-                      <Popover>
-                        <PopoverTrigger asChild>
-                          <Button
-                            type="button"
-                            variant="outline"
-                            className={cn(
-                              'w-full justify-start text-left font-normal min-h-[44px] text-sm',
-                              !split.end_date && 'text-muted-foreground'
-                            )}
-                          >
-                            <CalendarIcon className="mr-2 h-4 w-4 shrink-0" />
-                            <span className="truncate">
-                              {split.end_date ? format(split.end_date, 'PP') : 'Pick date'}
-                            </span>
-                          </Button>
-                        </PopoverTrigger>
-                        <PopoverContent className="w-auto p-0 z-50 pointer-events-auto max-w-[calc(100vw-2rem)]" align="start" side="bottom">
-                          <Calendar
-                            mode="single"
-                            selected={split.end_date}
-                            onSelect={(date) => date && updateSplit(index, 'end_date', date)}
-                            initialFocus
-                            className="pointer-events-auto"
+                    {split.day_portion === 'hours' && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <Label className="text-sm" htmlFor={`split-${index}-start-time`}>From</Label>
+                          <Input
+                            id={`split-${index}-start-time`}
+                            type="time"
+                            value={split.start_time}
+                            onChange={(e) => updateSplit(index, 'start_time', e.target.value)}
+                            className="min-h-[44px]"
                           />
-                        </PopoverContent>
-                      </Popover>
-                    </div>
+                        </div>
+                        <div>
+                          <Label className="text-sm" htmlFor={`split-${index}-end-time`}>To</Label>
+                          <Input
+                            id={`split-${index}-end-time`}
+                            type="time"
+                            value={split.end_time}
+                            onChange={(e) => updateSplit(index, 'end_time', e.target.value)}
+                            className="min-h-[44px]"
+                          />
+                        </div>
+                      </div>
+                    )}
+                    {split.day_portion === 'full' && (
+                      <div>
+                        <Label className="text-sm">End Date</Label>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              className={cn(
+                                'w-full justify-start text-left font-normal min-h-[44px] text-sm',
+                                !split.end_date && 'text-muted-foreground'
+                              )}
+                            >
+                              <CalendarIcon className="mr-2 h-4 w-4 shrink-0" />
+                              <span className="truncate">
+                                {split.end_date ? format(split.end_date, 'PP') : 'Pick date'}
+                              </span>
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0 z-50 pointer-events-auto max-w-[calc(100vw-2rem)]" align="start" side="bottom">
+                            <Calendar
+                              mode="single"
+                              selected={split.end_date}
+                              onSelect={(date) => date && updateSplit(index, 'end_date', date)}
+                              initialFocus
+                              className="pointer-events-auto"
+                            />
+                          </PopoverContent>
+                        </Popover>
+                      </div>
+                    )}
                   </div>
-                  <p className="text-sm text-muted-foreground">Days: {split.days}</p>
+                  <p className={cn('text-sm', split.days === 0 ? 'text-destructive' : 'text-muted-foreground')}>
+                    Working days: {split.days}
+                    {split.days === 0 && (split.day_portion === 'hours'
+                      ? ' (enter a time range on a working day)'
+                      : ' (this period only covers weekends or holidays)')}
+                  </p>
+                  {ruleViolations
+                    .filter(violation => violation.split_index === index)
+                    .map((violation, vIdx) => (
+                      <p key={vIdx} className="text-sm text-destructive">
+                        {violation.message}
+                      </p>
+                    ))}
                 </div>
               ))}
             </div>
           </div>
 
+          {requiresDocumentation && (
+            <div>
+              <Label htmlFor="vacation-documents">Supporting Documents *</Label>
+              <Input
+                id="vacation-documents"
+                type="file"
+                multiple
+                accept={ACCEPTED_DOCUMENT_TYPES.join(',')}
+                onChange={(e) => setDocuments(Array.from(e.target.files || []))}
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                {documents.length > 0
+                  ? documents.map(file => file.name).join(', ')
+                  : 'This vacation type requires documentation (e.g. a medical certificate). PDF or image, up to 10 MB each.'}
+              </p>
+            </div>
+          )}
+
           <div>
             <Label>Notes</Label>
             <Textarea
@@ -477,7 +757,7 @@ const VacationPlanner = ({ departmentId, maxSplits = 6, staffOnly = false }: Vac
           </div>
 
           <div className="flex gap-2">
-            <Button type="submit" disabled={createPlanMutation.isPending}>
+            <Button type="submit" disabled={createPlanMutation.isPending || exceedsBalance || exceedsMaxDays}>
               Create Plan
             </Button>
             <Button type="button" variant="outline" onClick={resetForm}>
@@ -485,6 +765,15 @@ const VacationPlanner = ({ departmentId, maxSplits = 6, staffOnly = false }: Vac
             </Button>
           </div>
         </form>
+
+        <VacationRuleViolationsDialog
+          open={showRuleDialog}
+          onOpenChange={setShowRuleDialog}
+          violations={ruleViolations}
+          canOverride={canOverrideRules}
+          isPending={createPlanMutation.isPending}
+          onOverride={handleRuleOverride}
+        />
       </CardContent>
     </Card>
   );
@@ -6,10 +6,21 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { format } from 'date-fns';
-import { Calendar, Send, Trash2, User, AlertCircle } from 'lucide-react';
+import { Calendar, Send, Trash2, User, AlertCircle, FilePenLine } from 'lucide-react';
 import { toast } from 'sonner';
 import VacationApprovalTimeline from './VacationApprovalTimeline';
+import VacationRuleViolationsDialog from './VacationRuleViolationsDialog';
+import VacationAmendmentDialog from './VacationAmendmentDialog';
+import VacationAmendmentHistory from './VacationAmendmentHistory';
+import VacationDocuments from './VacationDocuments';
+import { useModuleContext } from '@/contexts/ModuleContext';
+import { parseRuleViolations, recordVacationRuleOverride, type VacationRuleViolation } from '@/lib/vacationRules';
+import { sendVacationStatusNotification } from '@/lib/vacationNotifications';
+import { describeChain, fetchVacationApprovalChain } from '@/lib/vacationApprovalChain';
+import { formatApproverName } from '@/lib/vacationDelegation';
+import { removeVacationPlanDocuments } from '@/lib/vacationDocuments';
 import { cn } from '@/lib/utils';
+import { formatVacationSplitDuration } from '@/lib/vacationDayPortions';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -32,6 +43,10 @@ const VacationPlansList = ({ departmentId, staffView = false }: VacationPlansLis
   const queryClient = useQueryClient();
   const [deletingPlan, setDeletingPlan] = useState<string | null>(null);
   const [submittingPlan, setSubmittingPlan] = useState<string | null>(null);
+  const [ruleViolationPlan, setRuleViolationPlan] = useState<string | null>(null);
+  const [ruleViolations, setRuleViolations] = useState<VacationRuleViolation[]>([]);
+  const [amendingPlan, setAmendingPlan] = useState<string | null>(null);
+  const { canAdmin } = useModuleContext();
 
   const { data: plans, isLoading } = useQuery({
     queryKey: ['vacation-plans-list', departmentId, staffView, user?.id],
@@ -40,14 +55,17 @@ const VacationPlansList = ({ departmentId, staffView = false }: VacationPlansLis
         .from('vacation_plans')
         .select(`
           *,
-          vacation_types(name),
+          vacation_types(name, requires_documentation),
           departments(name, facility_id, facilities:facility_id(workspace_id)),
           vacation_splits(*),
           vacation_approvals(
             *,
-            profiles:approver_id(full_name, email)
-          )
-        `);
+            profiles:approver_id(full_name, email),
+            delegator:on_behalf_of(full_name)
+          ),
+          vacation_approval_escalations(*)
+        `)
+        .is('amends_plan_id', null);
 
       if (staffView) {
         query = query.eq('staff_id', user?.id);
@@ -58,15 +76,47 @@ const VacationPlansList = ({ departmentId, staffView = false }: VacationPlansLis
       const { data, error } = await query.order('created_at', { ascending: false });
       if (error) throw error;
 
-      // Fetch staff profiles
+      // Change requests are listed under the plan they amend
+      const { data: amendments, error: amendmentsError } = await supabase
+        .from('vacation_plans')
+        .select(`
+          *,
+          vacation_splits(*),
+          vacation_approvals(
+            *,
+            profiles:profiles!vacation_approvals_approver_id_fkey(full_name, email),
+            delegator:profiles!vacation_approvals_on_behalf_of_fkey(full_name)
+          ),
+          vacation_approval_escalations(*)
+        `)
+        .in('amends_plan_id', (data || []).map(plan => plan.id))
+        .order('created_at', { ascending: false });
+      if (amendmentsError) throw amendmentsError;
+
+      const amendmentsWithChains = await Promise.all(
+        (amendments || []).map(async (amendment) => ({
+          ...amendment,
+          approval_chain: await fetchVacationApprovalChain(amendment.id),
+        }))
+      );
+
+      // Fetch staff profiles and approval chains
       const enrichedPlans = await Promise.all(
         (data || []).map(async (plan) => {
-          const { data: staffProfile } = await supabase
-            .from('profiles')
-            .select('full_name, email')
-            .eq('id', plan.staff_id)
-            .single();
-          return { ...plan, staff_profile: staffProfile };
+          const [{ data: staffProfile }, approvalChain] = await Promise.all([
+            supabase
+              .from('profiles')
+              .select('full_name, email')
+              .eq('id', plan.staff_id)
+              .single(),
+            fetchVacationApprovalChain(plan.id),
+          ]);
+          return {
+            ...plan,
+            staff_profile: staffProfile,
+            approval_chain: approvalChain,
+            amendments: amendmentsWithChains.filter(amendment => amendment.amends_plan_id === plan.id),
+          };
         })
       );
 
@@ -76,26 +126,48 @@ const VacationPlansList = ({ departmentId, staffView = false }: VacationPlansLis
   });
 
   const submitMutation = useMutation({
-    mutationFn: async (planId: string) => {
-      const { error } = await supabase
+    mutationFn: async ({ planId, overrideReason }: { planId: string; overrideReason?: string }) => {
+      if (overrideReason) {
+        await recordVacationRuleOverride(planId, 'draft', ruleViolations, overrideReason, user?.id);
+      }
+
+      // The approval chain routes the plan to its first level
+      const { data: submitted, error } = await supabase
         .from('vacation_plans')
         .update({ status: 'department_pending', submitted_at: new Date().toISOString() })
-        .eq('id', planId);
+        .eq('id', planId)
+        .select('status')
+        .single();
       if (error) throw error;
+
+      const plan = plans?.find(p => p.id === planId);
+      if (plan) {
+        await sendVacationStatusNotification(planId, submitted.status, plan.staff_id);
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['vacation-plans-list'] });
-      toast.success('Vacation plan submitted to Department Head for approval');
+      toast.success('Vacation plan submitted for approval');
       setSubmittingPlan(null);
+      setRuleViolationPlan(null);
+      setRuleViolations([]);
     },
-    onError: (error: any) => {
-      toast.error(error.message || 'Failed to submit vacation plan');
+    onError: (error: any, { planId }) => {
+      const violations = parseRuleViolations(error);
+      if (violations) {
+        setRuleViolations(violations);
+        setRuleViolationPlan(planId);
+      } else {
+        toast.error(error.message || 'Failed to submit vacation plan');
+      }
       setSubmittingPlan(null);
     },
   });
 
   const deleteMutation = useMutation({
     mutationFn: async (planId: string) => {
+      await removeVacationPlanDocuments(planId);
+
       const { error } = await supabase
         .from('vacation_plans')
         .delete()
@@ -118,6 +190,7 @@ const VacationPlansList = ({ departmentId, staffView = false }: VacationPlansLis
       workspace_pending: { label: 'Pending Final', className: 'bg-secondary text-secondary-foreground' },
       approved: { label: 'Approved', className: 'bg-success text-success-foreground' },
       rejected: { label: 'Rejected', className: 'bg-destructive text-destructive-foreground' },
+      cancelled: { label: 'Cancelled', className: 'bg-muted text-muted-foreground' },
     };
     const config = configs[status as keyof typeof configs] || configs.draft;
     return <Badge className={config.className}>{config.label}</Badge>;
@@ -145,6 +218,7 @@ const VacationPlansList = ({ departmentId, staffView = false }: VacationPlansLis
           <div className="space-y-4">
             {plans?.map((plan) => {
               const hasConflicts = plan.vacation_approvals?.some((a: any) => a.has_conflict);
+              const hasPendingAmendment = plan.amendments.some(amendment => amendment.status.endsWith('_pending'));
               
               return (
                 <Card key={plan.id} className="border-2">
@@ -167,7 +241,7 @@ const VacationPlansList = ({ departmentId, staffView = false }: VacationPlansLis
                                     Level {approval.approval_level}
                                   </Badge>
                                   <span className="font-medium">
-                                    {approval.profiles?.full_name}
+                                    {formatApproverName(approval)}
                                   </span>
                                 </div>
                                 {approval.conflicting_plans && Array.isArray(approval.conflicting_plans) && (
@@ -284,9 +358,10 @@ const VacationPlansList = ({ departmentId, staffView = false }: VacationPlansLis
                           <div
                             key={split.id}
                             className={cn(
-                              "flex items-center justify-between p-2 rounded",
+                              "flex flex-wrap items-center justify-between gap-1 p-2 rounded",
                               split.status === 'approved' && "bg-success/10 border border-success",
                               split.status === 'rejected' && "bg-destructive/10 border border-destructive",
+                              split.status === 'cancelled' && "bg-muted text-muted-foreground line-through",
                               split.status === 'pending' && "bg-accent"
                             )}
                           >
@@ -297,23 +372,42 @@ const VacationPlansList = ({ departmentId, staffView = false }: VacationPlansLis
                             </span>
                             <div className="flex items-center gap-2">
                               <span className="text-sm text-muted-foreground">
-                                {split.days} days
+                                {formatVacationSplitDuration(split)}
                               </span>
                               {split.status && split.status !== 'pending' && (
                                 <Badge className={cn(
                                   split.status === 'approved' && 'bg-success text-success-foreground',
-                                  split.status === 'rejected' && 'bg-destructive text-destructive-foreground'
+                                  split.status === 'rejected' && 'bg-destructive text-destructive-foreground',
+                                  split.status === 'cancelled' && 'bg-muted text-muted-foreground'
                                 )}>
-                                  {split.status === 'approved' ? '✓ Approved' : '✗ Rejected'}
+                                  {split.status === 'approved' ? '✓ Approved' : split.status === 'cancelled' ? 'Cancelled' : '✗ Rejected'}
                                 </Badge>
                               )}
                             </div>
+                            {ruleViolationPlan === plan.id &&
+                              ruleViolations
+                                .filter((violation) => violation.split_id === split.id)
+                                .map((violation, vIdx) => (
+                                  <p key={vIdx} className="basis-full text-xs text-destructive">
+                                    {violation.message}
+                                  </p>
+                                ))}
                           </div>
                         ))}
                       </div>
                     </div>
                   )}
 
+                  <VacationDocuments
+                    planId={plan.id}
+                    staffId={plan.staff_id}
+                    requiresDocumentation={!!plan.vacation_types?.requires_documentation}
+                    canUpload={
+                      ['draft', 'department_pending', 'facility_pending', 'workspace_pending'].includes(plan.status) &&
+                      (plan.created_by === user?.id || plan.staff_id === user?.id)
+                    }
+                  />
+
                   {plan.status !== 'draft' && (
                     <div className="border-t pt-4">
                       <VacationApprovalTimeline
@@ -322,10 +416,33 @@ const VacationPlansList = ({ departmentId, staffView = false }: VacationPlansLis
                         departmentId={plan.department_id}
                         facilityId={plan.departments?.facility_id}
                         workspaceId={plan.departments?.facilities?.workspace_id}
+                        approvalChain={plan.approval_chain}
+                        escalations={plan.vacation_approval_escalations}
                       />
                     </div>
                   )}
 
+                  <VacationAmendmentHistory
+                    amendments={plan.amendments}
+                    departmentId={plan.department_id}
+                    facilityId={plan.departments?.facility_id}
+                    workspaceId={plan.departments?.facilities?.workspace_id}
+                    getStatusBadge={getStatusBadge}
+                  />
+
+                  {plan.status === 'approved' &&
+                   (plan.created_by === user?.id || plan.staff_id === user?.id) && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => setAmendingPlan(plan.id)}
+                      disabled={hasPendingAmendment}
+                    >
+                      <FilePenLine className="h-4 w-4 mr-2" />
+                      {hasPendingAmendment ? 'Change Request Pending' : 'Request Change or Cancellation'}
+                    </Button>
+                  )}
+
                   {plan.status === 'draft' && 
                    (plan.created_by === user?.id || plan.staff_id === user?.id) && (
                     <div className="flex gap-2 pt-2">
@@ -371,14 +488,15 @@ const VacationPlansList = ({ departmentId, staffView = false }: VacationPlansLis
           <AlertDialogHeader>
             <AlertDialogTitle>Submit Vacation Plan?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will submit the vacation plan to the Department Head for Level 1 approval. 
+              This will submit the vacation plan to the first level of its approval chain
+              ({describeChain(plans?.find(p => p.id === submittingPlan)?.approval_chain || [])}).
               You won't be able to edit it after submission.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction
-              onClick={() => submittingPlan && submitMutation.mutate(submittingPlan)}
+              onClick={() => submittingPlan && submitMutation.mutate({ planId: submittingPlan })}
             >
               Submit
             </AlertDialogAction>
@@ -405,6 +523,23 @@ const VacationPlansList = ({ departmentId, staffView = false }: VacationPlansLis
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <VacationAmendmentDialog
+        open={!!amendingPlan}
+        onOpenChange={(open) => !open && setAmendingPlan(null)}
+        plan={plans?.find(p => p.id === amendingPlan) || null}
+      />
+
+      <VacationRuleViolationsDialog
+        open={!!ruleViolationPlan}
+        onOpenChange={(open) => !open && setRuleViolationPlan(null)}
+        violations={ruleViolations}
+        canOverride={canAdmin('vacation_planning')}
+        isPending={submitMutation.isPending}
+        onOverride={(reason) =>
+          ruleViolationPlan && submitMutation.mutate({ planId: ruleViolationPlan, overrideReason: reason })
+        }
+      />
     </>
   );
 };
@@ -0,0 +1,381 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { endOfYear, format, parseISO, startOfYear } from 'date-fns';
+import { FileSpreadsheet, FileText, Settings2, BarChart3 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { EmptyState, LoadingState } from '@/components/layout';
+import {
+  buildVacationExportRows,
+  downloadVacationExport,
+  fetchVacationReport,
+  parsePayrollExportLayout,
+  summarizeVacationReport,
+} from '@/lib/vacationReports';
+import { DAY_PORTION_LABELS } from '@/lib/vacationDayPortions';
+import VacationPayrollLayoutDialog from './VacationPayrollLayoutDialog';
+
+interface VacationReportProps {
+  /** Fixes the report to one organization (organization admins); super admins pick one */
+  organizationId?: string;
+}
+
+const ALL = 'all';
+
+const formatDate = (value: string | null) => (value ? format(parseISO(value), 'MMM d, yyyy') : '—');
+
+const VacationReport = ({ organizationId }: VacationReportProps) => {
+  const today = new Date();
+  const [filters, setFilters] = useState({
+    organization: organizationId || ALL,
+    workspace: ALL,
+    facility: ALL,
+    department: ALL,
+    from: format(startOfYear(today), 'yyyy-MM-dd'),
+    to: format(endOfYear(today), 'yyyy-MM-dd'),
+  });
+  const [exportLayout, setExportLayout] = useState<'report' | 'payroll'>('report');
+  const [layoutDialogOpen, setLayoutDialogOpen] = useState(false);
+
+  const selectedOrganizationId = filters.organization === ALL ? undefined : filters.organization;
+
+  const { data: organizations } = useQuery({
+    queryKey: ['vacation-report-organizations'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('organizations').select('id, name').order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !organizationId,
+  });
+
+  const { data: workspaces } = useQuery({
+    queryKey: ['vacation-report-workspaces', selectedOrganizationId],
+    queryFn: async () => {
+      let query = supabase.from('workspaces').select('id, name').order('name');
+      if (selectedOrganizationId) query = query.eq('organization_id', selectedOrganizationId);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: facilities } = useQuery({
+    queryKey: ['vacation-report-facilities', filters.workspace],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('facilities')
+        .select('id, name')
+        .eq('workspace_id', filters.workspace)
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: filters.workspace !== ALL,
+  });
+
+  const { data: departments } = useQuery({
+    queryKey: ['vacation-report-departments', filters.facility],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('departments')
+        .select('id, name')
+        .eq('facility_id', filters.facility)
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: filters.facility !== ALL,
+  });
+
+  const { data: payrollLayout } = useQuery({
+    queryKey: ['vacation-payroll-layout', selectedOrganizationId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vacation_payroll_export_layouts')
+        .select('columns, date_format')
+        .eq('organization_id', selectedOrganizationId)
+        .maybeSingle();
+      if (error) throw error;
+      return parsePayrollExportLayout(data);
+    },
+    enabled: !!selectedOrganizationId,
+  });
+
+  const { data: rows, isLoading, error } = useQuery({
+    queryKey: ['vacation-report', filters],
+    queryFn: () => fetchVacationReport({
+      organizationId: selectedOrganizationId,
+      workspaceId: filters.workspace === ALL ? undefined : filters.workspace,
+      facilityId: filters.facility === ALL ? undefined : filters.facility,
+      departmentId: filters.department === ALL ? undefined : filters.department,
+      startDate: filters.from,
+      endDate: filters.to,
+    }),
+    enabled: !!filters.from && !!filters.to && filters.from <= filters.to,
+  });
+
+  const summaries = useMemo(() => summarizeVacationReport(rows || []), [rows]);
+
+  const handleExport = (bookType: 'xlsx' | 'csv') => {
+    if (!rows?.length) return;
+    const records = exportLayout === 'payroll' && payrollLayout
+      ? buildVacationExportRows(rows, payrollLayout)
+      : buildVacationExportRows(rows);
+    const prefix = exportLayout === 'payroll' ? 'vacation-payroll' : 'vacation-report';
+    downloadVacationExport(records, `${prefix}-${filters.from}-to-${filters.to}`, bookType);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5 text-primary" />
+          Vacation Report
+        </CardTitle>
+        <CardDescription>
+          Approved leave per person and vacation type, for periods starting in the selected range
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-3">
+          {!organizationId && (
+            <div className="space-y-1">
+              <Label className="text-xs">Organization</Label>
+              <Select
+                value={filters.organization}
+                onValueChange={(value) => {
+                  setFilters({ ...filters, organization: value, workspace: ALL, facility: ALL, department: ALL });
+                  setExportLayout('report');
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All Organizations</SelectItem>
+                  {organizations?.map(organization => (
+                    <SelectItem key={organization.id} value={organization.id}>{organization.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label className="text-xs">Workspace</Label>
+            <Select
+              value={filters.workspace}
+              onValueChange={(value) => setFilters({ ...filters, workspace: value, facility: ALL, department: ALL })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Workspaces</SelectItem>
+                {workspaces?.map(workspace => (
+                  <SelectItem key={workspace.id} value={workspace.id}>{workspace.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Facility</Label>
+            <Select
+              value={filters.facility}
+              onValueChange={(value) => setFilters({ ...filters, facility: value, department: ALL })}
+              disabled={filters.workspace === ALL}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Facilities</SelectItem>
+                {facilities?.map(facility => (
+                  <SelectItem key={facility.id} value={facility.id}>{facility.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Department</Label>
+            <Select
+              value={filters.department}
+              onValueChange={(value) => setFilters({ ...filters, department: value })}
+              disabled={filters.facility === ALL}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Departments</SelectItem>
+                {departments?.map(department => (
+                  <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="report-from" className="text-xs">From</Label>
+            <Input
+              id="report-from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="report-to" className="text-xs">To</Label>
+            <Input
+              id="report-to"
+              type="date"
+              value={filters.to}
+              min={filters.from}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            {rows?.length || 0} approved period{rows?.length === 1 ? '' : 's'} · {summaries.length} staff/type total
+            {summaries.length === 1 ? '' : 's'}
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={exportLayout} onValueChange={(value) => setExportLayout(value as 'report' | 'payroll')}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="report">Full report</SelectItem>
+                <SelectItem value="payroll" disabled={!selectedOrganizationId}>
+                  Payroll layout
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            {selectedOrganizationId && (
+              <Button variant="ghost" size="sm" onClick={() => setLayoutDialogOpen(true)}>
+                <Settings2 className="h-4 w-4 mr-2" />
+                Payroll Layout
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => handleExport('xlsx')} disabled={!rows?.length}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Export XLSX
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={!rows?.length}>
+              <FileText className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <LoadingState message="Loading vacation report..." />
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : 'Failed to load the vacation report'}
+          </p>
+        ) : !rows?.length ? (
+          <EmptyState
+            icon={BarChart3}
+            title="No Approved Leave"
+            description="No approved vacation periods start in the selected range."
+          />
+        ) : (
+          <Tabs defaultValue="summary">
+            <TabsList>
+              <TabsTrigger value="summary">Per Person & Type</TabsTrigger>
+              <TabsTrigger value="periods">Periods</TabsTrigger>
+            </TabsList>
+            <TabsContent value="summary">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Staff</TableHead>
+                    <TableHead>Department</TableHead>
+                    <TableHead>Vacation Type</TableHead>
+                    <TableHead className="text-right">Periods</TableHead>
+                    <TableHead className="text-right">Days Taken</TableHead>
+                    <TableHead className="text-right">Max Days</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summaries.map(summary => (
+                    <TableRow key={`${summary.staff_id}:${summary.vacation_type}`}>
+                      <TableCell className="font-medium">{summary.staff_name}</TableCell>
+                      <TableCell>{summary.department_name}</TableCell>
+                      <TableCell>{summary.vacation_type}</TableCell>
+                      <TableCell className="text-right">{summary.periods}</TableCell>
+                      <TableCell className="text-right">
+                        {summary.max_days !== null && summary.days_taken > summary.max_days ? (
+                          <Badge variant="destructive">{summary.days_taken}</Badge>
+                        ) : (
+                          summary.days_taken
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{summary.max_days ?? '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+            <TabsContent value="periods">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Staff</TableHead>
+                    <TableHead>Department</TableHead>
+                    <TableHead>Vacation Type</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead className="text-right">Days</TableHead>
+                    <TableHead>Submitted</TableHead>
+                    <TableHead>Approved</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.split_id}>
+                      <TableCell className="font-medium">{row.staff_name}</TableCell>
+                      <TableCell>
+                        {row.department_name}
+                        <p className="text-xs text-muted-foreground">{row.facility_name}</p>
+                      </TableCell>
+                      <TableCell>{row.vacation_type}</TableCell>
+                      <TableCell>
+                        {formatDate(row.start_date)} – {formatDate(row.end_date)}
+                        {row.day_portion !== DAY_PORTION_LABELS.full && (
+                          <p className="text-xs text-muted-foreground">{row.day_portion}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{row.days}</TableCell>
+                      <TableCell>{formatDate(row.submitted_at)}</TableCell>
+                      <TableCell>{formatDate(row.approved_at)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+
+      {selectedOrganizationId && payrollLayout && (
+        <VacationPayrollLayoutDialog
+          organizationId={selectedOrganizationId}
+          layout={payrollLayout}
+          open={layoutDialogOpen}
+          onOpenChange={setLayoutDialogOpen}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default VacationReport;
@@ -0,0 +1,110 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { VACATION_RULE_LABELS, type VacationRuleViolation } from '@/lib/vacationRules';
+
+interface VacationRuleViolationsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  violations: VacationRuleViolation[];
+  canOverride: boolean;
+  isPending?: boolean;
+  onOverride: (reason: string) => void;
+}
+
+const VacationRuleViolationsDialog = ({
+  open,
+  onOpenChange,
+  violations,
+  canOverride,
+  isPending = false,
+  onOverride,
+}: VacationRuleViolationsDialogProps) => {
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!open) setReason('');
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-destructive">
+            <ShieldAlert className="h-5 w-5" />
+            Vacation Rules Violated
+          </DialogTitle>
+          <DialogDescription>
+            This plan does not meet the workspace vacation rules.
+            {canOverride
+              ? ' As a vacation module admin you can override the rules with a documented reason.'
+              : ' Adjust the vacation periods or contact a vacation module admin.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[40vh] pr-4">
+          <div className="space-y-3">
+            {violations.map((violation, idx) => (
+              <div key={idx} className="p-3 border border-destructive/40 bg-destructive/5 rounded-lg space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="destructive">{VACATION_RULE_LABELS[violation.rule] || violation.rule}</Badge>
+                  {violation.start_date && violation.end_date ? (
+                    <span className="text-sm font-medium">
+                      {format(parseISO(violation.start_date), 'PPP')} → {format(parseISO(violation.end_date), 'PPP')}
+                    </span>
+                  ) : (
+                    <span className="text-sm font-medium">Entire plan</span>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">{violation.message}</p>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        {canOverride && (
+          <div className="space-y-2">
+            <Label htmlFor="override-reason">Override Reason *</Label>
+            <Textarea
+              id="override-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Explain why these rules can be waived for this plan..."
+              rows={3}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {canOverride ? 'Cancel' : 'Close'}
+          </Button>
+          {canOverride && (
+            <Button
+              variant="destructive"
+              onClick={() => onOverride(reason.trim())}
+              disabled={!reason.trim() || isPending}
+            >
+              {isPending ? 'Processing...' : 'Override Rules'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VacationRuleViolationsDialog;
@@ -8,6 +8,7 @@ import { Settings, Save, Calendar, Users, Clock } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useState, useEffect } from 'react';
 import { LoadingState } from '@/components/layout';
+import VacationRulesSimulator from './VacationRulesSimulator';
 
 const VacationRulesManagement = () => {
   const { toast } = useToast();
@@ -218,6 +219,15 @@ const VacationRulesManagement = () => {
           </Button>
         </CardContent>
       </Card>
+
+      <VacationRulesSimulator
+        workspaceId={selectedWorkspace.id}
+        rules={{
+          max_vacation_splits: formData.max_vacation_splits,
+          min_vacation_notice_days: formData.min_vacation_notice_days,
+          max_concurrent_vacations: formData.max_concurrent_vacations,
+        }}
+      />
     </form>
   );
 };
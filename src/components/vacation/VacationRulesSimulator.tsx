@@ -0,0 +1,217 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { FlaskConical, Play } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LoadingState } from '@/components/layout';
+import {
+  VACATION_RULE_LABELS,
+  getVacationRuleOutcome,
+  simulateVacationRules,
+  summarizeVacationRuleSimulation,
+  type VacationRuleOutcome,
+  type VacationRuleValues,
+} from '@/lib/vacationRules';
+
+interface VacationRulesSimulatorProps {
+  workspaceId: string;
+  /** Rule values currently entered in the form, not yet saved */
+  rules: VacationRuleValues;
+}
+
+const PERIOD_OPTIONS = [3, 6, 12, 24];
+
+const OUTCOME_STYLES: Record<VacationRuleOutcome, string> = {
+  blocked: 'bg-destructive text-destructive-foreground',
+  allowed: 'bg-success text-success-foreground',
+};
+
+const OUTCOME_LABELS: Record<VacationRuleOutcome, string> = {
+  blocked: 'Blocked',
+  allowed: 'Allowed',
+};
+
+const VacationRulesSimulator = ({ workspaceId, rules }: VacationRulesSimulatorProps) => {
+  const [months, setMonths] = useState(6);
+  const [request, setRequest] = useState<{ rules: VacationRuleValues; months: number } | null>(null);
+
+  const { data: plans, isLoading, error } = useQuery({
+    queryKey: ['vacation-rule-simulation', workspaceId, request],
+    queryFn: () => simulateVacationRules(workspaceId, request!.rules, request!.months),
+    enabled: !!request,
+  });
+
+  const departments = useMemo(() => summarizeVacationRuleSimulation(plans || []), [plans]);
+
+  const totals = departments.reduce(
+    (sum, department) => ({
+      total: sum.total + department.total,
+      blocked: sum.blocked + department.blocked,
+      newly_affected: sum.newly_affected + department.newly_affected,
+      no_longer_affected: sum.no_longer_affected + department.no_longer_affected,
+    }),
+    { total: 0, blocked: 0, newly_affected: 0, no_longer_affected: 0 }
+  );
+
+  const isStale = !!request && (
+    request.months !== months ||
+    (Object.keys(rules) as (keyof VacationRuleValues)[]).some(key => rules[key] !== request.rules[key])
+  );
+
+  const runSimulation = () => setRequest({ rules: { ...rules }, months });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          Rule Simulator
+        </CardTitle>
+        <CardDescription>
+          Replay past vacation requests against the values above before saving them. Requests breaking any
+          rule, concurrent vacations included, would have been blocked unless an admin overrode them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2 w-48">
+            <Label htmlFor="simulation-period">Replay requests from</Label>
+            <Select value={months.toString()} onValueChange={(value) => setMonths(parseInt(value))}>
+              <SelectTrigger id="simulation-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIOD_OPTIONS.map(option => (
+                  <SelectItem key={option} value={option.toString()}>
+                    Last {option} months
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="button" variant="outline" onClick={runSimulation} disabled={isLoading && !!request}>
+            <Play className="h-4 w-4 mr-2" />
+            {request ? 'Run Again' : 'Run Simulation'}
+          </Button>
+          {isStale && (
+            <p className="text-sm text-muted-foreground">Rules changed since the last run</p>
+          )}
+        </div>
+
+        {!request ? null : isLoading ? (
+          <LoadingState message="Replaying vacation requests..." />
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : 'Failed to run the simulation'}
+          </p>
+        ) : totals.total === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No vacation requests were submitted in the last {request.months} months.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="rounded-lg border p-3">
+                <p className="text-sm text-muted-foreground">Requests replayed</p>
+                <p className="text-2xl font-bold">{totals.total}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-sm text-muted-foreground">Would be blocked</p>
+                <p className="text-2xl font-bold text-destructive">{totals.blocked}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-sm text-muted-foreground">Change vs. saved rules</p>
+                <p className="text-2xl font-bold">
+                  +{totals.newly_affected} / −{totals.no_longer_affected}
+                </p>
+              </div>
+            </div>
+
+            <Accordion type="multiple" className="w-full">
+              {departments.map(department => (
+                <AccordionItem key={department.department_id} value={department.department_id}>
+                  <AccordionTrigger className="hover:no-underline">
+                    <div className="flex flex-wrap items-center gap-2 text-left">
+                      <span className="font-medium">{department.department_name}</span>
+                      <span className="text-sm text-muted-foreground">
+                        {department.total} request{department.total === 1 ? '' : 's'}
+                      </span>
+                      {department.blocked > 0 && (
+                        <Badge className={OUTCOME_STYLES.blocked}>{department.blocked} blocked</Badge>
+                      )}
+                      {department.newly_affected > 0 && (
+                        <Badge variant="outline">{department.newly_affected} newly affected</Badge>
+                      )}
+                      {department.no_longer_affected > 0 && (
+                        <Badge variant="outline">{department.no_longer_affected} no longer affected</Badge>
+                      )}
+                    </div>
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    {department.plans.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        Every request passes both the saved and the proposed rules.
+                      </p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Staff</TableHead>
+                            <TableHead>Submitted</TableHead>
+                            <TableHead>Proposed rules</TableHead>
+                            <TableHead>Saved rules</TableHead>
+                            <TableHead>Violations</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {department.plans.map(plan => {
+                            const proposed = getVacationRuleOutcome(plan.proposed_violations);
+                            const current = getVacationRuleOutcome(plan.current_violations);
+                            return (
+                              <TableRow key={plan.vacation_plan_id}>
+                                <TableCell className="font-medium">{plan.staff_name || 'Unknown'}</TableCell>
+                                <TableCell>{format(parseISO(plan.submitted_at), 'PP')}</TableCell>
+                                <TableCell>
+                                  <Badge className={OUTCOME_STYLES[proposed]}>{OUTCOME_LABELS[proposed]}</Badge>
+                                </TableCell>
+                                <TableCell>
+                                  <Badge variant="outline">{OUTCOME_LABELS[current]}</Badge>
+                                </TableCell>
+                                <TableCell>
+                                  {plan.proposed_violations.length === 0 ? (
+                                    <span className="text-sm text-muted-foreground">None</span>
+                                  ) : (
+                                    <ul className="space-y-1 text-sm">
+                                      {plan.proposed_violations.map((violation, index) => (
+                                        <li key={index}>
+                                          <span className="font-medium">{VACATION_RULE_LABELS[violation.rule]}:</span>{' '}
+                                          {violation.message}
+                                        </li>
+                                      ))}
+                                    </ul>
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VacationRulesSimulator;
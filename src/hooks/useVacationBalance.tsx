@@ -0,0 +1,40 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface VacationBalance {
+  tracked: boolean;
+  year_start: string;
+  year_end: string;
+  annual_days?: number;
+  accrual_method?: 'annual' | 'monthly';
+  accrued?: number;
+  carried_over?: number;
+  adjustments?: number;
+  used?: number;
+  pending?: number;
+  balance?: number;
+  available?: number;
+}
+
+export const fetchVacationBalance = async (staffId: string, vacationTypeId: string, asOf: Date = new Date()) => {
+  const { data, error } = await supabase.rpc('get_vacation_balance', {
+    _staff_id: staffId,
+    _vacation_type_id: vacationTypeId,
+    _as_of: format(asOf, 'yyyy-MM-dd'),
+  });
+
+  if (error) throw error;
+
+  return data as unknown as VacationBalance;
+};
+
+export const useVacationBalance = (staffId?: string, vacationTypeId?: string, asOf?: Date) => {
+  const asOfDate = asOf || new Date();
+
+  return useQuery({
+    queryKey: ['vacation-balance', staffId, vacationTypeId, format(asOfDate, 'yyyy-MM-dd')],
+    queryFn: () => fetchVacationBalance(staffId!, vacationTypeId!, asOfDate),
+    enabled: !!staffId && !!vacationTypeId,
+  });
+};
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+
+/**
+ * Approval delegations the current user is acting on today
+ */
+export const useActiveVacationDelegations = () => {
+  const { user } = useAuth();
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  return useQuery({
+    queryKey: ['active-vacation-delegations', user?.id, today],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vacation_approval_delegations')
+        .select('*, delegator:profiles!vacation_approval_delegations_delegator_id_fkey(full_name, email)')
+        .eq('delegate_id', user!.id)
+        .eq('is_active', true)
+        .lte('start_date', today)
+        .gte('end_date', today)
+        .order('approval_level');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+};
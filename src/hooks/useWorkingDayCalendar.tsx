@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_WORK_WEEK, type HolidayDate } from '@/lib/workingDays';
+
+export interface WorkingDayCalendar {
+  workWeek: number[];
+  holidays: HolidayDate[];
+}
+
+export const fetchWorkingDayCalendar = async (departmentId: string): Promise<WorkingDayCalendar> => {
+  const { data: department, error } = await supabase
+    .from('departments')
+    .select('facility_id, facilities(id, workspace_id, work_week_days, workspaces(work_week_days))')
+    .eq('id', departmentId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const facility = department?.facilities;
+  if (!facility) {
+    return { workWeek: DEFAULT_WORK_WEEK, holidays: [] };
+  }
+
+  const { data: holidays, error: holidaysError } = await supabase
+    .from('holidays')
+    .select('holiday_date, is_recurring')
+    .eq('workspace_id', facility.workspace_id)
+    .or(`facility_id.is.null,facility_id.eq.${facility.id}`);
+
+  if (holidaysError) throw holidaysError;
+
+  return {
+    workWeek: facility.work_week_days || facility.workspaces?.work_week_days || DEFAULT_WORK_WEEK,
+    holidays: holidays || [],
+  };
+};
+
+export const useWorkingDayCalendar = (departmentId?: string) => {
+  return useQuery({
+    queryKey: ['working-day-calendar', departmentId],
+    queryFn: () => fetchWorkingDayCalendar(departmentId!),
+    enabled: !!departmentId,
+  });
+};
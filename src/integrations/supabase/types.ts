@@ -179,6 +179,7 @@ export type Database = {
           name: string
           parent_facility_id: string | null
           updated_at: string
+          work_week_days: number[] | null
           workspace_id: string
         }
         Insert: {
@@ -188,6 +189,7 @@ export type Database = {
           name: string
           parent_facility_id?: string | null
           updated_at?: string
+          work_week_days?: number[] | null
           workspace_id: string
         }
         Update: {
@@ -197,6 +199,7 @@ export type Database = {
           name?: string
           parent_facility_id?: string | null
           updated_at?: string
+          work_week_days?: number[] | null
           workspace_id?: string
         }
         Relationships: [
@@ -216,6 +219,64 @@ export type Database = {
           },
         ]
       }
+      holidays: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          facility_id: string | null
+          holiday_date: string
+          id: string
+          is_recurring: boolean
+          name: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          facility_id?: string | null
+          holiday_date: string
+          id?: string
+          is_recurring?: boolean
+          name: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          facility_id?: string | null
+          holiday_date?: string
+          id?: string
+          is_recurring?: boolean
+          name?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "holidays_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "holidays_facility_id_fkey"
+            columns: ["facility_id"]
+            isOneToOne: false
+            referencedRelation: "facilities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "holidays_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       jitsi_server_config: {
         Row: {
           app_id: string | null
@@ -257,6 +318,76 @@ export type Database = {
           },
         ]
       }
+      labor_rule_sets: {
+        Row: {
+          created_at: string
+          facility_id: string | null
+          hard_rules: string[]
+          id: string
+          max_consecutive_days: number | null
+          max_hours_per_day: number | null
+          max_hours_per_month: number | null
+          max_hours_per_week: number | null
+          max_nights_per_month: number | null
+          min_rest_hours: number | null
+          updated_at: string
+          updated_by: string | null
+          workspace_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          facility_id?: string | null
+          hard_rules?: string[]
+          id?: string
+          max_consecutive_days?: number | null
+          max_hours_per_day?: number | null
+          max_hours_per_month?: number | null
+          max_hours_per_week?: number | null
+          max_nights_per_month?: number | null
+          min_rest_hours?: number | null
+          updated_at?: string
+          updated_by?: string | null
+          workspace_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          facility_id?: string | null
+          hard_rules?: string[]
+          id?: string
+          max_consecutive_days?: number | null
+          max_hours_per_day?: number | null
+          max_hours_per_month?: number | null
+          max_hours_per_week?: number | null
+          max_nights_per_month?: number | null
+          min_rest_hours?: number | null
+          updated_at?: string
+          updated_by?: string | null
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "labor_rule_sets_facility_id_fkey"
+            columns: ["facility_id"]
+            isOneToOne: true
+            referencedRelation: "facilities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "labor_rule_sets_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "labor_rule_sets_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: true
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           content: string
@@ -494,6 +625,173 @@ export type Database = {
           },
         ]
       }
+      rotation_patterns: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          cycle: number[]
+          description: string | null
+          facility_id: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          cycle: number[]
+          description?: string | null
+          facility_id: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          cycle?: number[]
+          description?: string | null
+          facility_id?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rotation_patterns_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rotation_patterns_facility_id_fkey"
+            columns: ["facility_id"]
+            isOneToOne: false
+            referencedRelation: "facilities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_changes: {
+        Row: {
+          action: string
+          changed_by: string | null
+          created_at: string
+          entity: string
+          entity_id: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          revision_id: string | null
+          schedule_id: string
+          staff_id: string | null
+        }
+        Insert: {
+          action: string
+          changed_by?: string | null
+          created_at?: string
+          entity: string
+          entity_id: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          revision_id?: string | null
+          schedule_id: string
+          staff_id?: string | null
+        }
+        Update: {
+          action?: string
+          changed_by?: string | null
+          created_at?: string
+          entity?: string
+          entity_id?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          revision_id?: string | null
+          schedule_id?: string
+          staff_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_changes_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_changes_revision_id_fkey"
+            columns: ["revision_id"]
+            isOneToOne: false
+            referencedRelation: "schedule_revisions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_changes_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_changes_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_revisions: {
+        Row: {
+          created_at: string
+          id: string
+          note: string | null
+          published_by: string | null
+          revision_number: number
+          rolled_back_to: number | null
+          schedule_id: string
+          snapshot: Json
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          note?: string | null
+          published_by?: string | null
+          revision_number: number
+          rolled_back_to?: number | null
+          schedule_id: string
+          snapshot: Json
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          note?: string | null
+          published_by?: string | null
+          revision_number?: number
+          rolled_back_to?: number | null
+          schedule_id?: string
+          snapshot?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_revisions_published_by_fkey"
+            columns: ["published_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_revisions_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       schedules: {
         Row: {
           created_at: string
@@ -612,168 +910,1038 @@ export type Database = {
           },
         ]
       }
-      shifts: {
-        Row: {
-          color: string | null
-          created_at: string
-          end_time: string
-          id: string
-          name: string
-          required_staff: number
-          schedule_id: string
-          shift_order: number
-          start_time: string
-        }
-        Insert: {
-          color?: string | null
-          created_at?: string
-          end_time: string
-          id?: string
-          name: string
-          required_staff?: number
-          schedule_id: string
-          shift_order: number
-          start_time: string
-        }
-        Update: {
-          color?: string | null
-          created_at?: string
-          end_time?: string
-          id?: string
-          name?: string
-          required_staff?: number
-          schedule_id?: string
-          shift_order?: number
-          start_time?: string
-        }
-        Relationships: [
-          {
-            foreignKeyName: "shifts_schedule_id_fkey"
-            columns: ["schedule_id"]
-            isOneToOne: false
-            referencedRelation: "schedules"
-            referencedColumns: ["id"]
-          },
-        ]
-      }
-      task_assignments: {
+      shift_swap_requests: {
         Row: {
-          assigned_to: string
-          completed_at: string | null
+          assignment_id: string
           created_at: string
+          department_id: string
           id: string
           notes: string | null
+          request_type: string
+          requester_id: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
           status: string
-          task_id: string
+          taker_id: string | null
+          target_assignment_id: string | null
           updated_at: string
         }
         Insert: {
-          assigned_to: string
-          completed_at?: string | null
+          assignment_id: string
           created_at?: string
+          department_id: string
           id?: string
           notes?: string | null
+          request_type: string
+          requester_id: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           status?: string
-          task_id: string
+          taker_id?: string | null
+          target_assignment_id?: string | null
           updated_at?: string
         }
         Update: {
-          assigned_to?: string
-          completed_at?: string | null
+          assignment_id?: string
           created_at?: string
+          department_id?: string
           id?: string
           notes?: string | null
+          request_type?: string
+          requester_id?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           status?: string
-          task_id?: string
+          taker_id?: string | null
+          target_assignment_id?: string | null
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "task_assignments_assigned_to_fkey"
-            columns: ["assigned_to"]
+            foreignKeyName: "shift_swap_requests_assignment_id_fkey"
+            columns: ["assignment_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "shift_assignments"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "task_assignments_task_id_fkey"
-            columns: ["task_id"]
+            foreignKeyName: "shift_swap_requests_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_swap_requests_requester_id_fkey"
+            columns: ["requester_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_swap_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_swap_requests_taker_id_fkey"
+            columns: ["taker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_swap_requests_target_assignment_id_fkey"
+            columns: ["target_assignment_id"]
+            isOneToOne: false
+            referencedRelation: "shift_assignments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shift_templates: {
+        Row: {
+          color: string
+          created_at: string
+          created_by: string | null
+          end_time: string
+          facility_id: string
+          id: string
+          name: string
+          required_staff: number
+          start_time: string
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          end_time: string
+          facility_id: string
+          id?: string
+          name: string
+          required_staff?: number
+          start_time: string
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          end_time?: string
+          facility_id?: string
+          id?: string
+          name?: string
+          required_staff?: number
+          start_time?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shift_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_templates_facility_id_fkey"
+            columns: ["facility_id"]
+            isOneToOne: false
+            referencedRelation: "facilities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shifts: {
+        Row: {
+          color: string | null
+          created_at: string
+          end_time: string
+          id: string
+          name: string
+          required_staff: number
+          schedule_id: string
+          shift_order: number
+          start_time: string
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          end_time: string
+          id?: string
+          name: string
+          required_staff?: number
+          schedule_id: string
+          shift_order: number
+          start_time: string
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          end_time?: string
+          id?: string
+          name?: string
+          required_staff?: number
+          schedule_id?: string
+          shift_order?: number
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shifts_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_availability: {
+        Row: {
+          created_at: string
+          day_of_week: number | null
+          end_date: string | null
+          end_time: string | null
+          id: string
+          reason: string | null
+          staff_id: string
+          start_date: string | null
+          start_time: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          day_of_week?: number | null
+          end_date?: string | null
+          end_time?: string | null
+          id?: string
+          reason?: string | null
+          staff_id: string
+          start_date?: string | null
+          start_time?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          day_of_week?: number | null
+          end_date?: string | null
+          end_time?: string | null
+          id?: string
+          reason?: string | null
+          staff_id?: string
+          start_date?: string | null
+          start_time?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_availability_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_shift_preferences: {
+        Row: {
+          avoided_shift_types: string[]
+          created_at: string
+          id: string
+          notes: string | null
+          preferred_shift_types: string[]
+          staff_id: string
+          updated_at: string
+        }
+        Insert: {
+          avoided_shift_types?: string[]
+          created_at?: string
+          id?: string
+          notes?: string | null
+          preferred_shift_types?: string[]
+          staff_id: string
+          updated_at?: string
+        }
+        Update: {
+          avoided_shift_types?: string[]
+          created_at?: string
+          id?: string
+          notes?: string | null
+          preferred_shift_types?: string[]
+          staff_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_shift_preferences_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_assignments: {
+        Row: {
+          assigned_to: string
+          completed_at: string | null
+          created_at: string
+          id: string
+          notes: string | null
+          status: string
+          task_id: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_to: string
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          status?: string
+          task_id: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          status?: string
+          task_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_assignments_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_assignments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tasks: {
+        Row: {
+          created_at: string
+          created_by: string
+          department_id: string | null
+          description: string | null
+          due_date: string | null
+          facility_id: string | null
+          id: string
+          priority: string | null
+          scope_type: string
+          status: string
+          title: string
+          updated_at: string
+          workspace_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          department_id?: string | null
+          description?: string | null
+          due_date?: string | null
+          facility_id?: string | null
+          id?: string
+          priority?: string | null
+          scope_type: string
+          status?: string
+          title: string
+          updated_at?: string
+          workspace_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          department_id?: string | null
+          description?: string | null
+          due_date?: string | null
+          facility_id?: string | null
+          id?: string
+          priority?: string | null
+          scope_type?: string
+          status?: string
+          title?: string
+          updated_at?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tasks_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_facility_id_fkey"
+            columns: ["facility_id"]
+            isOneToOne: false
+            referencedRelation: "facilities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      time_entries: {
+        Row: {
+          assignment_id: string | null
+          clock_in_at: string
+          clock_out_at: string | null
+          created_at: string
+          department_id: string
+          id: string
+          original_clock_in_at: string | null
+          original_clock_out_at: string | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          shift_date: string
+          shift_end_time: string
+          shift_name: string
+          shift_start_time: string
+          staff_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          assignment_id?: string | null
+          clock_in_at: string
+          clock_out_at?: string | null
+          created_at?: string
+          department_id: string
+          id?: string
+          original_clock_in_at?: string | null
+          original_clock_out_at?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          shift_date: string
+          shift_end_time: string
+          shift_name: string
+          shift_start_time: string
+          staff_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          assignment_id?: string | null
+          clock_in_at?: string
+          clock_out_at?: string | null
+          created_at?: string
+          department_id?: string
+          id?: string
+          original_clock_in_at?: string | null
+          original_clock_out_at?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          shift_date?: string
+          shift_end_time?: string
+          shift_name?: string
+          shift_start_time?: string
+          staff_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_entries_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: true
+            referencedRelation: "shift_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      training_attendance: {
+        Row: {
+          attendance_status: string | null
+          check_in_method: string | null
+          checked_in_at: string | null
+          checked_in_by: string | null
+          created_at: string
+          duration_minutes: number | null
+          event_id: string
+          id: string
+          ip_address: string | null
+          joined_at: string
+          left_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attendance_status?: string | null
+          check_in_method?: string | null
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          created_at?: string
+          duration_minutes?: number | null
+          event_id: string
+          id?: string
+          ip_address?: string | null
+          joined_at?: string
+          left_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attendance_status?: string | null
+          check_in_method?: string | null
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          created_at?: string
+          duration_minutes?: number | null
+          event_id?: string
+          id?: string
+          ip_address?: string | null
+          joined_at?: string
+          left_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_attendance_checked_in_by_fkey"
+            columns: ["checked_in_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_attendance_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "training_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_attendance_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      training_event_targets: {
+        Row: {
+          created_at: string
+          department_id: string | null
+          event_id: string
+          id: string
+          is_mandatory: boolean | null
+          target_type: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          department_id?: string | null
+          event_id: string
+          id?: string
+          is_mandatory?: boolean | null
+          target_type: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          department_id?: string | null
+          event_id?: string
+          id?: string
+          is_mandatory?: boolean | null
+          target_type?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_event_targets_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_event_targets_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "training_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_event_targets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      training_events: {
+        Row: {
+          allow_recording: boolean | null
+          created_at: string
+          created_by: string
+          description: string | null
+          enable_video_conference: boolean | null
+          end_datetime: string
+          event_type: Database["public"]["Enums"]["training_event_type"]
+          id: string
+          jitsi_moderator_password: string | null
+          jitsi_room_name: string | null
+          location_address: string | null
+          location_type: Database["public"]["Enums"]["training_location_type"]
+          max_participants: number | null
+          max_video_participants: number | null
+          online_link: string | null
+          organization_id: string | null
+          registration_type: string
+          require_lobby: boolean | null
+          responsible_user_id: string | null
+          start_datetime: string
+          status: Database["public"]["Enums"]["training_event_status"]
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          allow_recording?: boolean | null
+          created_at?: string
+          created_by: string
+          description?: string | null
+          enable_video_conference?: boolean | null
+          end_datetime: string
+          event_type?: Database["public"]["Enums"]["training_event_type"]
+          id?: string
+          jitsi_moderator_password?: string | null
+          jitsi_room_name?: string | null
+          location_address?: string | null
+          location_type?: Database["public"]["Enums"]["training_location_type"]
+          max_participants?: number | null
+          max_video_participants?: number | null
+          online_link?: string | null
+          organization_id?: string | null
+          registration_type?: string
+          require_lobby?: boolean | null
+          responsible_user_id?: string | null
+          start_datetime: string
+          status?: Database["public"]["Enums"]["training_event_status"]
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          allow_recording?: boolean | null
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          enable_video_conference?: boolean | null
+          end_datetime?: string
+          event_type?: Database["public"]["Enums"]["training_event_type"]
+          id?: string
+          jitsi_moderator_password?: string | null
+          jitsi_room_name?: string | null
+          location_address?: string | null
+          location_type?: Database["public"]["Enums"]["training_location_type"]
+          max_participants?: number | null
+          max_video_participants?: number | null
+          online_link?: string | null
+          organization_id?: string | null
+          registration_type?: string
+          require_lobby?: boolean | null
+          responsible_user_id?: string | null
+          start_datetime?: string
+          status?: Database["public"]["Enums"]["training_event_status"]
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_events_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_events_responsible_user_id_fkey"
+            columns: ["responsible_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      training_meeting_chat: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          message: string
+          sent_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          message: string
+          sent_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          message?: string
+          sent_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_meeting_chat_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "training_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_meeting_chat_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      training_registrations: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          registered_at: string
+          reminder_sent: boolean | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          registered_at?: string
+          reminder_sent?: boolean | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          registered_at?: string
+          reminder_sent?: boolean | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_registrations_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "training_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_registrations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_group_members: {
+        Row: {
+          added_at: string
+          group_id: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          added_at?: string
+          group_id: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          added_at?: string
+          group_id?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_group_members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "user_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_group_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_groups: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          facility_id: string | null
+          id: string
+          name: string
+          organization_id: string | null
+          scope_type: string
+          updated_at: string
+          workspace_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          facility_id?: string | null
+          id?: string
+          name: string
+          organization_id?: string | null
+          scope_type: string
+          updated_at?: string
+          workspace_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          facility_id?: string | null
+          id?: string
+          name?: string
+          organization_id?: string | null
+          scope_type?: string
+          updated_at?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_groups_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_groups_facility_id_fkey"
+            columns: ["facility_id"]
+            isOneToOne: false
+            referencedRelation: "facilities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_groups_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_groups_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_module_access: {
+        Row: {
+          can_admin: boolean | null
+          can_delete: boolean | null
+          can_edit: boolean | null
+          can_view: boolean | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          is_override: boolean | null
+          module_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          can_admin?: boolean | null
+          can_delete?: boolean | null
+          can_edit?: boolean | null
+          can_view?: boolean | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_override?: boolean | null
+          module_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          can_admin?: boolean | null
+          can_delete?: boolean | null
+          can_edit?: boolean | null
+          can_view?: boolean | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_override?: boolean | null
+          module_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_module_access_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "tasks"
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_module_access_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "module_definitions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_module_access_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      tasks: {
+      user_roles: {
         Row: {
           created_at: string
-          created_by: string
+          created_by: string | null
           department_id: string | null
-          description: string | null
-          due_date: string | null
           facility_id: string | null
           id: string
-          priority: string | null
-          scope_type: string
-          status: string
-          title: string
-          updated_at: string
+          role: Database["public"]["Enums"]["app_role"]
+          specialty_id: string | null
+          user_id: string
           workspace_id: string | null
         }
         Insert: {
           created_at?: string
-          created_by: string
+          created_by?: string | null
           department_id?: string | null
-          description?: string | null
-          due_date?: string | null
           facility_id?: string | null
           id?: string
-          priority?: string | null
-          scope_type: string
-          status?: string
-          title: string
-          updated_at?: string
+          role: Database["public"]["Enums"]["app_role"]
+          specialty_id?: string | null
+          user_id: string
           workspace_id?: string | null
         }
         Update: {
           created_at?: string
-          created_by?: string
+          created_by?: string | null
           department_id?: string | null
-          description?: string | null
-          due_date?: string | null
           facility_id?: string | null
           id?: string
-          priority?: string | null
-          scope_type?: string
-          status?: string
-          title?: string
-          updated_at?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          specialty_id?: string | null
+          user_id?: string
           workspace_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "tasks_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "fk_user_roles_department"
+            columns: ["department_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "departments"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "tasks_department_id_fkey"
-            columns: ["department_id"]
+            foreignKeyName: "fk_user_roles_facility"
+            columns: ["facility_id"]
+            isOneToOne: false
+            referencedRelation: "facilities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_roles_specialty_id_fkey"
+            columns: ["specialty_id"]
             isOneToOne: false
             referencedRelation: "departments"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "tasks_facility_id_fkey"
-            columns: ["facility_id"]
+            foreignKeyName: "user_roles_user_id_profiles_fkey"
+            columns: ["user_id"]
             isOneToOne: false
-            referencedRelation: "facilities"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "tasks_workspace_id_fkey"
+            foreignKeyName: "user_roles_workspace_id_fkey"
             columns: ["workspace_id"]
             isOneToOne: false
             referencedRelation: "workspaces"
@@ -781,408 +1949,411 @@ export type Database = {
           },
         ]
       }
-      training_attendance: {
+      vacation_approval_chains: {
         Row: {
-          attendance_status: string | null
-          check_in_method: string | null
-          checked_in_at: string | null
-          checked_in_by: string | null
           created_at: string
-          duration_minutes: number | null
-          event_id: string
+          created_by: string | null
           id: string
-          ip_address: string | null
-          joined_at: string
-          left_at: string | null
+          levels: number[]
+          skip_unassigned: boolean
           updated_at: string
-          user_id: string
+          vacation_type_id: string | null
+          workspace_id: string
         }
         Insert: {
-          attendance_status?: string | null
-          check_in_method?: string | null
-          checked_in_at?: string | null
-          checked_in_by?: string | null
           created_at?: string
-          duration_minutes?: number | null
-          event_id: string
+          created_by?: string | null
           id?: string
-          ip_address?: string | null
-          joined_at?: string
-          left_at?: string | null
+          levels?: number[]
+          skip_unassigned?: boolean
           updated_at?: string
-          user_id: string
+          vacation_type_id?: string | null
+          workspace_id: string
         }
         Update: {
-          attendance_status?: string | null
-          check_in_method?: string | null
-          checked_in_at?: string | null
-          checked_in_by?: string | null
           created_at?: string
-          duration_minutes?: number | null
-          event_id?: string
+          created_by?: string | null
           id?: string
-          ip_address?: string | null
-          joined_at?: string
-          left_at?: string | null
+          levels?: number[]
+          skip_unassigned?: boolean
           updated_at?: string
-          user_id?: string
+          vacation_type_id?: string | null
+          workspace_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "training_attendance_checked_in_by_fkey"
-            columns: ["checked_in_by"]
+            foreignKeyName: "vacation_approval_chains_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "training_attendance_event_id_fkey"
-            columns: ["event_id"]
+            foreignKeyName: "vacation_approval_chains_vacation_type_id_fkey"
+            columns: ["vacation_type_id"]
             isOneToOne: false
-            referencedRelation: "training_events"
+            referencedRelation: "vacation_types"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "training_attendance_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "vacation_approval_chains_workspace_id_fkey"
+            columns: ["workspace_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "workspaces"
             referencedColumns: ["id"]
           },
         ]
       }
-      training_event_targets: {
+      vacation_approval_delegations: {
         Row: {
+          approval_level: number
           created_at: string
-          department_id: string | null
-          event_id: string
+          delegate_id: string
+          delegator_id: string
+          end_date: string
           id: string
-          is_mandatory: boolean | null
-          target_type: string
-          user_id: string | null
+          is_active: boolean
+          reason: string | null
+          scope_id: string
+          start_date: string
+          updated_at: string
         }
         Insert: {
+          approval_level: number
           created_at?: string
-          department_id?: string | null
-          event_id: string
+          delegate_id: string
+          delegator_id: string
+          end_date: string
           id?: string
-          is_mandatory?: boolean | null
-          target_type: string
-          user_id?: string | null
+          is_active?: boolean
+          reason?: string | null
+          scope_id: string
+          start_date: string
+          updated_at?: string
         }
         Update: {
+          approval_level?: number
           created_at?: string
-          department_id?: string | null
-          event_id?: string
+          delegate_id?: string
+          delegator_id?: string
+          end_date?: string
           id?: string
-          is_mandatory?: boolean | null
-          target_type?: string
-          user_id?: string | null
+          is_active?: boolean
+          reason?: string | null
+          scope_id?: string
+          start_date?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "training_event_targets_department_id_fkey"
-            columns: ["department_id"]
-            isOneToOne: false
-            referencedRelation: "departments"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "training_event_targets_event_id_fkey"
-            columns: ["event_id"]
+            foreignKeyName: "vacation_approval_delegations_delegate_id_fkey"
+            columns: ["delegate_id"]
             isOneToOne: false
-            referencedRelation: "training_events"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "training_event_targets_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "vacation_approval_delegations_delegator_id_fkey"
+            columns: ["delegator_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      training_events: {
+      vacation_approval_escalations: {
         Row: {
-          allow_recording: boolean | null
+          approval_level: number
           created_at: string
-          created_by: string
-          description: string | null
-          enable_video_conference: boolean | null
-          end_datetime: string
-          event_type: Database["public"]["Enums"]["training_event_type"]
+          escalated_to_level: number | null
+          escalated_to_role: string | null
+          event_type: string
           id: string
-          jitsi_moderator_password: string | null
-          jitsi_room_name: string | null
-          location_address: string | null
-          location_type: Database["public"]["Enums"]["training_location_type"]
-          max_participants: number | null
-          max_video_participants: number | null
-          online_link: string | null
-          organization_id: string | null
-          registration_type: string
-          require_lobby: boolean | null
-          responsible_user_id: string | null
-          start_datetime: string
-          status: Database["public"]["Enums"]["training_event_status"]
-          title: string
-          updated_at: string
+          notified_user_ids: string[]
+          pending_days: number | null
+          vacation_plan_id: string
         }
         Insert: {
-          allow_recording?: boolean | null
+          approval_level: number
           created_at?: string
-          created_by: string
-          description?: string | null
-          enable_video_conference?: boolean | null
-          end_datetime: string
-          event_type?: Database["public"]["Enums"]["training_event_type"]
+          escalated_to_level?: number | null
+          escalated_to_role?: string | null
+          event_type: string
           id?: string
-          jitsi_moderator_password?: string | null
-          jitsi_room_name?: string | null
-          location_address?: string | null
-          location_type?: Database["public"]["Enums"]["training_location_type"]
-          max_participants?: number | null
-          max_video_participants?: number | null
-          online_link?: string | null
-          organization_id?: string | null
-          registration_type?: string
-          require_lobby?: boolean | null
-          responsible_user_id?: string | null
-          start_datetime: string
-          status?: Database["public"]["Enums"]["training_event_status"]
-          title: string
-          updated_at?: string
+          notified_user_ids?: string[]
+          pending_days?: number | null
+          vacation_plan_id: string
         }
-        Update: {
-          allow_recording?: boolean | null
-          created_at?: string
-          created_by?: string
-          description?: string | null
-          enable_video_conference?: boolean | null
-          end_datetime?: string
-          event_type?: Database["public"]["Enums"]["training_event_type"]
-          id?: string
-          jitsi_moderator_password?: string | null
-          jitsi_room_name?: string | null
-          location_address?: string | null
-          location_type?: Database["public"]["Enums"]["training_location_type"]
-          max_participants?: number | null
-          max_video_participants?: number | null
-          online_link?: string | null
-          organization_id?: string | null
-          registration_type?: string
-          require_lobby?: boolean | null
-          responsible_user_id?: string | null
-          start_datetime?: string
-          status?: Database["public"]["Enums"]["training_event_status"]
-          title?: string
-          updated_at?: string
+        Update: {
+          approval_level?: number
+          created_at?: string
+          escalated_to_level?: number | null
+          escalated_to_role?: string | null
+          event_type?: string
+          id?: string
+          notified_user_ids?: string[]
+          pending_days?: number | null
+          vacation_plan_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "training_events_organization_id_fkey"
-            columns: ["organization_id"]
-            isOneToOne: false
-            referencedRelation: "organizations"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "training_events_responsible_user_id_fkey"
-            columns: ["responsible_user_id"]
+            foreignKeyName: "vacation_approval_escalations_vacation_plan_id_fkey"
+            columns: ["vacation_plan_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "vacation_plans"
             referencedColumns: ["id"]
           },
         ]
       }
-      training_meeting_chat: {
+      vacation_approval_slas: {
         Row: {
+          approval_level: number
           created_at: string
-          event_id: string
+          created_by: string | null
+          deadline_days: number
+          escalate_to: string
           id: string
-          message: string
-          sent_at: string
-          user_id: string
+          is_active: boolean
+          reminder_days_before: number
+          updated_at: string
+          workspace_id: string
         }
         Insert: {
+          approval_level: number
           created_at?: string
-          event_id: string
+          created_by?: string | null
+          deadline_days?: number
+          escalate_to?: string
           id?: string
-          message: string
-          sent_at?: string
-          user_id: string
+          is_active?: boolean
+          reminder_days_before?: number
+          updated_at?: string
+          workspace_id: string
         }
         Update: {
+          approval_level?: number
           created_at?: string
-          event_id?: string
+          created_by?: string | null
+          deadline_days?: number
+          escalate_to?: string
           id?: string
-          message?: string
-          sent_at?: string
-          user_id?: string
+          is_active?: boolean
+          reminder_days_before?: number
+          updated_at?: string
+          workspace_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "training_meeting_chat_event_id_fkey"
-            columns: ["event_id"]
+            foreignKeyName: "vacation_approval_slas_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "training_events"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "training_meeting_chat_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "vacation_approval_slas_workspace_id_fkey"
+            columns: ["workspace_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "workspaces"
             referencedColumns: ["id"]
           },
         ]
       }
-      training_registrations: {
+      vacation_approvals: {
         Row: {
+          approval_level: number
+          approver_id: string
+          comments: string | null
+          conflict_reason: string | null
+          conflicting_plans: Json | null
           created_at: string
-          event_id: string
+          guardrail_issues: Json | null
+          has_conflict: boolean | null
           id: string
-          registered_at: string
-          reminder_sent: boolean | null
+          on_behalf_of: string | null
           status: string
           updated_at: string
-          user_id: string
+          vacation_plan_id: string
         }
         Insert: {
+          approval_level: number
+          approver_id: string
+          comments?: string | null
+          conflict_reason?: string | null
+          conflicting_plans?: Json | null
           created_at?: string
-          event_id: string
+          guardrail_issues?: Json | null
+          has_conflict?: boolean | null
           id?: string
-          registered_at?: string
-          reminder_sent?: boolean | null
-          status?: string
+          on_behalf_of?: string | null
+          status: string
           updated_at?: string
-          user_id: string
+          vacation_plan_id: string
         }
         Update: {
+          approval_level?: number
+          approver_id?: string
+          comments?: string | null
+          conflict_reason?: string | null
+          conflicting_plans?: Json | null
           created_at?: string
-          event_id?: string
+          guardrail_issues?: Json | null
+          has_conflict?: boolean | null
           id?: string
-          registered_at?: string
-          reminder_sent?: boolean | null
+          on_behalf_of?: string | null
           status?: string
           updated_at?: string
-          user_id?: string
+          vacation_plan_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "training_registrations_event_id_fkey"
-            columns: ["event_id"]
+            foreignKeyName: "vacation_approvals_approver_id_fkey"
+            columns: ["approver_id"]
             isOneToOne: false
-            referencedRelation: "training_events"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "training_registrations_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "vacation_approvals_on_behalf_of_fkey"
+            columns: ["on_behalf_of"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "vacation_approvals_vacation_plan_id_fkey"
+            columns: ["vacation_plan_id"]
+            isOneToOne: false
+            referencedRelation: "vacation_plans"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      user_group_members: {
+      vacation_balance_ledger: {
         Row: {
-          added_at: string
-          group_id: string
+          created_at: string
+          created_by: string | null
+          days: number
+          effective_date: string
+          entry_type: string
           id: string
-          user_id: string
+          reason: string | null
+          staff_id: string
+          vacation_plan_id: string | null
+          vacation_type_id: string
         }
         Insert: {
-          added_at?: string
-          group_id: string
+          created_at?: string
+          created_by?: string | null
+          days: number
+          effective_date?: string
+          entry_type: string
           id?: string
-          user_id: string
+          reason?: string | null
+          staff_id: string
+          vacation_plan_id?: string | null
+          vacation_type_id: string
         }
         Update: {
-          added_at?: string
-          group_id?: string
+          created_at?: string
+          created_by?: string | null
+          days?: number
+          effective_date?: string
+          entry_type?: string
           id?: string
-          user_id?: string
+          reason?: string | null
+          staff_id?: string
+          vacation_plan_id?: string | null
+          vacation_type_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "user_group_members_group_id_fkey"
-            columns: ["group_id"]
+            foreignKeyName: "vacation_balance_ledger_staff_id_fkey"
+            columns: ["staff_id"]
             isOneToOne: false
-            referencedRelation: "user_groups"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "user_group_members_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "vacation_balance_ledger_vacation_plan_id_fkey"
+            columns: ["vacation_plan_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "vacation_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vacation_balance_ledger_vacation_type_id_fkey"
+            columns: ["vacation_type_id"]
+            isOneToOne: false
+            referencedRelation: "vacation_types"
             referencedColumns: ["id"]
           },
         ]
       }
-      user_groups: {
+      vacation_blackout_periods: {
         Row: {
           created_at: string
           created_by: string | null
-          description: string | null
+          department_id: string | null
+          end_date: string
           facility_id: string | null
           id: string
           name: string
-          organization_id: string | null
-          scope_type: string
+          reason: string | null
+          start_date: string
           updated_at: string
-          workspace_id: string | null
+          workspace_id: string
         }
         Insert: {
           created_at?: string
           created_by?: string | null
-          description?: string | null
+          department_id?: string | null
+          end_date: string
           facility_id?: string | null
           id?: string
           name: string
-          organization_id?: string | null
-          scope_type: string
+          reason?: string | null
+          start_date: string
           updated_at?: string
-          workspace_id?: string | null
+          workspace_id: string
         }
         Update: {
           created_at?: string
           created_by?: string | null
-          description?: string | null
+          department_id?: string | null
+          end_date?: string
           facility_id?: string | null
           id?: string
           name?: string
-          organization_id?: string | null
-          scope_type?: string
+          reason?: string | null
+          start_date?: string
           updated_at?: string
-          workspace_id?: string | null
+          workspace_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "user_groups_created_by_fkey"
+            foreignKeyName: "vacation_blackout_periods_created_by_fkey"
             columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "user_groups_facility_id_fkey"
-            columns: ["facility_id"]
+            foreignKeyName: "vacation_blackout_periods_department_id_fkey"
+            columns: ["department_id"]
             isOneToOne: false
-            referencedRelation: "facilities"
+            referencedRelation: "departments"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "user_groups_organization_id_fkey"
-            columns: ["organization_id"]
+            foreignKeyName: "vacation_blackout_periods_facility_id_fkey"
+            columns: ["facility_id"]
             isOneToOne: false
-            referencedRelation: "organizations"
+            referencedRelation: "facilities"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "user_groups_workspace_id_fkey"
+            foreignKeyName: "vacation_blackout_periods_workspace_id_fkey"
             columns: ["workspace_id"]
             isOneToOne: false
             referencedRelation: "workspaces"
@@ -1190,201 +2361,178 @@ export type Database = {
           },
         ]
       }
-      user_module_access: {
+      vacation_documents: {
         Row: {
-          can_admin: boolean | null
-          can_delete: boolean | null
-          can_edit: boolean | null
-          can_view: boolean | null
-          created_at: string | null
-          created_by: string | null
+          content_type: string | null
+          created_at: string
+          file_name: string
+          file_path: string
+          file_size: number | null
           id: string
-          is_override: boolean | null
-          module_id: string
-          updated_at: string | null
-          user_id: string
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+          uploaded_by: string
+          vacation_plan_id: string
         }
         Insert: {
-          can_admin?: boolean | null
-          can_delete?: boolean | null
-          can_edit?: boolean | null
-          can_view?: boolean | null
-          created_at?: string | null
-          created_by?: string | null
+          content_type?: string | null
+          created_at?: string
+          file_name: string
+          file_path: string
+          file_size?: number | null
           id?: string
-          is_override?: boolean | null
-          module_id: string
-          updated_at?: string | null
-          user_id: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          uploaded_by: string
+          vacation_plan_id: string
         }
         Update: {
-          can_admin?: boolean | null
-          can_delete?: boolean | null
-          can_edit?: boolean | null
-          can_view?: boolean | null
-          created_at?: string | null
-          created_by?: string | null
+          content_type?: string | null
+          created_at?: string
+          file_name?: string
+          file_path?: string
+          file_size?: number | null
           id?: string
-          is_override?: boolean | null
-          module_id?: string
-          updated_at?: string | null
-          user_id?: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          uploaded_by?: string
+          vacation_plan_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "user_module_access_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "vacation_documents_reviewed_by_fkey"
+            columns: ["reviewed_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "user_module_access_module_id_fkey"
-            columns: ["module_id"]
+            foreignKeyName: "vacation_documents_uploaded_by_fkey"
+            columns: ["uploaded_by"]
             isOneToOne: false
-            referencedRelation: "module_definitions"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "user_module_access_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "vacation_documents_vacation_plan_id_fkey"
+            columns: ["vacation_plan_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "vacation_plans"
             referencedColumns: ["id"]
           },
         ]
       }
-      user_roles: {
+      vacation_entitlements: {
         Row: {
+          accrual_method: string
+          annual_days: number
+          carry_over_cap: number
           created_at: string
           created_by: string | null
-          department_id: string | null
-          facility_id: string | null
+          effective_from: string
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          specialty_id: string | null
-          user_id: string
-          workspace_id: string | null
+          staff_id: string
+          updated_at: string
+          vacation_type_id: string
         }
         Insert: {
+          accrual_method?: string
+          annual_days?: number
+          carry_over_cap?: number
           created_at?: string
           created_by?: string | null
-          department_id?: string | null
-          facility_id?: string | null
+          effective_from?: string
           id?: string
-          role: Database["public"]["Enums"]["app_role"]
-          specialty_id?: string | null
-          user_id: string
-          workspace_id?: string | null
+          staff_id: string
+          updated_at?: string
+          vacation_type_id: string
         }
         Update: {
+          accrual_method?: string
+          annual_days?: number
+          carry_over_cap?: number
           created_at?: string
           created_by?: string | null
-          department_id?: string | null
-          facility_id?: string | null
+          effective_from?: string
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          specialty_id?: string | null
-          user_id?: string
-          workspace_id?: string | null
+          staff_id?: string
+          updated_at?: string
+          vacation_type_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "fk_user_roles_department"
-            columns: ["department_id"]
-            isOneToOne: false
-            referencedRelation: "departments"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "fk_user_roles_facility"
-            columns: ["facility_id"]
-            isOneToOne: false
-            referencedRelation: "facilities"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "user_roles_specialty_id_fkey"
-            columns: ["specialty_id"]
-            isOneToOne: false
-            referencedRelation: "departments"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "user_roles_user_id_profiles_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "vacation_entitlements_staff_id_fkey"
+            columns: ["staff_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "user_roles_workspace_id_fkey"
-            columns: ["workspace_id"]
+            foreignKeyName: "vacation_entitlements_vacation_type_id_fkey"
+            columns: ["vacation_type_id"]
             isOneToOne: false
-            referencedRelation: "workspaces"
+            referencedRelation: "vacation_types"
             referencedColumns: ["id"]
           },
         ]
       }
-      vacation_approvals: {
+      vacation_payroll_export_layouts: {
         Row: {
-          approval_level: number
-          approver_id: string
-          comments: string | null
-          conflict_reason: string | null
-          conflicting_plans: Json | null
+          columns: Json
           created_at: string
-          has_conflict: boolean | null
+          date_format: string
           id: string
-          status: string
+          organization_id: string
           updated_at: string
-          vacation_plan_id: string
+          updated_by: string | null
         }
         Insert: {
-          approval_level: number
-          approver_id: string
-          comments?: string | null
-          conflict_reason?: string | null
-          conflicting_plans?: Json | null
+          columns?: Json
           created_at?: string
-          has_conflict?: boolean | null
+          date_format?: string
           id?: string
-          status: string
+          organization_id: string
           updated_at?: string
-          vacation_plan_id: string
+          updated_by?: string | null
         }
         Update: {
-          approval_level?: number
-          approver_id?: string
-          comments?: string | null
-          conflict_reason?: string | null
-          conflicting_plans?: Json | null
+          columns?: Json
           created_at?: string
-          has_conflict?: boolean | null
+          date_format?: string
           id?: string
-          status?: string
+          organization_id?: string
           updated_at?: string
-          vacation_plan_id?: string
+          updated_by?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "vacation_approvals_approver_id_fkey"
-            columns: ["approver_id"]
-            isOneToOne: false
-            referencedRelation: "profiles"
+            foreignKeyName: "vacation_payroll_export_layouts_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "vacation_approvals_vacation_plan_id_fkey"
-            columns: ["vacation_plan_id"]
+            foreignKeyName: "vacation_payroll_export_layouts_updated_by_fkey"
+            columns: ["updated_by"]
             isOneToOne: false
-            referencedRelation: "vacation_plans"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
       vacation_plans: {
         Row: {
+          amends_plan_id: string | null
           created_at: string
           created_by: string
           department_id: string
@@ -1392,12 +2540,14 @@ export type Database = {
           notes: string | null
           staff_id: string
           status: string
+          status_changed_at: string
           submitted_at: string | null
           total_days: number
           updated_at: string
           vacation_type_id: string
         }
         Insert: {
+          amends_plan_id?: string | null
           created_at?: string
           created_by: string
           department_id: string
@@ -1405,12 +2555,14 @@ export type Database = {
           notes?: string | null
           staff_id: string
           status?: string
+          status_changed_at?: string
           submitted_at?: string | null
           total_days: number
           updated_at?: string
           vacation_type_id: string
         }
         Update: {
+          amends_plan_id?: string | null
           created_at?: string
           created_by?: string
           department_id?: string
@@ -1418,12 +2570,20 @@ export type Database = {
           notes?: string | null
           staff_id?: string
           status?: string
+          status_changed_at?: string
           submitted_at?: string | null
           total_days?: number
           updated_at?: string
           vacation_type_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "vacation_plans_amends_plan_id_fkey"
+            columns: ["amends_plan_id"]
+            isOneToOne: false
+            referencedRelation: "vacation_plans"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "vacation_plans_created_by_fkey"
             columns: ["created_by"]
@@ -1454,38 +2614,111 @@ export type Database = {
           },
         ]
       }
+      vacation_rule_overrides: {
+        Row: {
+          created_at: string
+          id: string
+          overridden_by: string
+          reason: string
+          stage: string
+          vacation_plan_id: string
+          violations: Json
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          overridden_by: string
+          reason: string
+          stage: string
+          vacation_plan_id: string
+          violations?: Json
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          overridden_by?: string
+          reason?: string
+          stage?: string
+          vacation_plan_id?: string
+          violations?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vacation_rule_overrides_overridden_by_fkey"
+            columns: ["overridden_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vacation_rule_overrides_vacation_plan_id_fkey"
+            columns: ["vacation_plan_id"]
+            isOneToOne: false
+            referencedRelation: "vacation_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       vacation_splits: {
         Row: {
+          change_type: string | null
           conflict_data: Json | null
           created_at: string
+          day_portion: string
           days: number
           end_date: string
+          end_time: string | null
           id: string
+          original_end_date: string | null
+          original_split_id: string | null
+          original_start_date: string | null
           start_date: string
+          start_time: string | null
           status: string | null
           vacation_plan_id: string
         }
         Insert: {
+          change_type?: string | null
           conflict_data?: Json | null
           created_at?: string
+          day_portion?: string
           days: number
           end_date: string
+          end_time?: string | null
           id?: string
+          original_end_date?: string | null
+          original_split_id?: string | null
+          original_start_date?: string | null
           start_date: string
+          start_time?: string | null
           status?: string | null
           vacation_plan_id: string
         }
         Update: {
+          change_type?: string | null
           conflict_data?: Json | null
           created_at?: string
+          day_portion?: string
           days?: number
           end_date?: string
+          end_time?: string | null
           id?: string
+          original_end_date?: string | null
+          original_split_id?: string | null
+          original_start_date?: string | null
           start_date?: string
+          start_time?: string | null
           status?: string | null
           vacation_plan_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "vacation_splits_original_split_id_fkey"
+            columns: ["original_split_id"]
+            isOneToOne: false
+            referencedRelation: "vacation_splits"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "vacation_splits_vacation_plan_id_fkey"
             columns: ["vacation_plan_id"]
@@ -1654,6 +2887,7 @@ export type Database = {
           organization_id: string | null
           updated_at: string
           vacation_year_start_month: number | null
+          work_week_days: number[]
         }
         Insert: {
           created_at?: string
@@ -1666,6 +2900,7 @@ export type Database = {
           organization_id?: string | null
           updated_at?: string
           vacation_year_start_month?: number | null
+          work_week_days?: number[]
         }
         Update: {
           created_at?: string
@@ -1678,6 +2913,7 @@ export type Database = {
           organization_id?: string | null
           updated_at?: string
           vacation_year_start_month?: number | null
+          work_week_days?: number[]
         }
         Relationships: [
           {
@@ -1694,10 +2930,79 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_shift_swap: { Args: { _request_id: string }; Returns: undefined }
+      approve_vacation_plan: {
+        Args: {
+          _action?: string
+          _approval_level: number
+          _comments?: string
+          _conflict_reason?: string
+          _override_reason?: string
+          _split_ids?: string[]
+          _vacation_plan_id: string
+        }
+        Returns: Json
+      }
+      calculate_vacation_accrual: {
+        Args: {
+          _accrual_method: string
+          _annual_days: number
+          _as_of: string
+          _effective_from: string
+          _year_start: string
+        }
+        Returns: number
+      }
+      calculate_vacation_balance: {
+        Args: { _as_of?: string; _staff_id: string; _vacation_type_id: string }
+        Returns: Json
+      }
+      can_manage_facility_scheduling: {
+        Args: { _facility_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_manage_schedule: {
+        Args: { _schedule_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_manage_staff_vacation: {
+        Args: { _staff_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_review_time_entry: {
+        Args: { _department_id: string; _staff_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_schedule_staff: {
+        Args: { _staff_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_upload_vacation_document: {
+        Args: { _user_id: string; _vacation_plan_id: string }
+        Returns: boolean
+      }
       can_view_task: {
         Args: { _task_id: string; _user_id: string }
         Returns: boolean
       }
+      cancel_shift_swap: { Args: { _request_id: string }; Returns: undefined }
+      check_labor_rules: {
+        Args: {
+          _assignments: Json
+          _exclude_assignment_ids?: string[]
+          _staff_id: string
+        }
+        Returns: Json
+      }
+      check_shift_swap_eligibility: {
+        Args: {
+          _assignment_id: string
+          _min_rest_hours?: number
+          _released_assignment_id?: string
+          _taker_id: string
+        }
+        Returns: Json
+      }
       check_user_vacation_overlap: {
         Args: { _splits: Json; _staff_id: string }
         Returns: Json
@@ -1706,6 +3011,106 @@ export type Database = {
         Args: { _department_id: string; _vacation_plan_id: string }
         Returns: Json
       }
+      check_vacation_guardrails: {
+        Args: { _vacation_plan_ids: string[] }
+        Returns: Json
+      }
+      check_vacation_rule_values: {
+        Args: {
+          _department_id: string
+          _exclude_plan_id: string
+          _max_concurrent_vacations: number
+          _max_vacation_splits: number
+          _min_vacation_notice_days: number
+          _reference_date: string
+          _splits: Json
+          _staff_id: string
+          _submitted_before?: string
+        }
+        Returns: Json
+      }
+      check_vacation_rules: {
+        Args: {
+          _department_id: string
+          _exclude_plan_id?: string
+          _reference_date?: string
+          _splits: Json
+          _staff_id: string
+        }
+        Returns: Json
+      }
+      check_vacation_staffing: {
+        Args: {
+          _department_id: string
+          _end_date: string
+          _staff_id: string
+          _start_date: string
+        }
+        Returns: Json
+      }
+      clock_in: { Args: { _assignment_id: string }; Returns: string }
+      clock_out: { Args: { _entry_id: string }; Returns: undefined }
+      count_working_days: {
+        Args: { _department_id: string; _end_date: string; _start_date: string }
+        Returns: number
+      }
+      duplicate_schedule: {
+        Args: {
+          _copy_assignments?: boolean
+          _end_date: string
+          _name?: string
+          _schedule_id: string
+          _start_date: string
+        }
+        Returns: Json
+      }
+      escalate_vacation_approval: {
+        Args: { _approval_level: number; _vacation_plan_id: string }
+        Returns: Json
+      }
+      get_labor_rule_work: {
+        Args: {
+          _assignments: Json
+          _exclude_assignment_ids?: string[]
+          _staff_id: string
+        }
+        Returns: {
+          assignment_date: string
+          hours: number
+          is_night: boolean
+          item_index: number
+          proposed: boolean
+          shift_end: string
+          shift_name: string
+          shift_start: string
+        }[]
+      }
+      get_labor_rules: {
+        Args: { _department_id: string }
+        Returns: {
+          hard_rules: string[]
+          max_consecutive_days: number
+          max_hours_per_day: number
+          max_hours_per_month: number
+          max_hours_per_week: number
+          max_nights_per_month: number
+          min_rest_hours: number
+          source: string
+        }[]
+      }
+      get_next_vacation_status: {
+        Args: { _completed_level?: number; _vacation_plan_id: string }
+        Returns: string
+      }
+      get_schedule_snapshot: { Args: { _schedule_id: string }; Returns: Json }
+      get_shift_swap_reviewers: {
+        Args: { _request_id: string }
+        Returns: string[]
+      }
+      get_uncovered_vacation_rule_violations: {
+        Args: { _stage: string; _vacation_plan_id: string; _violations: Json }
+        Returns: Json
+      }
       get_user_modules: {
         Args: { _user_id: string }
         Returns: {
@@ -1719,10 +3124,76 @@ export type Database = {
         }[]
       }
       get_user_workspaces: { Args: { _user_id: string }; Returns: string[] }
+      get_vacation_approval_chain: {
+        Args: { _vacation_plan_id: string }
+        Returns: number[]
+      }
+      get_vacation_approval_scope: {
+        Args: { _approval_level: number; _department_id: string }
+        Returns: string
+      }
+      get_vacation_approval_sla_status: {
+        Args: never
+        Returns: {
+          approval_level: number
+          deadline_days: number
+          department_id: string
+          escalate_to: string
+          escalated: boolean
+          pending_days: number
+          pending_since: string
+          reminder_days_before: number
+          reminder_sent: boolean
+          staff_id: string
+          vacation_plan_id: string
+          workspace_id: string
+        }[]
+      }
+      get_vacation_approver: {
+        Args: { _approval_level: number; _department_id: string }
+        Returns: string
+      }
+      get_vacation_balance: {
+        Args: { _as_of?: string; _staff_id: string; _vacation_type_id: string }
+        Returns: Json
+      }
+      get_vacation_blackouts: {
+        Args: { _department_id: string; _end_date: string; _start_date: string }
+        Returns: Json
+      }
+      get_vacation_carry_over: {
+        Args: {
+          _staff_id: string
+          _vacation_type_id: string
+          _year_start: string
+        }
+        Returns: number
+      }
+      get_vacation_delegator: {
+        Args: {
+          _approval_level: number
+          _delegate_id: string
+          _on_date?: string
+          _scope_id: string
+        }
+        Returns: string
+      }
+      get_vacation_level_status: {
+        Args: { _approval_level: number }
+        Returns: string
+      }
+      get_vacation_year_start: {
+        Args: { _as_of?: string; _staff_id: string }
+        Returns: string
+      }
       has_module_access: {
         Args: { _module_key: string; _user_id: string }
         Returns: boolean
       }
+      has_module_admin_access: {
+        Args: { _module_key: string; _user_id: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1738,10 +3209,137 @@ export type Database = {
         }
         Returns: boolean
       }
+      has_vacation_documentation: {
+        Args: { _vacation_plan_id: string }
+        Returns: boolean
+      }
+      is_vacation_approval_delegate: {
+        Args: {
+          _approval_level: number
+          _department_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_vacation_approver: {
+        Args: { _approval_level: number; _scope_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_vacation_escalation_admin: {
+        Args: { _user_id: string; _vacation_plan_id: string }
+        Returns: boolean
+      }
+      publish_schedule: {
+        Args: { _note?: string; _schedule_id: string }
+        Returns: Json
+      }
+      record_time_entry: {
+        Args: {
+          _assignment_id: string
+          _clock_in_at: string
+          _clock_out_at: string
+          _comment?: string
+        }
+        Returns: string
+      }
+      replay_vacation_plan_rules: {
+        Args: {
+          _max_concurrent_vacations: number
+          _max_vacation_splits: number
+          _min_vacation_notice_days: number
+          _vacation_plan_id: string
+        }
+        Returns: Json
+      }
+      request_shift_swap: {
+        Args: {
+          _assignment_id: string
+          _notes?: string
+          _target_assignment_id?: string
+        }
+        Returns: string
+      }
+      request_vacation_amendment: {
+        Args: {
+          _changes: Json
+          _notes?: string
+          _override_reason?: string
+          _vacation_plan_id: string
+        }
+        Returns: Json
+      }
+      review_shift_swap: {
+        Args: { _approve: boolean; _comment?: string; _request_id: string }
+        Returns: undefined
+      }
+      review_time_entry: {
+        Args: {
+          _approve: boolean
+          _clock_in_at?: string
+          _clock_out_at?: string
+          _comment?: string
+          _entry_id: string
+        }
+        Returns: undefined
+      }
+      review_vacation_document: {
+        Args: { _document_id: string; _notes?: string; _status: string }
+        Returns: undefined
+      }
+      rollback_schedule: {
+        Args: { _note?: string; _revision_number: number; _schedule_id: string }
+        Returns: Json
+      }
+      shift_period: {
+        Args: {
+          _assignment_date: string
+          _end_time: string
+          _start_time: string
+        }
+        Returns: unknown
+      }
+      simulate_vacation_rules: {
+        Args: {
+          _max_concurrent_vacations: number
+          _max_vacation_splits: number
+          _min_vacation_notice_days: number
+          _months?: number
+          _workspace_id: string
+        }
+        Returns: {
+          current_violations: Json
+          department_id: string
+          department_name: string
+          proposed_violations: Json
+          staff_id: string
+          staff_name: string
+          status: string
+          submitted_at: string
+          vacation_plan_id: string
+        }[]
+      }
       user_has_conversation_access: {
         Args: { conversation_uuid: string; user_uuid: string }
         Returns: boolean
       }
+      vacation_split_hours: {
+        Args: { _day_portion: string; _end_time: string; _start_time: string }
+        Returns: unknown
+      }
+      vacation_split_period: {
+        Args: {
+          _day_portion: string
+          _end_date: string
+          _end_time: string
+          _start_date: string
+          _start_time: string
+        }
+        Returns: unknown
+      }
+      validate_vacation_plan_rules: {
+        Args: { _split_ids?: string[]; _vacation_plan_id: string }
+        Returns: Json
+      }
     }
     Enums: {
       app_role:
@@ -0,0 +1,191 @@
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { getShiftHours, isNightShift, type ShiftTimes } from '@/lib/shiftTimes';
+
+export type LaborRuleKey =
+  | 'min_rest_hours'
+  | 'max_hours_per_day'
+  | 'max_hours_per_week'
+  | 'max_hours_per_month'
+  | 'max_consecutive_days'
+  | 'max_nights_per_month';
+
+export type LaborRuleLevel = 'hard' | 'soft';
+
+export interface LaborRuleViolation {
+  rule: LaborRuleKey;
+  level: LaborRuleLevel;
+  /** Day, first day of the week/month or start of the run the violation is about */
+  date: string;
+  limit: number;
+  actual: number;
+  message: string;
+}
+
+export const LABOR_RULE_LABELS: Record<LaborRuleKey, string> = {
+  min_rest_hours: 'Minimum Rest Between Shifts',
+  max_hours_per_day: 'Maximum Hours per Day',
+  max_hours_per_week: 'Maximum Hours per Week',
+  max_hours_per_month: 'Maximum Hours per Month',
+  max_consecutive_days: 'Maximum Consecutive Days',
+  max_nights_per_month: 'Maximum Nights per Month',
+};
+
+export const LABOR_RULE_UNITS: Record<LaborRuleKey, string> = {
+  min_rest_hours: 'hours',
+  max_hours_per_day: 'hours',
+  max_hours_per_week: 'hours',
+  max_hours_per_month: 'hours',
+  max_consecutive_days: 'days',
+  max_nights_per_month: 'nights',
+};
+
+export const LABOR_RULE_KEYS = Object.keys(LABOR_RULE_LABELS) as LaborRuleKey[];
+
+/** Rules in force for a department, as returned by get_labor_rules; null limits are not checked */
+export type LaborRuleSet = Record<LaborRuleKey, number | null> & {
+  source: 'facility' | 'workspace' | 'default';
+  hard_rules: LaborRuleKey[];
+};
+
+/** Same fallback as get_labor_rules when neither the facility nor the workspace has rules */
+export const DEFAULT_LABOR_RULE_SET: LaborRuleSet = {
+  source: 'default',
+  min_rest_hours: 11,
+  max_hours_per_day: null,
+  max_hours_per_week: null,
+  max_hours_per_month: null,
+  max_consecutive_days: null,
+  max_nights_per_month: null,
+  hard_rules: ['min_rest_hours'],
+};
+
+export const fetchLaborRules = async (departmentId: string): Promise<LaborRuleSet> => {
+  const { data, error } = await supabase.rpc('get_labor_rules', { _department_id: departmentId });
+  if (error) throw error;
+  return (data?.[0] as unknown as LaborRuleSet) || DEFAULT_LABOR_RULE_SET;
+};
+
+/** Hard limit of a rule, or null when the rule is off or only warns */
+export const getHardLaborRuleLimit = (rules: LaborRuleSet, rule: LaborRuleKey) =>
+  rules.hard_rules.includes(rule) ? rules[rule] : null;
+
+export interface LaborRuleShift extends ShiftTimes {
+  assignment_date: string;
+}
+
+const getWeekStart = (date: string) => format(startOfWeek(parseISO(date), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+const sumShiftHours = (shifts: LaborRuleShift[]) => shifts.reduce((sum, shift) => sum + getShiftHours(shift), 0);
+
+const getConsecutiveDays = (dates: Set<string>, date: string, step: 1 | -1) => {
+  let days = 0;
+  let day = addDays(parseISO(date), step);
+  while (dates.has(format(day, 'yyyy-MM-dd'))) {
+    days++;
+    day = addDays(day, step);
+  }
+  return days;
+};
+
+/**
+ * Hard hour, night and consecutive-day limits one more shift would break, counted like
+ * check_labor_rules: by assignment date, ISO weeks and calendar months. Rest between shifts is
+ * left to the caller, which knows the shift times around it.
+ */
+export const getHardLaborRuleBreach = (
+  rules: LaborRuleSet,
+  shifts: LaborRuleShift[],
+  candidate: LaborRuleShift
+): LaborRuleKey | null => {
+  const date = candidate.assignment_date;
+  const all = [...shifts, candidate];
+  const sameMonth = all.filter(shift => shift.assignment_date.slice(0, 7) === date.slice(0, 7));
+
+  const limits: [LaborRuleKey, number][] = [
+    ['max_hours_per_day', sumShiftHours(all.filter(shift => shift.assignment_date === date))],
+    ['max_hours_per_week', sumShiftHours(all.filter(shift => getWeekStart(shift.assignment_date) === getWeekStart(date)))],
+    ['max_hours_per_month', sumShiftHours(sameMonth)],
+    ['max_nights_per_month', isNightShift(candidate) ? sameMonth.filter(isNightShift).length : 0],
+  ];
+  const breach = limits.find(([rule, actual]) => {
+    const limit = getHardLaborRuleLimit(rules, rule);
+    return limit !== null && actual > limit;
+  });
+  if (breach) return breach[0];
+
+  const maxConsecutiveDays = getHardLaborRuleLimit(rules, 'max_consecutive_days');
+  if (maxConsecutiveDays !== null) {
+    const dates = new Set(all.map(shift => shift.assignment_date));
+    const run = getConsecutiveDays(dates, date, -1) + 1 + getConsecutiveDays(dates, date, 1);
+    if (run > maxConsecutiveDays) return 'max_consecutive_days';
+  }
+
+  return null;
+};
+
+/**
+ * Whether a violation returned by check_labor_rules concerns a proposed shift: the same day for rest and
+ * daily hours, the same week or month, or a day inside the consecutive-day run
+ */
+export const laborRuleViolationCovers = (violation: LaborRuleViolation, shift: LaborRuleShift) => {
+  const date = shift.assignment_date;
+  switch (violation.rule) {
+    case 'max_hours_per_week':
+      return getWeekStart(date) === violation.date;
+    case 'max_hours_per_month':
+      return date.slice(0, 7) === violation.date.slice(0, 7);
+    case 'max_nights_per_month':
+      return isNightShift(shift) && date.slice(0, 7) === violation.date.slice(0, 7);
+    case 'max_consecutive_days':
+      return date >= violation.date
+        && date <= format(addDays(parseISO(violation.date), violation.actual - 1), 'yyyy-MM-dd');
+    default:
+      return date === violation.date;
+  }
+};
+
+export interface ProposedShiftAssignment {
+  shift_id: string;
+  assignment_date: string;
+}
+
+/**
+ * Check assignments a staff member does not have yet against the labor rules of the shift's department
+ */
+export const checkLaborRules = async (
+  staffId: string,
+  assignments: ProposedShiftAssignment[],
+  excludeAssignmentIds?: string[]
+) => {
+  const { data, error } = await supabase.rpc('check_labor_rules', {
+    _staff_id: staffId,
+    _assignments: assignments.map(({ shift_id, assignment_date }) => ({ shift_id, assignment_date })),
+    _exclude_assignment_ids: excludeAssignmentIds,
+  });
+
+  if (error) throw error;
+  return (data || []) as unknown as LaborRuleViolation[];
+};
+
+/**
+ * Extract hard violations raised by the enforce_labor_rules trigger (LABOR_RULE_VIOLATIONS with JSON details)
+ */
+export const parseLaborRuleViolations = (
+  error: { message?: string; details?: string } | null
+): LaborRuleViolation[] | null => {
+  if (error?.message !== 'LABOR_RULE_VIOLATIONS' || !error.details) return null;
+
+  try {
+    return JSON.parse(error.details);
+  } catch {
+    return null;
+  }
+};
+
+/** Readable error for a failed save, listing labor rule violations when present */
+export const getLaborRuleErrorMessage = (error: { message?: string; details?: string } | null, fallback: string) => {
+  const violations = parseLaborRuleViolations(error);
+  if (violations?.length) return violations.map(violation => violation.message).join('. ');
+  return error?.message || fallback;
+};
@@ -0,0 +1,398 @@
+import { addDays, differenceInMinutes, eachDayOfInterval, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  LABOR_RULE_LABELS,
+  checkLaborRules,
+  fetchLaborRules,
+  getHardLaborRuleBreach,
+  getHardLaborRuleLimit,
+  laborRuleViolationCovers,
+  type LaborRuleSet,
+} from '@/lib/laborRules';
+import { isActiveVacationSplit } from '@/lib/vacationAmendments';
+import { getShiftInterval, isNightShift } from '@/lib/shiftTimes';
+import { vacationSplitOverlapsShift } from '@/lib/vacationDayPortions';
+import { DEFAULT_WORK_WEEK } from '@/lib/workingDays';
+
+/** Minimum hours between the end of one shift and the start of the next (EU working time default) */
+export const DEFAULT_MIN_REST_HOURS = 11;
+
+export interface RosterShift {
+  id: string;
+  name: string;
+  start_time: string;
+  end_time: string;
+  required_staff: number;
+  color?: string | null;
+  shift_order?: number;
+}
+
+export interface RosterStaff {
+  id: string;
+  name: string;
+  specialty_ids: string[];
+}
+
+export interface RosterAssignment {
+  shift_id: string;
+  staff_id: string;
+  assignment_date: string;
+}
+
+/** An assignment outside the draft (already saved, possibly in another schedule) */
+export interface RosterBusyAssignment extends RosterAssignment {
+  start_time: string;
+  end_time: string;
+}
+
+export interface RosterAbsence {
+  staff_id: string;
+  start_date: string;
+  end_date: string;
+  day_portion?: string | null;
+  start_time?: string | null;
+  end_time?: string | null;
+}
+
+export interface RosterInput {
+  startDate: string;
+  endDate: string;
+  shifts: RosterShift[];
+  staff: RosterStaff[];
+  existing: RosterBusyAssignment[];
+  absences: RosterAbsence[];
+  workWeek: number[];
+  /** Labor rules of the schedule's department; hard limits are never broken */
+  laborRules: LaborRuleSet;
+}
+
+export interface RosterOptions {
+  /** Raised to the hard rest rule of the labor rules when lower */
+  minRestHours: number;
+  /** Only members of this specialty can fill the shift */
+  shiftSpecialties: Record<string, string | undefined>;
+}
+
+/** Options for builders without their own settings: the department's rest rule, any specialty */
+export const getDefaultRosterOptions = (input: RosterInput): RosterOptions => ({
+  minRestHours: input.laborRules.min_rest_hours ?? DEFAULT_MIN_REST_HOURS,
+  shiftSpecialties: {},
+});
+
+export interface RosterGap {
+  shift_id: string;
+  assignment_date: string;
+  missing: number;
+}
+
+export interface RosterLoad {
+  total: number;
+  nights: number;
+  weekends: number;
+}
+
+export const isWeekendDate = (date: string, workWeek: number[]) =>
+  !workWeek.includes(parseISO(date).getDay());
+
+const hoursBetween = (
+  a: { start_time: string; end_time: string; assignment_date: string },
+  b: { start_time: string; end_time: string; assignment_date: string }
+) => {
+  const first = getShiftInterval(a.assignment_date, a);
+  const second = getShiftInterval(b.assignment_date, b);
+  // Negative when the shifts overlap
+  return Math.max(
+    differenceInMinutes(second.start, first.end),
+    differenceInMinutes(first.start, second.end)
+  ) / 60;
+};
+
+/**
+ * Why a staff member cannot take a shift on a date given the other assignments, or null if they can
+ */
+export const getRosterConflict = (
+  input: RosterInput,
+  options: RosterOptions,
+  assignments: RosterAssignment[],
+  staffId: string,
+  shift: RosterShift,
+  date: string
+) => {
+  const member = input.staff.find(s => s.id === staffId);
+  const specialtyId = options.shiftSpecialties[shift.id];
+  if (specialtyId && !member?.specialty_ids.includes(specialtyId)) {
+    return 'Not in the required specialty';
+  }
+
+  const onVacation = input.absences.some(absence =>
+    absence.staff_id === staffId && vacationSplitOverlapsShift(absence, date, shift)
+  );
+  if (onVacation) return 'On approved vacation';
+
+  const candidate = { ...shift, assignment_date: date };
+  const shiftsById = new Map(input.shifts.map(s => [s.id, s]));
+  const busy = [
+    ...input.existing.filter(a => a.staff_id === staffId),
+    ...assignments
+      .filter(a => a.staff_id === staffId && shiftsById.has(a.shift_id))
+      .map(a => ({ ...a, ...shiftsById.get(a.shift_id)! })),
+  ];
+
+  const minRestHours = Math.max(options.minRestHours, getHardLaborRuleLimit(input.laborRules, 'min_rest_hours') ?? 0);
+  for (const other of busy) {
+    if (other.shift_id === shift.id && other.assignment_date === date) return 'Already assigned';
+    const gap = hoursBetween(other, candidate);
+    if (gap < 0) return 'Overlaps another shift';
+    if (gap < minRestHours) return `Less than ${minRestHours}h rest between shifts`;
+  }
+
+  const breach = getHardLaborRuleBreach(input.laborRules, busy, candidate);
+  if (breach) return `Over the ${LABOR_RULE_LABELS[breach].toLowerCase()}`;
+
+  return null;
+};
+
+/**
+ * Shifts, nights and weekend shifts per staff member across saved and draft assignments of the schedule
+ */
+export const getRosterLoad = (input: RosterInput, assignments: RosterAssignment[]) => {
+  const shiftsById = new Map(input.shifts.map(shift => [shift.id, shift]));
+  const load = new Map<string, RosterLoad>(input.staff.map(member => [member.id, { total: 0, nights: 0, weekends: 0 }]));
+
+  [...input.existing, ...assignments].forEach(assignment => {
+    const shift = shiftsById.get(assignment.shift_id);
+    const entry = load.get(assignment.staff_id);
+    if (!shift || !entry) return;
+    entry.total += 1;
+    if (isNightShift(shift)) entry.nights += 1;
+    if (isWeekendDate(assignment.assignment_date, input.workWeek)) entry.weekends += 1;
+  });
+
+  return load;
+};
+
+/**
+ * Eligible staff for a slot, least loaded first (nights for night shifts, weekends on weekend days)
+ */
+export const getRosterCandidates = (
+  input: RosterInput,
+  options: RosterOptions,
+  assignments: RosterAssignment[],
+  shift: RosterShift,
+  date: string,
+  load: Map<string, RosterLoad> = getRosterLoad(input, assignments)
+) => {
+  const night = isNightShift(shift);
+  const weekend = isWeekendDate(date, input.workWeek);
+
+  return input.staff
+    .filter(member => !getRosterConflict(input, options, assignments, member.id, shift, date))
+    .sort((a, b) => {
+      const loadA = load.get(a.id)!;
+      const loadB = load.get(b.id)!;
+      return (night ? loadA.nights - loadB.nights : 0) ||
+        (weekend ? loadA.weekends - loadB.weekends : 0) ||
+        loadA.total - loadB.total ||
+        a.name.localeCompare(b.name);
+    });
+};
+
+/**
+ * Greedily fill every shift of the schedule up to required_staff, day by day in shift order.
+ * Saved assignments of the schedule count towards the required staff and are kept.
+ */
+export const generateRoster = (input: RosterInput, options: RosterOptions) => {
+  const assignments: RosterAssignment[] = [];
+  const gaps: RosterGap[] = [];
+  const load = getRosterLoad(input, []);
+  const shifts = [...input.shifts].sort((a, b) => a.start_time.localeCompare(b.start_time));
+
+  eachDayOfInterval({ start: parseISO(input.startDate), end: parseISO(input.endDate) }).forEach(day => {
+    const date = format(day, 'yyyy-MM-dd');
+
+    shifts.forEach(shift => {
+      const saved = input.existing.filter(a => a.shift_id === shift.id && a.assignment_date === date).length;
+      let missing = shift.required_staff - saved;
+
+      while (missing > 0) {
+        const [candidate] = getRosterCandidates(input, options, assignments, shift, date, load);
+        if (!candidate) break;
+
+        assignments.push({ shift_id: shift.id, staff_id: candidate.id, assignment_date: date });
+        const entry = load.get(candidate.id)!;
+        entry.total += 1;
+        if (isNightShift(shift)) entry.nights += 1;
+        if (isWeekendDate(date, input.workWeek)) entry.weekends += 1;
+        missing--;
+      }
+
+      if (missing > 0) gaps.push({ shift_id: shift.id, assignment_date: date, missing });
+    });
+  });
+
+  return { assignments, gaps };
+};
+
+/** PostgREST returns at most this many rows per request */
+const ASSIGNMENT_PAGE_SIZE = 1000;
+
+/** Days of saved assignments loaded either side of the schedule, as check_labor_rules reads */
+const LABOR_RULE_HISTORY_DAYS = 40;
+
+const fetchBusyAssignments = async (staffIds: string[], from: string, to: string) => {
+  const assignments: RosterBusyAssignment[] = [];
+  if (staffIds.length === 0) return assignments;
+
+  for (let offset = 0; ; offset += ASSIGNMENT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('shift_assignments')
+      .select('id, shift_id, staff_id, assignment_date, shifts (start_time, end_time)')
+      .in('staff_id', staffIds)
+      .neq('status', 'cancelled')
+      .gte('assignment_date', from)
+      .lte('assignment_date', to)
+      .order('id')
+      .range(offset, offset + ASSIGNMENT_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    (data || []).forEach(assignment => {
+      if (!assignment.shifts) return;
+      assignments.push({
+        shift_id: assignment.shift_id,
+        staff_id: assignment.staff_id,
+        assignment_date: assignment.assignment_date,
+        start_time: assignment.shifts.start_time,
+        end_time: assignment.shifts.end_time,
+      });
+    });
+    if (!data || data.length < ASSIGNMENT_PAGE_SIZE) return assignments;
+  }
+};
+
+/**
+ * Load everything roster generation needs for a schedule: department (or specialty) staff,
+ * saved assignments around the schedule, approved vacations, the work week and the labor rules
+ */
+export const fetchRosterInput = async (scheduleId: string): Promise<RosterInput> => {
+  const { data: schedule, error: scheduleError } = await supabase
+    .from('schedules')
+    .select('id, department_id, start_date, end_date, shifts (id, name, start_time, end_time, required_staff, color, shift_order)')
+    .eq('id', scheduleId)
+    .single();
+  if (scheduleError) throw scheduleError;
+
+  const { data: department } = await supabase
+    .from('departments')
+    .select('parent_department_id, facilities (work_week_days, workspaces (work_week_days))')
+    .eq('id', schedule.department_id)
+    .maybeSingle();
+
+  // Specialties are staffed by their members, like the department staffing check
+  let rolesQuery = supabase
+    .from('user_roles')
+    .select('user_id, specialty_id, profiles:user_id (id, full_name)')
+    .in('role', ['staff', 'department_head']);
+  rolesQuery = department?.parent_department_id
+    ? rolesQuery.eq('specialty_id', schedule.department_id)
+    : rolesQuery.eq('department_id', schedule.department_id);
+  const { data: roles, error: rolesError } = await rolesQuery;
+  if (rolesError) throw rolesError;
+
+  const staffById = new Map<string, RosterStaff>();
+  (roles || []).forEach(role => {
+    if (!role.profiles?.id) return;
+    const member = staffById.get(role.user_id) || { id: role.user_id, name: role.profiles.full_name || 'Unknown', specialty_ids: [] };
+    if (role.specialty_id && !member.specialty_ids.includes(role.specialty_id)) member.specialty_ids.push(role.specialty_id);
+    staffById.set(role.user_id, member);
+  });
+  const staff = Array.from(staffById.values()).sort((a, b) => a.name.localeCompare(b.name));
+  const staffIds = staff.map(member => member.id);
+
+  // Enough history either side for rest periods, monthly limits and consecutive-day runs
+  const from = format(addDays(parseISO(schedule.start_date), -LABOR_RULE_HISTORY_DAYS), 'yyyy-MM-dd');
+  const to = format(addDays(parseISO(schedule.end_date), LABOR_RULE_HISTORY_DAYS), 'yyyy-MM-dd');
+
+  const [existing, laborRules, { data: plans, error: plansError }] = await Promise.all([
+    fetchBusyAssignments(staffIds, from, to),
+    fetchLaborRules(schedule.department_id),
+    staffIds.length
+      ? supabase
+          .from('vacation_plans')
+          .select('id, staff_id, status, amends_plan_id, vacation_splits (start_date, end_date, status, change_type, day_portion, start_time, end_time)')
+          .in('staff_id', staffIds)
+          .eq('status', 'approved')
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (plansError) throw plansError;
+
+  const absences: RosterAbsence[] = (plans || []).flatMap(plan =>
+    (plan.vacation_splits || [])
+      .filter(split => isActiveVacationSplit(split, plan))
+      .filter(split => split.end_date >= schedule.start_date && split.start_date <= to)
+      .map(split => ({ ...split, staff_id: plan.staff_id }))
+  );
+
+  const facility = department?.facilities;
+  const workWeek = facility?.work_week_days?.length
+    ? facility.work_week_days
+    : facility?.workspaces?.work_week_days?.length
+      ? facility.workspaces.work_week_days
+      : DEFAULT_WORK_WEEK;
+
+  return {
+    startDate: schedule.start_date,
+    endDate: schedule.end_date,
+    shifts: schedule.shifts || [],
+    staff,
+    existing,
+    absences,
+    workWeek,
+    laborRules,
+  };
+};
+
+export interface RosterSkip {
+  assignment: RosterAssignment;
+  message: string;
+}
+
+/**
+ * Check draft assignments against the hard labor rules in the database, which also counts shifts
+ * the draft could not see, and split off the ones saving would refuse
+ */
+export const validateRosterAssignments = async (input: RosterInput, assignments: RosterAssignment[]) => {
+  const shiftsById = new Map(input.shifts.map(shift => [shift.id, shift]));
+  const byStaff = new Map<string, RosterAssignment[]>();
+  assignments.forEach(assignment => {
+    byStaff.set(assignment.staff_id, [...(byStaff.get(assignment.staff_id) || []), assignment]);
+  });
+
+  const skipped: RosterSkip[] = [];
+  await Promise.all(Array.from(byStaff.entries()).map(async ([staffId, staffAssignments]) => {
+    const violations = (await checkLaborRules(staffId, staffAssignments))
+      .filter(violation => violation.level === 'hard');
+    staffAssignments.forEach(assignment => {
+      const shift = shiftsById.get(assignment.shift_id);
+      const violation = shift && violations.find(v => laborRuleViolationCovers(v, { ...shift, ...assignment }));
+      if (violation) skipped.push({ assignment, message: violation.message });
+    });
+  }));
+
+  return {
+    valid: assignments.filter(assignment => !skipped.some(skip => skip.assignment === assignment)),
+    skipped,
+  };
+};
+
+/**
+ * Save reviewed draft assignments
+ */
+export const commitRoster = async (assignments: RosterAssignment[], assignedBy: string) => {
+  if (assignments.length === 0) return;
+
+  const { error } = await supabase
+    .from('shift_assignments')
+    .insert(assignments.map(assignment => ({ ...assignment, assigned_by: assignedBy })));
+
+  if (error) throw error;
+};
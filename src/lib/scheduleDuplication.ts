@@ -0,0 +1,87 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  endOfMonth,
+  format,
+  isSameDay,
+  parseISO,
+  startOfMonth,
+} from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+/** Why an assignment of the source schedule was not carried over, from duplicate_schedule */
+export type DuplicationSkipReason = 'vacation' | 'not_in_department' | 'labor_rules' | 'error';
+
+export const DUPLICATION_SKIP_REASON_LABELS: Record<DuplicationSkipReason, string> = {
+  vacation: 'On vacation',
+  not_in_department: 'Left the department',
+  labor_rules: 'Labor rules',
+  error: 'Could not be saved',
+};
+
+export interface DuplicationSkip {
+  staff_id: string;
+  staff_name: string | null;
+  date: string;
+  source_date: string;
+  shift_name: string;
+  reason: DuplicationSkipReason;
+  message: string | null;
+}
+
+export interface DuplicationResult {
+  schedule_id: string;
+  shifts: number;
+  copied: number;
+  skipped: DuplicationSkip[];
+}
+
+/**
+ * Period right after a schedule: the following month(s) for schedules covering whole months,
+ * otherwise the same length starting the day after, so weekdays stay aligned for whole-week schedules
+ */
+export const getNextSchedulePeriod = (startDate: string, endDate: string) => {
+  const start = parseISO(startDate);
+  const end = parseISO(endDate);
+
+  if (isSameDay(start, startOfMonth(start)) && isSameDay(end, endOfMonth(end))) {
+    const months = differenceInCalendarMonths(end, start) + 1;
+    const nextStart = addMonths(start, months);
+    return {
+      startDate: format(nextStart, 'yyyy-MM-dd'),
+      endDate: format(endOfMonth(addMonths(nextStart, months - 1)), 'yyyy-MM-dd'),
+    };
+  }
+
+  const length = differenceInCalendarDays(end, start) + 1;
+  return {
+    startDate: format(addDays(end, 1), 'yyyy-MM-dd'),
+    endDate: format(addDays(end, length), 'yyyy-MM-dd'),
+  };
+};
+
+/**
+ * Copy a schedule and its shifts to a new draft schedule. With copyAssignments, assignments are
+ * repeated on the same weekdays, skipping staff who are on vacation, left the department or would
+ * break the labor rules.
+ */
+export const duplicateSchedule = async (
+  scheduleId: string,
+  startDate: string,
+  endDate: string,
+  name: string,
+  copyAssignments: boolean
+) => {
+  const { data, error } = await supabase.rpc('duplicate_schedule', {
+    _schedule_id: scheduleId,
+    _start_date: startDate,
+    _end_date: endDate,
+    _name: name,
+    _copy_assignments: copyAssignments,
+  });
+
+  if (error) throw error;
+  return data as unknown as DuplicationResult;
+};
@@ -0,0 +1,256 @@
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { formatShiftTimes } from '@/lib/shiftTimes';
+
+export type ScheduleRevision = Tables<'schedule_revisions'>;
+
+/** Shifts and assignments of a schedule as published in a revision */
+export interface ScheduleSnapshot {
+  shifts: Tables<'shifts'>[];
+  assignments: Tables<'shift_assignments'>[];
+}
+
+/** One working day of a staff member as it appears in a snapshot */
+export interface SnapshotShift {
+  date: string;
+  shift_name: string;
+  start_time: string;
+  end_time: string;
+}
+
+/** What changed for one staff member between two snapshots */
+export interface StaffScheduleDiff {
+  staff_id: string;
+  added: SnapshotShift[];
+  removed: SnapshotShift[];
+  moved: { from: SnapshotShift; to: SnapshotShift }[];
+}
+
+interface PublishResult {
+  revision_id: string;
+  revision_number: number;
+  previous: ScheduleSnapshot | null;
+  current: ScheduleSnapshot;
+}
+
+/** Why an assignment of the revision was not restored, from rollback_schedule */
+export type RollbackSkipReason = 'worked' | 'vacation' | 'labor_rules' | 'error';
+
+export interface RollbackSkip {
+  staff_id: string;
+  staff_name: string | null;
+  date: string;
+  shift_name: string;
+  reason: RollbackSkipReason;
+  message: string | null;
+}
+
+interface RollbackResult extends PublishResult {
+  skipped: RollbackSkip[];
+}
+
+export const describeSnapshotShift = (shift: SnapshotShift) =>
+  `${shift.shift_name} on ${format(parseISO(shift.date), 'EEE, MMM d')} (${formatShiftTimes(shift)})`;
+
+const toSnapshotShifts = (snapshot: ScheduleSnapshot | null) => {
+  const shiftsById = new Map((snapshot?.shifts || []).map(shift => [shift.id, shift]));
+  const byId = new Map<string, { staff_id: string; shift: SnapshotShift }>();
+
+  (snapshot?.assignments || [])
+    .filter(assignment => assignment.status !== 'cancelled')
+    .forEach(assignment => {
+      const shift = shiftsById.get(assignment.shift_id);
+      if (!shift) return;
+      byId.set(assignment.id, {
+        staff_id: assignment.staff_id,
+        shift: {
+          date: assignment.assignment_date,
+          shift_name: shift.name,
+          start_time: shift.start_time,
+          end_time: shift.end_time,
+        },
+      });
+    });
+
+  return byId;
+};
+
+const isSameSnapshotShift = (a: SnapshotShift, b: SnapshotShift) =>
+  a.date === b.date && a.shift_name === b.shift_name && a.start_time === b.start_time && a.end_time === b.end_time;
+
+/**
+ * Added, removed and moved shifts per staff member between two snapshots. An assignment moved to
+ * another day or shift, or whose shift times changed, is a move; one handed to someone else is
+ * removed for one person and added for the other.
+ */
+export const diffScheduleSnapshots = (previous: ScheduleSnapshot | null, current: ScheduleSnapshot | null) => {
+  const before = toSnapshotShifts(previous);
+  const after = toSnapshotShifts(current);
+  const diffs = new Map<string, StaffScheduleDiff>();
+  const diffFor = (staffId: string) => {
+    const diff = diffs.get(staffId) || { staff_id: staffId, added: [], removed: [], moved: [] };
+    diffs.set(staffId, diff);
+    return diff;
+  };
+
+  after.forEach((entry, id) => {
+    const old = before.get(id);
+    if (!old || old.staff_id !== entry.staff_id) {
+      diffFor(entry.staff_id).added.push(entry.shift);
+      if (old) diffFor(old.staff_id).removed.push(old.shift);
+    } else if (!isSameSnapshotShift(old.shift, entry.shift)) {
+      diffFor(entry.staff_id).moved.push({ from: old.shift, to: entry.shift });
+    }
+  });
+
+  before.forEach((entry, id) => {
+    if (!after.has(id)) diffFor(entry.staff_id).removed.push(entry.shift);
+  });
+
+  const byDate = (a: SnapshotShift, b: SnapshotShift) => a.date.localeCompare(b.date);
+  return Array.from(diffs.values()).map(diff => ({
+    ...diff,
+    added: diff.added.sort(byDate),
+    removed: diff.removed.sort(byDate),
+    moved: diff.moved.sort((a, b) => byDate(a.to, b.to)),
+  }));
+};
+
+/**
+ * Notification text for a staff member, e.g. "Added: Night Shift on Mon, Mar 3 (22:00 - 06:00 (+1))"
+ */
+export const describeStaffScheduleDiff = (diff: StaffScheduleDiff) => [
+  ...diff.added.map(shift => `Added: ${describeSnapshotShift(shift)}`),
+  ...diff.removed.map(shift => `Removed: ${describeSnapshotShift(shift)}`),
+  ...diff.moved.map(({ from, to }) => `Moved: ${describeSnapshotShift(from)} → ${describeSnapshotShift(to)}`),
+];
+
+const notifyScheduleChanges = async (scheduleId: string, scheduleName: string, result: PublishResult) => {
+  const diffs = diffScheduleSnapshots(result.previous, result.current);
+  const title = result.previous ? '📅 Schedule Updated' : '📅 Schedule Published';
+  const intro = result.previous ? `Your shifts in ${scheduleName} changed.` : `${scheduleName} was published.`;
+
+  try {
+    await Promise.all(
+      diffs.map(diff => {
+        const lines = describeStaffScheduleDiff(diff);
+        const shown = lines.slice(0, 5);
+        if (lines.length > shown.length) shown.push(`…and ${lines.length - shown.length} more`);
+        return supabase.functions.invoke('create-notification', {
+          body: {
+            user_id: diff.staff_id,
+            title,
+            message: `${intro}\n${shown.join('\n')}`,
+            type: 'schedule',
+            related_id: scheduleId,
+          },
+        });
+      })
+    );
+  } catch (error) {
+    console.error('Error sending schedule change notification:', error);
+  }
+
+  return diffs.length;
+};
+
+/**
+ * Publish a schedule, or its changes since the last revision, and tell affected staff about
+ * their added, removed and moved shifts. Returns the revision number and how many were notified.
+ */
+export const publishScheduleRevision = async (scheduleId: string, scheduleName: string, note?: string) => {
+  const { data, error } = await supabase.rpc('publish_schedule', {
+    _schedule_id: scheduleId,
+    _note: note,
+  });
+  if (error) throw error;
+
+  const result = data as unknown as PublishResult;
+  const notified = await notifyScheduleChanges(scheduleId, scheduleName, result);
+  return { revisionNumber: result.revision_number, notified };
+};
+
+/**
+ * Restore an earlier revision as a new revision and tell affected staff. Worked assignments are
+ * kept and assignments now on vacation or over labor limits are left out; both come back as skipped.
+ */
+export const rollbackToScheduleRevision = async (scheduleId: string, scheduleName: string, revisionNumber: number, note?: string) => {
+  const { data, error } = await supabase.rpc('rollback_schedule', {
+    _schedule_id: scheduleId,
+    _revision_number: revisionNumber,
+    _note: note,
+  });
+  if (error) throw error;
+
+  const result = data as unknown as RollbackResult;
+  const notified = await notifyScheduleChanges(scheduleId, scheduleName, result);
+  return { revisionNumber: result.revision_number, notified, skipped: result.skipped || [] };
+};
+
+/**
+ * Revisions of a schedule, newest first, with the changes each published
+ */
+export const fetchScheduleHistory = async (scheduleId: string) => {
+  const [{ data: revisions, error: revisionsError }, { data: changes, error: changesError }] = await Promise.all([
+    supabase
+      .from('schedule_revisions')
+      .select('*, publisher:profiles!schedule_revisions_published_by_fkey (full_name)')
+      .eq('schedule_id', scheduleId)
+      .order('revision_number', { ascending: false }),
+    supabase
+      .from('schedule_changes')
+      .select(`
+        *,
+        staff:profiles!schedule_changes_staff_id_fkey (full_name),
+        changer:profiles!schedule_changes_changed_by_fkey (full_name)
+      `)
+      .eq('schedule_id', scheduleId)
+      .order('created_at', { ascending: false }),
+  ]);
+  if (revisionsError) throw revisionsError;
+  if (changesError) throw changesError;
+
+  return { revisions: revisions || [], changes: changes || [] };
+};
+
+export type ScheduleChange = Awaited<ReturnType<typeof fetchScheduleHistory>>['changes'][number];
+
+/**
+ * Number of changes to a published schedule that have not been published yet
+ */
+export const fetchUnpublishedChangeCount = async (scheduleId: string) => {
+  const { count, error } = await supabase
+    .from('schedule_changes')
+    .select('*', { count: 'exact', head: true })
+    .eq('schedule_id', scheduleId)
+    .is('revision_id', null);
+  if (error) throw error;
+  return count || 0;
+};
+
+/**
+ * One-line description of a logged change, e.g. "Anna Lee added to Night Shift on Mon, Mar 3"
+ */
+export const describeScheduleChange = (change: ScheduleChange) => {
+  const oldData = (change.old_data || {}) as Record<string, string>;
+  const newData = (change.new_data || {}) as Record<string, string>;
+
+  if (change.entity === 'shift') {
+    const name = newData.name || oldData.name || 'Shift';
+    if (change.action === 'added') return `Shift "${name}" added`;
+    if (change.action === 'removed') return `Shift "${name}" removed`;
+    return `Shift "${name}" changed`;
+  }
+
+  const staffName = change.staff?.full_name || 'Unknown';
+  const describe = (data: Record<string, string>) =>
+    `${data.shift_name || 'shift'} on ${data.assignment_date ? format(parseISO(data.assignment_date), 'EEE, MMM d') : 'unknown date'}`;
+
+  if (change.action === 'added') return `${staffName} added to ${describe(newData)}`;
+  if (change.action === 'removed') return `${staffName} removed from ${describe(oldData)}`;
+  if (oldData.status !== 'cancelled' && newData.status === 'cancelled') return `${staffName}'s ${describe(oldData)} cancelled`;
+  if (oldData.status === 'cancelled' && newData.status !== 'cancelled') return `${staffName}'s ${describe(newData)} restored`;
+  if (oldData.staff_id !== newData.staff_id) return `${describe(newData)} handed over to ${staffName}`;
+  return `${staffName} moved from ${describe(oldData)} to ${describe(newData)}`;
+};
@@ -0,0 +1,101 @@
+import { differenceInCalendarDays, eachDayOfInterval, format, parseISO } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  getRosterConflict,
+  type RosterAssignment,
+  type RosterInput,
+  type RosterOptions,
+} from '@/lib/rosterGeneration';
+
+export type ShiftTemplate = Tables<'shift_templates'>;
+export type RotationPattern = Tables<'rotation_patterns'>;
+
+/** Day off in a rotation cycle; other entries are the shift_order of the schedule's shift */
+export const ROTATION_DAY_OFF = 0;
+
+export const ROTATION_PRESETS: { name: string; cycle: number[] }[] = [
+  { name: '4 on / 4 off', cycle: [1, 1, 1, 1, 0, 0, 0, 0] },
+  { name: '5 on / 2 off', cycle: [1, 1, 1, 1, 1, 0, 0] },
+  { name: '2 mornings, 2 evenings, 2 nights, 4 off', cycle: [1, 1, 2, 2, 3, 3, 0, 0, 0, 0] },
+  { name: '2 days, 2 nights, 4 off', cycle: [1, 1, 2, 2, 0, 0, 0, 0] },
+];
+
+/** Short label of a cycle entry, e.g. "S1" or "Off" */
+export const getRotationStepLabel = (step: number) => (step === ROTATION_DAY_OFF ? 'Off' : `S${step}`);
+
+/**
+ * Runs of a cycle, e.g. "2 × Morning, 2 × Night, 4 off" (shift names by position when given)
+ */
+export const describeRotationCycle = (cycle: number[], shiftNames: string[] = []) => {
+  const runs: { step: number; count: number }[] = [];
+  cycle.forEach(step => {
+    const last = runs[runs.length - 1];
+    if (last && last.step === step) last.count += 1;
+    else runs.push({ step, count: 1 });
+  });
+
+  return runs
+    .map(({ step, count }) => step === ROTATION_DAY_OFF
+      ? `${count} off`
+      : `${count} × ${shiftNames[step - 1] || `Shift ${step}`}`)
+    .join(', ');
+};
+
+/**
+ * Cycle entry for a date when the rotation starts on startDate, shifted by offset days
+ */
+export const getRotationStep = (cycle: number[], startDate: string, date: string, offset = 0) => {
+  const position = differenceInCalendarDays(parseISO(date), parseISO(startDate)) + offset;
+  return cycle[((position % cycle.length) + cycle.length) % cycle.length];
+};
+
+export interface RotationSkip {
+  staff_id: string;
+  assignment_date: string;
+  reason: string;
+}
+
+/**
+ * Assignments a rotation produces for a group of staff from startDate to the end of the schedule.
+ * Each following staff member starts staggerDays further into the cycle. Days on which a staff
+ * member is on vacation, already working or short of rest are skipped, like in roster generation.
+ */
+export const buildRotationAssignments = (
+  input: RosterInput,
+  options: RosterOptions,
+  cycle: number[],
+  staffIds: string[],
+  startDate: string,
+  staggerDays = 0
+) => {
+  const assignments: RosterAssignment[] = [];
+  const skipped: RotationSkip[] = [];
+  const from = startDate > input.startDate ? startDate : input.startDate;
+  if (cycle.length === 0 || from > input.endDate) return { assignments, skipped };
+
+  const shiftsByOrder = new Map(input.shifts.map(shift => [shift.shift_order, shift]));
+
+  eachDayOfInterval({ start: parseISO(from), end: parseISO(input.endDate) }).forEach(day => {
+    const date = format(day, 'yyyy-MM-dd');
+
+    staffIds.forEach((staffId, index) => {
+      const step = getRotationStep(cycle, startDate, date, index * staggerDays);
+      if (step === ROTATION_DAY_OFF) return;
+
+      const shift = shiftsByOrder.get(step);
+      if (!shift) {
+        skipped.push({ staff_id: staffId, assignment_date: date, reason: `The schedule has no shift ${step}` });
+        return;
+      }
+
+      const conflict = getRosterConflict(input, options, assignments, staffId, shift, date);
+      if (conflict) {
+        skipped.push({ staff_id: staffId, assignment_date: date, reason: conflict });
+      } else {
+        assignments.push({ shift_id: shift.id, staff_id: staffId, assignment_date: date });
+      }
+    });
+  });
+
+  return { assignments, skipped };
+};
@@ -0,0 +1,224 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  getDefaultRosterOptions,
+  getRosterConflict,
+  getRosterLoad,
+  type RosterInput,
+  type RosterShift,
+} from '@/lib/rosterGeneration';
+import {
+  getAvailabilityWarnings,
+  type AvailabilityWarning,
+  type StaffAvailability,
+  type StaffShiftPreferences,
+} from '@/lib/staffAvailability';
+
+export type ShiftCoverageStatus = 'unfilled' | 'understaffed' | 'staffed' | 'overstaffed';
+
+export const SHIFT_COVERAGE_LABELS: Record<ShiftCoverageStatus, string> = {
+  unfilled: 'Unfilled',
+  understaffed: 'Understaffed',
+  staffed: 'Fully Staffed',
+  overstaffed: 'Overstaffed',
+};
+
+export const SHIFT_COVERAGE_STYLES: Record<ShiftCoverageStatus, string> = {
+  unfilled: 'bg-destructive text-destructive-foreground',
+  understaffed: 'bg-warning text-warning-foreground',
+  staffed: 'bg-success text-success-foreground',
+  overstaffed: 'bg-primary/15 text-primary',
+};
+
+export type CoverageLevelKey = 'department' | 'facility' | 'workspace';
+
+/** Filled versus required staff of one shift on one day of a published schedule */
+export interface ShiftCoverageSlot {
+  schedule_id: string;
+  schedule_name: string;
+  department_id: string;
+  department_name: string;
+  facility_id: string | null;
+  facility_name: string;
+  workspace_id: string | null;
+  workspace_name: string;
+  shift: RosterShift;
+  date: string;
+  assigned: number;
+  required: number;
+  staff_names: string[];
+  status: ShiftCoverageStatus;
+}
+
+export interface ShiftCoverageSummary {
+  slots: number;
+  required: number;
+  /** Assigned staff counted up to the requirement of each slot */
+  filled: number;
+  missing: number;
+  surplus: number;
+  unfilled: number;
+  understaffed: number;
+  staffed: number;
+  overstaffed: number;
+  /** Share of required positions filled, 0-100 */
+  rate: number;
+}
+
+export interface ShiftCoverageScope {
+  departmentId?: string;
+  facilityId?: string;
+  workspaceIds?: string[];
+}
+
+export const getShiftCoverageStatus = (assigned: number, required: number): ShiftCoverageStatus => {
+  if (assigned > required) return 'overstaffed';
+  if (assigned === required) return 'staffed';
+  return assigned === 0 ? 'unfilled' : 'understaffed';
+};
+
+/**
+ * Coverage of every shift and day of the published schedules in a department, facility or
+ * set of workspaces between from and to. Cancelled assignments do not count.
+ */
+export const fetchShiftCoverage = async (scope: ShiftCoverageScope, from: string, to: string) => {
+  let query = supabase
+    .from('schedules')
+    .select(`
+      id, name, department_id, workspace_id, start_date, end_date,
+      departments!inner (name, facility_id, facilities (name, workspace_id, workspaces (name))),
+      shifts (
+        id, name, start_time, end_time, required_staff, color, shift_order,
+        shift_assignments (staff_id, assignment_date, status, profiles:staff_id (full_name))
+      )
+    `)
+    .eq('status', 'published')
+    .lte('start_date', to)
+    .gte('end_date', from);
+  if (scope.departmentId) query = query.eq('department_id', scope.departmentId);
+  if (scope.facilityId) query = query.eq('departments.facility_id', scope.facilityId);
+  if (scope.workspaceIds) query = query.in('workspace_id', scope.workspaceIds);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const slots: ShiftCoverageSlot[] = [];
+  (data || []).forEach(schedule => {
+    const facility = schedule.departments?.facilities;
+    const first = schedule.start_date > from ? schedule.start_date : from;
+    const last = schedule.end_date < to ? schedule.end_date : to;
+    const days = eachDayOfInterval({ start: parseISO(first), end: parseISO(last) }).map(day => format(day, 'yyyy-MM-dd'));
+
+    (schedule.shifts || []).forEach(({ shift_assignments, ...shift }) => {
+      days.forEach(date => {
+        const assignments = (shift_assignments || []).filter(a => a.assignment_date === date && a.status !== 'cancelled');
+        slots.push({
+          schedule_id: schedule.id,
+          schedule_name: schedule.name,
+          department_id: schedule.department_id,
+          department_name: schedule.departments?.name || 'Unknown',
+          facility_id: schedule.departments?.facility_id || null,
+          facility_name: facility?.name || 'Unknown',
+          workspace_id: schedule.workspace_id || facility?.workspace_id || null,
+          workspace_name: facility?.workspaces?.name || 'Unknown',
+          shift,
+          date,
+          assigned: assignments.length,
+          required: shift.required_staff,
+          staff_names: assignments.map(a => a.profiles?.full_name || 'Unknown'),
+          status: getShiftCoverageStatus(assignments.length, shift.required_staff),
+        });
+      });
+    });
+  });
+
+  return slots.sort((a, b) =>
+    a.date.localeCompare(b.date) || (a.shift.shift_order || 0) - (b.shift.shift_order || 0)
+  );
+};
+
+export const summarizeShiftCoverage = (slots: ShiftCoverageSlot[]): ShiftCoverageSummary => {
+  const summary: ShiftCoverageSummary = {
+    slots: slots.length,
+    required: 0,
+    filled: 0,
+    missing: 0,
+    surplus: 0,
+    unfilled: 0,
+    understaffed: 0,
+    staffed: 0,
+    overstaffed: 0,
+    rate: 0,
+  };
+
+  slots.forEach(slot => {
+    summary.required += slot.required;
+    summary.filled += Math.min(slot.assigned, slot.required);
+    summary.missing += Math.max(slot.required - slot.assigned, 0);
+    summary.surplus += Math.max(slot.assigned - slot.required, 0);
+    summary[slot.status] += 1;
+  });
+  summary.rate = summary.required > 0 ? Math.round((summary.filled / summary.required) * 100) : 100;
+
+  return summary;
+};
+
+/**
+ * Coverage summaries per department, facility or workspace, least covered first
+ */
+export const rollUpShiftCoverage = (slots: ShiftCoverageSlot[], level: CoverageLevelKey) => {
+  const groups = new Map<string, { id: string; name: string; slots: ShiftCoverageSlot[] }>();
+  slots.forEach(slot => {
+    const id = (slot[`${level}_id`] as string | null) || 'unknown';
+    const group = groups.get(id) || { id, name: slot[`${level}_name`], slots: [] };
+    group.slots.push(slot);
+    groups.set(id, group);
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({ id: group.id, name: group.name, summary: summarizeShiftCoverage(group.slots) }))
+    .sort((a, b) => a.summary.rate - b.summary.rate || a.name.localeCompare(b.name));
+};
+
+export interface CoverageGapCandidate {
+  staff_id: string;
+  name: string;
+  /** Shifts already assigned in the schedule */
+  shifts: number;
+  warnings: AvailabilityWarning[];
+}
+
+/**
+ * Staff who could fill a gap: not on vacation, not already working, short of rest around the
+ * shift or over a hard labor rule of the department, and not marked unavailable. Those preferring the shift type come first, then the least loaded.
+ */
+export const getCoverageGapCandidates = (
+  input: RosterInput,
+  availability: StaffAvailability[],
+  preferences: StaffShiftPreferences[],
+  shift: RosterShift,
+  date: string
+): CoverageGapCandidate[] => {
+  const load = getRosterLoad(input, []);
+  const options = getDefaultRosterOptions(input);
+
+  return input.staff
+    .filter(member => !getRosterConflict(input, options, [], member.id, shift, date))
+    .map(member => ({
+      staff_id: member.id,
+      name: member.name,
+      shifts: load.get(member.id)?.total || 0,
+      warnings: getAvailabilityWarnings(
+        availability.filter(entry => entry.staff_id === member.id),
+        preferences.find(entry => entry.staff_id === member.id),
+        date,
+        shift
+      ),
+    }))
+    .filter(candidate => !candidate.warnings.some(warning => warning.kind === 'unavailable'))
+    .sort((a, b) => {
+      const rank = (candidate: CoverageGapCandidate) =>
+        candidate.warnings.some(w => w.kind === 'preferred') ? 0 : candidate.warnings.some(w => w.kind === 'avoided') ? 2 : 1;
+      return rank(a) - rank(b) || a.shifts - b.shifts || a.name.localeCompare(b.name);
+    });
+};
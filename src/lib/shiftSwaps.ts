@@ -0,0 +1,221 @@
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { getLaborRuleErrorMessage } from '@/lib/laborRules';
+import { formatShiftTimes } from '@/lib/shiftTimes';
+
+export type ShiftSwapType = 'swap' | 'giveaway';
+
+export type ShiftSwapStatus =
+  | 'open'
+  | 'pending_colleague'
+  | 'pending_approval'
+  | 'approved'
+  | 'rejected'
+  | 'declined'
+  | 'cancelled';
+
+export const SHIFT_SWAP_STATUS_LABELS: Record<ShiftSwapStatus, string> = {
+  open: 'Offered',
+  pending_colleague: 'Awaiting Colleague',
+  pending_approval: 'Awaiting Approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+};
+
+export const ACTIVE_SHIFT_SWAP_STATUSES: ShiftSwapStatus[] = ['open', 'pending_colleague', 'pending_approval'];
+
+/** Reason a staff member cannot take over a shift, from check_shift_swap_eligibility */
+export interface ShiftSwapIssue {
+  code: 'department' | 'vacation' | 'rest' | 'double_booked';
+  message: string;
+}
+
+const SHIFT_SWAP_SELECT = `
+  *,
+  requester:profiles!shift_swap_requests_requester_id_fkey (id, full_name),
+  taker:profiles!shift_swap_requests_taker_id_fkey (id, full_name),
+  assignment:shift_assignments!shift_swap_requests_assignment_id_fkey (
+    id, assignment_date, staff_id,
+    shifts (name, start_time, end_time, color)
+  ),
+  target_assignment:shift_assignments!shift_swap_requests_target_assignment_id_fkey (
+    id, assignment_date, staff_id,
+    shifts (name, start_time, end_time, color)
+  )
+`;
+
+/**
+ * Shift trades of a department visible to the current user, newest first
+ */
+export const fetchShiftSwapRequests = async (departmentId: string, statuses?: ShiftSwapStatus[]) => {
+  let query = supabase
+    .from('shift_swap_requests')
+    .select(SHIFT_SWAP_SELECT)
+    .eq('department_id', departmentId)
+    .order('created_at', { ascending: false });
+  if (statuses?.length) query = query.in('status', statuses);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+export type ShiftSwapRequest = Awaited<ReturnType<typeof fetchShiftSwapRequests>>[number];
+
+/**
+ * Check whether a staff member can take over an assignment, optionally giving up one of theirs in exchange
+ */
+export const checkShiftSwapEligibility = async (
+  assignmentId: string,
+  takerId: string,
+  releasedAssignmentId?: string
+) => {
+  const { data, error } = await supabase.rpc('check_shift_swap_eligibility', {
+    _assignment_id: assignmentId,
+    _taker_id: takerId,
+    _released_assignment_id: releasedAssignmentId,
+  });
+
+  if (error) throw error;
+  return (data || []) as unknown as ShiftSwapIssue[];
+};
+
+/**
+ * Extract eligibility issues from an error raised by accept_shift_swap or review_shift_swap
+ */
+export const parseShiftSwapIssues = (
+  error: { message?: string; details?: string } | null
+): ShiftSwapIssue[] | null => {
+  if (error?.message !== 'SHIFT_SWAP_INELIGIBLE' || !error.details) return null;
+
+  try {
+    return JSON.parse(error.details);
+  } catch {
+    return null;
+  }
+};
+
+/** Readable error for a failed trade action, including labor rules broken by an approval */
+export const getShiftSwapErrorMessage = (error: { message?: string; details?: string } | null) => {
+  const issues = parseShiftSwapIssues(error);
+  if (issues?.length) return issues.map(issue => issue.message).join('. ');
+  return getLaborRuleErrorMessage(error, 'Something went wrong');
+};
+
+export const describeSwapShift = (
+  assignment: { assignment_date: string; shifts: { name: string; start_time: string; end_time: string } | null } | null
+) =>
+  assignment
+    ? `${assignment.shifts?.name || 'Shift'} on ${format(parseISO(assignment.assignment_date), 'EEE, MMM d')} (${formatShiftTimes(assignment.shifts)})`
+    : 'Unknown shift';
+
+const notifyShiftSwap = async (userIds: (string | null | undefined)[], title: string, message: string, requestId: string) => {
+  try {
+    await Promise.all(
+      [...new Set(userIds.filter(Boolean))].map(userId =>
+        supabase.functions.invoke('create-notification', {
+          body: {
+            user_id: userId,
+            title,
+            message,
+            type: 'schedule',
+            related_id: requestId,
+          },
+        })
+      )
+    );
+  } catch (error) {
+    console.error('Error sending shift swap notification:', error);
+  }
+};
+
+const fetchShiftSwapRequest = async (requestId: string) => {
+  const { data } = await supabase
+    .from('shift_swap_requests')
+    .select(SHIFT_SWAP_SELECT)
+    .eq('id', requestId)
+    .maybeSingle();
+  return data;
+};
+
+/**
+ * Offer an own shift to the department (no target) or propose a swap for a colleague's shift
+ */
+export const requestShiftSwap = async (assignmentId: string, targetAssignmentId?: string, notes?: string) => {
+  const { data: requestId, error } = await supabase.rpc('request_shift_swap', {
+    _assignment_id: assignmentId,
+    _target_assignment_id: targetAssignmentId,
+    _notes: notes || undefined,
+  });
+  if (error) throw error;
+
+  if (targetAssignmentId) {
+    const request = await fetchShiftSwapRequest(requestId);
+    if (request) {
+      await notifyShiftSwap(
+        [request.taker_id],
+        '🔄 Shift Swap Request',
+        `${request.requester?.full_name || 'A colleague'} would like your ${describeSwapShift(request.target_assignment)} in exchange for their ${describeSwapShift(request.assignment)}.`,
+        requestId
+      );
+    }
+  }
+
+  return requestId;
+};
+
+/**
+ * Pick up an offered shift or accept a swap; the department head is asked to approve
+ */
+export const acceptShiftSwap = async (requestId: string) => {
+  const { error } = await supabase.rpc('accept_shift_swap', { _request_id: requestId });
+  if (error) throw error;
+
+  const [request, { data: reviewers }] = await Promise.all([
+    fetchShiftSwapRequest(requestId),
+    supabase.rpc('get_shift_swap_reviewers', { _request_id: requestId }),
+  ]);
+  if (!request) return;
+
+  const message = request.request_type === 'swap'
+    ? `${request.requester?.full_name || 'A staff member'} and ${request.taker?.full_name || 'a colleague'} want to swap ${describeSwapShift(request.assignment)} and ${describeSwapShift(request.target_assignment)}.`
+    : `${request.taker?.full_name || 'A staff member'} wants to take over ${describeSwapShift(request.assignment)} from ${request.requester?.full_name || 'a colleague'}.`;
+
+  await notifyShiftSwap(reviewers || [], '📋 Shift Trade Needs Approval', message, requestId);
+};
+
+/**
+ * Withdraw an own request or decline a swap proposed by a colleague
+ */
+export const cancelShiftSwap = async (requestId: string) => {
+  const { error } = await supabase.rpc('cancel_shift_swap', { _request_id: requestId });
+  if (error) throw error;
+};
+
+/**
+ * Department head decision; approval moves the assignments and both staff members are notified
+ */
+export const reviewShiftSwap = async (requestId: string, approve: boolean, comment?: string) => {
+  const { error } = await supabase.rpc('review_shift_swap', {
+    _request_id: requestId,
+    _approve: approve,
+    _comment: comment || undefined,
+  });
+  if (error) throw error;
+
+  const request = await fetchShiftSwapRequest(requestId);
+  if (!request) return;
+
+  const shifts = request.request_type === 'swap'
+    ? `${describeSwapShift(request.assignment)} ⇄ ${describeSwapShift(request.target_assignment)}`
+    : describeSwapShift(request.assignment);
+
+  await notifyShiftSwap(
+    [request.requester_id, request.taker_id],
+    approve ? '✅ Shift Trade Approved' : '❌ Shift Trade Rejected',
+    `${approve ? 'Your shift trade was approved' : 'Your shift trade was rejected'}: ${shifts}.${comment ? ` ${comment}` : ''}`,
+    requestId
+  );
+};
@@ -0,0 +1,46 @@
+import { addDays, format, parseISO } from 'date-fns';
+
+export interface ShiftTimes {
+  start_time: string;
+  end_time: string;
+}
+
+const toHours = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours + (minutes || 0) / 60;
+};
+
+/** Shifts ending at or before their start time end on the day after their assignment date */
+export const isOvernightShift = (shift: ShiftTimes) =>
+  toHours(shift.end_time) <= toHours(shift.start_time);
+
+/** Overnight shifts and shifts starting late in the evening count as nights */
+export const isNightShift = (shift: ShiftTimes) =>
+  isOvernightShift(shift) || toHours(shift.start_time) >= 20;
+
+/** Date an assignment's shift ends on (the next day for overnight shifts) */
+export const getShiftEndDate = (date: string, shift: ShiftTimes) =>
+  isOvernightShift(shift) ? format(addDays(parseISO(date), 1), 'yyyy-MM-dd') : date;
+
+/**
+ * Start and end of a shift on a date, mirroring shift_period in the database
+ */
+export const getShiftInterval = (date: string, shift: ShiftTimes) => ({
+  start: parseISO(`${date}T${shift.start_time.slice(0, 5)}`),
+  end: parseISO(`${getShiftEndDate(date, shift)}T${shift.end_time.slice(0, 5)}`),
+});
+
+/** Length of a shift in hours, e.g. 8 for 22:00 - 06:00 */
+export const getShiftHours = (shift: ShiftTimes) => {
+  const hours = toHours(shift.end_time) - toHours(shift.start_time);
+  return hours > 0 ? hours : hours + 24;
+};
+
+/**
+ * Shift hours for display, e.g. "08:00 - 16:00" or "22:00 - 06:00 (+1)" for overnight shifts
+ */
+export const formatShiftTimes = (shift: Partial<ShiftTimes> | null | undefined) => {
+  if (!shift?.start_time || !shift.end_time) return '';
+  const times = `${shift.start_time.slice(0, 5)} - ${shift.end_time.slice(0, 5)}`;
+  return isOvernightShift(shift as ShiftTimes) ? `${times} (+1)` : times;
+};
@@ -0,0 +1,132 @@
+import { format, parseISO, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { getShiftInterval, isNightShift } from '@/lib/shiftTimes';
+import { WEEKDAY_LABELS } from '@/lib/workingDays';
+
+export type StaffAvailability = Tables<'staff_availability'>;
+export type StaffShiftPreferences = Tables<'staff_shift_preferences'>;
+
+export type ShiftType = 'day' | 'evening' | 'night';
+
+export const SHIFT_TYPE_LABELS: Record<ShiftType, string> = {
+  day: 'Day',
+  evening: 'Evening',
+  night: 'Night',
+};
+
+export interface AvailabilityShift {
+  start_time: string;
+  end_time: string;
+}
+
+export interface AvailabilityWarning {
+  kind: 'unavailable' | 'avoided' | 'preferred';
+  message: string;
+}
+
+const toHours = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours + (minutes || 0) / 60;
+};
+
+/** Night shifts as in roster generation; shifts starting from 14:00 are evenings */
+export const getShiftType = (shift: AvailabilityShift): ShiftType => {
+  if (isNightShift(shift)) return 'night';
+  return toHours(shift.start_time) >= 14 ? 'evening' : 'day';
+};
+
+/**
+ * Short description of an availability entry, e.g. "Every Tue, 08:00 – 12:00", "Mar 3 – Mar 5"
+ * or "Every Fri, 22:00 – 06:00 (+1)" for hours running overnight
+ */
+export const describeAvailability = (entry: StaffAvailability) => {
+  const when = entry.day_of_week !== null
+    ? `Every ${WEEKDAY_LABELS[entry.day_of_week]}`
+    : entry.start_date === entry.end_date
+      ? entry.start_date!
+      : `${entry.start_date} – ${entry.end_date}`;
+  const hours = entry.start_time && entry.end_time
+    ? `, ${entry.start_time.slice(0, 5)} – ${entry.end_time.slice(0, 5)}${entry.end_time <= entry.start_time ? ' (+1)' : ''}`
+    : '';
+  return `${when}${hours}`;
+};
+
+const availabilityAppliesToDate = (entry: StaffAvailability, date: string) =>
+  entry.day_of_week !== null
+    ? parseISO(date).getDay() === entry.day_of_week
+    : date >= entry.start_date! && date <= entry.end_date!;
+
+/**
+ * Whether an availability entry makes the staff member unavailable for a shift on a date.
+ * Entries limited to hours only block shifts overlapping those hours; hours ending at or before
+ * their start run into the next day, so the previous day's entry can block an early shift.
+ */
+export const availabilityBlocksShift = (entry: StaffAvailability, date: string, shift?: AvailabilityShift | null) => {
+  if (!entry.start_time || !entry.end_time || !shift) return availabilityAppliesToDate(entry, date);
+
+  const { start, end } = getShiftInterval(date, shift);
+  const away = { start_time: entry.start_time, end_time: entry.end_time };
+  return [format(subDays(parseISO(date), 1), 'yyyy-MM-dd'), date].some(day => {
+    if (!availabilityAppliesToDate(entry, day)) return false;
+    const interval = getShiftInterval(day, away);
+    return start < interval.end && end > interval.start;
+  });
+};
+
+/**
+ * Whether a shift is of a type the staff member prefers or avoids, or null without a preference
+ */
+export const getShiftPreferenceWarning = (
+  preferences: StaffShiftPreferences | null | undefined,
+  shift: AvailabilityShift
+): AvailabilityWarning | null => {
+  if (!preferences) return null;
+  const type = getShiftType(shift);
+  if (preferences.avoided_shift_types.includes(type)) {
+    return { kind: 'avoided', message: `Prefers not to work ${SHIFT_TYPE_LABELS[type].toLowerCase()} shifts` };
+  }
+  if (preferences.preferred_shift_types.includes(type)) {
+    return { kind: 'preferred', message: `Prefers ${SHIFT_TYPE_LABELS[type].toLowerCase()} shifts` };
+  }
+  return null;
+};
+
+/**
+ * Availability and preference warnings for a staff member on a shift and date
+ */
+export const getAvailabilityWarnings = (
+  availability: StaffAvailability[],
+  preferences: StaffShiftPreferences | null | undefined,
+  date: string,
+  shift?: AvailabilityShift | null
+): AvailabilityWarning[] => {
+  const warnings: AvailabilityWarning[] = availability
+    .filter(entry => availabilityBlocksShift(entry, date, shift))
+    .map(entry => ({
+      kind: 'unavailable',
+      message: `Unavailable: ${describeAvailability(entry)}${entry.reason ? ` (${entry.reason})` : ''}`,
+    }));
+
+  const preference = shift ? getShiftPreferenceWarning(preferences, shift) : null;
+  if (preference) warnings.push(preference);
+
+  return warnings;
+};
+
+/**
+ * Availability entries and shift preferences of a set of staff members
+ */
+export const fetchStaffAvailability = async (staffIds: string[]) => {
+  if (staffIds.length === 0) return { availability: [], preferences: [] };
+
+  const [{ data: availability, error: availabilityError }, { data: preferences, error: preferencesError }] =
+    await Promise.all([
+      supabase.from('staff_availability').select('*').in('staff_id', staffIds),
+      supabase.from('staff_shift_preferences').select('*').in('staff_id', staffIds),
+    ]);
+  if (availabilityError) throw availabilityError;
+  if (preferencesError) throw preferencesError;
+
+  return { availability: availability || [], preferences: preferences || [] };
+};
@@ -0,0 +1,391 @@
+import * as XLSX from 'xlsx';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInMinutes,
+  endOfMonth,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+} from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { formatShiftTimes, getShiftHours, getShiftInterval, type ShiftTimes } from '@/lib/shiftTimes';
+
+export type TimeEntry = Tables<'time_entries'>;
+
+export type TimeEntryStatus = 'open' | 'pending' | 'approved' | 'rejected';
+
+export const TIME_ENTRY_STATUS_LABELS: Record<TimeEntryStatus, string> = {
+  open: 'Clocked In',
+  pending: 'Awaiting Approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+/** Minutes after the shift start (or before its end) that still count as on time */
+export const TIMESHEET_GRACE_MINUTES = 5;
+
+/** Minutes before the shift start that staff can clock in */
+export const CLOCK_IN_EARLY_MINUTES = 60;
+
+export type TimesheetFlag = 'late' | 'early_departure' | 'missed' | 'no_clock_out';
+
+export const TIMESHEET_FLAG_LABELS: Record<TimesheetFlag, string> = {
+  late: 'Late',
+  early_departure: 'Left Early',
+  missed: 'Missed',
+  no_clock_out: 'No Clock-Out',
+};
+
+const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+
+/**
+ * Late arrival, early departure, missed shift (no clock-in by the end) and a missing clock-out
+ * after the end, measured against the shift times in local time
+ */
+export const getTimesheetFlags = (
+  date: string,
+  shift: ShiftTimes,
+  entry: Pick<TimeEntry, 'clock_in_at' | 'clock_out_at'> | null,
+  now = new Date()
+) => {
+  const { start, end } = getShiftInterval(date, shift);
+  const flags: TimesheetFlag[] = [];
+
+  if (!entry) {
+    if (now > end) flags.push('missed');
+    return flags;
+  }
+
+  if (differenceInMinutes(parseISO(entry.clock_in_at), start) > TIMESHEET_GRACE_MINUTES) flags.push('late');
+  if (!entry.clock_out_at) {
+    if (now > end) flags.push('no_clock_out');
+  } else if (differenceInMinutes(end, parseISO(entry.clock_out_at)) > TIMESHEET_GRACE_MINUTES) {
+    flags.push('early_departure');
+  }
+
+  return flags;
+};
+
+/** Hours between clock-in and clock-out, null while clocked in */
+export const getWorkedHours = (entry: Pick<TimeEntry, 'clock_in_at' | 'clock_out_at'> | null) =>
+  entry?.clock_out_at
+    ? toHours(differenceInMinutes(parseISO(entry.clock_out_at), parseISO(entry.clock_in_at)))
+    : null;
+
+/** Clock-in opens CLOCK_IN_EARLY_MINUTES before the shift and closes at its end */
+export const getClockInWindow = (date: string, shift: ShiftTimes) => {
+  const { start, end } = getShiftInterval(date, shift);
+  return { opens: new Date(start.getTime() - CLOCK_IN_EARLY_MINUTES * 60 * 1000), closes: end };
+};
+
+export type PayPeriodType = 'weekly' | 'semi_monthly' | 'monthly';
+
+export const PAY_PERIOD_TYPE_LABELS: Record<PayPeriodType, string> = {
+  weekly: 'Weekly',
+  semi_monthly: 'Semi-monthly',
+  monthly: 'Monthly',
+};
+
+/** Pay period as yyyy-MM-dd dates, both inclusive */
+export interface PayPeriod {
+  start: string;
+  end: string;
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Pay period containing a date. Semi-monthly periods run from the 1st to the 15th and from
+ * the 16th to the end of the month.
+ */
+export const getPayPeriod = (type: PayPeriodType, date: Date): PayPeriod => {
+  if (type === 'weekly') {
+    return {
+      start: toDateString(startOfWeek(date, { weekStartsOn: 1 })),
+      end: toDateString(endOfWeek(date, { weekStartsOn: 1 })),
+    };
+  }
+  if (type === 'semi_monthly') {
+    const firstHalf = date.getDate() <= 15;
+    return {
+      start: toDateString(firstHalf ? startOfMonth(date) : addDays(startOfMonth(date), 15)),
+      end: toDateString(firstHalf ? addDays(startOfMonth(date), 14) : endOfMonth(date)),
+    };
+  }
+  return { start: toDateString(startOfMonth(date)), end: toDateString(endOfMonth(date)) };
+};
+
+/** The pay period before (-1) or after (1) the given one */
+export const shiftPayPeriod = (type: PayPeriodType, period: PayPeriod, direction: 1 | -1) => {
+  if (type === 'weekly') return getPayPeriod(type, addWeeks(parseISO(period.start), direction));
+  if (type === 'monthly') return getPayPeriod(type, addMonths(parseISO(period.start), direction));
+  return getPayPeriod(
+    type,
+    direction === 1 ? addDays(parseISO(period.end), 1) : subDays(parseISO(period.start), 1)
+  );
+};
+
+export const formatPayPeriod = (period: PayPeriod) =>
+  `${format(parseISO(period.start), 'MMM d')} - ${format(parseISO(period.end), 'MMM d, yyyy')}`;
+
+export const describeTimesheetShift = (date: string, shift: Partial<ShiftTimes> & { name?: string } | null) =>
+  `${shift?.name || 'Shift'} on ${format(parseISO(date), 'EEE, MMM d')} (${formatShiftTimes(shift)})`;
+
+/**
+ * The current user's published shifts from yesterday (overnight shifts) and today, with their time entries
+ */
+export const fetchMyClockShifts = async (staffId: string, today = new Date()) => {
+  const { data, error } = await supabase
+    .from('shift_assignments')
+    .select(`
+      id, assignment_date, status,
+      shifts!inner (name, start_time, end_time, color, schedules!inner (name, status)),
+      time_entries (*)
+    `)
+    .eq('staff_id', staffId)
+    .eq('shifts.schedules.status', 'published')
+    .neq('status', 'cancelled')
+    .gte('assignment_date', toDateString(subDays(today, 1)))
+    .lte('assignment_date', toDateString(today))
+    .order('assignment_date', { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
+
+export type ClockShift = Awaited<ReturnType<typeof fetchMyClockShifts>>[number];
+
+export const clockIn = async (assignmentId: string) => {
+  const { data, error } = await supabase.rpc('clock_in', { _assignment_id: assignmentId });
+  if (error) throw error;
+  return data;
+};
+
+export const clockOut = async (entryId: string) => {
+  const { error } = await supabase.rpc('clock_out', { _entry_id: entryId });
+  if (error) throw error;
+};
+
+type TimesheetEntry = TimeEntry & { reviewer: Pick<Tables<'profiles'>, 'full_name'> | null };
+
+/**
+ * One shift of a department timesheet. Shift details come from the time entry once hours are
+ * recorded, so they stay as worked when the shift is edited or its assignment deleted.
+ */
+export interface TimesheetRow {
+  /** The assignment, or the time entry when the assignment was deleted */
+  id: string;
+  assignment_id: string | null;
+  staff_id: string;
+  assignment_date: string;
+  profiles: Pick<Tables<'profiles'>, 'full_name'> | null;
+  shifts: ShiftTimes & { name: string; color: string | null };
+  time_entries: TimesheetEntry | null;
+}
+
+const toTimesheetShift = (entry: TimeEntry, color: string | null = null) => ({
+  name: entry.shift_name,
+  start_time: entry.shift_start_time,
+  end_time: entry.shift_end_time,
+  color,
+});
+
+/**
+ * Every non-cancelled assignment of a department's published schedules in a pay period with its
+ * time entry, so missed shifts show up next to clocked ones, plus hours whose assignment was deleted
+ */
+export const fetchDepartmentTimesheet = async (departmentId: string, period: PayPeriod) => {
+  const [{ data: assignments, error: assignmentsError }, { data: unlinked, error: unlinkedError }] = await Promise.all([
+    supabase
+      .from('shift_assignments')
+      .select(`
+        id, staff_id, assignment_date, status,
+        profiles:staff_id (full_name),
+        shifts!inner (name, start_time, end_time, color, schedules!inner (department_id, status)),
+        time_entries (*, reviewer:profiles!time_entries_reviewed_by_fkey (full_name))
+      `)
+      .eq('shifts.schedules.department_id', departmentId)
+      .eq('shifts.schedules.status', 'published')
+      .neq('status', 'cancelled')
+      .gte('assignment_date', period.start)
+      .lte('assignment_date', period.end),
+    supabase
+      .from('time_entries')
+      .select(`
+        *,
+        profiles:profiles!time_entries_staff_id_fkey (full_name),
+        reviewer:profiles!time_entries_reviewed_by_fkey (full_name)
+      `)
+      .eq('department_id', departmentId)
+      .is('assignment_id', null)
+      .gte('shift_date', period.start)
+      .lte('shift_date', period.end),
+  ]);
+  if (assignmentsError) throw assignmentsError;
+  if (unlinkedError) throw unlinkedError;
+
+  const rows: TimesheetRow[] = [
+    ...(assignments || []).map(assignment => {
+      const entry = assignment.time_entries;
+      return {
+        id: assignment.id,
+        assignment_id: assignment.id,
+        staff_id: assignment.staff_id,
+        assignment_date: entry?.shift_date || assignment.assignment_date,
+        profiles: assignment.profiles,
+        shifts: entry
+          ? toTimesheetShift(entry, assignment.shifts.color)
+          : {
+            name: assignment.shifts.name,
+            start_time: assignment.shifts.start_time,
+            end_time: assignment.shifts.end_time,
+            color: assignment.shifts.color,
+          },
+        time_entries: entry,
+      };
+    }),
+    ...(unlinked || []).map(({ profiles, ...entry }) => ({
+      id: entry.id,
+      assignment_id: null,
+      staff_id: entry.staff_id,
+      assignment_date: entry.shift_date,
+      profiles,
+      shifts: toTimesheetShift(entry),
+      time_entries: entry,
+    })),
+  ];
+
+  return rows.sort((a, b) =>
+    a.assignment_date.localeCompare(b.assignment_date)
+    || (a.profiles?.full_name || '').localeCompare(b.profiles?.full_name || '')
+  );
+};
+
+const notifyTimesheet = async (userId: string, title: string, message: string, entryId: string) => {
+  try {
+    await supabase.functions.invoke('create-notification', {
+      body: {
+        user_id: userId,
+        title,
+        message,
+        type: 'schedule',
+        related_id: entryId,
+      },
+    });
+  } catch (error) {
+    console.error('Error sending timesheet notification:', error);
+  }
+};
+
+/**
+ * Approve clocked hours, with corrected times (ISO strings) only for the times that changed,
+ * or reject them. Staff are told when their hours are corrected or rejected.
+ */
+export const reviewTimeEntry = async (
+  row: TimesheetRow,
+  approve: boolean,
+  options: { clockInAt?: string; clockOutAt?: string; comment?: string } = {}
+) => {
+  const entry = row.time_entries;
+  if (!entry) throw new Error('No hours recorded for this shift');
+
+  const { error } = await supabase.rpc('review_time_entry', {
+    _entry_id: entry.id,
+    _approve: approve,
+    _clock_in_at: options.clockInAt,
+    _clock_out_at: options.clockOutAt,
+    _comment: options.comment || undefined,
+  });
+  if (error) throw error;
+
+  if (approve && !options.clockInAt && !options.clockOutAt) return;
+
+  await notifyTimesheet(
+    row.staff_id,
+    approve ? '🕒 Hours Corrected' : '❌ Hours Rejected',
+    `${approve ? 'Your clocked hours were corrected and approved' : 'Your clocked hours were rejected'}: ${describeTimesheetShift(row.assignment_date, row.shifts)}.${options.comment ? ` ${options.comment}` : ''}`,
+    entry.id
+  );
+};
+
+/**
+ * Record approved hours for a shift worked without clocking in
+ */
+export const recordTimeEntry = async (assignmentId: string, clockInAt: string, clockOutAt: string, comment?: string) => {
+  const { data, error } = await supabase.rpc('record_time_entry', {
+    _assignment_id: assignmentId,
+    _clock_in_at: clockInAt,
+    _clock_out_at: clockOutAt,
+    _comment: comment || undefined,
+  });
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Approved hours of a pay period, one row per shift, and totals per staff member
+ */
+export const buildTimesheetExportRows = (rows: TimesheetRow[]) => {
+  const approved = rows.filter(row => row.time_entries?.status === 'approved');
+  const totals = new Map<string, { staff: string; shifts: number; scheduled: number; worked: number }>();
+
+  const entries = approved.map(row => {
+    const entry = row.time_entries!;
+    const staff = row.profiles?.full_name || 'Unknown';
+    const scheduled = getShiftHours(row.shifts);
+    const worked = getWorkedHours(entry) || 0;
+
+    const total = totals.get(row.staff_id) || { staff, shifts: 0, scheduled: 0, worked: 0 };
+    total.shifts += 1;
+    total.scheduled += scheduled;
+    total.worked += worked;
+    totals.set(row.staff_id, total);
+
+    return {
+      'Staff ID': row.staff_id,
+      'Staff Name': staff,
+      Date: row.assignment_date,
+      Shift: row.shifts.name,
+      'Shift Times': formatShiftTimes(row.shifts),
+      'Clock In': format(parseISO(entry.clock_in_at), 'yyyy-MM-dd HH:mm'),
+      'Clock Out': format(parseISO(entry.clock_out_at!), 'yyyy-MM-dd HH:mm'),
+      'Scheduled Hours': scheduled,
+      'Worked Hours': worked,
+      'Approved By': entry.reviewer?.full_name || '',
+      Comment: entry.review_comment || '',
+    };
+  });
+
+  const summary = Array.from(totals.entries())
+    .map(([staffId, total]) => ({
+      'Staff ID': staffId,
+      'Staff Name': total.staff,
+      Shifts: total.shifts,
+      'Scheduled Hours': Math.round(total.scheduled * 100) / 100,
+      'Worked Hours': Math.round(total.worked * 100) / 100,
+    }))
+    .sort((a, b) => a['Staff Name'].localeCompare(b['Staff Name']));
+
+  return { entries, summary };
+};
+
+/**
+ * Download approved hours; CSV files only hold the per-shift rows
+ */
+export const downloadTimesheetExport = (
+  { entries, summary }: ReturnType<typeof buildTimesheetExportRows>,
+  fileName: string,
+  bookType: 'xlsx' | 'csv'
+) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(entries), 'Approved Hours');
+  if (bookType === 'xlsx') {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summary), 'Totals by Staff');
+  }
+  XLSX.writeFile(workbook, `${fileName}.${bookType}`, { bookType });
+};
@@ -0,0 +1,54 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export type VacationChangeType = 'modify' | 'cancel';
+
+export interface VacationSplitChange {
+  split_id: string;
+  change_type: VacationChangeType;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface VacationAmendmentRequest {
+  planId: string;
+  changes: VacationSplitChange[];
+  notes?: string;
+  /** Admin reason for submitting despite workspace rule violations */
+  overrideReason?: string;
+}
+
+export const CHANGE_TYPE_LABELS: Record<VacationChangeType, string> = {
+  modify: 'Dates changed',
+  cancel: 'Cancelled',
+};
+
+/**
+ * Whether a split still takes its staff member away. Cancelled splits, cancellation requests
+ * and amendments already applied to their original plan do not count.
+ */
+export const isActiveVacationSplit = (
+  split: { status?: string | null; change_type?: string | null },
+  plan?: { status?: string | null; amends_plan_id?: string | null } | null
+) => {
+  if (split.status === 'rejected' || split.status === 'cancelled' || split.change_type === 'cancel') {
+    return false;
+  }
+  return !(plan?.amends_plan_id && plan.status === 'approved');
+};
+
+/**
+ * Submit a change request for an approved plan (request_vacation_amendment).
+ * Rule violations are raised like a regular submission, see parseRuleViolations.
+ */
+export const requestVacationAmendment = async ({ planId, changes, notes, overrideReason }: VacationAmendmentRequest) => {
+  const { data, error } = await supabase.rpc('request_vacation_amendment', {
+    _vacation_plan_id: planId,
+    _changes: changes as unknown as Json,
+    _notes: notes || undefined,
+    _override_reason: overrideReason || undefined,
+  });
+
+  if (error) throw error;
+  return data as unknown as { amendment_id: string; status: string };
+};
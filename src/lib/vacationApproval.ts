@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { VacationRuleViolation } from '@/lib/vacationRules';
+import type { VacationGuardrailIssue } from '@/lib/vacationGuardrails';
+
+export type VacationApprovalAction = 'approve' | 'reject';
+
+export interface ConflictingVacation {
+  plan_id: string;
+  staff_id: string;
+  staff_name: string | null;
+  vacation_type: string;
+  start_date: string;
+  end_date: string;
+  days: number;
+  overlap_days: number;
+  status: string;
+}
+
+export interface VacationSplitConflict {
+  split_id: string;
+  start_date: string;
+  end_date: string;
+  conflicts: ConflictingVacation[];
+}
+
+export interface PreviousLevelConflict {
+  approval_level: number;
+  conflict_reason: string | null;
+  conflicting_plans: ConflictingVacation[] | null;
+  guardrail_issues: VacationGuardrailIssue[] | null;
+  profiles: { full_name: string | null } | null;
+  delegator: { full_name: string | null } | null;
+}
+
+export type VacationApprovalResult =
+  | { outcome: 'completed'; status: string; on_behalf_of: string | null }
+  | { outcome: 'conflicts'; status: string; conflicts: VacationSplitConflict[]; guardrails: VacationGuardrailIssue[] }
+  | { outcome: 'previous_conflicts'; status: string; previous_conflicts: PreviousLevelConflict[] }
+  | { outcome: 'rule_violations'; status: string; violations: VacationRuleViolation[] };
+
+export interface VacationApprovalRequest {
+  planId: string;
+  approvalLevel: number;
+  action: VacationApprovalAction;
+  splitIds?: string[];
+  comments?: string;
+  /** Acknowledges conflicts, blackouts and staffing shortages found at this or earlier levels */
+  conflictReason?: string;
+  /** Admin reason for approving despite workspace rule violations */
+  overrideReason?: string;
+}
+
+/**
+ * Approve or reject a plan at one level in a single transaction (approve_vacation_plan).
+ * Conflicts and rule violations come back as outcomes instead of errors.
+ */
+export const reviewVacationPlan = async ({
+  planId,
+  approvalLevel,
+  action,
+  splitIds,
+  comments,
+  conflictReason,
+  overrideReason,
+}: VacationApprovalRequest) => {
+  const { data, error } = await supabase.rpc('approve_vacation_plan', {
+    _vacation_plan_id: planId,
+    _approval_level: approvalLevel,
+    _action: action,
+    _split_ids: splitIds,
+    _comments: comments || undefined,
+    _conflict_reason: conflictReason || undefined,
+    _override_reason: overrideReason || undefined,
+  });
+
+  if (error) throw error;
+  return data as unknown as VacationApprovalResult;
+};
@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type ApprovalLevel = 1 | 2 | 3;
+
+export const DEFAULT_APPROVAL_CHAIN: ApprovalLevel[] = [1, 2, 3];
+
+export const APPROVAL_LEVELS: Record<ApprovalLevel, { role: string; status: string }> = {
+  1: { role: 'Department Head', status: 'department_pending' },
+  2: { role: 'Facility Supervisor', status: 'facility_pending' },
+  3: { role: 'Workspace Supervisor', status: 'workspace_pending' },
+};
+
+/** Plan status while waiting at each approval level */
+export const LEVEL_STAGES: Record<number, string> = {
+  1: APPROVAL_LEVELS[1].status,
+  2: APPROVAL_LEVELS[2].status,
+  3: APPROVAL_LEVELS[3].status,
+};
+
+/**
+ * Ordered approval levels that apply to a plan (configured chain minus skipped levels)
+ */
+export const fetchVacationApprovalChain = async (planId: string) => {
+  const { data, error } = await supabase.rpc('get_vacation_approval_chain', {
+    _vacation_plan_id: planId,
+  });
+
+  if (error) throw error;
+  return (data || []) as ApprovalLevel[];
+};
+
+/**
+ * Level that follows the given one in a chain (undefined when it is the last level)
+ */
+export const getNextChainLevel = (chain: number[], level: number): ApprovalLevel | undefined => {
+  const index = chain.indexOf(level);
+  return index === -1 ? undefined : (chain[index + 1] as ApprovalLevel | undefined);
+};
+
+export const describeChain = (chain: number[]) =>
+  chain.length > 0
+    ? chain.map(level => APPROVAL_LEVELS[level as ApprovalLevel]?.role).join(' → ')
+    : 'Approved automatically';
@@ -0,0 +1,132 @@
+import { supabase } from '@/integrations/supabase/client';
+import { fetchVacationGuardrails } from '@/lib/vacationGuardrails';
+import { sendVacationStatusNotification } from '@/lib/vacationNotifications';
+import {
+  reviewVacationPlan,
+  type VacationApprovalAction,
+  type VacationSplitConflict,
+} from '@/lib/vacationApproval';
+
+export interface BulkReviewPlan {
+  id: string;
+  staff_id: string;
+  department_id: string;
+  vacation_splits?: { id: string; status?: string | null }[] | null;
+  vacation_approvals?: { approval_level: number; status?: string | null; has_conflict?: boolean | null }[] | null;
+}
+
+export interface BulkReviewResult {
+  planId: string;
+  success: boolean;
+  message: string;
+}
+
+/** Approvals given at other levels; the first approval of a plan runs the conflict checks */
+const getEarlierApprovals = (plan: BulkReviewPlan, approvalLevel: number) =>
+  (plan.vacation_approvals || []).filter(approval =>
+    approval.approval_level !== approvalLevel && approval.status === 'approved'
+  );
+
+/**
+ * Conflicts each plan must have acknowledged before it can be approved, mirroring
+ * approve_vacation_plan: the first approval checks overlapping vacations, blackout periods and
+ * minimum staffing, later approvals the conflicts accepted by earlier ones.
+ */
+export const fetchBulkReviewConflicts = async (plans: BulkReviewPlan[], approvalLevel: number) => {
+  const conflicts = new Map<string, string[]>();
+  const addConflict = (planId: string, description: string) =>
+    conflicts.set(planId, [...(conflicts.get(planId) || []), description]);
+
+  const firstReviewPlans = plans.filter(plan => getEarlierApprovals(plan, approvalLevel).length === 0);
+
+  const [overlaps, guardrails] = await Promise.all([
+    Promise.all(firstReviewPlans.map(async plan => {
+      const { data, error } = await supabase.rpc('check_vacation_conflicts', {
+        _vacation_plan_id: plan.id,
+        _department_id: plan.department_id,
+      });
+      if (error) throw error;
+      return { planId: plan.id, splits: (data || []) as unknown as VacationSplitConflict[] };
+    })),
+    fetchVacationGuardrails(firstReviewPlans.map(plan => plan.id)),
+  ]);
+
+  overlaps.forEach(({ planId, splits }) => {
+    const overlapping = new Set(splits.flatMap(split => (split.conflicts || []).map(conflict => conflict.plan_id)));
+    if (overlapping.size > 0) {
+      addConflict(planId, `Overlaps with ${overlapping.size} other vacation plan${overlapping.size > 1 ? 's' : ''}`);
+    }
+  });
+
+  guardrails.forEach(issue => {
+    if (issue.blackouts.length > 0) addConflict(issue.plan_id, 'Falls in a blackout period');
+    if (issue.staffing.length > 0) addConflict(issue.plan_id, 'Leaves the department below minimum staffing');
+  });
+
+  plans.forEach(plan => {
+    if (getEarlierApprovals(plan, approvalLevel).some(approval => approval.has_conflict)) {
+      addConflict(plan.id, 'Approved despite conflicts at an earlier level');
+    }
+  });
+
+  return conflicts;
+};
+
+/**
+ * Approve or reject plans one at a time with a shared comment. Every pending segment of a
+ * plan is approved; conflicts are acknowledged only for plans with a reason in
+ * conflictReasons, other conflicting plans and rule violations are reported as failures.
+ */
+export const bulkReviewVacationPlans = async ({
+  plans,
+  approvalLevel,
+  action,
+  comments,
+  conflictReasons,
+  approverName,
+}: {
+  plans: BulkReviewPlan[];
+  approvalLevel: number;
+  action: VacationApprovalAction;
+  comments: string;
+  conflictReasons: Record<string, string>;
+  approverName?: string;
+}) => {
+  const results: BulkReviewResult[] = [];
+
+  for (const plan of plans) {
+    try {
+      const result = await reviewVacationPlan({
+        planId: plan.id,
+        approvalLevel,
+        action,
+        comments,
+        splitIds: (plan.vacation_splits || [])
+          .filter(split => split.status !== 'rejected' && split.status !== 'cancelled')
+          .map(split => split.id),
+        conflictReason: action === 'approve' ? conflictReasons[plan.id]?.trim() : undefined,
+      });
+
+      if (result.outcome === 'completed') {
+        await sendVacationStatusNotification(plan.id, result.status, plan.staff_id, approverName);
+        results.push({ planId: plan.id, success: true, message: action === 'approve' ? 'Approved' : 'Rejected' });
+      } else if (result.outcome === 'rule_violations') {
+        results.push({
+          planId: plan.id,
+          success: false,
+          message: `Breaks workspace rules: ${result.violations.map(violation => violation.message).join('; ')}`,
+        });
+      } else {
+        results.push({ planId: plan.id, success: false, message: 'Conflicts must be acknowledged' });
+      }
+    } catch (error) {
+      results.push({
+        planId: plan.id,
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to process approval',
+      });
+    }
+  }
+
+  return results;
+};
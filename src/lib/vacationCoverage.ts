@@ -0,0 +1,159 @@
+import { eachDayOfInterval, format } from 'date-fns';
+import { getVacationSplitDays, vacationSplitOverlapsShift } from '@/lib/vacationDayPortions';
+
+export type CoverageLevel = 'short' | 'at_minimum' | 'covered' | 'no_minimum';
+
+/** A department or specialty shown as a heatmap row */
+export interface CoverageUnit {
+  id: string;
+  name: string;
+  min_staffing: number | null;
+  is_specialty: boolean;
+  member_ids: string[];
+}
+
+/** One staff member away on one day range (an active vacation split) */
+export interface CoverageAbsence {
+  plan_id: string;
+  staff_id: string;
+  vacation_type: string;
+  plan_status: string;
+  start_date: string;
+  end_date: string;
+  day_portion?: string | null;
+  start_time?: string | null;
+  end_time?: string | null;
+}
+
+export interface CoverageAssignment {
+  staff_id: string;
+  assignment_date: string;
+  shift_name: string;
+  start_time?: string | null;
+  end_time?: string | null;
+}
+
+export interface CoverageCell {
+  date: string;
+  headcount: number;
+  /** Staff coverage is counted from: those on shifts that day, or the whole unit without a schedule */
+  pool: number;
+  /** Staff available with approved vacations (and the what-if plan) taken out */
+  available: number;
+  /** Staff available if every pending vacation were approved as well */
+  availableIfAllApproved: number;
+  approved: CoverageAbsence[];
+  pending: CoverageAbsence[];
+  scheduled: CoverageAssignment[];
+  level: CoverageLevel;
+  /** The what-if plan changes this day's coverage */
+  affectedByWhatIf: boolean;
+}
+
+export const COVERAGE_LEVEL_STYLES: Record<CoverageLevel, string> = {
+  short: 'bg-destructive text-destructive-foreground',
+  at_minimum: 'bg-warning text-warning-foreground',
+  covered: 'bg-success text-success-foreground',
+  no_minimum: 'bg-muted text-muted-foreground',
+};
+
+export const COVERAGE_LEVEL_LABELS: Record<CoverageLevel, string> = {
+  short: 'Below minimum',
+  at_minimum: 'At minimum',
+  covered: 'Covered',
+  no_minimum: 'No minimum set',
+};
+
+export const PENDING_PLAN_STATUSES = ['department_pending', 'facility_pending', 'workspace_pending'];
+
+/** Available staff for display; partial-day leave leaves fractions, e.g. 4.5 */
+export const formatAvailable = (available: number) => String(Math.round(available * 10) / 10);
+
+/**
+ * Share of a day (0-1) a staff member is away. On shifts that day they are away for the
+ * shifts their leave overlaps; otherwise partial-day leave counts as its share of a day.
+ */
+const getAwayShare = (
+  date: string,
+  absences: CoverageAbsence[],
+  shifts: CoverageAssignment[]
+) => {
+  if (shifts.length > 0) {
+    const missed = shifts.filter(shift => absences.some(absence => vacationSplitOverlapsShift(absence, date, shift)));
+    return missed.length / shifts.length;
+  }
+
+  const away = absences
+    .filter(absence => absence.start_date <= date && absence.end_date >= date)
+    .reduce((total, absence) => total + getVacationSplitDays(1, absence), 0);
+  return Math.min(1, away);
+};
+
+export const getCoverageLevel = (available: number, minStaffing: number | null): CoverageLevel => {
+  if (!minStaffing) return 'no_minimum';
+  if (available < minStaffing) return 'short';
+  if (available === minStaffing) return 'at_minimum';
+  return 'covered';
+};
+
+/**
+ * Daily coverage for each unit. Approved vacations always count as absent; pending ones only
+ * when they belong to the what-if plan, so a manager can preview the effect of approving it.
+ * Days with shift assignments count the scheduled staff, days without the whole unit; leave
+ * counts by the share of the day (or of the staff member's shifts) it takes.
+ */
+export const buildCoverageGrid = (
+  units: CoverageUnit[],
+  absences: CoverageAbsence[],
+  assignments: CoverageAssignment[],
+  startDate: Date,
+  endDate: Date,
+  whatIfPlanId?: string
+) => {
+  const days = eachDayOfInterval({ start: startDate, end: endDate }).map(day => format(day, 'yyyy-MM-dd'));
+
+  return units.map(unit => {
+    const members = new Set(unit.member_ids);
+    const unitAbsences = absences.filter(absence => members.has(absence.staff_id));
+    const unitAssignments = assignments.filter(assignment => members.has(assignment.staff_id));
+
+    const approvedAbsences = unitAbsences.filter(absence => absence.plan_status === 'approved');
+    const countedAbsences = unitAbsences.filter(absence =>
+      absence.plan_status === 'approved' || absence.plan_id === whatIfPlanId
+    );
+
+    const cells: CoverageCell[] = days.map(date => {
+      const dayAbsences = unitAbsences.filter(absence => absence.start_date <= date && absence.end_date >= date);
+      const scheduled = unitAssignments.filter(assignment => assignment.assignment_date === date);
+      const pool = scheduled.length > 0 ? [...new Set(scheduled.map(assignment => assignment.staff_id))] : [...members];
+
+      // Overnight shifts also lose staff to leave on the next morning, so all of a member's leave is checked
+      const countAvailable = (absent: CoverageAbsence[]) => {
+        const available = pool.reduce((total, staffId) => total + 1 - getAwayShare(
+          date,
+          absent.filter(absence => absence.staff_id === staffId),
+          scheduled.filter(assignment => assignment.staff_id === staffId)
+        ), 0);
+        return Math.round(available * 100) / 100;
+      };
+
+      const availableAfterApproved = countAvailable(approvedAbsences);
+      const available = countAvailable(countedAbsences);
+
+      return {
+        date,
+        headcount: members.size,
+        pool: pool.length,
+        available,
+        availableIfAllApproved: countAvailable(unitAbsences),
+        approved: dayAbsences.filter(absence => absence.plan_status === 'approved'),
+        pending: dayAbsences.filter(absence => absence.plan_status !== 'approved'),
+        scheduled,
+        level: getCoverageLevel(available, unit.min_staffing),
+        affectedByWhatIf: available < availableAfterApproved,
+      };
+    });
+
+    return { unit, cells };
+  });
+};
@@ -0,0 +1,104 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { getShiftInterval } from '@/lib/shiftTimes';
+
+export type VacationDayPortion = 'full' | 'am' | 'pm' | 'hours';
+
+/** Hourly absences count as their share of a working day, mirroring set_vacation_split_working_days */
+export const HOURS_PER_WORKING_DAY = 8;
+
+export const DAY_PORTION_LABELS: Record<VacationDayPortion, string> = {
+  full: 'Full days',
+  am: 'Morning (AM)',
+  pm: 'Afternoon (PM)',
+  hours: 'Hours',
+};
+
+interface SplitPortion {
+  day_portion?: string | null;
+  start_time?: string | null;
+  end_time?: string | null;
+}
+
+const toHours = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours + (minutes || 0) / 60;
+};
+
+export const isPartialDaySplit = (split: SplitPortion) =>
+  !!split.day_portion && split.day_portion !== 'full';
+
+/**
+ * Days a split counts for, given the working days in its date range
+ */
+export const getVacationSplitDays = (workingDays: number, split: SplitPortion) => {
+  if (workingDays === 0) return 0;
+  if (split.day_portion === 'am' || split.day_portion === 'pm') return 0.5;
+  if (split.day_portion === 'hours') {
+    if (!split.start_time || !split.end_time) return 0;
+    const hours = toHours(split.end_time) - toHours(split.start_time);
+    if (hours <= 0) return 0;
+    return Math.min(1, Math.round((hours / HOURS_PER_WORKING_DAY) * 100) / 100);
+  }
+  return workingDays;
+};
+
+/**
+ * Hours of the day (0-24) a split is away for, mirroring vacation_split_hours in the database
+ */
+export const getVacationSplitHours = (split: SplitPortion): [number, number] => {
+  switch (split.day_portion) {
+    case 'am':
+      return [0, 12];
+    case 'pm':
+      return [12, 24];
+    case 'hours':
+      return split.start_time && split.end_time
+        ? [toHours(split.start_time), toHours(split.end_time)]
+        : [0, 24];
+    default:
+      return [0, 24];
+  }
+};
+
+const atHour = (date: string, hours: number) => {
+  const day = parseISO(date);
+  day.setMinutes(Math.round(hours * 60));
+  return day;
+};
+
+/**
+ * Whether a split takes its staff member away during a shift on a date, mirroring
+ * vacation_split_period in the database. Overnight shifts also collide with leave on the
+ * next morning; without a shift the whole date counts.
+ */
+export const vacationSplitOverlapsShift = (
+  split: SplitPortion & { start_date: string; end_date: string },
+  date: string,
+  shift?: { start_time?: string | null; end_time?: string | null } | null
+) => {
+  const [awayFrom, awayUntil] = getVacationSplitHours(split);
+  const { start, end } = shift?.start_time && shift.end_time
+    ? getShiftInterval(date, { start_time: shift.start_time, end_time: shift.end_time })
+    : { start: parseISO(date), end: parseISO(format(addDays(parseISO(date), 1), 'yyyy-MM-dd')) };
+  return start < atHour(split.end_date, awayUntil) && end > atHour(split.start_date, awayFrom);
+};
+
+/**
+ * Short label for a partial-day split, e.g. "Morning (AM)" or "09:00 – 11:00"; null for full days
+ */
+export const getDayPortionLabel = (split: SplitPortion) => {
+  if (!isPartialDaySplit(split)) return null;
+  if (split.day_portion === 'hours' && split.start_time && split.end_time) {
+    return `${split.start_time.slice(0, 5)} – ${split.end_time.slice(0, 5)}`;
+  }
+  return DAY_PORTION_LABELS[split.day_portion as VacationDayPortion] || null;
+};
+
+/**
+ * Split length for display, e.g. "3 days" or "0.5 days, Morning (AM)"
+ */
+export const formatVacationSplitDuration = (split: SplitPortion & { days: number }) => {
+  const label = getDayPortionLabel(split);
+  const days = `${split.days} day${split.days === 1 ? '' : 's'}`;
+  return label ? `${days}, ${label}` : days;
+};
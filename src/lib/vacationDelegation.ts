@@ -0,0 +1,14 @@
+interface ApprovalRecordNames {
+  profiles?: { full_name?: string | null } | null;
+  delegator?: { full_name?: string | null } | null;
+}
+
+/**
+ * Display name of the approver, including who they acted for when approving as a delegate
+ */
+export const formatApproverName = (approval: ApprovalRecordNames, fallback = 'Unknown') => {
+  const approverName = approval.profiles?.full_name || fallback;
+  return approval.delegator?.full_name
+    ? `${approverName} on behalf of ${approval.delegator.full_name}`
+    : approverName;
+};
@@ -0,0 +1,110 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const VACATION_DOCUMENTS_BUCKET = 'vacation-documents';
+
+/** Mirrors the bucket's allowed_mime_types and file_size_limit */
+export const ACCEPTED_DOCUMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+export type VacationDocumentStatus = 'pending' | 'verified' | 'resubmission_requested';
+
+export const DOCUMENT_STATUS_LABELS: Record<VacationDocumentStatus, string> = {
+  pending: 'Awaiting Review',
+  verified: 'Verified',
+  resubmission_requested: 'Resubmission Requested',
+};
+
+/**
+ * Reject files the bucket would not accept, before uploading anything
+ */
+export const validateVacationDocuments = (files: File[]) => {
+  const invalidType = files.find(file => !ACCEPTED_DOCUMENT_TYPES.includes(file.type));
+  if (invalidType) return `${invalidType.name} is not a PDF or image`;
+
+  const tooLarge = files.find(file => file.size > MAX_DOCUMENT_SIZE);
+  if (tooLarge) return `${tooLarge.name} is larger than 10 MB`;
+
+  return null;
+};
+
+/**
+ * Upload files to the plan's folder in the private bucket and record them
+ */
+export const uploadVacationDocuments = async (planId: string, files: File[], userId: string) => {
+  for (const file of files) {
+    const filePath = `${planId}/${crypto.randomUUID()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(VACATION_DOCUMENTS_BUCKET)
+      .upload(filePath, file, { contentType: file.type });
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase.from('vacation_documents').insert({
+      vacation_plan_id: planId,
+      file_path: filePath,
+      file_name: file.name,
+      content_type: file.type,
+      file_size: file.size,
+      uploaded_by: userId,
+    });
+
+    if (error) {
+      await supabase.storage.from(VACATION_DOCUMENTS_BUCKET).remove([filePath]);
+      throw error;
+    }
+  }
+};
+
+/**
+ * Short-lived link for previewing a document from the private bucket
+ */
+export const getVacationDocumentUrl = async (filePath: string) => {
+  const { data, error } = await supabase.storage
+    .from(VACATION_DOCUMENTS_BUCKET)
+    .createSignedUrl(filePath, 300);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export const deleteVacationDocument = async (documentId: string, filePath: string) => {
+  const { error: storageError } = await supabase.storage.from(VACATION_DOCUMENTS_BUCKET).remove([filePath]);
+  if (storageError) throw storageError;
+
+  const { error } = await supabase.from('vacation_documents').delete().eq('id', documentId);
+  if (error) throw error;
+};
+
+/**
+ * Remove a plan's files from storage before the plan (and its document rows) is deleted
+ */
+export const removeVacationPlanDocuments = async (planId: string) => {
+  const { data, error } = await supabase
+    .from('vacation_documents')
+    .select('file_path')
+    .eq('vacation_plan_id', planId);
+  if (error) throw error;
+  if (!data.length) return;
+
+  const { error: storageError } = await supabase.storage
+    .from(VACATION_DOCUMENTS_BUCKET)
+    .remove(data.map(document => document.file_path));
+  if (storageError) throw storageError;
+};
+
+/**
+ * Mark a document verified or ask for a new one (review_vacation_document)
+ */
+export const reviewVacationDocument = async (
+  documentId: string,
+  status: Exclude<VacationDocumentStatus, 'pending'>,
+  notes?: string
+) => {
+  const { error } = await supabase.rpc('review_vacation_document', {
+    _document_id: documentId,
+    _status: status,
+    _notes: notes || undefined,
+  });
+
+  if (error) throw error;
+};
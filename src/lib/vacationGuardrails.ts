@@ -0,0 +1,59 @@
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+export type BlackoutScope = 'workspace' | 'facility' | 'department';
+
+export interface VacationBlackout {
+  id: string;
+  name: string;
+  reason: string | null;
+  start_date: string;
+  end_date: string;
+  scope: BlackoutScope;
+}
+
+export interface StaffingShortage {
+  department_id: string;
+  department_name: string;
+  is_specialty: boolean;
+  min_staffing: number;
+  headcount: number;
+  lowest_available: number;
+  dates: string[];
+}
+
+/** Blackout periods and staffing shortages found for one vacation split */
+export interface VacationGuardrailIssue {
+  plan_id: string;
+  split_id: string;
+  start_date: string;
+  end_date: string;
+  blackouts: VacationBlackout[];
+  staffing: StaffingShortage[];
+}
+
+export const BLACKOUT_SCOPE_LABELS: Record<BlackoutScope, string> = {
+  workspace: 'Workspace',
+  facility: 'Facility',
+  department: 'Department',
+};
+
+/**
+ * Blackout and minimum-staffing issues for the active splits of the given plans
+ */
+export const fetchVacationGuardrails = async (planIds: string[]) => {
+  if (planIds.length === 0) return [];
+
+  const { data, error } = await supabase.rpc('check_vacation_guardrails', {
+    _vacation_plan_ids: planIds,
+  });
+
+  if (error) throw error;
+  return (data || []) as unknown as VacationGuardrailIssue[];
+};
+
+export const describeStaffingShortage = (shortage: StaffingShortage) => {
+  const dates = shortage.dates.slice(0, 3).map(date => format(parseISO(date), 'MMM dd')).join(', ');
+  const more = shortage.dates.length > 3 ? ` and ${shortage.dates.length - 3} more day(s)` : '';
+  return `${shortage.department_name}${shortage.is_specialty ? ' (specialty)' : ''}: ${shortage.lowest_available} of ${shortage.min_staffing} required staff available on ${dates}${more}`;
+};
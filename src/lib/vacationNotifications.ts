@@ -1,5 +1,17 @@
 import { supabase } from '@/integrations/supabase/client';
 
+/**
+ * Approver for a level (department head, facility or workplace supervisor),
+ * or their delegate while a delegation is active
+ */
+const getLevelApprover = async (departmentId: string, approvalLevel: number) => {
+  const { data } = await supabase.rpc('get_vacation_approver', {
+    _department_id: departmentId,
+    _approval_level: approvalLevel,
+  });
+  return data;
+};
+
 /**
  * Send notification when vacation plan status changes
  */
@@ -19,7 +31,8 @@ export const sendVacationStatusNotification = async (
 
     if (!plan) return;
 
-    const vacationType = plan.vacation_types?.name || 'Vacation';
+    // Change requests read as "<type> change request for N days"
+    const vacationType = `${plan.vacation_types?.name || 'Vacation'}${plan.amends_plan_id ? ' change' : ''}`;
     const totalDays = plan.total_days;
 
     let title = '';
@@ -38,50 +51,15 @@ export const sendVacationStatusNotification = async (
     } else if (newStatus === 'department_pending') {
       title = '📋 New Vacation Request';
       message = `${vacationType} request for ${totalDays} days needs your approval.`;
-      // Get Department Head
-      const { data: deptHead } = await supabase
-        .from('user_roles')
-        .select('user_id')
-        .eq('role', 'department_head')
-        .eq('department_id', plan.department_id)
-        .maybeSingle();
-      if (deptHead) notifyUserId = deptHead.user_id;
+      notifyUserId = await getLevelApprover(plan.department_id, 1) || notifyUserId;
     } else if (newStatus === 'facility_pending') {
       title = '📋 Vacation Needs Level 2 Approval';
       message = `${vacationType} request for ${totalDays} days needs facility supervisor approval.`;
-      // Get Facility Supervisor
-      const { data: dept } = await supabase
-        .from('departments')
-        .select('facility_id')
-        .eq('id', plan.department_id)
-        .single();
-      if (dept?.facility_id) {
-        const { data: facilitySuper } = await supabase
-          .from('user_roles')
-          .select('user_id')
-          .eq('role', 'facility_supervisor')
-          .eq('facility_id', dept.facility_id)
-          .maybeSingle();
-        if (facilitySuper) notifyUserId = facilitySuper.user_id;
-      }
+      notifyUserId = await getLevelApprover(plan.department_id, 2) || notifyUserId;
     } else if (newStatus === 'workspace_pending') {
       title = '📋 Vacation Needs Final Approval';
       message = `${vacationType} request for ${totalDays} days needs workplace supervisor approval.`;
-      // Get Workplace Supervisor
-      const { data: dept } = await supabase
-        .from('departments')
-        .select('facility_id, facilities(workspace_id)')
-        .eq('id', plan.department_id)
-        .single();
-      if (dept?.facilities?.workspace_id) {
-        const { data: workplaceSuper } = await supabase
-          .from('user_roles')
-          .select('user_id')
-          .eq('role', 'workplace_supervisor')
-          .eq('workspace_id', dept.facilities.workspace_id)
-          .maybeSingle();
-        if (workplaceSuper) notifyUserId = workplaceSuper.user_id;
-      }
+      notifyUserId = await getLevelApprover(plan.department_id, 3) || notifyUserId;
     }
 
     // Create notification
@@ -100,3 +78,27 @@ export const sendVacationStatusNotification = async (
     console.error('Error sending vacation notification:', error);
   }
 };
+
+/**
+ * Ask the staff member for a new supporting document
+ */
+export const sendVacationDocumentResubmissionNotification = async (
+  vacationPlanId: string,
+  staffId: string,
+  fileName: string,
+  reason: string
+) => {
+  try {
+    await supabase.functions.invoke('create-notification', {
+      body: {
+        user_id: staffId,
+        title: '📎 New Document Needed',
+        message: `${fileName} was sent back for your vacation request: ${reason}`,
+        type: 'vacation',
+        related_id: vacationPlanId,
+      },
+    });
+  } catch (error) {
+    console.error('Error sending vacation document notification:', error);
+  }
+};
@@ -0,0 +1,301 @@
+import * as XLSX from 'xlsx';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { isActiveVacationSplit } from '@/lib/vacationAmendments';
+import { DAY_PORTION_LABELS, getDayPortionLabel } from '@/lib/vacationDayPortions';
+
+export interface VacationReportFilters {
+  organizationId?: string;
+  workspaceId?: string;
+  facilityId?: string;
+  departmentId?: string;
+  /** Periods starting between these dates (yyyy-MM-dd) are reported */
+  startDate: string;
+  endDate: string;
+}
+
+/** One approved vacation period */
+export interface VacationReportRow {
+  plan_id: string;
+  split_id: string;
+  staff_id: string;
+  staff_name: string;
+  staff_email: string;
+  organization_name: string;
+  workspace_name: string;
+  facility_name: string;
+  department_name: string;
+  vacation_type: string;
+  start_date: string;
+  end_date: string;
+  days: number;
+  day_portion: string;
+  /** Days the staff member took of this type in the reported period */
+  days_taken: number;
+  max_days: number | null;
+  submitted_at: string | null;
+  approved_at: string | null;
+}
+
+export interface VacationReportSummary {
+  staff_id: string;
+  staff_name: string;
+  department_name: string;
+  vacation_type: string;
+  periods: number;
+  days_taken: number;
+  max_days: number | null;
+}
+
+export type VacationReportField = Exclude<keyof VacationReportRow, 'plan_id' | 'split_id'>;
+
+export const VACATION_REPORT_FIELDS: Record<VacationReportField, string> = {
+  staff_id: 'Staff ID',
+  staff_name: 'Staff Name',
+  staff_email: 'Email',
+  organization_name: 'Organization',
+  workspace_name: 'Workspace',
+  facility_name: 'Facility',
+  department_name: 'Department',
+  vacation_type: 'Vacation Type',
+  start_date: 'Start Date',
+  end_date: 'End Date',
+  days: 'Days',
+  day_portion: 'Part of Day',
+  days_taken: 'Days Taken (Period)',
+  max_days: 'Max Days',
+  submitted_at: 'Submitted',
+  approved_at: 'Approved',
+};
+
+const DATE_FIELDS: VacationReportField[] = ['start_date', 'end_date', 'submitted_at', 'approved_at'];
+
+export interface PayrollExportColumn {
+  field: VacationReportField;
+  header: string;
+}
+
+export interface PayrollExportLayout {
+  columns: PayrollExportColumn[];
+  date_format: string;
+}
+
+export const DEFAULT_PAYROLL_EXPORT_LAYOUT: PayrollExportLayout = {
+  columns: [
+    { field: 'staff_id', header: 'Employee ID' },
+    { field: 'staff_name', header: 'Employee Name' },
+    { field: 'department_name', header: 'Department' },
+    { field: 'vacation_type', header: 'Leave Type' },
+    { field: 'start_date', header: 'From' },
+    { field: 'end_date', header: 'To' },
+    { field: 'days', header: 'Days' },
+  ],
+  date_format: 'yyyy-MM-dd',
+};
+
+export const PAYROLL_DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy'];
+
+/** PostgREST returns at most this many rows per request */
+const REPORT_PAGE_SIZE = 1000;
+
+const fetchVacationReportPage = async (filters: VacationReportFilters, from: number) => {
+  let query = supabase
+    .from('vacation_plans')
+    .select(`
+      id,
+      staff_id,
+      department_id,
+      status,
+      amends_plan_id,
+      submitted_at,
+      status_changed_at,
+      profiles!vacation_plans_staff_id_fkey (full_name, email),
+      departments!inner (
+        name,
+        facility_id,
+        facilities!inner (name, workspace_id, workspaces!inner (name, organization_id, organizations (name)))
+      ),
+      vacation_types (name, max_days),
+      vacation_splits!inner (id, start_date, end_date, days, status, change_type, day_portion, start_time, end_time),
+      vacation_approvals (status, updated_at)
+    `)
+    .eq('status', 'approved')
+    .gte('vacation_splits.start_date', filters.startDate)
+    .lte('vacation_splits.start_date', filters.endDate);
+
+  if (filters.departmentId) query = query.eq('department_id', filters.departmentId);
+  if (filters.facilityId) query = query.eq('departments.facility_id', filters.facilityId);
+  if (filters.workspaceId) query = query.eq('departments.facilities.workspace_id', filters.workspaceId);
+  if (filters.organizationId) {
+    query = query.eq('departments.facilities.workspaces.organization_id', filters.organizationId);
+  }
+
+  const { data, error } = await query.order('id').range(from, from + REPORT_PAGE_SIZE - 1);
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Approved vacation periods starting in the filter range, across the selected hierarchy.
+ * Plans are filtered by the database and read page by page.
+ */
+export const fetchVacationReport = async (filters: VacationReportFilters): Promise<VacationReportRow[]> => {
+  const plans: Awaited<ReturnType<typeof fetchVacationReportPage>> = [];
+  for (let from = 0; ; from += REPORT_PAGE_SIZE) {
+    const page = await fetchVacationReportPage(filters, from);
+    plans.push(...page);
+    if (page.length < REPORT_PAGE_SIZE) break;
+  }
+
+  const rows: VacationReportRow[] = [];
+
+  plans.forEach(plan => {
+    const department = plan.departments;
+    const facility = department.facilities;
+    const workspace = facility.workspaces;
+    const approvedAt = (plan.vacation_approvals || [])
+      .filter(approval => approval.status === 'approved')
+      .map(approval => approval.updated_at)
+      .sort()
+      .pop() || plan.status_changed_at;
+
+    // Only splits starting in the range are returned
+    (plan.vacation_splits || [])
+      .filter(split => isActiveVacationSplit(split, plan))
+      .forEach(split => {
+        rows.push({
+          plan_id: plan.id,
+          split_id: split.id,
+          staff_id: plan.staff_id,
+          staff_name: plan.profiles?.full_name || 'Unknown',
+          staff_email: plan.profiles?.email || '',
+          organization_name: workspace.organizations?.name || '',
+          workspace_name: workspace.name || '',
+          facility_name: facility.name || '',
+          department_name: department.name || 'Unknown',
+          vacation_type: plan.vacation_types?.name || 'Unknown',
+          start_date: split.start_date,
+          end_date: split.end_date,
+          days: Number(split.days),
+          day_portion: getDayPortionLabel(split) || DAY_PORTION_LABELS.full,
+          days_taken: 0,
+          max_days: plan.vacation_types?.max_days ?? null,
+          submitted_at: plan.submitted_at,
+          approved_at: approvedAt,
+        });
+      });
+  });
+
+  const takenByStaffType = new Map<string, number>();
+  rows.forEach(row => {
+    const key = `${row.staff_id}:${row.vacation_type}`;
+    takenByStaffType.set(key, (takenByStaffType.get(key) || 0) + row.days);
+  });
+  rows.forEach(row => {
+    row.days_taken = takenByStaffType.get(`${row.staff_id}:${row.vacation_type}`) || 0;
+  });
+
+  return rows.sort((a, b) =>
+    a.staff_name.localeCompare(b.staff_name) || a.start_date.localeCompare(b.start_date)
+  );
+};
+
+/**
+ * Days taken per staff member and vacation type
+ */
+export const summarizeVacationReport = (rows: VacationReportRow[]): VacationReportSummary[] => {
+  const summaries = new Map<string, VacationReportSummary>();
+
+  rows.forEach(row => {
+    const key = `${row.staff_id}:${row.vacation_type}`;
+    const summary = summaries.get(key) || {
+      staff_id: row.staff_id,
+      staff_name: row.staff_name,
+      department_name: row.department_name,
+      vacation_type: row.vacation_type,
+      periods: 0,
+      days_taken: 0,
+      max_days: row.max_days,
+    };
+    summary.periods += 1;
+    summary.days_taken += row.days;
+    summaries.set(key, summary);
+  });
+
+  return Array.from(summaries.values());
+};
+
+const toHeaderKey = (header: string | undefined) => (header || '').trim().toLowerCase();
+
+/**
+ * Headers used by more than one column, ignoring case; export rows are keyed by header, so a
+ * repeated header would drop columns from the file
+ */
+export const getDuplicatePayrollHeaders = (columns: PayrollExportColumn[]) => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  columns.forEach(column => {
+    const key = toHeaderKey(column.header);
+    if (seen.has(key)) duplicates.add(column.header.trim());
+    seen.add(key);
+  });
+  return Array.from(duplicates);
+};
+
+/**
+ * Read an organization's payroll layout, ignoring columns for fields that no longer exist and
+ * columns repeating an earlier header
+ */
+export const parsePayrollExportLayout = (
+  layout: { columns: Json; date_format: string } | null | undefined
+): PayrollExportLayout => {
+  if (!layout) return DEFAULT_PAYROLL_EXPORT_LAYOUT;
+
+  const columns = (Array.isArray(layout.columns) ? layout.columns : [])
+    .map(column => column as unknown as PayrollExportColumn)
+    .filter(column => column?.field in VACATION_REPORT_FIELDS)
+    .filter((column, index, all) =>
+      all.findIndex(other => toHeaderKey(other.header) === toHeaderKey(column.header)) === index
+    );
+
+  return {
+    columns: columns.length ? columns : DEFAULT_PAYROLL_EXPORT_LAYOUT.columns,
+    date_format: layout.date_format || DEFAULT_PAYROLL_EXPORT_LAYOUT.date_format,
+  };
+};
+
+const formatReportValue = (row: VacationReportRow, field: VacationReportField, dateFormat: string) => {
+  const value = row[field];
+  if (value === null || value === undefined) return '';
+  if (DATE_FIELDS.includes(field)) return format(parseISO(String(value)), dateFormat);
+  return value;
+};
+
+/**
+ * Rows keyed by column header, in column order
+ */
+export const buildVacationExportRows = (
+  rows: VacationReportRow[],
+  layout: PayrollExportLayout = {
+    columns: (Object.keys(VACATION_REPORT_FIELDS) as VacationReportField[])
+      .map(field => ({ field, header: VACATION_REPORT_FIELDS[field] })),
+    date_format: 'yyyy-MM-dd',
+  }
+) =>
+  rows.map(row =>
+    Object.fromEntries(
+      layout.columns.map(column => [column.header, formatReportValue(row, column.field, layout.date_format)])
+    )
+  );
+
+export const downloadVacationExport = (
+  records: Record<string, string | number>[],
+  fileName: string,
+  bookType: 'xlsx' | 'csv'
+) => {
+  const worksheet = XLSX.utils.json_to_sheet(records);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Vacation Report');
+  XLSX.writeFile(workbook, `${fileName}.${bookType}`, { bookType });
+};
@@ -0,0 +1,183 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export type VacationRuleKey = 'max_vacation_splits' | 'min_vacation_notice_days' | 'max_concurrent_vacations';
+
+export interface VacationRuleViolation {
+  rule: VacationRuleKey;
+  split_index: number | null;
+  split_id: string | null;
+  start_date?: string;
+  end_date?: string;
+  peak_date?: string;
+  limit: number;
+  actual: number;
+  message: string;
+}
+
+export const VACATION_RULE_LABELS: Record<VacationRuleKey, string> = {
+  max_vacation_splits: 'Maximum Splits',
+  min_vacation_notice_days: 'Minimum Notice',
+  max_concurrent_vacations: 'Concurrent Vacations',
+};
+
+export const RULE_VIOLATIONS_PREFIX = 'RULE_VIOLATIONS:';
+
+/**
+ * Check splits for a plan that does not exist yet against the workspace rules
+ */
+export const checkVacationRules = async (
+  departmentId: string,
+  staffId: string,
+  splits: { start_date: string; end_date: string }[]
+) => {
+  const { data, error } = await supabase.rpc('check_vacation_rules', {
+    _department_id: departmentId,
+    _staff_id: staffId,
+    _splits: splits,
+  });
+
+  if (error) throw error;
+  return (data || []) as unknown as VacationRuleViolation[];
+};
+
+/**
+ * Check an existing plan (optionally only the given splits) against the workspace rules
+ */
+export const validateVacationPlanRules = async (planId: string, splitIds?: string[]) => {
+  const { data, error } = await supabase.rpc('validate_vacation_plan_rules', {
+    _vacation_plan_id: planId,
+    _split_ids: splitIds,
+  });
+
+  if (error) throw error;
+  return (data || []) as unknown as VacationRuleViolation[];
+};
+
+/**
+ * Extract rule violations from an error raised by the client (RULE_VIOLATIONS: prefix)
+ * or by the enforce_vacation_rules trigger (VACATION_RULE_VIOLATIONS with JSON details)
+ */
+export const parseRuleViolations = (
+  error: { message?: string; details?: string } | null
+): VacationRuleViolation[] | null => {
+  if (!error?.message) return null;
+
+  try {
+    if (error.message.startsWith(RULE_VIOLATIONS_PREFIX)) {
+      return JSON.parse(error.message.replace(RULE_VIOLATIONS_PREFIX, ''));
+    }
+    if (error.message === 'VACATION_RULE_VIOLATIONS' && error.details) {
+      return JSON.parse(error.details);
+    }
+  } catch {
+    return null;
+  }
+
+  return null;
+};
+
+/**
+ * Record an admin override so the next status transition accepts these violations (and no others)
+ */
+export const recordVacationRuleOverride = async (
+  planId: string,
+  stage: string,
+  violations: VacationRuleViolation[],
+  reason: string,
+  userId: string
+) => {
+  const { error } = await supabase.from('vacation_rule_overrides').insert({
+    vacation_plan_id: planId,
+    stage,
+    violations: violations as unknown as Json,
+    reason,
+    overridden_by: userId,
+  });
+
+  if (error) throw error;
+};
+
+export type VacationRuleValues = Record<VacationRuleKey, number>;
+
+export type VacationRuleOutcome = 'blocked' | 'allowed';
+
+export interface VacationRuleSimulationPlan {
+  vacation_plan_id: string;
+  department_id: string;
+  department_name: string;
+  staff_id: string;
+  staff_name: string | null;
+  status: string;
+  submitted_at: string;
+  proposed_violations: VacationRuleViolation[];
+  current_violations: VacationRuleViolation[];
+}
+
+export interface VacationRuleSimulationDepartment {
+  department_id: string;
+  department_name: string;
+  total: number;
+  blocked: number;
+  newly_affected: number;
+  no_longer_affected: number;
+  plans: VacationRuleSimulationPlan[];
+}
+
+/**
+ * Submission blocks on any rule violation (enforce_vacation_rules), concurrency included,
+ * unless an admin overrides it
+ */
+export const getVacationRuleOutcome = (violations: VacationRuleViolation[]): VacationRuleOutcome =>
+  violations.length > 0 ? 'blocked' : 'allowed';
+
+/**
+ * Replay the workspace's plans submitted in the last `months` months against proposed rule values
+ */
+export const simulateVacationRules = async (workspaceId: string, rules: VacationRuleValues, months: number) => {
+  const { data, error } = await supabase.rpc('simulate_vacation_rules', {
+    _workspace_id: workspaceId,
+    _max_vacation_splits: rules.max_vacation_splits,
+    _min_vacation_notice_days: rules.min_vacation_notice_days,
+    _max_concurrent_vacations: rules.max_concurrent_vacations,
+    _months: months,
+  });
+
+  if (error) throw error;
+  return (data || []).map(plan => ({
+    ...plan,
+    proposed_violations: (plan.proposed_violations || []) as unknown as VacationRuleViolation[],
+    current_violations: (plan.current_violations || []) as unknown as VacationRuleViolation[],
+  })) as VacationRuleSimulationPlan[];
+};
+
+/**
+ * Group simulated plans by department with blocked counts under the proposed rules
+ */
+export const summarizeVacationRuleSimulation = (plans: VacationRuleSimulationPlan[]) => {
+  const departments = new Map<string, VacationRuleSimulationDepartment>();
+
+  plans.forEach(plan => {
+    const department = departments.get(plan.department_id) || {
+      department_id: plan.department_id,
+      department_name: plan.department_name,
+      total: 0,
+      blocked: 0,
+      newly_affected: 0,
+      no_longer_affected: 0,
+      plans: [],
+    };
+    const proposed = getVacationRuleOutcome(plan.proposed_violations);
+    const current = getVacationRuleOutcome(plan.current_violations);
+
+    department.total += 1;
+    if (proposed === 'blocked') department.blocked += 1;
+    if (proposed !== 'allowed' && current === 'allowed') department.newly_affected += 1;
+    if (proposed === 'allowed' && current !== 'allowed') department.no_longer_affected += 1;
+    if (proposed !== 'allowed' || current !== 'allowed') department.plans.push(plan);
+
+    departments.set(plan.department_id, department);
+  });
+
+  return Array.from(departments.values()).sort((a, b) => a.department_name.localeCompare(b.department_name));
+};
@@ -0,0 +1,106 @@
+import { addDays, format, isAfter, parse } from 'date-fns';
+
+/** Day-of-week numbers as returned by Date.getDay() (0 = Sunday) */
+export const DEFAULT_WORK_WEEK = [1, 2, 3, 4, 5];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const WORK_WEEK_PRESETS = [
+  { label: 'Mon – Fri', days: [1, 2, 3, 4, 5] },
+  { label: 'Sun – Thu', days: [0, 1, 2, 3, 4] },
+  { label: 'Mon – Sat', days: [1, 2, 3, 4, 5, 6] },
+];
+
+export interface HolidayDate {
+  holiday_date: string;
+  is_recurring: boolean;
+}
+
+export interface ParsedHoliday extends HolidayDate {
+  name: string;
+}
+
+/**
+ * Whether a date falls on a holiday (recurring holidays match on month and day)
+ */
+export const isHoliday = (date: Date, holidays: HolidayDate[]) => {
+  const iso = format(date, 'yyyy-MM-dd');
+  const monthDay = iso.slice(5);
+  return holidays.some(holiday =>
+    holiday.holiday_date === iso ||
+    (holiday.is_recurring && holiday.holiday_date.slice(5) === monthDay)
+  );
+};
+
+export const isWorkingDay = (date: Date, workWeek: number[], holidays: HolidayDate[]) =>
+  workWeek.includes(date.getDay()) && !isHoliday(date, holidays);
+
+/**
+ * Count working days between two dates (inclusive), mirroring count_working_days in the database
+ */
+export const countWorkingDays = (
+  start: Date,
+  end: Date,
+  workWeek: number[] = DEFAULT_WORK_WEEK,
+  holidays: HolidayDate[] = []
+) => {
+  let count = 0;
+  for (let day = start; !isAfter(day, end); day = addDays(day, 1)) {
+    if (isWorkingDay(day, workWeek, holidays)) count++;
+  }
+  return count;
+};
+
+const unfoldIcsLines = (content: string) =>
+  content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+const unescapeIcsText = (value: string) =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+const parseIcsDate = (value: string) =>
+  parse(value.slice(0, 8), 'yyyyMMdd', new Date());
+
+/**
+ * Parse all-day events from an iCalendar (.ics) file into holidays.
+ * Multi-day events are expanded per day; yearly RRULEs become recurring holidays.
+ */
+export const parseIcsHolidays = (content: string): ParsedHoliday[] => {
+  const holidays: ParsedHoliday[] = [];
+  let event: { name?: string; start?: Date; end?: Date; recurring?: boolean } | null = null;
+
+  for (const line of unfoldIcsLines(content)) {
+    if (line.startsWith('BEGIN:VEVENT')) {
+      event = {};
+      continue;
+    }
+    if (!event) continue;
+
+    if (line.startsWith('END:VEVENT')) {
+      if (event.start && !isNaN(event.start.getTime())) {
+        // DTEND is exclusive for all-day events
+        const lastDay = event.end && isAfter(event.end, event.start) ? addDays(event.end, -1) : event.start;
+        for (let day = event.start; !isAfter(day, lastDay); day = addDays(day, 1)) {
+          holidays.push({
+            name: event.name || 'Holiday',
+            holiday_date: format(day, 'yyyy-MM-dd'),
+            is_recurring: !!event.recurring,
+          });
+        }
+      }
+      event = null;
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (key === 'SUMMARY') event.name = unescapeIcsText(value);
+    if (key === 'DTSTART') event.start = parseIcsDate(value);
+    if (key === 'DTEND') event.end = parseIcsDate(value);
+    if (key === 'RRULE' && /FREQ=YEARLY/i.test(value)) event.recurring = true;
+  }
+
+  return holidays;
+};
@@ -4,8 +4,22 @@ export { default as VacationPlanner } from '@/components/vacation/VacationPlanne
 export { default as VacationPlansList } from '@/components/vacation/VacationPlansList';
 export { default as VacationApprovalWorkflow } from '@/components/vacation/VacationApprovalWorkflow';
 export { default as VacationApprovalTimeline } from '@/components/vacation/VacationApprovalTimeline';
+export { default as VacationBulkApproval } from '@/components/vacation/VacationBulkApproval';
 export { default as VacationConflictDashboard } from '@/components/vacation/VacationConflictDashboard';
 export { default as VacationTypeManagement } from '@/components/vacation/VacationTypeManagement';
+export { default as VacationHolidayManagement } from '@/components/vacation/VacationHolidayManagement';
+export { default as VacationBlackoutManagement } from '@/components/vacation/VacationBlackoutManagement';
+export { default as VacationCoverageHeatmap } from '@/components/vacation/VacationCoverageHeatmap';
 export { default as VacationCalendarView } from '@/components/vacation/VacationCalendarView';
 export { default as VacationRulesManagement } from '@/components/vacation/VacationRulesManagement';
+export { default as VacationRulesSimulator } from '@/components/vacation/VacationRulesSimulator';
+export { default as VacationApprovalChainManagement } from '@/components/vacation/VacationApprovalChainManagement';
+export { default as VacationApprovalSlaManagement } from '@/components/vacation/VacationApprovalSlaManagement';
+export { default as VacationBalanceManagement } from '@/components/vacation/VacationBalanceManagement';
+export { default as VacationReport } from '@/components/vacation/VacationReport';
+export { default as VacationPayrollLayoutDialog } from '@/components/vacation/VacationPayrollLayoutDialog';
+export { default as VacationBalanceSummary } from '@/components/vacation/VacationBalanceSummary';
+export { default as VacationDelegationManagement } from '@/components/vacation/VacationDelegationManagement';
+export { default as VacationAmendmentDialog } from '@/components/vacation/VacationAmendmentDialog';
+export { default as VacationDocuments } from '@/components/vacation/VacationDocuments';
 export { sendVacationStatusNotification } from '@/lib/vacationNotifications';
@@ -0,0 +1,170 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const LEVEL_ROLES: Record<number, string> = {
+  1: 'Department Head',
+  2: 'Facility Supervisor',
+  3: 'Workspace Supervisor',
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    console.log('Starting vacation approval SLA check...')
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Pending plans in workspaces with an SLA for the level they wait at
+    const { data: pendingPlans, error: slaError } = await supabase.rpc('get_vacation_approval_sla_status')
+
+    if (slaError) {
+      console.error('Error fetching approval SLA status:', slaError)
+      throw slaError
+    }
+
+    console.log(`Found ${pendingPlans?.length || 0} pending plans with an approval SLA`)
+
+    const notificationsToCreate = []
+    let remindersSent = 0
+    let escalations = 0
+    let failures = 0
+
+    for (const plan of pendingPlans || []) {
+      const levelName = `Level ${plan.approval_level} (${LEVEL_ROLES[plan.approval_level]})`
+
+      // Deadline passed: escalate once per level
+      if (plan.pending_days >= plan.deadline_days) {
+        if (plan.escalated) continue
+
+        const { data: escalation, error: escalationError } = await supabase.rpc('escalate_vacation_approval', {
+          _vacation_plan_id: plan.vacation_plan_id,
+          _approval_level: plan.approval_level,
+        })
+
+        if (escalationError) {
+          console.error(`Error escalating plan ${plan.vacation_plan_id}:`, escalationError)
+          failures++
+          continue
+        }
+
+        escalations++
+        const message = escalation.escalated_to_level
+          ? `A vacation request waited ${plan.pending_days} working days for ${levelName} approval and was escalated to you.`
+          : `A vacation request has waited ${plan.pending_days} working days for ${levelName} approval (SLA: ${plan.deadline_days} days). Please follow up.`
+
+        for (const userId of escalation.notified_user_ids || []) {
+          notificationsToCreate.push({
+            user_id: userId,
+            title: '⚠️ Vacation Approval Escalated',
+            message,
+            type: 'vacation',
+            related_id: plan.vacation_plan_id,
+          })
+        }
+
+        // Let the staff member know their request moved on
+        notificationsToCreate.push({
+          user_id: plan.staff_id,
+          title: 'Vacation Request Escalated',
+          message: `Your vacation request was escalated after waiting ${plan.pending_days} working days for ${levelName} approval.`,
+          type: 'vacation',
+          related_id: plan.vacation_plan_id,
+        })
+        continue
+      }
+
+      // Deadline approaching: remind the approver (or their delegate) once
+      if (plan.reminder_sent || plan.pending_days < plan.deadline_days - plan.reminder_days_before) continue
+
+      const { data: approverId } = await supabase.rpc('get_vacation_approver', {
+        _department_id: plan.department_id,
+        _approval_level: plan.approval_level,
+      })
+
+      if (!approverId) {
+        console.log(`No approver assigned for plan ${plan.vacation_plan_id} at level ${plan.approval_level}, skipping reminder`)
+        continue
+      }
+
+      const daysLeft = plan.deadline_days - plan.pending_days
+
+      const { error: reminderError } = await supabase
+        .from('vacation_approval_escalations')
+        .insert({
+          vacation_plan_id: plan.vacation_plan_id,
+          approval_level: plan.approval_level,
+          event_type: 'reminder',
+          notified_user_ids: [approverId],
+          pending_days: plan.pending_days,
+        })
+
+      if (reminderError) {
+        console.error(`Error recording reminder for plan ${plan.vacation_plan_id}:`, reminderError)
+        failures++
+        continue
+      }
+
+      remindersSent++
+      notificationsToCreate.push({
+        user_id: approverId,
+        title: '⏰ Vacation Approval Due Soon',
+        message: `A vacation request needs your ${levelName} approval within ${daysLeft} working day${daysLeft === 1 ? '' : 's'}, or it will be escalated.`,
+        type: 'vacation',
+        related_id: plan.vacation_plan_id,
+      })
+    }
+
+    // Insert notifications
+    let notificationsCreated = 0
+    if (notificationsToCreate.length > 0) {
+      const { data: createdNotifications, error: notifError } = await supabase
+        .from('notifications')
+        .insert(notificationsToCreate)
+        .select()
+
+      if (notifError) {
+        console.error('Error creating notifications:', notifError)
+      } else {
+        notificationsCreated = createdNotifications?.length || 0
+        console.log(`Created ${notificationsCreated} notifications`)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `Sent ${remindersSent} reminders and ${escalations} escalations`,
+        remindersSent,
+        escalations,
+        failures,
+        notificationsCreated,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error in vacation-approval-sla:', errorMessage)
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
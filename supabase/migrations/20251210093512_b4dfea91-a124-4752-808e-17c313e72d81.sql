@@ -0,0 +1,344 @@
+-- Vacation balance ledger: per-user, per-type entitlements with accrual, carry-over and adjustments
+
+-- Entitlement per staff member and vacation type
+CREATE TABLE public.vacation_entitlements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  staff_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  vacation_type_id UUID NOT NULL REFERENCES public.vacation_types(id) ON DELETE CASCADE,
+  annual_days NUMERIC(6,2) NOT NULL DEFAULT 0 CHECK (annual_days >= 0),
+  accrual_method TEXT NOT NULL DEFAULT 'annual' CHECK (accrual_method IN ('annual', 'monthly')),
+  carry_over_cap NUMERIC(6,2) NOT NULL DEFAULT 0 CHECK (carry_over_cap >= 0),
+  effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(staff_id, vacation_type_id)
+);
+
+-- Ledger of balance movements (debits are negative, credits and positive adjustments are positive)
+CREATE TABLE public.vacation_balance_ledger (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  staff_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  vacation_type_id UUID NOT NULL REFERENCES public.vacation_types(id) ON DELETE CASCADE,
+  vacation_plan_id UUID REFERENCES public.vacation_plans(id) ON DELETE SET NULL,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('debit', 'credit', 'adjustment')),
+  days NUMERIC(6,2) NOT NULL,
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  reason TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_vacation_balance_ledger_staff_type
+  ON public.vacation_balance_ledger(staff_id, vacation_type_id, effective_date);
+CREATE INDEX idx_vacation_balance_ledger_plan
+  ON public.vacation_balance_ledger(vacation_plan_id);
+
+CREATE TRIGGER update_vacation_entitlements_updated_at
+  BEFORE UPDATE ON public.vacation_entitlements
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether a user manages vacations for a staff member (approver in their chain or super admin)
+CREATE OR REPLACE FUNCTION public.can_manage_staff_vacation(_user_id UUID, _staff_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, 'super_admin'::app_role) OR EXISTS (
+    SELECT 1
+    FROM public.user_roles staff_role
+    JOIN public.departments d ON d.id = staff_role.department_id
+    JOIN public.facilities f ON f.id = d.facility_id
+    JOIN public.user_roles ur ON ur.user_id = _user_id
+    WHERE staff_role.user_id = _staff_id
+      AND (
+        (ur.role = 'department_head'::app_role AND ur.department_id = d.id) OR
+        (ur.role = 'facility_supervisor'::app_role AND ur.facility_id = f.id) OR
+        (ur.role = 'workplace_supervisor'::app_role AND ur.workspace_id = f.workspace_id)
+      )
+  )
+$$;
+
+-- Start of the vacation year containing _as_of, based on the staff member's workspace settings
+CREATE OR REPLACE FUNCTION public.get_vacation_year_start(_staff_id UUID, _as_of DATE DEFAULT CURRENT_DATE)
+RETURNS DATE
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  start_month INTEGER;
+  year_start DATE;
+BEGIN
+  SELECT COALESCE(w.vacation_year_start_month, 1) INTO start_month
+  FROM public.user_roles ur
+  JOIN public.departments d ON d.id = ur.department_id
+  JOIN public.facilities f ON f.id = d.facility_id
+  JOIN public.workspaces w ON w.id = f.workspace_id
+  WHERE ur.user_id = _staff_id
+  LIMIT 1;
+
+  start_month := COALESCE(start_month, 1);
+  year_start := make_date(EXTRACT(YEAR FROM _as_of)::INTEGER, start_month, 1);
+
+  IF year_start > _as_of THEN
+    year_start := (year_start - INTERVAL '1 year')::DATE;
+  END IF;
+
+  RETURN year_start;
+END;
+$$;
+
+-- Days accrued within a vacation year up to _as_of
+CREATE OR REPLACE FUNCTION public.calculate_vacation_accrual(
+  _annual_days NUMERIC,
+  _accrual_method TEXT,
+  _effective_from DATE,
+  _year_start DATE,
+  _as_of DATE
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  accrual_start DATE;
+  months_elapsed INTEGER;
+BEGIN
+  IF _effective_from > _as_of THEN
+    RETURN 0;
+  END IF;
+
+  IF _accrual_method = 'annual' THEN
+    RETURN _annual_days;
+  END IF;
+
+  -- Monthly accrual: one twelfth per started month since the later of year start and entitlement start
+  accrual_start := date_trunc('month', GREATEST(_year_start, _effective_from))::DATE;
+  months_elapsed := (EXTRACT(YEAR FROM age(date_trunc('month', _as_of), accrual_start)) * 12
+    + EXTRACT(MONTH FROM age(date_trunc('month', _as_of), accrual_start)))::INTEGER + 1;
+
+  RETURN ROUND(_annual_days * LEAST(GREATEST(months_elapsed, 0), 12) / 12.0, 2);
+END;
+$$;
+
+-- Days carried into the vacation year starting at _year_start (capped by the entitlement)
+CREATE OR REPLACE FUNCTION public.get_vacation_carry_over(_staff_id UUID, _vacation_type_id UUID, _year_start DATE)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ent RECORD;
+  prev_start DATE;
+  prev_end DATE;
+  prev_balance NUMERIC;
+  ledger_total NUMERIC;
+BEGIN
+  SELECT * INTO ent
+  FROM public.vacation_entitlements
+  WHERE staff_id = _staff_id AND vacation_type_id = _vacation_type_id;
+
+  IF NOT FOUND OR ent.carry_over_cap = 0 OR ent.effective_from >= _year_start THEN
+    RETURN 0;
+  END IF;
+
+  prev_start := (_year_start - INTERVAL '1 year')::DATE;
+  prev_end := _year_start - 1;
+
+  SELECT COALESCE(SUM(days), 0) INTO ledger_total
+  FROM public.vacation_balance_ledger
+  WHERE staff_id = _staff_id
+    AND vacation_type_id = _vacation_type_id
+    AND effective_date BETWEEN prev_start AND prev_end;
+
+  prev_balance := calculate_vacation_accrual(ent.annual_days, ent.accrual_method, ent.effective_from, prev_start, prev_end)
+    + get_vacation_carry_over(_staff_id, _vacation_type_id, prev_start)
+    + ledger_total;
+
+  RETURN LEAST(GREATEST(prev_balance, 0), ent.carry_over_cap);
+END;
+$$;
+
+-- Current balance for a staff member and vacation type in the vacation year containing _as_of
+CREATE OR REPLACE FUNCTION public.get_vacation_balance(_staff_id UUID, _vacation_type_id UUID, _as_of DATE DEFAULT CURRENT_DATE)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ent RECORD;
+  year_start DATE;
+  year_end DATE;
+  accrued NUMERIC;
+  carried_over NUMERIC;
+  used NUMERIC;
+  adjustments NUMERIC;
+  pending NUMERIC;
+  balance NUMERIC;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND auth.uid() <> _staff_id
+    AND NOT can_manage_staff_vacation(auth.uid(), _staff_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.vacation_plans
+      WHERE staff_id = _staff_id AND created_by = auth.uid()
+    )
+  THEN
+    RAISE EXCEPTION 'Not authorized to view this vacation balance';
+  END IF;
+
+  year_start := get_vacation_year_start(_staff_id, _as_of);
+  year_end := (year_start + INTERVAL '1 year' - INTERVAL '1 day')::DATE;
+
+  SELECT * INTO ent
+  FROM public.vacation_entitlements
+  WHERE staff_id = _staff_id AND vacation_type_id = _vacation_type_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'tracked', false,
+      'year_start', year_start,
+      'year_end', year_end
+    );
+  END IF;
+
+  accrued := calculate_vacation_accrual(ent.annual_days, ent.accrual_method, ent.effective_from, year_start, _as_of);
+  carried_over := get_vacation_carry_over(_staff_id, _vacation_type_id, year_start);
+
+  SELECT
+    COALESCE(-SUM(days) FILTER (WHERE entry_type IN ('debit', 'credit')), 0),
+    COALESCE(SUM(days) FILTER (WHERE entry_type = 'adjustment'), 0)
+  INTO used, adjustments
+  FROM public.vacation_balance_ledger
+  WHERE staff_id = _staff_id
+    AND vacation_type_id = _vacation_type_id
+    AND effective_date BETWEEN year_start AND year_end;
+
+  -- Submitted plans that have not been debited yet
+  SELECT COALESCE(SUM(vp.total_days), 0) INTO pending
+  FROM public.vacation_plans vp
+  WHERE vp.staff_id = _staff_id
+    AND vp.vacation_type_id = _vacation_type_id
+    AND vp.status IN ('department_pending', 'facility_pending', 'workspace_pending')
+    AND (
+      SELECT MIN(vs.start_date) FROM public.vacation_splits vs WHERE vs.vacation_plan_id = vp.id
+    ) BETWEEN year_start AND year_end;
+
+  balance := accrued + carried_over + adjustments - used;
+
+  RETURN jsonb_build_object(
+    'tracked', true,
+    'year_start', year_start,
+    'year_end', year_end,
+    'annual_days', ent.annual_days,
+    'accrual_method', ent.accrual_method,
+    'accrued', accrued,
+    'carried_over', carried_over,
+    'adjustments', adjustments,
+    'used', used,
+    'pending', pending,
+    'balance', balance,
+    'available', balance - pending
+  );
+END;
+$$;
+
+-- Debit the ledger on final approval and credit it back when an approved plan is rejected or cancelled
+CREATE OR REPLACE FUNCTION public.handle_vacation_plan_ledger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  debit_date DATE;
+  balance_data jsonb;
+  net_debited NUMERIC;
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.vacation_entitlements
+      WHERE staff_id = NEW.staff_id AND vacation_type_id = NEW.vacation_type_id
+    ) THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT MIN(start_date) INTO debit_date
+    FROM public.vacation_splits
+    WHERE vacation_plan_id = NEW.id
+      AND COALESCE(status, 'pending') <> 'rejected';
+
+    debit_date := COALESCE(debit_date, CURRENT_DATE);
+    balance_data := get_vacation_balance(NEW.staff_id, NEW.vacation_type_id, debit_date);
+
+    IF (balance_data->>'balance')::NUMERIC < NEW.total_days THEN
+      RAISE EXCEPTION 'Insufficient vacation balance: % days available, % days requested',
+        balance_data->>'balance', NEW.total_days;
+    END IF;
+
+    INSERT INTO public.vacation_balance_ledger
+      (staff_id, vacation_type_id, vacation_plan_id, entry_type, days, effective_date, reason, created_by)
+    VALUES
+      (NEW.staff_id, NEW.vacation_type_id, NEW.id, 'debit', -NEW.total_days, debit_date, 'Vacation plan approved', auth.uid());
+
+  ELSIF OLD.status = 'approved' AND NEW.status IN ('rejected', 'cancelled') THEN
+    SELECT COALESCE(SUM(days), 0), MIN(effective_date) INTO net_debited, debit_date
+    FROM public.vacation_balance_ledger
+    WHERE vacation_plan_id = NEW.id
+      AND entry_type IN ('debit', 'credit');
+
+    IF net_debited < 0 THEN
+      INSERT INTO public.vacation_balance_ledger
+        (staff_id, vacation_type_id, vacation_plan_id, entry_type, days, effective_date, reason, created_by)
+      VALUES
+        (NEW.staff_id, NEW.vacation_type_id, NEW.id, 'credit', -net_debited, debit_date, 'Vacation plan ' || NEW.status, auth.uid());
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER vacation_plan_ledger_on_status_change
+  AFTER UPDATE OF status ON public.vacation_plans
+  FOR EACH ROW EXECUTE FUNCTION public.handle_vacation_plan_ledger();
+
+-- Enable RLS
+ALTER TABLE public.vacation_entitlements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vacation_balance_ledger ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for vacation_entitlements
+CREATE POLICY "Super admins can manage vacation entitlements"
+  ON public.vacation_entitlements FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Users can view entitlements in their scope"
+  ON public.vacation_entitlements FOR SELECT
+  USING (staff_id = auth.uid() OR can_manage_staff_vacation(auth.uid(), staff_id));
+
+-- RLS Policies for vacation_balance_ledger (debits and credits are written by the status trigger)
+CREATE POLICY "Super admins can add manual adjustments"
+  ON public.vacation_balance_ledger FOR INSERT
+  WITH CHECK (
+    has_role(auth.uid(), 'super_admin'::app_role) AND
+    entry_type = 'adjustment' AND
+    created_by = auth.uid()
+  );
+
+CREATE POLICY "Users can view ledger entries in their scope"
+  ON public.vacation_balance_ledger FOR SELECT
+  USING (staff_id = auth.uid() OR can_manage_staff_vacation(auth.uid(), staff_id));
+
+-- Enable realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.vacation_entitlements;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.vacation_balance_ledger;
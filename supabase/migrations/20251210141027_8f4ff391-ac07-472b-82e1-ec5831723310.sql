@@ -0,0 +1,252 @@
+-- Server-side enforcement of workspace vacation rules on submission and approval
+
+-- Whether a user has admin rights on a module (role permissions or user override)
+CREATE OR REPLACE FUNCTION public.has_module_admin_access(_user_id uuid, _module_key text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.get_user_modules(_user_id) m
+    WHERE m.module_key = _module_key
+      AND m.can_admin = true
+  )
+$$;
+
+-- Rule overrides recorded by vacation module admins
+CREATE TABLE public.vacation_rule_overrides (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  vacation_plan_id UUID NOT NULL REFERENCES public.vacation_plans(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL CHECK (stage IN ('draft', 'department_pending', 'facility_pending', 'workspace_pending')),
+  violations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  overridden_by UUID NOT NULL REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_vacation_rule_overrides_plan ON public.vacation_rule_overrides(vacation_plan_id, stage);
+
+ALTER TABLE public.vacation_rule_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vacation admins can record rule overrides"
+  ON public.vacation_rule_overrides FOR INSERT
+  WITH CHECK (
+    overridden_by = auth.uid() AND
+    has_module_admin_access(auth.uid(), 'vacation_planning')
+  );
+
+CREATE POLICY "Users can view rule overrides for visible plans"
+  ON public.vacation_rule_overrides FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.vacation_plans vp
+      WHERE vp.id = vacation_rule_overrides.vacation_plan_id
+        AND (
+          vp.staff_id = auth.uid() OR
+          vp.created_by = auth.uid() OR
+          can_manage_staff_vacation(auth.uid(), vp.staff_id)
+        )
+    )
+  );
+
+-- Check splits against the workspace rules of a department
+-- _splits: [{ "id"?: uuid, "start_date": date, "end_date": date }]
+CREATE OR REPLACE FUNCTION public.check_vacation_rules(
+  _department_id uuid,
+  _staff_id uuid,
+  _splits jsonb,
+  _reference_date date DEFAULT CURRENT_DATE,
+  _exclude_plan_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  max_splits INTEGER;
+  min_notice INTEGER;
+  max_concurrent INTEGER;
+  split_count INTEGER;
+  split_record RECORD;
+  notice_days INTEGER;
+  peak_date DATE;
+  peak_count INTEGER;
+  violations jsonb := '[]'::jsonb;
+BEGIN
+  SELECT w.max_vacation_splits, w.min_vacation_notice_days, w.max_concurrent_vacations
+  INTO max_splits, min_notice, max_concurrent
+  FROM public.departments d
+  JOIN public.facilities f ON f.id = d.facility_id
+  JOIN public.workspaces w ON w.id = f.workspace_id
+  WHERE d.id = _department_id;
+
+  -- Template departments have no facility; fall back to the staff member's workspace
+  IF NOT FOUND THEN
+    SELECT w.max_vacation_splits, w.min_vacation_notice_days, w.max_concurrent_vacations
+    INTO max_splits, min_notice, max_concurrent
+    FROM public.user_roles ur
+    JOIN public.workspaces w ON w.id = ur.workspace_id
+    WHERE ur.user_id = _staff_id
+    LIMIT 1;
+  END IF;
+
+  max_splits := COALESCE(max_splits, 6);
+  min_notice := COALESCE(min_notice, 14);
+  max_concurrent := COALESCE(max_concurrent, 3);
+
+  split_count := jsonb_array_length(COALESCE(_splits, '[]'::jsonb));
+
+  IF split_count > max_splits THEN
+    violations := violations || jsonb_build_object(
+      'rule', 'max_vacation_splits',
+      'split_index', NULL,
+      'split_id', NULL,
+      'limit', max_splits,
+      'actual', split_count,
+      'message', format('Plan has %s vacation periods, the workspace allows at most %s', split_count, max_splits)
+    );
+  END IF;
+
+  FOR split_record IN
+    SELECT
+      (s.ordinality - 1)::INTEGER AS split_index,
+      NULLIF(s.value->>'id', '')::uuid AS split_id,
+      (s.value->>'start_date')::date AS start_date,
+      (s.value->>'end_date')::date AS end_date
+    FROM jsonb_array_elements(COALESCE(_splits, '[]'::jsonb)) WITH ORDINALITY AS s(value, ordinality)
+  LOOP
+    -- Minimum notice
+    notice_days := split_record.start_date - _reference_date;
+    IF notice_days < min_notice THEN
+      violations := violations || jsonb_build_object(
+        'rule', 'min_vacation_notice_days',
+        'split_index', split_record.split_index,
+        'split_id', split_record.split_id,
+        'start_date', split_record.start_date,
+        'end_date', split_record.end_date,
+        'limit', min_notice,
+        'actual', notice_days,
+        'message', format('Starts %s days after the request, at least %s days notice is required', notice_days, min_notice)
+      );
+    END IF;
+
+    -- Maximum concurrent vacations in the department (busiest day of the split)
+    SELECT day::date, COUNT(DISTINCT vp.staff_id)::INTEGER
+    INTO peak_date, peak_count
+    FROM generate_series(split_record.start_date, split_record.end_date, INTERVAL '1 day') AS day
+    JOIN public.vacation_splits vs
+      ON day::date BETWEEN vs.start_date AND vs.end_date
+      AND COALESCE(vs.status, 'pending') <> 'rejected'
+    JOIN public.vacation_plans vp ON vp.id = vs.vacation_plan_id
+    WHERE vp.department_id = _department_id
+      AND vp.staff_id <> _staff_id
+      AND vp.status NOT IN ('draft', 'rejected')
+      AND (_exclude_plan_id IS NULL OR vp.id <> _exclude_plan_id)
+    GROUP BY day
+    ORDER BY COUNT(DISTINCT vp.staff_id) DESC, day
+    LIMIT 1;
+
+    IF peak_count IS NOT NULL AND peak_count + 1 > max_concurrent THEN
+      violations := violations || jsonb_build_object(
+        'rule', 'max_concurrent_vacations',
+        'split_index', split_record.split_index,
+        'split_id', split_record.split_id,
+        'start_date', split_record.start_date,
+        'end_date', split_record.end_date,
+        'limit', max_concurrent,
+        'actual', peak_count + 1,
+        'peak_date', peak_date,
+        'message', format('%s staff would be on vacation on %s, the department allows at most %s', peak_count + 1, peak_date, max_concurrent)
+      );
+    END IF;
+
+    peak_count := NULL;
+  END LOOP;
+
+  RETURN violations;
+END;
+$$;
+
+-- Check an existing plan's active splits (or the given subset) against the workspace rules
+CREATE OR REPLACE FUNCTION public.validate_vacation_plan_rules(_vacation_plan_id uuid, _split_ids uuid[] DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_record RECORD;
+  plan_splits jsonb;
+BEGIN
+  SELECT * INTO plan_record FROM public.vacation_plans WHERE id = _vacation_plan_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vacation plan not found';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('id', vs.id, 'start_date', vs.start_date, 'end_date', vs.end_date)
+    ORDER BY vs.start_date
+  ), '[]'::jsonb)
+  INTO plan_splits
+  FROM public.vacation_splits vs
+  WHERE vs.vacation_plan_id = _vacation_plan_id
+    AND (
+      (_split_ids IS NOT NULL AND vs.id = ANY(_split_ids)) OR
+      (_split_ids IS NULL AND COALESCE(vs.status, 'pending') <> 'rejected')
+    );
+
+  RETURN check_vacation_rules(
+    plan_record.department_id,
+    plan_record.staff_id,
+    plan_splits,
+    COALESCE(plan_record.submitted_at::date, CURRENT_DATE),
+    plan_record.id
+  );
+END;
+$$;
+
+-- Block submission and approval transitions that violate the rules unless an admin override exists
+CREATE OR REPLACE FUNCTION public.enforce_vacation_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  violations jsonb;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+    OR NEW.status NOT IN ('department_pending', 'facility_pending', 'workspace_pending', 'approved')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.vacation_rule_overrides
+    WHERE vacation_plan_id = NEW.id AND stage = OLD.status
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  violations := validate_vacation_plan_rules(NEW.id);
+
+  IF jsonb_array_length(violations) > 0 THEN
+    RAISE EXCEPTION 'VACATION_RULE_VIOLATIONS'
+      USING DETAIL = violations::text,
+            HINT = 'Vacation module admins can override rule violations with a reason';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_vacation_rules_on_status_change
+  BEFORE UPDATE OF status ON public.vacation_plans
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_vacation_rules();
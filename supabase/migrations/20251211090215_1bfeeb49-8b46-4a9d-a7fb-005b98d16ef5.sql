@@ -0,0 +1,249 @@
+-- Working-day calculation with workspace/facility holiday calendars
+
+-- Work week as day-of-week numbers (0 = Sunday ... 6 = Saturday)
+ALTER TABLE public.workspaces
+ADD COLUMN work_week_days INTEGER[] NOT NULL DEFAULT '{1,2,3,4,5}';
+
+-- Facilities can override the workspace work week (NULL = use the workspace work week)
+ALTER TABLE public.facilities
+ADD COLUMN work_week_days INTEGER[];
+
+ALTER TABLE public.workspaces
+ADD CONSTRAINT workspaces_work_week_days_check
+CHECK (work_week_days <@ ARRAY[0,1,2,3,4,5,6] AND cardinality(work_week_days) > 0);
+
+ALTER TABLE public.facilities
+ADD CONSTRAINT facilities_work_week_days_check
+CHECK (work_week_days IS NULL OR (work_week_days <@ ARRAY[0,1,2,3,4,5,6] AND cardinality(work_week_days) > 0));
+
+-- Public holidays per workspace, optionally limited to a single facility
+CREATE TABLE public.holidays (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  facility_id UUID REFERENCES public.facilities(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  holiday_date DATE NOT NULL,
+  is_recurring BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_holidays_unique_day
+  ON public.holidays(workspace_id, COALESCE(facility_id, '00000000-0000-0000-0000-000000000000'::uuid), holiday_date);
+
+CREATE INDEX idx_holidays_workspace_date ON public.holidays(workspace_id, holiday_date);
+
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can manage holidays"
+  ON public.holidays FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Authenticated users can view holidays"
+  ON public.holidays FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_holidays_updated_at
+  BEFORE UPDATE ON public.holidays
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Count the working days between two dates (inclusive) for a department,
+-- using the facility/workspace work week and holiday calendar
+CREATE OR REPLACE FUNCTION public.count_working_days(_department_id uuid, _start_date date, _end_date date)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  dept_facility_id uuid;
+  dept_workspace_id uuid;
+  work_week INTEGER[];
+  result INTEGER;
+BEGIN
+  IF _start_date IS NULL OR _end_date IS NULL OR _end_date < _start_date THEN
+    RETURN 0;
+  END IF;
+
+  SELECT f.id, f.workspace_id, COALESCE(f.work_week_days, w.work_week_days)
+  INTO dept_facility_id, dept_workspace_id, work_week
+  FROM public.departments d
+  JOIN public.facilities f ON f.id = d.facility_id
+  JOIN public.workspaces w ON w.id = f.workspace_id
+  WHERE d.id = _department_id;
+
+  work_week := COALESCE(work_week, ARRAY[1,2,3,4,5]);
+
+  SELECT COUNT(*)::INTEGER INTO result
+  FROM generate_series(_start_date, _end_date, INTERVAL '1 day') AS day
+  WHERE EXTRACT(DOW FROM day)::INTEGER = ANY(work_week)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.holidays h
+      WHERE h.workspace_id = dept_workspace_id
+        AND (h.facility_id IS NULL OR h.facility_id = dept_facility_id)
+        AND (
+          h.holiday_date = day::date OR
+          (h.is_recurring AND
+            EXTRACT(MONTH FROM h.holiday_date) = EXTRACT(MONTH FROM day) AND
+            EXTRACT(DAY FROM h.holiday_date) = EXTRACT(DAY FROM day))
+        )
+    );
+
+  RETURN result;
+END;
+$$;
+
+-- Split days are always stored as working days
+CREATE OR REPLACE FUNCTION public.set_vacation_split_working_days()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_department_id uuid;
+BEGIN
+  SELECT department_id INTO plan_department_id
+  FROM public.vacation_plans
+  WHERE id = NEW.vacation_plan_id;
+
+  NEW.days := count_working_days(plan_department_id, NEW.start_date, NEW.end_date);
+
+  IF NEW.days = 0 THEN
+    RAISE EXCEPTION 'Vacation period % to % contains no working days', NEW.start_date, NEW.end_date;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_vacation_split_working_days
+  BEFORE INSERT OR UPDATE OF start_date, end_date ON public.vacation_splits
+  FOR EACH ROW EXECUTE FUNCTION public.set_vacation_split_working_days();
+
+-- Keep the plan total in sync with its active splits
+CREATE OR REPLACE FUNCTION public.sync_vacation_plan_total_days()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_plan_id uuid;
+BEGIN
+  target_plan_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.vacation_plan_id ELSE NEW.vacation_plan_id END;
+
+  UPDATE public.vacation_plans
+  SET total_days = (
+    SELECT COALESCE(SUM(vs.days), 0)
+    FROM public.vacation_splits vs
+    WHERE vs.vacation_plan_id = target_plan_id
+      AND COALESCE(vs.status, 'pending') <> 'rejected'
+  )
+  WHERE id = target_plan_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_vacation_plan_total_days
+  AFTER INSERT OR DELETE OR UPDATE OF days, status ON public.vacation_splits
+  FOR EACH ROW EXECUTE FUNCTION public.sync_vacation_plan_total_days();
+
+-- Enforce vacation_types.max_days (in working days) when a plan grows or changes type
+CREATE OR REPLACE FUNCTION public.check_vacation_type_max_days()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  type_record RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.total_days <= OLD.total_days
+    AND NEW.vacation_type_id IS NOT DISTINCT FROM OLD.vacation_type_id
+  THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name, max_days INTO type_record
+  FROM public.vacation_types
+  WHERE id = NEW.vacation_type_id;
+
+  IF type_record.max_days IS NOT NULL AND type_record.max_days > 0 AND NEW.total_days > type_record.max_days THEN
+    RAISE EXCEPTION '% allows at most % working days per plan, % requested',
+      type_record.name, type_record.max_days, NEW.total_days;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_vacation_type_max_days
+  BEFORE INSERT OR UPDATE OF total_days, vacation_type_id ON public.vacation_plans
+  FOR EACH ROW EXECUTE FUNCTION public.check_vacation_type_max_days();
+
+-- Conflicts only count when the overlap contains working days
+CREATE OR REPLACE FUNCTION public.check_vacation_conflicts(_vacation_plan_id uuid, _department_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  conflict_data jsonb;
+BEGIN
+  -- Build array of conflicts per split
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'split_id', current_vs.id,
+      'start_date', current_vs.start_date,
+      'end_date', current_vs.end_date,
+      'conflicts', (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'plan_id', vp.id,
+            'staff_id', vp.staff_id,
+            'staff_name', p.full_name,
+            'vacation_type', vt.name,
+            'start_date', vs.start_date,
+            'end_date', vs.end_date,
+            'days', vs.days,
+            'overlap_days', count_working_days(
+              _department_id,
+              GREATEST(vs.start_date, current_vs.start_date),
+              LEAST(vs.end_date, current_vs.end_date)
+            ),
+            'status', vp.status
+          )
+        )
+        FROM vacation_plans vp
+        JOIN vacation_splits vs ON vs.vacation_plan_id = vp.id
+        JOIN profiles p ON p.id = vp.staff_id
+        JOIN vacation_types vt ON vt.id = vp.vacation_type_id
+        WHERE vp.department_id = _department_id
+          AND vp.id != _vacation_plan_id
+          AND vp.status NOT IN ('rejected', 'draft')
+          AND vs.start_date <= current_vs.end_date
+          AND vs.end_date >= current_vs.start_date
+          AND count_working_days(
+            _department_id,
+            GREATEST(vs.start_date, current_vs.start_date),
+            LEAST(vs.end_date, current_vs.end_date)
+          ) > 0
+      )
+    )
+  ) INTO conflict_data
+  FROM vacation_splits current_vs
+  WHERE current_vs.vacation_plan_id = _vacation_plan_id;
+
+  RETURN COALESCE(conflict_data, '[]'::jsonb);
+END;
+$function$;
+
+-- Enable realtime for holiday calendars
+ALTER PUBLICATION supabase_realtime ADD TABLE public.holidays;
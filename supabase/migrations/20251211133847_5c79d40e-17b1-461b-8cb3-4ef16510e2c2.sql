@@ -0,0 +1,268 @@
+-- Approval delegation: approvers can name a substitute for a date range
+
+-- Scope id a plan's department belongs to at each approval level
+-- (1 = department, 2 = facility, 3 = workspace)
+CREATE OR REPLACE FUNCTION public.get_vacation_approval_scope(_department_id uuid, _approval_level integer)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE _approval_level
+    WHEN 1 THEN d.id
+    WHEN 2 THEN d.facility_id
+    WHEN 3 THEN f.workspace_id
+  END
+  FROM public.departments d
+  LEFT JOIN public.facilities f ON f.id = d.facility_id
+  WHERE d.id = _department_id
+$$;
+
+-- Whether a user holds the approver role for a level and scope
+CREATE OR REPLACE FUNCTION public.is_vacation_approver(_user_id uuid, _approval_level integer, _scope_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = _user_id
+      AND (
+        (_approval_level = 1 AND ur.role = 'department_head'::app_role AND ur.department_id = _scope_id) OR
+        (_approval_level = 2 AND ur.role = 'facility_supervisor'::app_role AND ur.facility_id = _scope_id) OR
+        (_approval_level = 3 AND ur.role = 'workplace_supervisor'::app_role AND ur.workspace_id = _scope_id)
+      )
+  )
+$$;
+
+CREATE TABLE public.vacation_approval_delegations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  delegator_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  delegate_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  approval_level INTEGER NOT NULL CHECK (approval_level BETWEEN 1 AND 3),
+  scope_id UUID NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date),
+  CHECK (delegator_id <> delegate_id)
+);
+
+CREATE INDEX idx_vacation_approval_delegations_delegate
+  ON public.vacation_approval_delegations(delegate_id, start_date, end_date);
+CREATE INDEX idx_vacation_approval_delegations_scope
+  ON public.vacation_approval_delegations(approval_level, scope_id);
+
+ALTER TABLE public.vacation_approval_delegations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Approvers can delegate their own approvals"
+  ON public.vacation_approval_delegations FOR INSERT
+  WITH CHECK (
+    delegator_id = auth.uid() AND
+    is_vacation_approver(auth.uid(), approval_level, scope_id)
+  );
+
+CREATE POLICY "Delegators can manage their delegations"
+  ON public.vacation_approval_delegations FOR UPDATE
+  USING (delegator_id = auth.uid())
+  WITH CHECK (delegator_id = auth.uid());
+
+CREATE POLICY "Delegators can delete their delegations"
+  ON public.vacation_approval_delegations FOR DELETE
+  USING (delegator_id = auth.uid());
+
+CREATE POLICY "Users can view delegations they are part of"
+  ON public.vacation_approval_delegations FOR SELECT
+  USING (
+    delegator_id = auth.uid() OR
+    delegate_id = auth.uid() OR
+    has_role(auth.uid(), 'super_admin'::app_role)
+  );
+
+CREATE POLICY "Super admins can manage delegations"
+  ON public.vacation_approval_delegations FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE TRIGGER update_vacation_approval_delegations_updated_at
+  BEFORE UPDATE ON public.vacation_approval_delegations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Delegator a user currently substitutes for at a level and scope (NULL if none)
+CREATE OR REPLACE FUNCTION public.get_vacation_delegator(
+  _delegate_id uuid,
+  _approval_level integer,
+  _scope_id uuid,
+  _on_date date DEFAULT CURRENT_DATE
+)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT vad.delegator_id
+  FROM public.vacation_approval_delegations vad
+  WHERE vad.delegate_id = _delegate_id
+    AND vad.approval_level = _approval_level
+    AND vad.scope_id = _scope_id
+    AND vad.is_active
+    AND _on_date BETWEEN vad.start_date AND vad.end_date
+    AND is_vacation_approver(vad.delegator_id, _approval_level, _scope_id)
+  ORDER BY vad.created_at DESC
+  LIMIT 1
+$$;
+
+-- Whether a user is an active delegate for the approval level a plan is waiting at
+CREATE OR REPLACE FUNCTION public.is_vacation_approval_delegate(_user_id uuid, _department_id uuid, _approval_level integer)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT get_vacation_delegator(
+    _user_id,
+    _approval_level,
+    get_vacation_approval_scope(_department_id, _approval_level)
+  ) IS NOT NULL
+$$;
+
+-- Who should act on a plan at a level: the designated approver, or their active delegate
+CREATE OR REPLACE FUNCTION public.get_vacation_approver(_department_id uuid, _approval_level integer)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  level_scope_id uuid;
+  designated_approver_id uuid;
+  active_delegate_id uuid;
+BEGIN
+  level_scope_id := get_vacation_approval_scope(_department_id, _approval_level);
+
+  IF level_scope_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT ur.user_id INTO designated_approver_id
+  FROM public.user_roles ur
+  WHERE is_vacation_approver(ur.user_id, _approval_level, level_scope_id)
+  ORDER BY ur.created_at
+  LIMIT 1;
+
+  IF designated_approver_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT vad.delegate_id INTO active_delegate_id
+  FROM public.vacation_approval_delegations vad
+  WHERE vad.delegator_id = designated_approver_id
+    AND vad.approval_level = _approval_level
+    AND vad.scope_id = level_scope_id
+    AND vad.is_active
+    AND CURRENT_DATE BETWEEN vad.start_date AND vad.end_date
+  ORDER BY vad.created_at DESC
+  LIMIT 1;
+
+  RETURN COALESCE(active_delegate_id, designated_approver_id);
+END;
+$$;
+
+-- Approval records note who the delegate acted for
+ALTER TABLE public.vacation_approvals
+ADD COLUMN on_behalf_of UUID REFERENCES public.profiles(id);
+
+CREATE OR REPLACE FUNCTION public.validate_vacation_approval_delegation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_department_id uuid;
+BEGIN
+  IF NEW.on_behalf_of IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT department_id INTO plan_department_id
+  FROM public.vacation_plans
+  WHERE id = NEW.vacation_plan_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.vacation_approval_delegations vad
+    WHERE vad.delegator_id = NEW.on_behalf_of
+      AND vad.delegate_id = NEW.approver_id
+      AND vad.approval_level = NEW.approval_level
+      AND vad.scope_id = get_vacation_approval_scope(plan_department_id, NEW.approval_level)
+      AND vad.is_active
+      AND CURRENT_DATE BETWEEN vad.start_date AND vad.end_date
+  ) THEN
+    RAISE EXCEPTION 'No active delegation allows acting on behalf of this approver';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_vacation_approval_delegation
+  BEFORE INSERT OR UPDATE OF on_behalf_of, approver_id ON public.vacation_approvals
+  FOR EACH ROW EXECUTE FUNCTION public.validate_vacation_approval_delegation();
+
+-- Delegates get the same access as the approver for the level a plan is waiting at
+CREATE POLICY "Delegates can view plans awaiting their approval"
+  ON public.vacation_plans FOR SELECT
+  USING (
+    (status = 'department_pending' AND is_vacation_approval_delegate(auth.uid(), department_id, 1)) OR
+    (status = 'facility_pending' AND is_vacation_approval_delegate(auth.uid(), department_id, 2)) OR
+    (status = 'workspace_pending' AND is_vacation_approval_delegate(auth.uid(), department_id, 3))
+  );
+
+CREATE POLICY "Delegates can approve plans awaiting their approval"
+  ON public.vacation_plans FOR UPDATE
+  USING (
+    (status = 'department_pending' AND is_vacation_approval_delegate(auth.uid(), department_id, 1)) OR
+    (status = 'facility_pending' AND is_vacation_approval_delegate(auth.uid(), department_id, 2)) OR
+    (status = 'workspace_pending' AND is_vacation_approval_delegate(auth.uid(), department_id, 3))
+  )
+  WITH CHECK (true);
+
+CREATE POLICY "Delegates can review splits of plans awaiting their approval"
+  ON public.vacation_splits FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.vacation_plans vp
+      WHERE vp.id = vacation_splits.vacation_plan_id
+        AND (
+          (vp.status = 'department_pending' AND is_vacation_approval_delegate(auth.uid(), vp.department_id, 1)) OR
+          (vp.status = 'facility_pending' AND is_vacation_approval_delegate(auth.uid(), vp.department_id, 2)) OR
+          (vp.status = 'workspace_pending' AND is_vacation_approval_delegate(auth.uid(), vp.department_id, 3))
+        )
+    )
+  );
+
+CREATE POLICY "Delegates can view approvals of plans awaiting their approval"
+  ON public.vacation_approvals FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.vacation_plans vp
+      WHERE vp.id = vacation_approvals.vacation_plan_id
+        AND (
+          (vp.status = 'department_pending' AND is_vacation_approval_delegate(auth.uid(), vp.department_id, 1)) OR
+          (vp.status = 'facility_pending' AND is_vacation_approval_delegate(auth.uid(), vp.department_id, 2)) OR
+          (vp.status = 'workspace_pending' AND is_vacation_approval_delegate(auth.uid(), vp.department_id, 3))
+        )
+    )
+  );
+
+-- Enable realtime for delegations
+ALTER PUBLICATION supabase_realtime ADD TABLE public.vacation_approval_delegations;
@@ -0,0 +1,160 @@
+-- Configurable approval chains per workspace (optionally per vacation type)
+
+CREATE TABLE public.vacation_approval_chains (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  vacation_type_id UUID REFERENCES public.vacation_types(id) ON DELETE CASCADE,
+  levels INTEGER[] NOT NULL DEFAULT '{1,2,3}',
+  skip_unassigned BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (levels <@ ARRAY[1,2,3] AND cardinality(levels) > 0)
+);
+
+-- One default chain per workspace (vacation_type_id IS NULL) and one per vacation type
+CREATE UNIQUE INDEX idx_vacation_approval_chains_scope
+  ON public.vacation_approval_chains(workspace_id, COALESCE(vacation_type_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+ALTER TABLE public.vacation_approval_chains ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can manage approval chains"
+  ON public.vacation_approval_chains FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Authenticated users can view approval chains"
+  ON public.vacation_approval_chains FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_vacation_approval_chains_updated_at
+  BEFORE UPDATE ON public.vacation_approval_chains
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Plan status while waiting at an approval level
+CREATE OR REPLACE FUNCTION public.get_vacation_level_status(_approval_level integer)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _approval_level
+    WHEN 1 THEN 'department_pending'
+    WHEN 2 THEN 'facility_pending'
+    WHEN 3 THEN 'workspace_pending'
+  END
+$$;
+
+-- Ordered approval levels that apply to a plan: the vacation type chain, the workspace
+-- default chain or all three levels, without levels nobody is assigned to (when skipping)
+CREATE OR REPLACE FUNCTION public.get_vacation_approval_chain(_vacation_plan_id uuid)
+RETURNS integer[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_record RECORD;
+  configured_levels INTEGER[];
+  skip_empty_levels BOOLEAN;
+  chain_level INTEGER;
+  result INTEGER[] := '{}';
+BEGIN
+  SELECT department_id, vacation_type_id INTO plan_record
+  FROM public.vacation_plans
+  WHERE id = _vacation_plan_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vacation plan not found';
+  END IF;
+
+  SELECT vac.levels, vac.skip_unassigned
+  INTO configured_levels, skip_empty_levels
+  FROM public.vacation_approval_chains vac
+  WHERE vac.workspace_id = get_vacation_approval_scope(plan_record.department_id, 3)
+    AND (vac.vacation_type_id = plan_record.vacation_type_id OR vac.vacation_type_id IS NULL)
+  ORDER BY vac.vacation_type_id NULLS LAST
+  LIMIT 1;
+
+  configured_levels := COALESCE(configured_levels, ARRAY[1,2,3]);
+  skip_empty_levels := COALESCE(skip_empty_levels, true);
+
+  FOREACH chain_level IN ARRAY configured_levels LOOP
+    IF NOT (chain_level = ANY(result))
+      AND (NOT skip_empty_levels OR get_vacation_approver(plan_record.department_id, chain_level) IS NOT NULL)
+    THEN
+      result := result || chain_level;
+    END IF;
+  END LOOP;
+
+  RETURN result;
+END;
+$$;
+
+-- Status a plan moves to next: the first level in its chain without an approval
+-- (other than the level being completed), or approved when none is left
+CREATE OR REPLACE FUNCTION public.get_next_vacation_status(_vacation_plan_id uuid, _completed_level integer DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  chain_level INTEGER;
+BEGIN
+  FOREACH chain_level IN ARRAY get_vacation_approval_chain(_vacation_plan_id) LOOP
+    IF chain_level IS DISTINCT FROM _completed_level AND NOT EXISTS (
+      SELECT 1 FROM public.vacation_approvals va
+      WHERE va.vacation_plan_id = _vacation_plan_id
+        AND va.approval_level = chain_level
+        AND va.status = 'approved'
+    ) THEN
+      RETURN get_vacation_level_status(chain_level);
+    END IF;
+  END LOOP;
+
+  RETURN 'approved';
+END;
+$$;
+
+-- Route submissions and approvals through the configured chain. Clients request the
+-- next step (e.g. department_pending on submit); the chain decides where the plan goes.
+CREATE OR REPLACE FUNCTION public.enforce_vacation_approval_chain()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+    OR NEW.status NOT IN ('department_pending', 'facility_pending', 'workspace_pending', 'approved')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'draft' THEN
+    NEW.status := get_next_vacation_status(NEW.id);
+  ELSIF OLD.status IN ('department_pending', 'facility_pending', 'workspace_pending') THEN
+    NEW.status := get_next_vacation_status(
+      NEW.id,
+      CASE OLD.status
+        WHEN 'department_pending' THEN 1
+        WHEN 'facility_pending' THEN 2
+        WHEN 'workspace_pending' THEN 3
+      END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run before enforce_vacation_rules_on_status_change (triggers fire alphabetically)
+CREATE TRIGGER enforce_vacation_approval_chain
+  BEFORE UPDATE OF status ON public.vacation_plans
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_vacation_approval_chain();
+
+-- Enable realtime for approval chains
+ALTER PUBLICATION supabase_realtime ADD TABLE public.vacation_approval_chains;
@@ -0,0 +1,192 @@
+-- Approve or reject a vacation plan at one approval level in a single transaction.
+-- Returns { outcome, status, ... } where outcome is one of:
+--   completed          - changes applied, status is the plan's new status
+--   conflicts          - first-level approval overlaps other vacations (conflicts per split)
+--   previous_conflicts - earlier levels approved despite conflicts (previous_conflicts)
+--   rule_violations    - approved splits break workspace rules (violations)
+-- Pass _conflict_reason to acknowledge conflicts and _override_reason to override rules.
+CREATE OR REPLACE FUNCTION public.approve_vacation_plan(
+  _vacation_plan_id uuid,
+  _approval_level integer,
+  _action text DEFAULT 'approve',
+  _split_ids uuid[] DEFAULT NULL,
+  _comments text DEFAULT NULL,
+  _conflict_reason text DEFAULT NULL,
+  _override_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_record RECORD;
+  level_scope_id uuid;
+  acting_for_id uuid;
+  approval_chain integer[];
+  previous_levels integer[];
+  split_conflicts jsonb := '[]'::jsonb;
+  accepted_conflicts jsonb;
+  previous_conflicts jsonb;
+  violations jsonb;
+  new_status text;
+BEGIN
+  IF _action NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Invalid approval action: %', _action;
+  END IF;
+
+  SELECT * INTO plan_record
+  FROM public.vacation_plans
+  WHERE id = _vacation_plan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vacation plan not found';
+  END IF;
+
+  IF plan_record.status IS DISTINCT FROM get_vacation_level_status(_approval_level) THEN
+    RAISE EXCEPTION 'Vacation plan is not awaiting level % approval', _approval_level;
+  END IF;
+
+  -- The caller must be the approver for the level, or their active delegate
+  level_scope_id := get_vacation_approval_scope(plan_record.department_id, _approval_level);
+
+  IF NOT is_vacation_approver(auth.uid(), _approval_level, level_scope_id) THEN
+    acting_for_id := get_vacation_delegator(auth.uid(), _approval_level, level_scope_id);
+
+    IF acting_for_id IS NULL THEN
+      RAISE EXCEPTION 'You are not allowed to review vacation plans at level %', _approval_level;
+    END IF;
+  END IF;
+
+  IF _action = 'reject' AND COALESCE(trim(_comments), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a vacation plan';
+  END IF;
+
+  IF _action = 'approve' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.vacation_splits
+      WHERE vacation_plan_id = _vacation_plan_id
+        AND id = ANY(COALESCE(_split_ids, '{}'))
+    ) THEN
+      RAISE EXCEPTION 'Select at least one vacation segment to approve';
+    END IF;
+
+    approval_chain := get_vacation_approval_chain(_vacation_plan_id);
+    previous_levels := approval_chain[1:COALESCE(array_position(approval_chain, _approval_level), 1) - 1];
+
+    IF cardinality(previous_levels) = 0 THEN
+      -- First level of the chain: check the approved splits for overlapping vacations
+      SELECT COALESCE(jsonb_agg(split_conflict), '[]'::jsonb) INTO split_conflicts
+      FROM jsonb_array_elements(check_vacation_conflicts(_vacation_plan_id, plan_record.department_id)) split_conflict
+      WHERE (split_conflict->>'split_id')::uuid = ANY(_split_ids)
+        AND jsonb_typeof(split_conflict->'conflicts') = 'array';
+
+      IF jsonb_array_length(split_conflicts) > 0 AND _conflict_reason IS NULL THEN
+        RETURN jsonb_build_object(
+          'outcome', 'conflicts',
+          'status', plan_record.status,
+          'conflicts', split_conflicts
+        );
+      END IF;
+    ELSIF _conflict_reason IS NULL THEN
+      -- Later levels acknowledge conflicts accepted at earlier levels
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'approval_level', va.approval_level,
+          'conflict_reason', va.conflict_reason,
+          'conflicting_plans', va.conflicting_plans,
+          'profiles', jsonb_build_object('full_name', approver.full_name),
+          'delegator', CASE WHEN va.on_behalf_of IS NOT NULL
+            THEN jsonb_build_object('full_name', delegator.full_name)
+          END
+        )
+        ORDER BY va.approval_level
+      )
+      INTO previous_conflicts
+      FROM public.vacation_approvals va
+      LEFT JOIN public.profiles approver ON approver.id = va.approver_id
+      LEFT JOIN public.profiles delegator ON delegator.id = va.on_behalf_of
+      WHERE va.vacation_plan_id = _vacation_plan_id
+        AND va.has_conflict
+        AND va.approval_level = ANY(previous_levels);
+
+      IF previous_conflicts IS NOT NULL THEN
+        RETURN jsonb_build_object(
+          'outcome', 'previous_conflicts',
+          'status', plan_record.status,
+          'previous_conflicts', previous_conflicts
+        );
+      END IF;
+    END IF;
+
+    -- Workspace rules for the splits being approved
+    violations := validate_vacation_plan_rules(_vacation_plan_id, _split_ids);
+
+    IF jsonb_array_length(violations) > 0 THEN
+      IF _override_reason IS NULL THEN
+        RETURN jsonb_build_object(
+          'outcome', 'rule_violations',
+          'status', plan_record.status,
+          'violations', violations
+        );
+      END IF;
+
+      IF NOT has_module_admin_access(auth.uid(), 'vacation_planning') THEN
+        RAISE EXCEPTION 'Only vacation module admins can override rule violations';
+      END IF;
+
+      INSERT INTO public.vacation_rule_overrides
+        (vacation_plan_id, stage, violations, reason, overridden_by)
+      VALUES
+        (_vacation_plan_id, plan_record.status, violations, _override_reason, auth.uid());
+    END IF;
+
+    -- Unselected splits are rejected; total_days follows through sync_vacation_plan_total_days
+    UPDATE public.vacation_splits
+    SET status = CASE WHEN id = ANY(_split_ids) THEN 'approved' ELSE 'rejected' END
+    WHERE vacation_plan_id = _vacation_plan_id;
+
+    SELECT jsonb_agg(conflicting_plan) INTO accepted_conflicts
+    FROM jsonb_array_elements(split_conflicts) split_conflict,
+      jsonb_array_elements(split_conflict->'conflicts') conflicting_plan;
+  END IF;
+
+  INSERT INTO public.vacation_approvals (
+    vacation_plan_id, approval_level, approver_id, on_behalf_of, status,
+    comments, has_conflict, conflict_reason, conflicting_plans
+  )
+  VALUES (
+    _vacation_plan_id,
+    _approval_level,
+    auth.uid(),
+    acting_for_id,
+    CASE _action WHEN 'approve' THEN 'approved' ELSE 'rejected' END,
+    NULLIF(trim(_comments), ''),
+    _conflict_reason IS NOT NULL,
+    NULLIF(trim(_conflict_reason), ''),
+    accepted_conflicts
+  )
+  ON CONFLICT (vacation_plan_id, approval_level) DO UPDATE SET
+    approver_id = EXCLUDED.approver_id,
+    on_behalf_of = EXCLUDED.on_behalf_of,
+    status = EXCLUDED.status,
+    comments = EXCLUDED.comments,
+    has_conflict = EXCLUDED.has_conflict,
+    conflict_reason = EXCLUDED.conflict_reason,
+    conflicting_plans = EXCLUDED.conflicting_plans,
+    updated_at = now();
+
+  -- The approval chain trigger routes approvals to the plan's next level
+  UPDATE public.vacation_plans
+  SET status = CASE _action WHEN 'approve' THEN get_next_vacation_status(_vacation_plan_id, _approval_level) ELSE 'rejected' END
+  WHERE id = _vacation_plan_id
+  RETURNING status INTO new_status;
+
+  RETURN jsonb_build_object(
+    'outcome', 'completed',
+    'status', new_status,
+    'on_behalf_of', acting_for_id
+  );
+END;
+$$;
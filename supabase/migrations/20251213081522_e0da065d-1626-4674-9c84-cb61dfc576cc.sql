@@ -0,0 +1,253 @@
+-- Approval SLAs: reminders and escalation for vacation plans waiting too long at a level
+
+-- When the plan entered its current status (start of the SLA clock)
+ALTER TABLE public.vacation_plans
+ADD COLUMN status_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+UPDATE public.vacation_plans
+SET status_changed_at = COALESCE(submitted_at, updated_at, created_at);
+
+CREATE OR REPLACE FUNCTION public.set_vacation_status_changed_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run after the approval chain and rules triggers have settled the status
+CREATE TRIGGER set_vacation_status_changed_at
+  BEFORE UPDATE OF status ON public.vacation_plans
+  FOR EACH ROW EXECUTE FUNCTION public.set_vacation_status_changed_at();
+
+-- Per-workspace deadline for each approval level, in working days
+CREATE TABLE public.vacation_approval_slas (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  approval_level INTEGER NOT NULL CHECK (approval_level BETWEEN 1 AND 3),
+  deadline_days INTEGER NOT NULL DEFAULT 3 CHECK (deadline_days > 0),
+  reminder_days_before INTEGER NOT NULL DEFAULT 1 CHECK (reminder_days_before >= 0),
+  escalate_to TEXT NOT NULL DEFAULT 'next_level' CHECK (escalate_to IN ('next_level', 'general_admin')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (workspace_id, approval_level)
+);
+
+ALTER TABLE public.vacation_approval_slas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can manage approval SLAs"
+  ON public.vacation_approval_slas FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Authenticated users can view approval SLAs"
+  ON public.vacation_approval_slas FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_vacation_approval_slas_updated_at
+  BEFORE UPDATE ON public.vacation_approval_slas
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reminders and escalations sent by the vacation-approval-sla function
+CREATE TABLE public.vacation_approval_escalations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  vacation_plan_id UUID NOT NULL REFERENCES public.vacation_plans(id) ON DELETE CASCADE,
+  approval_level INTEGER NOT NULL CHECK (approval_level BETWEEN 1 AND 3),
+  event_type TEXT NOT NULL CHECK (event_type IN ('reminder', 'escalated')),
+  escalated_to_level INTEGER CHECK (escalated_to_level BETWEEN 1 AND 3),
+  escalated_to_role TEXT,
+  notified_user_ids UUID[] NOT NULL DEFAULT '{}',
+  pending_days INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_vacation_approval_escalations_plan
+  ON public.vacation_approval_escalations(vacation_plan_id, approval_level);
+
+ALTER TABLE public.vacation_approval_escalations ENABLE ROW LEVEL SECURITY;
+
+-- Visible to anyone who can see the plan (vacation_plans policies apply in the subquery)
+CREATE POLICY "Users can view escalations of visible plans"
+  ON public.vacation_approval_escalations FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.vacation_plans vp
+      WHERE vp.id = vacation_approval_escalations.vacation_plan_id
+    )
+  );
+
+-- Levels escalated past count as done when routing the plan onwards
+CREATE OR REPLACE FUNCTION public.get_next_vacation_status(_vacation_plan_id uuid, _completed_level integer DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  chain_level INTEGER;
+BEGIN
+  FOREACH chain_level IN ARRAY get_vacation_approval_chain(_vacation_plan_id) LOOP
+    IF chain_level IS DISTINCT FROM _completed_level AND NOT EXISTS (
+      SELECT 1 FROM public.vacation_approvals va
+      WHERE va.vacation_plan_id = _vacation_plan_id
+        AND va.approval_level = chain_level
+        AND va.status = 'approved'
+    ) AND NOT EXISTS (
+      SELECT 1 FROM public.vacation_approval_escalations vae
+      WHERE vae.vacation_plan_id = _vacation_plan_id
+        AND vae.approval_level = chain_level
+        AND vae.escalated_to_level IS NOT NULL
+    ) THEN
+      RETURN get_vacation_level_status(chain_level);
+    END IF;
+  END LOOP;
+
+  RETURN 'approved';
+END;
+$$;
+
+-- Pending plans whose workspace has an SLA for the level they wait at
+CREATE OR REPLACE FUNCTION public.get_vacation_approval_sla_status()
+RETURNS TABLE (
+  vacation_plan_id uuid,
+  staff_id uuid,
+  department_id uuid,
+  workspace_id uuid,
+  approval_level integer,
+  pending_since timestamp with time zone,
+  pending_days integer,
+  deadline_days integer,
+  reminder_days_before integer,
+  escalate_to text,
+  reminder_sent boolean,
+  escalated boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    vp.id,
+    vp.staff_id,
+    vp.department_id,
+    f.workspace_id,
+    sla.approval_level,
+    vp.status_changed_at,
+    count_working_days(vp.department_id, vp.status_changed_at::date + 1, CURRENT_DATE),
+    sla.deadline_days,
+    sla.reminder_days_before,
+    sla.escalate_to,
+    EXISTS (
+      SELECT 1 FROM public.vacation_approval_escalations vae
+      WHERE vae.vacation_plan_id = vp.id
+        AND vae.approval_level = sla.approval_level
+        AND vae.event_type = 'reminder'
+        AND vae.created_at >= vp.status_changed_at
+    ),
+    EXISTS (
+      SELECT 1 FROM public.vacation_approval_escalations vae
+      WHERE vae.vacation_plan_id = vp.id
+        AND vae.approval_level = sla.approval_level
+        AND vae.event_type = 'escalated'
+        AND vae.created_at >= vp.status_changed_at
+    )
+  FROM public.vacation_plans vp
+  JOIN public.departments d ON d.id = vp.department_id
+  JOIN public.facilities f ON f.id = d.facility_id
+  JOIN public.vacation_approval_slas sla
+    ON sla.workspace_id = f.workspace_id
+    AND get_vacation_level_status(sla.approval_level) = vp.status
+    AND sla.is_active
+$$;
+
+-- Escalate a plan that missed its SLA: move it to the next level of its chain, or
+-- (at the last level, or when configured) hand it to the workspace general admins.
+-- Returns { escalated_to_level, escalated_to_role, notified_user_ids }.
+CREATE OR REPLACE FUNCTION public.escalate_vacation_approval(_vacation_plan_id uuid, _approval_level integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_record RECORD;
+  escalation_target TEXT;
+  approval_chain INTEGER[];
+  next_level INTEGER;
+  notify_user_ids UUID[];
+  elapsed_days INTEGER;
+BEGIN
+  SELECT vp.*, f.workspace_id INTO plan_record
+  FROM public.vacation_plans vp
+  JOIN public.departments d ON d.id = vp.department_id
+  JOIN public.facilities f ON f.id = d.facility_id
+  WHERE vp.id = _vacation_plan_id
+  FOR UPDATE OF vp;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vacation plan not found';
+  END IF;
+
+  IF plan_record.status IS DISTINCT FROM get_vacation_level_status(_approval_level) THEN
+    RAISE EXCEPTION 'Vacation plan is not awaiting level % approval', _approval_level;
+  END IF;
+
+  SELECT sla.escalate_to INTO escalation_target
+  FROM public.vacation_approval_slas sla
+  WHERE sla.workspace_id = plan_record.workspace_id
+    AND sla.approval_level = _approval_level;
+
+  approval_chain := get_vacation_approval_chain(_vacation_plan_id);
+  next_level := approval_chain[array_position(approval_chain, _approval_level) + 1];
+  elapsed_days := count_working_days(plan_record.department_id, plan_record.status_changed_at::date + 1, CURRENT_DATE);
+
+  IF COALESCE(escalation_target, 'next_level') = 'next_level' AND next_level IS NOT NULL THEN
+    notify_user_ids := array_remove(ARRAY[get_vacation_approver(plan_record.department_id, next_level)], NULL);
+
+    INSERT INTO public.vacation_approval_escalations
+      (vacation_plan_id, approval_level, event_type, escalated_to_level, notified_user_ids, pending_days)
+    VALUES
+      (_vacation_plan_id, _approval_level, 'escalated', next_level, notify_user_ids, elapsed_days);
+
+    -- The approval chain trigger skips the escalated level
+    UPDATE public.vacation_plans
+    SET status = get_vacation_level_status(next_level)
+    WHERE id = _vacation_plan_id;
+  ELSE
+    SELECT COALESCE(array_agg(DISTINCT ur.user_id), '{}') INTO notify_user_ids
+    FROM public.user_roles ur
+    WHERE ur.role = 'general_admin'::app_role
+      AND ur.workspace_id = plan_record.workspace_id;
+
+    next_level := NULL;
+
+    INSERT INTO public.vacation_approval_escalations
+      (vacation_plan_id, approval_level, event_type, escalated_to_role, notified_user_ids, pending_days)
+    VALUES
+      (_vacation_plan_id, _approval_level, 'escalated', 'general_admin', notify_user_ids, elapsed_days);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'escalated_to_level', next_level,
+    'escalated_to_role', CASE WHEN next_level IS NULL THEN 'general_admin' END,
+    'notified_user_ids', to_jsonb(notify_user_ids)
+  );
+END;
+$$;
+
+-- SLA processing is reserved for the scheduled function (service role)
+REVOKE EXECUTE ON FUNCTION public.get_vacation_approval_sla_status() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.escalate_vacation_approval(uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- Enable realtime for escalations
+ALTER PUBLICATION supabase_realtime ADD TABLE public.vacation_approval_escalations;
@@ -0,0 +1,682 @@
+-- Amendments and cancellations of approved vacation plans.
+-- A change request is a separate plan (amends_plan_id) whose splits each modify or cancel
+-- one split of the original plan. It runs through the approval chain like any plan and is
+-- applied to the original when it is approved.
+
+ALTER TABLE public.vacation_plans DROP CONSTRAINT IF EXISTS vacation_plans_status_check;
+
+ALTER TABLE public.vacation_plans
+ADD CONSTRAINT vacation_plans_status_check
+CHECK (status IN ('draft', 'department_pending', 'facility_pending', 'workspace_pending', 'approved', 'rejected', 'cancelled'));
+
+ALTER TABLE public.vacation_splits DROP CONSTRAINT IF EXISTS vacation_splits_status_check;
+
+ALTER TABLE public.vacation_splits
+ADD CONSTRAINT vacation_splits_status_check
+CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled'));
+
+ALTER TABLE public.vacation_plans
+ADD COLUMN amends_plan_id UUID REFERENCES public.vacation_plans(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_vacation_plans_amends_plan ON public.vacation_plans(amends_plan_id);
+
+-- Amendment splits point at the split they change and keep its dates at request time
+ALTER TABLE public.vacation_splits
+ADD COLUMN original_split_id UUID REFERENCES public.vacation_splits(id) ON DELETE CASCADE,
+ADD COLUMN change_type TEXT CHECK (change_type IN ('modify', 'cancel')),
+ADD COLUMN original_start_date DATE,
+ADD COLUMN original_end_date DATE;
+
+ALTER TABLE public.vacation_splits
+ADD CONSTRAINT vacation_splits_original_split_check
+CHECK ((original_split_id IS NULL) = (change_type IS NULL));
+
+COMMENT ON COLUMN vacation_plans.status IS 'Approval workflow: draft -> department_pending (Dept Head) -> facility_pending (Facility Supervisor) -> workspace_pending (Workspace Supervisor) -> approved; approved plans become cancelled when every split is cancelled through an amendment';
+
+-- Cancelled splits and cancellation requests do not count towards the plan total
+CREATE OR REPLACE FUNCTION public.sync_vacation_plan_total_days()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_plan_id uuid;
+BEGIN
+  target_plan_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.vacation_plan_id ELSE NEW.vacation_plan_id END;
+
+  UPDATE public.vacation_plans
+  SET total_days = (
+    SELECT COALESCE(SUM(vs.days), 0)
+    FROM public.vacation_splits vs
+    WHERE vs.vacation_plan_id = target_plan_id
+      AND COALESCE(vs.status, 'pending') NOT IN ('rejected', 'cancelled')
+      AND vs.change_type IS DISTINCT FROM 'cancel'
+  )
+  WHERE id = target_plan_id;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Current balance for a staff member and vacation type in the vacation year containing _as_of
+CREATE OR REPLACE FUNCTION public.get_vacation_balance(_staff_id UUID, _vacation_type_id UUID, _as_of DATE DEFAULT CURRENT_DATE)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ent RECORD;
+  year_start DATE;
+  year_end DATE;
+  accrued NUMERIC;
+  carried_over NUMERIC;
+  used NUMERIC;
+  adjustments NUMERIC;
+  pending NUMERIC;
+  balance NUMERIC;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND auth.uid() <> _staff_id
+    AND NOT can_manage_staff_vacation(auth.uid(), _staff_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.vacation_plans
+      WHERE staff_id = _staff_id AND created_by = auth.uid()
+    )
+  THEN
+    RAISE EXCEPTION 'Not authorized to view this vacation balance';
+  END IF;
+
+  year_start := get_vacation_year_start(_staff_id, _as_of);
+  year_end := (year_start + INTERVAL '1 year' - INTERVAL '1 day')::DATE;
+
+  SELECT * INTO ent
+  FROM public.vacation_entitlements
+  WHERE staff_id = _staff_id AND vacation_type_id = _vacation_type_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'tracked', false,
+      'year_start', year_start,
+      'year_end', year_end
+    );
+  END IF;
+
+  accrued := calculate_vacation_accrual(ent.annual_days, ent.accrual_method, ent.effective_from, year_start, _as_of);
+  carried_over := get_vacation_carry_over(_staff_id, _vacation_type_id, year_start);
+
+  SELECT
+    COALESCE(-SUM(days) FILTER (WHERE entry_type IN ('debit', 'credit')), 0),
+    COALESCE(SUM(days) FILTER (WHERE entry_type = 'adjustment'), 0)
+  INTO used, adjustments
+  FROM public.vacation_balance_ledger
+  WHERE staff_id = _staff_id
+    AND vacation_type_id = _vacation_type_id
+    AND effective_date BETWEEN year_start AND year_end;
+
+  -- Submitted plans that have not been debited yet (amendments settle their difference on approval)
+  SELECT COALESCE(SUM(vp.total_days), 0) INTO pending
+  FROM public.vacation_plans vp
+  WHERE vp.staff_id = _staff_id
+    AND vp.vacation_type_id = _vacation_type_id
+    AND vp.status IN ('department_pending', 'facility_pending', 'workspace_pending')
+    AND vp.amends_plan_id IS NULL
+    AND (
+      SELECT MIN(vs.start_date) FROM public.vacation_splits vs WHERE vs.vacation_plan_id = vp.id
+    ) BETWEEN year_start AND year_end;
+
+  balance := accrued + carried_over + adjustments - used;
+
+  RETURN jsonb_build_object(
+    'tracked', true,
+    'year_start', year_start,
+    'year_end', year_end,
+    'annual_days', ent.annual_days,
+    'accrual_method', ent.accrual_method,
+    'accrued', accrued,
+    'carried_over', carried_over,
+    'adjustments', adjustments,
+    'used', used,
+    'pending', pending,
+    'balance', balance,
+    'available', balance - pending
+  );
+END;
+$$;
+
+-- Debit the ledger on final approval and credit it back when an approved plan is rejected or cancelled
+CREATE OR REPLACE FUNCTION public.handle_vacation_plan_ledger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  debit_date DATE;
+  balance_data jsonb;
+  net_debited NUMERIC;
+BEGIN
+  -- Amendments are settled on the original plan by apply_vacation_amendment
+  IF NEW.amends_plan_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.vacation_entitlements
+      WHERE staff_id = NEW.staff_id AND vacation_type_id = NEW.vacation_type_id
+    ) THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT MIN(start_date) INTO debit_date
+    FROM public.vacation_splits
+    WHERE vacation_plan_id = NEW.id
+      AND COALESCE(status, 'pending') NOT IN ('rejected', 'cancelled');
+
+    debit_date := COALESCE(debit_date, CURRENT_DATE);
+    balance_data := get_vacation_balance(NEW.staff_id, NEW.vacation_type_id, debit_date);
+
+    IF (balance_data->>'balance')::NUMERIC < NEW.total_days THEN
+      RAISE EXCEPTION 'Insufficient vacation balance: % days available, % days requested',
+        balance_data->>'balance', NEW.total_days;
+    END IF;
+
+    INSERT INTO public.vacation_balance_ledger
+      (staff_id, vacation_type_id, vacation_plan_id, entry_type, days, effective_date, reason, created_by)
+    VALUES
+      (NEW.staff_id, NEW.vacation_type_id, NEW.id, 'debit', -NEW.total_days, debit_date, 'Vacation plan approved', auth.uid());
+
+  ELSIF OLD.status = 'approved' AND NEW.status IN ('rejected', 'cancelled') THEN
+    SELECT COALESCE(SUM(days), 0), MIN(effective_date) INTO net_debited, debit_date
+    FROM public.vacation_balance_ledger
+    WHERE vacation_plan_id = NEW.id
+      AND entry_type IN ('debit', 'credit');
+
+    IF net_debited < 0 THEN
+      INSERT INTO public.vacation_balance_ledger
+        (staff_id, vacation_type_id, vacation_plan_id, entry_type, days, effective_date, reason, created_by)
+      VALUES
+        (NEW.staff_id, NEW.vacation_type_id, NEW.id, 'credit', -net_debited, debit_date, 'Vacation plan ' || NEW.status, auth.uid());
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Check splits against the workspace rules of a department
+-- _splits: [{ "id"?: uuid, "start_date": date, "end_date": date }]
+-- Cancelled days and applied amendments no longer count towards concurrent vacations
+CREATE OR REPLACE FUNCTION public.check_vacation_rules(
+  _department_id uuid,
+  _staff_id uuid,
+  _splits jsonb,
+  _reference_date date DEFAULT CURRENT_DATE,
+  _exclude_plan_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  max_splits INTEGER;
+  min_notice INTEGER;
+  max_concurrent INTEGER;
+  split_count INTEGER;
+  split_record RECORD;
+  notice_days INTEGER;
+  peak_date DATE;
+  peak_count INTEGER;
+  violations jsonb := '[]'::jsonb;
+BEGIN
+  SELECT w.max_vacation_splits, w.min_vacation_notice_days, w.max_concurrent_vacations
+  INTO max_splits, min_notice, max_concurrent
+  FROM public.departments d
+  JOIN public.facilities f ON f.id = d.facility_id
+  JOIN public.workspaces w ON w.id = f.workspace_id
+  WHERE d.id = _department_id;
+
+  -- Template departments have no facility; fall back to the staff member's workspace
+  IF NOT FOUND THEN
+    SELECT w.max_vacation_splits, w.min_vacation_notice_days, w.max_concurrent_vacations
+    INTO max_splits, min_notice, max_concurrent
+    FROM public.user_roles ur
+    JOIN public.workspaces w ON w.id = ur.workspace_id
+    WHERE ur.user_id = _staff_id
+    LIMIT 1;
+  END IF;
+
+  max_splits := COALESCE(max_splits, 6);
+  min_notice := COALESCE(min_notice, 14);
+  max_concurrent := COALESCE(max_concurrent, 3);
+
+  split_count := jsonb_array_length(COALESCE(_splits, '[]'::jsonb));
+
+  IF split_count > max_splits THEN
+    violations := violations || jsonb_build_object(
+      'rule', 'max_vacation_splits',
+      'split_index', NULL,
+      'split_id', NULL,
+      'limit', max_splits,
+      'actual', split_count,
+      'message', format('Plan has %s vacation periods, the workspace allows at most %s', split_count, max_splits)
+    );
+  END IF;
+
+  FOR split_record IN
+    SELECT
+      (s.ordinality - 1)::INTEGER AS split_index,
+      NULLIF(s.value->>'id', '')::uuid AS split_id,
+      (s.value->>'start_date')::date AS start_date,
+      (s.value->>'end_date')::date AS end_date
+    FROM jsonb_array_elements(COALESCE(_splits, '[]'::jsonb)) WITH ORDINALITY AS s(value, ordinality)
+  LOOP
+    -- Minimum notice
+    notice_days := split_record.start_date - _reference_date;
+    IF notice_days < min_notice THEN
+      violations := violations || jsonb_build_object(
+        'rule', 'min_vacation_notice_days',
+        'split_index', split_record.split_index,
+        'split_id', split_record.split_id,
+        'start_date', split_record.start_date,
+        'end_date', split_record.end_date,
+        'limit', min_notice,
+        'actual', notice_days,
+        'message', format('Starts %s days after the request, at least %s days notice is required', notice_days, min_notice)
+      );
+    END IF;
+
+    -- Maximum concurrent vacations in the department (busiest day of the split)
+    SELECT day::date, COUNT(DISTINCT vp.staff_id)::INTEGER
+    INTO peak_date, peak_count
+    FROM generate_series(split_record.start_date, split_record.end_date, INTERVAL '1 day') AS day
+    JOIN public.vacation_splits vs
+      ON day::date BETWEEN vs.start_date AND vs.end_date
+      AND COALESCE(vs.status, 'pending') NOT IN ('rejected', 'cancelled')
+      AND vs.change_type IS DISTINCT FROM 'cancel'
+    JOIN public.vacation_plans vp ON vp.id = vs.vacation_plan_id
+    WHERE vp.department_id = _department_id
+      AND vp.staff_id <> _staff_id
+      AND vp.status NOT IN ('draft', 'rejected', 'cancelled')
+      AND NOT (vp.amends_plan_id IS NOT NULL AND vp.status = 'approved')
+      AND (_exclude_plan_id IS NULL OR vp.id <> _exclude_plan_id)
+    GROUP BY day
+    ORDER BY COUNT(DISTINCT vp.staff_id) DESC, day
+    LIMIT 1;
+
+    IF peak_count IS NOT NULL AND peak_count + 1 > max_concurrent THEN
+      violations := violations || jsonb_build_object(
+        'rule', 'max_concurrent_vacations',
+        'split_index', split_record.split_index,
+        'split_id', split_record.split_id,
+        'start_date', split_record.start_date,
+        'end_date', split_record.end_date,
+        'limit', max_concurrent,
+        'actual', peak_count + 1,
+        'peak_date', peak_date,
+        'message', format('%s staff would be on vacation on %s, the department allows at most %s', peak_count + 1, peak_date, max_concurrent)
+      );
+    END IF;
+
+    peak_count := NULL;
+  END LOOP;
+
+  RETURN violations;
+END;
+$$;
+
+-- Check an existing plan's active splits (or the given subset) against the workspace rules.
+-- Cancellation requests free days up and are never checked.
+CREATE OR REPLACE FUNCTION public.validate_vacation_plan_rules(_vacation_plan_id uuid, _split_ids uuid[] DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_record RECORD;
+  plan_splits jsonb;
+BEGIN
+  SELECT * INTO plan_record FROM public.vacation_plans WHERE id = _vacation_plan_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vacation plan not found';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('id', vs.id, 'start_date', vs.start_date, 'end_date', vs.end_date)
+    ORDER BY vs.start_date
+  ), '[]'::jsonb)
+  INTO plan_splits
+  FROM public.vacation_splits vs
+  WHERE vs.vacation_plan_id = _vacation_plan_id
+    AND vs.change_type IS DISTINCT FROM 'cancel'
+    AND (
+      (_split_ids IS NOT NULL AND vs.id = ANY(_split_ids)) OR
+      (_split_ids IS NULL AND COALESCE(vs.status, 'pending') NOT IN ('rejected', 'cancelled'))
+    );
+
+  RETURN check_vacation_rules(
+    plan_record.department_id,
+    plan_record.staff_id,
+    plan_splits,
+    COALESCE(plan_record.submitted_at::date, CURRENT_DATE),
+    plan_record.id
+  );
+END;
+$$;
+
+-- Conflicts only count active days: cancelled plans and splits, cancellation requests and
+-- amendments already applied to their original plan are ignored. An amendment is not
+-- compared with the plan it amends.
+CREATE OR REPLACE FUNCTION public.check_vacation_conflicts(_vacation_plan_id uuid, _department_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  conflict_data jsonb;
+  amended_plan_id uuid;
+BEGIN
+  SELECT amends_plan_id INTO amended_plan_id
+  FROM vacation_plans
+  WHERE id = _vacation_plan_id;
+
+  -- Build array of conflicts per split
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'split_id', current_vs.id,
+      'start_date', current_vs.start_date,
+      'end_date', current_vs.end_date,
+      'conflicts', (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'plan_id', vp.id,
+            'staff_id', vp.staff_id,
+            'staff_name', p.full_name,
+            'vacation_type', vt.name,
+            'start_date', vs.start_date,
+            'end_date', vs.end_date,
+            'days', vs.days,
+            'overlap_days', count_working_days(
+              _department_id,
+              GREATEST(vs.start_date, current_vs.start_date),
+              LEAST(vs.end_date, current_vs.end_date)
+            ),
+            'status', vp.status
+          )
+        )
+        FROM vacation_plans vp
+        JOIN vacation_splits vs ON vs.vacation_plan_id = vp.id
+        JOIN profiles p ON p.id = vp.staff_id
+        JOIN vacation_types vt ON vt.id = vp.vacation_type_id
+        WHERE vp.department_id = _department_id
+          AND vp.id != _vacation_plan_id
+          AND vp.id IS DISTINCT FROM amended_plan_id
+          AND vp.amends_plan_id IS DISTINCT FROM _vacation_plan_id
+          AND vp.status NOT IN ('rejected', 'draft', 'cancelled')
+          AND NOT (vp.amends_plan_id IS NOT NULL AND vp.status = 'approved')
+          AND COALESCE(vs.status, 'pending') NOT IN ('rejected', 'cancelled')
+          AND vs.change_type IS DISTINCT FROM 'cancel'
+          AND vs.start_date <= current_vs.end_date
+          AND vs.end_date >= current_vs.start_date
+          AND count_working_days(
+            _department_id,
+            GREATEST(vs.start_date, current_vs.start_date),
+            LEAST(vs.end_date, current_vs.end_date)
+          ) > 0
+      )
+    )
+  ) INTO conflict_data
+  FROM vacation_splits current_vs
+  WHERE current_vs.vacation_plan_id = _vacation_plan_id
+    AND COALESCE(current_vs.status, 'pending') <> 'cancelled'
+    AND current_vs.change_type IS DISTINCT FROM 'cancel';
+
+  RETURN COALESCE(conflict_data, '[]'::jsonb);
+END;
+$function$;
+
+-- Request a change to an approved plan and submit it to the approval chain.
+-- _changes: [{ "split_id": uuid, "change_type": "modify" | "cancel", "start_date"?: date, "end_date"?: date }]
+-- Returns { amendment_id, status }. Rule violations raise VACATION_RULE_VIOLATIONS unless a
+-- vacation module admin passes _override_reason.
+CREATE OR REPLACE FUNCTION public.request_vacation_amendment(
+  _vacation_plan_id uuid,
+  _changes jsonb,
+  _notes text DEFAULT NULL,
+  _override_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_record RECORD;
+  change_record RECORD;
+  amendment_id uuid;
+  violations jsonb;
+  new_status text;
+BEGIN
+  SELECT * INTO plan_record
+  FROM public.vacation_plans
+  WHERE id = _vacation_plan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vacation plan not found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM plan_record.staff_id
+    AND auth.uid() IS DISTINCT FROM plan_record.created_by
+    AND NOT can_manage_staff_vacation(auth.uid(), plan_record.staff_id)
+  THEN
+    RAISE EXCEPTION 'Not authorized to change this vacation plan';
+  END IF;
+
+  IF plan_record.amends_plan_id IS NOT NULL OR plan_record.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved vacation plans can be changed';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.vacation_plans
+    WHERE amends_plan_id = _vacation_plan_id
+      AND status IN ('draft', 'department_pending', 'facility_pending', 'workspace_pending')
+  ) THEN
+    RAISE EXCEPTION 'This vacation plan already has a change request awaiting approval';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(_changes, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Select at least one vacation period to change';
+  END IF;
+
+  INSERT INTO public.vacation_plans
+    (staff_id, department_id, vacation_type_id, created_by, status, total_days, notes, amends_plan_id)
+  VALUES
+    (plan_record.staff_id, plan_record.department_id, plan_record.vacation_type_id, auth.uid(), 'draft', 0, NULLIF(trim(_notes), ''), _vacation_plan_id)
+  RETURNING id INTO amendment_id;
+
+  FOR change_record IN
+    SELECT
+      vs.id AS split_id,
+      vs.start_date AS current_start,
+      vs.end_date AS current_end,
+      c.value->>'change_type' AS change_type,
+      COALESCE((c.value->>'start_date')::date, vs.start_date) AS start_date,
+      COALESCE((c.value->>'end_date')::date, vs.end_date) AS end_date
+    FROM jsonb_array_elements(_changes) AS c(value)
+    LEFT JOIN public.vacation_splits vs
+      ON vs.id = NULLIF(c.value->>'split_id', '')::uuid
+      AND vs.vacation_plan_id = _vacation_plan_id
+      AND COALESCE(vs.status, 'pending') NOT IN ('rejected', 'cancelled')
+  LOOP
+    IF change_record.split_id IS NULL THEN
+      RAISE EXCEPTION 'Only active periods of this vacation plan can be changed';
+    END IF;
+
+    IF change_record.change_type NOT IN ('modify', 'cancel') THEN
+      RAISE EXCEPTION 'Invalid change type: %', change_record.change_type;
+    END IF;
+
+    IF change_record.change_type = 'modify' AND (
+      change_record.end_date < change_record.start_date OR
+      (change_record.start_date = change_record.current_start AND change_record.end_date = change_record.current_end)
+    ) THEN
+      RAISE EXCEPTION 'Enter new dates for the period starting %', change_record.current_start;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.vacation_splits
+      WHERE vacation_plan_id = amendment_id AND original_split_id = change_record.split_id
+    ) THEN
+      RAISE EXCEPTION 'The period starting % is changed more than once', change_record.current_start;
+    END IF;
+
+    -- Days are recalculated by set_vacation_split_working_days
+    INSERT INTO public.vacation_splits
+      (vacation_plan_id, start_date, end_date, days, original_split_id, change_type, original_start_date, original_end_date)
+    VALUES
+      (amendment_id, change_record.start_date, change_record.end_date, 0, change_record.split_id, change_record.change_type,
+       change_record.current_start, change_record.current_end);
+  END LOOP;
+
+  UPDATE public.vacation_plans
+  SET submitted_at = now()
+  WHERE id = amendment_id;
+
+  violations := validate_vacation_plan_rules(amendment_id);
+
+  IF jsonb_array_length(violations) > 0 THEN
+    IF _override_reason IS NULL THEN
+      RAISE EXCEPTION 'VACATION_RULE_VIOLATIONS'
+        USING DETAIL = violations::text,
+              HINT = 'Vacation module admins can override rule violations with a reason';
+    END IF;
+
+    IF NOT has_module_admin_access(auth.uid(), 'vacation_planning') THEN
+      RAISE EXCEPTION 'Only vacation module admins can override rule violations';
+    END IF;
+
+    INSERT INTO public.vacation_rule_overrides
+      (vacation_plan_id, stage, violations, reason, overridden_by)
+    VALUES
+      (amendment_id, 'draft', violations, _override_reason, auth.uid());
+  END IF;
+
+  -- The approval chain trigger routes the amendment to its first level
+  UPDATE public.vacation_plans
+  SET status = 'department_pending'
+  WHERE id = amendment_id
+  RETURNING status INTO new_status;
+
+  RETURN jsonb_build_object(
+    'amendment_id', amendment_id,
+    'status', new_status
+  );
+END;
+$$;
+
+-- Apply an approved amendment to its original plan: approved changes move or cancel the
+-- original splits, and the ledger is corrected by the difference in days. A plan left
+-- without active splits is cancelled, which credits its days back.
+CREATE OR REPLACE FUNCTION public.apply_vacation_amendment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original_record RECORD;
+  change_record RECORD;
+  net_debited NUMERIC;
+  ledger_delta NUMERIC;
+  ledger_date DATE;
+  balance_data jsonb;
+BEGIN
+  SELECT * INTO original_record
+  FROM public.vacation_plans
+  WHERE id = NEW.amends_plan_id
+  FOR UPDATE;
+
+  IF original_record.status IS DISTINCT FROM 'approved' THEN
+    RAISE EXCEPTION 'The original vacation plan is no longer approved';
+  END IF;
+
+  FOR change_record IN
+    SELECT * FROM public.vacation_splits
+    WHERE vacation_plan_id = NEW.id
+      AND COALESCE(status, 'pending') <> 'rejected'
+  LOOP
+    IF change_record.change_type = 'cancel' THEN
+      UPDATE public.vacation_splits
+      SET status = 'cancelled'
+      WHERE id = change_record.original_split_id;
+    ELSE
+      UPDATE public.vacation_splits
+      SET start_date = change_record.start_date, end_date = change_record.end_date
+      WHERE id = change_record.original_split_id;
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.vacation_splits
+    WHERE vacation_plan_id = original_record.id
+      AND COALESCE(status, 'pending') NOT IN ('rejected', 'cancelled')
+  ) THEN
+    UPDATE public.vacation_plans
+    SET status = 'cancelled'
+    WHERE id = original_record.id;
+
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(days), 0), MIN(effective_date) INTO net_debited, ledger_date
+  FROM public.vacation_balance_ledger
+  WHERE vacation_plan_id = original_record.id
+    AND entry_type IN ('debit', 'credit');
+
+  -- Untracked plans were never debited
+  IF net_debited = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  -- total_days was updated by sync_vacation_plan_total_days
+  SELECT -total_days - net_debited INTO ledger_delta
+  FROM public.vacation_plans
+  WHERE id = original_record.id;
+
+  IF ledger_delta < 0 THEN
+    balance_data := get_vacation_balance(original_record.staff_id, original_record.vacation_type_id, ledger_date);
+
+    IF (balance_data->>'balance')::NUMERIC < -ledger_delta THEN
+      RAISE EXCEPTION 'Insufficient vacation balance: % days available, % more days requested',
+        balance_data->>'balance', -ledger_delta;
+    END IF;
+  END IF;
+
+  IF ledger_delta <> 0 THEN
+    INSERT INTO public.vacation_balance_ledger
+      (staff_id, vacation_type_id, vacation_plan_id, entry_type, days, effective_date, reason, created_by)
+    VALUES
+      (original_record.staff_id, original_record.vacation_type_id, original_record.id,
+       CASE WHEN ledger_delta < 0 THEN 'debit' ELSE 'credit' END,
+       ledger_delta, ledger_date, 'Vacation plan amended', auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_vacation_amendment
+  AFTER UPDATE OF status ON public.vacation_plans
+  FOR EACH ROW
+  WHEN (NEW.amends_plan_id IS NOT NULL AND NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved')
+  EXECUTE FUNCTION public.apply_vacation_amendment();
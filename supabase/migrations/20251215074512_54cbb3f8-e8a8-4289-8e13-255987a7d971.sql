@@ -0,0 +1,226 @@
+-- Supporting documents (e.g. medical certificates) for vacation types that require documentation
+
+-- Private bucket; files are stored as <vacation_plan_id>/<file>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'vacation-documents',
+  'vacation-documents',
+  false,
+  10485760,
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.vacation_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  vacation_plan_id UUID NOT NULL REFERENCES public.vacation_plans(id) ON DELETE CASCADE,
+  file_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT,
+  file_size INTEGER,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'verified', 'resubmission_requested')),
+  review_notes TEXT,
+  reviewed_by UUID REFERENCES public.profiles(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  uploaded_by UUID NOT NULL REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_vacation_documents_plan ON public.vacation_documents(vacation_plan_id);
+
+-- The staff member or the plan's creator can add documents until the plan is decided
+CREATE OR REPLACE FUNCTION public.can_upload_vacation_document(_user_id uuid, _vacation_plan_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.vacation_plans
+    WHERE id = _vacation_plan_id
+      AND (staff_id = _user_id OR created_by = _user_id)
+      AND status IN ('draft', 'department_pending', 'facility_pending', 'workspace_pending')
+  )
+$$;
+
+ALTER TABLE public.vacation_documents ENABLE ROW LEVEL SECURITY;
+
+-- Visible to anyone who can see the plan (vacation_plans policies apply in the subquery)
+CREATE POLICY "Users can view documents of visible plans"
+  ON public.vacation_documents FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.vacation_plans vp
+      WHERE vp.id = vacation_documents.vacation_plan_id
+    )
+  );
+
+CREATE POLICY "Plan owners can upload documents"
+  ON public.vacation_documents FOR INSERT
+  WITH CHECK (
+    uploaded_by = auth.uid()
+    AND status = 'pending'
+    AND can_upload_vacation_document(auth.uid(), vacation_plan_id)
+  );
+
+CREATE POLICY "Uploaders can delete unverified documents"
+  ON public.vacation_documents FOR DELETE
+  USING (uploaded_by = auth.uid() AND status <> 'verified');
+
+CREATE TRIGGER update_vacation_documents_updated_at
+  BEFORE UPDATE ON public.vacation_documents
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Storage access mirrors the document rows
+CREATE POLICY "Users can view vacation documents of visible plans"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'vacation-documents'
+    AND EXISTS (
+      SELECT 1 FROM public.vacation_plans vp
+      WHERE vp.id::text = (storage.foldername(name))[1]
+    )
+  );
+
+CREATE POLICY "Plan owners can upload vacation documents"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'vacation-documents'
+    AND can_upload_vacation_document(auth.uid(), ((storage.foldername(name))[1])::uuid)
+  );
+
+CREATE POLICY "Uploaders can delete unverified vacation documents"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'vacation-documents'
+    AND EXISTS (
+      SELECT 1 FROM public.vacation_documents vd
+      WHERE vd.file_path = storage.objects.name
+        AND vd.uploaded_by = auth.uid()
+        AND vd.status <> 'verified'
+    )
+  );
+
+-- Whether a plan has the documents its vacation type requires. Change requests use the
+-- documents of the plan they amend. Documents awaiting resubmission do not count.
+CREATE OR REPLACE FUNCTION public.has_vacation_documentation(_vacation_plan_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT COALESCE(vt.requires_documentation, false) OR EXISTS (
+    SELECT 1 FROM public.vacation_documents vd
+    WHERE vd.vacation_plan_id = COALESCE(vp.amends_plan_id, vp.id)
+      AND vd.status <> 'resubmission_requested'
+  )
+  FROM public.vacation_plans vp
+  JOIN public.vacation_types vt ON vt.id = vp.vacation_type_id
+  WHERE vp.id = _vacation_plan_id
+$$;
+
+-- Plans cannot be submitted without the required documents
+CREATE OR REPLACE FUNCTION public.enforce_vacation_documentation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'draft' AND NEW.status IS DISTINCT FROM 'draft' AND NOT has_vacation_documentation(NEW.id) THEN
+    RAISE EXCEPTION 'This vacation type requires supporting documents. Upload them before submitting the plan';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_vacation_documentation
+  BEFORE UPDATE OF status ON public.vacation_plans
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_vacation_documentation();
+
+-- ...nor approved while every document is waiting to be resubmitted
+CREATE OR REPLACE FUNCTION public.enforce_vacation_documentation_on_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'approved' AND NOT has_vacation_documentation(NEW.vacation_plan_id) THEN
+    RAISE EXCEPTION 'Supporting documents were sent back for resubmission. Wait for new documents before approving';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_vacation_documentation_on_approval
+  BEFORE INSERT OR UPDATE OF status ON public.vacation_approvals
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_vacation_documentation_on_approval();
+
+-- Approvers (or their delegates) at the plan's current level, and vacation module admins,
+-- mark a document verified or ask for a new one
+CREATE OR REPLACE FUNCTION public.review_vacation_document(_document_id uuid, _status text, _notes text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  document_record RECORD;
+  plan_level integer;
+  level_scope_id uuid;
+BEGIN
+  IF _status NOT IN ('verified', 'resubmission_requested') THEN
+    RAISE EXCEPTION 'Invalid document status: %', _status;
+  END IF;
+
+  IF _status = 'resubmission_requested' AND COALESCE(trim(_notes), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to request a new document';
+  END IF;
+
+  SELECT vd.id, vp.status AS plan_status, vp.department_id INTO document_record
+  FROM public.vacation_documents vd
+  JOIN public.vacation_plans vp ON vp.id = vd.vacation_plan_id
+  WHERE vd.id = _document_id
+  FOR UPDATE OF vd;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  IF NOT has_module_admin_access(auth.uid(), 'vacation_planning') THEN
+    plan_level := CASE document_record.plan_status
+      WHEN 'department_pending' THEN 1
+      WHEN 'facility_pending' THEN 2
+      WHEN 'workspace_pending' THEN 3
+    END;
+
+    IF plan_level IS NULL THEN
+      RAISE EXCEPTION 'Documents can only be reviewed while the plan awaits approval';
+    END IF;
+
+    level_scope_id := get_vacation_approval_scope(document_record.department_id, plan_level);
+
+    IF NOT is_vacation_approver(auth.uid(), plan_level, level_scope_id)
+      AND get_vacation_delegator(auth.uid(), plan_level, level_scope_id) IS NULL
+    THEN
+      RAISE EXCEPTION 'You are not allowed to review documents for this vacation plan';
+    END IF;
+  END IF;
+
+  UPDATE public.vacation_documents
+  SET status = _status,
+      review_notes = NULLIF(trim(_notes), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _document_id;
+END;
+$$;
+
+-- Enable realtime for vacation documents
+ALTER PUBLICATION supabase_realtime ADD TABLE public.vacation_documents;
@@ -0,0 +1,409 @@
+-- Blackout periods and minimum-staffing guardrails for vacation approvals
+
+CREATE TABLE public.vacation_blackout_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  facility_id UUID REFERENCES public.facilities(id) ON DELETE CASCADE,
+  department_id UUID REFERENCES public.departments(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  reason TEXT,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT vacation_blackout_periods_dates_check CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_vacation_blackout_periods_workspace_dates
+  ON public.vacation_blackout_periods(workspace_id, start_date, end_date);
+
+ALTER TABLE public.vacation_blackout_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can manage blackout periods"
+  ON public.vacation_blackout_periods FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Authenticated users can view blackout periods"
+  ON public.vacation_blackout_periods FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_vacation_blackout_periods_updated_at
+  BEFORE UPDATE ON public.vacation_blackout_periods
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Guardrail issues acknowledged with an approval (blackouts and staffing shortages per split)
+ALTER TABLE public.vacation_approvals
+  ADD COLUMN guardrail_issues JSONB;
+
+-- Blackout periods overlapping a date range for a department. Workspace and facility
+-- blackouts apply to all their departments; department blackouts also cover its specialties.
+CREATE OR REPLACE FUNCTION public.get_vacation_blackouts(_department_id uuid, _start_date date, _end_date date)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', b.id,
+        'name', b.name,
+        'reason', b.reason,
+        'start_date', b.start_date,
+        'end_date', b.end_date,
+        'scope', CASE
+          WHEN b.department_id IS NOT NULL THEN 'department'
+          WHEN b.facility_id IS NOT NULL THEN 'facility'
+          ELSE 'workspace'
+        END
+      )
+      ORDER BY b.start_date
+    ),
+    '[]'::jsonb
+  )
+  FROM public.vacation_blackout_periods b
+  JOIN public.departments d ON d.id = _department_id
+  JOIN public.facilities f ON f.id = d.facility_id
+  WHERE b.workspace_id = f.workspace_id
+    AND (b.facility_id IS NULL OR b.facility_id = f.id)
+    AND (b.department_id IS NULL OR b.department_id IN (d.id, d.parent_department_id))
+    AND b.start_date <= _end_date
+    AND b.end_date >= _start_date
+$$;
+
+-- Working days on which a staff member's absence would leave their department, or the
+-- specialty they belong to, below min_staffing. Other staff count as absent while their
+-- vacation is pending or approved. Returns one entry per understaffed unit:
+-- { department_id, department_name, is_specialty, min_staffing, headcount, lowest_available, dates }
+CREATE OR REPLACE FUNCTION public.check_vacation_staffing(
+  _department_id uuid,
+  _staff_id uuid,
+  _start_date date,
+  _end_date date
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  unit RECORD;
+  check_day date;
+  unit_members uuid[];
+  absent_count integer;
+  available integer;
+  lowest_available integer;
+  short_dates jsonb;
+  shortages jsonb := '[]'::jsonb;
+BEGIN
+  IF _start_date IS NULL OR _end_date IS NULL OR _end_date < _start_date THEN
+    RETURN shortages;
+  END IF;
+
+  FOR unit IN
+    SELECT d.id, d.name, d.min_staffing, d.id <> _department_id AS is_specialty
+    FROM public.departments d
+    WHERE COALESCE(d.min_staffing, 0) > 0
+      AND (
+        d.id = _department_id
+        OR d.id IN (
+          SELECT ur.specialty_id FROM public.user_roles ur
+          WHERE ur.user_id = _staff_id
+            AND ur.department_id = _department_id
+            AND ur.specialty_id IS NOT NULL
+        )
+      )
+  LOOP
+    SELECT array_agg(DISTINCT ur.user_id) INTO unit_members
+    FROM public.user_roles ur
+    WHERE ur.role IN ('staff', 'department_head')
+      AND CASE WHEN unit.is_specialty THEN ur.specialty_id = unit.id ELSE ur.department_id = unit.id END;
+
+    unit_members := COALESCE(unit_members, '{}');
+    short_dates := '[]'::jsonb;
+    lowest_available := NULL;
+
+    FOR check_day IN SELECT generate_series(_start_date, _end_date, interval '1 day')::date LOOP
+      CONTINUE WHEN count_working_days(_department_id, check_day, check_day) = 0;
+
+      SELECT COUNT(DISTINCT vp.staff_id) INTO absent_count
+      FROM public.vacation_plans vp
+      JOIN public.vacation_splits vs ON vs.vacation_plan_id = vp.id
+      WHERE vp.staff_id = ANY(unit_members)
+        AND vp.staff_id <> _staff_id
+        AND vp.status NOT IN ('rejected', 'draft', 'cancelled')
+        AND NOT (vp.amends_plan_id IS NOT NULL AND vp.status = 'approved')
+        AND COALESCE(vs.status, 'pending') NOT IN ('rejected', 'cancelled')
+        AND vs.change_type IS DISTINCT FROM 'cancel'
+        AND check_day BETWEEN vs.start_date AND vs.end_date;
+
+      available := cardinality(unit_members) - absent_count
+        - CASE WHEN _staff_id = ANY(unit_members) THEN 1 ELSE 0 END;
+
+      IF available < unit.min_staffing THEN
+        short_dates := short_dates || to_jsonb(check_day);
+        lowest_available := LEAST(COALESCE(lowest_available, available), available);
+      END IF;
+    END LOOP;
+
+    IF jsonb_array_length(short_dates) > 0 THEN
+      shortages := shortages || jsonb_build_object(
+        'department_id', unit.id,
+        'department_name', unit.name,
+        'is_specialty', unit.is_specialty,
+        'min_staffing', unit.min_staffing,
+        'headcount', cardinality(unit_members),
+        'lowest_available', lowest_available,
+        'dates', short_dates
+      );
+    END IF;
+  END LOOP;
+
+  RETURN shortages;
+END;
+$$;
+
+-- Blackout and staffing issues for the active splits of the given plans, one entry per split
+-- with issues: { plan_id, split_id, start_date, end_date, blackouts, staffing }.
+-- Runs with the caller's permissions so only visible plans are checked.
+CREATE OR REPLACE FUNCTION public.check_vacation_guardrails(_vacation_plan_ids uuid[])
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(issue ORDER BY issue->>'start_date'), '[]'::jsonb)
+  FROM (
+    SELECT jsonb_build_object(
+      'plan_id', vp.id,
+      'split_id', vs.id,
+      'start_date', vs.start_date,
+      'end_date', vs.end_date,
+      'blackouts', get_vacation_blackouts(vp.department_id, vs.start_date, vs.end_date),
+      'staffing', check_vacation_staffing(vp.department_id, vp.staff_id, vs.start_date, vs.end_date)
+    ) AS issue
+    FROM public.vacation_plans vp
+    JOIN public.vacation_splits vs ON vs.vacation_plan_id = vp.id
+    WHERE vp.id = ANY(_vacation_plan_ids)
+      AND COALESCE(vs.status, 'pending') NOT IN ('rejected', 'cancelled')
+      AND vs.change_type IS DISTINCT FROM 'cancel'
+  ) split_issues
+  WHERE jsonb_array_length(issue->'blackouts') > 0
+     OR jsonb_array_length(issue->'staffing') > 0
+$$;
+
+-- Approve or reject a vacation plan at one approval level in a single transaction.
+-- First-level conflicts now also cover blackout periods and staffing shortages (guardrails
+-- per split); they are acknowledged with the same conflict reason and recorded in
+-- vacation_approvals.guardrail_issues.
+-- Returns { outcome, status, ... } where outcome is one of:
+--   completed          - changes applied, status is the plan's new status
+--   conflicts          - first-level approval overlaps other vacations, falls in a blackout period
+--                        or leaves the department short-staffed (conflicts and guardrails per split)
+--   previous_conflicts - earlier levels approved despite conflicts (previous_conflicts)
+--   rule_violations    - approved splits break workspace rules (violations)
+-- Pass _conflict_reason to acknowledge conflicts and _override_reason to override rules.
+CREATE OR REPLACE FUNCTION public.approve_vacation_plan(
+  _vacation_plan_id uuid,
+  _approval_level integer,
+  _action text DEFAULT 'approve',
+  _split_ids uuid[] DEFAULT NULL,
+  _comments text DEFAULT NULL,
+  _conflict_reason text DEFAULT NULL,
+  _override_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_record RECORD;
+  level_scope_id uuid;
+  acting_for_id uuid;
+  approval_chain integer[];
+  previous_levels integer[];
+  split_conflicts jsonb := '[]'::jsonb;
+  split_guardrails jsonb := '[]'::jsonb;
+  accepted_conflicts jsonb;
+  previous_conflicts jsonb;
+  violations jsonb;
+  new_status text;
+BEGIN
+  IF _action NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Invalid approval action: %', _action;
+  END IF;
+
+  SELECT * INTO plan_record
+  FROM public.vacation_plans
+  WHERE id = _vacation_plan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vacation plan not found';
+  END IF;
+
+  IF plan_record.status IS DISTINCT FROM get_vacation_level_status(_approval_level) THEN
+    RAISE EXCEPTION 'Vacation plan is not awaiting level % approval', _approval_level;
+  END IF;
+
+  -- The caller must be the approver for the level, or their active delegate
+  level_scope_id := get_vacation_approval_scope(plan_record.department_id, _approval_level);
+
+  IF NOT is_vacation_approver(auth.uid(), _approval_level, level_scope_id) THEN
+    acting_for_id := get_vacation_delegator(auth.uid(), _approval_level, level_scope_id);
+
+    IF acting_for_id IS NULL THEN
+      RAISE EXCEPTION 'You are not allowed to review vacation plans at level %', _approval_level;
+    END IF;
+  END IF;
+
+  IF _action = 'reject' AND COALESCE(trim(_comments), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a vacation plan';
+  END IF;
+
+  IF _action = 'approve' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.vacation_splits
+      WHERE vacation_plan_id = _vacation_plan_id
+        AND id = ANY(COALESCE(_split_ids, '{}'))
+    ) THEN
+      RAISE EXCEPTION 'Select at least one vacation segment to approve';
+    END IF;
+
+    approval_chain := get_vacation_approval_chain(_vacation_plan_id);
+    previous_levels := approval_chain[1:COALESCE(array_position(approval_chain, _approval_level), 1) - 1];
+
+    IF cardinality(previous_levels) = 0 THEN
+      -- First level of the chain: check the approved splits for overlapping vacations
+      SELECT COALESCE(jsonb_agg(split_conflict), '[]'::jsonb) INTO split_conflicts
+      FROM jsonb_array_elements(check_vacation_conflicts(_vacation_plan_id, plan_record.department_id)) split_conflict
+      WHERE (split_conflict->>'split_id')::uuid = ANY(_split_ids)
+        AND jsonb_typeof(split_conflict->'conflicts') = 'array';
+
+      -- ...and for blackout periods and minimum staffing
+      SELECT COALESCE(jsonb_agg(split_issue), '[]'::jsonb) INTO split_guardrails
+      FROM jsonb_array_elements(check_vacation_guardrails(ARRAY[_vacation_plan_id])) split_issue
+      WHERE (split_issue->>'split_id')::uuid = ANY(_split_ids);
+
+      IF (jsonb_array_length(split_conflicts) > 0 OR jsonb_array_length(split_guardrails) > 0)
+        AND _conflict_reason IS NULL
+      THEN
+        RETURN jsonb_build_object(
+          'outcome', 'conflicts',
+          'status', plan_record.status,
+          'conflicts', split_conflicts,
+          'guardrails', split_guardrails
+        );
+      END IF;
+    ELSIF _conflict_reason IS NULL THEN
+      -- Later levels acknowledge conflicts accepted at earlier levels
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'approval_level', va.approval_level,
+          'conflict_reason', va.conflict_reason,
+          'conflicting_plans', va.conflicting_plans,
+          'guardrail_issues', va.guardrail_issues,
+          'profiles', jsonb_build_object('full_name', approver.full_name),
+          'delegator', CASE WHEN va.on_behalf_of IS NOT NULL
+            THEN jsonb_build_object('full_name', delegator.full_name)
+          END
+        )
+        ORDER BY va.approval_level
+      )
+      INTO previous_conflicts
+      FROM public.vacation_approvals va
+      LEFT JOIN public.profiles approver ON approver.id = va.approver_id
+      LEFT JOIN public.profiles delegator ON delegator.id = va.on_behalf_of
+      WHERE va.vacation_plan_id = _vacation_plan_id
+        AND va.has_conflict
+        AND va.approval_level = ANY(previous_levels);
+
+      IF previous_conflicts IS NOT NULL THEN
+        RETURN jsonb_build_object(
+          'outcome', 'previous_conflicts',
+          'status', plan_record.status,
+          'previous_conflicts', previous_conflicts
+        );
+      END IF;
+    END IF;
+
+    -- Workspace rules for the splits being approved
+    violations := validate_vacation_plan_rules(_vacation_plan_id, _split_ids);
+
+    IF jsonb_array_length(violations) > 0 THEN
+      IF _override_reason IS NULL THEN
+        RETURN jsonb_build_object(
+          'outcome', 'rule_violations',
+          'status', plan_record.status,
+          'violations', violations
+        );
+      END IF;
+
+      IF NOT has_module_admin_access(auth.uid(), 'vacation_planning') THEN
+        RAISE EXCEPTION 'Only vacation module admins can override rule violations';
+      END IF;
+
+      INSERT INTO public.vacation_rule_overrides
+        (vacation_plan_id, stage, violations, reason, overridden_by)
+      VALUES
+        (_vacation_plan_id, plan_record.status, violations, _override_reason, auth.uid());
+    END IF;
+
+    -- Unselected splits are rejected; total_days follows through sync_vacation_plan_total_days
+    UPDATE public.vacation_splits
+    SET status = CASE WHEN id = ANY(_split_ids) THEN 'approved' ELSE 'rejected' END
+    WHERE vacation_plan_id = _vacation_plan_id;
+
+    SELECT jsonb_agg(conflicting_plan) INTO accepted_conflicts
+    FROM jsonb_array_elements(split_conflicts) split_conflict,
+      jsonb_array_elements(split_conflict->'conflicts') conflicting_plan;
+  END IF;
+
+  INSERT INTO public.vacation_approvals (
+    vacation_plan_id, approval_level, approver_id, on_behalf_of, status,
+    comments, has_conflict, conflict_reason, conflicting_plans, guardrail_issues
+  )
+  VALUES (
+    _vacation_plan_id,
+    _approval_level,
+    auth.uid(),
+    acting_for_id,
+    CASE _action WHEN 'approve' THEN 'approved' ELSE 'rejected' END,
+    NULLIF(trim(_comments), ''),
+    _conflict_reason IS NOT NULL,
+    NULLIF(trim(_conflict_reason), ''),
+    accepted_conflicts,
+    CASE WHEN jsonb_array_length(split_guardrails) > 0 THEN split_guardrails END
+  )
+  ON CONFLICT (vacation_plan_id, approval_level) DO UPDATE SET
+    approver_id = EXCLUDED.approver_id,
+    on_behalf_of = EXCLUDED.on_behalf_of,
+    status = EXCLUDED.status,
+    comments = EXCLUDED.comments,
+    has_conflict = EXCLUDED.has_conflict,
+    conflict_reason = EXCLUDED.conflict_reason,
+    conflicting_plans = EXCLUDED.conflicting_plans,
+    guardrail_issues = EXCLUDED.guardrail_issues,
+    updated_at = now();
+
+  -- The approval chain trigger routes approvals to the plan's next level
+  UPDATE public.vacation_plans
+  SET status = CASE _action WHEN 'approve' THEN get_next_vacation_status(_vacation_plan_id, _approval_level) ELSE 'rejected' END
+  WHERE id = _vacation_plan_id
+  RETURNING status INTO new_status;
+
+  RETURN jsonb_build_object(
+    'outcome', 'completed',
+    'status', new_status,
+    'on_behalf_of', acting_for_id
+  );
+END;
+$$;
+
+-- Enable realtime for blackout periods
+ALTER PUBLICATION supabase_realtime ADD TABLE public.vacation_blackout_periods;
@@ -0,0 +1,321 @@
+-- Half-day and hourly vacation splits
+
+-- Partial days make split and plan totals fractional
+ALTER TABLE public.vacation_splits
+  ALTER COLUMN days TYPE NUMERIC(5,2);
+
+ALTER TABLE public.vacation_plans
+  ALTER COLUMN total_days TYPE NUMERIC(6,2);
+
+-- full: whole working days from start_date to end_date
+-- am / pm: morning or afternoon of a single day
+-- hours: start_time to end_time on a single day
+ALTER TABLE public.vacation_splits
+  ADD COLUMN day_portion TEXT NOT NULL DEFAULT 'full',
+  ADD COLUMN start_time TIME,
+  ADD COLUMN end_time TIME,
+  ADD CONSTRAINT vacation_splits_day_portion_check CHECK (
+    (day_portion = 'full' AND start_time IS NULL AND end_time IS NULL) OR
+    (day_portion IN ('am', 'pm') AND start_date = end_date AND start_time IS NULL AND end_time IS NULL) OR
+    (day_portion = 'hours' AND start_date = end_date AND start_time IS NOT NULL AND end_time > start_time)
+  );
+
+COMMENT ON COLUMN public.vacation_splits.day_portion IS 'full, am, pm or hours (start_time to end_time); partial portions cover a single day';
+
+-- Hours of the day (0-24) a split is away for, e.g. [0,12) for a morning
+CREATE OR REPLACE FUNCTION public.vacation_split_hours(_day_portion text, _start_time time, _end_time time)
+RETURNS numrange
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _day_portion
+    WHEN 'am' THEN numrange(0, 12)
+    WHEN 'pm' THEN numrange(12, 24)
+    WHEN 'hours' THEN numrange(
+      (EXTRACT(EPOCH FROM _start_time) / 3600)::numeric,
+      (EXTRACT(EPOCH FROM _end_time) / 3600)::numeric
+    )
+    ELSE numrange(0, 24)
+  END;
+$$;
+
+-- Split days are working days; a half day counts 0.5 and an hourly absence its share of
+-- an 8-hour working day. A change request keeps the part of day of the split it changes
+-- while it stays on a single day, a split spanning several days is always whole days.
+CREATE OR REPLACE FUNCTION public.set_vacation_split_working_days()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_department_id uuid;
+  original_split RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.original_split_id IS NOT NULL AND NEW.day_portion = 'full' THEN
+    SELECT day_portion, start_time, end_time INTO original_split
+    FROM public.vacation_splits
+    WHERE id = NEW.original_split_id;
+
+    NEW.day_portion := COALESCE(original_split.day_portion, 'full');
+    NEW.start_time := original_split.start_time;
+    NEW.end_time := original_split.end_time;
+  END IF;
+
+  IF NEW.start_date <> NEW.end_date THEN
+    NEW.day_portion := 'full';
+  END IF;
+
+  IF NEW.day_portion <> 'hours' THEN
+    NEW.start_time := NULL;
+    NEW.end_time := NULL;
+  END IF;
+
+  SELECT department_id INTO plan_department_id
+  FROM public.vacation_plans
+  WHERE id = NEW.vacation_plan_id;
+
+  NEW.days := count_working_days(plan_department_id, NEW.start_date, NEW.end_date);
+
+  IF NEW.days = 0 THEN
+    RAISE EXCEPTION 'Vacation period % to % contains no working days', NEW.start_date, NEW.end_date;
+  END IF;
+
+  IF NEW.day_portion IN ('am', 'pm') THEN
+    NEW.days := 0.5;
+  ELSIF NEW.day_portion = 'hours' THEN
+    NEW.days := LEAST(1, ROUND((EXTRACT(EPOCH FROM NEW.end_time - NEW.start_time) / 3600 / 8)::numeric, 2));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_vacation_split_working_days ON public.vacation_splits;
+
+CREATE TRIGGER set_vacation_split_working_days
+  BEFORE INSERT OR UPDATE OF start_date, end_date, day_portion, start_time, end_time ON public.vacation_splits
+  FOR EACH ROW EXECUTE FUNCTION public.set_vacation_split_working_days();
+
+-- Partial-day splits only conflict when their hours overlap (a morning and an afternoon
+-- off on the same day do not); the overlap of a partial split is its own share of the day.
+CREATE OR REPLACE FUNCTION public.check_vacation_conflicts(_vacation_plan_id uuid, _department_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  conflict_data jsonb;
+  amended_plan_id uuid;
+BEGIN
+  SELECT amends_plan_id INTO amended_plan_id
+  FROM vacation_plans
+  WHERE id = _vacation_plan_id;
+
+  -- Build array of conflicts per split
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'split_id', current_vs.id,
+      'start_date', current_vs.start_date,
+      'end_date', current_vs.end_date,
+      'day_portion', current_vs.day_portion,
+      'start_time', current_vs.start_time,
+      'end_time', current_vs.end_time,
+      'conflicts', (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'plan_id', vp.id,
+            'staff_id', vp.staff_id,
+            'staff_name', p.full_name,
+            'vacation_type', vt.name,
+            'start_date', vs.start_date,
+            'end_date', vs.end_date,
+            'day_portion', vs.day_portion,
+            'start_time', vs.start_time,
+            'end_time', vs.end_time,
+            'days', vs.days,
+            'overlap_days', CASE
+              WHEN vs.day_portion = 'full' AND current_vs.day_portion = 'full' THEN count_working_days(
+                _department_id,
+                GREATEST(vs.start_date, current_vs.start_date),
+                LEAST(vs.end_date, current_vs.end_date)
+              )
+              ELSE LEAST(vs.days, current_vs.days)
+            END,
+            'status', vp.status
+          )
+        )
+        FROM vacation_plans vp
+        JOIN vacation_splits vs ON vs.vacation_plan_id = vp.id
+        JOIN profiles p ON p.id = vp.staff_id
+        JOIN vacation_types vt ON vt.id = vp.vacation_type_id
+        WHERE vp.department_id = _department_id
+          AND vp.id != _vacation_plan_id
+          AND vp.id IS DISTINCT FROM amended_plan_id
+          AND vp.amends_plan_id IS DISTINCT FROM _vacation_plan_id
+          AND vp.status NOT IN ('rejected', 'draft', 'cancelled')
+          AND NOT (vp.amends_plan_id IS NOT NULL AND vp.status = 'approved')
+          AND COALESCE(vs.status, 'pending') NOT IN ('rejected', 'cancelled')
+          AND vs.change_type IS DISTINCT FROM 'cancel'
+          AND vs.start_date <= current_vs.end_date
+          AND vs.end_date >= current_vs.start_date
+          AND vacation_split_hours(vs.day_portion, vs.start_time, vs.end_time)
+            && vacation_split_hours(current_vs.day_portion, current_vs.start_time, current_vs.end_time)
+          AND count_working_days(
+            _department_id,
+            GREATEST(vs.start_date, current_vs.start_date),
+            LEAST(vs.end_date, current_vs.end_date)
+          ) > 0
+      )
+    )
+  ) INTO conflict_data
+  FROM vacation_splits current_vs
+  WHERE current_vs.vacation_plan_id = _vacation_plan_id
+    AND COALESCE(current_vs.status, 'pending') <> 'cancelled'
+    AND current_vs.change_type IS DISTINCT FROM 'cancel';
+
+  RETURN COALESCE(conflict_data, '[]'::jsonb);
+END;
+$function$;
+
+-- A staff member may take a morning and an afternoon off in separate requests
+CREATE OR REPLACE FUNCTION public.check_user_vacation_overlap(
+  _staff_id uuid,
+  _splits jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  overlap_data jsonb;
+BEGIN
+  -- Build array of overlapping vacation plans
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'plan_id', vp.id,
+      'vacation_type', vt.name,
+      'start_date', vs.start_date,
+      'end_date', vs.end_date,
+      'day_portion', vs.day_portion,
+      'days', vs.days,
+      'status', vp.status
+    )
+  ) INTO overlap_data
+  FROM vacation_plans vp
+  JOIN vacation_splits vs ON vs.vacation_plan_id = vp.id
+  JOIN vacation_types vt ON vt.id = vp.vacation_type_id
+  WHERE vp.staff_id = _staff_id
+    AND vp.status NOT IN ('rejected', 'draft')
+    AND EXISTS (
+      -- Check each split in the input against existing splits
+      SELECT 1
+      FROM jsonb_array_elements(_splits) AS input_split
+      WHERE vs.start_date <= (input_split->>'end_date')::date
+        AND vs.end_date >= (input_split->>'start_date')::date
+        AND vacation_split_hours(vs.day_portion, vs.start_time, vs.end_time) && vacation_split_hours(
+          COALESCE(input_split->>'day_portion', 'full'),
+          (input_split->>'start_time')::time,
+          (input_split->>'end_time')::time
+        )
+    );
+
+  RETURN COALESCE(overlap_data, '[]'::jsonb);
+END;
+$$;
+
+-- Approved changes also carry the part of day over to the original split
+CREATE OR REPLACE FUNCTION public.apply_vacation_amendment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original_record RECORD;
+  change_record RECORD;
+  net_debited NUMERIC;
+  ledger_delta NUMERIC;
+  ledger_date DATE;
+  balance_data jsonb;
+BEGIN
+  SELECT * INTO original_record
+  FROM public.vacation_plans
+  WHERE id = NEW.amends_plan_id
+  FOR UPDATE;
+
+  IF original_record.status IS DISTINCT FROM 'approved' THEN
+    RAISE EXCEPTION 'The original vacation plan is no longer approved';
+  END IF;
+
+  FOR change_record IN
+    SELECT * FROM public.vacation_splits
+    WHERE vacation_plan_id = NEW.id
+      AND COALESCE(status, 'pending') <> 'rejected'
+  LOOP
+    IF change_record.change_type = 'cancel' THEN
+      UPDATE public.vacation_splits
+      SET status = 'cancelled'
+      WHERE id = change_record.original_split_id;
+    ELSE
+      UPDATE public.vacation_splits
+      SET start_date = change_record.start_date,
+          end_date = change_record.end_date,
+          day_portion = change_record.day_portion,
+          start_time = change_record.start_time,
+          end_time = change_record.end_time
+      WHERE id = change_record.original_split_id;
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.vacation_splits
+    WHERE vacation_plan_id = original_record.id
+      AND COALESCE(status, 'pending') NOT IN ('rejected', 'cancelled')
+  ) THEN
+    UPDATE public.vacation_plans
+    SET status = 'cancelled'
+    WHERE id = original_record.id;
+
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(days), 0), MIN(effective_date) INTO net_debited, ledger_date
+  FROM public.vacation_balance_ledger
+  WHERE vacation_plan_id = original_record.id
+    AND entry_type IN ('debit', 'credit');
+
+  -- Untracked plans were never debited
+  IF net_debited = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  -- total_days was updated by sync_vacation_plan_total_days
+  SELECT -total_days - net_debited INTO ledger_delta
+  FROM public.vacation_plans
+  WHERE id = original_record.id;
+
+  IF ledger_delta < 0 THEN
+    balance_data := get_vacation_balance(original_record.staff_id, original_record.vacation_type_id, ledger_date);
+
+    IF (balance_data->>'balance')::NUMERIC < -ledger_delta THEN
+      RAISE EXCEPTION 'Insufficient vacation balance: % days available, % more days requested',
+        balance_data->>'balance', -ledger_delta;
+    END IF;
+  END IF;
+
+  IF ledger_delta <> 0 THEN
+    INSERT INTO public.vacation_balance_ledger
+      (staff_id, vacation_type_id, vacation_plan_id, entry_type, days, effective_date, reason, created_by)
+    VALUES
+      (original_record.staff_id, original_record.vacation_type_id, original_record.id,
+       CASE WHEN ledger_delta < 0 THEN 'debit' ELSE 'credit' END,
+       ledger_delta, ledger_date, 'Vacation plan amended', auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,35 @@
+-- Payroll export layout for vacation reports, one per organization
+-- columns: ordered [{ "field": "<report field>", "header": "<column title>" }]
+
+CREATE TABLE public.vacation_payroll_export_layouts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL UNIQUE REFERENCES public.organizations(id) ON DELETE CASCADE,
+  columns JSONB NOT NULL DEFAULT '[]'::jsonb,
+  date_format TEXT NOT NULL DEFAULT 'yyyy-MM-dd',
+  updated_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT vacation_payroll_export_layouts_columns_check CHECK (jsonb_typeof(columns) = 'array')
+);
+
+ALTER TABLE public.vacation_payroll_export_layouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can manage payroll export layouts"
+  ON public.vacation_payroll_export_layouts FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Organization admins can manage their payroll export layout"
+  ON public.vacation_payroll_export_layouts FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.organizations o
+    WHERE o.id = organization_id AND o.owner_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.organizations o
+    WHERE o.id = organization_id AND o.owner_id = auth.uid()
+  ));
+
+CREATE TRIGGER update_vacation_payroll_export_layouts_updated_at
+  BEFORE UPDATE ON public.vacation_payroll_export_layouts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
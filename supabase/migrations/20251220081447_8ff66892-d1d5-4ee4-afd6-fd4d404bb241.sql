@@ -0,0 +1,423 @@
+-- Shift swaps and giveaways between staff, approved by the department head
+-- swap: exchange the requester's assignment with a colleague's (colleague accepts first)
+-- giveaway: offer the requester's assignment to anyone eligible in the department
+
+CREATE TABLE public.shift_swap_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_type TEXT NOT NULL CHECK (request_type IN ('swap', 'giveaway')),
+  department_id UUID NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  assignment_id UUID NOT NULL REFERENCES public.shift_assignments(id) ON DELETE CASCADE,
+  requester_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- Colleague taking the requester's shift (set when a giveaway is picked up)
+  taker_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- Colleague's assignment the requester takes in return (swaps only)
+  target_assignment_id UUID REFERENCES public.shift_assignments(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'pending_colleague', 'pending_approval', 'approved', 'rejected', 'declined', 'cancelled')),
+  notes TEXT,
+  reviewed_by UUID REFERENCES public.profiles(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT shift_swap_requests_swap_target_check CHECK (
+    request_type = 'giveaway' OR (taker_id IS NOT NULL AND target_assignment_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_shift_swap_requests_department_status ON public.shift_swap_requests(department_id, status);
+CREATE INDEX idx_shift_swap_requests_assignment ON public.shift_swap_requests(assignment_id);
+
+-- One active request per assignment
+CREATE UNIQUE INDEX idx_shift_swap_requests_active_assignment
+  ON public.shift_swap_requests(assignment_id)
+  WHERE status IN ('open', 'pending_colleague', 'pending_approval');
+
+ALTER TABLE public.shift_swap_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can manage shift swap requests"
+  ON public.shift_swap_requests FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Staff can view their shift swap requests"
+  ON public.shift_swap_requests FOR SELECT
+  USING (requester_id = auth.uid() OR taker_id = auth.uid());
+
+CREATE POLICY "Department members can view open shift offers"
+  ON public.shift_swap_requests FOR SELECT
+  USING (
+    status = 'open'
+    AND EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      WHERE ur.user_id = auth.uid()
+        AND (ur.department_id = shift_swap_requests.department_id OR ur.specialty_id = shift_swap_requests.department_id)
+    )
+  );
+
+CREATE POLICY "Department heads can view shift swap requests"
+  ON public.shift_swap_requests FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      WHERE ur.user_id = auth.uid()
+        AND ur.role = 'department_head'
+        AND ur.department_id = shift_swap_requests.department_id
+    )
+  );
+
+CREATE TRIGGER update_shift_swap_requests_updated_at
+  BEFORE UPDATE ON public.shift_swap_requests
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reasons a staff member cannot take over an assignment: not in the schedule's department
+-- or specialty, on approved vacation during the shift, or less than _min_rest_hours between
+-- the shift and their other shifts. _released_assignment_id is the shift they give up in a swap.
+-- Returns [{ "code": "department" | "vacation" | "rest" | "double_booked", "message": text }]
+CREATE OR REPLACE FUNCTION public.check_shift_swap_eligibility(
+  _assignment_id uuid,
+  _taker_id uuid,
+  _released_assignment_id uuid DEFAULT NULL,
+  _min_rest_hours integer DEFAULT 11
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  shift_record RECORD;
+  shift_start TIMESTAMP;
+  shift_end TIMESTAMP;
+  shift_hours numrange;
+  closest RECORD;
+  issues jsonb := '[]'::jsonb;
+BEGIN
+  SELECT sa.id, sa.assignment_date, sh.id AS shift_id, sh.name, sh.start_time, sh.end_time, sc.department_id
+  INTO shift_record
+  FROM public.shift_assignments sa
+  JOIN public.shifts sh ON sh.id = sa.shift_id
+  JOIN public.schedules sc ON sc.id = sh.schedule_id
+  WHERE sa.id = _assignment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift assignment not found';
+  END IF;
+
+  -- Shifts ending at or before their start run into the next day
+  shift_start := shift_record.assignment_date + shift_record.start_time;
+  shift_end := shift_record.assignment_date + shift_record.end_time
+    + CASE WHEN shift_record.end_time <= shift_record.start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END;
+  shift_hours := numrange(
+    (EXTRACT(EPOCH FROM shift_record.start_time) / 3600)::numeric,
+    CASE WHEN shift_record.end_time <= shift_record.start_time THEN 24
+      ELSE (EXTRACT(EPOCH FROM shift_record.end_time) / 3600)::numeric END
+  );
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = _taker_id
+      AND ur.role IN ('staff', 'department_head')
+      AND (ur.department_id = shift_record.department_id OR ur.specialty_id = shift_record.department_id)
+  ) THEN
+    issues := issues || jsonb_build_object(
+      'code', 'department',
+      'message', 'Not a member of the department or specialty of this shift'
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.vacation_plans vp
+    JOIN public.vacation_splits vs ON vs.vacation_plan_id = vp.id
+    WHERE vp.staff_id = _taker_id
+      AND vp.status = 'approved'
+      AND vp.amends_plan_id IS NULL
+      AND COALESCE(vs.status, 'pending') NOT IN ('rejected', 'cancelled')
+      AND vs.change_type IS DISTINCT FROM 'cancel'
+      AND shift_record.assignment_date BETWEEN vs.start_date AND vs.end_date
+      AND vacation_split_hours(vs.day_portion, vs.start_time, vs.end_time) && shift_hours
+  ) THEN
+    issues := issues || jsonb_build_object(
+      'code', 'vacation',
+      'message', format('On approved vacation on %s', shift_record.assignment_date)
+    );
+  END IF;
+
+  SELECT other.assignment_date, other.name,
+    LEAST(
+      ABS(EXTRACT(EPOCH FROM (shift_start - other.other_end))),
+      ABS(EXTRACT(EPOCH FROM (other.other_start - shift_end)))
+    ) / 3600 AS gap_hours,
+    other.other_start < shift_end AND other.other_end > shift_start AS overlaps
+  INTO closest
+  FROM (
+    SELECT sa.assignment_date, sh.name,
+      sa.assignment_date + sh.start_time AS other_start,
+      sa.assignment_date + sh.end_time
+        + CASE WHEN sh.end_time <= sh.start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END AS other_end
+    FROM public.shift_assignments sa
+    JOIN public.shifts sh ON sh.id = sa.shift_id
+    WHERE sa.staff_id = _taker_id
+      AND sa.status <> 'cancelled'
+      AND sa.id <> _assignment_id
+      AND (_released_assignment_id IS NULL OR sa.id <> _released_assignment_id)
+      AND sa.assignment_date BETWEEN shift_record.assignment_date - 2 AND shift_record.assignment_date + 2
+  ) other
+  WHERE other.other_start < shift_end + make_interval(hours => _min_rest_hours)
+    AND other.other_end > shift_start - make_interval(hours => _min_rest_hours)
+  ORDER BY other.other_start
+  LIMIT 1;
+
+  IF FOUND THEN
+    IF closest.overlaps THEN
+      issues := issues || jsonb_build_object(
+        'code', 'double_booked',
+        'message', format('Already works %s on %s at the same time', closest.name, closest.assignment_date)
+      );
+    ELSE
+      issues := issues || jsonb_build_object(
+        'code', 'rest',
+        'message', format('Only %s hours rest next to %s on %s, at least %s required',
+          round(closest.gap_hours, 1), closest.name, closest.assignment_date, _min_rest_hours)
+      );
+    END IF;
+  END IF;
+
+  RETURN issues;
+END;
+$$;
+
+-- Offer an own upcoming shift (giveaway) or propose exchanging it for a colleague's shift (swap)
+CREATE OR REPLACE FUNCTION public.request_shift_swap(
+  _assignment_id uuid,
+  _target_assignment_id uuid DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment_record RECORD;
+  target_record RECORD;
+  request_id uuid;
+BEGIN
+  SELECT sa.*, sc.department_id, sc.status AS schedule_status
+  INTO assignment_record
+  FROM public.shift_assignments sa
+  JOIN public.shifts sh ON sh.id = sa.shift_id
+  JOIN public.schedules sc ON sc.id = sh.schedule_id
+  WHERE sa.id = _assignment_id;
+
+  IF NOT FOUND OR assignment_record.staff_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only trade your own shifts';
+  END IF;
+
+  IF assignment_record.schedule_status <> 'published' OR assignment_record.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Only shifts of published schedules can be traded';
+  END IF;
+
+  IF assignment_record.assignment_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Past shifts cannot be traded';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.shift_swap_requests
+    WHERE (assignment_id = _assignment_id OR target_assignment_id = _assignment_id)
+      AND status IN ('open', 'pending_colleague', 'pending_approval')
+  ) THEN
+    RAISE EXCEPTION 'This shift already has an open trade';
+  END IF;
+
+  IF _target_assignment_id IS NULL THEN
+    INSERT INTO public.shift_swap_requests (request_type, department_id, assignment_id, requester_id, status, notes)
+    VALUES ('giveaway', assignment_record.department_id, _assignment_id, auth.uid(), 'open', _notes)
+    RETURNING id INTO request_id;
+
+    RETURN request_id;
+  END IF;
+
+  SELECT sa.*, sc.department_id, sc.status AS schedule_status
+  INTO target_record
+  FROM public.shift_assignments sa
+  JOIN public.shifts sh ON sh.id = sa.shift_id
+  JOIN public.schedules sc ON sc.id = sh.schedule_id
+  WHERE sa.id = _target_assignment_id;
+
+  IF NOT FOUND OR target_record.staff_id = auth.uid() THEN
+    RAISE EXCEPTION 'Choose a colleague''s shift to swap with';
+  END IF;
+
+  IF target_record.schedule_status <> 'published' OR target_record.status = 'cancelled'
+    OR target_record.assignment_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'The colleague''s shift can no longer be traded';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.shift_swap_requests
+    WHERE (assignment_id = _target_assignment_id OR target_assignment_id = _target_assignment_id)
+      AND status IN ('open', 'pending_colleague', 'pending_approval')
+  ) THEN
+    RAISE EXCEPTION 'The colleague''s shift already has an open trade';
+  END IF;
+
+  INSERT INTO public.shift_swap_requests
+    (request_type, department_id, assignment_id, requester_id, taker_id, target_assignment_id, status, notes)
+  VALUES
+    ('swap', assignment_record.department_id, _assignment_id, auth.uid(), target_record.staff_id,
+     _target_assignment_id, 'pending_colleague', _notes)
+  RETURNING id INTO request_id;
+
+  RETURN request_id;
+END;
+$$;
+
+-- Pick up an offered shift, or accept a swap proposed to you; both then await the department head
+CREATE OR REPLACE FUNCTION public.accept_shift_swap(_request_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_record RECORD;
+  issues jsonb;
+BEGIN
+  SELECT * INTO request_record FROM public.shift_swap_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift trade not found';
+  END IF;
+
+  IF request_record.request_type = 'giveaway' THEN
+    IF request_record.status <> 'open' THEN
+      RAISE EXCEPTION 'This shift has already been taken';
+    END IF;
+    IF request_record.requester_id = auth.uid() THEN
+      RAISE EXCEPTION 'You cannot pick up your own shift';
+    END IF;
+  ELSIF request_record.status <> 'pending_colleague' OR request_record.taker_id <> auth.uid() THEN
+    RAISE EXCEPTION 'This swap is not awaiting your answer';
+  END IF;
+
+  issues := check_shift_swap_eligibility(request_record.assignment_id, auth.uid(), request_record.target_assignment_id);
+  IF request_record.request_type = 'swap' THEN
+    issues := issues || check_shift_swap_eligibility(
+      request_record.target_assignment_id, request_record.requester_id, request_record.assignment_id
+    );
+  END IF;
+
+  IF jsonb_array_length(issues) > 0 THEN
+    RAISE EXCEPTION 'SHIFT_SWAP_INELIGIBLE' USING DETAIL = issues::text;
+  END IF;
+
+  UPDATE public.shift_swap_requests
+  SET taker_id = auth.uid(), status = 'pending_approval'
+  WHERE id = _request_id;
+END;
+$$;
+
+-- Withdraw an own request, or decline a swap proposed to you
+CREATE OR REPLACE FUNCTION public.cancel_shift_swap(_request_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_record RECORD;
+BEGIN
+  SELECT * INTO request_record FROM public.shift_swap_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR request_record.status NOT IN ('open', 'pending_colleague', 'pending_approval') THEN
+    RAISE EXCEPTION 'This shift trade is no longer open';
+  END IF;
+
+  IF request_record.requester_id = auth.uid() THEN
+    UPDATE public.shift_swap_requests SET status = 'cancelled' WHERE id = _request_id;
+  ELSIF request_record.taker_id = auth.uid() AND request_record.status = 'pending_colleague' THEN
+    UPDATE public.shift_swap_requests SET status = 'declined' WHERE id = _request_id;
+  ELSE
+    RAISE EXCEPTION 'You cannot cancel this shift trade';
+  END IF;
+END;
+$$;
+
+-- Department head decision. Approval re-checks eligibility and moves the assignments.
+CREATE OR REPLACE FUNCTION public.review_shift_swap(_request_id uuid, _approve boolean, _comment text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_record RECORD;
+  issues jsonb;
+BEGIN
+  SELECT * INTO request_record FROM public.shift_swap_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR request_record.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'This shift trade is not awaiting approval';
+  END IF;
+
+  IF NOT has_role(auth.uid(), 'super_admin'::app_role) AND NOT EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = auth.uid()
+      AND ur.role = 'department_head'
+      AND ur.department_id = request_record.department_id
+  ) THEN
+    RAISE EXCEPTION 'Only the department head can review shift trades';
+  END IF;
+
+  IF NOT _approve THEN
+    UPDATE public.shift_swap_requests
+    SET status = 'rejected', reviewed_by = auth.uid(), reviewed_at = now(), review_comment = _comment
+    WHERE id = _request_id;
+    RETURN;
+  END IF;
+
+  issues := check_shift_swap_eligibility(request_record.assignment_id, request_record.taker_id, request_record.target_assignment_id);
+  IF request_record.request_type = 'swap' THEN
+    issues := issues || check_shift_swap_eligibility(
+      request_record.target_assignment_id, request_record.requester_id, request_record.assignment_id
+    );
+  END IF;
+
+  IF jsonb_array_length(issues) > 0 THEN
+    RAISE EXCEPTION 'SHIFT_SWAP_INELIGIBLE' USING DETAIL = issues::text;
+  END IF;
+
+  UPDATE public.shift_assignments
+  SET staff_id = request_record.taker_id, assigned_by = auth.uid()
+  WHERE id = request_record.assignment_id;
+
+  IF request_record.request_type = 'swap' THEN
+    UPDATE public.shift_assignments
+    SET staff_id = request_record.requester_id, assigned_by = auth.uid()
+    WHERE id = request_record.target_assignment_id;
+  END IF;
+
+  UPDATE public.shift_swap_requests
+  SET status = 'approved', reviewed_by = auth.uid(), reviewed_at = now(), review_comment = _comment
+  WHERE id = _request_id;
+END;
+$$;
+
+-- Department heads to notify about trades awaiting approval (staff cannot read other users' roles)
+CREATE OR REPLACE FUNCTION public.get_shift_swap_reviewers(_request_id uuid)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT ur.user_id), '{}')
+  FROM public.shift_swap_requests ssr
+  JOIN public.user_roles ur
+    ON ur.department_id = ssr.department_id AND ur.role = 'department_head'
+  WHERE ssr.id = _request_id
+    AND auth.uid() IN (ssr.requester_id, ssr.taker_id);
+$$;
@@ -0,0 +1,99 @@
+-- Staff availability: recurring weekly unavailability (day_of_week) or unavailable date ranges,
+-- optionally limited to hours of the day
+CREATE TABLE public.staff_availability (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  staff_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- 0 = Sunday … 6 = Saturday, for weekly entries
+  day_of_week INTEGER CHECK (day_of_week BETWEEN 0 AND 6),
+  start_date DATE,
+  end_date DATE,
+  -- Both null: the whole day
+  start_time TIME,
+  end_time TIME,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT staff_availability_kind_check CHECK (
+    (day_of_week IS NOT NULL AND start_date IS NULL AND end_date IS NULL)
+    OR (day_of_week IS NULL AND start_date IS NOT NULL AND end_date IS NOT NULL AND end_date >= start_date)
+  ),
+  CONSTRAINT staff_availability_hours_check CHECK (
+    (start_time IS NULL AND end_time IS NULL)
+    OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time)
+  )
+);
+
+CREATE INDEX idx_staff_availability_staff ON public.staff_availability(staff_id);
+
+-- Shift-type preferences (day / evening / night)
+CREATE TABLE public.staff_shift_preferences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  staff_id UUID NOT NULL UNIQUE REFERENCES public.profiles(id) ON DELETE CASCADE,
+  preferred_shift_types TEXT[] NOT NULL DEFAULT '{}',
+  avoided_shift_types TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT staff_shift_preferences_types_check CHECK (
+    preferred_shift_types <@ ARRAY['day', 'evening', 'night']
+    AND avoided_shift_types <@ ARRAY['day', 'evening', 'night']
+    AND NOT (preferred_shift_types && avoided_shift_types)
+  )
+);
+
+ALTER TABLE public.staff_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staff_shift_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can manage staff availability"
+  ON public.staff_availability FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Staff can manage their availability"
+  ON public.staff_availability FOR ALL
+  USING (staff_id = auth.uid())
+  WITH CHECK (staff_id = auth.uid());
+
+CREATE POLICY "Department heads can view staff availability"
+  ON public.staff_availability FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.user_roles head
+      JOIN public.user_roles member ON member.department_id = head.department_id
+      WHERE head.user_id = auth.uid()
+        AND head.role = 'department_head'
+        AND member.user_id = staff_availability.staff_id
+    )
+  );
+
+CREATE POLICY "Super admins can manage shift preferences"
+  ON public.staff_shift_preferences FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Staff can manage their shift preferences"
+  ON public.staff_shift_preferences FOR ALL
+  USING (staff_id = auth.uid())
+  WITH CHECK (staff_id = auth.uid());
+
+CREATE POLICY "Department heads can view shift preferences"
+  ON public.staff_shift_preferences FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.user_roles head
+      JOIN public.user_roles member ON member.department_id = head.department_id
+      WHERE head.user_id = auth.uid()
+        AND head.role = 'department_head'
+        AND member.user_id = staff_shift_preferences.staff_id
+    )
+  );
+
+CREATE TRIGGER update_staff_availability_updated_at
+  BEFORE UPDATE ON public.staff_availability
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_staff_shift_preferences_updated_at
+  BEFORE UPDATE ON public.staff_shift_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,455 @@
+-- Labor rules for shift assignments, per workspace with optional facility overrides.
+-- Rules listed in hard_rules block saving; the others are soft and only warn. Null limits are not checked.
+CREATE TABLE public.labor_rule_sets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID UNIQUE REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  facility_id UUID UNIQUE REFERENCES public.facilities(id) ON DELETE CASCADE,
+  min_rest_hours NUMERIC CHECK (min_rest_hours > 0),
+  max_hours_per_day NUMERIC CHECK (max_hours_per_day > 0),
+  max_hours_per_week NUMERIC CHECK (max_hours_per_week > 0),
+  max_hours_per_month NUMERIC CHECK (max_hours_per_month > 0),
+  max_consecutive_days INTEGER CHECK (max_consecutive_days > 0),
+  max_nights_per_month INTEGER CHECK (max_nights_per_month >= 0),
+  hard_rules TEXT[] NOT NULL DEFAULT '{min_rest_hours}',
+  updated_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT labor_rule_sets_scope_check CHECK ((workspace_id IS NULL) <> (facility_id IS NULL)),
+  CONSTRAINT labor_rule_sets_hard_rules_check CHECK (
+    hard_rules <@ ARRAY['min_rest_hours', 'max_hours_per_day', 'max_hours_per_week', 'max_hours_per_month',
+      'max_consecutive_days', 'max_nights_per_month']
+  )
+);
+
+ALTER TABLE public.labor_rule_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can manage labor rules"
+  ON public.labor_rule_sets FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Workspace admins can manage workspace labor rules"
+  ON public.labor_rule_sets FOR ALL
+  USING (
+    workspace_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      WHERE ur.user_id = auth.uid()
+        AND ur.role IN ('general_admin', 'workplace_supervisor')
+        AND ur.workspace_id = labor_rule_sets.workspace_id
+    )
+  )
+  WITH CHECK (
+    workspace_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      WHERE ur.user_id = auth.uid()
+        AND ur.role IN ('general_admin', 'workplace_supervisor')
+        AND ur.workspace_id = labor_rule_sets.workspace_id
+    )
+  );
+
+CREATE POLICY "Facility supervisors can manage facility labor rules"
+  ON public.labor_rule_sets FOR ALL
+  USING (
+    facility_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      WHERE ur.user_id = auth.uid()
+        AND ur.role = 'facility_supervisor'
+        AND ur.facility_id = labor_rule_sets.facility_id
+    )
+  )
+  WITH CHECK (
+    facility_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      WHERE ur.user_id = auth.uid()
+        AND ur.role = 'facility_supervisor'
+        AND ur.facility_id = labor_rule_sets.facility_id
+    )
+  );
+
+CREATE POLICY "Authenticated users can view labor rules"
+  ON public.labor_rule_sets FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_labor_rule_sets_updated_at
+  BEFORE UPDATE ON public.labor_rule_sets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rules for a department: its facility's set, else its workspace's set, else 11 hours rest only
+CREATE OR REPLACE FUNCTION public.get_labor_rules(_department_id uuid)
+RETURNS TABLE(
+  source text,
+  min_rest_hours numeric,
+  max_hours_per_day numeric,
+  max_hours_per_week numeric,
+  max_hours_per_month numeric,
+  max_consecutive_days integer,
+  max_nights_per_month integer,
+  hard_rules text[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM (
+    SELECT CASE WHEN lr.facility_id IS NOT NULL THEN 'facility' ELSE 'workspace' END,
+      lr.min_rest_hours, lr.max_hours_per_day, lr.max_hours_per_week, lr.max_hours_per_month,
+      lr.max_consecutive_days, lr.max_nights_per_month, lr.hard_rules
+    FROM public.departments d
+    JOIN public.facilities f ON f.id = d.facility_id
+    JOIN public.labor_rule_sets lr ON lr.facility_id = f.id OR lr.workspace_id = f.workspace_id
+    WHERE d.id = _department_id
+    ORDER BY lr.facility_id IS NULL
+    LIMIT 1
+  ) configured
+  UNION ALL
+  SELECT 'default', 11, NULL, NULL, NULL, NULL, NULL, ARRAY['min_rest_hours']
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM public.departments d
+    JOIN public.facilities f ON f.id = d.facility_id
+    JOIN public.labor_rule_sets lr ON lr.facility_id = f.id OR lr.workspace_id = f.workspace_id
+    WHERE d.id = _department_id
+  );
+$$;
+
+-- A staff member's saved shifts around the proposed ones, plus the proposed ones
+-- _assignments: [{ "shift_id": uuid, "assignment_date": date }]
+CREATE OR REPLACE FUNCTION public.get_labor_rule_work(
+  _staff_id uuid,
+  _assignments jsonb,
+  _exclude_assignment_ids uuid[] DEFAULT '{}'
+)
+RETURNS TABLE(
+  item_index bigint,
+  assignment_date date,
+  shift_name text,
+  shift_start timestamp,
+  shift_end timestamp,
+  hours numeric,
+  is_night boolean,
+  proposed boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH proposed AS (
+    SELECT (a->>'shift_id')::uuid AS shift_id, (a->>'assignment_date')::date AS assignment_date
+    FROM jsonb_array_elements(COALESCE(_assignments, '[]'::jsonb)) a
+  ),
+  items AS (
+    SELECT sa.shift_id, sa.assignment_date, false AS proposed
+    FROM public.shift_assignments sa
+    WHERE sa.staff_id = _staff_id
+      AND sa.status <> 'cancelled'
+      AND NOT (sa.id = ANY(COALESCE(_exclude_assignment_ids, '{}')))
+      -- Enough history for monthly limits and consecutive-day runs
+      AND sa.assignment_date BETWEEN (SELECT MIN(p.assignment_date) - 40 FROM proposed)
+        AND (SELECT MAX(p.assignment_date) + 40 FROM proposed)
+    UNION ALL
+    SELECT p.shift_id, p.assignment_date, true FROM proposed p
+  )
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY i.assignment_date, sh.start_time, i.shift_id, i.proposed),
+    i.assignment_date,
+    sh.name,
+    i.assignment_date + sh.start_time,
+    i.assignment_date + sh.end_time
+      + CASE WHEN sh.end_time <= sh.start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END,
+    ROUND((EXTRACT(EPOCH FROM (sh.end_time - sh.start_time)) / 3600
+      + CASE WHEN sh.end_time <= sh.start_time THEN 24 ELSE 0 END)::numeric, 2),
+    sh.end_time <= sh.start_time OR sh.start_time >= '20:00'::time,
+    i.proposed
+  FROM items i
+  JOIN public.shifts sh ON sh.id = i.shift_id;
+$$;
+
+-- Check proposed assignments of one staff member against the labor rules of the first shift's department.
+-- Only limits broken by the proposed assignments are reported.
+-- Returns [{ "rule", "level": "hard" | "soft", "date", "limit", "actual", "message" }]
+CREATE OR REPLACE FUNCTION public.check_labor_rules(
+  _staff_id uuid,
+  _assignments jsonb,
+  _exclude_assignment_ids uuid[] DEFAULT '{}'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  department uuid;
+  rules RECORD;
+  violations jsonb := '[]'::jsonb;
+BEGIN
+  IF jsonb_array_length(COALESCE(_assignments, '[]'::jsonb)) = 0 THEN
+    RETURN violations;
+  END IF;
+
+  SELECT sc.department_id INTO department
+  FROM jsonb_array_elements(_assignments) a
+  JOIN public.shifts sh ON sh.id = (a->>'shift_id')::uuid
+  JOIN public.schedules sc ON sc.id = sh.schedule_id
+  LIMIT 1;
+
+  SELECT * INTO rules FROM get_labor_rules(department);
+
+  -- Minimum rest between shifts (overlapping shifts always violate it)
+  IF rules.min_rest_hours IS NOT NULL THEN
+    violations := violations || COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'rule', 'min_rest_hours',
+        'level', CASE WHEN 'min_rest_hours' = ANY(rules.hard_rules) THEN 'hard' ELSE 'soft' END,
+        'date', p.assignment_date,
+        'limit', rules.min_rest_hours,
+        'actual', round(gap.hours, 1),
+        'message', CASE WHEN gap.hours < 0
+          THEN format('%s on %s overlaps %s on %s', p.shift_name, p.assignment_date, o.shift_name, o.assignment_date)
+          ELSE format('Only %s hours rest between %s on %s and %s on %s, at least %s required',
+            round(gap.hours, 1), p.shift_name, p.assignment_date, o.shift_name, o.assignment_date, rules.min_rest_hours)
+        END
+      ) ORDER BY p.assignment_date)
+      FROM get_labor_rule_work(_staff_id, _assignments, _exclude_assignment_ids) p
+      JOIN get_labor_rule_work(_staff_id, _assignments, _exclude_assignment_ids) o
+        -- Pairs of proposed shifts are reported once
+        ON NOT o.proposed OR o.item_index > p.item_index
+      CROSS JOIN LATERAL (
+        SELECT GREATEST(
+          EXTRACT(EPOCH FROM (o.shift_start - p.shift_end)),
+          EXTRACT(EPOCH FROM (p.shift_start - o.shift_end))
+        ) / 3600 AS hours
+      ) gap
+      WHERE p.proposed AND gap.hours < rules.min_rest_hours
+    ), '[]'::jsonb);
+  END IF;
+
+  IF rules.max_hours_per_day IS NOT NULL THEN
+    violations := violations || COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'rule', 'max_hours_per_day',
+        'level', CASE WHEN 'max_hours_per_day' = ANY(rules.hard_rules) THEN 'hard' ELSE 'soft' END,
+        'date', w.assignment_date,
+        'limit', rules.max_hours_per_day,
+        'actual', SUM(w.hours),
+        'message', format('%s hours on %s, at most %s allowed', SUM(w.hours), w.assignment_date, rules.max_hours_per_day)
+      ))
+      FROM get_labor_rule_work(_staff_id, _assignments, _exclude_assignment_ids) w
+      GROUP BY w.assignment_date
+      HAVING bool_or(w.proposed) AND SUM(w.hours) > rules.max_hours_per_day
+    ), '[]'::jsonb);
+  END IF;
+
+  IF rules.max_hours_per_week IS NOT NULL THEN
+    violations := violations || COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'rule', 'max_hours_per_week',
+        'level', CASE WHEN 'max_hours_per_week' = ANY(rules.hard_rules) THEN 'hard' ELSE 'soft' END,
+        'date', week_start,
+        'limit', rules.max_hours_per_week,
+        'actual', total,
+        'message', format('%s hours in the week of %s, at most %s allowed', total, week_start, rules.max_hours_per_week)
+      ))
+      FROM (
+        SELECT date_trunc('week', w.assignment_date)::date AS week_start, SUM(w.hours) AS total
+        FROM get_labor_rule_work(_staff_id, _assignments, _exclude_assignment_ids) w
+        GROUP BY 1
+        HAVING bool_or(w.proposed) AND SUM(w.hours) > rules.max_hours_per_week
+      ) weeks
+    ), '[]'::jsonb);
+  END IF;
+
+  IF rules.max_hours_per_month IS NOT NULL THEN
+    violations := violations || COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'rule', 'max_hours_per_month',
+        'level', CASE WHEN 'max_hours_per_month' = ANY(rules.hard_rules) THEN 'hard' ELSE 'soft' END,
+        'date', month_start,
+        'limit', rules.max_hours_per_month,
+        'actual', total,
+        'message', format('%s hours in %s, at most %s allowed', total, to_char(month_start, 'FMMonth YYYY'), rules.max_hours_per_month)
+      ))
+      FROM (
+        SELECT date_trunc('month', w.assignment_date)::date AS month_start, SUM(w.hours) AS total
+        FROM get_labor_rule_work(_staff_id, _assignments, _exclude_assignment_ids) w
+        GROUP BY 1
+        HAVING bool_or(w.proposed) AND SUM(w.hours) > rules.max_hours_per_month
+      ) months
+    ), '[]'::jsonb);
+  END IF;
+
+  IF rules.max_nights_per_month IS NOT NULL THEN
+    violations := violations || COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'rule', 'max_nights_per_month',
+        'level', CASE WHEN 'max_nights_per_month' = ANY(rules.hard_rules) THEN 'hard' ELSE 'soft' END,
+        'date', month_start,
+        'limit', rules.max_nights_per_month,
+        'actual', nights,
+        'message', format('%s night shifts in %s, at most %s allowed', nights, to_char(month_start, 'FMMonth YYYY'), rules.max_nights_per_month)
+      ))
+      FROM (
+        SELECT date_trunc('month', w.assignment_date)::date AS month_start, COUNT(*) AS nights
+        FROM get_labor_rule_work(_staff_id, _assignments, _exclude_assignment_ids) w
+        WHERE w.is_night
+        GROUP BY 1
+        HAVING bool_or(w.proposed) AND COUNT(*) > rules.max_nights_per_month
+      ) months
+    ), '[]'::jsonb);
+  END IF;
+
+  -- Runs of consecutive working days (gaps and islands over distinct dates)
+  IF rules.max_consecutive_days IS NOT NULL THEN
+    violations := violations || COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'rule', 'max_consecutive_days',
+        'level', CASE WHEN 'max_consecutive_days' = ANY(rules.hard_rules) THEN 'hard' ELSE 'soft' END,
+        'date', run_start,
+        'limit', rules.max_consecutive_days,
+        'actual', run_length,
+        'message', format('%s consecutive working days from %s, at most %s allowed', run_length, run_start, rules.max_consecutive_days)
+      ))
+      FROM (
+        SELECT MIN(d.assignment_date) AS run_start, COUNT(*) AS run_length
+        FROM (
+          SELECT w.assignment_date, bool_or(w.proposed) AS proposed,
+            w.assignment_date - (ROW_NUMBER() OVER (ORDER BY w.assignment_date))::integer AS island
+          FROM get_labor_rule_work(_staff_id, _assignments, _exclude_assignment_ids) w
+          GROUP BY w.assignment_date
+        ) d
+        GROUP BY d.island
+        HAVING bool_or(d.proposed) AND COUNT(*) > rules.max_consecutive_days
+      ) runs
+    ), '[]'::jsonb);
+  END IF;
+
+  RETURN violations;
+END;
+$$;
+
+-- Block saving assignments that break hard labor rules
+CREATE OR REPLACE FUNCTION public.enforce_labor_rules()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  hard_violations jsonb;
+BEGIN
+  IF NEW.status = 'cancelled' OR current_setting('planivo.labor_rules_checked', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(v), '[]'::jsonb)
+  INTO hard_violations
+  FROM jsonb_array_elements(check_labor_rules(
+    NEW.staff_id,
+    jsonb_build_array(jsonb_build_object('shift_id', NEW.shift_id, 'assignment_date', NEW.assignment_date)),
+    CASE WHEN TG_OP = 'UPDATE' THEN ARRAY[OLD.id] ELSE '{}'::uuid[] END
+  )) v
+  WHERE v->>'level' = 'hard';
+
+  IF jsonb_array_length(hard_violations) > 0 THEN
+    RAISE EXCEPTION 'LABOR_RULE_VIOLATIONS' USING DETAIL = hard_violations::text;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_labor_rules_on_shift_assignments
+  BEFORE INSERT OR UPDATE OF staff_id, shift_id, assignment_date ON public.shift_assignments
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_labor_rules();
+
+-- Approving a swap moves two assignments at once; check both people with the exchanged shifts
+-- excluded up front, because the row trigger would see the half-done swap
+CREATE OR REPLACE FUNCTION public.review_shift_swap(_request_id uuid, _approve boolean, _comment text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_record RECORD;
+  issues jsonb;
+  hard_violations jsonb;
+BEGIN
+  SELECT * INTO request_record FROM public.shift_swap_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR request_record.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'This shift trade is not awaiting approval';
+  END IF;
+
+  IF NOT has_role(auth.uid(), 'super_admin'::app_role) AND NOT EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = auth.uid()
+      AND ur.role = 'department_head'
+      AND ur.department_id = request_record.department_id
+  ) THEN
+    RAISE EXCEPTION 'Only the department head can review shift trades';
+  END IF;
+
+  IF NOT _approve THEN
+    UPDATE public.shift_swap_requests
+    SET status = 'rejected', reviewed_by = auth.uid(), reviewed_at = now(), review_comment = _comment
+    WHERE id = _request_id;
+    RETURN;
+  END IF;
+
+  issues := check_shift_swap_eligibility(request_record.assignment_id, request_record.taker_id, request_record.target_assignment_id);
+  IF request_record.request_type = 'swap' THEN
+    issues := issues || check_shift_swap_eligibility(
+      request_record.target_assignment_id, request_record.requester_id, request_record.assignment_id
+    );
+  END IF;
+
+  IF jsonb_array_length(issues) > 0 THEN
+    RAISE EXCEPTION 'SHIFT_SWAP_INELIGIBLE' USING DETAIL = issues::text;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(v), '[]'::jsonb)
+  INTO hard_violations
+  FROM (
+    SELECT jsonb_array_elements(check_labor_rules(
+      request_record.taker_id,
+      (SELECT jsonb_agg(jsonb_build_object('shift_id', sa.shift_id, 'assignment_date', sa.assignment_date))
+        FROM public.shift_assignments sa WHERE sa.id = request_record.assignment_id),
+      array_remove(ARRAY[request_record.assignment_id, request_record.target_assignment_id], NULL)
+    )) AS v
+    UNION ALL
+    SELECT jsonb_array_elements(check_labor_rules(
+      request_record.requester_id,
+      (SELECT jsonb_agg(jsonb_build_object('shift_id', sa.shift_id, 'assignment_date', sa.assignment_date))
+        FROM public.shift_assignments sa WHERE sa.id = request_record.target_assignment_id),
+      ARRAY[request_record.assignment_id, request_record.target_assignment_id]
+    ))
+    WHERE request_record.request_type = 'swap'
+  ) checked
+  WHERE v->>'level' = 'hard';
+
+  IF jsonb_array_length(hard_violations) > 0 THEN
+    RAISE EXCEPTION 'LABOR_RULE_VIOLATIONS' USING DETAIL = hard_violations::text;
+  END IF;
+
+  PERFORM set_config('planivo.labor_rules_checked', 'on', true);
+
+  UPDATE public.shift_assignments
+  SET staff_id = request_record.taker_id, assigned_by = auth.uid()
+  WHERE id = request_record.assignment_id;
+
+  IF request_record.request_type = 'swap' THEN
+    UPDATE public.shift_assignments
+    SET staff_id = request_record.requester_id, assigned_by = auth.uid()
+    WHERE id = request_record.target_assignment_id;
+  END IF;
+
+  PERFORM set_config('planivo.labor_rules_checked', 'off', true);
+
+  UPDATE public.shift_swap_requests
+  SET status = 'approved', reviewed_by = auth.uid(), reviewed_at = now(), review_comment = _comment
+  WHERE id = _request_id;
+END;
+$$;
@@ -0,0 +1,148 @@
+-- Overnight shifts: a shift whose end_time is at or before its start_time ends on the day
+-- after its assignment_date. Shift and vacation checks compare real timestamps so the part
+-- of a night shift after midnight counts against the next day.
+
+-- Real start and end of a shift on its assignment date
+CREATE OR REPLACE FUNCTION public.shift_period(_assignment_date date, _start_time time, _end_time time)
+RETURNS tsrange
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT tsrange(
+    _assignment_date + _start_time,
+    _assignment_date + _end_time
+      + CASE WHEN _end_time <= _start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END
+  );
+$$;
+
+-- Time a vacation split is away for, from the first day's start hour to the last day's end hour
+CREATE OR REPLACE FUNCTION public.vacation_split_period(
+  _start_date date,
+  _end_date date,
+  _day_portion text,
+  _start_time time,
+  _end_time time
+)
+RETURNS tsrange
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT tsrange(
+    _start_date + make_interval(secs => lower(hours) * 3600),
+    _end_date + make_interval(secs => upper(hours) * 3600)
+  )
+  FROM vacation_split_hours(_day_portion, _start_time, _end_time) AS hours;
+$$;
+
+-- Reasons a staff member cannot take over an assignment: not in the schedule's department
+-- or specialty, on approved vacation at any time during the shift (also after midnight), or
+-- less than _min_rest_hours between the shift and their other shifts. _released_assignment_id
+-- is the shift they give up in a swap.
+-- Returns [{ "code": "department" | "vacation" | "rest" | "double_booked", "message": text }]
+CREATE OR REPLACE FUNCTION public.check_shift_swap_eligibility(
+  _assignment_id uuid,
+  _taker_id uuid,
+  _released_assignment_id uuid DEFAULT NULL,
+  _min_rest_hours integer DEFAULT 11
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  shift_record RECORD;
+  shift_start TIMESTAMP;
+  shift_end TIMESTAMP;
+  closest RECORD;
+  issues jsonb := '[]'::jsonb;
+BEGIN
+  SELECT sa.id, sa.assignment_date, sh.id AS shift_id, sh.name, sh.start_time, sh.end_time, sc.department_id
+  INTO shift_record
+  FROM public.shift_assignments sa
+  JOIN public.shifts sh ON sh.id = sa.shift_id
+  JOIN public.schedules sc ON sc.id = sh.schedule_id
+  WHERE sa.id = _assignment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift assignment not found';
+  END IF;
+
+  shift_start := lower(shift_period(shift_record.assignment_date, shift_record.start_time, shift_record.end_time));
+  shift_end := upper(shift_period(shift_record.assignment_date, shift_record.start_time, shift_record.end_time));
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = _taker_id
+      AND ur.role IN ('staff', 'department_head')
+      AND (ur.department_id = shift_record.department_id OR ur.specialty_id = shift_record.department_id)
+  ) THEN
+    issues := issues || jsonb_build_object(
+      'code', 'department',
+      'message', 'Not a member of the department or specialty of this shift'
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.vacation_plans vp
+    JOIN public.vacation_splits vs ON vs.vacation_plan_id = vp.id
+    WHERE vp.staff_id = _taker_id
+      AND vp.status = 'approved'
+      AND vp.amends_plan_id IS NULL
+      AND COALESCE(vs.status, 'pending') NOT IN ('rejected', 'cancelled')
+      AND vs.change_type IS DISTINCT FROM 'cancel'
+      AND vacation_split_period(vs.start_date, vs.end_date, vs.day_portion, vs.start_time, vs.end_time)
+        && tsrange(shift_start, shift_end)
+  ) THEN
+    issues := issues || jsonb_build_object(
+      'code', 'vacation',
+      'message', format('On approved vacation during the shift on %s', shift_record.assignment_date)
+    );
+  END IF;
+
+  SELECT other.assignment_date, other.name,
+    LEAST(
+      ABS(EXTRACT(EPOCH FROM (shift_start - other.other_end))),
+      ABS(EXTRACT(EPOCH FROM (other.other_start - shift_end)))
+    ) / 3600 AS gap_hours,
+    other.other_start < shift_end AND other.other_end > shift_start AS overlaps
+  INTO closest
+  FROM (
+    SELECT sa.assignment_date, sh.name,
+      lower(shift_period(sa.assignment_date, sh.start_time, sh.end_time)) AS other_start,
+      upper(shift_period(sa.assignment_date, sh.start_time, sh.end_time)) AS other_end
+    FROM public.shift_assignments sa
+    JOIN public.shifts sh ON sh.id = sa.shift_id
+    WHERE sa.staff_id = _taker_id
+      AND sa.status <> 'cancelled'
+      AND sa.id <> _assignment_id
+      AND (_released_assignment_id IS NULL OR sa.id <> _released_assignment_id)
+      AND sa.assignment_date BETWEEN shift_record.assignment_date - 2 AND shift_record.assignment_date + 2
+  ) other
+  WHERE other.other_start < shift_end + make_interval(hours => _min_rest_hours)
+    AND other.other_end > shift_start - make_interval(hours => _min_rest_hours)
+  ORDER BY other.other_start
+  LIMIT 1;
+
+  IF FOUND THEN
+    IF closest.overlaps THEN
+      issues := issues || jsonb_build_object(
+        'code', 'double_booked',
+        'message', format('Already works %s on %s at the same time', closest.name, closest.assignment_date)
+      );
+    ELSE
+      issues := issues || jsonb_build_object(
+        'code', 'rest',
+        'message', format('Only %s hours rest next to %s on %s, at least %s required',
+          round(closest.gap_hours, 1), closest.name, closest.assignment_date, _min_rest_hours)
+      );
+    END IF;
+  END IF;
+
+  RETURN issues;
+END;
+$$;
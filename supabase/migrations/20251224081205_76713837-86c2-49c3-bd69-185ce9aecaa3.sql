@@ -0,0 +1,92 @@
+-- Saved shift definitions per facility, copied into new schedules
+CREATE TABLE public.shift_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  facility_id UUID NOT NULL REFERENCES public.facilities(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  required_staff INTEGER NOT NULL DEFAULT 1 CHECK (required_staff >= 1),
+  color TEXT NOT NULL DEFAULT '#3b82f6',
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT shift_templates_facility_name_key UNIQUE (facility_id, name)
+);
+
+-- Rotation patterns per facility. cycle lists one entry per day: the shift_order of the
+-- schedule's shift to work (1-3) or 0 for a day off, e.g. {1,1,1,1,0,0,0,0} for 4-on/4-off.
+CREATE TABLE public.rotation_patterns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  facility_id UUID NOT NULL REFERENCES public.facilities(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  cycle INTEGER[] NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT rotation_patterns_facility_name_key UNIQUE (facility_id, name),
+  CONSTRAINT rotation_patterns_cycle_check CHECK (
+    cardinality(cycle) BETWEEN 1 AND 56
+    AND cycle <@ ARRAY[0, 1, 2, 3]
+    AND cycle && ARRAY[1, 2, 3]
+  )
+);
+
+-- Facility supervisors and department heads of the facility's departments
+CREATE OR REPLACE FUNCTION public.can_manage_facility_scheduling(_user_id uuid, _facility_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    LEFT JOIN public.departments d ON d.id = ur.department_id
+    WHERE ur.user_id = _user_id
+      AND (
+        (ur.role = 'facility_supervisor' AND ur.facility_id = _facility_id)
+        OR (ur.role = 'department_head' AND d.facility_id = _facility_id)
+      )
+  );
+$$;
+
+ALTER TABLE public.shift_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rotation_patterns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can manage shift templates"
+  ON public.shift_templates FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Facility schedulers can manage shift templates"
+  ON public.shift_templates FOR ALL
+  USING (can_manage_facility_scheduling(auth.uid(), facility_id))
+  WITH CHECK (can_manage_facility_scheduling(auth.uid(), facility_id));
+
+CREATE POLICY "Authenticated users can view shift templates"
+  ON public.shift_templates FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Super admins can manage rotation patterns"
+  ON public.rotation_patterns FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Facility schedulers can manage rotation patterns"
+  ON public.rotation_patterns FOR ALL
+  USING (can_manage_facility_scheduling(auth.uid(), facility_id))
+  WITH CHECK (can_manage_facility_scheduling(auth.uid(), facility_id));
+
+CREATE POLICY "Authenticated users can view rotation patterns"
+  ON public.rotation_patterns FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_shift_templates_updated_at
+  BEFORE UPDATE ON public.shift_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_rotation_patterns_updated_at
+  BEFORE UPDATE ON public.rotation_patterns
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
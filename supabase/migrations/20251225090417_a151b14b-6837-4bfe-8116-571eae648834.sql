@@ -0,0 +1,171 @@
+-- Copy a schedule and its shifts to a new period as a draft. With _copy_assignments, every day of the
+-- new period takes the assignments of the source day on the same weekday, whole weeks apart.
+-- Assignments are not carried over when the staff member left the department, is on approved vacation
+-- during the shift, or the assignment breaks hard labor rules.
+-- Returns { "schedule_id", "shifts", "copied", "skipped": [{ "staff_id", "staff_name", "date",
+--   "source_date", "shift_name", "reason": "vacation" | "not_in_department" | "labor_rules" | "error", "message" }] }
+CREATE OR REPLACE FUNCTION public.duplicate_schedule(
+  _schedule_id uuid,
+  _start_date date,
+  _end_date date,
+  _name text DEFAULT NULL,
+  _copy_assignments boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  source RECORD;
+  new_schedule_id uuid;
+  shift_record RECORD;
+  shift_map jsonb := '{}'::jsonb;
+  new_shift_id uuid;
+  day date;
+  source_day date;
+  day_offset integer;
+  assignment RECORD;
+  copied integer := 0;
+  skipped jsonb := '[]'::jsonb;
+  skip jsonb;
+  error_detail text;
+BEGIN
+  SELECT * INTO source FROM public.schedules WHERE id = _schedule_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Schedule not found';
+  END IF;
+
+  IF NOT (
+    has_role(auth.uid(), 'super_admin'::app_role)
+    OR EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      WHERE ur.user_id = auth.uid()
+        AND (
+          (ur.role = 'facility_supervisor' AND ur.facility_id = COALESCE(
+            source.facility_id,
+            (SELECT d.facility_id FROM public.departments d WHERE d.id = source.department_id)
+          ))
+          OR (ur.role = 'department_head' AND ur.department_id = source.department_id)
+        )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to duplicate this schedule';
+  END IF;
+
+  IF _end_date < _start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  INSERT INTO public.schedules (
+    name, department_id, facility_id, workspace_id, start_date, end_date, shift_count, status, created_by
+  )
+  VALUES (
+    COALESCE(NULLIF(trim(_name), ''), source.name), source.department_id, source.facility_id, source.workspace_id,
+    _start_date, _end_date, source.shift_count, 'draft', auth.uid()
+  )
+  RETURNING id INTO new_schedule_id;
+
+  FOR shift_record IN
+    SELECT * FROM public.shifts WHERE schedule_id = _schedule_id ORDER BY shift_order
+  LOOP
+    INSERT INTO public.shifts (schedule_id, name, start_time, end_time, shift_order, required_staff, color)
+    VALUES (new_schedule_id, shift_record.name, shift_record.start_time, shift_record.end_time,
+      shift_record.shift_order, shift_record.required_staff, shift_record.color)
+    RETURNING id INTO new_shift_id;
+
+    shift_map := shift_map || jsonb_build_object(shift_record.id::text, new_shift_id);
+  END LOOP;
+
+  IF _copy_assignments THEN
+    -- Whole weeks between the periods keep weekdays aligned
+    day_offset := ROUND((_start_date - source.start_date) / 7.0)::integer * 7;
+
+    FOR day IN SELECT d::date FROM generate_series(_start_date, _end_date, INTERVAL '1 day') d LOOP
+      source_day := day - day_offset;
+      -- Days past either end of the source period use the nearest week inside it
+      WHILE source_day > source.end_date LOOP
+        source_day := source_day - 7;
+      END LOOP;
+      WHILE source_day < source.start_date LOOP
+        source_day := source_day + 7;
+      END LOOP;
+      CONTINUE WHEN source_day > source.end_date;
+
+      FOR assignment IN
+        SELECT sa.staff_id, sa.shift_id, sh.name AS shift_name, sh.start_time, sh.end_time, p.full_name
+        FROM public.shift_assignments sa
+        JOIN public.shifts sh ON sh.id = sa.shift_id
+        LEFT JOIN public.profiles p ON p.id = sa.staff_id
+        WHERE sh.schedule_id = _schedule_id
+          AND sa.assignment_date = source_day
+          AND sa.status <> 'cancelled'
+        ORDER BY sh.shift_order, p.full_name
+      LOOP
+        skip := jsonb_build_object(
+          'staff_id', assignment.staff_id,
+          'staff_name', assignment.full_name,
+          'date', day,
+          'source_date', source_day,
+          'shift_name', assignment.shift_name
+        );
+
+        IF NOT EXISTS (
+          SELECT 1 FROM public.user_roles ur
+          WHERE ur.user_id = assignment.staff_id
+            AND ur.role IN ('staff', 'department_head')
+            AND (ur.department_id = source.department_id OR ur.specialty_id = source.department_id)
+        ) THEN
+          skipped := skipped || (skip || jsonb_build_object(
+            'reason', 'not_in_department',
+            'message', 'No longer a member of the department'
+          ));
+          CONTINUE;
+        END IF;
+
+        IF EXISTS (
+          SELECT 1
+          FROM public.vacation_plans vp
+          JOIN public.vacation_splits vs ON vs.vacation_plan_id = vp.id
+          WHERE vp.staff_id = assignment.staff_id
+            AND vp.status = 'approved'
+            AND vp.amends_plan_id IS NULL
+            AND COALESCE(vs.status, 'pending') NOT IN ('rejected', 'cancelled')
+            AND vs.change_type IS DISTINCT FROM 'cancel'
+            AND vacation_split_period(vs.start_date, vs.end_date, vs.day_portion, vs.start_time, vs.end_time)
+              && shift_period(day, assignment.start_time, assignment.end_time)
+        ) THEN
+          skipped := skipped || (skip || jsonb_build_object(
+            'reason', 'vacation',
+            'message', 'On approved vacation'
+          ));
+          CONTINUE;
+        END IF;
+
+        BEGIN
+          INSERT INTO public.shift_assignments (shift_id, staff_id, assignment_date, assigned_by)
+          VALUES ((shift_map->>assignment.shift_id::text)::uuid, assignment.staff_id, day, auth.uid());
+          copied := copied + 1;
+        EXCEPTION WHEN OTHERS THEN
+          GET STACKED DIAGNOSTICS error_detail = PG_EXCEPTION_DETAIL;
+          IF SQLERRM = 'LABOR_RULE_VIOLATIONS' THEN
+            skipped := skipped || (skip || jsonb_build_object(
+              'reason', 'labor_rules',
+              'message', (SELECT string_agg(v->>'message', '. ') FROM jsonb_array_elements(error_detail::jsonb) v)
+            ));
+          ELSE
+            skipped := skipped || (skip || jsonb_build_object('reason', 'error', 'message', SQLERRM));
+          END IF;
+        END;
+      END LOOP;
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'schedule_id', new_schedule_id,
+    'shifts', (SELECT count(*) FROM public.shifts WHERE schedule_id = new_schedule_id),
+    'copied', copied,
+    'skipped', skipped
+  );
+END;
+$$;
@@ -0,0 +1,320 @@
+-- Published states of a schedule. snapshot holds every row of the schedule's shifts and
+-- shift assignments at publish time: { "shifts": [...], "assignments": [...] }
+CREATE TABLE public.schedule_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  schedule_id UUID NOT NULL REFERENCES public.schedules(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  note TEXT,
+  -- Revision restored when this revision is a rollback
+  rolled_back_to INTEGER,
+  published_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT schedule_revisions_schedule_number_key UNIQUE (schedule_id, revision_number)
+);
+
+-- Edits to shifts and assignments of published schedules. revision_id is the revision that
+-- published the change, NULL while it is not published yet.
+CREATE TABLE public.schedule_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  schedule_id UUID NOT NULL REFERENCES public.schedules(id) ON DELETE CASCADE,
+  revision_id UUID REFERENCES public.schedule_revisions(id) ON DELETE SET NULL,
+  entity TEXT NOT NULL CHECK (entity IN ('shift', 'assignment')),
+  action TEXT NOT NULL CHECK (action IN ('added', 'updated', 'removed')),
+  entity_id UUID NOT NULL,
+  staff_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  old_data JSONB,
+  new_data JSONB,
+  changed_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_schedule_changes_schedule ON public.schedule_changes(schedule_id, revision_id);
+
+-- Super admins, facility supervisors of the schedule's facility and its department head
+CREATE OR REPLACE FUNCTION public.can_manage_schedule(_user_id uuid, _schedule_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, 'super_admin'::app_role)
+    OR EXISTS (
+      SELECT 1
+      FROM public.schedules s
+      JOIN public.departments d ON d.id = s.department_id
+      JOIN public.user_roles ur ON ur.user_id = _user_id
+      WHERE s.id = _schedule_id
+        AND (
+          (ur.role = 'facility_supervisor' AND ur.facility_id = COALESCE(s.facility_id, d.facility_id))
+          OR (ur.role = 'department_head' AND ur.department_id = s.department_id)
+        )
+    );
+$$;
+
+ALTER TABLE public.schedule_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.schedule_changes ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by publish_schedule and the change triggers only
+CREATE POLICY "Super admins can manage schedule revisions"
+  ON public.schedule_revisions FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Schedule managers can view schedule revisions"
+  ON public.schedule_revisions FOR SELECT
+  USING (can_manage_schedule(auth.uid(), schedule_id));
+
+CREATE POLICY "Super admins can manage schedule changes"
+  ON public.schedule_changes FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Schedule managers can view schedule changes"
+  ON public.schedule_changes FOR SELECT
+  USING (can_manage_schedule(auth.uid(), schedule_id));
+
+-- Current shifts and assignments of a schedule, as stored in schedule_revisions.snapshot
+CREATE OR REPLACE FUNCTION public.get_schedule_snapshot(_schedule_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'shifts', COALESCE((
+      SELECT jsonb_agg(to_jsonb(sh) ORDER BY sh.shift_order)
+      FROM public.shifts sh
+      WHERE sh.schedule_id = _schedule_id
+    ), '[]'::jsonb),
+    'assignments', COALESCE((
+      SELECT jsonb_agg(to_jsonb(sa) ORDER BY sa.assignment_date, sa.created_at)
+      FROM public.shift_assignments sa
+      JOIN public.shifts sh ON sh.id = sa.shift_id
+      WHERE sh.schedule_id = _schedule_id
+    ), '[]'::jsonb)
+  );
+$$;
+
+-- Log edits to shifts of published schedules
+CREATE OR REPLACE FUNCTION public.track_shift_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_schedule_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.schedule_id ELSE NEW.schedule_id END;
+BEGIN
+  -- Drafts change freely; deleting a schedule removes its rows after the schedule is gone
+  IF NOT EXISTS (SELECT 1 FROM public.schedules WHERE id = target_schedule_id AND status = 'published') THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (to_jsonb(OLD) - 'created_at') = (to_jsonb(NEW) - 'created_at') THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.schedule_changes (schedule_id, entity, action, entity_id, old_data, new_data, changed_by)
+  VALUES (
+    target_schedule_id,
+    'shift',
+    CASE TG_OP WHEN 'INSERT' THEN 'added' WHEN 'UPDATE' THEN 'updated' ELSE 'removed' END,
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END,
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Log edits to assignments of published schedules. Status updates other than cancelling or
+-- restoring an assignment (confirmations, completion) are not schedule edits.
+CREATE OR REPLACE FUNCTION public.track_shift_assignment_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_schedule_id uuid;
+  shift_name text;
+  old_shift_name text;
+BEGIN
+  SELECT sh.schedule_id, sh.name INTO target_schedule_id, shift_name
+  FROM public.shifts sh
+  JOIN public.schedules s ON s.id = sh.schedule_id
+  WHERE sh.id = CASE WHEN TG_OP = 'DELETE' THEN OLD.shift_id ELSE NEW.shift_id END
+    AND s.status = 'published';
+  IF target_schedule_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.shift_id = NEW.shift_id
+    AND OLD.staff_id = NEW.staff_id
+    AND OLD.assignment_date = NEW.assignment_date
+    AND (OLD.status = 'cancelled') = (NEW.status = 'cancelled')
+  THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT name INTO old_shift_name FROM public.shifts WHERE id = OLD.shift_id;
+  ELSE
+    old_shift_name := shift_name;
+  END IF;
+
+  INSERT INTO public.schedule_changes (schedule_id, entity, action, entity_id, staff_id, old_data, new_data, changed_by)
+  VALUES (
+    target_schedule_id,
+    'assignment',
+    CASE TG_OP WHEN 'INSERT' THEN 'added' WHEN 'UPDATE' THEN 'updated' ELSE 'removed' END,
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END,
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.staff_id ELSE NEW.staff_id END,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) || jsonb_build_object('shift_name', old_shift_name) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) || jsonb_build_object('shift_name', shift_name) END,
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER track_shift_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.shifts
+  FOR EACH ROW EXECUTE FUNCTION public.track_shift_changes();
+
+CREATE TRIGGER track_shift_assignment_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.shift_assignments
+  FOR EACH ROW EXECUTE FUNCTION public.track_shift_assignment_changes();
+
+-- Publish a schedule, or its changes since the last revision, as a new revision.
+-- Returns { "revision_id", "revision_number", "previous": snapshot or null, "current": snapshot }
+-- so the caller can tell affected staff what changed.
+CREATE OR REPLACE FUNCTION public.publish_schedule(_schedule_id uuid, _note text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous_revision RECORD;
+  new_revision_id uuid;
+  new_revision_number integer;
+  current_snapshot jsonb;
+BEGIN
+  IF NOT can_manage_schedule(auth.uid(), _schedule_id) THEN
+    RAISE EXCEPTION 'Not allowed to publish this schedule';
+  END IF;
+
+  -- One publish at a time per schedule
+  PERFORM 1 FROM public.schedules WHERE id = _schedule_id FOR UPDATE;
+
+  UPDATE public.schedules
+  SET status = 'published'
+  WHERE id = _schedule_id AND status <> 'published';
+
+  SELECT * INTO previous_revision
+  FROM public.schedule_revisions
+  WHERE schedule_id = _schedule_id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  new_revision_number := COALESCE(previous_revision.revision_number, 0) + 1;
+  current_snapshot := get_schedule_snapshot(_schedule_id);
+
+  INSERT INTO public.schedule_revisions (schedule_id, revision_number, snapshot, note, published_by)
+  VALUES (_schedule_id, new_revision_number, current_snapshot, NULLIF(trim(_note), ''), auth.uid())
+  RETURNING id INTO new_revision_id;
+
+  UPDATE public.schedule_changes
+  SET revision_id = new_revision_id
+  WHERE schedule_id = _schedule_id AND revision_id IS NULL;
+
+  RETURN jsonb_build_object(
+    'revision_id', new_revision_id,
+    'revision_number', new_revision_number,
+    'previous', previous_revision.snapshot,
+    'current', current_snapshot
+  );
+END;
+$$;
+
+-- Restore the shifts and assignments of an earlier revision and publish them as a new revision.
+-- The restored state was published before, so labor rules are not enforced again.
+CREATE OR REPLACE FUNCTION public.rollback_schedule(_schedule_id uuid, _revision_number integer, _note text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target jsonb;
+  result jsonb;
+BEGIN
+  IF NOT can_manage_schedule(auth.uid(), _schedule_id) THEN
+    RAISE EXCEPTION 'Not allowed to roll back this schedule';
+  END IF;
+
+  SELECT snapshot INTO target
+  FROM public.schedule_revisions
+  WHERE schedule_id = _schedule_id AND revision_number = _revision_number;
+  IF target IS NULL THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM set_config('planivo.labor_rules_checked', 'on', true);
+
+  -- Shifts added since the revision go, with their assignments
+  DELETE FROM public.shifts
+  WHERE schedule_id = _schedule_id
+    AND id NOT IN (SELECT (s->>'id')::uuid FROM jsonb_array_elements(target->'shifts') s);
+
+  INSERT INTO public.shifts
+  SELECT * FROM jsonb_populate_recordset(NULL::public.shifts, target->'shifts')
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    start_time = EXCLUDED.start_time,
+    end_time = EXCLUDED.end_time,
+    shift_order = EXCLUDED.shift_order,
+    required_staff = EXCLUDED.required_staff,
+    color = EXCLUDED.color;
+
+  DELETE FROM public.shift_assignments sa
+  USING public.shifts sh
+  WHERE sh.id = sa.shift_id
+    AND sh.schedule_id = _schedule_id
+    AND sa.id NOT IN (SELECT (a->>'id')::uuid FROM jsonb_array_elements(target->'assignments') a);
+
+  INSERT INTO public.shift_assignments
+  SELECT * FROM jsonb_populate_recordset(NULL::public.shift_assignments, target->'assignments')
+  ON CONFLICT (id) DO UPDATE SET
+    shift_id = EXCLUDED.shift_id,
+    staff_id = EXCLUDED.staff_id,
+    assignment_date = EXCLUDED.assignment_date,
+    status = EXCLUDED.status,
+    notes = EXCLUDED.notes;
+
+  PERFORM set_config('planivo.labor_rules_checked', 'off', true);
+
+  result := publish_schedule(_schedule_id, COALESCE(NULLIF(trim(_note), ''), 'Rolled back to revision ' || _revision_number));
+
+  UPDATE public.schedule_revisions
+  SET rolled_back_to = _revision_number
+  WHERE id = (result->>'revision_id')::uuid;
+
+  RETURN result;
+END;
+$$;
+
+-- Schedules published before revisions existed start at revision 1
+INSERT INTO public.schedule_revisions (schedule_id, revision_number, snapshot, published_by, created_at)
+SELECT s.id, 1, get_schedule_snapshot(s.id), p.id, s.updated_at
+FROM public.schedules s
+LEFT JOIN public.profiles p ON p.id = s.created_by
+WHERE s.status = 'published';
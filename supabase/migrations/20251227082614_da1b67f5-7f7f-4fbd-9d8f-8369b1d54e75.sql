@@ -0,0 +1,259 @@
+-- Timesheets: staff clock in and out against their assigned shifts, department heads approve
+-- the worked hours. One entry per assignment.
+-- open: clocked in, pending: clocked out and awaiting approval, approved / rejected: reviewed
+
+CREATE TABLE public.time_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  assignment_id UUID NOT NULL UNIQUE REFERENCES public.shift_assignments(id) ON DELETE CASCADE,
+  staff_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  department_id UUID NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  clock_in_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  clock_out_at TIMESTAMP WITH TIME ZONE,
+  -- Times as clocked, kept when the reviewer corrects them
+  original_clock_in_at TIMESTAMP WITH TIME ZONE,
+  original_clock_out_at TIMESTAMP WITH TIME ZONE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES public.profiles(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT time_entries_clock_out_check CHECK (clock_out_at IS NULL OR clock_out_at > clock_in_at)
+);
+
+CREATE INDEX idx_time_entries_department_status ON public.time_entries(department_id, status);
+CREATE INDEX idx_time_entries_staff ON public.time_entries(staff_id, clock_in_at);
+
+ALTER TABLE public.time_entries ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the clock and review functions only
+CREATE POLICY "Super admins can manage time entries"
+  ON public.time_entries FOR ALL
+  USING (has_role(auth.uid(), 'super_admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Staff can view their time entries"
+  ON public.time_entries FOR SELECT
+  USING (staff_id = auth.uid());
+
+CREATE POLICY "Department heads can view time entries"
+  ON public.time_entries FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      WHERE ur.user_id = auth.uid()
+        AND ur.role = 'department_head'
+        AND ur.department_id = time_entries.department_id
+    )
+  );
+
+CREATE TRIGGER update_time_entries_updated_at
+  BEFORE UPDATE ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Clock in to one of the caller's published, non-cancelled assignments at the server's time
+CREATE OR REPLACE FUNCTION public.clock_in(_assignment_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment_record RECORD;
+  entry_id uuid;
+BEGIN
+  SELECT sa.staff_id, sa.status, sa.assignment_date, sc.department_id, sc.status AS schedule_status
+  INTO assignment_record
+  FROM public.shift_assignments sa
+  JOIN public.shifts sh ON sh.id = sa.shift_id
+  JOIN public.schedules sc ON sc.id = sh.schedule_id
+  WHERE sa.id = _assignment_id;
+
+  IF NOT FOUND OR assignment_record.staff_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only clock in to your own shifts';
+  END IF;
+
+  IF assignment_record.schedule_status <> 'published' OR assignment_record.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This shift is not on a published schedule';
+  END IF;
+
+  -- Shift times carry no time zone, so the app checks the exact window; this only keeps
+  -- clock-ins to shifts around today
+  IF assignment_record.assignment_date NOT BETWEEN current_date - 1 AND current_date + 1 THEN
+    RAISE EXCEPTION 'You can only clock in on the day of the shift';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.time_entries WHERE assignment_id = _assignment_id) THEN
+    RAISE EXCEPTION 'You already clocked in to this shift';
+  END IF;
+
+  INSERT INTO public.time_entries (assignment_id, staff_id, department_id, clock_in_at)
+  VALUES (_assignment_id, auth.uid(), assignment_record.department_id, now())
+  RETURNING id INTO entry_id;
+
+  RETURN entry_id;
+END;
+$$;
+
+-- Clock out of an open entry; the hours then await approval and the assignment is completed
+CREATE OR REPLACE FUNCTION public.clock_out(_entry_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry_record RECORD;
+BEGIN
+  SELECT * INTO entry_record FROM public.time_entries WHERE id = _entry_id FOR UPDATE;
+
+  IF NOT FOUND OR entry_record.staff_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only clock out of your own shifts';
+  END IF;
+
+  IF entry_record.status <> 'open' THEN
+    RAISE EXCEPTION 'You already clocked out of this shift';
+  END IF;
+
+  UPDATE public.time_entries
+  SET clock_out_at = now(), status = 'pending'
+  WHERE id = _entry_id;
+
+  UPDATE public.shift_assignments
+  SET status = 'completed'
+  WHERE id = entry_record.assignment_id AND status <> 'cancelled';
+END;
+$$;
+
+-- Approve or reject clocked hours. Reviewers may correct the times on approval, e.g. when
+-- staff forgot to clock out; the clocked times are kept in original_clock_in_at/_out_at.
+CREATE OR REPLACE FUNCTION public.review_time_entry(
+  _entry_id uuid,
+  _approve boolean,
+  _clock_in_at timestamptz DEFAULT NULL,
+  _clock_out_at timestamptz DEFAULT NULL,
+  _comment text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry_record RECORD;
+  new_clock_in timestamptz;
+  new_clock_out timestamptz;
+BEGIN
+  SELECT * INTO entry_record FROM public.time_entries WHERE id = _entry_id FOR UPDATE;
+
+  IF NOT FOUND OR entry_record.status NOT IN ('open', 'pending') THEN
+    RAISE EXCEPTION 'This time entry is not awaiting approval';
+  END IF;
+
+  IF NOT has_role(auth.uid(), 'super_admin'::app_role) AND NOT EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = auth.uid()
+      AND ur.role = 'department_head'
+      AND ur.department_id = entry_record.department_id
+  ) THEN
+    RAISE EXCEPTION 'Only the department head can review timesheets';
+  END IF;
+
+  IF NOT _approve THEN
+    UPDATE public.time_entries
+    SET status = 'rejected', reviewed_by = auth.uid(), reviewed_at = now(), review_comment = _comment
+    WHERE id = _entry_id;
+    RETURN;
+  END IF;
+
+  new_clock_in := COALESCE(_clock_in_at, entry_record.clock_in_at);
+  new_clock_out := COALESCE(_clock_out_at, entry_record.clock_out_at);
+
+  IF new_clock_out IS NULL THEN
+    RAISE EXCEPTION 'Enter the clock-out time before approving';
+  END IF;
+
+  IF new_clock_out <= new_clock_in THEN
+    RAISE EXCEPTION 'Clock-out must be after clock-in';
+  END IF;
+
+  UPDATE public.time_entries
+  SET clock_in_at = new_clock_in,
+      clock_out_at = new_clock_out,
+      original_clock_in_at = CASE WHEN new_clock_in <> entry_record.clock_in_at
+        THEN COALESCE(entry_record.original_clock_in_at, entry_record.clock_in_at)
+        ELSE entry_record.original_clock_in_at END,
+      original_clock_out_at = CASE WHEN new_clock_out IS DISTINCT FROM entry_record.clock_out_at
+        THEN COALESCE(entry_record.original_clock_out_at, entry_record.clock_out_at)
+        ELSE entry_record.original_clock_out_at END,
+      status = 'approved',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_comment = _comment
+  WHERE id = _entry_id;
+
+  UPDATE public.shift_assignments
+  SET status = 'completed'
+  WHERE id = entry_record.assignment_id AND status <> 'cancelled';
+END;
+$$;
+
+-- Record approved hours for a shift the staff member worked without clocking in
+CREATE OR REPLACE FUNCTION public.record_time_entry(
+  _assignment_id uuid,
+  _clock_in_at timestamptz,
+  _clock_out_at timestamptz,
+  _comment text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment_record RECORD;
+  entry_id uuid;
+BEGIN
+  SELECT sa.staff_id, sa.status, sc.department_id
+  INTO assignment_record
+  FROM public.shift_assignments sa
+  JOIN public.shifts sh ON sh.id = sa.shift_id
+  JOIN public.schedules sc ON sc.id = sh.schedule_id
+  WHERE sa.id = _assignment_id;
+
+  IF NOT FOUND OR assignment_record.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Shift assignment not found';
+  END IF;
+
+  IF NOT has_role(auth.uid(), 'super_admin'::app_role) AND NOT EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = auth.uid()
+      AND ur.role = 'department_head'
+      AND ur.department_id = assignment_record.department_id
+  ) THEN
+    RAISE EXCEPTION 'Only the department head can review timesheets';
+  END IF;
+
+  IF _clock_out_at <= _clock_in_at THEN
+    RAISE EXCEPTION 'Clock-out must be after clock-in';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.time_entries WHERE assignment_id = _assignment_id) THEN
+    RAISE EXCEPTION 'Hours are already recorded for this shift';
+  END IF;
+
+  INSERT INTO public.time_entries (
+    assignment_id, staff_id, department_id, clock_in_at, clock_out_at,
+    status, reviewed_by, reviewed_at, review_comment
+  )
+  VALUES (
+    _assignment_id, assignment_record.staff_id, assignment_record.department_id, _clock_in_at, _clock_out_at,
+    'approved', auth.uid(), now(), _comment
+  )
+  RETURNING id INTO entry_id;
+
+  UPDATE public.shift_assignments SET status = 'completed' WHERE id = _assignment_id;
+
+  RETURN entry_id;
+END;
+$$;
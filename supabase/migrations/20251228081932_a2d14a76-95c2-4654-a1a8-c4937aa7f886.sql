@@ -0,0 +1,50 @@
+-- Only leave that still exists blocks a new request: cancelled and rejected plans or splits,
+-- cancellation splits and amendments already applied to their original plan are ignored
+CREATE OR REPLACE FUNCTION public.check_user_vacation_overlap(
+  _staff_id uuid,
+  _splits jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  overlap_data jsonb;
+BEGIN
+  -- Build array of overlapping vacation plans
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'plan_id', vp.id,
+      'vacation_type', vt.name,
+      'start_date', vs.start_date,
+      'end_date', vs.end_date,
+      'day_portion', vs.day_portion,
+      'days', vs.days,
+      'status', vp.status
+    )
+  ) INTO overlap_data
+  FROM vacation_plans vp
+  JOIN vacation_splits vs ON vs.vacation_plan_id = vp.id
+  JOIN vacation_types vt ON vt.id = vp.vacation_type_id
+  WHERE vp.staff_id = _staff_id
+    AND vp.status NOT IN ('rejected', 'draft', 'cancelled')
+    AND NOT (vp.amends_plan_id IS NOT NULL AND vp.status = 'approved')
+    AND COALESCE(vs.status, 'pending') NOT IN ('rejected', 'cancelled')
+    AND vs.change_type IS DISTINCT FROM 'cancel'
+    AND EXISTS (
+      -- Check each split in the input against existing splits
+      SELECT 1
+      FROM jsonb_array_elements(_splits) AS input_split
+      WHERE vs.start_date <= (input_split->>'end_date')::date
+        AND vs.end_date >= (input_split->>'start_date')::date
+        AND vacation_split_hours(vs.day_portion, vs.start_time, vs.end_time) && vacation_split_hours(
+          COALESCE(input_split->>'day_portion', 'full'),
+          (input_split->>'start_time')::time,
+          (input_split->>'end_time')::time
+        )
+    );
+
+  RETURN COALESCE(overlap_data, '[]'::jsonb);
+END;
+$$;
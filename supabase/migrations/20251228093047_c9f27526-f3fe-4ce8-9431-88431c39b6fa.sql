@@ -0,0 +1,296 @@
+-- One vacation rule validator for submission, approval and the rule simulator.
+-- check_vacation_rule_values takes the rule values as arguments; check_vacation_rules reads
+-- them from the workspace and replay_vacation_plan_rules passes the simulated ones.
+
+-- Check splits against the given rule values
+-- _splits: [{ "id"?: uuid, "start_date": date, "end_date": date }]
+-- _submitted_before: only plans submitted earlier count towards concurrent vacations (replays)
+CREATE OR REPLACE FUNCTION public.check_vacation_rule_values(
+  _department_id uuid,
+  _staff_id uuid,
+  _splits jsonb,
+  _reference_date date,
+  _exclude_plan_id uuid,
+  _max_vacation_splits integer,
+  _min_vacation_notice_days integer,
+  _max_concurrent_vacations integer,
+  _submitted_before timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  split_count INTEGER;
+  split_record RECORD;
+  notice_days INTEGER;
+  peak_date DATE;
+  peak_count INTEGER;
+  violations jsonb := '[]'::jsonb;
+BEGIN
+  split_count := jsonb_array_length(COALESCE(_splits, '[]'::jsonb));
+
+  IF split_count > _max_vacation_splits THEN
+    violations := violations || jsonb_build_object(
+      'rule', 'max_vacation_splits',
+      'split_index', NULL,
+      'split_id', NULL,
+      'limit', _max_vacation_splits,
+      'actual', split_count,
+      'message', format('Plan has %s vacation periods, the workspace allows at most %s', split_count, _max_vacation_splits)
+    );
+  END IF;
+
+  FOR split_record IN
+    SELECT
+      (s.ordinality - 1)::INTEGER AS split_index,
+      NULLIF(s.value->>'id', '')::uuid AS split_id,
+      (s.value->>'start_date')::date AS start_date,
+      (s.value->>'end_date')::date AS end_date
+    FROM jsonb_array_elements(COALESCE(_splits, '[]'::jsonb)) WITH ORDINALITY AS s(value, ordinality)
+  LOOP
+    -- Minimum notice
+    notice_days := split_record.start_date - _reference_date;
+    IF notice_days < _min_vacation_notice_days THEN
+      violations := violations || jsonb_build_object(
+        'rule', 'min_vacation_notice_days',
+        'split_index', split_record.split_index,
+        'split_id', split_record.split_id,
+        'start_date', split_record.start_date,
+        'end_date', split_record.end_date,
+        'limit', _min_vacation_notice_days,
+        'actual', notice_days,
+        'message', format('Starts %s days after the request, at least %s days notice is required', notice_days, _min_vacation_notice_days)
+      );
+    END IF;
+
+    -- Maximum concurrent vacations in the department (busiest day of the split)
+    SELECT day::date, COUNT(DISTINCT vp.staff_id)::INTEGER
+    INTO peak_date, peak_count
+    FROM generate_series(split_record.start_date, split_record.end_date, INTERVAL '1 day') AS day
+    JOIN public.vacation_splits vs
+      ON day::date BETWEEN vs.start_date AND vs.end_date
+      AND COALESCE(vs.status, 'pending') NOT IN ('rejected', 'cancelled')
+      AND vs.change_type IS DISTINCT FROM 'cancel'
+    JOIN public.vacation_plans vp ON vp.id = vs.vacation_plan_id
+    WHERE vp.department_id = _department_id
+      AND vp.staff_id <> _staff_id
+      AND vp.status NOT IN ('draft', 'rejected', 'cancelled')
+      AND NOT (vp.amends_plan_id IS NOT NULL AND vp.status = 'approved')
+      AND (_exclude_plan_id IS NULL OR vp.id <> _exclude_plan_id)
+      AND (_submitted_before IS NULL OR COALESCE(vp.submitted_at, vp.created_at) < _submitted_before)
+    GROUP BY day
+    ORDER BY COUNT(DISTINCT vp.staff_id) DESC, day
+    LIMIT 1;
+
+    IF peak_count IS NOT NULL AND peak_count + 1 > _max_concurrent_vacations THEN
+      violations := violations || jsonb_build_object(
+        'rule', 'max_concurrent_vacations',
+        'split_index', split_record.split_index,
+        'split_id', split_record.split_id,
+        'start_date', split_record.start_date,
+        'end_date', split_record.end_date,
+        'limit', _max_concurrent_vacations,
+        'actual', peak_count + 1,
+        'peak_date', peak_date,
+        'message', format('%s staff would be on vacation on %s, the department allows at most %s', peak_count + 1, peak_date, _max_concurrent_vacations)
+      );
+    END IF;
+
+    peak_count := NULL;
+  END LOOP;
+
+  RETURN violations;
+END;
+$$;
+
+-- Check splits against the workspace rules of a department
+CREATE OR REPLACE FUNCTION public.check_vacation_rules(
+  _department_id uuid,
+  _staff_id uuid,
+  _splits jsonb,
+  _reference_date date DEFAULT CURRENT_DATE,
+  _exclude_plan_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  max_splits INTEGER;
+  min_notice INTEGER;
+  max_concurrent INTEGER;
+BEGIN
+  SELECT w.max_vacation_splits, w.min_vacation_notice_days, w.max_concurrent_vacations
+  INTO max_splits, min_notice, max_concurrent
+  FROM public.departments d
+  JOIN public.facilities f ON f.id = d.facility_id
+  JOIN public.workspaces w ON w.id = f.workspace_id
+  WHERE d.id = _department_id;
+
+  -- Template departments have no facility; fall back to the staff member's workspace
+  IF NOT FOUND THEN
+    SELECT w.max_vacation_splits, w.min_vacation_notice_days, w.max_concurrent_vacations
+    INTO max_splits, min_notice, max_concurrent
+    FROM public.user_roles ur
+    JOIN public.workspaces w ON w.id = ur.workspace_id
+    WHERE ur.user_id = _staff_id
+    LIMIT 1;
+  END IF;
+
+  RETURN check_vacation_rule_values(
+    _department_id,
+    _staff_id,
+    _splits,
+    _reference_date,
+    _exclude_plan_id,
+    COALESCE(max_splits, 6),
+    COALESCE(min_notice, 14),
+    COALESCE(max_concurrent, 3)
+  );
+END;
+$$;
+
+-- Check a submitted plan against the given rule values as it stood when it was submitted.
+-- Only plans submitted earlier count towards concurrent vacations.
+CREATE OR REPLACE FUNCTION public.replay_vacation_plan_rules(
+  _vacation_plan_id uuid,
+  _max_vacation_splits integer,
+  _min_vacation_notice_days integer,
+  _max_concurrent_vacations integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_record RECORD;
+  requested_at TIMESTAMP WITH TIME ZONE;
+  plan_splits jsonb;
+BEGIN
+  SELECT * INTO plan_record FROM public.vacation_plans WHERE id = _vacation_plan_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vacation plan not found';
+  END IF;
+
+  requested_at := COALESCE(plan_record.submitted_at, plan_record.created_at);
+
+  -- Every split as requested, including the ones rejected or cancelled since
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('id', vs.id, 'start_date', vs.start_date, 'end_date', vs.end_date)
+    ORDER BY vs.start_date
+  ), '[]'::jsonb)
+  INTO plan_splits
+  FROM public.vacation_splits vs
+  WHERE vs.vacation_plan_id = _vacation_plan_id
+    AND vs.change_type IS DISTINCT FROM 'cancel';
+
+  RETURN check_vacation_rule_values(
+    plan_record.department_id,
+    plan_record.staff_id,
+    plan_splits,
+    requested_at::date,
+    plan_record.id,
+    _max_vacation_splits,
+    _min_vacation_notice_days,
+    _max_concurrent_vacations,
+    requested_at
+  );
+END;
+$$;
+
+-- Rule values are only taken from the workspace or a module admin's simulation
+REVOKE EXECUTE ON FUNCTION public.check_vacation_rule_values(uuid, uuid, jsonb, date, uuid, integer, integer, integer, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.replay_vacation_plan_rules(uuid, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Replay the workspace's vacation plans submitted in the last _months months against
+-- proposed rule values, alongside the violations under the rules currently saved.
+-- Module admins can only simulate their own workspace.
+CREATE OR REPLACE FUNCTION public.simulate_vacation_rules(
+  _workspace_id uuid,
+  _max_vacation_splits integer,
+  _min_vacation_notice_days integer,
+  _max_concurrent_vacations integer,
+  _months integer DEFAULT 6
+)
+RETURNS TABLE (
+  vacation_plan_id uuid,
+  department_id uuid,
+  department_name text,
+  staff_id uuid,
+  staff_name text,
+  status text,
+  submitted_at timestamp with time zone,
+  proposed_violations jsonb,
+  current_violations jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_max_splits INTEGER;
+  current_min_notice INTEGER;
+  current_max_concurrent INTEGER;
+BEGIN
+  IF NOT has_module_admin_access(auth.uid(), 'vacation_planning') THEN
+    RAISE EXCEPTION 'Only vacation module admins can simulate vacation rules';
+  END IF;
+
+  IF NOT has_role(auth.uid(), 'super_admin'::app_role) AND NOT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    LEFT JOIN public.facilities f ON f.id = ur.facility_id
+    LEFT JOIN public.departments d ON d.id = ur.department_id
+    LEFT JOIN public.facilities df ON df.id = d.facility_id
+    WHERE ur.user_id = auth.uid()
+      AND _workspace_id IN (ur.workspace_id, f.workspace_id, df.workspace_id)
+  ) THEN
+    RAISE EXCEPTION 'You can only simulate vacation rules for your own workspace';
+  END IF;
+
+  IF _months < 1 OR _months > 24 THEN
+    RAISE EXCEPTION 'Simulations cover between 1 and 24 months';
+  END IF;
+
+  SELECT
+    COALESCE(w.max_vacation_splits, 6),
+    COALESCE(w.min_vacation_notice_days, 14),
+    COALESCE(w.max_concurrent_vacations, 3)
+  INTO current_max_splits, current_min_notice, current_max_concurrent
+  FROM public.workspaces w
+  WHERE w.id = _workspace_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workspace not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    vp.id,
+    vp.department_id,
+    d.name,
+    vp.staff_id,
+    p.full_name,
+    vp.status,
+    COALESCE(vp.submitted_at, vp.created_at),
+    replay_vacation_plan_rules(vp.id, _max_vacation_splits, _min_vacation_notice_days, _max_concurrent_vacations),
+    replay_vacation_plan_rules(vp.id, current_max_splits, current_min_notice, current_max_concurrent)
+  FROM public.vacation_plans vp
+  JOIN public.departments d ON d.id = vp.department_id
+  JOIN public.facilities f ON f.id = d.facility_id
+  LEFT JOIN public.profiles p ON p.id = vp.staff_id
+  WHERE f.workspace_id = _workspace_id
+    AND vp.status <> 'draft'
+    AND COALESCE(vp.submitted_at, vp.created_at) >= now() - make_interval(months => _months)
+  ORDER BY d.name, COALESCE(vp.submitted_at, vp.created_at);
+END;
+$$;
@@ -0,0 +1,131 @@
+-- Shift trade review re-checks that both shifts still belong to the people trading them, are not
+-- cancelled and have not started, and people taking part in a trade cannot review it
+
+CREATE OR REPLACE FUNCTION public.review_shift_swap(_request_id uuid, _approve boolean, _comment text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request_record RECORD;
+  assignment_record RECORD;
+  target_record RECORD;
+  issues jsonb;
+  hard_violations jsonb;
+BEGIN
+  SELECT * INTO request_record FROM public.shift_swap_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR request_record.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'This shift trade is not awaiting approval';
+  END IF;
+
+  IF NOT has_role(auth.uid(), 'super_admin'::app_role) AND NOT EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = auth.uid()
+      AND ur.role = 'department_head'
+      AND ur.department_id = request_record.department_id
+  ) THEN
+    RAISE EXCEPTION 'Only the department head can review shift trades';
+  END IF;
+
+  IF auth.uid() IN (request_record.requester_id, request_record.taker_id) THEN
+    RAISE EXCEPTION 'You cannot review a shift trade you are part of';
+  END IF;
+
+  IF NOT _approve THEN
+    UPDATE public.shift_swap_requests
+    SET status = 'rejected', reviewed_by = auth.uid(), reviewed_at = now(), review_comment = _comment
+    WHERE id = _request_id;
+    RETURN;
+  END IF;
+
+  -- The shifts may have been reassigned, cancelled or worked since the trade was agreed
+  SELECT sa.staff_id, sa.status, lower(shift_period(sa.assignment_date, sh.start_time, sh.end_time)) AS starts_at
+  INTO assignment_record
+  FROM public.shift_assignments sa
+  JOIN public.shifts sh ON sh.id = sa.shift_id
+  WHERE sa.id = request_record.assignment_id
+  FOR UPDATE OF sa;
+
+  IF NOT FOUND OR assignment_record.staff_id <> request_record.requester_id
+    OR assignment_record.status = 'cancelled' THEN
+    RAISE EXCEPTION 'The offered shift is no longer assigned to the requester';
+  END IF;
+
+  -- Shift times carry no time zone and are compared with the database's local time
+  IF assignment_record.starts_at <= LOCALTIMESTAMP THEN
+    RAISE EXCEPTION 'The offered shift has already started';
+  END IF;
+
+  IF request_record.request_type = 'swap' THEN
+    SELECT sa.staff_id, sa.status, lower(shift_period(sa.assignment_date, sh.start_time, sh.end_time)) AS starts_at
+    INTO target_record
+    FROM public.shift_assignments sa
+    JOIN public.shifts sh ON sh.id = sa.shift_id
+    WHERE sa.id = request_record.target_assignment_id
+    FOR UPDATE OF sa;
+
+    IF NOT FOUND OR target_record.staff_id <> request_record.taker_id OR target_record.status = 'cancelled' THEN
+      RAISE EXCEPTION 'The shift asked for in return is no longer assigned to the colleague';
+    END IF;
+
+    IF target_record.starts_at <= LOCALTIMESTAMP THEN
+      RAISE EXCEPTION 'The shift asked for in return has already started';
+    END IF;
+  END IF;
+
+  issues := check_shift_swap_eligibility(request_record.assignment_id, request_record.taker_id, request_record.target_assignment_id);
+  IF request_record.request_type = 'swap' THEN
+    issues := issues || check_shift_swap_eligibility(
+      request_record.target_assignment_id, request_record.requester_id, request_record.assignment_id
+    );
+  END IF;
+
+  IF jsonb_array_length(issues) > 0 THEN
+    RAISE EXCEPTION 'SHIFT_SWAP_INELIGIBLE' USING DETAIL = issues::text;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(v), '[]'::jsonb)
+  INTO hard_violations
+  FROM (
+    SELECT jsonb_array_elements(check_labor_rules(
+      request_record.taker_id,
+      (SELECT jsonb_agg(jsonb_build_object('shift_id', sa.shift_id, 'assignment_date', sa.assignment_date))
+        FROM public.shift_assignments sa WHERE sa.id = request_record.assignment_id),
+      array_remove(ARRAY[request_record.assignment_id, request_record.target_assignment_id], NULL)
+    )) AS v
+    UNION ALL
+    SELECT jsonb_array_elements(check_labor_rules(
+      request_record.requester_id,
+      (SELECT jsonb_agg(jsonb_build_object('shift_id', sa.shift_id, 'assignment_date', sa.assignment_date))
+        FROM public.shift_assignments sa WHERE sa.id = request_record.target_assignment_id),
+      ARRAY[request_record.assignment_id, request_record.target_assignment_id]
+    ))
+    WHERE request_record.request_type = 'swap'
+  ) checked
+  WHERE v->>'level' = 'hard';
+
+  IF jsonb_array_length(hard_violations) > 0 THEN
+    RAISE EXCEPTION 'LABOR_RULE_VIOLATIONS' USING DETAIL = hard_violations::text;
+  END IF;
+
+  PERFORM set_config('planivo.labor_rules_checked', 'on', true);
+
+  UPDATE public.shift_assignments
+  SET staff_id = request_record.taker_id, assigned_by = auth.uid()
+  WHERE id = request_record.assignment_id;
+
+  IF request_record.request_type = 'swap' THEN
+    UPDATE public.shift_assignments
+    SET staff_id = request_record.requester_id, assigned_by = auth.uid()
+    WHERE id = request_record.target_assignment_id;
+  END IF;
+
+  PERFORM set_config('planivo.labor_rules_checked', 'off', true);
+
+  UPDATE public.shift_swap_requests
+  SET status = 'approved', reviewed_by = auth.uid(), reviewed_at = now(), review_comment = _comment
+  WHERE id = _request_id;
+END;
+$$;
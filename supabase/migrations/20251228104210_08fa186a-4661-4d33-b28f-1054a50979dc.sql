@@ -0,0 +1,43 @@
+-- Availability and shift preferences are visible to whoever schedules the staff member: heads
+-- of their department or specialty and supervisors of its facility. Unavailable hours may run
+-- overnight (end before start, e.g. 22:00 – 06:00).
+
+-- Whether a user schedules a staff member (department or specialty head, facility supervisor or super admin)
+CREATE OR REPLACE FUNCTION public.can_schedule_staff(_user_id uuid, _staff_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, 'super_admin'::app_role) OR EXISTS (
+    SELECT 1
+    FROM public.user_roles member
+    JOIN public.departments d ON d.id IN (member.department_id, member.specialty_id)
+    JOIN public.user_roles ur ON ur.user_id = _user_id
+    WHERE member.user_id = _staff_id
+      AND member.role IN ('staff', 'department_head')
+      AND (
+        (ur.role = 'department_head' AND ur.department_id = d.id)
+        OR (ur.role = 'facility_supervisor' AND ur.facility_id = d.facility_id)
+      )
+  );
+$$;
+
+DROP POLICY IF EXISTS "Department heads can view staff availability" ON public.staff_availability;
+DROP POLICY IF EXISTS "Department heads can view shift preferences" ON public.staff_shift_preferences;
+
+CREATE POLICY "Schedulers can view staff availability"
+  ON public.staff_availability FOR SELECT
+  USING (can_schedule_staff(auth.uid(), staff_id));
+
+CREATE POLICY "Schedulers can view shift preferences"
+  ON public.staff_shift_preferences FOR SELECT
+  USING (can_schedule_staff(auth.uid(), staff_id));
+
+ALTER TABLE public.staff_availability DROP CONSTRAINT staff_availability_hours_check;
+
+ALTER TABLE public.staff_availability ADD CONSTRAINT staff_availability_hours_check CHECK (
+  (start_time IS NULL AND end_time IS NULL)
+  OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time <> start_time)
+);
@@ -0,0 +1,227 @@
+-- Only draft and published schedules can be published; archived schedules stay archived
+CREATE OR REPLACE FUNCTION public.publish_schedule(_schedule_id uuid, _note text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  schedule_status text;
+  previous_revision RECORD;
+  new_revision_id uuid;
+  new_revision_number integer;
+  current_snapshot jsonb;
+BEGIN
+  IF NOT can_manage_schedule(auth.uid(), _schedule_id) THEN
+    RAISE EXCEPTION 'Not allowed to publish this schedule';
+  END IF;
+
+  -- One publish at a time per schedule
+  SELECT status INTO schedule_status FROM public.schedules WHERE id = _schedule_id FOR UPDATE;
+
+  IF schedule_status IS NULL OR schedule_status NOT IN ('draft', 'published') THEN
+    RAISE EXCEPTION 'Only draft or published schedules can be published';
+  END IF;
+
+  UPDATE public.schedules
+  SET status = 'published'
+  WHERE id = _schedule_id AND status <> 'published';
+
+  SELECT * INTO previous_revision
+  FROM public.schedule_revisions
+  WHERE schedule_id = _schedule_id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  new_revision_number := COALESCE(previous_revision.revision_number, 0) + 1;
+  current_snapshot := get_schedule_snapshot(_schedule_id);
+
+  INSERT INTO public.schedule_revisions (schedule_id, revision_number, snapshot, note, published_by)
+  VALUES (_schedule_id, new_revision_number, current_snapshot, NULLIF(trim(_note), ''), auth.uid())
+  RETURNING id INTO new_revision_id;
+
+  UPDATE public.schedule_changes
+  SET revision_id = new_revision_id
+  WHERE schedule_id = _schedule_id AND revision_id IS NULL;
+
+  RETURN jsonb_build_object(
+    'revision_id', new_revision_id,
+    'revision_number', new_revision_number,
+    'previous', previous_revision.snapshot,
+    'current', current_snapshot
+  );
+END;
+$$;
+
+-- Restore the shifts and assignments of an earlier revision and publish them as a new revision.
+-- Worked assignments (completed or with hours recorded) are kept as they are, and restored
+-- assignments are checked against approved vacations and labor rules again, because both may
+-- have changed since the revision was published. Assignments left out are reported the way
+-- duplicate_schedule does: skipped: [{ staff_id, staff_name, date, shift_name, reason, message }]
+CREATE OR REPLACE FUNCTION public.rollback_schedule(_schedule_id uuid, _revision_number integer, _note text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target jsonb;
+  schedule_status text;
+  worked_ids uuid[];
+  worked_shift_ids uuid[];
+  restored RECORD;
+  skipped jsonb;
+  skip jsonb;
+  error_detail text;
+  result jsonb;
+BEGIN
+  IF NOT can_manage_schedule(auth.uid(), _schedule_id) THEN
+    RAISE EXCEPTION 'Not allowed to roll back this schedule';
+  END IF;
+
+  SELECT status INTO schedule_status FROM public.schedules WHERE id = _schedule_id FOR UPDATE;
+  IF schedule_status IS DISTINCT FROM 'published' THEN
+    RAISE EXCEPTION 'Only published schedules can be rolled back';
+  END IF;
+
+  SELECT snapshot INTO target
+  FROM public.schedule_revisions
+  WHERE schedule_id = _schedule_id AND revision_number = _revision_number;
+  IF target IS NULL THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  SELECT COALESCE(array_agg(sa.id), '{}'), COALESCE(array_agg(DISTINCT sa.shift_id), '{}')
+  INTO worked_ids, worked_shift_ids
+  FROM public.shift_assignments sa
+  JOIN public.shifts sh ON sh.id = sa.shift_id
+  WHERE sh.schedule_id = _schedule_id
+    AND (sa.status = 'completed' OR EXISTS (SELECT 1 FROM public.time_entries te WHERE te.assignment_id = sa.id));
+
+  -- Worked assignments added since the revision stay
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'staff_id', sa.staff_id,
+    'staff_name', p.full_name,
+    'date', sa.assignment_date,
+    'shift_name', sh.name,
+    'reason', 'worked',
+    'message', 'Already worked, kept as it is'
+  ) ORDER BY sa.assignment_date, p.full_name), '[]'::jsonb)
+  INTO skipped
+  FROM public.shift_assignments sa
+  JOIN public.shifts sh ON sh.id = sa.shift_id
+  LEFT JOIN public.profiles p ON p.id = sa.staff_id
+  WHERE sa.id = ANY(worked_ids)
+    AND sa.id NOT IN (SELECT (a->>'id')::uuid FROM jsonb_array_elements(target->'assignments') a);
+
+  -- Shifts added since the revision go, with their assignments, unless one of them was worked
+  DELETE FROM public.shifts
+  WHERE schedule_id = _schedule_id
+    AND id NOT IN (SELECT (s->>'id')::uuid FROM jsonb_array_elements(target->'shifts') s)
+    AND id <> ALL(worked_shift_ids);
+
+  INSERT INTO public.shifts
+  SELECT * FROM jsonb_populate_recordset(NULL::public.shifts, target->'shifts')
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    start_time = EXCLUDED.start_time,
+    end_time = EXCLUDED.end_time,
+    shift_order = EXCLUDED.shift_order,
+    required_staff = EXCLUDED.required_staff,
+    color = EXCLUDED.color;
+
+  DELETE FROM public.shift_assignments sa
+  USING public.shifts sh
+  WHERE sh.id = sa.shift_id
+    AND sh.schedule_id = _schedule_id
+    AND sa.id NOT IN (SELECT (a->>'id')::uuid FROM jsonb_array_elements(target->'assignments') a)
+    AND sa.id <> ALL(worked_ids);
+
+  FOR restored IN
+    SELECT a AS data, r.id, r.staff_id, r.shift_id, r.assignment_date, r.status, r.notes,
+      sh.name AS shift_name, sh.start_time, sh.end_time, p.full_name,
+      cur.staff_id = r.staff_id AND cur.shift_id = r.shift_id
+        AND cur.assignment_date = r.assignment_date AND cur.status = r.status AS unchanged,
+      r.id = ANY(worked_ids) AS worked
+    FROM jsonb_array_elements(target->'assignments') a
+    CROSS JOIN LATERAL jsonb_populate_record(NULL::public.shift_assignments, a) r
+    JOIN public.shifts sh ON sh.id = r.shift_id
+    LEFT JOIN public.profiles p ON p.id = r.staff_id
+    LEFT JOIN public.shift_assignments cur ON cur.id = r.id
+    ORDER BY r.assignment_date, sh.shift_order, p.full_name
+  LOOP
+    IF restored.unchanged THEN
+      IF NOT restored.worked THEN
+        UPDATE public.shift_assignments
+        SET notes = restored.notes
+        WHERE id = restored.id AND notes IS DISTINCT FROM restored.notes;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    skip := jsonb_build_object(
+      'staff_id', restored.staff_id,
+      'staff_name', restored.full_name,
+      'date', restored.assignment_date,
+      'shift_name', restored.shift_name
+    );
+
+    IF restored.worked THEN
+      skipped := skipped || (skip || jsonb_build_object(
+        'reason', 'worked',
+        'message', 'Already worked, kept as it is'
+      ));
+      CONTINUE;
+    END IF;
+
+    IF restored.status <> 'cancelled' AND EXISTS (
+      SELECT 1
+      FROM public.vacation_plans vp
+      JOIN public.vacation_splits vs ON vs.vacation_plan_id = vp.id
+      WHERE vp.staff_id = restored.staff_id
+        AND vp.status = 'approved'
+        AND vp.amends_plan_id IS NULL
+        AND COALESCE(vs.status, 'pending') NOT IN ('rejected', 'cancelled')
+        AND vs.change_type IS DISTINCT FROM 'cancel'
+        AND vacation_split_period(vs.start_date, vs.end_date, vs.day_portion, vs.start_time, vs.end_time)
+          && shift_period(restored.assignment_date, restored.start_time, restored.end_time)
+    ) THEN
+      skipped := skipped || (skip || jsonb_build_object(
+        'reason', 'vacation',
+        'message', 'On approved vacation'
+      ));
+      CONTINUE;
+    END IF;
+
+    -- enforce_labor_rules checks the row on insert and on the update below
+    BEGIN
+      INSERT INTO public.shift_assignments
+      SELECT * FROM jsonb_populate_record(NULL::public.shift_assignments, restored.data)
+      ON CONFLICT (id) DO UPDATE SET
+        shift_id = EXCLUDED.shift_id,
+        staff_id = EXCLUDED.staff_id,
+        assignment_date = EXCLUDED.assignment_date,
+        status = EXCLUDED.status,
+        notes = EXCLUDED.notes;
+    EXCEPTION WHEN OTHERS THEN
+      GET STACKED DIAGNOSTICS error_detail = PG_EXCEPTION_DETAIL;
+      IF SQLERRM = 'LABOR_RULE_VIOLATIONS' THEN
+        skipped := skipped || (skip || jsonb_build_object(
+          'reason', 'labor_rules',
+          'message', (SELECT string_agg(v->>'message', '. ') FROM jsonb_array_elements(error_detail::jsonb) v)
+        ));
+      ELSE
+        skipped := skipped || (skip || jsonb_build_object('reason', 'error', 'message', SQLERRM));
+      END IF;
+    END;
+  END LOOP;
+
+  result := publish_schedule(_schedule_id, COALESCE(NULLIF(trim(_note), ''), 'Rolled back to revision ' || _revision_number));
+
+  UPDATE public.schedule_revisions
+  SET rolled_back_to = _revision_number
+  WHERE id = (result->>'revision_id')::uuid;
+
+  RETURN result || jsonb_build_object('skipped', skipped);
+END;
+$$;
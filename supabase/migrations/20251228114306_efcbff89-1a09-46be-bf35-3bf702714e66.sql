@@ -0,0 +1,145 @@
+-- Recorded hours outlive their shift assignment: deleting the assignment (removing staff from the
+-- calendar, rolling back a schedule) only unlinks the entry. The entry keeps the shift it was
+-- worked against, so approved hours stay exportable after the shift changes or goes away.
+ALTER TABLE public.time_entries
+  ALTER COLUMN assignment_id DROP NOT NULL,
+  DROP CONSTRAINT time_entries_assignment_id_fkey,
+  ADD CONSTRAINT time_entries_assignment_id_fkey
+    FOREIGN KEY (assignment_id) REFERENCES public.shift_assignments(id) ON DELETE SET NULL,
+  ADD COLUMN shift_date DATE,
+  ADD COLUMN shift_name TEXT,
+  ADD COLUMN shift_start_time TIME,
+  ADD COLUMN shift_end_time TIME;
+
+UPDATE public.time_entries te
+SET shift_date = sa.assignment_date,
+    shift_name = sh.name,
+    shift_start_time = sh.start_time,
+    shift_end_time = sh.end_time
+FROM public.shift_assignments sa
+JOIN public.shifts sh ON sh.id = sa.shift_id
+WHERE sa.id = te.assignment_id;
+
+ALTER TABLE public.time_entries
+  ALTER COLUMN shift_date SET NOT NULL,
+  ALTER COLUMN shift_name SET NOT NULL,
+  ALTER COLUMN shift_start_time SET NOT NULL,
+  ALTER COLUMN shift_end_time SET NOT NULL;
+
+CREATE INDEX idx_time_entries_department_shift_date ON public.time_entries(department_id, shift_date);
+
+-- Clock in to one of the caller's published, non-cancelled assignments at the server's time
+CREATE OR REPLACE FUNCTION public.clock_in(_assignment_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment_record RECORD;
+  entry_id uuid;
+BEGIN
+  SELECT sa.staff_id, sa.status, sa.assignment_date, sh.name AS shift_name, sh.start_time, sh.end_time,
+    sc.department_id, sc.status AS schedule_status
+  INTO assignment_record
+  FROM public.shift_assignments sa
+  JOIN public.shifts sh ON sh.id = sa.shift_id
+  JOIN public.schedules sc ON sc.id = sh.schedule_id
+  WHERE sa.id = _assignment_id;
+
+  IF NOT FOUND OR assignment_record.staff_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only clock in to your own shifts';
+  END IF;
+
+  IF assignment_record.schedule_status <> 'published' OR assignment_record.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This shift is not on a published schedule';
+  END IF;
+
+  -- Shift times carry no time zone, so the app checks the exact window; this only keeps
+  -- clock-ins to shifts around today
+  IF assignment_record.assignment_date NOT BETWEEN current_date - 1 AND current_date + 1 THEN
+    RAISE EXCEPTION 'You can only clock in on the day of the shift';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.time_entries WHERE assignment_id = _assignment_id) THEN
+    RAISE EXCEPTION 'You already clocked in to this shift';
+  END IF;
+
+  INSERT INTO public.time_entries (
+    assignment_id, staff_id, department_id, clock_in_at,
+    shift_date, shift_name, shift_start_time, shift_end_time
+  )
+  VALUES (
+    _assignment_id, auth.uid(), assignment_record.department_id, now(),
+    assignment_record.assignment_date, assignment_record.shift_name,
+    assignment_record.start_time, assignment_record.end_time
+  )
+  RETURNING id INTO entry_id;
+
+  RETURN entry_id;
+END;
+$$;
+
+-- Record approved hours for a shift the staff member worked without clocking in
+CREATE OR REPLACE FUNCTION public.record_time_entry(
+  _assignment_id uuid,
+  _clock_in_at timestamptz,
+  _clock_out_at timestamptz,
+  _comment text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment_record RECORD;
+  entry_id uuid;
+BEGIN
+  SELECT sa.staff_id, sa.status, sa.assignment_date, sh.name AS shift_name, sh.start_time, sh.end_time,
+    sc.department_id
+  INTO assignment_record
+  FROM public.shift_assignments sa
+  JOIN public.shifts sh ON sh.id = sa.shift_id
+  JOIN public.schedules sc ON sc.id = sh.schedule_id
+  WHERE sa.id = _assignment_id;
+
+  IF NOT FOUND OR assignment_record.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Shift assignment not found';
+  END IF;
+
+  IF NOT has_role(auth.uid(), 'super_admin'::app_role) AND NOT EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = auth.uid()
+      AND ur.role = 'department_head'
+      AND ur.department_id = assignment_record.department_id
+  ) THEN
+    RAISE EXCEPTION 'Only the department head can review timesheets';
+  END IF;
+
+  IF _clock_out_at <= _clock_in_at THEN
+    RAISE EXCEPTION 'Clock-out must be after clock-in';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.time_entries WHERE assignment_id = _assignment_id) THEN
+    RAISE EXCEPTION 'Hours are already recorded for this shift';
+  END IF;
+
+  INSERT INTO public.time_entries (
+    assignment_id, staff_id, department_id, clock_in_at, clock_out_at,
+    shift_date, shift_name, shift_start_time, shift_end_time,
+    status, reviewed_by, reviewed_at, review_comment
+  )
+  VALUES (
+    _assignment_id, assignment_record.staff_id, assignment_record.department_id, _clock_in_at, _clock_out_at,
+    assignment_record.assignment_date, assignment_record.shift_name,
+    assignment_record.start_time, assignment_record.end_time,
+    'approved', auth.uid(), now(), _comment
+  )
+  RETURNING id INTO entry_id;
+
+  UPDATE public.shift_assignments SET status = 'completed' WHERE id = _assignment_id;
+
+  RETURN entry_id;
+END;
+$$;
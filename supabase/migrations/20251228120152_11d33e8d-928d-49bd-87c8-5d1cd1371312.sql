@@ -0,0 +1,172 @@
+-- Nobody but a super admin reviews their own hours. Department heads are rosterable staff, so
+-- their hours go to the next approver level: the supervisors of the department's facility, who
+-- can review any hours of the facility's departments.
+
+-- Whether a user may approve, reject or record hours of a staff member in a department
+CREATE OR REPLACE FUNCTION public.can_review_time_entry(_user_id uuid, _staff_id uuid, _department_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, 'super_admin'::app_role)
+    OR (_user_id <> _staff_id AND EXISTS (
+      SELECT 1
+      FROM public.departments d
+      JOIN public.user_roles ur ON ur.user_id = _user_id
+      WHERE d.id = _department_id
+        AND (
+          (ur.role = 'department_head' AND ur.department_id = d.id)
+          OR (ur.role = 'facility_supervisor' AND ur.facility_id = d.facility_id)
+        )
+    ));
+$$;
+
+CREATE POLICY "Facility supervisors can view time entries"
+  ON public.time_entries FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.departments d
+      JOIN public.user_roles ur ON ur.user_id = auth.uid()
+      WHERE d.id = time_entries.department_id
+        AND ur.role = 'facility_supervisor'
+        AND ur.facility_id = d.facility_id
+    )
+  );
+
+-- Approve or reject clocked hours. Reviewers may correct the times on approval, e.g. when
+-- staff forgot to clock out; the clocked times are kept in original_clock_in_at/_out_at.
+CREATE OR REPLACE FUNCTION public.review_time_entry(
+  _entry_id uuid,
+  _approve boolean,
+  _clock_in_at timestamptz DEFAULT NULL,
+  _clock_out_at timestamptz DEFAULT NULL,
+  _comment text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry_record RECORD;
+  new_clock_in timestamptz;
+  new_clock_out timestamptz;
+BEGIN
+  SELECT * INTO entry_record FROM public.time_entries WHERE id = _entry_id FOR UPDATE;
+
+  IF NOT FOUND OR entry_record.status NOT IN ('open', 'pending') THEN
+    RAISE EXCEPTION 'This time entry is not awaiting approval';
+  END IF;
+
+  IF entry_record.staff_id = auth.uid() AND NOT has_role(auth.uid(), 'super_admin'::app_role) THEN
+    RAISE EXCEPTION 'You cannot review your own hours';
+  END IF;
+
+  IF NOT can_review_time_entry(auth.uid(), entry_record.staff_id, entry_record.department_id) THEN
+    RAISE EXCEPTION 'Only the department head or facility supervisor can review timesheets';
+  END IF;
+
+  IF NOT _approve THEN
+    UPDATE public.time_entries
+    SET status = 'rejected', reviewed_by = auth.uid(), reviewed_at = now(), review_comment = _comment
+    WHERE id = _entry_id;
+    RETURN;
+  END IF;
+
+  new_clock_in := COALESCE(_clock_in_at, entry_record.clock_in_at);
+  new_clock_out := COALESCE(_clock_out_at, entry_record.clock_out_at);
+
+  IF new_clock_out IS NULL THEN
+    RAISE EXCEPTION 'Enter the clock-out time before approving';
+  END IF;
+
+  IF new_clock_out <= new_clock_in THEN
+    RAISE EXCEPTION 'Clock-out must be after clock-in';
+  END IF;
+
+  UPDATE public.time_entries
+  SET clock_in_at = new_clock_in,
+      clock_out_at = new_clock_out,
+      original_clock_in_at = CASE WHEN new_clock_in <> entry_record.clock_in_at
+        THEN COALESCE(entry_record.original_clock_in_at, entry_record.clock_in_at)
+        ELSE entry_record.original_clock_in_at END,
+      original_clock_out_at = CASE WHEN new_clock_out IS DISTINCT FROM entry_record.clock_out_at
+        THEN COALESCE(entry_record.original_clock_out_at, entry_record.clock_out_at)
+        ELSE entry_record.original_clock_out_at END,
+      status = 'approved',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_comment = _comment
+  WHERE id = _entry_id;
+
+  UPDATE public.shift_assignments
+  SET status = 'completed'
+  WHERE id = entry_record.assignment_id AND status <> 'cancelled';
+END;
+$$;
+
+-- Record approved hours for a shift the staff member worked without clocking in
+CREATE OR REPLACE FUNCTION public.record_time_entry(
+  _assignment_id uuid,
+  _clock_in_at timestamptz,
+  _clock_out_at timestamptz,
+  _comment text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment_record RECORD;
+  entry_id uuid;
+BEGIN
+  SELECT sa.staff_id, sa.status, sa.assignment_date, sh.name AS shift_name, sh.start_time, sh.end_time,
+    sc.department_id
+  INTO assignment_record
+  FROM public.shift_assignments sa
+  JOIN public.shifts sh ON sh.id = sa.shift_id
+  JOIN public.schedules sc ON sc.id = sh.schedule_id
+  WHERE sa.id = _assignment_id;
+
+  IF NOT FOUND OR assignment_record.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Shift assignment not found';
+  END IF;
+
+  IF assignment_record.staff_id = auth.uid() AND NOT has_role(auth.uid(), 'super_admin'::app_role) THEN
+    RAISE EXCEPTION 'You cannot record your own hours';
+  END IF;
+
+  IF NOT can_review_time_entry(auth.uid(), assignment_record.staff_id, assignment_record.department_id) THEN
+    RAISE EXCEPTION 'Only the department head or facility supervisor can review timesheets';
+  END IF;
+
+  IF _clock_out_at <= _clock_in_at THEN
+    RAISE EXCEPTION 'Clock-out must be after clock-in';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.time_entries WHERE assignment_id = _assignment_id) THEN
+    RAISE EXCEPTION 'Hours are already recorded for this shift';
+  END IF;
+
+  INSERT INTO public.time_entries (
+    assignment_id, staff_id, department_id, clock_in_at, clock_out_at,
+    shift_date, shift_name, shift_start_time, shift_end_time,
+    status, reviewed_by, reviewed_at, review_comment
+  )
+  VALUES (
+    _assignment_id, assignment_record.staff_id, assignment_record.department_id, _clock_in_at, _clock_out_at,
+    assignment_record.assignment_date, assignment_record.shift_name,
+    assignment_record.start_time, assignment_record.end_time,
+    'approved', auth.uid(), now(), _comment
+  )
+  RETURNING id INTO entry_id;
+
+  UPDATE public.shift_assignments SET status = 'completed' WHERE id = _assignment_id;
+
+  RETURN entry_id;
+END;
+$$;
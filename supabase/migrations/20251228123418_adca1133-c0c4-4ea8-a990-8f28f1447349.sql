@@ -0,0 +1,65 @@
+-- A rule override only covers the violations it was recorded for. Editing a draft after an
+-- override (other dates, more periods) or a new rule breach needs an override of its own.
+
+-- Violations not covered by an override of the plan at a stage. A violation is covered by an
+-- overridden one for the same rule and vacation period; the period count is covered up to the
+-- count that was overridden.
+CREATE OR REPLACE FUNCTION public.get_uncovered_vacation_rule_violations(
+  _vacation_plan_id uuid,
+  _stage text,
+  _violations jsonb
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(v), '[]'::jsonb)
+  FROM jsonb_array_elements(COALESCE(_violations, '[]'::jsonb)) v
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM public.vacation_rule_overrides o
+    CROSS JOIN LATERAL jsonb_array_elements(o.violations) covered
+    WHERE o.vacation_plan_id = _vacation_plan_id
+      AND o.stage = _stage
+      AND covered->>'rule' = v->>'rule'
+      AND (covered->>'start_date') IS NOT DISTINCT FROM (v->>'start_date')
+      AND (covered->>'end_date') IS NOT DISTINCT FROM (v->>'end_date')
+      AND (
+        v->>'rule' <> 'max_vacation_splits'
+        OR (v->>'actual')::integer <= (covered->>'actual')::integer
+      )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_uncovered_vacation_rule_violations(uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Block submission and approval transitions that violate the rules unless an admin override
+-- covers every violation
+CREATE OR REPLACE FUNCTION public.enforce_vacation_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  violations jsonb;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+    OR NEW.status NOT IN ('department_pending', 'facility_pending', 'workspace_pending', 'approved')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  violations := get_uncovered_vacation_rule_violations(NEW.id, OLD.status, validate_vacation_plan_rules(NEW.id));
+
+  IF jsonb_array_length(violations) > 0 THEN
+    RAISE EXCEPTION 'VACATION_RULE_VIOLATIONS'
+      USING DETAIL = violations::text,
+            HINT = 'Vacation module admins can override rule violations with a reason';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
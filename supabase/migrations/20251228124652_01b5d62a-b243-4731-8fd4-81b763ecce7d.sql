@@ -0,0 +1,271 @@
+-- Balances are calculated without a caller check for the ledger triggers, so a delegate can
+-- complete a final approval or amendment for a staff member with an entitlement. Active
+-- delegates of a level a plan of the staff member awaits can also view the balance.
+
+-- Current balance for a staff member and vacation type in the vacation year containing _as_of.
+-- For internal use; callers go through get_vacation_balance.
+CREATE OR REPLACE FUNCTION public.calculate_vacation_balance(_staff_id UUID, _vacation_type_id UUID, _as_of DATE DEFAULT CURRENT_DATE)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ent RECORD;
+  year_start DATE;
+  year_end DATE;
+  accrued NUMERIC;
+  carried_over NUMERIC;
+  used NUMERIC;
+  adjustments NUMERIC;
+  pending NUMERIC;
+  balance NUMERIC;
+BEGIN
+  year_start := get_vacation_year_start(_staff_id, _as_of);
+  year_end := (year_start + INTERVAL '1 year' - INTERVAL '1 day')::DATE;
+
+  SELECT * INTO ent
+  FROM public.vacation_entitlements
+  WHERE staff_id = _staff_id AND vacation_type_id = _vacation_type_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'tracked', false,
+      'year_start', year_start,
+      'year_end', year_end
+    );
+  END IF;
+
+  accrued := calculate_vacation_accrual(ent.annual_days, ent.accrual_method, ent.effective_from, year_start, _as_of);
+  carried_over := get_vacation_carry_over(_staff_id, _vacation_type_id, year_start);
+
+  SELECT
+    COALESCE(-SUM(days) FILTER (WHERE entry_type IN ('debit', 'credit')), 0),
+    COALESCE(SUM(days) FILTER (WHERE entry_type = 'adjustment'), 0)
+  INTO used, adjustments
+  FROM public.vacation_balance_ledger
+  WHERE staff_id = _staff_id
+    AND vacation_type_id = _vacation_type_id
+    AND effective_date BETWEEN year_start AND year_end;
+
+  -- Submitted plans that have not been debited yet (amendments settle their difference on approval)
+  SELECT COALESCE(SUM(vp.total_days), 0) INTO pending
+  FROM public.vacation_plans vp
+  WHERE vp.staff_id = _staff_id
+    AND vp.vacation_type_id = _vacation_type_id
+    AND vp.status IN ('department_pending', 'facility_pending', 'workspace_pending')
+    AND vp.amends_plan_id IS NULL
+    AND (
+      SELECT MIN(vs.start_date) FROM public.vacation_splits vs WHERE vs.vacation_plan_id = vp.id
+    ) BETWEEN year_start AND year_end;
+
+  balance := accrued + carried_over + adjustments - used;
+
+  RETURN jsonb_build_object(
+    'tracked', true,
+    'year_start', year_start,
+    'year_end', year_end,
+    'annual_days', ent.annual_days,
+    'accrual_method', ent.accrual_method,
+    'accrued', accrued,
+    'carried_over', carried_over,
+    'adjustments', adjustments,
+    'used', used,
+    'pending', pending,
+    'balance', balance,
+    'available', balance - pending
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calculate_vacation_balance(uuid, uuid, date) FROM PUBLIC, anon, authenticated;
+
+-- Current balance for the staff member themselves, their managers, whoever created a plan for
+-- them and active delegates of a level one of their plans is waiting for
+CREATE OR REPLACE FUNCTION public.get_vacation_balance(_staff_id UUID, _vacation_type_id UUID, _as_of DATE DEFAULT CURRENT_DATE)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND auth.uid() <> _staff_id
+    AND NOT can_manage_staff_vacation(auth.uid(), _staff_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.vacation_plans
+      WHERE staff_id = _staff_id AND created_by = auth.uid()
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.vacation_plans vp
+      CROSS JOIN generate_series(1, 3) AS approval_level
+      WHERE vp.staff_id = _staff_id
+        AND vp.status = get_vacation_level_status(approval_level)
+        AND get_vacation_delegator(
+          auth.uid(), approval_level, get_vacation_approval_scope(vp.department_id, approval_level)
+        ) IS NOT NULL
+    )
+  THEN
+    RAISE EXCEPTION 'Not authorized to view this vacation balance';
+  END IF;
+
+  RETURN calculate_vacation_balance(_staff_id, _vacation_type_id, _as_of);
+END;
+$$;
+
+-- Debit the ledger on final approval and credit it back when an approved plan is rejected or cancelled
+CREATE OR REPLACE FUNCTION public.handle_vacation_plan_ledger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  debit_date DATE;
+  balance_data jsonb;
+  net_debited NUMERIC;
+BEGIN
+  -- Amendments are settled on the original plan by apply_vacation_amendment
+  IF NEW.amends_plan_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.vacation_entitlements
+      WHERE staff_id = NEW.staff_id AND vacation_type_id = NEW.vacation_type_id
+    ) THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT MIN(start_date) INTO debit_date
+    FROM public.vacation_splits
+    WHERE vacation_plan_id = NEW.id
+      AND COALESCE(status, 'pending') NOT IN ('rejected', 'cancelled');
+
+    debit_date := COALESCE(debit_date, CURRENT_DATE);
+    balance_data := calculate_vacation_balance(NEW.staff_id, NEW.vacation_type_id, debit_date);
+
+    IF (balance_data->>'balance')::NUMERIC < NEW.total_days THEN
+      RAISE EXCEPTION 'Insufficient vacation balance: % days available, % days requested',
+        balance_data->>'balance', NEW.total_days;
+    END IF;
+
+    INSERT INTO public.vacation_balance_ledger
+      (staff_id, vacation_type_id, vacation_plan_id, entry_type, days, effective_date, reason, created_by)
+    VALUES
+      (NEW.staff_id, NEW.vacation_type_id, NEW.id, 'debit', -NEW.total_days, debit_date, 'Vacation plan approved', auth.uid());
+
+  ELSIF OLD.status = 'approved' AND NEW.status IN ('rejected', 'cancelled') THEN
+    SELECT COALESCE(SUM(days), 0), MIN(effective_date) INTO net_debited, debit_date
+    FROM public.vacation_balance_ledger
+    WHERE vacation_plan_id = NEW.id
+      AND entry_type IN ('debit', 'credit');
+
+    IF net_debited < 0 THEN
+      INSERT INTO public.vacation_balance_ledger
+        (staff_id, vacation_type_id, vacation_plan_id, entry_type, days, effective_date, reason, created_by)
+      VALUES
+        (NEW.staff_id, NEW.vacation_type_id, NEW.id, 'credit', -net_debited, debit_date, 'Vacation plan ' || NEW.status, auth.uid());
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Approved changes also carry the part of day over to the original split
+CREATE OR REPLACE FUNCTION public.apply_vacation_amendment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original_record RECORD;
+  change_record RECORD;
+  net_debited NUMERIC;
+  ledger_delta NUMERIC;
+  ledger_date DATE;
+  balance_data jsonb;
+BEGIN
+  SELECT * INTO original_record
+  FROM public.vacation_plans
+  WHERE id = NEW.amends_plan_id
+  FOR UPDATE;
+
+  IF original_record.status IS DISTINCT FROM 'approved' THEN
+    RAISE EXCEPTION 'The original vacation plan is no longer approved';
+  END IF;
+
+  FOR change_record IN
+    SELECT * FROM public.vacation_splits
+    WHERE vacation_plan_id = NEW.id
+      AND COALESCE(status, 'pending') <> 'rejected'
+  LOOP
+    IF change_record.change_type = 'cancel' THEN
+      UPDATE public.vacation_splits
+      SET status = 'cancelled'
+      WHERE id = change_record.original_split_id;
+    ELSE
+      UPDATE public.vacation_splits
+      SET start_date = change_record.start_date,
+          end_date = change_record.end_date,
+          day_portion = change_record.day_portion,
+          start_time = change_record.start_time,
+          end_time = change_record.end_time
+      WHERE id = change_record.original_split_id;
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.vacation_splits
+    WHERE vacation_plan_id = original_record.id
+      AND COALESCE(status, 'pending') NOT IN ('rejected', 'cancelled')
+  ) THEN
+    UPDATE public.vacation_plans
+    SET status = 'cancelled'
+    WHERE id = original_record.id;
+
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(days), 0), MIN(effective_date) INTO net_debited, ledger_date
+  FROM public.vacation_balance_ledger
+  WHERE vacation_plan_id = original_record.id
+    AND entry_type IN ('debit', 'credit');
+
+  -- Untracked plans were never debited
+  IF net_debited = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  -- total_days was updated by sync_vacation_plan_total_days
+  SELECT -total_days - net_debited INTO ledger_delta
+  FROM public.vacation_plans
+  WHERE id = original_record.id;
+
+  IF ledger_delta < 0 THEN
+    balance_data := calculate_vacation_balance(original_record.staff_id, original_record.vacation_type_id, ledger_date);
+
+    IF (balance_data->>'balance')::NUMERIC < -ledger_delta THEN
+      RAISE EXCEPTION 'Insufficient vacation balance: % days available, % more days requested',
+        balance_data->>'balance', -ledger_delta;
+    END IF;
+  END IF;
+
+  IF ledger_delta <> 0 THEN
+    INSERT INTO public.vacation_balance_ledger
+      (staff_id, vacation_type_id, vacation_plan_id, entry_type, days, effective_date, reason, created_by)
+    VALUES
+      (original_record.staff_id, original_record.vacation_type_id, original_record.id,
+       CASE WHEN ledger_delta < 0 THEN 'debit' ELSE 'credit' END,
+       ledger_delta, ledger_date, 'Vacation plan amended', auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
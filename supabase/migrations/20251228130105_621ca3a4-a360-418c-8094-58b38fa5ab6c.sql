@@ -0,0 +1,38 @@
+-- A plan is never approved without review: when every level of its chain is skipped because
+-- nobody is assigned, submission fails instead of approving the plan straight away.
+
+-- Route submissions and approvals through the configured chain. Clients request the
+-- next step (e.g. department_pending on submit); the chain decides where the plan goes.
+CREATE OR REPLACE FUNCTION public.enforce_vacation_approval_chain()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+    OR NEW.status NOT IN ('department_pending', 'facility_pending', 'workspace_pending', 'approved')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'draft' THEN
+    IF cardinality(get_vacation_approval_chain(NEW.id)) = 0 THEN
+      RAISE EXCEPTION 'No vacation approver is assigned for this department, ask an administrator to assign one before submitting';
+    END IF;
+
+    NEW.status := get_next_vacation_status(NEW.id);
+  ELSIF OLD.status IN ('department_pending', 'facility_pending', 'workspace_pending') THEN
+    NEW.status := get_next_vacation_status(
+      NEW.id,
+      CASE OLD.status
+        WHEN 'department_pending' THEN 1
+        WHEN 'facility_pending' THEN 2
+        WHEN 'workspace_pending' THEN 3
+      END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,255 @@
+-- Plans escalated to the workspace general admins (SLA escalate_to = 'general_admin', or the
+-- last level of the chain) stay at their level; the general admins can now review them there.
+
+-- Whether a user is a general admin of the plan's workspace and the plan was escalated to
+-- them at the level it waits at
+CREATE OR REPLACE FUNCTION public.is_vacation_escalation_admin(_user_id uuid, _vacation_plan_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.vacation_plans vp
+    JOIN public.departments d ON d.id = vp.department_id
+    JOIN public.facilities f ON f.id = d.facility_id
+    JOIN public.user_roles ur
+      ON ur.user_id = _user_id
+      AND ur.role = 'general_admin'::app_role
+      AND ur.workspace_id = f.workspace_id
+    JOIN public.vacation_approval_escalations vae ON vae.vacation_plan_id = vp.id
+    WHERE vp.id = _vacation_plan_id
+      AND vae.event_type = 'escalated'
+      AND vae.escalated_to_role = 'general_admin'
+      AND get_vacation_level_status(vae.approval_level) = vp.status
+      AND vae.created_at >= vp.status_changed_at
+  )
+$$;
+
+CREATE POLICY "General admins can view plans escalated to them"
+  ON public.vacation_plans FOR SELECT
+  USING (is_vacation_escalation_admin(auth.uid(), id));
+
+CREATE POLICY "General admins can view splits of plans escalated to them"
+  ON public.vacation_splits FOR SELECT
+  USING (is_vacation_escalation_admin(auth.uid(), vacation_plan_id));
+
+CREATE POLICY "General admins can view approvals of plans escalated to them"
+  ON public.vacation_approvals FOR SELECT
+  USING (is_vacation_escalation_admin(auth.uid(), vacation_plan_id));
+
+-- The first approval checks the approved splits for overlapping vacations, blackout periods
+-- and staffing shortages (guardrails per split); they are acknowledged with a conflict reason
+-- and recorded in vacation_approvals.guardrail_issues. Later approvals acknowledge the
+-- conflicts accepted before them.
+-- Returns { outcome, status, ... } where outcome is one of:
+--   completed          - changes applied, status is the plan's new status
+--   conflicts          - first approval overlaps other vacations, falls in a blackout period
+--                        or leaves the department short-staffed (conflicts and guardrails per split)
+--   previous_conflicts - earlier approvals accepted conflicts (previous_conflicts)
+--   rule_violations    - approved splits break workspace rules (violations)
+-- Pass _conflict_reason to acknowledge conflicts and _override_reason to override rules.
+CREATE OR REPLACE FUNCTION public.approve_vacation_plan(
+  _vacation_plan_id uuid,
+  _approval_level integer,
+  _action text DEFAULT 'approve',
+  _split_ids uuid[] DEFAULT NULL,
+  _comments text DEFAULT NULL,
+  _conflict_reason text DEFAULT NULL,
+  _override_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_record RECORD;
+  level_scope_id uuid;
+  acting_for_id uuid;
+  previously_approved boolean;
+  split_conflicts jsonb := '[]'::jsonb;
+  split_guardrails jsonb := '[]'::jsonb;
+  accepted_conflicts jsonb;
+  previous_conflicts jsonb;
+  violations jsonb;
+  new_status text;
+BEGIN
+  IF _action NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Invalid approval action: %', _action;
+  END IF;
+
+  SELECT * INTO plan_record
+  FROM public.vacation_plans
+  WHERE id = _vacation_plan_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vacation plan not found';
+  END IF;
+
+  IF plan_record.status IS DISTINCT FROM get_vacation_level_status(_approval_level) THEN
+    RAISE EXCEPTION 'Vacation plan is not awaiting level % approval', _approval_level;
+  END IF;
+
+  -- The caller must be the approver for the level, their active delegate, or a general admin
+  -- the plan was escalated to
+  level_scope_id := get_vacation_approval_scope(plan_record.department_id, _approval_level);
+
+  IF NOT is_vacation_approver(auth.uid(), _approval_level, level_scope_id) THEN
+    acting_for_id := get_vacation_delegator(auth.uid(), _approval_level, level_scope_id);
+
+    IF acting_for_id IS NULL AND NOT is_vacation_escalation_admin(auth.uid(), _vacation_plan_id) THEN
+      RAISE EXCEPTION 'You are not allowed to review vacation plans at level %', _approval_level;
+    END IF;
+  END IF;
+
+  IF _action = 'reject' AND COALESCE(trim(_comments), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a vacation plan';
+  END IF;
+
+  IF _action = 'approve' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.vacation_splits
+      WHERE vacation_plan_id = _vacation_plan_id
+        AND id = ANY(COALESCE(_split_ids, '{}'))
+    ) THEN
+      RAISE EXCEPTION 'Select at least one vacation segment to approve';
+    END IF;
+
+    previously_approved := EXISTS (
+      SELECT 1 FROM public.vacation_approvals
+      WHERE vacation_plan_id = _vacation_plan_id
+        AND approval_level <> _approval_level
+        AND status = 'approved'
+    );
+
+    IF NOT previously_approved THEN
+      -- First approval: check the approved splits for overlapping vacations
+      SELECT COALESCE(jsonb_agg(split_conflict), '[]'::jsonb) INTO split_conflicts
+      FROM jsonb_array_elements(check_vacation_conflicts(_vacation_plan_id, plan_record.department_id)) split_conflict
+      WHERE (split_conflict->>'split_id')::uuid = ANY(_split_ids)
+        AND jsonb_typeof(split_conflict->'conflicts') = 'array';
+
+      -- ...and for blackout periods and minimum staffing
+      SELECT COALESCE(jsonb_agg(split_issue), '[]'::jsonb) INTO split_guardrails
+      FROM jsonb_array_elements(check_vacation_guardrails(ARRAY[_vacation_plan_id])) split_issue
+      WHERE (split_issue->>'split_id')::uuid = ANY(_split_ids);
+
+      IF (jsonb_array_length(split_conflicts) > 0 OR jsonb_array_length(split_guardrails) > 0)
+        AND _conflict_reason IS NULL
+      THEN
+        RETURN jsonb_build_object(
+          'outcome', 'conflicts',
+          'status', plan_record.status,
+          'conflicts', split_conflicts,
+          'guardrails', split_guardrails
+        );
+      END IF;
+    ELSIF _conflict_reason IS NULL THEN
+      -- Later approvals acknowledge conflicts accepted by earlier ones
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'approval_level', va.approval_level,
+          'conflict_reason', va.conflict_reason,
+          'conflicting_plans', va.conflicting_plans,
+          'guardrail_issues', va.guardrail_issues,
+          'profiles', jsonb_build_object('full_name', approver.full_name),
+          'delegator', CASE WHEN va.on_behalf_of IS NOT NULL
+            THEN jsonb_build_object('full_name', delegator.full_name)
+          END
+        )
+        ORDER BY va.approval_level
+      )
+      INTO previous_conflicts
+      FROM public.vacation_approvals va
+      LEFT JOIN public.profiles approver ON approver.id = va.approver_id
+      LEFT JOIN public.profiles delegator ON delegator.id = va.on_behalf_of
+      WHERE va.vacation_plan_id = _vacation_plan_id
+        AND va.has_conflict
+        AND va.approval_level <> _approval_level
+        AND va.status = 'approved';
+
+      IF previous_conflicts IS NOT NULL THEN
+        RETURN jsonb_build_object(
+          'outcome', 'previous_conflicts',
+          'status', plan_record.status,
+          'previous_conflicts', previous_conflicts
+        );
+      END IF;
+    END IF;
+
+    -- Workspace rules for the splits being approved
+    violations := validate_vacation_plan_rules(_vacation_plan_id, _split_ids);
+
+    IF jsonb_array_length(violations) > 0 THEN
+      IF _override_reason IS NULL THEN
+        RETURN jsonb_build_object(
+          'outcome', 'rule_violations',
+          'status', plan_record.status,
+          'violations', violations
+        );
+      END IF;
+
+      IF NOT has_module_admin_access(auth.uid(), 'vacation_planning') THEN
+        RAISE EXCEPTION 'Only vacation module admins can override rule violations';
+      END IF;
+
+      INSERT INTO public.vacation_rule_overrides
+        (vacation_plan_id, stage, violations, reason, overridden_by)
+      VALUES
+        (_vacation_plan_id, plan_record.status, violations, _override_reason, auth.uid());
+    END IF;
+
+    -- Unselected splits are rejected; total_days follows through sync_vacation_plan_total_days
+    UPDATE public.vacation_splits
+    SET status = CASE WHEN id = ANY(_split_ids) THEN 'approved' ELSE 'rejected' END
+    WHERE vacation_plan_id = _vacation_plan_id;
+
+    SELECT jsonb_agg(conflicting_plan) INTO accepted_conflicts
+    FROM jsonb_array_elements(split_conflicts) split_conflict,
+      jsonb_array_elements(split_conflict->'conflicts') conflicting_plan;
+  END IF;
+
+  INSERT INTO public.vacation_approvals (
+    vacation_plan_id, approval_level, approver_id, on_behalf_of, status,
+    comments, has_conflict, conflict_reason, conflicting_plans, guardrail_issues
+  )
+  VALUES (
+    _vacation_plan_id,
+    _approval_level,
+    auth.uid(),
+    acting_for_id,
+    CASE _action WHEN 'approve' THEN 'approved' ELSE 'rejected' END,
+    NULLIF(trim(_comments), ''),
+    _conflict_reason IS NOT NULL,
+    NULLIF(trim(_conflict_reason), ''),
+    accepted_conflicts,
+    CASE WHEN jsonb_array_length(split_guardrails) > 0 THEN split_guardrails END
+  )
+  ON CONFLICT (vacation_plan_id, approval_level) DO UPDATE SET
+    approver_id = EXCLUDED.approver_id,
+    on_behalf_of = EXCLUDED.on_behalf_of,
+    status = EXCLUDED.status,
+    comments = EXCLUDED.comments,
+    has_conflict = EXCLUDED.has_conflict,
+    conflict_reason = EXCLUDED.conflict_reason,
+    conflicting_plans = EXCLUDED.conflicting_plans,
+    guardrail_issues = EXCLUDED.guardrail_issues,
+    updated_at = now();
+
+  -- The approval chain trigger routes approvals to the plan's next level
+  UPDATE public.vacation_plans
+  SET status = CASE _action WHEN 'approve' THEN get_next_vacation_status(_vacation_plan_id, _approval_level) ELSE 'rejected' END
+  WHERE id = _vacation_plan_id
+  RETURNING status INTO new_status;
+
+  RETURN jsonb_build_object(
+    'outcome', 'completed',
+    'status', new_status,
+    'on_behalf_of', acting_for_id
+  );
+END;
+$$;